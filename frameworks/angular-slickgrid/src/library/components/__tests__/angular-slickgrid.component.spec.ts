@@ -84,10 +84,13 @@ class ExcelExportService {
 
 const backendUtilityServiceStub = {
   addRxJsResource: vi.fn(),
+  dispose: vi.fn(),
   executeBackendProcessesCallback: vi.fn(),
   executeBackendCallback: vi.fn(),
+  init: vi.fn(),
   onBackendError: vi.fn(),
   refreshBackendDataset: vi.fn(),
+  setCachedResult: vi.fn(),
   setInfiniteScrollBottomHit: vi.fn(),
 } as unknown as BackendUtilityService;
 
@@ -2,9 +2,11 @@ import type {
   Column,
   ColumnSort,
   CurrentFilter,
+  CurrentGlobalSearch,
   CurrentSorter,
   DragRowMove,
   ExportTextDownloadOption,
+  FilterExpressionGroup,
   GridMenuCommandItemCallbackArgs,
   GridMenuEventWithElementCallbackArgs,
   GridSize,
@@ -42,6 +44,7 @@ import type {
   OnFooterRowCellRenderedEventArgs,
   OnGroupCollapsedEventArgs,
   OnGroupExpandedEventArgs,
+  OnGroupingChangedEventArgs,
   OnHeaderCellRenderedEventArgs,
   OnHeaderClickEventArgs,
   OnHeaderContextMenuEventArgs,
@@ -157,6 +160,7 @@ export interface AngularSlickgridOutputs {
   onBeforePagingInfoChanged: (e: PagingInfo) => void;
   onGroupExpanded: (e: OnGroupExpandedEventArgs) => void;
   onGroupCollapsed: (e: OnGroupCollapsedEventArgs) => void;
+  onGroupingChanged: (e: OnGroupingChangedEventArgs) => void;
   onPagingInfoChanged: (e: PagingInfo) => void;
   onRowCountChanged: (e: OnRowCountChangedEventArgs) => void;
   onRowsChanged: (e: OnRowsChangedEventArgs) => void;
@@ -227,6 +231,8 @@ export interface AngularSlickgridOutputs {
   onSortCleared: (e: boolean) => void;
   onFilterChanged: (e: CurrentFilter[]) => void;
   onFilterCleared: (e: boolean) => void;
+  onFilterExpressionChanged: (e: FilterExpressionGroup) => void;
+  onGlobalSearchChanged: (e: CurrentGlobalSearch) => void;
   onSortChanged: (e: CurrentSorter[]) => void;
   onTreeItemToggled: (e: TreeToggleStateChange) => void;
   onTreeFullToggleEnd: (e: TreeToggleStateChange) => void;
@@ -17,7 +17,9 @@ import {
 import { TranslateService } from '@ngx-translate/core';
 import {
   autoAddEditorFormatterToColumnsWithEditor,
+  BackendGroupingService,
   BackendUtilityService,
+  BackendViewportService,
   CollectionService,
   emptyElement,
   ExtensionService,
@@ -41,6 +43,7 @@ import {
   SlickGroupItemMetadataProvider,
   SortService,
   TreeDataService,
+  UndoRedoService,
   unsubscribeAll,
   type AutocompleterEditor,
   type BackendService,
@@ -52,6 +55,7 @@ import {
   type DataViewOption,
   type EventSubscription,
   type ExternalResource,
+  type InfiniteScrollOption,
   type Locale,
   type Metrics,
   type Pagination,
@@ -137,6 +141,8 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
 
   // services
   backendUtilityService!: BackendUtilityService;
+  backendGroupingService: BackendGroupingService;
+  backendViewportService: BackendViewportService;
   collectionService: CollectionService;
   extensionService: ExtensionService;
   extensionUtility: ExtensionUtility;
@@ -152,6 +158,7 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
   sharedService: SharedService;
   sortService: SortService;
   treeDataService: TreeDataService;
+  undoRedoService: UndoRedoService;
 
   @Input() customDataView: CustomDataView | undefined;
   @Input() gridId = '';
@@ -246,6 +253,7 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
   onBeforePagingInfoChanged = output<SlickEventOutput<AngularSlickgridOutputs['onBeforePagingInfoChanged']>>();
   onGroupExpanded = output<SlickEventOutput<AngularSlickgridOutputs['onGroupExpanded']>>();
   onGroupCollapsed = output<SlickEventOutput<AngularSlickgridOutputs['onGroupCollapsed']>>();
+  onGroupingChanged = output<SlickEventOutput<AngularSlickgridOutputs['onGroupingChanged']>>();
   onPagingInfoChanged = output<SlickEventOutput<AngularSlickgridOutputs['onPagingInfoChanged']>>();
   onRowCountChanged = output<SlickEventOutput<AngularSlickgridOutputs['onRowCountChanged']>>();
   onRowsChanged = output<SlickEventOutput<AngularSlickgridOutputs['onRowsChanged']>>();
@@ -309,6 +317,8 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
   onSortCleared = output<RegularEventOutput<AngularSlickgridOutputs['onSortCleared']>>();
   onFilterChanged = output<RegularEventOutput<AngularSlickgridOutputs['onFilterChanged']>>();
   onFilterCleared = output<RegularEventOutput<AngularSlickgridOutputs['onFilterCleared']>>();
+  onFilterExpressionChanged = output<RegularEventOutput<AngularSlickgridOutputs['onFilterExpressionChanged']>>();
+  onGlobalSearchChanged = output<RegularEventOutput<AngularSlickgridOutputs['onGlobalSearchChanged']>>();
   onSortChanged = output<RegularEventOutput<AngularSlickgridOutputs['onSortChanged']>>();
   onTreeItemToggled = output<RegularEventOutput<AngularSlickgridOutputs['onTreeItemToggled']>>();
   onTreeFullToggleEnd = output<RegularEventOutput<AngularSlickgridOutputs['onTreeFullToggleEnd']>>();
@@ -436,6 +446,10 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
     this._eventPubSubService.eventNamingStyle = 'camelCase';
 
     this.backendUtilityService = externalServices?.backendUtilityService ?? new BackendUtilityService();
+    this.backendGroupingService =
+      externalServices?.backendGroupingService ?? new BackendGroupingService(this.backendUtilityService, this._eventPubSubService);
+    this.backendViewportService =
+      externalServices?.backendViewportService ?? new BackendViewportService(this.backendUtilityService, this._eventPubSubService);
     this.gridEventService = externalServices?.gridEventService ?? new GridEventService();
     this.sharedService = externalServices?.sharedService ?? new SharedService();
     this.collectionService = externalServices?.collectionService ?? new CollectionService(this.translaterService);
@@ -465,6 +479,9 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
         () => this.gridService
       );
 
+    // prettier-ignore
+    this.undoRedoService = externalServices?.undoRedoService ?? new UndoRedoService(this.extensionService, this._eventPubSubService);
+
     // prettier-ignore
     /* v8 ignore next 8 */
     this.gridStateService = externalServices?.gridStateService ?? new GridStateService(
@@ -477,7 +494,7 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
     );
 
     // prettier-ignore
-    /* v8 ignore next 9 */
+    /* v8 ignore next 10 */
     this.gridService = externalServices?.gridService ?? new GridService(
       this.gridStateService,
       this.filterService,
@@ -485,11 +502,16 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
       this.paginationService,
       this.sharedService,
       this.sortService,
-      this.treeDataService
+      this.treeDataService,
+      this.undoRedoService,
+      this.backendUtilityService
     );
     this.headerGroupingService = externalServices?.headerGroupingService ?? new HeaderGroupingService(this.extensionUtility);
 
     this.serviceList = [
+      this.backendGroupingService,
+      this.backendUtilityService,
+      this.backendViewportService,
       this.containerService,
       this.extensionService,
       this.filterService,
@@ -501,6 +523,7 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
       this.resizerService,
       this.sortService,
       this.treeDataService,
+      this.undoRedoService,
     ];
 
     // register all Service instances in the container
@@ -520,6 +543,7 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
     this.containerService.registerInstance('PubSubService', this._eventPubSubService);
     this.containerService.registerInstance('TranslaterService', this.translaterService);
     this.containerService.registerInstance('TreeDataService', this.treeDataService);
+    this.containerService.registerInstance('UndoRedoService', this.undoRedoService);
   }
 
   ngAfterViewInit() {
@@ -757,6 +781,11 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
     this.registerResources();
 
     this.extensionService.bindDifferentExtensions();
+
+    // the Undo/Redo Service must be initialized after all extensions are bound since it also records the Excel Copy Buffer & Row Move changes
+    if (this.options.enableUndoRedo) {
+      this.undoRedoService.init(this.slickGrid);
+    }
     this.bindDifferentHooks(this.slickGrid, this.options, this.dataView);
 
     // when it's a frozen grid, we need to keep the frozen column id for reference if we ever show/hide column from ColumnPicker/GridMenu afterward
@@ -880,6 +909,7 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
       resizerService: this.resizerService,
       sortService: this.sortService,
       treeDataService: this.treeDataService,
+      undoRedoService: this.undoRedoService,
     };
 
     // all instances (SlickGrid, DataView & all Services)
@@ -1179,6 +1209,9 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
     const isExecuteCommandOnInit = (!serviceOptions) ? false : ((serviceOptions && 'executeProcessCommandOnInit' in serviceOptions) ? serviceOptions['executeProcessCommandOnInit'] : true);
 
     if (backendApiService) {
+      // the grid is required by the loading & error overlay of the backend processes
+      this.backendUtilityService.init(this.slickGrid);
+
       // update backend filters (if need be) BEFORE the query runs (via the onInit command a few lines below)
       // if user entered some any "presets", we need to reflect them all in the grid
       if (gridOptions?.presets) {
@@ -1186,6 +1219,14 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
         if (backendApiService.updateFilters && Array.isArray(gridOptions.presets.filters) && gridOptions.presets.filters.length > 0) {
           backendApiService.updateFilters(gridOptions.presets.filters, true);
         }
+        // Global Search "presets"
+        if (backendApiService.updateGlobalSearch && gridOptions.presets.globalSearch?.searchTerm) {
+          backendApiService.updateGlobalSearch(gridOptions.presets.globalSearch);
+        }
+        // Filter Expression "presets"
+        if (backendApiService.updateFilterExpression && gridOptions.presets.filterExpression) {
+          backendApiService.updateFilterExpression(gridOptions.presets.filterExpression);
+        }
         // Sorters "presets"
         if (backendApiService.updateSorters && Array.isArray(gridOptions.presets.sorters) && gridOptions.presets.sorters.length > 0) {
           // when using multi-column sort, we can have multiple but on single sort then only grab the first sort provided
@@ -1204,11 +1245,19 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
         }
       }
 
+      // when using server-side grouping, the grouping service takes over the dataset and the grouping must be known before the onInit query
+      if (serviceOptions.serverSideGrouping) {
+        this.backendGroupingService.init(this.slickGrid, this.dataView);
+      }
+
       // execute onInit command when necessary
       if (backendApi && backendApiService && (backendApi.onInit || isExecuteCommandOnInit)) {
         const query = typeof backendApiService.buildQuery === 'function' ? backendApiService.buildQuery() : '';
         // prettier-ignore
-        const process = (isExecuteCommandOnInit) ? (backendApi.process && backendApi.process(query) || null) : (backendApi.onInit && backendApi.onInit(query) || null);
+        const processOptions = { variables: backendApiService.getQueryVariables?.() };
+        const process = isExecuteCommandOnInit
+          ? (backendApi.process && backendApi.process(query, processOptions)) || null
+          : (backendApi.onInit && backendApi.onInit(query, processOptions)) || null;
 
         // wrap this inside a microtask to be executed at the end of the task and avoid timing issue since the gridOptions needs to be ready before running this onInit
         queueMicrotask(() => {
@@ -1226,15 +1275,18 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
           const totalItems = this.options?.pagination?.totalItems ?? 0;
           if (process instanceof Promise) {
             process
-              .then((processResult: any) =>
-                backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems)
-              )
+              .then((processResult: any) => {
+                backendUtilityService.setCachedResult(backendApi, query, processResult, processOptions.variables);
+                backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems);
+              })
               .catch((error) => backendUtilityService.onBackendError(error, backendApi));
           } else if (process && this.rxjs?.isObservable(process)) {
             this.subscriptions.push(
               (process as Observable<any>).subscribe({
-                next: (processResult: any) =>
-                  backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems),
+                next: (processResult: any) => {
+                  backendUtilityService.setCachedResult(backendApi, query, processResult, processOptions.variables);
+                  backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems);
+                },
                 error: (error: any) => backendUtilityService.onBackendError(error, backendApi),
               })
             );
@@ -1242,9 +1294,13 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
         });
       }
 
-      // when user enables Infinite Scroll
+      // when user enables Infinite Scroll, the "viewport" mode uses a virtual data source that lazy loads the rows visible in the viewport
       if (backendApi.service.options?.infiniteScroll) {
-        this.addBackendInfiniteScrollCallback();
+        if ((backendApi.service.options.infiniteScroll as InfiniteScrollOption).mode === 'viewport') {
+          this.backendViewportService.init(this.slickGrid, this.dataView);
+        } else {
+          this.addBackendInfiniteScrollCallback();
+        }
       }
     }
   }
@@ -1656,6 +1712,8 @@ export class AngularSlickgridComponent<TData = any> implements AfterViewInit, On
   protected registerRxJsResource(resource: RxJsFacade) {
     this.rxjs = resource;
     this.backendUtilityService.addRxJsResource(this.rxjs);
+    this.backendGroupingService.addRxJsResource(this.rxjs);
+    this.backendViewportService.addRxJsResource(this.rxjs);
     this.filterFactory.addRxJsResource(this.rxjs);
     this.filterService.addRxJsResource(this.rxjs);
     this.sortService.addRxJsResource(this.rxjs);
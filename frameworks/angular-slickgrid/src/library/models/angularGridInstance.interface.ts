@@ -14,6 +14,7 @@ import type {
   SlickGrid,
   SortService,
   TreeDataService,
+  UndoRedoService,
 } from '@slickgrid-universal/common';
 import type { EventPubSubService } from '@slickgrid-universal/event-pub-sub';
 
@@ -73,4 +74,7 @@ export interface AngularGridInstance {
 
   /** Tree Data View Service */
   treeDataService: TreeDataService;
+
+  /** Undo/Redo Service (only initialized when `enableUndoRedo` is enabled) */
+  undoRedoService: UndoRedoService;
 }
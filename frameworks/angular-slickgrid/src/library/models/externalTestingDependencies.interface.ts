@@ -1,5 +1,7 @@
 import type {
+  BackendGroupingService,
   BackendUtilityService,
+  BackendViewportService,
   CollectionService,
   ExtensionService,
   ExtensionUtility,
@@ -14,11 +16,14 @@ import type {
   SharedService,
   SortService,
   TreeDataService,
+  UndoRedoService,
 } from '@slickgrid-universal/common';
 import type { EventPubSubService } from '@slickgrid-universal/event-pub-sub';
 
 export interface ExternalTestingDependencies {
   backendUtilityService?: BackendUtilityService;
+  backendGroupingService?: BackendGroupingService;
+  backendViewportService?: BackendViewportService;
   collectionService?: CollectionService;
   eventPubSubService?: EventPubSubService;
   extensionService?: ExtensionService;
@@ -34,4 +39,5 @@ export interface ExternalTestingDependencies {
   sharedService?: SharedService;
   sortService?: SortService;
   treeDataService?: TreeDataService;
+  undoRedoService?: UndoRedoService;
 }
@@ -11,6 +11,7 @@ import type {
   ExtensionList,
   ExternalResource,
   ExternalResourceConstructor,
+  InfiniteScrollOption,
   Locale,
   Metrics,
   Pagination,
@@ -19,7 +20,9 @@ import type {
 } from '@slickgrid-universal/common';
 import {
   autoAddEditorFormatterToColumnsWithEditor,
+  BackendGroupingService,
   BackendUtilityService,
+  BackendViewportService,
   CollectionService,
   emptyElement,
   ExtensionService,
@@ -42,6 +45,7 @@ import {
   SlickGroupItemMetadataProvider,
   SortService,
   TreeDataService,
+  UndoRedoService,
   type Observable,
   type RxJsFacade,
 } from '@slickgrid-universal/common';
@@ -123,6 +127,8 @@ export class AureliaSlickgridCustomElement {
 
   // services
   backendUtilityService!: BackendUtilityService;
+  backendGroupingService: BackendGroupingService;
+  backendViewportService: BackendViewportService;
   collectionService: CollectionService;
   extensionService: ExtensionService;
   extensionUtility: ExtensionUtility;
@@ -139,6 +145,7 @@ export class AureliaSlickgridCustomElement {
   sharedService: SharedService;
   sortService: SortService;
   treeDataService: TreeDataService;
+  undoRedoService: UndoRedoService;
 
   @bindable({ mode: BindingMode.twoWay }) columns: Column[] = [];
   @bindable({ mode: BindingMode.twoWay }) element!: Element;
@@ -170,6 +177,8 @@ export class AureliaSlickgridCustomElement {
     this._eventPubSubService.eventNamingStyle = 'camelCase';
 
     this.backendUtilityService = new BackendUtilityService();
+    this.backendGroupingService = new BackendGroupingService(this.backendUtilityService, this._eventPubSubService);
+    this.backendViewportService = new BackendViewportService(this.backendUtilityService, this._eventPubSubService);
     this.gridEventService = new GridEventService();
     this.sharedService = new SharedService();
     this.collectionService = new CollectionService(this.translaterService);
@@ -197,6 +206,7 @@ export class AureliaSlickgridCustomElement {
       () => this.gridService
     );
 
+    this.undoRedoService = new UndoRedoService(this.extensionService, this._eventPubSubService);
     this.gridStateService = new GridStateService(
       this.extensionService,
       this.filterService,
@@ -212,11 +222,16 @@ export class AureliaSlickgridCustomElement {
       this.paginationService,
       this.sharedService,
       this.sortService,
-      this.treeDataService
+      this.treeDataService,
+      this.undoRedoService,
+      this.backendUtilityService
     );
     this.headerGroupingService = new HeaderGroupingService(this.extensionUtility);
 
     this.serviceList = [
+      this.backendGroupingService,
+      this.backendUtilityService,
+      this.backendViewportService,
       this.extensionService,
       this.filterService,
       this.gridEventService,
@@ -227,6 +242,7 @@ export class AureliaSlickgridCustomElement {
       this.resizerService,
       this.sortService,
       this.treeDataService,
+      this.undoRedoService,
     ];
 
     // register all Service instances in the container
@@ -246,6 +262,7 @@ export class AureliaSlickgridCustomElement {
     this.containerService.registerInstance('PubSubService', this._eventPubSubService);
     this.containerService.registerInstance('TranslaterService', this.translaterService);
     this.containerService.registerInstance('TreeDataService', this.treeDataService);
+    this.containerService.registerInstance('UndoRedoService', this.undoRedoService);
   }
 
   get backendService(): BackendService | undefined {
@@ -408,6 +425,11 @@ export class AureliaSlickgridCustomElement {
     this.registerResources();
 
     this.extensionService.bindDifferentExtensions();
+
+    // the Undo/Redo Service must be initialized after all extensions are bound since it also records the Excel Copy Buffer & Row Move changes
+    if (this.options.enableUndoRedo) {
+      this.undoRedoService.init(this.grid);
+    }
     this.bindDifferentHooks(this.grid, this.options, this.dataview);
 
     // when it's a frozen grid, we need to keep the frozen column id for reference if we ever show/hide column from ColumnPicker/GridMenu afterward
@@ -521,6 +543,7 @@ export class AureliaSlickgridCustomElement {
       resizerService: this.resizerService,
       sortService: this.sortService,
       treeDataService: this.treeDataService,
+      undoRedoService: this.undoRedoService,
     };
 
     // addons (SlickGrid extra plugins/controls)
@@ -850,6 +873,9 @@ export class AureliaSlickgridCustomElement {
         : true;
 
     if (backendApiService) {
+      // the grid is required by the loading & error overlay of the backend processes
+      this.backendUtilityService.init(this.grid);
+
       // update backend filters (if need be) BEFORE the query runs (via the onInit command a few lines below)
       // if user entered some any "presets", we need to reflect them all in the grid
       if (gridOptions?.presets) {
@@ -857,6 +883,14 @@ export class AureliaSlickgridCustomElement {
         if (backendApiService.updateFilters && Array.isArray(gridOptions.presets.filters) && gridOptions.presets.filters.length > 0) {
           backendApiService.updateFilters(gridOptions.presets.filters, true);
         }
+        // Global Search "presets"
+        if (backendApiService.updateGlobalSearch && gridOptions.presets.globalSearch?.searchTerm) {
+          backendApiService.updateGlobalSearch(gridOptions.presets.globalSearch);
+        }
+        // Filter Expression "presets"
+        if (backendApiService.updateFilterExpression && gridOptions.presets.filterExpression) {
+          backendApiService.updateFilterExpression(gridOptions.presets.filterExpression);
+        }
         // Sorters "presets"
         if (backendApiService.updateSorters && Array.isArray(gridOptions.presets.sorters) && gridOptions.presets.sorters.length > 0) {
           // when using multi-column sort, we can have multiple but on single sort then only grab the first sort provided
@@ -875,10 +909,18 @@ export class AureliaSlickgridCustomElement {
         }
       }
 
+      // when using server-side grouping, the grouping service takes over the dataset and the grouping must be known before the onInit query
+      if (serviceOptions.serverSideGrouping) {
+        this.backendGroupingService.init(this.grid, this.dataview);
+      }
+
       // execute onInit command when necessary
       if (backendApi && backendApiService && (backendApi.onInit || isExecuteCommandOnInit)) {
         const query = typeof backendApiService.buildQuery === 'function' ? backendApiService.buildQuery() : '';
-        const process = isExecuteCommandOnInit ? (backendApi.process?.(query) ?? null) : (backendApi.onInit?.(query) ?? null);
+        const processOptions = { variables: backendApiService.getQueryVariables?.() };
+        const process = isExecuteCommandOnInit
+          ? (backendApi.process?.(query, processOptions) ?? null)
+          : (backendApi.onInit?.(query, processOptions) ?? null);
 
         // wrap this inside a microtask to be executed at the end of the task and avoid timing issue since the gridOptions needs to be ready before running this onInit
         queueMicrotask(() => {
@@ -896,15 +938,18 @@ export class AureliaSlickgridCustomElement {
           const totalItems = this.options?.pagination?.totalItems ?? 0;
           if (process instanceof Promise) {
             process
-              .then((processResult: any) =>
-                backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems)
-              )
+              .then((processResult: any) => {
+                backendUtilityService.setCachedResult(backendApi, query, processResult, processOptions.variables);
+                backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems);
+              })
               .catch((error) => backendUtilityService.onBackendError(error, backendApi));
           } else if (process && this.rxjs?.isObservable(process)) {
             this.subscriptions.push(
               (process as Observable<any>).subscribe(
-                (processResult: any) =>
-                  backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems),
+                (processResult: any) => {
+                  backendUtilityService.setCachedResult(backendApi, query, processResult, processOptions.variables);
+                  backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems);
+                },
                 (error: any) => backendUtilityService.onBackendError(error, backendApi)
               )
             );
@@ -912,9 +957,13 @@ export class AureliaSlickgridCustomElement {
         });
       }
 
-      // when user enables Infinite Scroll
+      // when user enables Infinite Scroll, the "viewport" mode uses a virtual data source that lazy loads the rows visible in the viewport
       if (backendApi.service.options?.infiniteScroll) {
-        this.addBackendInfiniteScrollCallback();
+        if ((backendApi.service.options.infiniteScroll as InfiniteScrollOption).mode === 'viewport') {
+          this.backendViewportService.init(this.grid, this.dataview);
+        } else {
+          this.addBackendInfiniteScrollCallback();
+        }
       }
     }
   }
@@ -1565,6 +1614,8 @@ export class AureliaSlickgridCustomElement {
   protected registerRxJsResource(resource: RxJsFacade) {
     this.rxjs = resource;
     this.backendUtilityService.addRxJsResource(this.rxjs);
+    this.backendGroupingService.addRxJsResource(this.rxjs);
+    this.backendViewportService.addRxJsResource(this.rxjs);
     this.filterFactory.addRxJsResource(this.rxjs);
     this.filterService.addRxJsResource(this.rxjs);
     this.sortService.addRxJsResource(this.rxjs);
@@ -1,6 +1,8 @@
 import {
   autoAddEditorFormatterToColumnsWithEditor,
+  BackendGroupingService,
   BackendUtilityService,
+  BackendViewportService,
   collectionObserver,
   CollectionService,
   emptyElement,
@@ -24,6 +26,7 @@ import {
   SlickGroupItemMetadataProvider,
   SortService,
   TreeDataService,
+  UndoRedoService,
   type AutocompleterEditor,
   type BackendService,
   type BackendServiceApi,
@@ -35,6 +38,7 @@ import {
   type ExtensionList,
   type ExternalResource,
   type ExternalResourceConstructor,
+  type InfiniteScrollOption,
   type Metrics,
   type Observable,
   type Pagination,
@@ -145,6 +149,8 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
 
   // services
   backendUtilityService!: BackendUtilityService;
+  backendGroupingService!: BackendGroupingService;
+  backendViewportService!: BackendViewportService;
   collectionService: CollectionService;
   extensionService: ExtensionService;
   extensionUtility: ExtensionUtility;
@@ -160,6 +166,7 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
   sharedService: SharedService;
   sortService: SortService;
   treeDataService: TreeDataService;
+  undoRedoService: UndoRedoService;
 
   dataView!: SlickDataView<TData>;
   grid!: SlickGrid;
@@ -266,6 +273,8 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
     this._eventPubSubService.eventNamingStyle = 'camelCase';
 
     this.backendUtilityService = new BackendUtilityService();
+    this.backendGroupingService = new BackendGroupingService(this.backendUtilityService, this._eventPubSubService);
+    this.backendViewportService = new BackendViewportService(this.backendUtilityService, this._eventPubSubService);
     this.gridEventService = new GridEventService();
     this.sharedService = new SharedService();
     this.collectionService = new CollectionService(this.props.translaterService);
@@ -293,6 +302,7 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
       () => this.gridService
     );
 
+    this.undoRedoService = new UndoRedoService(this.extensionService, this._eventPubSubService);
     this.gridStateService = new GridStateService(
       this.extensionService,
       this.filterService,
@@ -308,11 +318,16 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
       this.paginationService,
       this.sharedService,
       this.sortService,
-      this.treeDataService
+      this.treeDataService,
+      this.undoRedoService,
+      this.backendUtilityService
     );
     this.headerGroupingService = new HeaderGroupingService(this.extensionUtility);
 
     this.serviceList = [
+      this.backendGroupingService,
+      this.backendUtilityService,
+      this.backendViewportService,
       this.extensionService,
       this.filterService,
       this.gridEventService,
@@ -323,6 +338,7 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
       this.resizerService,
       this.sortService,
       this.treeDataService,
+      this.undoRedoService,
     ];
 
     if (this.props.datasetHierarchical) {
@@ -346,6 +362,7 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
     this.props.containerService.registerInstance('SortService', this.sortService);
     this.props.containerService.registerInstance('TranslaterService', this.props.translaterService);
     this.props.containerService.registerInstance('TreeDataService', this.treeDataService);
+    this.props.containerService.registerInstance('UndoRedoService', this.undoRedoService);
   }
 
   get backendService(): BackendService | undefined {
@@ -539,6 +556,11 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
     this.registerResources();
 
     this.extensionService.bindDifferentExtensions();
+
+    // the Undo/Redo Service must be initialized after all extensions are bound since it also records the Excel Copy Buffer & Row Move changes
+    if (this._options.enableUndoRedo) {
+      this.undoRedoService.init(this.grid);
+    }
     this.bindDifferentHooks(this.grid, this._options, this.dataView);
 
     // when it's a frozen grid, we need to keep the frozen column id for reference if we ever show/hide column from ColumnPicker/GridMenu afterward
@@ -651,6 +673,7 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
       resizerService: this.resizerService,
       sortService: this.sortService,
       treeDataService: this.treeDataService,
+      undoRedoService: this.undoRedoService,
     };
 
     // addons (SlickGrid extra plugins/controls)
@@ -944,6 +967,9 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
         : true;
 
     if (backendApiService) {
+      // the grid is required by the loading & error overlay of the backend processes
+      this.backendUtilityService.init(this.grid);
+
       // update backend filters (if need be) BEFORE the query runs (via the onInit command a few lines below)
       // if user entered some any "presets", we need to reflect them all in the grid
       if (gridOptions?.presets) {
@@ -951,6 +977,14 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
         if (backendApiService.updateFilters && Array.isArray(gridOptions.presets.filters) && gridOptions.presets.filters.length > 0) {
           backendApiService.updateFilters(gridOptions.presets.filters, true);
         }
+        // Global Search "presets"
+        if (backendApiService.updateGlobalSearch && gridOptions.presets.globalSearch?.searchTerm) {
+          backendApiService.updateGlobalSearch(gridOptions.presets.globalSearch);
+        }
+        // Filter Expression "presets"
+        if (backendApiService.updateFilterExpression && gridOptions.presets.filterExpression) {
+          backendApiService.updateFilterExpression(gridOptions.presets.filterExpression);
+        }
         // Sorters "presets"
         if (backendApiService.updateSorters && Array.isArray(gridOptions.presets.sorters) && gridOptions.presets.sorters.length > 0) {
           // when using multi-column sort, we can have multiple but on single sort then only grab the first sort provided
@@ -969,10 +1003,18 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
         }
       }
 
+      // when using server-side grouping, the grouping service takes over the dataset and the grouping must be known before the onInit query
+      if (serviceOptions.serverSideGrouping) {
+        this.backendGroupingService.init(this.grid, this.dataView as SlickDataView);
+      }
+
       // execute onInit command when necessary
       if (backendApi && backendApiService && (backendApi.onInit || isExecuteCommandOnInit)) {
         const query = typeof backendApiService.buildQuery === 'function' ? backendApiService.buildQuery() : '';
-        const process = isExecuteCommandOnInit ? (backendApi.process?.(query) ?? null) : (backendApi.onInit?.(query) ?? null);
+        const processOptions = { variables: backendApiService.getQueryVariables?.() };
+        const process = isExecuteCommandOnInit
+          ? (backendApi.process?.(query, processOptions) ?? null)
+          : (backendApi.onInit?.(query, processOptions) ?? null);
 
         // wrap this inside a microtask to be executed at the end of the task and avoid timing issue since the gridOptions needs to be ready before running this onInit
         queueMicrotask(() => {
@@ -990,15 +1032,18 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
           const totalItems = this._options?.pagination?.totalItems ?? 0;
           if (process instanceof Promise) {
             process
-              .then((processResult: any) =>
-                backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems)
-              )
+              .then((processResult: any) => {
+                backendUtilityService.setCachedResult(backendApi, query, processResult, processOptions.variables);
+                backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems);
+              })
               .catch((error) => backendUtilityService.onBackendError(error, backendApi));
           } else if (process && this.rxjs?.isObservable(process)) {
             this.subscriptions.push(
               (process as Observable<any>).subscribe(
-                (processResult: any) =>
-                  backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems),
+                (processResult: any) => {
+                  backendUtilityService.setCachedResult(backendApi, query, processResult, processOptions.variables);
+                  backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems);
+                },
                 (error: any) => backendUtilityService.onBackendError(error, backendApi)
               )
             );
@@ -1006,9 +1051,13 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
         });
       }
 
-      // when user enables Infinite Scroll
+      // when user enables Infinite Scroll, the "viewport" mode uses a virtual data source that lazy loads the rows visible in the viewport
       if (backendApi.service.options?.infiniteScroll) {
-        this.addBackendInfiniteScrollCallback();
+        if ((backendApi.service.options.infiniteScroll as InfiniteScrollOption).mode === 'viewport') {
+          this.backendViewportService.init(this.grid, this.dataView as SlickDataView);
+        } else {
+          this.addBackendInfiniteScrollCallback();
+        }
       }
     }
   }
@@ -1619,6 +1668,8 @@ export class SlickgridReact<TData = any> extends React.Component<SlickgridReactP
   protected registerRxJsResource(resource: RxJsFacade) {
     this.rxjs = resource;
     this.backendUtilityService.addRxJsResource(this.rxjs);
+    this.backendGroupingService.addRxJsResource(this.rxjs);
+    this.backendViewportService.addRxJsResource(this.rxjs);
     this.filterFactory.addRxJsResource(this.rxjs);
     this.filterService.addRxJsResource(this.rxjs);
     this.sortService.addRxJsResource(this.rxjs);
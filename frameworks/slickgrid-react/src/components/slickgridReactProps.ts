@@ -3,10 +3,12 @@ import type {
   ColumnSort,
   ContainerService,
   CurrentFilter,
+  CurrentGlobalSearch,
   CurrentSorter,
   DragRowMove,
   ExportTextDownloadOption,
   ExtensionList,
+  FilterExpressionGroup,
   GridMenuCommandItemCallbackArgs,
   GridMenuEventWithElementCallbackArgs,
   GridOption,
@@ -45,6 +47,7 @@ import type {
   OnFooterRowCellRenderedEventArgs,
   OnGroupCollapsedEventArgs,
   OnGroupExpandedEventArgs,
+  OnGroupingChangedEventArgs,
   OnHeaderCellRenderedEventArgs,
   OnHeaderClickEventArgs,
   OnHeaderContextMenuEventArgs,
@@ -152,6 +155,7 @@ export interface SlickgridReactProps {
   onBeforePagingInfoChanged?: ReactSlickEventHandler<PagingInfo>;
   onGroupExpanded?: ReactSlickEventHandler<OnGroupExpandedEventArgs>;
   onGroupCollapsed?: ReactSlickEventHandler<OnGroupCollapsedEventArgs>;
+  onGroupingChanged?: ReactSlickEventHandler<OnGroupingChangedEventArgs>;
   onPagingInfoChanged?: ReactSlickEventHandler<PagingInfo>;
   onRowCountChanged?: ReactSlickEventHandler<OnRowCountChangedEventArgs>;
   onRowsChanged?: ReactSlickEventHandler<OnRowsChangedEventArgs>;
@@ -223,6 +227,8 @@ export interface SlickgridReactProps {
   onSortCleared?: ReactRegularEventHandler<boolean>;
   onFilterChanged?: ReactRegularEventHandler<CurrentFilter[]>;
   onFilterCleared?: ReactRegularEventHandler<boolean>;
+  onFilterExpressionChanged?: ReactRegularEventHandler<FilterExpressionGroup>;
+  onGlobalSearchChanged?: ReactRegularEventHandler<CurrentGlobalSearch>;
   onReactGridCreated?: ReactRegularEventHandler<any>;
   onSortChanged?: ReactRegularEventHandler<CurrentSorter[]>;
   onTreeItemToggled?: ReactRegularEventHandler<TreeToggleStateChange>;
@@ -12,6 +12,7 @@ import type {
   SlickGrid,
   SortService,
   TreeDataService,
+  UndoRedoService,
 } from '@slickgrid-universal/common';
 import type { EventPubSubService } from '@slickgrid-universal/event-pub-sub';
 
@@ -67,4 +68,7 @@ export interface SlickgridReactInstance {
 
   /** Tree Data View Service */
   treeDataService: TreeDataService;
+
+  /** Undo/Redo Service (only initialized when `enableUndoRedo` is enabled) */
+  undoRedoService: UndoRedoService;
 }
@@ -13,6 +13,7 @@ import type {
   SlickGrid,
   SortService,
   TreeDataService,
+  UndoRedoService,
 } from '@slickgrid-universal/common';
 import type { EventPubSubService } from '@slickgrid-universal/event-pub-sub';
 
@@ -71,4 +72,7 @@ export interface SlickgridVueInstance {
 
   /** Tree Data View Service */
   treeDataService: TreeDataService;
+
+  /** Undo/Redo Service (only initialized when `enableUndoRedo` is enabled) */
+  undoRedoService: UndoRedoService;
 }
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { GroupTotals } from '../../interfaces/grouping.interface.js';
+import { CountDistinctAggregator } from '../countDistinctAggregator.js';
+
+describe('countDistinctAggregator', () => {
+  let aggregator: CountDistinctAggregator;
+  let dataset: any[] = [];
+
+  describe('Regular Group Aggregator', () => {
+    beforeEach(() => {
+      dataset = [
+        { id: 0, title: 'Task 0', duration: '58', percentComplete: 55, category: 'B' },
+        { id: 1, title: 'Task 1', duration: '14', percentComplete: 87, category: 'A' },
+        { id: 2, title: 'Task 2', duration: '', percentComplete: 55, category: '' },
+        { id: 3, title: 'Task 3', duration: '87', percentComplete: -2, category: 'A' },
+        { id: 4, title: 'Task 4', duration: null, percentComplete: 15, category: null },
+      ];
+    });
+
+    it('should return 0 when the field provided does not exist', () => {
+      const fieldName = 'invalid';
+      const groupTotals: GroupTotals = {};
+      aggregator = new CountDistinctAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.isInitialized).toBeTruthy();
+      expect(groupTotals['countDistinct'][fieldName]).toBe(0);
+    });
+
+    it('should count the distinct numbers of the chosen field', () => {
+      const fieldName = 'percentComplete';
+      const groupTotals: GroupTotals = { countDistinct: {} };
+      aggregator = new CountDistinctAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.field).toBe(fieldName);
+      expect(aggregator.type).toBe('countDistinct');
+      expect(groupTotals.countDistinct[fieldName]).toBe(4);
+    });
+
+    it('should count the distinct text values and skip any null and empty values', () => {
+      const fieldName = 'category';
+      const groupTotals: GroupTotals = { countDistinct: {} };
+      aggregator = new CountDistinctAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.countDistinct[fieldName]).toBe(2);
+    });
+  });
+
+  describe('Tree Aggregator', () => {
+    it('should add the child item value to the values already kept by the parent and return the new distinct count', () => {
+      const fieldName = 'category';
+      aggregator = new CountDistinctAggregator(fieldName);
+      aggregator.init({}, true);
+
+      const groupTotals: GroupTotals<any> = { countDistinct: { category: 2 }, countDistinctValues: { category: ['A', 'B', 'A'] } };
+      aggregator.accumulate({ id: 4, title: 'Task 4', category: 'C', __treeLevel: 1 });
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.countDistinctValues[fieldName]).toEqual(['A', 'B', 'A', 'C']);
+      expect(groupTotals.countDistinct[fieldName]).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { GroupTotals } from '../../interfaces/grouping.interface.js';
+import { MedianAggregator } from '../medianAggregator.js';
+
+describe('medianAggregator', () => {
+  let aggregator: MedianAggregator;
+  let dataset: any[] = [];
+
+  describe('Regular Group Aggregator', () => {
+    beforeEach(() => {
+      dataset = [
+        { id: 0, title: 'Task 0', duration: '58', percentComplete: 55 },
+        { id: 1, title: 'Task 1', duration: '14', percentComplete: 87 },
+        { id: 2, title: 'Task 2', duration: '', percentComplete: 60 },
+        { id: 3, title: 'Task 3', duration: '87', percentComplete: -2 },
+        { id: 4, title: 'Task 4', duration: null, percentComplete: 15 },
+      ];
+    });
+
+    it('should return undefined when the field provided does not exist', () => {
+      const fieldName = 'invalid';
+      const groupTotals: GroupTotals = {};
+      aggregator = new MedianAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.isInitialized).toBeTruthy();
+      expect(groupTotals['median'][fieldName]).toBe(undefined);
+    });
+
+    it('should return the middle value when the chosen field from the dataset contains an odd count of numbers', () => {
+      const fieldName = 'percentComplete';
+      const groupTotals: GroupTotals = { median: {} };
+      aggregator = new MedianAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.field).toBe(fieldName);
+      expect(aggregator.type).toBe('median');
+      expect(aggregator.percentile).toBe(50);
+      expect(groupTotals.median[fieldName]).toBe(55); // sorted: -2, 15, 55, 60, 87
+    });
+
+    it('should return the average of the 2 middle values when dataset contains an even count of numbers provided as string and other invalid char', () => {
+      const fieldName = 'duration';
+      const groupTotals: GroupTotals = { median: {} };
+      aggregator = new MedianAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      dataset.push({ id: 5, title: 'Task 5', duration: 20 });
+      aggregator.accumulate(dataset[5]);
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.median[fieldName]).toBe((20 + 58) / 2); // sorted: 14, 20, 58, 87
+    });
+  });
+
+  describe('Tree Aggregator', () => {
+    beforeEach(() => {
+      dataset = [
+        { id: 0, title: 'Task 0', duration: '58', percentComplete: 55, __treeLevel: 0 },
+        { id: 1, title: 'Task 1', duration: '14', percentComplete: 87, __treeLevel: 1 },
+        { id: 2, title: 'Task 2', duration: '', percentComplete: 60, __treeLevel: 2 },
+        { id: 3, title: 'Task 3', duration: '897', percentComplete: -2, __treeLevel: 0 },
+        { id: 4, title: 'Task 4', duration: null, percentComplete: 15, __treeLevel: 0 },
+      ];
+    });
+
+    it('should initialize the parent item tree totals with an empty list of values', () => {
+      const parentItem: any = { id: 9, title: 'Parent' };
+      aggregator = new MedianAggregator('percentComplete');
+      aggregator.init(parentItem, true);
+
+      expect(parentItem.__treeTotals).toEqual({ median: { percentComplete: undefined }, medianValues: { percentComplete: [] } });
+    });
+
+    it('should add the child item value to the values already kept by the parent and return the new median', () => {
+      const fieldName = 'percentComplete';
+      aggregator = new MedianAggregator(fieldName);
+      aggregator.init({}, true);
+
+      const groupTotals: GroupTotals<any> = { median: { percentComplete: 55 }, medianValues: { percentComplete: [55, 87, 60] } };
+      aggregator.accumulate(dataset[4]);
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.medianValues[fieldName]).toEqual([55, 87, 60, 15]);
+      expect(groupTotals.median[fieldName]).toBe((55 + 60) / 2);
+    });
+
+    it('should add all the values kept by a parent item to its own parent when accumulating a parent item', () => {
+      const fieldName = 'percentComplete';
+      aggregator = new MedianAggregator(fieldName);
+      aggregator.init({}, true);
+
+      const parentItem = { ...dataset[4], __treeTotals: { median: { percentComplete: -2 }, medianValues: { percentComplete: [-2, 15] } } };
+      const groupTotals: GroupTotals<any> = { median: { percentComplete: 87 }, medianValues: { percentComplete: [87] } };
+      aggregator.accumulate(parentItem, true);
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.medianValues[fieldName]).toEqual([87, -2, 15]);
+      expect(groupTotals.median[fieldName]).toBe(15);
+    });
+  });
+});
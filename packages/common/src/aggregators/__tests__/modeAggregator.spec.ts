@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { GroupTotals } from '../../interfaces/grouping.interface.js';
+import { ModeAggregator } from '../modeAggregator.js';
+
+describe('modeAggregator', () => {
+  let aggregator: ModeAggregator;
+  let dataset: any[] = [];
+
+  describe('Regular Group Aggregator', () => {
+    beforeEach(() => {
+      dataset = [
+        { id: 0, title: 'Task 0', duration: '58', percentComplete: 55, category: 'B' },
+        { id: 1, title: 'Task 1', duration: '14', percentComplete: 87, category: 'A' },
+        { id: 2, title: 'Task 2', duration: '', percentComplete: 55, category: '' },
+        { id: 3, title: 'Task 3', duration: '87', percentComplete: -2, category: 'A' },
+        { id: 4, title: 'Task 4', duration: null, percentComplete: 15, category: null },
+        { id: 5, title: 'Task 5', duration: null, percentComplete: 87, category: null },
+      ];
+    });
+
+    it('should return undefined when the field provided does not exist', () => {
+      const fieldName = 'invalid';
+      const groupTotals: GroupTotals = {};
+      aggregator = new ModeAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.isInitialized).toBeTruthy();
+      expect(groupTotals['mode'][fieldName]).toBe(undefined);
+    });
+
+    it('should return the first number to reach the highest count when there is a tie', () => {
+      const fieldName = 'percentComplete';
+      const groupTotals: GroupTotals = { mode: {} };
+      aggregator = new ModeAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.field).toBe(fieldName);
+      expect(aggregator.type).toBe('mode');
+      expect(groupTotals.mode[fieldName]).toBe(55);
+    });
+
+    it('should return the most frequent text value and skip any null and empty values', () => {
+      const fieldName = 'category';
+      const groupTotals: GroupTotals = { mode: {} };
+      aggregator = new ModeAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.mode[fieldName]).toBe('A');
+    });
+
+    it('should return the value that reached the highest count first even when the other tied value was found before it', () => {
+      const fieldName = 'category';
+      const groupTotals: GroupTotals = { mode: {} };
+      aggregator = new ModeAggregator(fieldName);
+      aggregator.init();
+
+      [{ category: 'A' }, { category: 'B' }, { category: 'B' }, { category: 'A' }].forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.mode[fieldName]).toBe('B');
+    });
+  });
+
+  describe('Tree Aggregator', () => {
+    it('should add the child item value to the values already kept by the parent and return the new mode', () => {
+      const fieldName = 'category';
+      aggregator = new ModeAggregator(fieldName);
+      aggregator.init({}, true);
+
+      const groupTotals: GroupTotals<any> = { mode: { category: 'A' }, modeValues: { category: ['A', 'B'] } };
+      aggregator.accumulate({ id: 4, title: 'Task 4', category: 'B', __treeLevel: 1 });
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.modeValues[fieldName]).toEqual(['A', 'B', 'B']);
+      expect(groupTotals.mode[fieldName]).toBe('B');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { GroupTotals } from '../../interfaces/grouping.interface.js';
+import { PercentileAggregator } from '../percentileAggregator.js';
+
+describe('percentileAggregator', () => {
+  let aggregator: PercentileAggregator;
+  let dataset: any[] = [];
+
+  describe('Regular Group Aggregator', () => {
+    beforeEach(() => {
+      dataset = [
+        { id: 0, title: 'Task 0', duration: '58', percentComplete: 55 },
+        { id: 1, title: 'Task 1', duration: '14', percentComplete: 87 },
+        { id: 2, title: 'Task 2', duration: '', percentComplete: 60 },
+        { id: 3, title: 'Task 3', duration: '87', percentComplete: -2 },
+        { id: 4, title: 'Task 4', duration: null, percentComplete: 15 },
+      ];
+    });
+
+    it('should throw an error when the percentile provided is not a number between 0 and 100', () => {
+      expect(() => new PercentileAggregator('duration', 101)).toThrow('PercentileAggregator requires a percentile number between 0 and 100');
+      expect(() => new PercentileAggregator('duration', undefined as any)).toThrow('PercentileAggregator requires a percentile number between 0 and 100');
+    });
+
+    it('should return undefined when the field provided does not exist', () => {
+      const fieldName = 'invalid';
+      const groupTotals: GroupTotals = {};
+      aggregator = new PercentileAggregator(fieldName, 90);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.isInitialized).toBeTruthy();
+      expect(groupTotals['percentile90'][fieldName]).toBe(undefined);
+    });
+
+    it('should calculate the percentile with a linear interpolation when the chosen field from the dataset contains only numbers', () => {
+      const fieldName = 'percentComplete';
+      const groupTotals: GroupTotals = { percentile90: {} };
+      aggregator = new PercentileAggregator(fieldName, 90);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      // sorted: -2, 15, 55, 60, 87 => rank 0.9 * 4 = 3.6 => 60 + (87 - 60) * 0.6
+      expect(aggregator.field).toBe(fieldName);
+      expect(aggregator.type).toBe('percentile90');
+      expect(aggregator.percentile).toBe(90);
+      expect(groupTotals.percentile90[fieldName]).toBeCloseTo(76.2);
+    });
+
+    it('should return the min and max values without overwriting each other when calculating the 0 and 100 percentile of the same field', () => {
+      const fieldName = 'duration';
+      const groupTotals: GroupTotals = {};
+      const aggregator1 = new PercentileAggregator(fieldName, 0);
+      const aggregator2 = new PercentileAggregator(fieldName, 100);
+      aggregator1.init();
+      aggregator2.init();
+
+      dataset.forEach((row) => {
+        aggregator1.accumulate(row);
+        aggregator2.accumulate(row);
+      });
+      aggregator1.storeResult(groupTotals);
+      aggregator2.storeResult(groupTotals);
+
+      expect(groupTotals.percentile0[fieldName]).toBe(14);
+      expect(groupTotals.percentile100[fieldName]).toBe(87);
+    });
+  });
+
+  describe('Tree Aggregator', () => {
+    it('should add the child item value to the values already kept by the parent and return the new percentile', () => {
+      const fieldName = 'percentComplete';
+      aggregator = new PercentileAggregator(fieldName, 25);
+      aggregator.init({}, true);
+
+      const groupTotals: GroupTotals<any> = { percentile25: {}, percentile25Values: { percentComplete: [55, 87, 60, -2] } };
+      aggregator.accumulate({ id: 4, title: 'Task 4', percentComplete: 15, __treeLevel: 1 });
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.percentile25Values[fieldName]).toEqual([55, 87, 60, -2, 15]);
+      expect(groupTotals.percentile25[fieldName]).toBe(15);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { GroupTotals } from '../../interfaces/grouping.interface.js';
+import { StdDevAggregator } from '../stdDevAggregator.js';
+
+describe('stdDevAggregator', () => {
+  let aggregator: StdDevAggregator;
+  let dataset: any[] = [];
+
+  describe('Regular Group Aggregator', () => {
+    beforeEach(() => {
+      dataset = [
+        { id: 0, title: 'Task 0', duration: '58', percentComplete: 55 },
+        { id: 1, title: 'Task 1', duration: '14', percentComplete: 87 },
+        { id: 2, title: 'Task 2', duration: '', percentComplete: 60 },
+        { id: 3, title: 'Task 3', duration: '87', percentComplete: -2 },
+        { id: 4, title: 'Task 4', duration: null, percentComplete: 15 },
+      ];
+    });
+
+    it('should return undefined when the field provided does not exist', () => {
+      const fieldName = 'invalid';
+      const groupTotals: GroupTotals = {};
+      aggregator = new StdDevAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.isInitialized).toBeTruthy();
+      expect(groupTotals['stdDevSample'][fieldName]).toBe(undefined);
+    });
+
+    it('should calculate a sample standard deviation by default when the chosen field from the dataset contains only numbers', () => {
+      const fieldName = 'percentComplete';
+      const groupTotals: GroupTotals = { stdDevSample: {} };
+      aggregator = new StdDevAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.field).toBe(fieldName);
+      expect(aggregator.type).toBe('stdDevSample');
+      expect(groupTotals.stdDevSample[fieldName]).toBe(Math.sqrt(5178 / 4));
+    });
+
+    it('should calculate a population standard deviation with only the valid numbers when defined as 2nd argument', () => {
+      const fieldName = 'duration';
+      const groupTotals: GroupTotals = { stdDevPopulation: {} };
+      aggregator = new StdDevAggregator(fieldName, 'population');
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      // mean of 53 => squared differences sum of 25 + 1521 + 1156
+      expect(aggregator.type).toBe('stdDevPopulation');
+      expect(groupTotals.stdDevPopulation[fieldName]).toBe(Math.sqrt(2702 / 3));
+    });
+  });
+
+  describe('Tree Aggregator', () => {
+    it('should add the child item value to the values already kept by the parent and return the new standard deviation', () => {
+      const fieldName = 'percentComplete';
+      aggregator = new StdDevAggregator(fieldName, 'population');
+      aggregator.init({}, true);
+
+      const groupTotals: GroupTotals<any> = { stdDevPopulation: { percentComplete: 0 }, stdDevPopulationValues: { percentComplete: [2] } };
+      aggregator.accumulate({ id: 4, title: 'Task 4', percentComplete: 6, __treeLevel: 1 });
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.stdDevPopulationValues[fieldName]).toEqual([2, 6]);
+      expect(groupTotals.stdDevPopulation[fieldName]).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { GroupTotals } from '../../interfaces/grouping.interface.js';
+import { VarianceAggregator } from '../varianceAggregator.js';
+
+describe('varianceAggregator', () => {
+  let aggregator: VarianceAggregator;
+  let dataset: any[] = [];
+
+  describe('Regular Group Aggregator', () => {
+    beforeEach(() => {
+      dataset = [
+        { id: 0, title: 'Task 0', duration: '58', percentComplete: 55 },
+        { id: 1, title: 'Task 1', duration: '14', percentComplete: 87 },
+        { id: 2, title: 'Task 2', duration: '', percentComplete: 60 },
+        { id: 3, title: 'Task 3', duration: '87', percentComplete: -2 },
+        { id: 4, title: 'Task 4', duration: null, percentComplete: 15 },
+      ];
+    });
+
+    it('should return undefined when the field provided does not exist', () => {
+      const fieldName = 'invalid';
+      const groupTotals: GroupTotals = {};
+      aggregator = new VarianceAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.isInitialized).toBeTruthy();
+      expect(groupTotals['varianceSample'][fieldName]).toBe(undefined);
+    });
+
+    it('should calculate a sample variance by default when the chosen field from the dataset contains only numbers', () => {
+      const fieldName = 'percentComplete';
+      const groupTotals: GroupTotals = { varianceSample: {} };
+      aggregator = new VarianceAggregator(fieldName);
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      // mean of 43 => squared differences sum of 5178
+      expect(aggregator.field).toBe(fieldName);
+      expect(aggregator.type).toBe('varianceSample');
+      expect(aggregator.mode).toBe('sample');
+      expect(groupTotals.varianceSample[fieldName]).toBe(5178 / 4);
+    });
+
+    it('should calculate a population variance when defined as 2nd argument', () => {
+      const fieldName = 'percentComplete';
+      const groupTotals: GroupTotals = { variancePopulation: {} };
+      aggregator = new VarianceAggregator(fieldName, 'population');
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.mode).toBe('population');
+      expect(aggregator.type).toBe('variancePopulation');
+      expect(groupTotals.variancePopulation[fieldName]).toBe(5178 / 5);
+    });
+
+    it('should return undefined for a sample variance with a single value but zero for a population variance of the same field', () => {
+      const fieldName = 'duration';
+      const groupTotals: GroupTotals = {};
+      const aggregator1 = new VarianceAggregator(fieldName, 'sample');
+      const aggregator2 = new VarianceAggregator(fieldName, 'population');
+      aggregator1.init();
+      aggregator2.init();
+
+      aggregator1.accumulate(dataset[0]);
+      aggregator2.accumulate(dataset[0]);
+      aggregator1.storeResult(groupTotals);
+      aggregator2.storeResult(groupTotals);
+
+      expect(groupTotals.varianceSample[fieldName]).toBe(undefined);
+      expect(groupTotals.variancePopulation[fieldName]).toBe(0);
+    });
+  });
+
+  describe('Tree Aggregator', () => {
+    it('should add the child item value to the values already kept by the parent and return the new variance', () => {
+      const fieldName = 'percentComplete';
+      aggregator = new VarianceAggregator(fieldName, 'population');
+      aggregator.init({}, true);
+
+      const groupTotals: GroupTotals<any> = { variancePopulation: { percentComplete: 0 }, variancePopulationValues: { percentComplete: [2] } };
+      aggregator.accumulate({ id: 4, title: 'Task 4', percentComplete: 4, __treeLevel: 1 });
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.variancePopulationValues[fieldName]).toEqual([2, 4]);
+      expect(groupTotals.variancePopulation[fieldName]).toBe(1);
+    });
+  });
+});
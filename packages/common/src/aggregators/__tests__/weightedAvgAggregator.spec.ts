@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { GroupTotals } from '../../interfaces/grouping.interface.js';
+import { WeightedAvgAggregator } from '../weightedAvgAggregator.js';
+
+describe('weightedAvgAggregator', () => {
+  let aggregator: WeightedAvgAggregator;
+  let dataset: any[] = [];
+
+  describe('Regular Group Aggregator', () => {
+    beforeEach(() => {
+      dataset = [
+        { id: 0, title: 'Task 0', price: '10', quantity: 2 },
+        { id: 1, title: 'Task 1', price: 20, quantity: '3' },
+        { id: 2, title: 'Task 2', price: '', quantity: 5 },
+        { id: 3, title: 'Task 3', price: 40, quantity: null },
+        { id: 4, title: 'Task 4', price: 5, quantity: 5 },
+      ];
+    });
+
+    it('should return undefined when the field provided does not exist', () => {
+      const fieldName = 'invalid';
+      const groupTotals: GroupTotals = {};
+      aggregator = new WeightedAvgAggregator(fieldName, 'quantity');
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.isInitialized).toBeTruthy();
+      expect(groupTotals['weightedAvg'][fieldName]).toBe(undefined);
+    });
+
+    it('should calculate a weighted average with only the items having a valid number for both the value and its weight', () => {
+      const fieldName = 'price';
+      const groupTotals: GroupTotals = { weightedAvg: {} };
+      aggregator = new WeightedAvgAggregator(fieldName, 'quantity');
+      aggregator.init();
+
+      dataset.forEach((row) => aggregator.accumulate(row));
+      aggregator.storeResult(groupTotals);
+
+      expect(aggregator.field).toBe(fieldName);
+      expect(aggregator.weightField).toBe('quantity');
+      expect(aggregator.type).toBe('weightedAvg');
+      expect(groupTotals.weightedAvg[fieldName]).toBe((10 * 2 + 20 * 3 + 5 * 5) / (2 + 3 + 5));
+    });
+
+    it('should return undefined when the sum of all weights is zero', () => {
+      const fieldName = 'price';
+      const groupTotals: GroupTotals = { weightedAvg: {} };
+      aggregator = new WeightedAvgAggregator(fieldName, 'quantity');
+      aggregator.init();
+
+      aggregator.accumulate({ id: 0, price: 10, quantity: 0 });
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.weightedAvg[fieldName]).toBe(undefined);
+    });
+  });
+
+  describe('Tree Aggregator', () => {
+    it('should add the child item value and weight to the ones already kept by the parent and return the new weighted average', () => {
+      const fieldName = 'price';
+      aggregator = new WeightedAvgAggregator(fieldName, 'quantity');
+      aggregator.init({}, true);
+
+      const groupTotals: GroupTotals<any> = { weightedAvg: { price: 10 }, weightedAvgValues: { price: [[10, 2]] } };
+      aggregator.accumulate({ id: 4, title: 'Task 4', price: 20, quantity: 8, __treeLevel: 1 });
+      aggregator.storeResult(groupTotals);
+
+      expect(groupTotals.weightedAvgValues[fieldName]).toEqual([
+        [10, 2],
+        [20, 8],
+      ]);
+      expect(groupTotals.weightedAvg[fieldName]).toBe(18);
+    });
+  });
+});
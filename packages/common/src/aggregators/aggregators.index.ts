@@ -2,10 +2,17 @@ import type { AggregatorConstructor } from '../interfaces/aggregator.interface.j
 import { AvgAggregator } from './avgAggregator.js';
 import { CloneAggregator } from './cloneAggregator.js';
 import { CountAggregator } from './countAggregator.js';
+import { CountDistinctAggregator } from './countDistinctAggregator.js';
 import { DistinctAggregator } from './distinctAggregator.js';
 import { MaxAggregator } from './maxAggregator.js';
+import { MedianAggregator } from './medianAggregator.js';
 import { MinAggregator } from './minAggregator.js';
+import { ModeAggregator } from './modeAggregator.js';
+import { PercentileAggregator } from './percentileAggregator.js';
+import { StdDevAggregator } from './stdDevAggregator.js';
 import { SumAggregator } from './sumAggregator.js';
+import { VarianceAggregator } from './varianceAggregator.js';
+import { WeightedAvgAggregator } from './weightedAvgAggregator.js';
 
 /** Provides a list of different Aggregators for the Group Formatter */
 export const Aggregators: Record<string, AggregatorConstructor> = {
@@ -18,6 +25,9 @@ export const Aggregators: Record<string, AggregatorConstructor> = {
   /** Count Aggregator will count the number of rows in the group */
   Count: CountAggregator,
 
+  /** Count Distinct Aggregator will count the number of distinct values found inside the given group */
+  CountDistinct: CountDistinctAggregator,
+
   /** Distinct Aggregator will return an array of distinct values found inside the given group */
   Distinct: DistinctAggregator,
 
@@ -27,6 +37,36 @@ export const Aggregators: Record<string, AggregatorConstructor> = {
   /** Maximum Aggregator which will find the maximum value inside the given group */
   Max: MaxAggregator,
 
+  /** Median Aggregator which will find the median (middle) value of a given group */
+  Median: MedianAggregator,
+
+  /** Mode Aggregator which will find the most frequent value of a given group */
+  Mode: ModeAggregator,
+
+  /**
+   * Percentile Aggregator which calculate the percentile of a given group,
+   * the percentile (0-100) must be provided as 2nd argument, e.g.: `new Aggregators.Percentile('cost', 90)`
+   */
+  Percentile: PercentileAggregator,
+
+  /**
+   * Standard Deviation Aggregator which calculate the standard deviation of a given group,
+   * it is calculated from a "sample" by default or from the entire "population" when provided as 2nd argument, e.g.: `new Aggregators.StdDev('cost', 'population')`
+   */
+  StdDev: StdDevAggregator,
+
   /** Sum Aggregator which calculate the sum of a given group */
   Sum: SumAggregator,
+
+  /**
+   * Variance Aggregator which calculate the variance of a given group,
+   * it is calculated from a "sample" by default or from the entire "population" when provided as 2nd argument, e.g.: `new Aggregators.Variance('cost', 'population')`
+   */
+  Variance: VarianceAggregator,
+
+  /**
+   * Weighted Average Aggregator which calculate the average of a given group weighted by another field,
+   * the weight field must be provided as 2nd argument, e.g.: `new Aggregators.WeightedAvg('price', 'quantity')`
+   */
+  WeightedAvg: WeightedAvgAggregator,
 };
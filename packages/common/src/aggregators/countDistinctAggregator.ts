@@ -0,0 +1,15 @@
+import { ValuesAggregator } from './valuesAggregator.js';
+
+export class CountDistinctAggregator extends ValuesAggregator {
+  protected _type = 'countDistinct';
+
+  /** any value can be counted (not only numbers), only `null`, `undefined` and empty strings are skipped */
+  protected readValue(item: any): any {
+    const val = item?.hasOwnProperty(this._field) ? item[this._field] : undefined;
+    return val === null || val === '' ? undefined : val;
+  }
+
+  protected calculate(values: Array<number | string>): number {
+    return new Set(values).size;
+  }
+}
@@ -5,4 +5,12 @@ export * from './minAggregator.js';
 export * from './countAggregator.js';
 export * from './cloneAggregator.js';
 export * from './avgAggregator.js';
+export * from './countDistinctAggregator.js';
+export * from './medianAggregator.js';
+export * from './modeAggregator.js';
+export * from './percentileAggregator.js';
+export * from './stdDevAggregator.js';
+export * from './valuesAggregator.js';
+export * from './varianceAggregator.js';
+export * from './weightedAvgAggregator.js';
 export * from './aggregators.index.js';
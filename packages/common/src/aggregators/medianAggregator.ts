@@ -0,0 +1,9 @@
+import { PercentileAggregator } from './percentileAggregator.js';
+
+export class MedianAggregator extends PercentileAggregator {
+  protected _type = 'median';
+
+  constructor(field: number | string) {
+    super(field, 50);
+  }
+}
@@ -0,0 +1,28 @@
+import { ValuesAggregator } from './valuesAggregator.js';
+
+export class ModeAggregator extends ValuesAggregator {
+  protected _type = 'mode';
+
+  /** any value can be used (not only numbers), only `null`, `undefined` and empty strings are skipped */
+  protected readValue(item: any): any {
+    const val = item?.hasOwnProperty(this._field) ? item[this._field] : undefined;
+    return val === null || val === '' ? undefined : val;
+  }
+
+  /** Find the most frequent value, when there's a tie then the first value to reach the highest count wins */
+  protected calculate(values: Array<number | string>): number | string | undefined {
+    const counts = new Map<number | string, number>();
+    let mode: number | string | undefined;
+    let maxCount = 0;
+
+    for (const val of values) {
+      const count = (counts.get(val) ?? 0) + 1;
+      counts.set(val, count);
+      if (count > maxCount) {
+        maxCount = count;
+        mode = val;
+      }
+    }
+    return mode;
+  }
+}
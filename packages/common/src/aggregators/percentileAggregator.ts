@@ -0,0 +1,36 @@
+import { ValuesAggregator } from './valuesAggregator.js';
+
+export class PercentileAggregator extends ValuesAggregator {
+  protected _percentile: number;
+  protected _type: string;
+
+  /**
+   * @param {Number|String} field - column definition field Id
+   * @param {Number} percentile - percentile to calculate, a number between 0 and 100 (e.g. 90 for the 90th percentile).
+   * The percentile is also part of the totals type (e.g. `totals.percentile90[field]`) so that multiple percentiles can be calculated on the same field.
+   */
+  constructor(field: number | string, percentile: number) {
+    super(field);
+    if (!(percentile >= 0 && percentile <= 100)) {
+      throw new Error('[Slickgrid-Universal] PercentileAggregator requires a percentile number between 0 and 100.');
+    }
+    this._percentile = percentile;
+    this._type = `percentile${percentile}`;
+  }
+
+  get percentile(): number {
+    return this._percentile;
+  }
+
+  /** Calculate the percentile with a linear interpolation between the 2 closest ranks (same as Excel "PERCENTILE.INC") */
+  protected calculate(values: number[]): number | undefined {
+    if (values.length === 0) {
+      return undefined;
+    }
+    const sortedValues = values.slice().sort((a, b) => a - b);
+    const rank = (this._percentile / 100) * (sortedValues.length - 1);
+    const lowerIdx = Math.floor(rank);
+    const upperIdx = Math.ceil(rank);
+    return sortedValues[lowerIdx] + (sortedValues[upperIdx] - sortedValues[lowerIdx]) * (rank - lowerIdx);
+  }
+}
@@ -0,0 +1,14 @@
+import { titleCase } from '@slickgrid-universal/utils';
+import { VarianceAggregator } from './varianceAggregator.js';
+
+export class StdDevAggregator extends VarianceAggregator {
+  constructor(field: number | string, mode: 'population' | 'sample' = 'sample') {
+    super(field, mode);
+    this._type = `stdDev${titleCase(mode)}`;
+  }
+
+  protected calculate(values: number[]): number | undefined {
+    const variance = super.calculate(values);
+    return variance === undefined ? undefined : Math.sqrt(variance);
+  }
+}
@@ -0,0 +1,106 @@
+import { isNumber } from '@slickgrid-universal/utils';
+import type { Aggregator } from './../interfaces/aggregator.interface.js';
+import type { GroupTotals } from './../interfaces/grouping.interface.js';
+
+/**
+ * Base Aggregator for statistics that cannot be calculated incrementally (median, percentile, mode, ...),
+ * it keeps every accepted value of the group and calculates the result from the complete list of values.
+ * When used with Tree Data, the values are also kept on the parent item under `__treeTotals[type + 'Values']`
+ * so that they can be passed up to the next parent level.
+ */
+export abstract class ValuesAggregator implements Aggregator {
+  protected _isInitialized = false;
+  protected _isTreeAggregator = false;
+  protected _values: any[] = [];
+  protected _field: number | string;
+  protected abstract _type: string;
+
+  constructor(field: number | string) {
+    this._field = field;
+  }
+
+  get field(): number | string {
+    return this._field;
+  }
+
+  get isInitialized(): boolean {
+    return this._isInitialized;
+  }
+
+  get type(): string {
+    return this._type;
+  }
+
+  /** property name used to keep all the values on a Tree Data parent item */
+  protected get valuesPropName(): string {
+    return `${this._type}Values`;
+  }
+
+  init(item?: any, isTreeAggregator = false): void {
+    this._values = [];
+    this._isInitialized = true;
+    this._isTreeAggregator = isTreeAggregator;
+
+    if (isTreeAggregator) {
+      if (!item.__treeTotals) {
+        item.__treeTotals = {};
+      }
+      this.addGroupTotalPropertiesWhenNotExist(item.__treeTotals);
+      item.__treeTotals[this.valuesPropName][this._field] = [];
+      item.__treeTotals[this._type][this._field] = this.calculate([]);
+    }
+  }
+
+  accumulate(item: any, isTreeParent = false): void {
+    // when dealing with Tree Data structure, we only keep the values of the current item (or all values of a parent item)
+    if (this._isTreeAggregator) {
+      this._values = [];
+      if (isTreeParent) {
+        this._values = item?.__treeTotals?.[this.valuesPropName]?.[this._field] ?? [];
+        return;
+      }
+    }
+
+    const val = this.readValue(item);
+    if (val !== undefined) {
+      this._values.push(val);
+    }
+  }
+
+  storeResult(groupTotals: GroupTotals<any>): void {
+    let values = this._values;
+    this.addGroupTotalPropertiesWhenNotExist(groupTotals);
+
+    // when dealing with Tree Data, we also need to add the values to the ones already kept by the parent
+    if (this._isTreeAggregator) {
+      values = groupTotals[this.valuesPropName][this._field] ?? [];
+      for (const val of this._values) {
+        values.push(val);
+      }
+      groupTotals[this.valuesPropName][this._field] = values;
+    }
+
+    groupTotals[this._type][this._field] = this.calculate(values);
+  }
+
+  /**
+   * Read the value of the item that will be kept for the calculation, it returns `undefined` when the value should be skipped.
+   * By default only numbers (or numbers provided as string) are kept.
+   */
+  protected readValue(item: any): any {
+    const val = item?.hasOwnProperty(this._field) ? item[this._field] : null;
+    return isNumber(val) ? parseFloat(val as any) : undefined;
+  }
+
+  /** Calculate the result from all the values kept by the Aggregator */
+  protected abstract calculate(values: any[]): number | string | undefined;
+
+  protected addGroupTotalPropertiesWhenNotExist(groupTotals: any): void {
+    if (groupTotals[this._type] === undefined) {
+      groupTotals[this._type] = {};
+    }
+    if (this._isTreeAggregator && groupTotals[this.valuesPropName] === undefined) {
+      groupTotals[this.valuesPropName] = {};
+    }
+  }
+}
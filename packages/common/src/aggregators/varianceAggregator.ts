@@ -0,0 +1,33 @@
+import { titleCase } from '@slickgrid-universal/utils';
+import { ValuesAggregator } from './valuesAggregator.js';
+
+export class VarianceAggregator extends ValuesAggregator {
+  protected _mode: 'population' | 'sample';
+  protected _type: string;
+
+  /**
+   * @param {Number|String} field - column definition field Id
+   * @param {String} mode - calculate the variance of a "sample" (default) or of the entire "population".
+   * The mode is also part of the totals type (e.g. `totals.varianceSample[field]`) so that both modes can be calculated on the same field.
+   */
+  constructor(field: number | string, mode: 'population' | 'sample' = 'sample') {
+    super(field);
+    this._mode = mode;
+    this._type = `variance${titleCase(mode)}`;
+  }
+
+  get mode(): 'population' | 'sample' {
+    return this._mode;
+  }
+
+  protected calculate(values: number[]): number | undefined {
+    const count = values.length;
+    // a sample variance requires at least 2 values (same as Excel "VAR.S" which returns a #DIV/0! error)
+    if (count === 0 || (this._mode === 'sample' && count < 2)) {
+      return undefined;
+    }
+    const mean = values.reduce((sum, val) => sum + val, 0) / count;
+    const squaredDiffSum = values.reduce((sum, val) => sum + (val - mean) ** 2, 0);
+    return squaredDiffSum / (this._mode === 'sample' ? count - 1 : count);
+  }
+}
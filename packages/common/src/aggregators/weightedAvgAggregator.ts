@@ -0,0 +1,37 @@
+import { isNumber } from '@slickgrid-universal/utils';
+import { ValuesAggregator } from './valuesAggregator.js';
+
+export class WeightedAvgAggregator extends ValuesAggregator {
+  protected _weightField: number | string;
+  protected _type = 'weightedAvg';
+
+  /**
+   * @param {Number|String} field - column definition field Id
+   * @param {Number|String} weightField - field Id of the item property used as weight of each value (e.g. a quantity)
+   */
+  constructor(field: number | string, weightField: number | string) {
+    super(field);
+    this._weightField = weightField;
+  }
+
+  get weightField(): number | string {
+    return this._weightField;
+  }
+
+  /** keep a tuple of [value, weight], only when both of them are numbers */
+  protected readValue(item: any): [number, number] | undefined {
+    const val = item?.hasOwnProperty(this._field) ? item[this._field] : null;
+    const weight = item?.hasOwnProperty(this._weightField) ? item[this._weightField] : null;
+    return isNumber(val) && isNumber(weight) ? [parseFloat(val as any), parseFloat(weight as any)] : undefined;
+  }
+
+  protected calculate(values: Array<[number, number]>): number | undefined {
+    let weightedSum = 0;
+    let weightSum = 0;
+    for (const [val, weight] of values) {
+      weightedSum += val * weight;
+      weightSum += weight;
+    }
+    return weightSum === 0 ? undefined : weightedSum / weightSum;
+  }
+}
@@ -2,22 +2,42 @@ import type { Locale } from './interfaces/locale.interface.js';
 
 export class Constants {
   static readonly locales: Locale = {
+    TEXT_ABOVE_AVERAGE: 'Above Average',
+    TEXT_ADD_CONDITION: 'Add Condition',
+    TEXT_ADD_GROUP: 'Add Group',
+    TEXT_ADVANCED_FILTER: 'Advanced Filter',
     TEXT_ALL_SELECTED: 'All Selected',
     TEXT_ALL_X_RECORDS_SELECTED: 'All {{x}} records selected',
+    TEXT_AND: 'And',
+    TEXT_APPLY: 'Apply',
     TEXT_APPLY_MASS_UPDATE: 'Apply Mass Update',
     TEXT_APPLY_TO_SELECTION: 'Update Selection',
+    TEXT_ARIA_CELL_UPDATED: '{{x}} updated',
+    TEXT_ARIA_ROWS_FOUND: '{{x}} rows found',
+    TEXT_ARIA_ROWS_SELECTED: '{{x}} rows selected',
+    TEXT_ARIA_SHOWING_ROWS: 'Showing rows {{x}} to {{y}} of {{z}}',
+    TEXT_ARIA_SORT_ASCENDING: 'ascending',
+    TEXT_ARIA_SORT_DESCENDING: 'descending',
+    TEXT_ARIA_SORTED_BY: 'Sorted by {{x}}',
+    TEXT_ARIA_SORTING_REMOVED: 'Sorting removed',
+    TEXT_BELOW_AVERAGE: 'Below Average',
+    TEXT_BOTTOM_10_ITEMS: 'Bottom 10 Items',
     TEXT_CANCEL: 'Cancel',
     TEXT_CLEAR_ALL_FILTERS: 'Clear all Filters',
     TEXT_CLEAR_ALL_GROUPING: 'Clear all Grouping',
     TEXT_CLEAR_ALL_SORTING: 'Clear all Sorting',
+    TEXT_CLEAR_CONDITIONAL_FORMATTING: 'Clear Rules',
     TEXT_CLEAR_PINNING: 'Unfreeze Columns/Rows',
     TEXT_CLONE: 'Clone',
     TEXT_COLLAPSE_ALL_GROUPS: 'Collapse all Groups',
+    TEXT_COLOR_SCALE: 'Color Scale',
+    TEXT_CONDITIONAL_FORMATTING: 'Conditional Formatting',
     TEXT_CONTAINS: 'Contains',
     TEXT_COLUMNS: 'Columns',
     TEXT_COLUMN_RESIZE_BY_CONTENT: 'Resize by Content',
     TEXT_COMMANDS: 'Commands',
     TEXT_COPY: 'Copy',
+    TEXT_DATA_BAR: 'Data Bar',
     TEXT_DROP_COLUMN_HEADER_TO_GROUP_BY: 'Drop a column header here to group by the column',
     TEXT_EQUALS: 'Equals',
     TEXT_EQUAL_TO: 'Equal to',
@@ -39,13 +59,16 @@ export class Constants {
     TEXT_FORCE_FIT_COLUMNS: 'Force fit columns',
     TEXT_FILTER_SHORTCUTS: 'Filter Shortcuts',
     TEXT_FREEZE_COLUMNS: 'Freeze Columns',
+    TEXT_FREEZE_COLUMNS_RIGHT: 'Freeze Columns (Right)',
     TEXT_GREATER_THAN: 'Greater than',
     TEXT_GREATER_THAN_OR_EQUAL_TO: 'Greater than or equal to',
     TEXT_GROUP_BY: 'Group By',
     TEXT_HIDE_COLUMN: 'Hide Column',
+    TEXT_ICON_SET: 'Icon Set',
     TEXT_ITEMS: 'items',
     TEXT_ITEMS_PER_PAGE: 'items per page',
     TEXT_ITEMS_SELECTED: 'items selected',
+    TEXT_NOT: 'Not',
     TEXT_OF: 'of',
     TEXT_OK: 'OK',
     TEXT_OPTIONS: 'Options',
@@ -55,14 +78,17 @@ export class Constants {
     TEXT_LOADING: 'Loading...',
     TEXT_NOT_CONTAINS: 'Not contains',
     TEXT_NOT_EQUAL_TO: 'Not equal to',
+    TEXT_OR: 'Or',
     TEXT_PAGE: 'Page',
     TEXT_RECORDS_SELECTED: 'records selected',
     TEXT_REFRESH_DATASET: 'Refresh Dataset',
+    TEXT_REMOVE: 'Remove',
     TEXT_REMOVE_FILTER: 'Remove Filter',
     TEXT_REMOVE_SORT: 'Remove Sort',
     TEXT_RESET_INPUT_VALUE: 'Reset Input Value',
     TEXT_RESET_FORM: 'Reset Form',
     TEXT_SAVE: 'Save',
+    TEXT_SEARCH: 'Search',
     TEXT_SELECT_ALL: 'Select All',
     TEXT_SYNCHRONOUS_RESIZE: 'Synchronous resize',
     TEXT_SORT_ASCENDING: 'Sort Ascending',
@@ -72,6 +98,7 @@ export class Constants {
     TEXT_TOGGLE_DARK_MODE: 'Toggle Dark Mode',
     TEXT_TOGGLE_FILTER_ROW: 'Toggle Filter Row',
     TEXT_TOGGLE_PRE_HEADER_ROW: 'Toggle Pre-Header Row',
+    TEXT_TOP_10_ITEMS: 'Top 10 Items',
     TEXT_UNFREEZE_COLUMNS: 'Unfreeze Columns',
     TEXT_X_OF_Y_SELECTED: '# of % selected',
     TEXT_X_OF_Y_MASS_SELECTED: '{{x}} of {{y}} selected',
@@ -85,6 +112,8 @@ export class Constants {
     TREE_LEVEL_PROP: '__treeLevel',
     PARENT_PROP: '__parentId',
   };
+  static readonly DEFAULT_CONDITIONAL_FORMATTING_COLOR_SCALE_COLORS: string[] = ['#f8696b', '#ffeb84', '#63be7b'];
+  static readonly DEFAULT_CONDITIONAL_FORMATTING_DATA_BAR_COLOR = '#638ec6';
   static readonly DEFAULT_FORMATTER_NUMBER_MIN_DECIMAL = 2;
   static readonly DEFAULT_FORMATTER_NUMBER_MAX_DECIMAL = 2;
   static readonly DEFAULT_FORMATTER_CURRENCY_MIN_DECIMAL = 2;
@@ -4,7 +4,7 @@ import { SortDirectionNumber } from '../../enums/sortDirectionNumber.enum.js';
 import { SlickHybridSelectionModel } from '../../extensions/slickHybridSelectionModel.js';
 import type { GridOption, Grouping } from '../../interfaces/index.js';
 import { SortComparers } from '../../sortComparers/index.js';
-import { SlickEventData } from '../slickCore.js';
+import { SlickEventData, SlickGroup, SlickGroupTotals } from '../slickCore.js';
 import { SlickDataView } from '../slickDataview.js';
 import { SlickGrid } from '../slickGrid.js';
 
@@ -1424,6 +1424,58 @@ describe('SlickDatView core file', () => {
       });
       expect(dv.getItem(2)).toBeUndefined();
     });
+
+    it('should notify "onGroupingChanged" with the grouping infos when calling setGrouping()', () => {
+      dv = new SlickDataView({});
+      const onGroupingChangedSpy = vi.spyOn(dv.onGroupingChanged, 'notify');
+
+      dv.setGrouping({ getter: 'lastName' } as Grouping);
+
+      expect(onGroupingChangedSpy).toHaveBeenCalledWith({ groupingInfos: [expect.objectContaining({ getter: 'lastName' })] });
+    });
+
+    it('should display the remote groups as-is with their title, collapsed state and totals instead of grouping the items', () => {
+      dv = new SlickDataView({});
+      dv.setGrouping([
+        { getter: 'lastName', formatter: (g) => `Family: ${g.value}`, aggregators: [new Aggregators.Sum('age')] },
+        { getter: 'firstName', collapsed: true },
+      ] as Grouping[]);
+      const smithGroup = new SlickGroup();
+      smithGroup.value = 'Smith';
+      smithGroup.count = 3;
+      smithGroup.groupingKey = 'Smith';
+      smithGroup.totals = Object.assign(new SlickGroupTotals(), { group: smithGroup, initialized: true, sum: { age: 90 } });
+      const johnGroup = new SlickGroup();
+      johnGroup.level = 1;
+      johnGroup.value = 'John';
+      johnGroup.count = 3;
+      johnGroup.groupingKey = 'Smith:|:John';
+      smithGroup.groups = [johnGroup];
+
+      dv.setRemoteGroups([smithGroup]);
+
+      expect(dv.getGroups()).toEqual([smithGroup]);
+      expect(dv.getLength()).toBe(3);
+      expect(dv.getItem(0)).toEqual(expect.objectContaining({ title: 'Family: Smith', collapsed: 0 }));
+      expect(dv.getItem(1)).toEqual(expect.objectContaining({ title: 'John', collapsed: 1 }));
+      expect(dv.getItem(2)).toEqual(expect.objectContaining({ __groupTotals: true, sum: { age: 90 } }));
+
+      // loading the items of a remote group
+      dv.expandGroup('Smith', 'John');
+      johnGroup.rows = [{ id: 3, firstName: 'John', lastName: 'Smith', age: 30 }];
+      dv.addItems(johnGroup.rows);
+      expect(dv.getItem(2)).toEqual({ id: 3, firstName: 'John', lastName: 'Smith', age: 30 });
+
+      // changing the grouping makes the remote groups obsolete until new ones are provided
+      dv.setGrouping({ getter: 'firstName' } as Grouping);
+      expect(dv.getGroups()).toEqual([]);
+      expect(dv.getLength()).toBe(0);
+
+      // removing the remote groups goes back to grouping the items
+      dv.setRemoteGroups(null);
+      expect(dv.getGroups().length).toBe(1);
+      expect(dv.getItem(0)).toEqual(expect.objectContaining({ value: 'John', count: 1 }));
+    });
   });
 
   describe('Sorting', () => {
@@ -750,6 +750,430 @@ describe('SlickGrid core file', () => {
     });
   });
 
+  describe('ARIA Attributes', () => {
+    let columns: Column[];
+    let data: any[];
+
+    beforeEach(() => {
+      columns = [
+        { id: 'firstName', field: 'firstName', name: 'First Name', sortable: true },
+        { id: 'lastName', field: 'lastName', name: 'Last Name', sortable: true },
+        { id: 'age', field: 'age', name: 'Age' },
+      ];
+      data = [
+        { id: 0, firstName: 'John', lastName: 'Doe', age: 30 },
+        { id: 1, firstName: 'Jane', lastName: 'Doe', age: 28 },
+      ];
+    });
+
+    it('should add the grid label and count the header rows in the row count & row indexes', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, ariaLabel: 'Employees', showHeaderRow: true });
+      const rowNodes = container.querySelectorAll<HTMLDivElement>('.slick-row');
+      const headerRowCells = container.querySelectorAll('.slick-headerrow-column');
+
+      expect(container.getAttribute('role')).toBe('grid');
+      expect(container.getAttribute('aria-label')).toBe('Employees');
+      expect(container.getAttribute('aria-rowcount')).toBe('4');
+      expect(container.querySelector('.slick-header-columns')!.getAttribute('aria-rowindex')).toBe('1');
+      expect(container.querySelector('.slick-headerrow-columns')!.getAttribute('aria-rowindex')).toBe('2');
+      expect(headerRowCells[1].getAttribute('role')).toBe('gridcell');
+      expect(headerRowCells[1].getAttribute('aria-colindex')).toBe('2');
+      expect(rowNodes[0].getAttribute('aria-rowindex')).toBe('3');
+      expect(rowNodes[1].getAttribute('aria-rowindex')).toBe('4');
+
+      grid.setHeaderRowVisibility(false);
+
+      expect(container.getAttribute('aria-rowcount')).toBe('3');
+      expect(rowNodes[0].getAttribute('aria-rowindex')).toBe('2');
+      expect(rowNodes[1].getAttribute('aria-rowindex')).toBe('3');
+    });
+
+    it('should add the column index to the column headers and the cells, and the column span to the cells spanning multiple columns', () => {
+      const dv = new SlickDataView({});
+      dv.setItems(data);
+      dv.getItemMetadata = (row: number) => (row === 1 ? { columns: { 0: { colspan: 2 } } } : null);
+      grid = new SlickGrid<any, Column>(container, dv, columns, defaultOptions);
+      const headerColumns = container.querySelectorAll('.slick-header-column');
+      const firstRowCells = container.querySelectorAll('.slick-row[data-row="0"] .slick-cell');
+      const secondRowCells = container.querySelectorAll('.slick-row[data-row="1"] .slick-cell');
+
+      expect(headerColumns[2].getAttribute('aria-colindex')).toBe('3');
+      expect(firstRowCells[1].getAttribute('aria-colindex')).toBe('2');
+      expect(firstRowCells[1].getAttribute('aria-colspan')).toBeNull();
+      expect(secondRowCells[0].getAttribute('aria-colspan')).toBe('2');
+      expect(secondRowCells[1].getAttribute('aria-colindex')).toBe('3');
+    });
+
+    it('should update the "aria-sort" of the sortable column headers when the sort columns changed', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, defaultOptions);
+      const headerColumns = container.querySelectorAll('.slick-header-column');
+
+      expect(headerColumns[0].getAttribute('aria-sort')).toBe('none');
+      expect(headerColumns[2].getAttribute('aria-sort')).toBeNull();
+
+      grid.setSortColumns([
+        { columnId: 'firstName', sortAsc: true },
+        { columnId: 'lastName', sortAsc: false },
+      ]);
+      expect(headerColumns[0].getAttribute('aria-sort')).toBe('ascending');
+      expect(headerColumns[1].getAttribute('aria-sort')).toBe('descending');
+
+      grid.setSortColumns([]);
+      expect(headerColumns[0].getAttribute('aria-sort')).toBe('none');
+      expect(headerColumns[1].getAttribute('aria-sort')).toBe('none');
+    });
+
+    it('should add "aria-multiselectable" to the grid and "aria-selected" to the rows when a selection model is set', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, defaultOptions);
+      grid.setSelectionModel(new SlickHybridSelectionModel({ selectionType: 'row' }));
+      grid.invalidate();
+      grid.setSelectedRows([1]);
+
+      expect(container.getAttribute('aria-multiselectable')).toBe('true');
+      expect(container.querySelector('.slick-row[data-row="0"]')!.getAttribute('aria-selected')).toBe('false');
+      expect(container.querySelector('.slick-row[data-row="1"]')!.getAttribute('aria-selected')).toBe('true');
+
+      grid.setSelectedRows([0]);
+
+      expect(container.querySelector('.slick-row[data-row="0"]')!.getAttribute('aria-selected')).toBe('true');
+      expect(container.querySelector('.slick-row[data-row="1"]')!.getAttribute('aria-selected')).toBe('false');
+    });
+
+    it('should add the expand state and level to the group rows', () => {
+      const dv = new SlickDataView({});
+      dv.setItems(data);
+      dv.setGrouping({ getter: 'lastName', collapsed: false });
+      grid = new SlickGrid<any, Column>(container, dv, columns, defaultOptions);
+      const groupRowNode = container.querySelector('.slick-row[data-row="0"]')!;
+
+      expect(groupRowNode.getAttribute('aria-expanded')).toBe('true');
+      expect(groupRowNode.getAttribute('aria-level')).toBe('1');
+      expect(container.querySelector('.slick-row[data-row="1"]')!.getAttribute('aria-expanded')).toBeNull();
+    });
+
+    it('should use the "treegrid" role and add the expand state and level to the tree data rows', () => {
+      const treeData = [
+        { id: 0, firstName: 'John', __treeLevel: 0, __hasChildren: true, __collapsed: false },
+        { id: 1, firstName: 'Jane', __treeLevel: 1, __hasChildren: true, __collapsed: true },
+        { id: 2, firstName: 'Bob', __treeLevel: 1 },
+      ];
+      grid = new SlickGrid<any, Column>(container, treeData, columns, { ...defaultOptions, enableTreeData: true });
+      const rowNodes = container.querySelectorAll('.slick-row');
+
+      expect(container.getAttribute('role')).toBe('treegrid');
+      expect(rowNodes[0].getAttribute('aria-level')).toBe('1');
+      expect(rowNodes[0].getAttribute('aria-expanded')).toBe('true');
+      expect(rowNodes[1].getAttribute('aria-level')).toBe('2');
+      expect(rowNodes[1].getAttribute('aria-expanded')).toBe('false');
+      expect(rowNodes[2].getAttribute('aria-level')).toBe('2');
+      expect(rowNodes[2].getAttribute('aria-expanded')).toBeNull();
+    });
+  });
+
+  describe('RTL (Right-to-Left)', () => {
+    let columns: Column[];
+    let data: any[];
+
+    beforeEach(() => {
+      columns = [
+        { id: 'firstName', field: 'firstName', name: 'First Name' },
+        { id: 'lastName', field: 'lastName', name: 'Last Name' },
+        { id: 'age', field: 'age', name: 'Age' },
+      ];
+      data = [
+        { id: 0, firstName: 'John', lastName: 'Doe', age: 30 },
+        { id: 1, firstName: 'Jane', lastName: 'Doe', age: 28 },
+      ];
+    });
+
+    it('should add the RTL direction to the grid container and position the header columns from the right side', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, rtl: true });
+      const headerColumnsElm = container.querySelector<HTMLDivElement>('.slick-header-columns')!;
+
+      expect(container.classList.contains('slick-rtl')).toBe(true);
+      expect(container.dir).toBe('rtl');
+      expect(headerColumnsElm.style.right).toBe('-1000px');
+      expect(headerColumnsElm.style.left).toBe('');
+    });
+
+    it('should not add the RTL direction when the option is disabled', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, defaultOptions);
+
+      expect(container.classList.contains('slick-rtl')).toBe(false);
+      expect(container.dir).toBe('');
+      expect(container.querySelector<HTMLDivElement>('.slick-header-columns')!.style.left).toBe('-1000px');
+    });
+
+    it('should call scrollToX() with a positive position when the header is scrolled with a negative scrollLeft', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, rtl: true });
+      const scrollToXSpy = vi.spyOn(grid, 'scrollToX');
+      const headerColumns = container.querySelectorAll('.slick-header-column');
+      const event = new CustomEvent('scroll');
+      Object.defineProperty(headerColumns[0], 'scrollLeft', { writable: true, value: -100 });
+      Object.defineProperty(event, 'target', { writable: true, value: headerColumns[0] });
+      container.querySelector('.slick-header.slick-header-right')!.dispatchEvent(event);
+
+      expect(scrollToXSpy).toHaveBeenCalledWith(100);
+    });
+
+    it('should use a negative scrollLeft on the viewport when calling scrollToX()', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, rtl: true });
+      const viewportElm = container.querySelector<HTMLDivElement>('.slick-viewport-top.slick-viewport-left')!;
+      Object.defineProperty(viewportElm, 'scrollLeft', { writable: true, value: 0 });
+      grid.scrollToX(100);
+
+      expect(viewportElm.scrollLeft).toBe(-100);
+    });
+
+    it('should mirror the navigation when calling navigateLeft() and navigateRight()', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, enableCellNavigation: true, rtl: true });
+      grid.setActiveCell(0, 1);
+      grid.navigateLeft();
+
+      expect(grid.getActiveCell()).toEqual({ row: 0, cell: 2 });
+
+      grid.navigateRight();
+      grid.navigateRight();
+      expect(grid.getActiveCell()).toEqual({ row: 0, cell: 0 });
+    });
+
+    it('should call navigateRowStart() when triggering Ctrl+ArrowRight key and navigateRowEnd() with Ctrl+ArrowLeft key', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, enableCellNavigation: true, rtl: true });
+      const navigateRowStartSpy = vi.spyOn(grid, 'navigateRowStart');
+      const navigateRowEndSpy = vi.spyOn(grid, 'navigateRowEnd');
+      grid.setActiveCell(0, 1);
+      const event1 = new CustomEvent('keydown');
+      Object.defineProperty(event1, 'key', { writable: true, value: 'ArrowRight' });
+      Object.defineProperty(event1, 'ctrlKey', { writable: true, value: true });
+      container.querySelector('.grid-canvas-left')!.dispatchEvent(event1);
+
+      expect(navigateRowStartSpy).toHaveBeenCalled();
+      expect(navigateRowEndSpy).not.toHaveBeenCalled();
+
+      const event2 = new CustomEvent('keydown');
+      Object.defineProperty(event2, 'key', { writable: true, value: 'ArrowLeft' });
+      Object.defineProperty(event2, 'ctrlKey', { writable: true, value: true });
+      container.querySelector('.grid-canvas-left')!.dispatchEvent(event2);
+
+      expect(navigateRowEndSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('Frozen Right Columns', () => {
+    let columns: Column[];
+    let data: any[];
+
+    /** find the dynamic CSS rule used to translate the columns frozen on the right side */
+    const getFrozenRightCssRule = () => {
+      const rules = Array.from(document.querySelectorAll('style')).flatMap((styleElm) => Array.from(styleElm.sheet?.cssRules || []));
+      return rules.find((rule) => (rule as CSSStyleRule).selectorText === `.${grid.getUID()} .frozen-right`) as CSSStyleRule;
+    };
+
+    beforeEach(() => {
+      columns = [
+        { id: 'firstName', field: 'firstName', name: 'First Name', width: 100 },
+        { id: 'lastName', field: 'lastName', name: 'Last Name', width: 100 },
+        { id: 'age', field: 'age', name: 'Age', width: 100 },
+      ];
+      data = [
+        { id: 0, firstName: 'John', lastName: 'Doe', age: 30 },
+        { id: 1, firstName: 'Jane', lastName: 'Doe', age: 28 },
+      ];
+    });
+
+    it('should add the frozen right CSS classes to the header, header row, footer row and cells of the columns frozen on the right side', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        frozenRightColumn: 1,
+        showHeaderRow: true,
+        createFooterRow: true,
+        showFooterRow: true,
+      });
+      const headerColumns = container.querySelectorAll('.slick-header-column');
+      const firstRowCells = container.querySelectorAll('.slick-row:first-child .slick-cell');
+
+      expect(headerColumns[0].classList.contains('frozen-right')).toBe(false);
+      expect(headerColumns[1].className).toContain('frozen-right frozen-right-first');
+      expect(headerColumns[2].classList.contains('frozen-right')).toBe(true);
+      expect(headerColumns[2].classList.contains('frozen-right-first')).toBe(false);
+      expect(grid.getHeaderRowColumn(1).classList.contains('frozen-right-first')).toBe(true);
+      expect(grid.getFooterRowColumn(2).classList.contains('frozen-right')).toBe(true);
+      expect(firstRowCells[0].classList.contains('frozen-right')).toBe(false);
+      expect(firstRowCells[1].className).toContain('frozen-right frozen-right-first');
+      expect(firstRowCells[2].classList.contains('frozen-right')).toBe(true);
+    });
+
+    it('should reset the frozen right column when it is not after the left frozen column or when it is out of range', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, frozenColumn: 0, frozenRightColumn: 0 });
+      expect(grid.getOptions().frozenRightColumn).toBe(-1);
+
+      grid.setOptions({ frozenRightColumn: 3 });
+      expect(grid.getOptions().frozenRightColumn).toBe(-1);
+
+      grid.setOptions({ frozenRightColumn: 2 });
+      expect(grid.getOptions().frozenRightColumn).toBe(2);
+      expect(container.querySelectorAll('.slick-header-column.frozen-right').length).toBe(1);
+    });
+
+    it('should translate the frozen right columns to the end of the viewport and update their offset when scrolling horizontally', () => {
+      const manyColumns = Array.from({ length: 10 }, (_, i) => ({ id: `col${i}`, field: `col${i}`, name: `Col ${i}`, width: 100 })) as Column[];
+      grid = new SlickGrid<any, Column>(container, data, manyColumns, { ...defaultOptions, frozenRightColumn: 9 });
+
+      expect(getFrozenRightCssRule().style.transform).toBe('translateX(-200px)');
+
+      grid.scrollToX(150);
+      expect(getFrozenRightCssRule().style.transform).toBe('translateX(-50px)');
+
+      grid.scrollToX(200);
+      expect(getFrozenRightCssRule().style.transform).toBe('translateX(0px)');
+    });
+
+    it('should translate the frozen right columns in the opposite direction when RTL is enabled', () => {
+      const manyColumns = Array.from({ length: 10 }, (_, i) => ({ id: `col${i}`, field: `col${i}`, name: `Col ${i}`, width: 100 })) as Column[];
+      grid = new SlickGrid<any, Column>(container, data, manyColumns, { ...defaultOptions, frozenRightColumn: 9, rtl: true });
+
+      expect(getFrozenRightCssRule().style.transform).toBe('translateX(200px)');
+    });
+
+    it('should not translate anything when there are no columns frozen on the right side', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, defaultOptions);
+
+      expect(getFrozenRightCssRule().style.transform).toBe('translateX(0px)');
+      expect(container.querySelectorAll('.frozen-right').length).toBe(0);
+    });
+
+    it('should always render the cells of the columns frozen on the right side even when they are outside of the horizontal range', () => {
+      const manyColumns = Array.from({ length: 30 }, (_, i) => ({ id: `col${i}`, field: `col${i}`, name: `Col ${i}`, width: 100 })) as Column[];
+      grid = new SlickGrid<any, Column>(container, data, manyColumns, { ...defaultOptions, frozenRightColumn: 29 });
+      const firstRowCells = container.querySelectorAll('.slick-row:first-child .slick-cell');
+
+      expect(firstRowCells.length).toBeLessThan(30);
+      expect(firstRowCells[firstRowCells.length - 1].classList.contains('l29')).toBe(true);
+    });
+
+    it('should validate the width of the columns frozen on both sides together', () => {
+      const alertSpy = vi.spyOn(global, 'alert').mockReturnValue();
+      vi.spyOn(container, 'getBoundingClientRect').mockReturnValue({ left: 0, top: 0, right: 0, bottom: 0, width: 250 } as DOMRect);
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        invalidColumnFreezeWidthCallback: (error) => alert(error),
+      });
+
+      expect(grid.validateColumnFreezeWidth(-1, 1)).toBe(true);
+      expect(grid.validateColumnFreezeWidth(0, 1)).toBe(false);
+      expect(alertSpy).toHaveBeenCalledWith(expect.stringContaining('[SlickGrid] You are trying to freeze/pin more columns than the grid can support.'));
+    });
+  });
+
+  describe('Column Virtualization', () => {
+    let columns: Column[];
+    let data: any[];
+
+    beforeEach(() => {
+      columns = Array.from({ length: 30 }, (_, i) => ({ id: `col${i}`, field: `col${i}`, name: `Col ${i}`, width: 100, sortable: true })) as Column[];
+      data = [{ id: 0 }, { id: 1 }];
+    });
+
+    /** scroll the grid viewport horizontally, which will re-render the grid */
+    const scrollViewportToX = (scrollLeft: number) => {
+      const viewportElm = container.querySelector('.slick-viewport-top.slick-viewport-left') as HTMLDivElement;
+      Object.defineProperty(viewportElm, 'scrollLeft', { writable: true, value: scrollLeft });
+      Object.defineProperty(viewportElm, 'scrollWidth', { writable: true, value: 3000 });
+      viewportElm.dispatchEvent(new CustomEvent('scroll'));
+    };
+
+    it('should only render the header, header row and footer cells of the columns inside the rendered range but still create an empty cell for the other columns', () => {
+      const headerRenderedSpy = vi.fn();
+      const headerRowRenderedSpy = vi.fn();
+      const footerRowRenderedSpy = vi.fn();
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableColumnVirtualization: true,
+        explicitInitialization: true,
+        showHeaderRow: true,
+        createFooterRow: true,
+        showFooterRow: true,
+      });
+      grid.onHeaderCellRendered.subscribe(headerRenderedSpy);
+      grid.onHeaderRowCellRendered.subscribe(headerRowRenderedSpy);
+      grid.onFooterRowCellRendered.subscribe(footerRowRenderedSpy);
+      grid.init();
+      const headerColumns = container.querySelectorAll('.slick-header-column');
+      const renderedHeaderIds = headerRenderedSpy.mock.calls.map((call) => call[1].column.id);
+
+      expect(headerColumns.length).toBe(30);
+      expect(headerColumns[0].querySelector('.slick-column-name')!.textContent).toBe('Col 0');
+      expect(headerColumns[29].querySelector('.slick-column-name')).toBeNull();
+      expect(headerColumns[29].querySelector('.slick-resizable-handle')).toBeTruthy();
+      expect(renderedHeaderIds).toContain('col0');
+      expect(renderedHeaderIds).not.toContain('col29');
+      expect(headerRowRenderedSpy.mock.calls.map((call) => call[1].column.id)).toEqual(renderedHeaderIds);
+      expect(new Set(footerRowRenderedSpy.mock.calls.map((call) => call[1].column.id))).toEqual(new Set(renderedHeaderIds));
+    });
+
+    it('should render the header cells that are scrolled into view and destroy the ones that are scrolled out of view', () => {
+      const headerDestroySpy = vi.fn();
+      const headerRowDestroySpy = vi.fn();
+      const headerRowRenderedSpy = vi.fn();
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableColumnVirtualization: true,
+        forceSyncScrolling: true,
+        showHeaderRow: true,
+      });
+      grid.onBeforeHeaderCellDestroy.subscribe(headerDestroySpy);
+      grid.onBeforeHeaderRowCellDestroy.subscribe(headerRowDestroySpy);
+      grid.onHeaderRowCellRendered.subscribe(headerRowRenderedSpy);
+      grid.setSortColumns([{ columnId: 'col29', sortAsc: false }]);
+
+      scrollViewportToX(2200);
+      const headerColumns = container.querySelectorAll('.slick-header-column');
+
+      expect(headerColumns[29].querySelector('.slick-column-name')!.textContent).toBe('Col 29');
+      expect(headerColumns[29].querySelector('.slick-sort-indicator')!.classList.contains('slick-sort-indicator-desc')).toBe(true);
+      expect(headerColumns[0].querySelector('.slick-column-name')).toBeNull();
+      expect(headerColumns[0].querySelector('.slick-resizable-handle')).toBeTruthy();
+      expect(grid.getHeaderRowColumn('col0').childElementCount).toBe(0);
+      expect(headerDestroySpy).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ column: columns[0], node: headerColumns[0] }));
+      expect(headerRowDestroySpy).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ column: columns[0] }));
+      expect(headerRowRenderedSpy).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ column: columns[29] }));
+    });
+
+    it('should only update the title of a header that is not yet rendered once it is scrolled into view', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, enableColumnVirtualization: true, forceSyncScrolling: true });
+      const headerColumns = container.querySelectorAll('.slick-header-column');
+
+      grid.updateColumnHeader('col29', 'Last Column', 'last column tooltip');
+      expect(headerColumns[29].querySelector('.slick-column-name')).toBeNull();
+
+      scrollViewportToX(2200);
+      expect(headerColumns[29].querySelector('.slick-column-name')!.textContent).toBe('Last Column');
+      expect(headerColumns[29].getAttribute('title')).toBe('last column tooltip');
+    });
+
+    it('should always consider the frozen columns and the columns with "alwaysRenderColumn" as being inside the rendered range', () => {
+      columns[20].alwaysRenderColumn = true;
+      columns[25].hidden = true;
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, enableColumnVirtualization: true, frozenRightColumn: 28 });
+      const headerColumns = container.querySelectorAll('.slick-header-column');
+
+      expect(grid.isColumnInRenderedRange(0)).toBe(true);
+      expect(grid.isColumnInRenderedRange(19)).toBe(false);
+      expect(grid.isColumnInRenderedRange(20)).toBe(true);
+      expect(grid.isColumnInRenderedRange(25)).toBe(false);
+      expect(grid.isColumnInRenderedRange(29)).toBe(true);
+      expect(grid.isColumnInRenderedRange(19, { top: 0, bottom: 1, leftPx: 1900, rightPx: 2000 })).toBe(true);
+      expect(grid.isColumnInRenderedRange(99)).toBe(false);
+      expect(headerColumns[28].querySelector('.slick-column-name')!.textContent).toBe('Col 29');
+    });
+
+    it('should render the content of every header when "enableColumnVirtualization" is disabled', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, defaultOptions);
+
+      expect(container.querySelectorAll('.slick-header-column .slick-column-name').length).toBe(30);
+    });
+  });
+
   describe('Row Selections', () => {
     const columns = [{ id: 'firstName', field: 'firstName', name: 'First Name' }] as Column[];
     const data = [
@@ -2902,7 +3326,7 @@ describe('SlickGrid core file', () => {
       expect(grid).toBeTruthy();
       expect(grid.getContainerNode().getAttribute('role')).toBe('grid');
       expect(grid.getContainerNode().getAttribute('aria-colcount')).toBe('1');
-      expect(grid.getContainerNode().getAttribute('aria-rowcount')).toBe('11');
+      expect(grid.getContainerNode().getAttribute('aria-rowcount')).toBe('12');
     });
 
     it('should return undefined editor when getDataItem() did not find any associated cell item', () => {
@@ -5282,6 +5706,243 @@ describe('SlickGrid core file', () => {
     });
   });
 
+  describe('Variable Row Heights', () => {
+    const columns = [
+      { id: 'firstName', field: 'firstName', name: 'First Name' },
+      { id: 'lastName', field: 'lastName', name: 'Last Name' },
+      { id: 'age', field: 'age', name: 'Age' },
+    ] as Column[];
+    const rowHeights = [50, 30, 25, 40, 25];
+    let data: any[];
+
+    beforeEach(() => {
+      data = [
+        { id: 0, firstName: 'John', lastName: 'Doe', age: 30 },
+        { id: 1, firstName: 'Jane', lastName: 'Doe', age: 28 },
+        { id: 2, firstName: 'Bob', lastName: 'Smith', age: 48 },
+        { id: 3, firstName: 'Arnold', lastName: 'Smith', age: 37 },
+        { id: 4, firstName: 'Mary', lastName: 'Smith', age: 42 },
+      ];
+    });
+
+    it('should use the default row height for every row when the "enableVariableRowHeight" grid option is disabled', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, getRowHeight: (item) => rowHeights[item.id] });
+
+      expect(grid.getRowHeight(0)).toBe(DEFAULT_COLUMN_HEIGHT);
+      expect(grid.getRowPosition(3)).toBe(3 * DEFAULT_COLUMN_HEIGHT);
+    });
+
+    it('should calculate the row heights & positions from the "getRowHeight" callback', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => rowHeights[item.id],
+      });
+
+      expect(grid.getRowHeight()).toBe(DEFAULT_COLUMN_HEIGHT);
+      expect(grid.getRowHeight(0)).toBe(50);
+      expect(grid.getRowHeight(3)).toBe(40);
+      expect(grid.getRowPosition(0)).toBe(0);
+      expect(grid.getRowPosition(2)).toBe(80);
+      expect(grid.getRowPosition(5)).toBe(170);
+      expect(grid.getRowPosition(7)).toBe(170 + 2 * DEFAULT_COLUMN_HEIGHT); // rows outside of the data use the default row height
+    });
+
+    it('should render the rows with their own top position & height', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => rowHeights[item.id],
+      });
+      const rowElms = container.querySelectorAll<HTMLDivElement>('.slick-row');
+
+      expect(rowElms[0].style.top).toBe('0px');
+      expect(rowElms[0].style.height).toBe('50px');
+      expect(rowElms[1].style.top).toBe('50px');
+      expect(rowElms[1].style.height).toBe('30px');
+      expect(rowElms[2].style.top).toBe('80px');
+      expect(rowElms[2].style.height).toBe('');
+      expect(rowElms[3].style.top).toBe('105px');
+      expect(grid.getCellNode(0, 0)?.style.height).toBe('50px');
+    });
+
+    it('should use the item metadata height before the "getRowHeight" callback', () => {
+      const dv = new SlickDataView();
+      dv.setItems(data);
+      vi.spyOn(dv, 'getItemMetadata').mockImplementation((row) => (row === 1 ? { height: 60 } : null));
+      grid = new SlickGrid<any, Column>(container, dv, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => rowHeights[item.id],
+      });
+
+      expect(grid.getRowHeight(1)).toBe(60);
+      expect(grid.getRowPosition(2)).toBe(110);
+    });
+
+    it('should find the row from a Y coordinate with the row positions', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => rowHeights[item.id],
+      });
+
+      expect(grid.getCellFromPoint(5, 0)).toEqual({ cell: 0, row: 0 });
+      expect(grid.getCellFromPoint(5, 49)).toEqual({ cell: 0, row: 0 });
+      expect(grid.getCellFromPoint(5, 50)).toEqual({ cell: 0, row: 1 });
+      expect(grid.getCellFromPoint(5, 104)).toEqual({ cell: 0, row: 2 });
+      expect(grid.getCellFromPoint(5, 140)).toEqual({ cell: 0, row: 3 });
+      expect(grid.getCellFromPoint(5, 169)).toEqual({ cell: 0, row: 4 });
+    });
+
+    it('should return the cell node box with the variable row position & height', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => rowHeights[item.id],
+      });
+
+      expect(grid.getCellNodeBox(3, 1)).toEqual({ top: 105, left: DEFAULT_COLUMN_WIDTH, bottom: 144, right: DEFAULT_COLUMN_WIDTH * 2 });
+    });
+
+    it('should scroll to the row position when calling scrollRowToTop()', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => rowHeights[item.id],
+      });
+      const scrollToSpy = vi.spyOn(grid, 'scrollTo');
+
+      grid.scrollRowToTop(3);
+
+      expect(scrollToSpy).toHaveBeenCalledWith(105);
+    });
+
+    it('should recalculate the row heights when calling invalidateRowHeights()', () => {
+      const heights = [...rowHeights];
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => heights[item.id],
+      });
+      expect(grid.getRowPosition(2)).toBe(80);
+
+      heights[0] = 100;
+      expect(grid.getRowPosition(2)).toBe(80);
+
+      grid.invalidateRowHeights();
+      const rowElms = container.querySelectorAll<HTMLDivElement>('.slick-row');
+
+      expect(grid.getRowPosition(2)).toBe(130);
+      expect(rowElms[2].style.top).toBe('130px');
+    });
+
+    it('should recalculate the row positions when the row count changed', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => rowHeights[item.id] ?? 100,
+      });
+      data.unshift({ id: 5, firstName: 'Jim', lastName: 'Doe', age: 20 });
+      grid.setData(data);
+
+      expect(grid.getRowHeight(0)).toBe(100);
+      expect(grid.getRowPosition(2)).toBe(150);
+    });
+
+    it('should only recalculate the row positions from the lowest invalidated row', () => {
+      const heights = [...rowHeights];
+      const getRowHeightMock = vi.fn((item) => heights[item.id]);
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, enableVariableRowHeight: true, getRowHeight: getRowHeightMock });
+      expect(grid.getRowPosition(5)).toBe(170);
+      getRowHeightMock.mockClear();
+
+      heights[3] = 60;
+      grid.invalidateRows([4, 3]);
+
+      expect(grid.getRowPosition(5)).toBe(190);
+      expect(grid.getRowPosition(3)).toBe(105);
+      expect(getRowHeightMock).toHaveBeenCalledTimes(2);
+
+      // a row count update without any new rows should not recalculate anything
+      getRowHeightMock.mockClear();
+      grid.updateRowCount();
+      expect(grid.getRowPosition(5)).toBe(190);
+      expect(getRowHeightMock).not.toHaveBeenCalled();
+    });
+
+    it('should keep the first visible row at the same place in the viewport when the rows above it grow', () => {
+      const heights: number[] = [];
+      const manyRows = Array.from({ length: 100 }, (_, i) => {
+        heights.push(DEFAULT_COLUMN_HEIGHT);
+        return { id: i, firstName: `John ${i}`, lastName: 'Doe', age: i };
+      });
+      grid = new SlickGrid<any, Column>(container, manyRows, columns, {
+        ...defaultOptions,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => heights[item.id],
+      });
+      grid.scrollTo(20 * DEFAULT_COLUMN_HEIGHT + 10);
+      expect(grid.getViewport().top).toBe(20);
+      const scrollToSpy = vi.spyOn(grid, 'scrollTo');
+
+      heights[2] = 75;
+      grid.invalidateRows([2]);
+      grid.updateRowCount();
+
+      expect(scrollToSpy).toHaveBeenCalledWith(20 * DEFAULT_COLUMN_HEIGHT + 10 + 50);
+      expect(grid.getViewport().top).toBe(20);
+
+      // a row growing below the first visible row should not change the scroll position
+      scrollToSpy.mockClear();
+      heights[30] = 75;
+      grid.invalidateRows([30]);
+      grid.updateRowCount();
+      expect(scrollToSpy).toHaveBeenCalledWith(20 * DEFAULT_COLUMN_HEIGHT + 10 + 50);
+      expect(scrollToSpy).not.toHaveBeenCalledWith(20 * DEFAULT_COLUMN_HEIGHT + 10 + 100);
+    });
+
+    it('should position the rows after the frozen rows with the variable heights of the frozen rows', () => {
+      grid = new SlickGrid<any, Column>(container, data, columns, {
+        ...defaultOptions,
+        frozenRow: 2,
+        enableVariableRowHeight: true,
+        getRowHeight: (item) => rowHeights[item.id],
+      });
+      const topRowElms = container.querySelectorAll<HTMLDivElement>('.grid-canvas-top.grid-canvas-left .slick-row');
+      const bottomRowElms = container.querySelectorAll<HTMLDivElement>('.grid-canvas-bottom.grid-canvas-left .slick-row');
+
+      expect(topRowElms.length).toBe(2);
+      expect(topRowElms[1].style.top).toBe('50px');
+      expect(bottomRowElms[0].style.top).toBe('0px');
+      expect(bottomRowElms[1].style.top).toBe('25px');
+      expect(grid.getCellNodeBox(3, 0)?.top).toBe(25);
+    });
+
+    it('should grow the row height to fit its content when the "autoMeasureRowHeight" grid option is enabled', () => {
+      data[1].lastName = 'some long text which wraps on multiple lines';
+      const scrollHeightSpy = vi.spyOn(Element.prototype, 'scrollHeight', 'get').mockImplementation(function (this: HTMLElement) {
+        return this.textContent?.includes('long text') ? 60 : 0;
+      });
+      const clientHeightSpy = vi.spyOn(Element.prototype, 'clientHeight', 'get').mockImplementation(function (this: HTMLElement) {
+        return parseInt(this.style?.height || `${DEFAULT_COLUMN_HEIGHT}`, 10);
+      });
+
+      grid = new SlickGrid<any, Column>(container, data, columns, { ...defaultOptions, enableVariableRowHeight: true, autoMeasureRowHeight: true });
+      const row1Elm = container.querySelector<HTMLDivElement>('.slick-row[data-row="1"]');
+      const row2Elm = container.querySelector<HTMLDivElement>('.slick-row[data-row="2"]');
+
+      expect(grid.getRowHeight(0)).toBe(DEFAULT_COLUMN_HEIGHT);
+      expect(grid.getRowHeight(1)).toBe(60);
+      expect(grid.getRowPosition(2)).toBe(85);
+      expect(row1Elm?.style.height).toBe('60px');
+      expect(row2Elm?.style.top).toBe('85px');
+
+      scrollHeightSpy.mockRestore();
+      clientHeightSpy.mockRestore();
+    });
+  });
+
   describe('Navigation', () => {
     const columns = [
       { id: 'firstName', field: 'firstName', name: 'First Name', sortable: true },
@@ -10,6 +10,7 @@ import type {
   ItemMetadataProvider,
   OnGroupCollapsedEventArgs,
   OnGroupExpandedEventArgs,
+  OnGroupingChangedEventArgs,
   OnRowCountChangedEventArgs,
   OnRowsChangedEventArgs,
   OnRowsOrCountChangedEventArgs,
@@ -106,6 +107,7 @@ export class SlickDataView<TData extends SlickDataItem = any> implements CustomD
     Grouping & { aggregators: Aggregator[]; getterIsAFn?: boolean; compiledAccumulators: any[]; getter: GroupGetterFn | string }
   > = [];
   protected groups: SlickGroup[] = [];
+  protected remoteGroups: SlickGroup[] | null = null;
   protected toggledGroupsByLevel: any[] = [];
   protected groupingDelimiter = ':|:';
   protected selectedRowIds: DataIdType[] = [];
@@ -120,6 +122,7 @@ export class SlickDataView<TData extends SlickDataItem = any> implements CustomD
   onBeforePagingInfoChanged: SlickEvent<PagingInfo>;
   onGroupExpanded: SlickEvent<OnGroupExpandedEventArgs>;
   onGroupCollapsed: SlickEvent<OnGroupCollapsedEventArgs>;
+  onGroupingChanged: SlickEvent<OnGroupingChangedEventArgs>;
   onPagingInfoChanged: SlickEvent<PagingInfo>;
   onRowCountChanged: SlickEvent<OnRowCountChangedEventArgs>;
   onRowsChanged: SlickEvent<OnRowsChangedEventArgs>;
@@ -134,6 +137,7 @@ export class SlickDataView<TData extends SlickDataItem = any> implements CustomD
     this.onBeforePagingInfoChanged = new SlickEvent<PagingInfo>('onBeforePagingInfoChanged', externalPubSub);
     this.onGroupExpanded = new SlickEvent<OnGroupExpandedEventArgs>('onGroupExpanded', externalPubSub);
     this.onGroupCollapsed = new SlickEvent<OnGroupCollapsedEventArgs>('onGroupCollapsed', externalPubSub);
+    this.onGroupingChanged = new SlickEvent<OnGroupingChangedEventArgs>('onGroupingChanged', externalPubSub);
     this.onPagingInfoChanged = new SlickEvent<PagingInfo>('onPagingInfoChanged', externalPubSub);
     this.onRowCountChanged = new SlickEvent<OnRowCountChangedEventArgs>('onRowCountChanged', externalPubSub);
     this.onRowsChanged = new SlickEvent<OnRowsChangedEventArgs>('onRowsChanged', externalPubSub);
@@ -178,6 +182,7 @@ export class SlickDataView<TData extends SlickDataItem = any> implements CustomD
     this.sortComparer = null as any;
     this.filterCache = [];
     this.filteredItems = [];
+    this.remoteGroups = null;
     this.compiledFilter = null;
     this.compiledFilterCSPSafe = null;
     this.compiledFilterWithCaching = null;
@@ -421,6 +426,23 @@ export class SlickDataView<TData extends SlickDataItem = any> implements CustomD
       this.toggledGroupsByLevel[i] = {};
     }
 
+    // previous server-side groups are obsolete, the new groups will be provided by the server
+    if (this.remoteGroups) {
+      this.remoteGroups = [];
+    }
+
+    this.refresh();
+    this.onGroupingChanged.notify({ groupingInfos: this.groupingInfos });
+  }
+
+  /**
+   * Set the groups of a server-side grouping (e.g. groups returned by a backend server), these groups are displayed as-is instead of grouping the DataView items,
+   * while the grouping infos are still used for the group titles (formatter), the totals rows and the expand/collapse states.
+   * Each group must provide its `value`, `count`, `groupingKey`, its initialized `totals` (when using aggregators) and its sub-`groups` or else its (loaded) `rows`.
+   * @param {SlickGroup[] | null} groups - server-side groups, or `null` to go back to grouping the DataView items
+   */
+  setRemoteGroups(groups: SlickGroup[] | null): void {
+    this.remoteGroups = groups;
     this.refresh();
   }
 
@@ -1004,6 +1026,22 @@ export class SlickDataView<TData extends SlickDataItem = any> implements CustomD
     }
   }
 
+  /** update the collapsed state and title of the server-side groups, their totals are already calculated by the server and their order is kept as-is */
+  protected initRemoteGroups(groups: SlickGroup[], level = 0): SlickGroup[] {
+    const gi = this.groupingInfos[level];
+    if (gi) {
+      const toggledGroups = this.toggledGroupsByLevel[level];
+      for (const g of groups) {
+        if (g.groups) {
+          this.initRemoteGroups(g.groups, level + 1);
+        }
+        g.collapsed = (gi.collapsed as any) ^ toggledGroups[g.groupingKey];
+        g.title = gi.formatter ? gi.formatter(g) : g.value;
+      }
+    }
+    return groups;
+  }
+
   protected flattenGroupedRows(groups: SlickGroup[], level?: number): any[] {
     level = level || 0;
     const gi = this.groupingInfos[level];
@@ -1318,7 +1356,10 @@ export class SlickDataView<TData extends SlickDataItem = any> implements CustomD
     let newRows: TData[] = filteredItems.rows;
 
     this.groups = [];
-    if (this.groupingInfos.length) {
+    if (this.groupingInfos.length && this.remoteGroups) {
+      this.groups = this.initRemoteGroups(this.remoteGroups);
+      newRows = this.flattenGroupedRows(this.groups);
+    } else if (this.groupingInfos.length) {
       this.groups = this.extractGroups(newRows);
       if (this.groups.length) {
         newRows = this.flattenGroupedRows(this.groups);
@@ -17,6 +17,7 @@ import {
 import type { SortableEvent, Options as SortableOptions } from 'sortablejs';
 import Sortable from 'sortablejs/modular/sortable.core.esm.js';
 import type { TrustedHTML } from 'trusted-types/lib';
+import { Constants } from '../constants.js';
 import type { SelectionModel } from '../enums/index.js';
 import { copyCellToClipboard } from '../formatters/formatterUtilities.js';
 import type {
@@ -134,6 +135,13 @@ interface RowCaching {
   cellRenderQueue: any[];
 }
 
+interface VirtualHeaderCells {
+  header: HTMLDivElement;
+  headerRow?: HTMLDivElement;
+  footerRow?: HTMLDivElement;
+  rendered: boolean;
+}
+
 export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O extends BaseGridOption<C> = BaseGridOption<C>> {
   // -- Public API
 
@@ -278,6 +286,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     dataItemColumnValueExtractor: null,
     frozenBottom: false,
     frozenColumn: -1,
+    frozenRightColumn: -1,
     frozenRow: -1,
     frozenRightViewportMinWidth: 100,
     fullWidthRows: false,
@@ -298,6 +307,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     enableMouseWheelScrollHandler: true,
     doPaging: true,
     rowTopOffsetRenderType: 'top',
+    rtl: false,
     scrollRenderThrottling: 10,
     suppressCssChangesOnHiddenInit: false,
     ffMaxSupportedCssHeight: 6000000,
@@ -335,6 +345,14 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
   protected n!: number; // number of pages
   protected cj!: number; // "jumpiness" coefficient
 
+  // variable row heights
+  protected _measuredRowHeights: WeakMap<object, number> = new WeakMap();
+  protected _rowPositions: number[] = [0]; // cumulative top position of every row, the last entry is the height of all the rows
+  protected _rowPositionsChanged = false;
+  protected _rowPositionsInvalidFrom = 0; // lowest row with a height that might have changed, the positions of the rows before it are still valid
+  protected _rowPositionsScrollDelta = 0; // position change of the first visible row caused by the height changes of the rows above it
+  protected _rowsToMeasure: number[] = [];
+
   protected page = 0; // current page
   protected offset = 0; // current page offset
   protected vScrollDir = 1;
@@ -374,6 +392,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
   protected stylesheet?: { cssRules: Array<{ selectorText: string }>; rules: Array<{ selectorText: string }> } | null;
   protected columnCssRulesL?: Array<{ selectorText: string }>;
   protected columnCssRulesR?: Array<{ selectorText: string }>;
+  protected frozenRightCssRule?: CSSStyleRule;
   protected viewportH = 0;
   protected viewportW = 0;
   protected canvasWidth = 0;
@@ -443,6 +462,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
   protected sortColumns: ColumnSort[] = [];
   protected columnPosLeft: number[] = [];
   protected columnPosRight: number[] = [];
+  protected virtualHeaderCells: Map<number, VirtualHeaderCells> = new Map();
 
   protected pagingActive = false;
   protected pagingIsLastPage = false;
@@ -662,9 +682,16 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     this._container.style.outline = String(0);
     this._container.classList.add(this.uid);
     this._container.classList.add('slick-widget');
-    this._container.setAttribute('role', 'grid');
+    this._container.setAttribute('role', this._options.enableTreeData ? 'treegrid' : 'grid');
+    if (this._options.rtl) {
+      this._container.classList.add('slick-rtl');
+      this._container.dir = 'rtl';
+    }
     this._container.setAttribute('aria-colcount', this.columns.length.toString());
-    this._container.setAttribute('aria-rowcount', Array.isArray(this.data) ? this.data.length.toString() : '0');
+    this._container.setAttribute('aria-rowcount', String((Array.isArray(this.data) ? this.data.length : 0) + this.getAriaHeaderRowCount()));
+    if (this._options.ariaLabel) {
+      this._container.setAttribute('aria-label', this._options.ariaLabel);
+    }
 
     const containerStyles = getComputedStyle(this._container);
     if (!/relative|absolute|fixed/.test(containerStyles.position)) {
@@ -746,7 +773,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     // header scroll position could change when using frozen grid and tabbing on next available header
     // so we need to make sure that all containers (header, headerrow, toppanel) are all in sync when that happens
     this._bindingEventService.bind(this._headerScrollerR, 'scroll', (e) => {
-      this.scrollToX((e.target as HTMLElement).scrollLeft);
+      this.scrollToX(this.getElementScrollLeft(e.target as HTMLElement));
     });
 
     // Cache the header scroller containers
@@ -756,17 +783,21 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     // Append the columnn containers to the headers
     this._headerL = createDomElement(
       'div',
-      { className: 'slick-header-columns slick-header-columns-left', style: { left: '-1000px' } },
+      { className: 'slick-header-columns slick-header-columns-left', style: { [this.getStartSide()]: '-1000px' } },
       this._headerScrollerL
     );
     this._headerR = createDomElement(
       'div',
-      { className: 'slick-header-columns slick-header-columns-right', style: { left: '-1000px' } },
+      { className: 'slick-header-columns slick-header-columns-right', style: { [this.getStartSide()]: '-1000px' } },
       this._headerScrollerR
     );
 
     // Cache the header columns
     this._headers = [this._headerL, this._headerR];
+    this._headers.forEach((header) => {
+      header.setAttribute('role', 'row');
+      header.setAttribute('aria-rowindex', '1');
+    });
 
     this._headerRowScrollerL = createDomElement('div', { className: 'slick-headerrow slick-state-default' }, this._paneTopL);
     this._headerRowScrollerR = createDomElement('div', { className: 'slick-headerrow slick-state-default' }, this._paneTopR);
@@ -796,6 +827,10 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     );
 
     this._headerRows = [this._headerRowL, this._headerRowR];
+    this._headerRows.forEach((headerRow) => {
+      headerRow.setAttribute('role', 'row');
+      headerRow.setAttribute('aria-rowindex', '2');
+    });
 
     // Append the top panel scroller
     this._topPanelScrollerL = createDomElement('div', { className: 'slick-top-panel-scroller slick-state-default' }, this._paneTopL);
@@ -1086,6 +1121,35 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     return this._options.frozenColumn! > -1;
   }
 
+  protected hasFrozenRightColumns(): boolean {
+    return this._options.frozenRightColumn! > -1;
+  }
+
+  /** Is the column frozen (pinned) on the right side of the grid? */
+  protected isFrozenRightColumn(idx: number): boolean {
+    return this.hasFrozenRightColumns() && idx >= this._options.frozenRightColumn!;
+  }
+
+  /** Get the total width of the columns frozen on the right side */
+  protected getFrozenRightColumnsWidth(): number {
+    let width = 0;
+    this.columns.forEach((col, i) => {
+      if (col && !col.hidden && this.isFrozenRightColumn(i)) {
+        width += col.width || 0;
+      }
+    });
+    return width;
+  }
+
+  /** Get the CSS classes of a column frozen on the right side, the first visible one also gets a "frozen-right-first" CSS class to show its border */
+  protected getFrozenRightCssClasses(idx: number): string[] {
+    if (!this.isFrozenRightColumn(idx)) {
+      return [];
+    }
+    const isFirstVisible = this.columns.slice(this._options.frozenRightColumn, idx).every((col) => col.hidden);
+    return isFirstVisible ? ['frozen-right', 'frozen-right-first'] : ['frozen-right'];
+  }
+
   /** Register an external Plugin */
   registerPlugin<T extends SlickPlugin>(plugin: T): void {
     this.plugins.unshift(plugin);
@@ -1131,6 +1195,9 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     if (this.selectionModel) {
       this.selectionModel.init(this as unknown as SlickGrid);
       this.selectionModel.onSelectedRangesChanged.subscribe(this.handleSelectedRangesChanged.bind(this));
+      this._container.setAttribute('aria-multiselectable', String(this._options.multiSelect !== false));
+    } else {
+      this._container.removeAttribute('aria-multiselectable');
     }
   }
 
@@ -1312,12 +1379,13 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
    *  - if `undefined` it will do the condition check and never alert more than once
    *  - if `true` it will do the condition check and always alert even if it was called before
    *  - if `false` it will do the condition check but always skip the alert
+   * @param {Number} [frozenRightColumn] the first column index to freeze on the right side, the columns frozen on both sides are validated together
    */
-  validateColumnFreezeWidth(frozenColumn = -1): boolean {
-    if (frozenColumn >= 0) {
+  validateColumnFreezeWidth(frozenColumn = -1, frozenRightColumn = -1): boolean {
+    if (frozenColumn >= 0 || frozenRightColumn >= 0) {
       let canvasWidthL = 0;
       this.columns.forEach((col, i) => {
-        if (!col.hidden && i <= frozenColumn) {
+        if (!col.hidden && (i <= frozenColumn || (frozenRightColumn >= 0 && i >= frozenRightColumn))) {
           const { minWidth = 0, maxWidth = 0, width = this._options.defaultColumnWidth! } = col;
           let fwidth = width < minWidth ? minWidth : width;
           if (maxWidth > 0 && fwidth > maxWidth) {
@@ -1408,11 +1476,11 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         Utils.width(this._canvasTopR, this.canvasWidthR);
 
         Utils.width(this._paneHeaderL, this.canvasWidthL);
-        Utils.setStyleSize(this._paneHeaderR, 'left', this.canvasWidthL);
+        Utils.setStyleSize(this._paneHeaderR, this.getStartSide(), this.canvasWidthL);
         Utils.setStyleSize(this._paneHeaderR, 'width', this.viewportW - this.canvasWidthL);
 
         Utils.width(this._paneTopL, this.canvasWidthL);
-        Utils.setStyleSize(this._paneTopR, 'left', this.canvasWidthL);
+        Utils.setStyleSize(this._paneTopR, this.getStartSide(), this.canvasWidthL);
         Utils.width(this._paneTopR, this.viewportW - this.canvasWidthL);
 
         Utils.width(this._headerRowScrollerL, this.canvasWidthL);
@@ -1436,7 +1504,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
         if (this.hasFrozenRows) {
           Utils.width(this._paneBottomL, this.canvasWidthL);
-          Utils.setStyleSize(this._paneBottomR, 'left', this.canvasWidthL);
+          Utils.setStyleSize(this._paneBottomR, this.getStartSide(), this.canvasWidthL);
 
           Utils.width(this._viewportBottomL, this.canvasWidthL);
           Utils.width(this._viewportBottomR, this.viewportW - this.canvasWidthL);
@@ -1582,6 +1650,11 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
           this.columns[idx].toolTip = toolTip;
         }
 
+        // a header that is not rendered yet (column virtualization) will show its new title & tooltip once it is scrolled into view
+        if (this.virtualHeaderCells.get(idx)?.rendered === false) {
+          return header;
+        }
+
         this.triggerEvent(this.onBeforeHeaderCellDestroy, {
           node: header,
           column: columnDef,
@@ -1736,14 +1809,21 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         if (className) {
           footerRowCell.classList.add(className);
         }
+        footerRowCell.classList.add(...this.getFrozenRightCssClasses(i));
 
         Utils.storage.put(footerRowCell, 'column', m);
 
-        this.triggerEvent(this.onFooterRowCellRendered, {
-          node: footerRowCell,
-          column: m,
-          grid: this,
-        });
+        const virtualCells = this.virtualHeaderCells.get(i);
+        if (virtualCells) {
+          virtualCells.footerRow = footerRowCell;
+        }
+        if (!virtualCells || virtualCells.rendered) {
+          this.triggerEvent(this.onFooterRowCellRendered, {
+            node: footerRowCell,
+            column: m,
+            grid: this,
+          });
+        }
       }
     }
   }
@@ -1758,6 +1838,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
   protected createColumnHeaders(): void {
     this._bindingEventService.unbindAll('colheaders');
+    this.virtualHeaderCells.clear();
     this._headers.forEach((header) => {
       const columnElements = header.querySelectorAll('.slick-header-column');
       columnElements.forEach((column) => {
@@ -1851,14 +1932,10 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         },
         headerTarget
       );
-      if (m.toolTip) {
-        header.title = m.toolTip;
-      }
+      header.setAttribute('aria-colindex', String(i + 1));
       if (!m.reorderable) {
         header.classList.add(this._options.unorderableColumnCssClass!);
       }
-      const colNameElm = createDomElement('span', { className: 'slick-column-name' }, header);
-      applyHtmlToElement(colNameElm, m.name, this._options);
 
       Utils.width(header, m.width! - this.headerColumnWidthDiff);
 
@@ -1870,6 +1947,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       if (classname) {
         header.classList.add(classname);
       }
+      header.classList.add(...this.getFrozenRightCssClasses(i));
 
       this._bindingEventService.bind(header, 'mouseenter', this.handleHeaderMouseEnter.bind(this) as EventListener, {}, 'colheaders');
       this._bindingEventService.bind(header, 'mouseleave', this.handleHeaderMouseLeave.bind(this) as EventListener, {}, 'colheaders');
@@ -1893,34 +1971,26 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
       if (m.sortable) {
         header.classList.add('slick-header-sortable');
-        createDomElement(
-          'div',
-          {
-            className: `slick-sort-indicator ${this._options.numberedMultiColumnSort && !this._options.sortColNumberInSeparateSpan ? ' slick-sort-indicator-numbered' : ''}`,
-          },
-          header
-        );
-        if (this._options.numberedMultiColumnSort && this._options.sortColNumberInSeparateSpan) {
-          createDomElement('div', { className: 'slick-sort-indicator-numbered' }, header);
-        }
+        header.setAttribute('aria-sort', 'none');
       }
 
-      this.triggerEvent(this.onHeaderCellRendered, {
-        node: header,
-        column: m,
-        grid: this,
-      });
+      // with column virtualization, the columns outside of the rendered range only keep an empty cell (placeholder) until they are scrolled into view
+      const isRendered = !this._options.enableColumnVirtualization || this.isColumnInRenderedRange(i);
+      if (isRendered) {
+        this.renderColumnHeaderContent(header, m);
+      }
+      let headerRowCell: HTMLDivElement | undefined;
+      let footerRowCell: HTMLDivElement | undefined;
 
       if (this._options.showHeaderRow) {
-        const headerRowCell = createDomElement(
-          'div',
-          { className: `slick-state-default slick-headerrow-column l${i} r${i}` },
-          headerRowTarget
-        );
+        headerRowCell = createDomElement('div', { className: `slick-state-default slick-headerrow-column l${i} r${i}` }, headerRowTarget);
+        headerRowCell.setAttribute('role', 'gridcell');
+        headerRowCell.setAttribute('aria-colindex', String(i + 1));
         const frozenClasses = this.hasFrozenColumns() && i <= this._options.frozenColumn! ? 'frozen' : null;
         if (frozenClasses) {
           headerRowCell.classList.add(frozenClasses);
         }
+        headerRowCell.classList.add(...this.getFrozenRightCssClasses(i));
 
         // prettier-ignore
         this._bindingEventService.bind(headerRowCell, 'mouseenter', this.handleHeaderRowMouseEnter.bind(this) as EventListener, {}, 'colheaders');
@@ -1938,11 +2008,13 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
         Utils.storage.put(headerRowCell, 'column', m);
 
-        this.triggerEvent(this.onHeaderRowCellRendered, {
-          node: headerRowCell,
-          column: m,
-          grid: this,
-        });
+        if (isRendered) {
+          this.triggerEvent(this.onHeaderRowCellRendered, {
+            node: headerRowCell,
+            column: m,
+            grid: this,
+          });
+        }
       }
       if (this._options.createFooterRow && this._options.showFooterRow) {
         const footerRowTarget = this.hasFrozenColumns()
@@ -1950,18 +2022,21 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
             ? this._footerRow[0]
             : this._footerRow[1]
           : this._footerRow[0];
-        const footerRowCell = createDomElement(
-          'div',
-          { className: `slick-state-default slick-footerrow-column l${i} r${i}` },
-          footerRowTarget
-        );
+        footerRowCell = createDomElement('div', { className: `slick-state-default slick-footerrow-column l${i} r${i}` }, footerRowTarget);
+        footerRowCell.classList.add(...this.getFrozenRightCssClasses(i));
         Utils.storage.put(footerRowCell, 'column', m);
 
-        this.triggerEvent(this.onFooterRowCellRendered, {
-          node: footerRowCell,
-          column: m,
-          grid: this,
-        });
+        if (isRendered) {
+          this.triggerEvent(this.onFooterRowCellRendered, {
+            node: footerRowCell,
+            column: m,
+            grid: this,
+          });
+        }
+      }
+
+      if (this._options.enableColumnVirtualization) {
+        this.virtualHeaderCells.set(i, { header, headerRow: headerRowCell, footerRow: footerRowCell, rendered: isRendered });
       }
     }
 
@@ -1986,6 +2061,84 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     }
   }
 
+  /** Render the content of a column header (its name, tooltip & sort indicators), it is inserted before any resize handle already present */
+  protected renderColumnHeaderContent(header: HTMLDivElement, m: C): void {
+    if (m.toolTip) {
+      header.title = m.toolTip;
+    }
+    const colNameElm = createDomElement('span', { className: 'slick-column-name' });
+    applyHtmlToElement(colNameElm, m.name, this._options);
+    const contentElms: HTMLElement[] = [colNameElm];
+
+    if (m.sortable) {
+      contentElms.push(
+        createDomElement('div', {
+          className: `slick-sort-indicator ${this._options.numberedMultiColumnSort && !this._options.sortColNumberInSeparateSpan ? ' slick-sort-indicator-numbered' : ''}`,
+        })
+      );
+      if (this._options.numberedMultiColumnSort && this._options.sortColNumberInSeparateSpan) {
+        contentElms.push(createDomElement('div', { className: 'slick-sort-indicator-numbered' }));
+      }
+    }
+    header.prepend(...contentElms);
+
+    this.triggerEvent(this.onHeaderCellRendered, {
+      node: header,
+      column: m,
+      grid: this,
+    });
+  }
+
+  /**
+   * When column virtualization is enabled, render the header, header row & footer cells of the columns that were scrolled into the rendered range
+   * and destroy the content of the ones that were scrolled out of it (their empty cell is kept to preserve the column width & position)
+   */
+  protected updateVirtualHeaderCells(range: CellViewportRange): void {
+    let hasNewHeaders = false;
+
+    this.virtualHeaderCells.forEach((cells, i) => {
+      const m = this.columns[i];
+      const isInRange = this.isColumnInRenderedRange(i, range);
+      if (!m || isInRange === cells.rendered) {
+        return;
+      }
+      cells.rendered = isInRange;
+
+      if (isInRange) {
+        hasNewHeaders = true;
+        this.renderColumnHeaderContent(cells.header, m);
+        if (cells.headerRow) {
+          this.triggerEvent(this.onHeaderRowCellRendered, { node: cells.headerRow, column: m, grid: this });
+        }
+        if (cells.footerRow) {
+          this.triggerEvent(this.onFooterRowCellRendered, { node: cells.footerRow, column: m, grid: this });
+        }
+      } else {
+        this.triggerEvent(this.onBeforeHeaderCellDestroy, { node: cells.header, column: m, grid: this });
+        Array.from(cells.header.children).forEach((child) => {
+          if (!child.classList.contains('slick-resizable-handle')) {
+            child.remove();
+          }
+        });
+        cells.header.removeAttribute('title');
+
+        if (cells.headerRow) {
+          this.triggerEvent(this.onBeforeHeaderRowCellDestroy, { node: cells.headerRow, column: m, grid: this });
+          emptyElement(cells.headerRow);
+        }
+        if (cells.footerRow) {
+          this.triggerEvent(this.onBeforeFooterRowCellDestroy, { node: cells.footerRow, column: m, grid: this });
+          emptyElement(cells.footerRow);
+        }
+      }
+    });
+
+    // the sort indicators of the newly rendered headers must reflect the current sorting
+    if (hasNewHeaders) {
+      this.setSortColumns(this.sortColumns);
+    }
+  }
+
   protected setupColumnSort(): void {
     this._bindingEventService.unbindAll('colsorts');
     this._headers.forEach((header) => {
@@ -2281,7 +2434,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
             if (!this.getEditorLock()?.commitCurrentEdit()) {
               return false;
             }
-            pageX = (targetEvent as MouseEvent).pageX;
+            pageX = this.getMirroredPageX((targetEvent as MouseEvent).pageX);
             frozenLeftColMaxWidth = 0;
             resizeElms.resizeableElement.classList.add('slick-header-column-active');
             let shrinkLeewayOnRight: number | null = null;
@@ -2334,7 +2487,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
             const targetEvent = (e as TouchEvent).touches ? (e as TouchEvent).changedTouches[0] : e;
             this.columnResizeDragging = true;
             let actualMinWidth;
-            const targetPageX = (targetEvent as MouseEvent).pageX;
+            const targetPageX = this.getMirroredPageX((targetEvent as MouseEvent).pageX);
             const d = Math.min(maxPageX, Math.max(minPageX, targetPageX)) - pageX;
             let x;
             let newCanvasWidthL = 0;
@@ -2506,7 +2659,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
             if (this.hasFrozenColumns() && newCanvasWidthL !== this.canvasWidthL) {
               Utils.width(this._headerL, newCanvasWidthL + 1000);
-              Utils.setStyleSize(this._paneHeaderR, 'left', newCanvasWidthL);
+              Utils.setStyleSize(this._paneHeaderR, this.getStartSide(), newCanvasWidthL);
             }
 
             this.applyColumnHeaderWidths();
@@ -2567,9 +2720,15 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         ? parseInt(this._options.frozenColumn as unknown as string, 10)
         : -1;
 
+    // the columns frozen on the right side must always be after the columns frozen on the left side
+    this._options.frozenRightColumn =
+      this._options.frozenRightColumn! > this._options.frozenColumn! && this._options.frozenRightColumn! < this.columns.length
+        ? parseInt(this._options.frozenRightColumn as unknown as string, 10)
+        : -1;
+
     if (this._options.frozenRow! > -1) {
       this.hasFrozenRows = true;
-      this.frozenRowsHeight = this._options.frozenRow! * this._options.rowHeight!;
+      this.frozenRowsHeight = this.getFrozenRowsHeight();
       const dataLength = this.getDataLength();
       this.actualFrozenRow = this._options.frozenBottom ? dataLength - this._options.frozenRow! : this._options.frozenRow!;
     } else {
@@ -2764,8 +2923,8 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
     const rowHeight = this._options.rowHeight! - this.cellHeightDiff;
     const rules = [
-      `.${this.uid} .slick-group-header-column { left: 1000px; }`,
-      `.${this.uid} .slick-header-column { left: 1000px; }`,
+      `.${this.uid} .slick-group-header-column { ${this.getStartSide()}: 1000px; }`,
+      `.${this.uid} .slick-header-column { ${this.getStartSide()}: 1000px; }`,
       `.${this.uid} .slick-top-panel { height: ${this._options.topPanelHeight}px; }`,
       `.${this.uid} .slick-preheader-panel { height: ${this._options.preHeaderPanelHeight}px; }`,
       `.${this.uid} .slick-topheader-panel { height: ${this._options.topHeaderPanelHeight}px; }`,
@@ -2781,6 +2940,11 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     if (sheet) {
       rules.forEach((rule) => sheet.insertRule(rule));
 
+      // the columns frozen on the right side are translated on every horizontal scroll to always stay visible at the end of the viewport
+      this.frozenRightCssRule = sheet.cssRules[
+        sheet.insertRule(`.${this.uid} .frozen-right { transform: translateX(0px); }`)
+      ] as CSSStyleRule;
+
       for (let i = 0; i < this.columns.length; i++) {
         if (this.columns[i]) {
           sheet.insertRule(`.${this.uid} .l${i} { }`);
@@ -2864,6 +3028,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
   protected removeCssRules(): void {
     this._style?.remove();
     this.stylesheet = null;
+    this.frozenRightCssRule = undefined;
   }
 
   /** Clear all highlight timers that might have been left opened */
@@ -3149,12 +3314,13 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       if (this.columns[i]) {
         w = this.columns[i].hidden ? 0 : this.columns[i].width || 0;
 
+        // in RTL mode, the columns are mirrored and so the start side is on the right and the end side on the left
         rule = this.getColumnCssRules(i);
         if (rule.left) {
-          rule.left.style.left = `${x}px`;
+          rule.left.style[this.getStartSide()] = `${x}px`;
         }
         if (rule.right) {
-          rule.right.style.right =
+          rule.right.style[this.getEndSide()] =
             (this._options.frozenColumn !== -1 && i > this._options.frozenColumn! ? this.canvasWidthR : this.canvasWidthL) - x - w + 'px';
         }
 
@@ -3168,6 +3334,29 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         x = 0;
       }
     }
+    this.updateFrozenRightColumnsOffset();
+  }
+
+  /**
+   * Translate the columns frozen on the right side so that they always stay visible at the end of the viewport,
+   * they remain in the scrollable canvas and they are only at their original position once the viewport is scrolled all the way to the end.
+   * @param {Number} [scrollLeft] - horizontal scroll position, defaults to the current scroll position
+   */
+  protected updateFrozenRightColumnsOffset(scrollLeft: number = this.scrollLeft): void {
+    if (this.frozenRightCssRule) {
+      let offset = 0;
+      if (this.hasFrozenRightColumns()) {
+        let columnsWidth = 0;
+        this.columns.forEach((col, i) => {
+          if (col && !col.hidden && (!this.hasFrozenColumns() || i > this._options.frozenColumn!)) {
+            columnsWidth += col.width || 0;
+          }
+        });
+        const visibleWidth = this.getViewportInnerWidth() - (this.hasFrozenColumns() ? this.canvasWidthL : 0);
+        offset = Math.max(0, columnsWidth - visibleWidth - scrollLeft);
+      }
+      this.frozenRightCssRule.style.transform = `translateX(${this._options.rtl ? offset : -offset}px)`;
+    }
   }
 
   /**
@@ -3231,6 +3420,8 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
       indicators = header.querySelectorAll('.slick-sort-indicator-numbered');
       indicators.forEach((el) => (el.textContent = ''));
+
+      header.querySelectorAll('.slick-header-sortable').forEach((sortableHeader) => sortableHeader.setAttribute('aria-sort', 'none'));
     });
 
     let i = 1;
@@ -3244,6 +3435,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         const column = this.getColumnHeaderByIndex(columnIndex);
         if (column) {
           column.classList.add('slick-header-column-sorted');
+          column.setAttribute('aria-sort', col.sortAsc ? 'ascending' : 'descending');
           let indicator = column.querySelector('.slick-sort-indicator');
           indicator?.classList.add(col.sortAsc ? 'slick-sort-indicator-asc' : 'slick-sort-indicator-desc');
 
@@ -3315,6 +3507,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     }
 
     this.setCellCssStyles(this._options.selectedCellCssClass || '', hash);
+    this.updateRowsAriaSelected(hash);
 
     if (this.selectionBottomRow >= 0 && this.selectionRightCell >= 0 && addDragHandle) {
       const lowerRightCell = this.getCellNode(this.selectionBottomRow, this.selectionRightCell);
@@ -3585,6 +3778,12 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     if (!this.validateColumnFreezeWidth(this._options.frozenColumn)) {
       this._options.frozenColumn = this._prevFrozenColumnIdx < this._options.frozenColumn! ? this._prevFrozenColumnIdx : -1;
     }
+    if (
+      this._options.frozenRightColumn! >= 0 &&
+      !this.validateColumnFreezeWidth(this._options.frozenColumn, this._options.frozenRightColumn)
+    ) {
+      this._options.frozenRightColumn = -1;
+    }
   }
 
   /**
@@ -3683,6 +3882,14 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
    */
   setHeaderRowVisibility(visible?: boolean): void {
     this.togglePanelVisibility('showHeaderRow', this._headerRowScroller, visible);
+
+    // the header row is counted as a row by the screen readers, so the row indexes of all the rendered rows have to be shifted
+    this._container.setAttribute('aria-rowcount', String(this.getDataLength() + this.getAriaHeaderRowCount()));
+    Object.keys(this.rowsCache).forEach((row) => {
+      this.rowsCache[+row].rowNode?.forEach((rowNode) =>
+        rowNode.setAttribute('aria-rowindex', String(+row + 1 + this.getAriaHeaderRowCount()))
+      );
+    });
   }
 
   /**
@@ -3724,20 +3931,180 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
   // Rendering / Scrolling
 
-  protected getRowHeight(): number {
+  /**
+   * Get the height of a row, every row has the same `rowHeight` unless the "enableVariableRowHeight" grid option is enabled
+   * @param {Number} [row] - grid row number
+   */
+  getRowHeight(row?: number): number {
+    if (this._options.enableVariableRowHeight && row !== undefined && row >= 0) {
+      this.ensureRowPositions();
+      if (row < this._rowPositions.length - 1) {
+        return this._rowPositions[row + 1] - this._rowPositions[row];
+      }
+    }
     return this._options.rowHeight!;
   }
 
+  /**
+   * Get the top position of a row in the entire grid (without the virtual page offset), which is the sum of the heights of all the rows before it
+   * @param {Number} row - grid row number
+   */
+  getRowPosition(row: number): number {
+    if (this._options.enableVariableRowHeight && row >= 0) {
+      this.ensureRowPositions();
+      const lastRow = this._rowPositions.length - 1;
+      if (row <= lastRow) {
+        return this._rowPositions[row];
+      }
+      // any row outside of the data (e.g. space left for new rows) uses the default row height
+      return this._rowPositions[lastRow] + (row - lastRow) * this._options.rowHeight!;
+    }
+    return this._options.rowHeight! * row;
+  }
+
+  /**
+   * Invalidate all the row heights and re-render the grid, this is only required when the "enableVariableRowHeight" grid option is enabled
+   * and the height of a row changed without any change in the dataset (e.g. the `getRowHeight` callback now returns a different height)
+   * @param {Boolean} [clearMeasuredHeights] - also clear the heights measured by the "autoMeasureRowHeight" option (e.g. after a font size change)
+   */
+  invalidateRowHeights(clearMeasuredHeights = false): void {
+    if (clearMeasuredHeights) {
+      this._measuredRowHeights = new WeakMap();
+    }
+    this._rowPositionsInvalidFrom = 0;
+    this.invalidate();
+  }
+
   protected getRowTop(row: number): number {
-    return Math.round(this._options.rowHeight! * row - this.offset);
+    return Math.round(this.getRowPosition(row) - this.offset);
   }
 
   protected getRowBottom(row: number): number {
-    return this.getRowTop(row) + this._options.rowHeight!;
+    return this.getRowTop(row) + this.getRowHeight(row);
   }
 
   protected getRowFromPosition(y: number): number {
-    return Math.floor((y + this.offset) / this._options.rowHeight!);
+    const position = y + this.offset;
+    if (this._options.enableVariableRowHeight && position >= 0) {
+      this.ensureRowPositions();
+      const lastRow = this._rowPositions.length - 1;
+      if (position >= this._rowPositions[lastRow]) {
+        return lastRow + Math.floor((position - this._rowPositions[lastRow]) / this._options.rowHeight!);
+      }
+
+      // binary search of the last row starting at or before that position
+      let low = 0;
+      let high = lastRow - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (this._rowPositions[mid] <= position) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return low;
+    }
+    return Math.floor(position / this._options.rowHeight!);
+  }
+
+  /** Get the height of all the frozen rows (at the top or at the bottom of the grid) */
+  protected getFrozenRowsHeight(): number {
+    if (this._options.frozenBottom) {
+      const dataLength = this.getDataLength();
+      return this.getRowPosition(dataLength) - this.getRowPosition(dataLength - this._options.frozenRow!);
+    }
+    return this.getRowPosition(this._options.frozenRow!);
+  }
+
+  /**
+   * Get the height of a row from the item metadata or the `getRowHeight` callback and fallback to the default row height,
+   * an auto-measured height is used instead whenever the content of the row requires more space
+   */
+  protected computeRowHeight(row: number, dataLength: number): number {
+    let rowHeight = this._options.rowHeight!;
+    if (row < dataLength) {
+      const item = this.getDataItem(row);
+      const metadataHeight = this.getItemMetadaWhenExists(row)?.height;
+      const callbackHeight = item && !(metadataHeight && metadataHeight > 0) ? this._options.getRowHeight?.(item, row) : undefined;
+      if (metadataHeight && metadataHeight > 0) {
+        rowHeight = metadataHeight;
+      } else if (callbackHeight && callbackHeight > 0) {
+        rowHeight = callbackHeight;
+      }
+      const measuredHeight = item && typeof item === 'object' ? this._measuredRowHeights.get(item) : undefined;
+      if (measuredHeight && measuredHeight > rowHeight) {
+        rowHeight = measuredHeight;
+      }
+    }
+    return rowHeight;
+  }
+
+  /**
+   * Update the cumulative row positions index from the lowest invalidated row, since the positions of the rows before it are still valid
+   * (only used when the "enableVariableRowHeight" grid option is enabled)
+   */
+  protected ensureRowPositions(): void {
+    if (this._rowPositionsInvalidFrom !== Infinity) {
+      const positions = this._rowPositions;
+      const dataLength = this.getDataLength();
+      const rowCount = this.getDataLengthIncludingAddNew();
+      const fromRow = Math.min(this._rowPositionsInvalidFrom, positions.length - 1, rowCount);
+      this._rowPositionsInvalidFrom = Infinity;
+
+      // find the first visible row (with the previous positions) to keep it at the same place when the rows above it changed height
+      const anchorRow = this.scrollTop > 0 ? this.getRowFromPosition(this.scrollTop) : 0;
+      const anchorPosition = positions[anchorRow];
+
+      let hasChanged = positions.length !== rowCount + 1;
+      positions.length = Math.min(positions.length, rowCount + 1);
+      for (let row = fromRow; row < rowCount; row++) {
+        const position = positions[row] + this.computeRowHeight(row, dataLength);
+        hasChanged ||= position !== positions[row + 1];
+        positions[row + 1] = position;
+      }
+      this._rowPositionsChanged ||= hasChanged;
+
+      if (fromRow < anchorRow && anchorRow <= rowCount && anchorPosition !== undefined) {
+        this._rowPositionsScrollDelta += positions[anchorRow] - anchorPosition;
+      }
+    }
+  }
+
+  /**
+   * Measure the content of the rows that were just rendered and grow their height when the content doesn't fit (e.g. wrapped text),
+   * every item is only measured once (until the measured heights are cleared) and the grid is re-rendered when at least 1 row height changed
+   */
+  protected measureRenderedRowHeights(): void {
+    const rows = this._rowsToMeasure;
+    this._rowsToMeasure = [];
+    const changedRows: number[] = [];
+
+    rows.forEach((row) => {
+      const item = this.getDataItem(row);
+      const rowNodes = this.rowsCache[row]?.rowNode;
+      if (item && typeof item === 'object' && rowNodes && !this._measuredRowHeights.has(item)) {
+        const rowHeight = this.getRowHeight(row);
+        let neededHeight = rowHeight;
+        rowNodes.forEach((rowNode) => {
+          Array.from(rowNode.children as HTMLCollectionOf<HTMLElement>).forEach((cellNode) => {
+            if (cellNode.scrollHeight > cellNode.clientHeight) {
+              neededHeight = Math.max(neededHeight, rowHeight + cellNode.scrollHeight - cellNode.clientHeight);
+            }
+          });
+        });
+        this._measuredRowHeights.set(item, Math.ceil(neededHeight));
+        if (neededHeight > rowHeight) {
+          changedRows.push(row);
+        }
+      }
+    });
+
+    if (changedRows.length) {
+      this.invalidateRows(changedRows);
+      this.updateRowCount();
+      this.render();
+    }
   }
 
   /**
@@ -3789,34 +4156,62 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
    * @param {Number} x
    */
   scrollToX(x: number): void {
-    this._viewportScrollContainerX.scrollLeft = x;
-    this._headerScrollContainer.scrollLeft = x;
-    this._topPanelScrollers[0].scrollLeft = x;
+    // in RTL mode, the browsers are using a negative scrollLeft when scrolling toward the left (end side)
+    const scrollLeft = this._options.rtl ? -x : x;
+    this._viewportScrollContainerX.scrollLeft = scrollLeft;
+    this._headerScrollContainer.scrollLeft = scrollLeft;
+    this._topPanelScrollers[0].scrollLeft = scrollLeft;
     if (this._options.createFooterRow) {
-      this._footerRowScrollContainer.scrollLeft = x;
+      this._footerRowScrollContainer.scrollLeft = scrollLeft;
     }
     if (this._options.createPreHeaderPanel) {
       if (this.hasFrozenColumns()) {
-        this._preHeaderPanelScrollerR.scrollLeft = x;
+        this._preHeaderPanelScrollerR.scrollLeft = scrollLeft;
       } else {
-        this._preHeaderPanelScroller.scrollLeft = x;
+        this._preHeaderPanelScroller.scrollLeft = scrollLeft;
       }
     }
     if (this._options.createTopHeaderPanel) {
-      this._topHeaderPanelScroller.scrollLeft = x;
+      this._topHeaderPanelScroller.scrollLeft = scrollLeft;
     }
 
     if (this.hasFrozenColumns()) {
       if (this.hasFrozenRows) {
-        this._viewportTopR.scrollLeft = x;
+        this._viewportTopR.scrollLeft = scrollLeft;
       }
-      this._headerRowScrollerR.scrollLeft = x; // right header row scrolling with frozen grid
+      this._headerRowScrollerR.scrollLeft = scrollLeft; // right header row scrolling with frozen grid
     } else {
       if (this.hasFrozenRows) {
-        this._viewportTopL.scrollLeft = x;
+        this._viewportTopL.scrollLeft = scrollLeft;
       }
-      this._headerRowScrollerL.scrollLeft = x; // left header row scrolling with regular grid
+      this._headerRowScrollerL.scrollLeft = scrollLeft; // left header row scrolling with regular grid
     }
+    this.updateFrozenRightColumnsOffset(x);
+  }
+
+  /** Get the CSS side where the columns start, which is the right side in RTL mode */
+  protected getStartSide(): 'left' | 'right' {
+    return this._options.rtl ? 'right' : 'left';
+  }
+
+  /** Get the CSS side where the columns end, which is the left side in RTL mode */
+  protected getEndSide(): 'left' | 'right' {
+    return this._options.rtl ? 'left' : 'right';
+  }
+
+  /** Get the horizontal scroll position of an element from its start side, it is always a positive number even in RTL mode */
+  protected getElementScrollLeft(elm: HTMLElement): number {
+    return this._options.rtl ? Math.abs(elm.scrollLeft) : elm.scrollLeft;
+  }
+
+  /** Set the horizontal scroll position of an element from its start side (the browsers are using a negative scrollLeft in RTL mode) */
+  protected setElementScrollLeft(elm: HTMLElement, scrollLeft: number): void {
+    elm.scrollLeft = this._options.rtl ? -scrollLeft : scrollLeft;
+  }
+
+  /** Get a mirrored page X coordinate in RTL mode, so that a mouse move toward the end side is always a positive delta */
+  protected getMirroredPageX(pageX: number): number {
+    return this._options.rtl ? -pageX : pageX;
   }
 
   protected defaultFormatter(_row: number, _cell: number, value: any): string {
@@ -3861,6 +4256,41 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     return item[columnDef.field as keyof TData];
   }
 
+  /** Get the number of header rows exposed to the screen readers (the column headers and the optional header row with the filters) */
+  protected getAriaHeaderRowCount(): number {
+    return this._options.showHeaderRow ? 2 : 1;
+  }
+
+  /** Apply the ARIA attributes of a row: its index (after the header rows), its selection state and its expand state & level for the group and tree data rows */
+  protected applyRowAriaAttributes(rowNode: HTMLElement, row: number, item?: TData): void {
+    rowNode.setAttribute('aria-rowindex', String(row + 1 + this.getAriaHeaderRowCount()));
+    if (this.selectionModel) {
+      rowNode.setAttribute('aria-selected', String(!!this.cellCssClasses[this._options.selectedCellCssClass || '']?.[row]));
+    }
+
+    if ((item as any)?.__group) {
+      rowNode.setAttribute('aria-expanded', String(!(item as any).collapsed));
+      rowNode.setAttribute('aria-level', String(((item as any).level ?? 0) + 1));
+    } else if (item && this._options.enableTreeData) {
+      const treeDataOptions = this._options.treeDataOptions;
+      const treeLevel = (item as any)[treeDataOptions?.levelPropName ?? Constants.treeDataProperties.TREE_LEVEL_PROP];
+      if (treeLevel !== undefined) {
+        rowNode.setAttribute('aria-level', String(treeLevel + 1));
+      }
+      if ((item as any)[treeDataOptions?.hasChildrenPropName ?? Constants.treeDataProperties.HAS_CHILDREN_PROP]) {
+        const isCollapsed = (item as any)[treeDataOptions?.collapsedPropName ?? Constants.treeDataProperties.COLLAPSED_PROP];
+        rowNode.setAttribute('aria-expanded', String(!isCollapsed));
+      }
+    }
+  }
+
+  /** Update the "aria-selected" attribute of all the rendered rows from the selected cells */
+  protected updateRowsAriaSelected(selectedCellsHash: CssStyleHash): void {
+    Object.keys(this.rowsCache).forEach((row) => {
+      this.rowsCache[+row].rowNode?.forEach((rowNode) => rowNode.setAttribute('aria-selected', String(!!selectedCellsHash[+row])));
+    });
+  }
+
   protected appendRowHtml(
     divArrayL: HTMLElement[],
     divArrayR: HTMLElement[],
@@ -3892,6 +4322,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       role: 'row',
       dataset: { row: `${row}` },
     });
+    this.applyRowAriaAttributes(rowDiv, row, d);
     const frozenRowOffset = this.getFrozenRowOffset(row);
     const topOffset = this.getRowTop(row) - frozenRowOffset;
     if (this._options.rowTopOffsetRenderType === 'transform') {
@@ -3899,6 +4330,10 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     } else {
       rowDiv.style.top = `${topOffset}px`; // default to `top: {offset}px`
     }
+    const rowHeight = this.getRowHeight(row);
+    if (rowHeight !== this._options.rowHeight) {
+      rowDiv.style.height = `${rowHeight}px`;
+    }
 
     let rowDivR: HTMLElement | undefined;
     divArrayL.push(rowDiv);
@@ -3953,7 +4388,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
         // Do not render cells outside of the viewport.
         if (this.columnPosRight[Math.min(ii - 1, i + ncolspan - 1)] > range.leftPx) {
-          if (!m.alwaysRenderColumn && this.columnPosLeft[i] > range.rightPx) {
+          if (!m.alwaysRenderColumn && !this.isFrozenRightColumn(i) && this.columnPosLeft[i] > range.rightPx) {
             isRenderCell = false; // render as false but keep looping to correctly save cellspan pointers
           }
 
@@ -4001,6 +4436,8 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
     if (this.hasFrozenColumns() && cell <= this._options.frozenColumn!) {
       cellCss += ' frozen';
+    } else if (this.isFrozenRightColumn(cell)) {
+      cellCss += ` ${this.getFrozenRightCssClasses(cell).join(' ')}`;
     }
 
     if (row === this.activeRow && cell === this.activeCell && this._options.showCellSelection) {
@@ -4040,13 +4477,20 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       tabIndex: -1,
     });
     cellDiv.setAttribute('aria-describedby', this.uid + m.id);
+    cellDiv.setAttribute('aria-colindex', String(cell + 1));
+    if (colspan > 1) {
+      cellDiv.setAttribute('aria-colspan', String(colspan));
+    }
+    if (rowspan > 1) {
+      cellDiv.setAttribute('aria-rowspan', String(rowspan));
+    }
     if (toolTipText) {
       cellDiv.setAttribute('title', toolTipText);
     }
 
-    // update cell rowspan height when spanning more than 1 row
+    // update cell height when spanning more than 1 row or when the row height is different than the default row height
     const cellHeight = this.getCellHeight(row, rowspan);
-    if (rowspan > 1 && cellHeight !== this._options.rowHeight! - this.cellHeightDiff) {
+    if (cellHeight !== this._options.rowHeight! - this.cellHeightDiff) {
       cellDiv.style.height = `${cellHeight || 0}px`;
     }
 
@@ -4247,6 +4691,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     if (this.currentEditor) {
       this.makeActiveCellNormal();
     }
+    this._rowPositionsInvalidFrom = 0;
 
     if (typeof this.rowsCache === 'object') {
       Object.keys(this.rowsCache).forEach((row) => {
@@ -4287,6 +4732,9 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
     for (let i = 0; i < rl; i++) {
       row = rows[i];
+      if (row < this._rowPositionsInvalidFrom) {
+        this._rowPositionsInvalidFrom = row;
+      }
       if (this.currentEditor && this.activeRow === row) {
         this.makeActiveCellNormal();
       }
@@ -4505,16 +4953,10 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
   }
 
   getCellHeight(row: number, rowspan: number): number {
-    let cellHeight = this._options.rowHeight || 0;
+    let cellHeight = this.getRowHeight(row) || 0;
     if (rowspan > 1) {
       const rowSpanBottomIdx = row + rowspan - 1;
       cellHeight = this.getRowBottom(rowSpanBottomIdx) - this.getRowTop(row);
-    } else {
-      const rowHeight = this.getRowHeight();
-      /* v8 ignore if */
-      if (rowHeight !== cellHeight - this.cellHeightDiff) {
-        cellHeight = rowHeight;
-      }
     }
     cellHeight -= this.cellHeightDiff;
     return Math.ceil(cellHeight);
@@ -4548,8 +4990,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       fullHeight += this._options.showFooterRow ? this._options.footerRowHeight! + this.getVBoxDelta(this._footerRowScroller[0]) : 0;
       fullHeight += this.getCanvasWidth() > this.viewportW ? this.scrollbarDimensions?.height || 0 : 0;
 
-      this.viewportH =
-        this._options.rowHeight! * this.getDataLengthIncludingAddNew() + (this._options.frozenColumn === -1 ? fullHeight : 0);
+      this.viewportH = this.getRowPosition(this.getDataLengthIncludingAddNew()) + (this._options.frozenColumn === -1 ? fullHeight : 0);
     } else {
       const style = getComputedStyle(this._container);
       const containerBoxH = style.boxSizing !== 'content-box' ? this.getVBoxDelta(this._container) : 0;
@@ -4710,6 +5151,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
       this.updateRowCount();
       this.handleScroll();
+      this.updateFrozenRightColumnsOffset();
       // Since the width has changed, force the render() to reevaluate virtually rendered cells.
       this.lastRenderedScrollLeft = -1;
       this.render();
@@ -4729,7 +5171,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
   updateRowCount(): void {
     if (this.initialized) {
       const dataLength = this.getDataLength();
-      this._container.setAttribute('aria-rowcount', dataLength.toString());
+      this._container.setAttribute('aria-rowcount', String(dataLength + this.getAriaHeaderRowCount()));
 
       // remap all rowspan cache when necessary
       if (dataLength > 0 && dataLength !== this._prevDataLength) {
@@ -4741,6 +5183,15 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
       this._prevDataLength = dataLength;
 
+      // the row positions must be updated from the first added (or removed) row and the frozen panes must be resized when the frozen rows height changed
+      this._rowPositionsInvalidFrom = Math.min(this._rowPositionsInvalidFrom, this._rowPositions.length - 1);
+      let frozenRowsHeightChanged = false;
+      if (this._options.enableVariableRowHeight && this.hasFrozenRows) {
+        const frozenRowsHeight = this.getFrozenRowsHeight();
+        frozenRowsHeightChanged = frozenRowsHeight !== this.frozenRowsHeight;
+        this.frozenRowsHeight = frozenRowsHeight;
+      }
+
       const dataLengthIncludingAddNew = this.getDataLengthIncludingAddNew();
       let numberOfRows = 0;
       let oldH = (
@@ -4752,12 +5203,15 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       } else {
         numberOfRows = dataLengthIncludingAddNew + (this._options.leaveSpaceForNewRows ? this.numVisibleRows - 1 : 0);
       }
+      const rowsHeight =
+        this.hasFrozenRows && !this._options.frozenBottom
+          ? this.getRowPosition(dataLength) - this.frozenRowsHeight
+          : this.getRowPosition(numberOfRows);
 
       const tempViewportH = Utils.height(this._viewportScrollContainerY) as number;
       const oldViewportHasVScroll = this.viewportHasVScroll;
       // with autoHeight, we do not need to accommodate the vertical scroll bar
-      this.viewportHasVScroll =
-        this._options.alwaysShowVerticalScroll || (!this._options.autoHeight && numberOfRows * this._options.rowHeight! > tempViewportH);
+      this.viewportHasVScroll = this._options.alwaysShowVerticalScroll || (!this._options.autoHeight && rowsHeight > tempViewportH);
 
       this.makeActiveCellNormal();
 
@@ -4783,9 +5237,9 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
       oldH = this.h;
       if (this._options.autoHeight) {
-        this.h = this._options.rowHeight! * numberOfRows;
+        this.h = rowsHeight;
       } else {
-        this.th = Math.max(this._options.rowHeight! * numberOfRows, tempViewportH - (this.scrollbarDimensions?.height || 0));
+        this.th = Math.max(rowsHeight, tempViewportH - (this.scrollbarDimensions?.height || 0));
         if (this.th < this.maxSupportedCssHeight) {
           // just one page
           this.h = this.ph = this.th;
@@ -4817,14 +5271,17 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         this.enforceFrozenRowHeightRecalc = false; // reset enforce flag
       }
 
-      const oldScrollTopInRange = this.scrollTop + this.offset <= this.th - tempViewportH;
+      // with variable row heights, the first visible row is kept at the same place in the viewport when the rows above it changed height
+      const scrollDelta = this._rowPositionsScrollDelta;
+      this._rowPositionsScrollDelta = 0;
+      const oldScrollTopInRange = this.scrollTop + this.offset + scrollDelta <= this.th - tempViewportH;
 
       /* v8 ignore else */
       if (this.th === 0 || this.scrollTop === 0) {
         this.page = this.offset = 0;
       } else if (oldScrollTopInRange) {
         // maintain virtual position
-        this.scrollTo(this.scrollTop + this.offset);
+        this.scrollTo(this.scrollTop + this.offset + scrollDelta);
       } else {
         // scroll to bottom
         this.scrollTo(this.th - tempViewportH + (this.scrollbarDimensions?.height || 0));
@@ -4838,6 +5295,15 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         this.legacyAutosizeColumns();
       }
       this.updateCanvasWidth(false);
+
+      // the rows that are already rendered must be moved when any row height changed
+      if (this._rowPositionsChanged) {
+        this._rowPositionsChanged = false;
+        this.updateRowPositions();
+      }
+      if (frozenRowsHeightChanged) {
+        this.resizeCanvas();
+      }
     }
   }
 
@@ -4905,6 +5371,22 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     return range;
   }
 
+  /**
+   * Is the column inside the horizontal rendered range (the columns frozen on either side and the ones with `alwaysRenderColumn` are always considered inside the range)
+   * @param {Number} columnIdx - column index
+   * @param {CellViewportRange} [range] - optional range, defaults to the current rendered range
+   */
+  isColumnInRenderedRange(columnIdx: number, range: CellViewportRange = this.getRenderedRange()): boolean {
+    const columnDef = this.columns[columnIdx];
+    if (!columnDef || columnDef.hidden) {
+      return false;
+    }
+    if (columnDef.alwaysRenderColumn || columnIdx <= this._options.frozenColumn! || this.isFrozenRightColumn(columnIdx)) {
+      return true;
+    }
+    return this.columnPosRight[columnIdx] >= range.leftPx && this.columnPosLeft[columnIdx] <= range.rightPx;
+  }
+
   /**
    * Returns the rows cache that are currently rendered in the DOM,
    * the cache includes certain properties like the row div element, cell rendered queue and the row colspan when defined.
@@ -4959,8 +5441,8 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         return;
       }
 
-      // Ignore alwaysRenderedColumns
-      if (Array.isArray(this.columns) && this.columns[i]?.alwaysRenderColumn) {
+      // Ignore alwaysRenderedColumns and the columns frozen on the right side
+      if ((Array.isArray(this.columns) && this.columns[i]?.alwaysRenderColumn) || this.isFrozenRightColumn(i)) {
         return;
       }
 
@@ -5027,9 +5509,13 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         // TODO: shorten this loop (index? heuristics? binary search?)
         for (let i = 0, ii = columnCount; i < ii; i++) {
           if (this.columns[i] && !this.columns[i].hidden) {
-            // Cells to the right are outside the range.
-            if (this.columnPosLeft[i] > range.rightPx) {
-              break;
+            // Cells to the right are outside the range, except for the columns frozen on the right side which are always rendered
+            if (this.columnPosLeft[i] > range.rightPx && !this.isFrozenRightColumn(i)) {
+              if (!this.hasFrozenRightColumns()) {
+                break;
+              }
+              i = this._options.frozenRightColumn! - 1; // skip directly to the first column frozen on the right side
+              continue;
             }
 
             // Already rendered.
@@ -5203,6 +5689,10 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       if (needToReselectCell) {
         this.activeCellNode = this.getCellNode(this.activeRow, this.activeCell);
       }
+
+      if (this._options.enableVariableRowHeight && this._options.autoMeasureRowHeight) {
+        this._rowsToMeasure.push(...rows);
+      }
     }
   }
 
@@ -5244,10 +5734,11 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       Object.keys(this.rowsCache).forEach((row) => {
         const rowNumber = row ? parseInt(row, 10) : 0;
         const rowNode = this.rowsCache[rowNumber].rowNode![0];
+        const topOffset = this.getRowTop(rowNumber) - this.getFrozenRowOffset(rowNumber);
         if (this._options.rowTopOffsetRenderType === 'transform') {
-          rowNode.style.transform = `translateY(${this.getRowTop(rowNumber)}px)`;
+          rowNode.style.transform = `translateY(${topOffset}px)`;
         } else {
-          rowNode.style.top = `${this.getRowTop(rowNumber)}px`; // default to `top: {offset}px`
+          rowNode.style.top = `${topOffset}px`; // default to `top: {offset}px`
         }
       });
     }
@@ -5258,6 +5749,14 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     if (this.initialized) {
       this.scrollThrottle.dequeue();
 
+      // any change of row heights (e.g. sorting rows with different heights) requires the canvas & rendered rows to be updated
+      if (this._options.enableVariableRowHeight) {
+        this.ensureRowPositions();
+        if (this._rowPositionsChanged) {
+          this.updateRowCount();
+        }
+      }
+
       const visible = this.getVisibleRange();
       const rendered = this.getRenderedRange();
 
@@ -5284,6 +5783,11 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       // render missing rows
       this.renderRows(rendered);
 
+      // render (or destroy) the header, header row & footer cells of the columns that entered (or left) the rendered range
+      if (this._options.enableColumnVirtualization) {
+        this.updateVirtualHeaderCells(rendered);
+      }
+
       // Render frozen rows
       if (this.hasFrozenRows) {
         if (this._options.frozenBottom) {
@@ -5303,6 +5807,10 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
         }
       }
 
+      if (this._rowsToMeasure.length) {
+        this.measureRenderedRowHeights();
+      }
+
       this.postProcessFromRow = visible.top;
       this.postProcessToRow = Math.min(this.getDataLengthIncludingAddNew() - 1, visible.bottom);
       this.startPostProcessing();
@@ -5345,7 +5853,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
   protected handleScroll(e?: Event): boolean {
     this.scrollHeight = this._viewportScrollContainerY.scrollHeight;
     this.scrollTop = this._viewportScrollContainerY.scrollTop;
-    this.scrollLeft = this._viewportScrollContainerX.scrollLeft;
+    this.scrollLeft = this.getElementScrollLeft(this._viewportScrollContainerX);
     return this._handleScroll(e ? 'scroll' : 'system');
   }
 
@@ -5803,11 +6311,13 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
 
   protected handleMouseWheel(e: MouseEvent, _delta: number, deltaX: number, deltaY: number): void {
     this.scrollHeight = this._viewportScrollContainerY.scrollHeight;
+    // the horizontal scroll position is from the start side, which is mirrored in RTL mode
+    const scrollDeltaX = (this._options.rtl ? -deltaX : deltaX) * 10;
     if (e.shiftKey) {
-      this.scrollLeft = this._viewportScrollContainerX.scrollLeft + deltaX * 10;
+      this.scrollLeft = this.getElementScrollLeft(this._viewportScrollContainerX) + scrollDeltaX;
     } else {
       this.scrollTop = Math.max(0, this._viewportScrollContainerY.scrollTop - deltaY * this._options.rowHeight!);
-      this.scrollLeft = this._viewportScrollContainerX.scrollLeft + deltaX * 10;
+      this.scrollLeft = this.getElementScrollLeft(this._viewportScrollContainerX) + scrollDeltaX;
     }
     const handled = this._handleScroll('mousewheel');
     if (handled) {
@@ -5940,9 +6450,9 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
           this.navigateTop();
         } else if (e.ctrlKey && e.key === 'ArrowDown') {
           this.navigateBottom();
-        } else if ((e.ctrlKey && e.key === 'ArrowLeft') || (!e.ctrlKey && e.key === 'Home')) {
+        } else if ((e.ctrlKey && e.key === (this._options.rtl ? 'ArrowRight' : 'ArrowLeft')) || (!e.ctrlKey && e.key === 'Home')) {
           this.navigateRowStart();
-        } else if ((e.ctrlKey && e.key === 'ArrowRight') || (!e.ctrlKey && e.key === 'End')) {
+        } else if ((e.ctrlKey && e.key === (this._options.rtl ? 'ArrowLeft' : 'ArrowRight')) || (!e.ctrlKey && e.key === 'End')) {
           this.navigateRowEnd();
         }
       }
@@ -6269,7 +6779,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       if (this._options.frozenBottom) {
         if (row >= this.actualFrozenRow) {
           if (this.h < this.viewportTopH) {
-            offset = this.actualFrozenRow * this._options.rowHeight!;
+            offset = this.getRowPosition(this.actualFrozenRow);
           } else {
             offset = this.h;
           }
@@ -6344,7 +6854,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     const frozenRowOffset = this.getFrozenRowOffset(row);
 
     const y1 = this.getRowTop(row) - frozenRowOffset;
-    const y2 = y1 + this._options.rowHeight! - 1;
+    const y2 = y1 + this.getRowHeight(row) - 1;
     let x1 = 0;
     for (let i = 0; i < cell; i++) {
       if (this.columns[i] && !this.columns[i].hidden) {
@@ -6409,24 +6919,30 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
   scrollCellIntoView(row: number, cell: number, doPaging?: boolean): void {
     this.scrollRowIntoView(row, doPaging);
 
-    if (cell > this._options.frozenColumn!) {
+    if (cell > this._options.frozenColumn! && !this.isFrozenRightColumn(cell)) {
       const colspan = this.getColspan(row, cell);
       this.internalScrollColumnIntoView(this.columnPosLeft[cell], this.columnPosRight[cell + (colspan > 1 ? colspan - 1 : 0)]);
     }
   }
 
   protected internalScrollColumnIntoView(left: number, right: number): void {
+    // the columns frozen on the right side are covering the end of the viewport
+    const frozenRightWidth = this.getFrozenRightColumnsWidth();
     const scrollRight =
       this.scrollLeft +
       (Utils.width(this._viewportScrollContainerX) as number) -
-      (this.viewportHasVScroll ? this.scrollbarDimensions?.width || 0 : 0);
+      (this.viewportHasVScroll ? this.scrollbarDimensions?.width || 0 : 0) -
+      frozenRightWidth;
 
     if (left < this.scrollLeft) {
-      this._viewportScrollContainerX.scrollLeft = left;
+      this.setElementScrollLeft(this._viewportScrollContainerX, left);
       this.handleScroll();
       this.render();
     } else if (right > scrollRight) {
-      this._viewportScrollContainerX.scrollLeft = Math.min(left, right - this._viewportScrollContainerX.clientWidth);
+      this.setElementScrollLeft(
+        this._viewportScrollContainerX,
+        Math.min(left, right - this._viewportScrollContainerX.clientWidth + frozenRightWidth)
+      );
       this.handleScroll();
       this.render();
     }
@@ -6771,22 +7287,18 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
       const viewportScrollH = Utils.height(this._viewportScrollContainerY) as number;
 
       // if frozen row on top
-      // subtract number of frozen row
-      const rowNumber = this.hasFrozenRows && !this._options.frozenBottom ? row - this._options.frozenRow! : row;
-
-      const rowAtTop = rowNumber * this._options.rowHeight!;
-      const rowAtBottom =
-        (rowNumber + 1) * this._options.rowHeight! -
-        viewportScrollH +
-        (this.viewportHasHScroll ? this.scrollbarDimensions?.height || 0 : 0);
+      // subtract the height of the frozen rows
+      const rowAtTop = this.getRowPosition(row) - (this.hasFrozenRows && !this._options.frozenBottom ? this.frozenRowsHeight : 0);
+      const rowBottom = rowAtTop + this.getRowHeight(row);
+      const rowAtBottom = rowBottom - viewportScrollH + (this.viewportHasHScroll ? this.scrollbarDimensions?.height || 0 : 0);
 
       // need to page down?
-      if ((rowNumber + 1) * this._options.rowHeight! > this.scrollTop + viewportScrollH + this.offset) {
+      if (rowBottom > this.scrollTop + viewportScrollH + this.offset) {
         this.scrollTo(doPaging ? rowAtTop : rowAtBottom);
         this.render();
       }
       // or page up?
-      else if (rowNumber * this._options.rowHeight! < this.scrollTop + this.offset) {
+      else if (rowAtTop < this.scrollTop + this.offset) {
         this.scrollTo(doPaging ? rowAtBottom : rowAtTop);
         this.render();
       }
@@ -6798,7 +7310,7 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
    * @param {Number} row - grid row number
    */
   scrollRowToTop(row: number): void {
-    this.scrollTo(row * this._options.rowHeight!);
+    this.scrollTo(this.getRowPosition(row));
     this.render();
   }
 
@@ -6806,8 +7318,8 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     const deltaRows = dir * this.numVisibleRows;
     /// First fully visible row crosses the line with
     /// y === bottomOfTopmostFullyVisibleRow
-    const bottomOfTopmostFullyVisibleRow = this.scrollTop + this._options.rowHeight! - 1;
-    this.scrollTo((this.getRowFromPosition(bottomOfTopmostFullyVisibleRow) + deltaRows) * this._options.rowHeight!);
+    const bottomOfTopmostFullyVisibleRow = this.scrollTop + this.getRowHeight(this.getRowFromPosition(this.scrollTop)) - 1;
+    this.scrollTo(this.getRowPosition(this.getRowFromPosition(bottomOfTopmostFullyVisibleRow) + deltaRows));
     this.render();
 
     if (this._options.enableCellNavigation && isDefined(this.activeRow)) {
@@ -7289,14 +7801,20 @@ export class SlickGrid<TData = any, C extends Column<TData> = Column<TData>, O e
     return colspan;
   }
 
-  /** Switches the active cell one cell right skipping unselectable cells. Unline navigateNext, navigateRight stops at the last cell of the row. Returns a boolean saying whether it was able to complete or not. */
+  /**
+   * Switches the active cell one cell right skipping unselectable cells. Unline navigateNext, navigateRight stops at the last cell of the row. Returns a boolean saying whether it was able to complete or not.
+   * Note: in RTL mode, the columns are mirrored and so the cell on the right is the previous cell.
+   */
   navigateRight(): boolean | undefined {
-    return this.navigate('right');
+    return this.navigate(this._options.rtl ? 'left' : 'right');
   }
 
-  /** Switches the active cell one cell left skipping unselectable cells. Unline navigatePrev, navigateLeft stops at the first cell of the row. Returns a boolean saying whether it was able to complete or not. */
+  /**
+   * Switches the active cell one cell left skipping unselectable cells. Unline navigatePrev, navigateLeft stops at the first cell of the row. Returns a boolean saying whether it was able to complete or not.
+   * Note: in RTL mode, the columns are mirrored and so the cell on the left is the next cell.
+   */
   navigateLeft(): boolean | undefined {
-    return this.navigate('left');
+    return this.navigate(this._options.rtl ? 'right' : 'left');
   }
 
   /** Switches the active cell one row down skipping unselectable cells. Returns a boolean saying whether it was able to complete or not. */
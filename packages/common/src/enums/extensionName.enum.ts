@@ -1,18 +1,23 @@
 /** @deprecated @use extension name type as string instead (ie: `ExtensionName.cellMenu` => 'cellMenu', `ExtensionName.draggableGrouping` => 'draggableGrouping') */
 export enum ExtensionName {
+  ariaAnnouncer = 'ariaAnnouncer',
   autoTooltip = 'autoTooltip',
   cellExternalCopyManager = 'cellExternalCopyManager',
   cellMenu = 'cellMenu',
+  changeIndicator = 'changeIndicator',
   checkboxSelector = 'checkboxSelector',
   columnPicker = 'columnPicker',
+  conditionalFormatting = 'conditionalFormatting',
   contextMenu = 'contextMenu',
   customTooltip = 'customTooltip',
   draggableGrouping = 'draggableGrouping',
+  fillHandle = 'fillHandle',
   groupItemMetaProvider = 'groupItemMetaProvider',
   gridMenu = 'gridMenu',
   headerButton = 'headerButton',
   headerMenu = 'headerMenu',
   hybridSelection = 'hybridSelection',
+  pivot = 'pivot',
   rowBasedEdit = 'rowBasedEdit',
   rowDetailView = 'rowDetailView',
   rowMoveManager = 'rowMoveManager',
@@ -20,19 +25,24 @@ export enum ExtensionName {
 
 /** List of available SlickGrid Extensions (Controls & Plugins) */
 export type ExtensionNameTypeString =
+  | 'ariaAnnouncer'
   | 'autoTooltip'
   | 'cellExternalCopyManager'
   | 'cellMenu'
+  | 'changeIndicator'
   | 'checkboxSelector'
   | 'columnPicker'
+  | 'conditionalFormatting'
   | 'contextMenu'
   | 'customTooltip'
   | 'draggableGrouping'
+  | 'fillHandle'
   | 'groupItemMetaProvider'
   | 'gridMenu'
   | 'headerButton'
   | 'headerMenu'
   | 'hybridSelection'
+  | 'pivot'
   | 'rowBasedEdit'
   | 'rowDetailView'
   | 'rowMoveManager';
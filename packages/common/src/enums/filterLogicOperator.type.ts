@@ -0,0 +1,2 @@
+/** Logical operator used to combine the conditions of a Filter Expression group */
+export type FilterLogicOperator = 'and' | 'or';
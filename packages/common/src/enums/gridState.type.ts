@@ -2,14 +2,22 @@
 export type GridStateType =
   /** List of Current Visible Columns in the grid, including these props (`columnId`, `cssClass`, `headerCssClass`, `width`) */
   | 'columns'
+  /** List of Current Conditional Formatting rules per column including these props (`columnId`, `rules`) */
+  | 'conditionalFormatting'
   /** List of Current Filters including these props (`columnId`, `operator`, `searchTerms`, `targetSelector`, `verbatimSearchTerms`) */
   | 'filter'
+  /** Current Filter Expression (nested AND/OR/NOT groups of conditions) including these props (`logic`, `not`, `conditions`) */
+  | 'filterExpression'
+  /** Current Global Search including these props (`searchTerm`, `options`) */
+  | 'globalSearch'
   /** List of Current Grouping column IDs. NOTE: Grid Presets for Grouping is only available when using `DraggableGrouping` */
   | 'grouping'
   /** List of Current Pagination including these props (`pageNumber`, `pageSize`) */
   | 'pagination'
-  /** List of Current Pinning including these props (`frozenBottom`, `frozenColumn`, `frozenRow`) */
+  /** List of Current Pinning including these props (`frozenBottom`, `frozenColumn`, `frozenRightColumn`, `frozenRow`) */
   | 'pinning'
+  /** Current Pivot configuration including these props (`rows`, `columns`, `values`) */
+  | 'pivot'
   /** List of Current Row Selections including these props (`gridRowIndexes`, `dataContextIds`, `filteredDataContextIds`) */
   | 'rowSelection'
   /** List of Current Sorted Columns including these props (`columnId`, `direction`) */
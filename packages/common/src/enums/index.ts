@@ -7,6 +7,7 @@ export type * from './extensionList.type.js';
 export * from './extensionName.enum.js';
 export * from './field.type.js';
 export * from './file.type.js';
+export type * from './filterLogicOperator.type.js';
 export type * from './filterMultiplePass.type.js';
 export * from './gridState.type.js';
 export type * from './infer.type.js';
@@ -1,71 +1,91 @@
 import type { SlickEditorLock } from '../core/index.js';
 import type { ExtensionName, ExtensionNameTypeString } from '../enums/index.js';
 import type {
+  SlickAriaAnnouncer,
   SlickAutoTooltip,
   SlickCellExcelCopyManager,
   SlickCellExternalCopyManager,
   SlickCellMenu,
   SlickCellRangeDecorator,
   SlickCellRangeSelector,
+  SlickChangeIndicator,
   SlickCheckboxSelectColumn,
   SlickColumnPicker,
+  SlickConditionalFormatting,
   SlickContextMenu,
   SlickDraggableGrouping,
+  SlickFillHandle,
   SlickGridMenu,
   SlickGroupItemMetadataProvider,
   SlickHeaderButtons,
   SlickHeaderMenu,
   SlickHybridSelectionModel,
+  SlickPivot,
   SlickRowBasedEdit,
   SlickRowMoveManager,
 } from '../extensions/index.js';
 import type { SlickRowDetailView } from '../interfaces/index.js';
 
 export type SlickPluginList =
+  | SlickAriaAnnouncer
   | SlickAutoTooltip
   | SlickCellExcelCopyManager
   | SlickCellExternalCopyManager
   | SlickCellMenu
   | SlickCellRangeDecorator
   | SlickCellRangeSelector
+  | SlickChangeIndicator
   | SlickCheckboxSelectColumn
+  | SlickConditionalFormatting
   | SlickContextMenu
   | SlickDraggableGrouping
   | SlickEditorLock
+  | SlickFillHandle
   | SlickGroupItemMetadataProvider
   | SlickHeaderButtons
   | SlickHeaderMenu
   | SlickHybridSelectionModel
+  | SlickPivot
   | SlickRowBasedEdit
   | SlickRowDetailView
   | SlickRowMoveManager;
 
-export type InferExtensionByName<T extends ExtensionName | ExtensionNameTypeString> = T extends ExtensionName.autoTooltip
-  ? SlickAutoTooltip
-  : T extends ExtensionName.cellExternalCopyManager
-    ? SlickCellExcelCopyManager
-    : T extends ExtensionName.cellMenu
-      ? SlickCellMenu
-      : T extends ExtensionName.columnPicker
-        ? SlickColumnPicker
-        : T extends ExtensionName.contextMenu
-          ? SlickContextMenu
-          : T extends ExtensionName.draggableGrouping
-            ? SlickDraggableGrouping
-            : T extends ExtensionName.gridMenu
-              ? SlickGridMenu
-              : T extends ExtensionName.groupItemMetaProvider
-                ? SlickGroupItemMetadataProvider
-                : T extends ExtensionName.headerButton
-                  ? SlickHeaderButtons
-                  : T extends ExtensionName.headerMenu
-                    ? SlickHeaderMenu
-                    : T extends ExtensionName.hybridSelection
-                      ? SlickHybridSelectionModel
-                      : T extends ExtensionName.rowBasedEdit
-                        ? SlickRowBasedEdit
-                        : T extends ExtensionName.rowDetailView
-                          ? SlickRowDetailView
-                          : T extends ExtensionName.rowMoveManager
-                            ? SlickRowMoveManager
-                            : any;
+export type InferExtensionByName<T extends ExtensionName | ExtensionNameTypeString> = T extends ExtensionName.ariaAnnouncer
+  ? SlickAriaAnnouncer
+  : T extends ExtensionName.autoTooltip
+    ? SlickAutoTooltip
+    : T extends ExtensionName.cellExternalCopyManager
+      ? SlickCellExcelCopyManager
+      : T extends ExtensionName.cellMenu
+        ? SlickCellMenu
+        : T extends ExtensionName.changeIndicator
+          ? SlickChangeIndicator
+          : T extends ExtensionName.columnPicker
+            ? SlickColumnPicker
+            : T extends ExtensionName.conditionalFormatting
+              ? SlickConditionalFormatting
+              : T extends ExtensionName.contextMenu
+                ? SlickContextMenu
+                : T extends ExtensionName.draggableGrouping
+                  ? SlickDraggableGrouping
+                  : T extends ExtensionName.fillHandle
+                    ? SlickFillHandle
+                    : T extends ExtensionName.gridMenu
+                      ? SlickGridMenu
+                      : T extends ExtensionName.groupItemMetaProvider
+                        ? SlickGroupItemMetadataProvider
+                        : T extends ExtensionName.headerButton
+                          ? SlickHeaderButtons
+                          : T extends ExtensionName.headerMenu
+                            ? SlickHeaderMenu
+                            : T extends ExtensionName.hybridSelection
+                              ? SlickHybridSelectionModel
+                              : T extends ExtensionName.pivot
+                                ? SlickPivot
+                                : T extends ExtensionName.rowBasedEdit
+                                  ? SlickRowBasedEdit
+                                  : T extends ExtensionName.rowDetailView
+                                    ? SlickRowDetailView
+                                    : T extends ExtensionName.rowMoveManager
+                                      ? SlickRowMoveManager
+                                      : any;
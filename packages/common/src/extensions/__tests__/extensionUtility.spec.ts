@@ -6,6 +6,7 @@ import { SharedService } from '../../services/shared.service.js';
 import { ExtensionUtility } from '../extensionUtility.js';
 
 const backendUtilityServiceStub = {
+  clearCache: vi.fn(),
   executeBackendProcessesCallback: vi.fn(),
   executeBackendCallback: vi.fn(),
   onBackendError: vi.fn(),
@@ -62,8 +63,10 @@ describe('extensionUtility', () => {
       });
 
       it('should call refresh of backend when method is called', () => {
+        const clearCacheSpy = vi.spyOn(backendUtilityServiceStub, 'clearCache');
         const refreshSpy = vi.spyOn(backendUtilityServiceStub, 'refreshBackendDataset');
         utility.refreshBackendDataset();
+        expect(clearCacheSpy).toHaveBeenCalled();
         expect(refreshSpy).toHaveBeenCalledWith(gridOptionsMock);
       });
 
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SlickGrid } from '../../core/index.js';
+import { ExtensionUtility } from '../../extensions/extensionUtility.js';
+import type { Column, FilterExpressionGroup, GridOption } from '../../interfaces/index.js';
+import { BackendUtilityService, SharedService, type FilterService } from '../../services/index.js';
+import { SlickAdvancedFilterPanel } from '../slickAdvancedFilterPanel.js';
+
+const gridUid = 'slickgrid_124343';
+
+const filterServiceStub = {
+  getFilterExpression: vi.fn(),
+  setFilterExpression: vi.fn(),
+} as unknown as FilterService;
+
+const gridStub = {
+  getColumns: vi.fn(),
+  getUID: () => gridUid,
+} as unknown as SlickGrid;
+
+describe('SlickAdvancedFilterPanel', () => {
+  let panel: SlickAdvancedFilterPanel;
+  let extensionUtility: ExtensionUtility;
+  let sharedService: SharedService;
+  const columnsMock: Column[] = [
+    { id: 'firstName', field: 'firstName', name: 'First Name', filterable: true },
+    { id: 'age', field: 'age', name: 'Age', type: 'number', filterable: true },
+    { id: 'action', field: 'action', name: 'Action' },
+  ];
+  const gridOptionsMock = { enableFiltering: true } as GridOption;
+
+  beforeEach(() => {
+    sharedService = new SharedService();
+    extensionUtility = new ExtensionUtility(sharedService, new BackendUtilityService());
+    sharedService.slickGrid = gridStub;
+    vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+    vi.spyOn(SharedService.prototype, 'allColumns', 'get').mockReturnValue(columnsMock);
+    vi.spyOn(filterServiceStub, 'getFilterExpression').mockReturnValue(null);
+
+    panel = new SlickAdvancedFilterPanel(extensionUtility, filterServiceStub, sharedService);
+  });
+
+  afterEach(() => {
+    panel.dispose();
+    vi.clearAllMocks();
+  });
+
+  it('should create the panel with an empty root group, its title and footer buttons when opening it', () => {
+    const panelElm = panel.openPanel();
+
+    expect(document.body.querySelector('.slick-advanced-filter-panel')).toEqual(panelElm);
+    expect(panelElm.classList.contains(gridUid)).toBe(true);
+    expect(panelElm.querySelector('.slick-advanced-filter-title')!.textContent).toBe('Advanced Filter');
+    expect(panelElm.querySelectorAll('.slick-advanced-filter-group').length).toBe(1);
+    expect(panelElm.querySelectorAll('.slick-advanced-filter-condition').length).toBe(0);
+    expect(panelElm.querySelector('.btn-apply')!.textContent).toBe('Apply');
+    expect(panelElm.querySelector('.btn-clear')!.textContent).toBe('Clear all Filters');
+    expect(panel.filterExpression).toEqual({ logic: 'and', conditions: [] });
+  });
+
+  it('should render a copy of the Filter Expression already applied to the grid with only the filterable columns', () => {
+    const filterExpression: FilterExpressionGroup = {
+      logic: 'or',
+      conditions: [
+        { columnId: 'firstName', operator: 'a*', searchTerms: ['John'] },
+        { logic: 'and', not: true, conditions: [{ columnId: 'age', operator: '>', searchTerms: [20] }] },
+      ],
+    };
+    vi.spyOn(filterServiceStub, 'getFilterExpression').mockReturnValue(filterExpression);
+
+    const panelElm = panel.openPanel();
+    const conditionElms = panelElm.querySelectorAll<HTMLDivElement>('.slick-advanced-filter-condition');
+    const nestedGroupElm = panelElm.querySelector('.slick-advanced-filter-group.nested-group') as HTMLDivElement;
+
+    expect(panel.filterExpression).toEqual(filterExpression);
+    expect(panel.filterExpression).not.toBe(filterExpression);
+    expect(panelElm.querySelector<HTMLSelectElement>('.logic-select')!.value).toBe('or');
+    expect(nestedGroupElm.querySelector<HTMLInputElement>('input[type=checkbox]')!.checked).toBe(true);
+    expect(conditionElms.length).toBe(2);
+    expect(conditionElms[0].querySelectorAll('.column-select option').length).toBe(2);
+    expect(conditionElms[0].querySelector<HTMLSelectElement>('.operator-select')!.value).toBe('a*');
+    expect(conditionElms[0].querySelector<HTMLInputElement>('.search-term')!.value).toBe('John');
+    expect(conditionElms[1].querySelector<HTMLSelectElement>('.column-select')!.value).toBe('age');
+    expect(conditionElms[1].querySelector<HTMLSelectElement>('.operator-select')!.value).toBe('>');
+  });
+
+  it('should add conditions and nested groups, then remove them, when clicking on the associated buttons', () => {
+    const panelElm = panel.openPanel();
+
+    panelElm.querySelector<HTMLButtonElement>('.btn-add-condition')!.click();
+    panelElm.querySelector<HTMLButtonElement>('.btn-add-group')!.click();
+
+    expect(panel.filterExpression).toEqual({
+      logic: 'and',
+      conditions: [
+        { columnId: 'firstName', operator: '', searchTerms: [] },
+        { logic: 'and', conditions: [{ columnId: 'firstName', operator: '', searchTerms: [] }] },
+      ],
+    });
+    expect(panelElm.querySelectorAll('.slick-advanced-filter-condition').length).toBe(2);
+
+    panelElm.querySelector<HTMLButtonElement>('.nested-group .slick-advanced-filter-group-header .btn-remove')!.click();
+
+    expect(panel.filterExpression).toEqual({ logic: 'and', conditions: [{ columnId: 'firstName', operator: '', searchTerms: [] }] });
+    expect(panelElm.querySelectorAll('.slick-advanced-filter-group').length).toBe(1);
+  });
+
+  it('should update the Filter Expression when changing the group logic, the "not" checkbox and the condition inputs', () => {
+    vi.spyOn(filterServiceStub, 'getFilterExpression').mockReturnValue({
+      logic: 'and',
+      conditions: [{ columnId: 'firstName', operator: '', searchTerms: [] }],
+    });
+    const panelElm = panel.openPanel();
+
+    const logicSelectElm = panelElm.querySelector<HTMLSelectElement>('.logic-select')!;
+    logicSelectElm.value = 'or';
+    logicSelectElm.dispatchEvent(new Event('change', { bubbles: true }));
+    const notCheckboxElm = panelElm.querySelector<HTMLInputElement>('input[type=checkbox]')!;
+    notCheckboxElm.checked = true;
+    notCheckboxElm.dispatchEvent(new Event('change', { bubbles: true }));
+
+    // changing the column should reset the operator and re-render the operator list with numeric operators
+    const columnSelectElm = panelElm.querySelector<HTMLSelectElement>('.column-select')!;
+    columnSelectElm.value = 'age';
+    columnSelectElm.dispatchEvent(new Event('change', { bubbles: true }));
+    const operatorSelectElm = panelElm.querySelector<HTMLSelectElement>('.operator-select')!;
+    expect(Array.from(operatorSelectElm.options).some((option) => option.value === '>=')).toBe(true);
+
+    operatorSelectElm.value = '>=';
+    operatorSelectElm.dispatchEvent(new Event('change', { bubbles: true }));
+    const searchTermElm = panelElm.querySelector<HTMLInputElement>('.search-term')!;
+    searchTermElm.value = '30';
+    searchTermElm.dispatchEvent(new Event('input', { bubbles: true }));
+
+    expect(panel.filterExpression).toEqual({
+      logic: 'or',
+      not: true,
+      conditions: [{ columnId: 'age', operator: '>=', searchTerms: ['30'] }],
+    });
+  });
+
+  it('should call "setFilterExpression" without the incomplete conditions and empty groups and close the panel when clicking on "Apply"', () => {
+    vi.spyOn(filterServiceStub, 'getFilterExpression').mockReturnValue({
+      logic: 'or',
+      conditions: [
+        { columnId: 'firstName', operator: 'a*', searchTerms: ['John'] },
+        { columnId: 'age', operator: '', searchTerms: [] },
+        { logic: 'and', not: true, conditions: [{ columnId: 'age', operator: '', searchTerms: ['20'] }] },
+        { logic: 'and', conditions: [] },
+      ],
+    });
+    const setFilterSpy = vi.spyOn(filterServiceStub, 'setFilterExpression');
+    const panelElm = panel.openPanel();
+
+    panelElm.querySelector<HTMLButtonElement>('.btn-apply')!.click();
+
+    expect(setFilterSpy).toHaveBeenCalledWith({
+      logic: 'or',
+      conditions: [
+        { columnId: 'firstName', operator: 'a*', searchTerms: ['John'] },
+        { logic: 'and', not: true, conditions: [{ columnId: 'age', operator: undefined, searchTerms: ['20'] }] },
+      ],
+    });
+    expect(document.body.querySelector('.slick-advanced-filter-panel')).toBeFalsy();
+  });
+
+  it('should call "setFilterExpression" with null when applying a Filter Expression without any complete condition', () => {
+    const setFilterSpy = vi.spyOn(filterServiceStub, 'setFilterExpression');
+    const panelElm = panel.openPanel();
+
+    panelElm.querySelector<HTMLButtonElement>('.btn-add-condition')!.click();
+    panelElm.querySelector<HTMLButtonElement>('.btn-apply')!.click();
+
+    expect(setFilterSpy).toHaveBeenCalledWith(null);
+  });
+
+  it('should call "setFilterExpression" with null and close the panel when clicking on "Clear all Filters"', () => {
+    const setFilterSpy = vi.spyOn(filterServiceStub, 'setFilterExpression');
+    const panelElm = panel.openPanel();
+
+    panelElm.querySelector<HTMLButtonElement>('.btn-clear')!.click();
+
+    expect(setFilterSpy).toHaveBeenCalledWith(null);
+    expect(document.body.querySelector('.slick-advanced-filter-panel')).toBeFalsy();
+  });
+
+  it('should close the panel without applying anything when clicking on the close button', () => {
+    const setFilterSpy = vi.spyOn(filterServiceStub, 'setFilterExpression');
+    const panelElm = panel.openPanel();
+
+    panelElm.querySelector<HTMLButtonElement>('.close')!.click();
+
+    expect(setFilterSpy).not.toHaveBeenCalled();
+    expect(panel.panelElement).toBeNull();
+    expect(document.body.querySelector('.slick-advanced-filter-panel')).toBeFalsy();
+  });
+});
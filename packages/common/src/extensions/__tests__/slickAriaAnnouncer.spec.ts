@@ -0,0 +1,197 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SlickEvent, type SlickDataView, type SlickGrid } from '../../core/index.js';
+import type { Column, GridOption } from '../../interfaces/index.js';
+import { BackendUtilityService, SharedService } from '../../services/index.js';
+import { ExtensionUtility } from '../extensionUtility.js';
+import { SlickAriaAnnouncer } from '../slickAriaAnnouncer.js';
+
+let gridOptionsMock: GridOption;
+const pubSubHandlers: Record<string, (data?: any) => void> = {};
+
+const pubSubServiceStub = {
+  publish: vi.fn(),
+  subscribe: (eventName: string, callback: (data?: any) => void) => {
+    pubSubHandlers[eventName] = callback;
+    return { unsubscribe: vi.fn() };
+  },
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+} as unknown as BasePubSubService;
+
+const dataViewStub = {
+  getFilteredItemCount: vi.fn(),
+  getLength: vi.fn(),
+  onSetItemsCalled: new SlickEvent(),
+} as unknown as SlickDataView;
+
+const gridStub = {
+  getColumns: vi.fn(),
+  getContainerNode: vi.fn(),
+  getData: () => dataViewStub,
+  getViewport: vi.fn(),
+  onCellChange: new SlickEvent(),
+  onSelectedRowsChanged: new SlickEvent(),
+  onViewportChanged: new SlickEvent(),
+} as unknown as SlickGrid;
+
+describe('SlickAriaAnnouncer Plugin', () => {
+  let container: HTMLDivElement;
+  let gridContainer: HTMLDivElement;
+  let mockColumns: Column[];
+  let plugin: SlickAriaAnnouncer;
+  let sharedService: SharedService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    Object.keys(pubSubHandlers).forEach((eventName) => delete pubSubHandlers[eventName]);
+    gridOptionsMock = { enableAriaAnnouncer: true };
+    mockColumns = [
+      { id: 'title', name: 'Title', field: 'title' },
+      { id: 'duration', name: '<span class="bold">Duration</span>', field: 'duration' },
+    ];
+    container = document.createElement('div');
+    gridContainer = document.createElement('div');
+    container.appendChild(gridContainer);
+    document.body.appendChild(container);
+
+    sharedService = new SharedService();
+    sharedService.slickGrid = gridStub;
+    vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockImplementation(() => gridOptionsMock);
+    vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+    vi.spyOn(gridStub, 'getContainerNode').mockReturnValue(gridContainer);
+    const extensionUtility = new ExtensionUtility(sharedService, new BackendUtilityService());
+    plugin = new SlickAriaAnnouncer(extensionUtility, pubSubServiceStub, sharedService);
+  });
+
+  afterEach(() => {
+    plugin.dispose();
+    document.body.textContent = '';
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should create the plugin with default options and a live region right after the grid container', () => {
+    plugin.init(gridStub);
+
+    expect(plugin.eventHandler).toBeTruthy();
+    expect(plugin.addonOptions).toEqual({
+      announceCellChange: true,
+      announceFilterChange: true,
+      announceScroll: true,
+      announceSelectionChange: true,
+      announceSortChange: true,
+      delay: 500,
+      politeness: 'polite',
+    });
+    expect(gridContainer.nextElementSibling).toBe(plugin.liveRegionElement);
+    expect(plugin.liveRegionElement!.className).toBe('slick-aria-live-region');
+    expect(plugin.liveRegionElement!.getAttribute('aria-live')).toBe('polite');
+    expect(plugin.liveRegionElement!.getAttribute('aria-atomic')).toBe('true');
+  });
+
+  it('should use the politeness provided in the options and remove the live region when disposing the plugin', () => {
+    plugin.init(gridStub, { politeness: 'assertive' });
+    const liveRegionElm = plugin.liveRegionElement!;
+
+    expect(liveRegionElm.getAttribute('aria-live')).toBe('assertive');
+
+    plugin.dispose();
+
+    expect(liveRegionElm.isConnected).toBe(false);
+    expect(plugin.liveRegionElement).toBeUndefined();
+  });
+
+  it('should alternate a trailing space when announcing the same message twice so that it is announced again', () => {
+    plugin.init(gridStub);
+    plugin.announce('Hello');
+    expect(plugin.liveRegionElement!.textContent).toBe('Hello');
+
+    plugin.announce('Hello');
+    expect(plugin.liveRegionElement!.textContent).toBe('Hello\u00A0');
+
+    plugin.announce('Hello');
+    expect(plugin.liveRegionElement!.textContent).toBe('Hello');
+  });
+
+  it('should announce the sorted columns and their direction when the sorting changed and when it is cleared', () => {
+    plugin.init(gridStub);
+    pubSubHandlers['onSortChanged']([
+      { columnId: 'title', direction: 'ASC' },
+      { columnId: 'duration', direction: 'desc' },
+    ]);
+
+    expect(plugin.liveRegionElement!.textContent).toBe('Sorted by Title ascending, Duration descending');
+
+    pubSubHandlers['onSortCleared']();
+    expect(plugin.liveRegionElement!.textContent).toBe('Sorting removed');
+  });
+
+  it('should announce the filtered row count once the user stopped filtering for the delay provided', () => {
+    vi.spyOn(dataViewStub, 'getFilteredItemCount').mockReturnValue(12);
+    plugin.init(gridStub, { delay: 200 });
+    pubSubHandlers['onFilterChanged']();
+    vi.advanceTimersByTime(100);
+    pubSubHandlers['onGlobalSearchChanged']();
+    vi.advanceTimersByTime(100);
+
+    expect(plugin.liveRegionElement!.textContent).toBe('');
+
+    vi.advanceTimersByTime(100);
+    expect(plugin.liveRegionElement!.textContent).toBe('12 rows found');
+  });
+
+  it('should announce the total row count of a backend service only after the new data is loaded', () => {
+    gridOptionsMock = { ...gridOptionsMock, backendServiceApi: {} as any, pagination: { pageSize: 10, totalItems: 55 } };
+    plugin.init(gridStub);
+    pubSubHandlers['onFilterCleared']();
+    vi.advanceTimersByTime(500);
+
+    expect(plugin.liveRegionElement!.textContent).toBe('');
+
+    dataViewStub.onSetItemsCalled.notify({ idProperty: 'id', itemCount: 10 });
+    vi.advanceTimersByTime(500);
+    expect(plugin.liveRegionElement!.textContent).toBe('55 rows found');
+  });
+
+  it('should announce the column name of an edited cell and the number of selected rows', () => {
+    plugin.init(gridStub);
+    gridStub.onCellChange.notify({ row: 0, cell: 1, item: {}, column: mockColumns[1], grid: gridStub });
+    expect(plugin.liveRegionElement!.textContent).toBe('Duration updated');
+
+    gridStub.onSelectedRowsChanged.notify({ rows: [0, 2, 3], previousSelectedRows: [], changedSelectedRows: [], changedUnselectedRows: [], grid: gridStub });
+    expect(plugin.liveRegionElement!.textContent).toBe('3 rows selected');
+  });
+
+  it('should announce the rows visible in the viewport once the user stopped scrolling, but only when they changed', () => {
+    vi.spyOn(dataViewStub, 'getLength').mockReturnValue(100);
+    vi.spyOn(gridStub, 'getViewport').mockReturnValue({ top: 20, bottom: 40, leftPx: 0, rightPx: 0 });
+    plugin.init(gridStub);
+    gridStub.onViewportChanged.notify({ grid: gridStub });
+    vi.advanceTimersByTime(500);
+
+    expect(plugin.liveRegionElement!.textContent).toBe('Showing rows 21 to 40 of 100');
+
+    plugin.announce('something else');
+    gridStub.onViewportChanged.notify({ grid: gridStub });
+    vi.advanceTimersByTime(500);
+    expect(plugin.liveRegionElement!.textContent).toBe('something else');
+  });
+
+  it('should not announce anything when all the announcements are disabled', () => {
+    plugin.init(gridStub, {
+      announceCellChange: false,
+      announceFilterChange: false,
+      announceScroll: false,
+      announceSelectionChange: false,
+      announceSortChange: false,
+    });
+    gridStub.onCellChange.notify({ row: 0, cell: 1, item: {}, column: mockColumns[1], grid: gridStub });
+    gridStub.onSelectedRowsChanged.notify({ rows: [0], previousSelectedRows: [], changedSelectedRows: [], changedUnselectedRows: [], grid: gridStub });
+    gridStub.onViewportChanged.notify({ grid: gridStub });
+    vi.advanceTimersByTime(500);
+
+    expect(pubSubHandlers).toEqual({});
+    expect(plugin.liveRegionElement!.textContent).toBe('');
+  });
+});
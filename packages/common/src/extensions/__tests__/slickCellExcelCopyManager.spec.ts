@@ -283,6 +283,34 @@ describe('CellExcelCopyManager', () => {
 
       expect(spy).toHaveBeenCalled();
     });
+
+    it('should not call a undo when Ctrl+Z keyboard event occurs while "enableUndoRedo" is enabled since the UndoRedoService handles it', () => {
+      gridOptionsMock.enableUndoRedo = true;
+      plugin.init(gridStub);
+      const spy = vi.spyOn(queueCallback, 'undo');
+
+      plugin.undoRedoBuffer.queueAndExecuteCommand(queueCallback);
+      const body = window.document.body;
+      body.dispatchEvent(
+        new (window.window as any).KeyboardEvent('keydown', {
+          key: 'Z',
+          ctrlKey: true,
+          shiftKey: false,
+          bubbles: true,
+        })
+      );
+
+      expect(spy).not.toHaveBeenCalled();
+      gridOptionsMock.enableUndoRedo = false;
+    });
+
+    it('should be able to replace the undo redo buffer', () => {
+      const undoRedoBufferMock = { queueAndExecuteCommand: vi.fn(), undo: vi.fn(), redo: vi.fn() };
+      plugin.init(gridStub);
+      plugin.undoRedoBuffer = undoRedoBufferMock;
+
+      expect(plugin.undoRedoBuffer).toBe(undoRedoBufferMock);
+    });
   });
 
   describe('addonOptions callbacks', () => {
@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SlickEvent, SlickGroup, type SlickDataView, type SlickGrid } from '../../core/index.js';
+import type { Column, GridOption } from '../../interfaces/index.js';
+import { SharedService } from '../../services/shared.service.js';
+import { SlickChangeIndicator } from '../slickChangeIndicator.js';
+
+const gridOptionsMock = {
+  enableChangeIndicator: true,
+} as GridOption;
+
+const dataViewStub = {
+  getIdxById: vi.fn(),
+  getItem: vi.fn(),
+  getItemCount: vi.fn(),
+  getItems: vi.fn(),
+  getRowById: vi.fn(),
+  onRowCountChanged: new SlickEvent(),
+  onRowsChanged: new SlickEvent(),
+  onSetItemsCalled: new SlickEvent(),
+} as unknown as SlickDataView;
+
+const gridStub = {
+  getColumns: vi.fn(),
+  getData: () => dataViewStub,
+  getUID: () => 'slickgrid12345',
+  removeCellCssStyles: vi.fn(),
+  setCellCssStyles: vi.fn(),
+} as unknown as SlickGrid;
+
+describe('SlickChangeIndicator Plugin', () => {
+  let mockColumns: Column[];
+  let mockItems: any[];
+  let plugin: SlickChangeIndicator;
+  let sharedService: SharedService;
+
+  /** update items in place and notify the DataView rows changed, like the DataView does after an "updateItem" */
+  const updateItems = (changes: Array<{ row: number; values: any }>) => {
+    changes.forEach(({ row, values }) => Object.assign(mockItems[row], values));
+    dataViewStub.onRowsChanged.notify({
+      rows: changes.map((change) => change.row),
+      itemCount: mockItems.length,
+      dataView: dataViewStub,
+      calledOnRowCountChanged: false,
+    });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockColumns = [
+      { id: 'title', name: 'Title', field: 'title', changeIndicator: true },
+      { id: 'price', name: 'Price', field: 'price', type: 'number', changeIndicator: { showDeltaArrow: true } },
+      { id: 'description', name: 'Description', field: 'description' },
+    ];
+    mockItems = [
+      { id: 0, title: 'Task 0', price: 10, description: 'desc 0' },
+      { id: 1, title: 'Task 1', price: 20, description: 'desc 1' },
+      { id: 2, title: 'Task 2', price: 30, description: 'desc 2' },
+    ];
+    sharedService = new SharedService();
+    sharedService.slickGrid = gridStub;
+    vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+    vi.spyOn(gridStub, 'getColumns').mockImplementation(() => mockColumns);
+    vi.spyOn(dataViewStub, 'getItems').mockImplementation(() => mockItems);
+    vi.spyOn(dataViewStub, 'getItem').mockImplementation((row) => mockItems[row]);
+    vi.spyOn(dataViewStub, 'getRowById').mockImplementation((id) => mockItems.findIndex((item) => item.id === id));
+    vi.spyOn(dataViewStub, 'getIdxById').mockImplementation((id) => {
+      const idx = mockItems.findIndex((item) => item.id === id);
+      return idx >= 0 ? idx : undefined;
+    });
+    vi.spyOn(dataViewStub, 'getItemCount').mockImplementation(() => mockItems.length);
+    plugin = new SlickChangeIndicator(sharedService);
+  });
+
+  afterEach(() => {
+    plugin.dispose();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should create the plugin with default options', () => {
+    plugin.init(gridStub);
+
+    expect(plugin).toBeTruthy();
+    expect(plugin.eventHandler).toBeTruthy();
+    expect(plugin.addonOptions).toEqual({
+      arrowCssClass: 'change-indicator-arrow',
+      changedCssClass: 'change-indicator-changed',
+      downCssClass: 'change-indicator-down',
+      duration: 1000,
+      showDeltaArrow: false,
+      upCssClass: 'change-indicator-up',
+    });
+  });
+
+  it('should flash the numeric cells with the up/down CSS classes and the delta arrow when their values changed', () => {
+    plugin.init(gridStub);
+    updateItems([
+      { row: 0, values: { price: 15 } },
+      { row: 2, values: { price: 5 } },
+    ]);
+
+    expect(gridStub.setCellCssStyles).toHaveBeenCalledWith('change-indicator-slickgrid12345', {
+      0: { price: 'change-indicator-up change-indicator-arrow' },
+      2: { price: 'change-indicator-down change-indicator-arrow' },
+    });
+  });
+
+  it('should flash a non-numeric cell with the generic CSS class and never flash the columns without a change indicator', () => {
+    plugin.init(gridStub);
+    updateItems([{ row: 1, values: { title: 'Task 1b', description: 'new desc' } }]);
+
+    expect(gridStub.setCellCssStyles).toHaveBeenCalledWith('change-indicator-slickgrid12345', { 1: { title: 'change-indicator-changed' } });
+  });
+
+  it('should not flash anything when the rows changed but their values are the same (e.g. sorting or filtering)', () => {
+    plugin.init(gridStub);
+    updateItems([
+      { row: 0, values: { description: 'new desc' } },
+      { row: 1, values: {} },
+    ]);
+
+    expect(gridStub.setCellCssStyles).not.toHaveBeenCalled();
+  });
+
+  it('should use the grid options merged with the column options', () => {
+    plugin.init(gridStub, { upCssClass: 'price-up', duration: 500 });
+    mockColumns[1].changeIndicator = { showDeltaArrow: false, downCssClass: 'price-down' };
+    updateItems([
+      { row: 0, values: { price: 11 } },
+      { row: 1, values: { price: 19 } },
+    ]);
+
+    expect(gridStub.setCellCssStyles).toHaveBeenCalledWith('change-indicator-slickgrid12345', { 0: { price: 'price-up' }, 1: { price: 'price-down' } });
+  });
+
+  it('should remove the change indicators once their duration expired', () => {
+    plugin.init(gridStub);
+    updateItems([{ row: 0, values: { price: 11 } }]);
+    vi.advanceTimersByTime(500);
+    updateItems([{ row: 1, values: { title: 'Task 1b' } }]);
+
+    expect(gridStub.setCellCssStyles).toHaveBeenLastCalledWith('change-indicator-slickgrid12345', {
+      0: { price: 'change-indicator-up change-indicator-arrow' },
+      1: { title: 'change-indicator-changed' },
+    });
+
+    vi.advanceTimersByTime(500);
+    expect(gridStub.setCellCssStyles).toHaveBeenLastCalledWith('change-indicator-slickgrid12345', { 1: { title: 'change-indicator-changed' } });
+
+    vi.advanceTimersByTime(500);
+    expect(gridStub.setCellCssStyles).toHaveBeenLastCalledWith('change-indicator-slickgrid12345', {});
+  });
+
+  it('should keep the change indicator of a cell for the full duration when its value changed again before it expired', () => {
+    plugin.init(gridStub);
+    updateItems([{ row: 0, values: { price: 11 } }]);
+    vi.advanceTimersByTime(500);
+    updateItems([{ row: 0, values: { price: 9 } }]);
+    vi.advanceTimersByTime(500);
+
+    expect(gridStub.setCellCssStyles).toHaveBeenLastCalledWith('change-indicator-slickgrid12345', {
+      0: { price: 'change-indicator-down change-indicator-arrow' },
+    });
+
+    vi.advanceTimersByTime(500);
+    expect(gridStub.setCellCssStyles).toHaveBeenLastCalledWith('change-indicator-slickgrid12345', {});
+  });
+
+  it('should re-apply the change indicators on their new row when the rows moved', () => {
+    plugin.init(gridStub);
+    updateItems([{ row: 0, values: { price: 11 } }]);
+    mockItems.reverse();
+    updateItems([
+      { row: 0, values: {} },
+      { row: 2, values: {} },
+    ]);
+
+    expect(gridStub.setCellCssStyles).toHaveBeenLastCalledWith('change-indicator-slickgrid12345', {
+      2: { price: 'change-indicator-up change-indicator-arrow' },
+    });
+  });
+
+  it('should only take a new snapshot without flashing any cell when the dataset is replaced', () => {
+    plugin.init(gridStub);
+    updateItems([{ row: 0, values: { price: 11 } }]);
+    mockItems = [
+      { id: 0, title: 'Task 0', price: 99 },
+      { id: 1, title: 'Task 1', price: 20 },
+    ];
+    dataViewStub.onSetItemsCalled.notify({ idProperty: 'id', itemCount: mockItems.length });
+    vi.mocked(gridStub.setCellCssStyles).mockClear();
+    updateItems([{ row: 0, values: {} }]);
+
+    expect(gridStub.removeCellCssStyles).toHaveBeenCalledWith('change-indicator-slickgrid12345');
+    expect(gridStub.setCellCssStyles).not.toHaveBeenCalled();
+  });
+
+  it('should not flash the new items and the group rows', () => {
+    plugin.init(gridStub);
+    mockItems.push({ id: 3, title: 'Task 3', price: 40 }, new SlickGroup());
+    updateItems([
+      { row: 3, values: { price: 41 } },
+      { row: 4, values: {} },
+    ]);
+
+    expect(gridStub.setCellCssStyles).not.toHaveBeenCalled();
+  });
+
+  it('should remove the snapshot and the change indicators of the deleted items so that a new item with the same id is not flashed', () => {
+    plugin.init(gridStub);
+    updateItems([{ row: 1, values: { price: 21 } }]);
+    vi.clearAllMocks();
+
+    mockItems.splice(1, 1);
+    dataViewStub.onRowCountChanged.notify({ previous: 3, current: 2, itemCount: 2, dataView: dataViewStub, callingOnRowsChanged: false });
+    mockItems.push({ id: 1, title: 'Task 1', price: 99 });
+    updateItems([{ row: 2, values: {} }]);
+
+    expect(dataViewStub.getIdxById).toHaveBeenCalledWith(1);
+    expect(gridStub.setCellCssStyles).not.toHaveBeenCalled();
+  });
+
+  it('should not track anything when there are no columns with a change indicator', () => {
+    mockColumns.forEach((col) => delete col.changeIndicator);
+    plugin.init(gridStub);
+    updateItems([{ row: 0, values: { price: 11 } }]);
+
+    expect(gridStub.setCellCssStyles).not.toHaveBeenCalled();
+  });
+});
@@ -130,6 +130,8 @@ describe('SlickCheckboxSelectColumn Plugin', () => {
       hideSelectAllCheckbox: false,
       name: '',
       reorderable: false,
+      rowCheckboxAriaLabel: 'Select Row',
+      selectAllAriaLabel: 'Select All Rows',
       toolTip: 'Select/Deselect All',
       width: 30,
       hideInColumnTitleRow: false,
@@ -140,6 +142,18 @@ describe('SlickCheckboxSelectColumn Plugin', () => {
     expect(plugin.getOptions()).toEqual(expectedOptions);
   });
 
+  it('should create the checkboxes with an accessible label and a "mixed" checked state when the select all is partially checked', () => {
+    plugin.init(gridStub);
+    plugin.setOptions({ rowCheckboxAriaLabel: 'Select Task' });
+    const rowCheckbox = plugin.createCheckboxElement('selector1', true).querySelector('input') as HTMLInputElement;
+    const selectAllCheckbox = plugin.createCheckboxElement(`header-selector${plugin.selectAllUid}`, false, true).querySelector('input') as HTMLInputElement;
+
+    expect(rowCheckbox.getAttribute('aria-label')).toBe('Select Task');
+    expect(rowCheckbox.getAttribute('aria-checked')).toBe('true');
+    expect(selectAllCheckbox.getAttribute('aria-label')).toBe('Select All Rows');
+    expect(selectAllCheckbox.getAttribute('aria-checked')).toBe('mixed');
+  });
+
   it('should create the plugin and call "setOptions" and expect options changed and hide both Select All toggle when setting "hideSelectAllCheckbox: true"', () => {
     const updateColHeaderSpy = vi.spyOn(gridStub, 'updateColumnHeader');
 
@@ -155,6 +169,8 @@ describe('SlickCheckboxSelectColumn Plugin', () => {
       hideSelectAllCheckbox: true,
       name: '',
       reorderable: false,
+      rowCheckboxAriaLabel: 'Select Row',
+      selectAllAriaLabel: 'Select All Rows',
       toolTip: 'Select/Deselect All',
       width: 30,
       hideInColumnTitleRow: true,
@@ -490,7 +506,7 @@ describe('SlickCheckboxSelectColumn Plugin', () => {
       formatter: expect.any(Function),
     });
     expect(nameHtmlOutput).toBe(
-      `<label class="checkbox-selector-label selectall" for="header-selector${plugin.selectAllUid}"><div class="icon-checkbox-container"><input id="header-selector${plugin.selectAllUid}" type="checkbox" aria-checked="false" tabindex="-1"><div class="sgi sgi-icon-uncheck"></div></div></label>`
+      `<label class="checkbox-selector-label selectall" for="header-selector${plugin.selectAllUid}"><div class="icon-checkbox-container"><input id="header-selector${plugin.selectAllUid}" type="checkbox" aria-checked="false" aria-label="Select All Rows" tabindex="-1"><div class="sgi sgi-icon-uncheck"></div></div></label>`
     );
   });
 
@@ -558,7 +574,7 @@ describe('SlickCheckboxSelectColumn Plugin', () => {
     expect(plugin).toBeTruthy();
     expect(mockColumns[0]).toEqual(expect.objectContaining({ ...checkboxColumnMock, formatter: expect.any(Function) }));
     expect(nameHtmlOutput).toBe(
-      `<label class="checkbox-selector-label selectall" for="header-selector${plugin.selectAllUid}"><div class="icon-checkbox-container"><input id="header-selector${plugin.selectAllUid}" type="checkbox" aria-checked="false" tabindex="-1"><div class="sgi sgi-icon-uncheck"></div></div></label>`
+      `<label class="checkbox-selector-label selectall" for="header-selector${plugin.selectAllUid}"><div class="icon-checkbox-container"><input id="header-selector${plugin.selectAllUid}" type="checkbox" aria-checked="false" aria-label="Select All Rows" tabindex="-1"><div class="sgi sgi-icon-uncheck"></div></div></label>`
     );
   });
 
@@ -587,7 +603,7 @@ describe('SlickCheckboxSelectColumn Plugin', () => {
       maxWidth: 30,
     });
     expect(nameHtmlOutput).toBe(
-      `<label class="checkbox-selector-label selectall" for="header-selector${plugin.selectAllUid}"><div class="icon-checkbox-container"><input id="header-selector${plugin.selectAllUid}" type="checkbox" aria-checked="false" tabindex="-1"><div class="sgi sgi-icon-uncheck"></div></div></label>`
+      `<label class="checkbox-selector-label selectall" for="header-selector${plugin.selectAllUid}"><div class="icon-checkbox-container"><input id="header-selector${plugin.selectAllUid}" type="checkbox" aria-checked="false" aria-label="Select All Rows" tabindex="-1"><div class="sgi sgi-icon-uncheck"></div></div></label>`
     );
   });
 
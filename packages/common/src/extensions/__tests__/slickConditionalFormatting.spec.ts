@@ -0,0 +1,318 @@
+import { EventPubSubService } from '@slickgrid-universal/event-pub-sub';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranslateServiceStub } from '../../../../../test/translateServiceStub.js';
+import { SlickEvent, SlickEventData, SlickGroup, type SlickDataView, type SlickGrid } from '../../core/index.js';
+import { ExtensionUtility } from '../../extensions/extensionUtility.js';
+import type { Column, FormatterResultWithHtml, GridOption, ItemMetadata } from '../../interfaces/index.js';
+import { BackendUtilityService } from '../../services/backendUtility.service.js';
+import { SharedService } from '../../services/shared.service.js';
+import { SlickConditionalFormatting } from '../slickConditionalFormatting.js';
+
+const gridOptionsMock = {
+  enableConditionalFormatting: true,
+} as GridOption;
+
+const dataViewStub = {
+  getFilteredItems: vi.fn(),
+  getItem: vi.fn(),
+  getItemMetadata: vi.fn(),
+  getItems: vi.fn(),
+  onRowsOrCountChanged: new SlickEvent(),
+  onSetItemsCalled: new SlickEvent(),
+} as unknown as SlickDataView;
+
+const gridStub = {
+  getColumns: vi.fn(),
+  getData: () => dataViewStub,
+  getUID: () => 'slickgrid12345',
+  invalidate: vi.fn(),
+  onCellChange: new SlickEvent(),
+} as unknown as SlickGrid;
+
+const mockItems = [
+  { id: 0, title: 'Task 0', duration: 10 },
+  { id: 1, title: 'Task 1', duration: 20 },
+  { id: 2, title: 'Task 2', duration: 30 },
+  { id: 3, title: 'Task 3', duration: 40 },
+  { id: 4, title: 'Task 4', duration: 50 },
+];
+
+describe('SlickConditionalFormatting Plugin', () => {
+  let eventPubSubService: EventPubSubService;
+  let extensionUtility: ExtensionUtility;
+  let mockColumns: Column[];
+  let originalGetItemMetadata: any;
+  let plugin: SlickConditionalFormatting;
+  let sharedService: SharedService;
+
+  /** render a cell by calling the formatter returned by the (patched) DataView item metadata */
+  const renderCell = (row: number, columnId: string) => {
+    const columnDef = mockColumns.find((col) => col.id === columnId) as Column;
+    const meta = dataViewStub.getItemMetadata(row) as ItemMetadata;
+    const formatter = meta?.columns?.[columnId]?.formatter;
+    return formatter?.(row, 0, mockItems[row][columnDef.field as keyof (typeof mockItems)[0]], columnDef, mockItems[row], gridStub);
+  };
+
+  beforeEach(() => {
+    mockColumns = [
+      { id: 'title', name: 'Title', field: 'title' },
+      { id: 'duration', name: 'Duration', field: 'duration', type: 'number' },
+    ];
+    eventPubSubService = new EventPubSubService();
+    sharedService = new SharedService();
+    sharedService.slickGrid = gridStub;
+    sharedService.allColumns = mockColumns;
+    extensionUtility = new ExtensionUtility(sharedService, new BackendUtilityService(), new TranslateServiceStub());
+    vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+    vi.spyOn(gridStub, 'getColumns').mockImplementation(() => mockColumns);
+    vi.spyOn(dataViewStub, 'getFilteredItems').mockReturnValue(mockItems);
+    vi.spyOn(dataViewStub, 'getItem').mockImplementation((row) => mockItems[row]);
+    originalGetItemMetadata = vi.fn().mockReturnValue(null);
+    dataViewStub.getItemMetadata = originalGetItemMetadata;
+    plugin = new SlickConditionalFormatting(extensionUtility, eventPubSubService, sharedService);
+  });
+
+  afterEach(() => {
+    plugin.dispose();
+    gridOptionsMock.presets = undefined;
+    vi.clearAllMocks();
+  });
+
+  it('should create the plugin with default options', () => {
+    plugin.init(gridStub);
+
+    expect(plugin).toBeTruthy();
+    expect(plugin.eventHandler).toBeTruthy();
+    expect(plugin.addonOptions.colorScaleColors).toEqual(['#f8696b', '#ffeb84', '#63be7b']);
+    expect(plugin.addonOptions.iconSets?.arrows?.length).toBe(3);
+  });
+
+  it('should merge the icon sets provided by the user with the default icon sets', () => {
+    plugin.init(gridStub, { iconSets: { arrows: ['low', 'mid', 'high'] } });
+
+    expect(plugin.addonOptions.iconSets?.arrows).toEqual(['low', 'mid', 'high']);
+    expect(plugin.addonOptions.iconSets?.trafficLights?.length).toBe(3);
+  });
+
+  it('should not override any cell formatter when there are no rules', () => {
+    plugin.init(gridStub);
+
+    expect(dataViewStub.getItemMetadata(0)).toBeNull();
+    expect(originalGetItemMetadata).toHaveBeenCalledWith(0);
+  });
+
+  it('should not format group rows', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'dataBar' }];
+    vi.spyOn(dataViewStub, 'getItem').mockReturnValueOnce(new SlickGroup());
+    plugin.init(gridStub);
+
+    expect(dataViewStub.getItemMetadata(0)).toBeNull();
+  });
+
+  it('should highlight the cell when a "cellValue" rule is matching and keep the original cell value', () => {
+    mockColumns[1].conditionalFormatting = [
+      { type: 'cellValue', operator: '>', searchTerms: [30], style: { backgroundColor: '#ffc7ce', color: '#9c0006', bold: true, cssClass: 'high' } },
+    ];
+    plugin.init(gridStub);
+
+    const output = renderCell(3, 'duration') as FormatterResultWithHtml;
+    const contentElm = output.html as HTMLDivElement;
+
+    expect(output.addClasses).toBe('slick-cf-cell high');
+    expect(contentElm.className).toBe('slick-cf-content');
+    expect(contentElm.style.backgroundColor).toBe('rgb(255, 199, 206)');
+    expect(contentElm.style.color).toBe('rgb(156, 0, 6)');
+    expect(contentElm.style.fontWeight).toBe('bold');
+    expect(contentElm.querySelector('.slick-cf-value')?.textContent).toBe('40');
+    expect(renderCell(1, 'duration')).toBe(20);
+  });
+
+  it('should keep the style of the first matching rule when multiple rules are matching', () => {
+    mockColumns[1].conditionalFormatting = [
+      { type: 'cellValue', operator: '>=', searchTerms: [40], style: { color: '#ff0000' } },
+      { type: 'aboveAverage', style: { color: '#00ff00', italic: true } },
+    ];
+    plugin.init(gridStub);
+
+    const contentElm = (renderCell(4, 'duration') as FormatterResultWithHtml).html as HTMLDivElement;
+
+    expect(contentElm.style.color).toBe('rgb(255, 0, 0)');
+    expect(contentElm.style.fontStyle).toBe('italic');
+  });
+
+  it('should stop evaluating the next rules when a matching rule has "stopIfTrue" enabled', () => {
+    mockColumns[1].conditionalFormatting = [
+      { type: 'cellValue', operator: 'RangeInclusive', searchTerms: [40, 50], style: { color: '#ff0000' }, stopIfTrue: true },
+      { type: 'aboveAverage', style: { italic: true } },
+    ];
+    plugin.init(gridStub);
+
+    const contentElm = (renderCell(4, 'duration') as FormatterResultWithHtml).html as HTMLDivElement;
+
+    expect(contentElm.style.color).toBe('rgb(255, 0, 0)');
+    expect(contentElm.style.fontStyle).toBe('');
+  });
+
+  it('should interpolate the cell background color when using a "colorScale" rule', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'colorScale', colors: ['#000000', '#ffffff'] }];
+    plugin.init(gridStub);
+
+    expect(((renderCell(0, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).style.backgroundColor).toBe('rgb(0, 0, 0)');
+    expect(((renderCell(2, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).style.backgroundColor).toBe('rgb(128, 128, 128)');
+    expect(((renderCell(4, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).style.backgroundColor).toBe('rgb(255, 255, 255)');
+  });
+
+  it('should use the default 3 colors scale when the "colorScale" rule has no colors', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'colorScale' }];
+    plugin.init(gridStub);
+
+    expect(((renderCell(2, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).style.backgroundColor).toBe('rgb(255, 235, 132)');
+  });
+
+  it('should add a data bar proportional to the cell value and optionally hide the value when using a "dataBar" rule', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'dataBar', colors: ['#ff0000'], showValue: false }];
+    plugin.init(gridStub);
+
+    const contentElm = (renderCell(2, 'duration') as FormatterResultWithHtml).html as HTMLDivElement;
+    const dataBarElm = contentElm.querySelector<HTMLSpanElement>('.slick-cf-data-bar');
+
+    expect(dataBarElm?.style.width).toBe('60%');
+    expect(dataBarElm?.style.backgroundColor).toBe('rgb(255, 0, 0)');
+    expect(contentElm.querySelector('.slick-cf-value')).toBeNull();
+  });
+
+  it('should add an icon by the position of the cell value in the column values range when using an "iconSet" rule', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'iconSet', iconSet: 'trafficLights' }];
+    plugin.init(gridStub);
+
+    const lowIconElm = ((renderCell(0, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).querySelector('.slick-cf-icon');
+    const midIconElm = ((renderCell(2, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).querySelector('.slick-cf-icon');
+    const highIconElm = ((renderCell(4, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).querySelector('.slick-cf-icon');
+
+    expect(lowIconElm?.className).toBe('slick-cf-icon mdi mdi-circle color-danger');
+    expect(midIconElm?.className).toBe('slick-cf-icon mdi mdi-circle color-warning');
+    expect(highIconElm?.className).toBe('slick-cf-icon mdi mdi-circle color-success');
+  });
+
+  it('should highlight the top and bottom N values when using "topN" and "bottomN" rules', () => {
+    mockColumns[1].conditionalFormatting = [
+      { type: 'topN', rank: 2, style: { color: '#00ff00' } },
+      { type: 'bottomN', rank: 20, percent: true, style: { color: '#ff0000' } },
+    ];
+    plugin.init(gridStub);
+
+    expect(((renderCell(4, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).style.color).toBe('rgb(0, 255, 0)');
+    expect(((renderCell(3, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).style.color).toBe('rgb(0, 255, 0)');
+    expect(renderCell(2, 'duration')).toBe(30);
+    expect(((renderCell(0, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).style.color).toBe('rgb(255, 0, 0)');
+  });
+
+  it('should highlight the values below the average when using a "belowAverage" rule', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'belowAverage', style: { color: '#ff0000' } }];
+    plugin.init(gridStub);
+
+    expect(((renderCell(1, 'duration') as FormatterResultWithHtml).html as HTMLDivElement).style.color).toBe('rgb(255, 0, 0)');
+    expect(renderCell(2, 'duration')).toBe(30);
+  });
+
+  it('should wrap the original column formatter output when it is a formatter result object', () => {
+    mockColumns[1].formatter = (_row, _cell, value) => ({ text: `${value} days`, addClasses: 'bold' });
+    mockColumns[1].conditionalFormatting = [{ type: 'iconSet' }];
+    plugin.init(gridStub);
+
+    const output = renderCell(4, 'duration') as FormatterResultWithHtml;
+
+    expect(output.addClasses).toBe('bold slick-cf-cell');
+    expect((output.html as HTMLDivElement).querySelector('.slick-cf-value')?.textContent).toBe('50 days');
+  });
+
+  it('should recalculate the statistics and re-render the grid when the data changed and there are statistical rules', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'dataBar' }];
+    plugin.init(gridStub);
+    const statsBefore = plugin.getColumnStatistics(mockColumns[1]);
+
+    dataViewStub.onRowsOrCountChanged.notify({} as any, new SlickEventData(), dataViewStub);
+    const statsAfter = plugin.getColumnStatistics(mockColumns[1]);
+
+    expect(gridStub.invalidate).toHaveBeenCalled();
+    expect(statsBefore).toEqual({ min: 10, max: 50, average: 30, sortedValues: [10, 20, 30, 40, 50] });
+    expect(statsAfter).not.toBe(statsBefore);
+  });
+
+  it('should add, replace and clear column rules and trigger "onConditionalFormattingChanged" event', () => {
+    const changeSpy = vi.fn();
+    plugin.init(gridStub);
+    plugin.onConditionalFormattingChanged.subscribe(changeSpy);
+
+    plugin.addColumnRule('duration', { type: 'dataBar' });
+    plugin.addColumnRule('duration', { type: 'dataBar', colors: ['#ff0000'] });
+    plugin.addColumnRule('duration', { type: 'cellValue', operator: '>', searchTerms: [10] });
+
+    expect(plugin.getColumnRules('duration')).toEqual([
+      { type: 'dataBar', colors: ['#ff0000'] },
+      { type: 'cellValue', operator: '>', searchTerms: [10] },
+    ]);
+    expect(changeSpy).toHaveBeenLastCalledWith(expect.anything(), {
+      caller: 'conditionalFormatting',
+      conditionalFormatting: [{ columnId: 'duration', rules: plugin.getColumnRules('duration') }],
+    });
+
+    plugin.clearColumnRules('duration');
+    expect(plugin.getColumnRules('duration')).toEqual([]);
+    expect(mockColumns[1].conditionalFormatting).toBeUndefined();
+  });
+
+  it('should clear all rules of every column', () => {
+    mockColumns[0].conditionalFormatting = [{ type: 'cellValue', operator: 'Contains', searchTerms: ['Task'] }];
+    mockColumns[1].conditionalFormatting = [{ type: 'dataBar' }];
+    plugin.init(gridStub);
+
+    plugin.clearAllRules();
+
+    expect(plugin.getCurrentConditionalFormatting()).toEqual([]);
+    expect(gridStub.invalidate).toHaveBeenCalled();
+  });
+
+  it('should return the current conditional formatting of every column that has rules', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'colorScale' }];
+    plugin.init(gridStub);
+
+    expect(plugin.getCurrentConditionalFormatting()).toEqual([{ columnId: 'duration', rules: [{ type: 'colorScale' }] }]);
+  });
+
+  it('should apply the Grid State presets and replace the rules defined in the column definitions', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'colorScale' }];
+    gridOptionsMock.presets = { conditionalFormatting: [{ columnId: 'title', rules: [{ type: 'cellValue', operator: 'EQ', searchTerms: ['Task 1'] }] }] };
+    const pubSubSpy = vi.spyOn(eventPubSubService, 'publish');
+    plugin.init(gridStub);
+
+    expect(mockColumns[1].conditionalFormatting).toBeUndefined();
+    expect(plugin.getCurrentConditionalFormatting()).toEqual([{ columnId: 'title', rules: [{ type: 'cellValue', operator: 'EQ', searchTerms: ['Task 1'] }] }]);
+    expect(pubSubSpy).not.toHaveBeenCalledWith('onConditionalFormattingChanged', expect.anything());
+  });
+
+  it.each([
+    ['color-scale', { type: 'colorScale' }],
+    ['data-bar', { type: 'dataBar' }],
+    ['icon-set', { type: 'iconSet', iconSet: 'arrows' }],
+    ['top-10-items', { type: 'topN', rank: 10, style: { backgroundColor: '#ffc7ce', color: '#9c0006' } }],
+    ['bottom-10-items', { type: 'bottomN', rank: 10, style: { backgroundColor: '#ffc7ce', color: '#9c0006' } }],
+    ['above-average', { type: 'aboveAverage', style: { backgroundColor: '#ffc7ce', color: '#9c0006' } }],
+    ['below-average', { type: 'belowAverage', style: { backgroundColor: '#ffc7ce', color: '#9c0006' } }],
+  ])('should add a rule when the Header Menu "%s" command is executed', (command, expectedRule) => {
+    plugin.init(gridStub);
+
+    eventPubSubService.publish('onHeaderMenuConditionalFormatting', { columnId: 'duration', command });
+
+    expect(plugin.getColumnRules('duration')).toEqual([expectedRule]);
+  });
+
+  it('should clear the column rules when the Header Menu "clear-conditional-formatting" command is executed', () => {
+    mockColumns[1].conditionalFormatting = [{ type: 'colorScale' }];
+    plugin.init(gridStub);
+
+    eventPubSubService.publish('onHeaderMenuConditionalFormatting', { columnId: 'duration', command: 'clear-conditional-formatting' });
+
+    expect(plugin.getColumnRules('duration')).toEqual([]);
+  });
+});
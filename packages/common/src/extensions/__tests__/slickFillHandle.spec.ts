@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SlickEvent, SlickEventData, SlickRange, type SlickGrid } from '../../core/index.js';
+import { Editors } from '../../editors/index.js';
+import type { Column, EditCommand, GridOption } from '../../interfaces/index.js';
+import { SlickFillHandle } from '../slickFillHandle.js';
+
+const gridOptionsMock = { editable: true } as GridOption;
+
+const mockColumns = [
+  { id: 'title', field: 'title', editor: { model: Editors.text } },
+  { id: 'duration', field: 'duration', editor: { model: Editors.float } },
+  { id: 'start', field: 'start', type: 'dateIso', editor: { model: Editors.date } },
+  { id: 'finish', field: 'finish', editor: { model: Editors.date } },
+  { id: 'percent', field: 'percent', editor: { model: Editors.integer } },
+  { id: 'readonly', field: 'readonly' },
+] as Column[];
+
+let mockItems: any[] = [];
+
+const gridStub = {
+  getColumns: vi.fn(),
+  getDataItem: vi.fn(),
+  getOptions: vi.fn(),
+  getPubSubService: vi.fn(),
+  invalidate: vi.fn(),
+  updateCell: vi.fn(),
+  onCellChange: new SlickEvent(),
+  onDragReplaceCells: new SlickEvent(),
+} as unknown as SlickGrid;
+
+describe('SlickFillHandle Plugin', () => {
+  let plugin: SlickFillHandle;
+
+  beforeEach(() => {
+    mockItems = [
+      { id: 0, title: 'Task 0', duration: 1, start: '2025-01-31', finish: new Date(2025, 0, 1), percent: 10, readonly: 'a' },
+      { id: 1, title: 'Task 1', duration: 2, start: '2025-02-28', finish: new Date(2025, 0, 8), percent: 20, readonly: 'b' },
+      { id: 2, title: 'Task 2', duration: 3, start: '2025-03-31', finish: new Date(2025, 0, 15), percent: 30, readonly: 'c' },
+      { id: 3, title: 'Task 3', duration: 4, start: '', finish: null, percent: 40, readonly: 'd' },
+      { id: 4, title: 'Task 4', duration: 5, start: '', finish: null, percent: 50, readonly: 'e' },
+    ];
+    vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+    vi.spyOn(gridStub, 'getDataItem').mockImplementation((row: number) => mockItems[row]);
+    vi.spyOn(gridStub, 'getOptions').mockReturnValue(gridOptionsMock);
+    plugin = new SlickFillHandle();
+    plugin.init(gridStub);
+  });
+
+  afterEach(() => {
+    plugin.destroy();
+    gridOptionsMock.editCommandHandler = undefined;
+    vi.clearAllMocks();
+  });
+
+  it('should create the plugin with default options', () => {
+    expect(plugin).toBeTruthy();
+    expect(plugin.eventHandler).toBeTruthy();
+    expect(plugin.pluginName).toBe('FillHandle');
+    expect(plugin.addonOptions).toEqual({ fillSeries: 'auto', fillNonEditableColumns: false });
+  });
+
+  it('should copy a single source value to all target cells when dragging the fill handle down', () => {
+    const cellChangeSpy = vi.spyOn(gridStub.onCellChange, 'notify');
+
+    gridStub.onDragReplaceCells.notify(
+      { prevSelectedRange: new SlickRange(0, 0), selectedRange: new SlickRange(0, 0, 2, 0), copyToRange: new SlickRange(1, 0, 2, 0) } as any,
+      new SlickEventData()
+    );
+
+    expect(mockItems.map((item) => item.title)).toEqual(['Task 0', 'Task 0', 'Task 0', 'Task 3', 'Task 4']);
+    expect(gridStub.updateCell).toHaveBeenCalledWith(1, 0);
+    expect(gridStub.updateCell).toHaveBeenCalledWith(2, 0);
+    expect(cellChangeSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fill a linear series of numbers and keep the number of decimals', () => {
+    mockItems[0].duration = 1.5;
+    mockItems[1].duration = 1.75;
+
+    const changes = plugin.fillCells(new SlickRange(0, 1, 1, 1), new SlickRange(0, 1, 4, 1));
+
+    expect(changes.length).toBe(3);
+    expect(mockItems.map((item) => item.duration)).toEqual([1.5, 1.75, 2, 2.25, 2.5]);
+  });
+
+  it('should fill a linear series upward when dragging the fill handle up', () => {
+    mockItems[3].duration = 10;
+    mockItems[4].duration = 20;
+
+    plugin.fillCells(new SlickRange(3, 1, 4, 1), new SlickRange(1, 1, 4, 1));
+
+    expect(mockItems.map((item) => item.duration)).toEqual([1, -10, 0, 10, 20]);
+  });
+
+  it('should fill a date series in days when source values are Date objects', () => {
+    plugin.fillCells(new SlickRange(0, 3, 1, 3), new SlickRange(0, 3, 4, 3));
+
+    expect(mockItems.map((item) => item.finish)).toEqual([
+      new Date(2025, 0, 1),
+      new Date(2025, 0, 8),
+      new Date(2025, 0, 15),
+      new Date(2025, 0, 22),
+      new Date(2025, 0, 29),
+    ]);
+  });
+
+  it('should fill a date series by 1 day when a single date is used with a "date" fill series', () => {
+    plugin.init(gridStub, { fillSeries: 'date' });
+
+    plugin.fillCells(new SlickRange(0, 3), new SlickRange(0, 3, 2, 3));
+
+    expect(mockItems.slice(0, 3).map((item) => item.finish)).toEqual([new Date(2025, 0, 1), new Date(2025, 0, 2), new Date(2025, 0, 3)]);
+  });
+
+  it('should fill a date series in months and clamp the day to the end of the month when source values are date strings', () => {
+    mockItems[1].start = '2025-03-31';
+
+    plugin.fillCells(new SlickRange(0, 2, 1, 2), new SlickRange(0, 2, 4, 2));
+
+    expect(mockItems.map((item) => item.start)).toEqual(['2025-01-31', '2025-03-31', '2025-05-31', '2025-07-31', '2025-09-30']);
+  });
+
+  it('should repeat the source values as a pattern when they are not a series', () => {
+    mockItems[0].percent = 10;
+    mockItems[1].percent = 30;
+    mockItems[2].percent = 20;
+
+    plugin.fillCells(new SlickRange(0, 4, 2, 4), new SlickRange(0, 4, 4, 4));
+
+    expect(mockItems.map((item) => item.percent)).toEqual([10, 30, 20, 10, 30]);
+  });
+
+  it('should repeat the source values when "fillSeries" is set to "copy" even when they are a linear series', () => {
+    plugin.init(gridStub, { fillSeries: 'copy' });
+
+    plugin.fillCells(new SlickRange(0, 1, 1, 1), new SlickRange(0, 1, 4, 1));
+
+    expect(mockItems.map((item) => item.duration)).toEqual([1, 2, 1, 2, 1]);
+  });
+
+  it('should fill horizontally to the right by using each row as a series and skip non-editable columns', () => {
+    mockItems[0].duration = 1;
+    mockItems[0].start = 2 as any;
+
+    plugin.fillCells(new SlickRange(0, 1, 0, 2), new SlickRange(0, 1, 0, 5));
+
+    expect(mockItems[0]).toEqual(expect.objectContaining({ duration: 1, start: 2, finish: 3, percent: 4, readonly: 'a' }));
+  });
+
+  it('should fill non-editable columns when "fillNonEditableColumns" is enabled but never fill a column with "denyPaste"', () => {
+    plugin.init(gridStub, { fillNonEditableColumns: true });
+    mockColumns[0].denyPaste = true;
+
+    plugin.fillCells(new SlickRange(0, 5), new SlickRange(0, 5, 2, 5));
+    plugin.fillCells(new SlickRange(0, 0), new SlickRange(0, 0, 2, 0));
+
+    expect(mockItems.map((item) => item.readonly)).toEqual(['a', 'a', 'a', 'd', 'e']);
+    expect(mockItems.map((item) => item.title)).toEqual(['Task 0', 'Task 1', 'Task 2', 'Task 3', 'Task 4']);
+    mockColumns[0].denyPaste = false;
+  });
+
+  it('should skip the cells with an invalid value and return them as validation errors in the "onFillCells" event', () => {
+    const onFillCellsMock = vi.fn();
+    plugin.init(gridStub, { onFillCells: onFillCellsMock });
+    const onFillCellsSpy = vi.spyOn(plugin.onFillCells, 'notify');
+    mockColumns[4].editor!.validator = (value: number) => (value > 40 ? { valid: false, msg: 'Must be lower than 40' } : { valid: true, msg: '' });
+
+    plugin.fillCells(new SlickRange(0, 4, 1, 4), new SlickRange(0, 4, 4, 4));
+
+    expect(mockItems.map((item) => item.percent)).toEqual([10, 20, 30, 40, 50]);
+    expect(onFillCellsSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        changes: [expect.objectContaining({ row: 2, cell: 4, previousValue: 30, value: 30 }), expect.objectContaining({ row: 3, cell: 4, value: 40 })],
+        validationErrors: [expect.objectContaining({ row: 4, cell: 4, value: 50, validationResults: { valid: false, msg: 'Must be lower than 40' } })],
+      })
+    );
+    expect(onFillCellsMock).toHaveBeenCalled();
+    delete mockColumns[4].editor!.validator;
+  });
+
+  it('should not fill any cells when "onBeforeFillCells" returns false', () => {
+    const onBeforeFillCellsMock = vi.fn().mockReturnValue(false);
+    plugin.init(gridStub, { onBeforeFillCells: onBeforeFillCellsMock });
+
+    const changes = plugin.fillCells(new SlickRange(0, 0), new SlickRange(0, 0, 2, 0));
+
+    expect(changes).toEqual([]);
+    expect(onBeforeFillCellsMock).toHaveBeenCalledWith(expect.any(SlickEventData), {
+      sourceRange: expect.any(SlickRange),
+      targetRange: expect.any(SlickRange),
+    });
+    expect(mockItems.map((item) => item.title)).toEqual(['Task 0', 'Task 1', 'Task 2', 'Task 3', 'Task 4']);
+  });
+
+  it('should commit all changes as a single command through the "editCommandHandler" and be able to undo them', () => {
+    let editCommand: EditCommand | undefined;
+    gridOptionsMock.editCommandHandler = vi.fn().mockImplementation((_item, _column, command: EditCommand) => {
+      editCommand = command;
+      command.execute();
+    });
+    mockItems[2].duration = 0;
+    mockItems[3].duration = 0;
+
+    plugin.fillCells(new SlickRange(0, 1, 1, 1), new SlickRange(0, 1, 3, 1));
+
+    expect(gridOptionsMock.editCommandHandler).toHaveBeenCalledTimes(1);
+    expect(gridOptionsMock.editCommandHandler).toHaveBeenCalledWith(mockItems[2], mockColumns[1], expect.any(Object));
+    expect(editCommand).toEqual(expect.objectContaining({ row: 2, cell: 1, serializedValue: [3, 4], prevSerializedValue: [0, 0] }));
+
+    mockItems[2].duration = 30;
+    editCommand!.execute();
+    expect(mockItems.map((item) => item.duration)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should restore the previous values when calling the command undo', () => {
+    let editCommand: EditCommand | undefined;
+    gridOptionsMock.editCommandHandler = vi.fn().mockImplementation((_item, _column, command: EditCommand) => {
+      editCommand = command;
+      command.execute();
+    });
+
+    plugin.fillCells(new SlickRange(0, 0), new SlickRange(0, 0, 3, 0));
+    expect(mockItems.map((item) => item.title)).toEqual(['Task 0', 'Task 0', 'Task 0', 'Task 0', 'Task 4']);
+
+    editCommand!.undo();
+    expect(mockItems.map((item) => item.title)).toEqual(['Task 0', 'Task 1', 'Task 2', 'Task 3', 'Task 4']);
+  });
+
+  it('should read and write the nested property of a column field using the dot notation (e.g. "address.zip")', () => {
+    let editCommand: EditCommand | undefined;
+    gridOptionsMock.editCommandHandler = vi.fn().mockImplementation((_item, _column, command: EditCommand) => {
+      editCommand = command;
+      command.execute();
+    });
+    vi.spyOn(gridStub, 'getColumns').mockReturnValue([{ id: 'zip', field: 'address.zip', editor: { model: Editors.integer } }] as Column[]);
+    mockItems.forEach((item, idx) => (item.address = { city: `City ${idx}`, zip: idx < 2 ? 1000 + idx * 10 : 0 }));
+
+    const changes = plugin.fillCells(new SlickRange(0, 0, 1, 0), new SlickRange(0, 0, 3, 0));
+
+    expect(changes.map((change) => change.previousValue)).toEqual([0, 0]);
+    expect(mockItems.map((item) => item.address)).toEqual([
+      { city: 'City 0', zip: 1000 },
+      { city: 'City 1', zip: 1010 },
+      { city: 'City 2', zip: 1020 },
+      { city: 'City 3', zip: 1030 },
+      { city: 'City 4', zip: 0 },
+    ]);
+    expect(mockItems.some((item) => 'address.zip' in item)).toBe(false);
+
+    editCommand!.undo();
+    expect(mockItems.map((item) => item.address.zip)).toEqual([1000, 1010, 0, 0, 0]);
+  });
+});
@@ -4,7 +4,7 @@ import { TranslateServiceStub } from '../../../../../test/translateServiceStub.j
 import { SlickEvent, SlickEventData, type SlickDataView, type SlickGrid } from '../../core/index.js';
 import * as utils from '../../core/utils.js';
 import { ExtensionUtility } from '../../extensions/extensionUtility.js';
-import type { Column, DOMEvent, ExternalResource, GridMenu, GridOption } from '../../interfaces/index.js';
+import type { Column, DOMEvent, ExternalResource, GridMenu, GridMenuItem, GridOption } from '../../interfaces/index.js';
 import {
   BackendUtilityService,
   SharedService,
@@ -1959,6 +1959,46 @@ describe('GridMenuControl', () => {
           ]);
         });
 
+        it('should have the "advanced-filter" menu command when "enableFiltering" is set and "hideAdvancedFilterCommand" is disabled', () => {
+          const copyGridOptionsMock = {
+            ...gridOptionsMock,
+            enableFiltering: true,
+            gridMenu: {
+              commandLabels: gridOptionsMock.gridMenu!.commandLabels,
+              hideCommands: ['clear-filter', 'clear-pinning', 'refresh-dataset', 'toggle-filter', 'toggle-dark-mode'],
+              hideAdvancedFilterCommand: false,
+            },
+          } as unknown as GridOption;
+          vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(copyGridOptionsMock);
+          vi.spyOn(gridStub, 'getOptions').mockReturnValue(copyGridOptionsMock);
+          control.columns = columnsMock;
+          control.init();
+          control.init(); // calling 2x register to make sure it doesn't duplicate commands
+          expect(SharedService.prototype.gridOptions.gridMenu!.commandItems).toEqual([
+            {
+              _orgTitle: '',
+              iconCssClass: 'mdi mdi-filter-plus-outline',
+              titleKey: 'ADVANCED_FILTER',
+              title: 'Filtre avancé',
+              disabled: false,
+              command: 'advanced-filter',
+              positionOrder: 49,
+              action: expect.any(Function),
+            },
+          ]);
+        });
+
+        it('should not have the "advanced-filter" menu command by default since it is an opt-in command', () => {
+          const copyGridOptionsMock = { ...gridOptionsMock, enableFiltering: true, showHeaderRow: true } as unknown as GridOption;
+          vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(copyGridOptionsMock);
+          vi.spyOn(gridStub, 'getOptions').mockReturnValue(copyGridOptionsMock);
+          control.columns = columnsMock;
+          control.init();
+
+          const commandItems = SharedService.prototype.gridOptions.gridMenu!.commandItems as GridMenuItem[];
+          expect(commandItems.some((item) => item.command === 'advanced-filter')).toBe(false);
+        });
+
         it('should have the "toggle-preheader" menu command when "showPreHeaderPanel" is set', () => {
           const copyGridOptionsMock = { ...gridOptionsMock, showPreHeaderPanel: true } as unknown as GridOption;
           vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(copyGridOptionsMock);
@@ -2270,7 +2310,13 @@ describe('GridMenuControl', () => {
           control.menuElement!.querySelector('.slick-menu-item[data-command=clear-pinning]')!.dispatchEvent(clickEvent);
 
           expect(updateColumnsSpy).toHaveBeenCalled();
-          expect(setOptionsSpy).toHaveBeenCalledWith({ frozenColumn: -1, frozenRow: -1, frozenBottom: false, enableMouseWheelScrollHandler: false });
+          expect(setOptionsSpy).toHaveBeenCalledWith({
+            frozenColumn: -1,
+            frozenRightColumn: -1,
+            frozenRow: -1,
+            frozenBottom: false,
+            enableMouseWheelScrollHandler: false,
+          });
           expect(pubSubSpy).toHaveBeenCalledWith('onGridMenuClearAllPinning');
         });
 
@@ -2294,6 +2340,28 @@ describe('GridMenuControl', () => {
           expect(pubSubSpy).toHaveBeenCalledWith('onGridMenuClearAllFilters');
         });
 
+        it('should open the Advanced Filter panel when the command triggered is "advanced-filter"', () => {
+          const copyGridOptionsMock = {
+            ...gridOptionsMock,
+            enableFiltering: true,
+            gridMenu: { ...gridOptionsMock.gridMenu, hideAdvancedFilterCommand: false },
+          } as unknown as GridOption;
+          vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(copyGridOptionsMock);
+          vi.spyOn(gridStub, 'getOptions').mockReturnValue(copyGridOptionsMock);
+          filterServiceStub.getFilterExpression = vi.fn().mockReturnValue(null);
+
+          control.init();
+          control.columns = columnsMock;
+          const clickEvent = new Event('click', { bubbles: true, cancelable: true, composed: false });
+          document.querySelector('.slick-grid-menu-button')!.dispatchEvent(new Event('click', { bubbles: true, cancelable: true, composed: false }));
+          control.menuElement!.querySelector('.slick-menu-item[data-command=advanced-filter]')!.dispatchEvent(clickEvent);
+
+          expect(document.body.querySelector('.slick-advanced-filter-panel')).toBeTruthy();
+          control.dispose();
+          expect(document.body.querySelector('.slick-advanced-filter-panel')).toBeFalsy();
+          delete (filterServiceStub as any).getFilterExpression;
+        });
+
         it('should call "clearSorting" and dataview refresh when the command triggered is "clear-sorting"', () => {
           const sortSpy = vi.spyOn(sortServiceStub, 'clearSorting');
           const refreshSpy = vi.spyOn(sharedService.dataView, 'refresh');
@@ -229,7 +229,7 @@ describe('HeaderMenu Plugin', () => {
 
       expect(removeExtraSpaces(headerDiv.innerHTML)).toBe(
         removeExtraSpaces(
-          `<div class="slick-header-menu-button mdi mdi-chevron-down" aria-label="Header Menu" tabindex="0"><span class="sgi slick-header-menu-icon"></span></div>`
+          `<div class="slick-header-menu-button mdi mdi-chevron-down" aria-label="Header Menu" aria-haspopup="menu" role="button" tabindex="0"><span class="sgi slick-header-menu-icon"></span></div>`
         )
       );
     });
@@ -244,7 +244,7 @@ describe('HeaderMenu Plugin', () => {
 
       expect(removeExtraSpaces(headerDiv.innerHTML)).toBe(
         removeExtraSpaces(
-          `<div class="slick-header-menu-button" aria-label="Header Menu" tabindex="0" title="some tooltip text"><span class="sgi slick-header-menu-icon"></span></div>`
+          `<div class="slick-header-menu-button" aria-label="Header Menu" aria-haspopup="menu" role="button" tabindex="0" title="some tooltip text"><span class="sgi slick-header-menu-icon"></span></div>`
         )
       );
     });
@@ -259,7 +259,9 @@ describe('HeaderMenu Plugin', () => {
 
       // add Header Menu which is visible
       expect(removeExtraSpaces(headerDiv.innerHTML)).toBe(
-        removeExtraSpaces(`<div class="slick-header-menu-button" aria-label="Header Menu" tabindex="0"><span class="sgi slick-header-menu-icon"></span></div>`)
+        removeExtraSpaces(
+          `<div class="slick-header-menu-button" aria-label="Header Menu" aria-haspopup="menu" role="button" tabindex="0"><span class="sgi slick-header-menu-icon"></span></div>`
+        )
       );
 
       gridStub.onBeforeHeaderCellDestroy.notify({ column: columnsMock[0], node: headerDiv, grid: gridStub }, eventData as any, gridStub);
@@ -276,7 +278,9 @@ describe('HeaderMenu Plugin', () => {
 
       // add Header Menu which is visible
       expect(removeExtraSpaces(headerDiv.innerHTML)).toBe(
-        removeExtraSpaces(`<div class="slick-header-menu-button" aria-label="Header Menu" tabindex="0"><span class="sgi slick-header-menu-icon"></span></div>`)
+        removeExtraSpaces(
+          `<div class="slick-header-menu-button" aria-label="Header Menu" aria-haspopup="menu" role="button" tabindex="0"><span class="sgi slick-header-menu-icon"></span></div>`
+        )
       );
     });
 
@@ -292,7 +296,9 @@ describe('HeaderMenu Plugin', () => {
 
       // add Header Menu which is visible
       expect(removeExtraSpaces(headerDiv.innerHTML)).toBe(
-        removeExtraSpaces(`<div class="slick-header-menu-button" aria-label="Header Menu" tabindex="0"><span class="sgi slick-header-menu-icon"></span></div>`)
+        removeExtraSpaces(
+          `<div class="slick-header-menu-button" aria-label="Header Menu" aria-haspopup="menu" role="button" tabindex="0"><span class="sgi slick-header-menu-icon"></span></div>`
+        )
       );
       headerButtonElm.dispatchEvent(new Event('click', { bubbles: true, cancelable: true, composed: false }));
       const commandElm = gridContainerDiv.querySelector('.slick-menu-item') as HTMLDivElement;
@@ -524,6 +530,29 @@ describe('HeaderMenu Plugin', () => {
       );
     });
 
+    it('should align the menu on the right side of the header menu button and use the RTL direction when the "rtl" grid option is enabled', () => {
+      vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue({ ...gridOptionsMock, rtl: true });
+      plugin.dispose();
+      plugin.init({ autoAlign: true });
+
+      const eventData = { ...new SlickEventData(), preventDefault: vi.fn() };
+      gridStub.onBeforeSetColumns.notify({ previousColumns: [], newColumns: columnsMock, grid: gridStub }, eventData as any, gridStub);
+      gridStub.onHeaderCellRendered.notify({ column: columnsMock[0], node: headerDiv, grid: gridStub }, eventData as any, gridStub);
+      const buttonElm = headerDiv.querySelector('.slick-header-menu-button') as HTMLDivElement;
+      buttonElm.dispatchEvent(new Event('click'));
+      const menuElm = gridContainerDiv.querySelector('.slick-header-menu') as HTMLDivElement;
+      const clickEvent = new MouseEvent('click');
+      vi.spyOn(buttonElm, 'getBoundingClientRect').mockReturnValue({ top: 10, left: 300, right: 320, bottom: 30 } as DOMRect);
+      Object.defineProperty(buttonElm, 'clientWidth', { writable: true, configurable: true, value: 20 });
+      Object.defineProperty(menuElm, 'clientWidth', { writable: true, configurable: true, value: 225 });
+      Object.defineProperty(clickEvent, 'target', { writable: true, configurable: true, value: buttonElm });
+      plugin.repositionMenu(clickEvent as any, menuElm, undefined, plugin.addonOptions);
+
+      expect(menuElm.dir).toBe('rtl');
+      expect(menuElm.classList.contains('dropleft')).toBe(true);
+      expect(menuElm.style.left).toBe('95px');
+    });
+
     it('should not populate a Header Menu when 2nd button item visibility callback returns false', () => {
       plugin.dispose();
       plugin.init();
@@ -1317,6 +1346,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Freeze Columns (Right)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
         ]);
         expect(commandIconElm.classList.contains('mdi-pin-outline')).toBeTruthy();
@@ -1334,6 +1372,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Geler les colonnes (droite)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
         ]);
 
@@ -1370,6 +1417,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Freeze Columns (Right)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
         ]);
         expect(commandIconElm.classList.contains('mdi-pin-outline')).toBeTruthy();
@@ -1387,6 +1443,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Geler les colonnes (droite)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
         ]);
 
@@ -1478,6 +1543,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Freeze Columns (Right)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
         ]);
 
@@ -1521,6 +1595,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Freeze Columns (Right)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
         ]);
         expect(commandDivElm).toBeFalsy();
@@ -1654,6 +1737,15 @@ describe('HeaderMenu Plugin', () => {
             action: expect.any(Function),
           },
           { command: 'show-negative-numbers', cssClass: 'mdi mdi-lightbulb-on', tooltip: 'Highlight negative numbers.' },
+          {
+            _orgTitle: '',
+            command: 'freeze-columns-right',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            positionOrder: 46,
+            title: 'Freeze Columns (Right)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            action: expect.any(Function),
+          },
           {
             _orgTitle: '',
             command: 'column-resize-by-content',
@@ -1716,6 +1808,54 @@ describe('HeaderMenu Plugin', () => {
         expect(setValueMock).toHaveBeenCalledWith(['A'], '<', true);
       });
 
+      it('should populate Conditional Formatting sub-menus when "enableConditionalFormatting" is enabled and expect a sub-menu command to publish the command to execute', () => {
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+        vi.spyOn(sharedService.slickGrid, 'getColumns').mockReturnValue(columnsMock);
+        vi.spyOn(sharedService.slickGrid, 'getColumnIndex').mockReturnValue(0);
+        vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue({
+          ...gridOptionsMock,
+          enableConditionalFormatting: true,
+          headerMenu: { hideFreezeColumnsCommand: true, hideColumnResizeByContentCommand: true },
+        });
+
+        gridStub.onBeforeSetColumns.notify({ previousColumns: [], newColumns: columnsMock, grid: gridStub }, eventData as any, gridStub);
+        gridStub.onHeaderCellRendered.notify({ column: columnsMock[0], node: headerDiv, grid: gridStub }, eventData as any, gridStub);
+        const headerButtonElm = headerDiv.querySelector('.slick-header-menu-button') as HTMLDivElement;
+        headerButtonElm.dispatchEvent(new Event('click', { bubbles: true, cancelable: true, composed: false }));
+
+        const cfRootMenu = columnsMock[0].header!.menu!.commandItems!.find(
+          (item) => (item as MenuCommandItem).command === 'conditional-formatting-root-menu'
+        ) as MenuCommandItem;
+        expect(cfRootMenu).toEqual(
+          expect.objectContaining({
+            iconCssClass: 'mdi mdi-tune-variant',
+            positionOrder: 53,
+            title: 'Conditional Formatting',
+            titleKey: 'CONDITIONAL_FORMATTING',
+          })
+        );
+        expect((cfRootMenu.commandItems as MenuCommandItem[]).map((item) => item.command)).toEqual([
+          'color-scale',
+          'data-bar',
+          'icon-set',
+          'top-10-items',
+          'bottom-10-items',
+          'above-average',
+          'below-average',
+          'clear-conditional-formatting',
+        ]);
+
+        const cfSubMenuElm = gridContainerDiv.querySelector('[data-command="conditional-formatting-root-menu"]') as HTMLDivElement;
+        cfSubMenuElm!.dispatchEvent(new Event('mouseover'));
+        const subMenuElm = document.body.querySelector('.slick-header-menu.slick-menu-level-1') as HTMLDivElement;
+        const dataBarCommandElm = subMenuElm.querySelector('[data-command="data-bar"]') as HTMLDivElement;
+        const commandLabelElm = dataBarCommandElm.querySelector('.slick-menu-content') as HTMLDivElement;
+        expect(commandLabelElm.textContent).toBe('Data Bar');
+
+        dataBarCommandElm.dispatchEvent(new Event('click'));
+        expect(pubSubSpy).toHaveBeenCalledWith('onHeaderMenuConditionalFormatting', { columnId: 'field1', command: 'data-bar' });
+      });
+
       it('should expect only the "hide-column" command in the menu when "enableSorting" and "hideSortCommands" are set and also expect the command to execute necessary callback', () => {
         vi.spyOn(sharedService.slickGrid, 'getColumnIndex').mockReturnValue(1);
         vi.spyOn(sharedService.slickGrid, 'getColumns').mockReturnValue(columnsMock);
@@ -1745,6 +1885,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Freeze Columns (Right)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
           {
             _orgTitle: '',
@@ -1927,6 +2076,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Freeze Columns (Right)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
         ]);
 
@@ -1972,6 +2130,15 @@ describe('HeaderMenu Plugin', () => {
             positionOrder: 45,
             action: expect.any(Function),
           },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline mdi-flip-h',
+            title: 'Freeze Columns (Right)',
+            titleKey: 'FREEZE_COLUMNS_RIGHT',
+            command: 'freeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
           { divider: true, command: 'divider-1', positionOrder: 48 },
         ]);
 
@@ -1980,6 +2147,87 @@ describe('HeaderMenu Plugin', () => {
         expect(updateColumnSpy).toHaveBeenCalled();
       });
 
+      it('should expect the "freeze-columns-right" command to freeze the column on the right side and validate it with the columns frozen on the left side', () => {
+        const originalColumnDefinitions = [
+          { id: 'field1', field: 'field1', width: 100, nameKey: 'TITLE' },
+          { id: 'field2', field: 'field2', width: 75 },
+        ];
+        const setOptionsSpy = vi.spyOn(gridStub, 'setOptions');
+        const updateColumnSpy = vi.spyOn(gridStub, 'updateColumns');
+        const validateSpy = vi.spyOn(gridStub, 'validateColumnFreezeWidth').mockReturnValue(true);
+        vi.spyOn(gridStub, 'getOptions').mockReturnValue({ frozenColumn: 0 } as GridOption);
+        vi.spyOn(gridStub, 'getColumns').mockReturnValue(originalColumnDefinitions);
+        vi.spyOn(gridStub, 'getVisibleColumns').mockReturnValue(originalColumnDefinitions);
+        vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue({
+          ...gridOptionsMock,
+          frozenColumn: 0,
+          headerMenu: { hideFreezeColumnsCommand: false, hideColumnHideCommand: true, hideColumnResizeByContentCommand: true },
+        });
+
+        gridStub.onBeforeSetColumns.notify({ previousColumns: [], newColumns: originalColumnDefinitions, grid: gridStub }, eventData as any, gridStub);
+        gridStub.onHeaderCellRendered.notify({ column: originalColumnDefinitions[1], node: headerDiv, grid: gridStub }, eventData as any, gridStub);
+        const headerButtonElm = headerDiv.querySelector('.slick-header-menu-button') as HTMLDivElement;
+        headerButtonElm.dispatchEvent(new Event('click', { bubbles: true, cancelable: true, composed: false }));
+
+        // the 1st column is already frozen on the left side, so it can't be frozen on the right side
+        expect((originalColumnDefinitions[0] as any).header!.menu!.commandItems!.some((item: any) => item.command === 'freeze-columns-right')).toBe(false);
+
+        const commandDivElm = gridContainerDiv.querySelector('[data-command="freeze-columns-right"]') as HTMLDivElement;
+        commandDivElm.dispatchEvent(new Event('click')); // execute command
+        expect(validateSpy).toHaveBeenCalledWith(0, 1);
+        expect(setOptionsSpy).toHaveBeenCalledWith({ frozenRightColumn: 1 }, false, true);
+        expect(updateColumnSpy).toHaveBeenCalled();
+      });
+
+      it('should expect the "unfreeze-columns-right" command when the column is the first column frozen on the right side and expect it to reset the frozen right column', () => {
+        const originalColumnDefinitions = [
+          { id: 'field1', field: 'field1', width: 100, nameKey: 'TITLE' },
+          { id: 'field2', field: 'field2', width: 75 },
+        ];
+        const setOptionsSpy = vi.spyOn(gridStub, 'setOptions');
+        vi.spyOn(gridStub, 'validateColumnFreezeWidth').mockReturnValue(true);
+        vi.spyOn(gridStub, 'getOptions').mockReturnValue({ frozenRightColumn: 1 } as GridOption);
+        vi.spyOn(gridStub, 'getColumns').mockReturnValue(originalColumnDefinitions);
+        vi.spyOn(gridStub, 'getVisibleColumns').mockReturnValue(originalColumnDefinitions);
+        vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue({
+          ...gridOptionsMock,
+          frozenRightColumn: 1,
+          headerMenu: { hideFreezeColumnsCommand: false, hideColumnHideCommand: true, hideColumnResizeByContentCommand: true },
+        });
+
+        gridStub.onBeforeSetColumns.notify({ previousColumns: [], newColumns: originalColumnDefinitions, grid: gridStub }, eventData as any, gridStub);
+        gridStub.onHeaderCellRendered.notify({ column: originalColumnDefinitions[1], node: headerDiv, grid: gridStub }, eventData as any, gridStub);
+        const headerButtonElm = headerDiv.querySelector('.slick-header-menu-button') as HTMLDivElement;
+        headerButtonElm.dispatchEvent(new Event('click', { bubbles: true, cancelable: true, composed: false }));
+
+        const commandDivElm = gridContainerDiv.querySelector('[data-command="unfreeze-columns-right"]') as HTMLDivElement;
+        expect((originalColumnDefinitions[1] as any).header!.menu!.commandItems!).toEqual([
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-outline',
+            title: 'Freeze Columns',
+            titleKey: 'FREEZE_COLUMNS',
+            command: 'freeze-columns',
+            positionOrder: 45,
+            action: expect.any(Function),
+          },
+          {
+            _orgTitle: '',
+            iconCssClass: 'mdi mdi-pin-off-outline',
+            title: 'Unfreeze Columns',
+            titleKey: 'UNFREEZE_COLUMNS',
+            command: 'unfreeze-columns-right',
+            positionOrder: 46,
+            action: expect.any(Function),
+          },
+          { divider: true, command: 'divider-1', positionOrder: 48 },
+        ]);
+
+        commandDivElm.dispatchEvent(new Event('click')); // execute command
+        expect(setOptionsSpy).toHaveBeenCalledWith({ frozenRightColumn: -1 }, false, true);
+        expect(gridStub.updateColumns).toHaveBeenCalled();
+      });
+
       it('should trigger the command "sort-asc" and expect Sort Service to call "onBackendSortChanged" being called without the sorted column', () => {
         const mockSortedCols: ColumnSort[] = [
           { columnId: 'field1', sortAsc: true, sortCol: { id: 'field1', field: 'field1' } },
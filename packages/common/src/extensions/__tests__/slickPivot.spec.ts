@@ -0,0 +1,324 @@
+import { EventPubSubService } from '@slickgrid-universal/event-pub-sub';
+import { type SortableOptions } from 'sortablejs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranslateServiceStub } from '../../../../../test/translateServiceStub.js';
+import { SlickEvent, type SlickDataView, type SlickGrid } from '../../core/index.js';
+import { ExtensionUtility } from '../../extensions/extensionUtility.js';
+import type { Column, GridOption, PivotConfig } from '../../interfaces/index.js';
+import { BackendUtilityService } from '../../services/backendUtility.service.js';
+import { SharedService } from '../../services/shared.service.js';
+import { SlickPivot } from '../slickPivot.js';
+
+vi.mock('sortablejs', () => ({
+  default: {
+    el: undefined,
+    options: {} as SortableOptions,
+    constructor: vi.fn(),
+    create: (el: HTMLElement, options: SortableOptions) => {
+      return {
+        el,
+        options,
+        destroy: vi.fn(),
+        toArray: vi.fn(),
+      };
+    },
+  },
+}));
+
+const GRID_UID = 'slickgrid12345';
+
+const gridOptionsMock = {
+  enablePivot: true,
+  createPreHeaderPanel: true,
+  showPreHeaderPanel: true,
+} as GridOption;
+
+const dataViewStub = {
+  getItems: vi.fn(),
+  setItems: vi.fn(),
+  onSetItemsCalled: new SlickEvent(),
+} as unknown as SlickDataView;
+
+const gridStub = {
+  getColumns: vi.fn(),
+  getData: () => dataViewStub,
+  getPreHeaderPanel: vi.fn(),
+  getTopHeaderPanel: vi.fn(),
+  getUID: () => GRID_UID,
+  invalidate: vi.fn(),
+  setColumns: vi.fn(),
+} as unknown as SlickGrid;
+
+const mockColumns = [
+  { id: '_checkbox_selector', field: 'sel', name: '', excludeFromColumnPicker: true },
+  { id: 'country', name: 'Country', field: 'country' },
+  { id: 'year', name: 'Year', field: 'year', type: 'number' },
+  { id: 'sales', name: 'Sales', field: 'sales', type: 'number' },
+  { id: 'product', name: 'Product', field: 'product' },
+] as Column[];
+
+const mockItems = [
+  { id: 1, country: 'USA', year: 2024, sales: 5, product: 'A' },
+  { id: 2, country: 'Canada', year: 2025, sales: 20, product: 'B' },
+  { id: 3, country: 'Canada', year: 2025, sales: 30, product: 'A' },
+  { id: 4, country: 'Canada', year: 2024, sales: 10, product: 'A' },
+];
+
+describe('Pivot Plugin', () => {
+  let eventPubSubService: EventPubSubService;
+  let plugin: SlickPivot;
+  let sharedService: SharedService;
+  let extensionUtility: ExtensionUtility;
+  let translateService: TranslateServiceStub;
+  let preHeaderElm: HTMLDivElement;
+
+  beforeEach(() => {
+    preHeaderElm = document.createElement('div');
+    preHeaderElm.className = 'slick-preheader-panel';
+    document.body.appendChild(preHeaderElm);
+
+    eventPubSubService = new EventPubSubService();
+    sharedService = new SharedService();
+    sharedService.slickGrid = gridStub;
+    sharedService.allColumns = mockColumns;
+    translateService = new TranslateServiceStub();
+    extensionUtility = new ExtensionUtility(sharedService, new BackendUtilityService(), translateService);
+    vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+    vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+    vi.spyOn(gridStub, 'getPreHeaderPanel').mockReturnValue(preHeaderElm);
+    vi.spyOn(dataViewStub, 'getItems').mockReturnValue(mockItems);
+    plugin = new SlickPivot(extensionUtility, eventPubSubService, sharedService);
+  });
+
+  afterEach(() => {
+    plugin.dispose();
+    document.body.innerHTML = '';
+    gridOptionsMock.presets = undefined;
+    vi.clearAllMocks();
+  });
+
+  it('should create the plugin', () => {
+    expect(plugin).toBeTruthy();
+    expect(plugin.gridUid).toBe(GRID_UID);
+    expect(plugin.eventHandler).toBeTruthy();
+    expect(plugin.isPivoted).toBe(false);
+  });
+
+  it('should throw an error when the pre-header panel is not available', () => {
+    vi.spyOn(gridStub, 'getPreHeaderPanel').mockReturnValueOnce(null as any);
+
+    expect(() => plugin.init(gridStub)).toThrow('[Slickgrid-Universal] Pivot requires the pre-header to be created and shown');
+  });
+
+  it('should render the list of available fields (without the excluded columns) and the 3 drop areas with their default titles', () => {
+    plugin.init(gridStub);
+
+    const fieldElms = preHeaderElm.querySelectorAll<HTMLDivElement>('.slick-pivot-fields .slick-pivot-field');
+    const areaTitleElms = preHeaderElm.querySelectorAll('.slick-pivot-area-title');
+
+    expect(plugin.panelElement).toBeTruthy();
+    expect(Array.from(fieldElms).map((elm) => elm.dataset.id)).toEqual(['country', 'year', 'sales', 'product']);
+    expect(fieldElms[0].textContent).toBe('Country');
+    expect(Array.from(areaTitleElms).map((elm) => elm.textContent)).toEqual(['Rows', 'Columns', 'Values']);
+    expect(preHeaderElm.querySelectorAll('.slick-pivot-dropzone-placeholder').length).toBe(3);
+    expect(plugin.sortableInstances.length).toBe(4);
+  });
+
+  it('should translate the drop area titles when translation is enabled and translation keys are provided', () => {
+    vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue({ ...gridOptionsMock, enableTranslate: true });
+    translateService.use('fr');
+    plugin.init(gridStub, { columnsTitleKey: 'COLUMNS' });
+
+    const areaTitleElms = preHeaderElm.querySelectorAll('.slick-pivot-area-title');
+    expect(areaTitleElms[1].textContent).toBe('Colonnes');
+  });
+
+  describe('generatePivotData method', () => {
+    beforeEach(() => {
+      plugin.init(gridStub);
+    });
+
+    it('should generate a column for every column dimension value and aggregate the values of every row dimension value', () => {
+      const pivotConfig: PivotConfig = { rows: ['country'], columns: ['year'], values: [{ columnId: 'sales', aggregator: 'Sum' }] };
+
+      const output = plugin.generatePivotData(mockItems, pivotConfig);
+
+      expect(output.columns.map((col) => ({ id: col.id, name: col.name, field: col.field }))).toEqual([
+        { id: 'country', name: 'Country', field: 'country' },
+        { id: 'pivot_0_0', name: '2024', field: 'pivot_0_0' },
+        { id: 'pivot_1_0', name: '2025', field: 'pivot_1_0' },
+      ]);
+      expect(output.rows).toEqual([
+        { id: 'pivot_0', country: 'Canada', pivot_0_0: 10, pivot_1_0: 50 },
+        { id: 'pivot_1', country: 'USA', pivot_0_0: 5, pivot_1_0: null },
+      ]);
+    });
+
+    it('should generate a column per value field with their aggregator name when there are no column dimensions', () => {
+      const pivotConfig: PivotConfig = {
+        rows: ['country'],
+        columns: [],
+        values: [
+          { columnId: 'sales', aggregator: 'Avg' },
+          { columnId: 'sales', aggregator: 'Count' },
+          { columnId: 'product', aggregator: 'Distinct', title: 'Products' },
+          { columnId: 'sales', aggregator: 'Max' },
+        ],
+      };
+
+      const output = plugin.generatePivotData(mockItems, pivotConfig);
+
+      expect(output.columns.map((col) => col.name)).toEqual(['Country', 'Sales (Avg)', 'Sales (Count)', 'Products', 'Sales (Max)']);
+      expect(output.columns.map((col) => col.type)).toEqual([undefined, 'number', 'number', 'string', 'number']);
+      expect(output.rows).toEqual([
+        { id: 'pivot_0', country: 'Canada', pivot_0_0: 20, pivot_0_1: 3, pivot_0_2: 'B, A', pivot_0_3: 30 },
+        { id: 'pivot_1', country: 'USA', pivot_0_0: 5, pivot_0_1: 1, pivot_0_2: 'A', pivot_0_3: 5 },
+      ]);
+    });
+
+    it('should prefix the generated column names with the column dimension value when there are multiple value fields', () => {
+      const pivotConfig: PivotConfig = {
+        rows: [],
+        columns: ['year'],
+        values: [
+          { columnId: 'sales', aggregator: 'Min' },
+          { columnId: 'sales', aggregator: 'Sum' },
+        ],
+      };
+
+      const output = plugin.generatePivotData(mockItems, pivotConfig);
+
+      expect(output.columns.map((col) => col.name)).toEqual(['2024 - Sales (Min)', '2024 - Sales (Sum)', '2025 - Sales (Min)', '2025 - Sales (Sum)']);
+      expect(output.rows).toEqual([{ id: 'pivot_0', pivot_0_0: 5, pivot_0_1: 15, pivot_1_0: 20, pivot_1_1: 50 }]);
+    });
+  });
+
+  describe('setPivotConfig method', () => {
+    const pivotConfig: PivotConfig = { rows: ['country'], columns: ['year'], values: [{ columnId: 'sales', aggregator: 'Sum' }] };
+
+    it('should apply the pivot columns & rows to the grid and trigger the "onPivotChanged" event', () => {
+      const onPivotChangedMock = vi.fn();
+      const pubSubSpy = vi.spyOn(eventPubSubService, 'publish');
+      plugin.init(gridStub, { onPivotChanged: onPivotChangedMock });
+
+      plugin.setPivotConfig(pivotConfig);
+
+      expect(plugin.isPivoted).toBe(true);
+      expect(plugin.getPivotConfig()).toEqual(pivotConfig);
+      expect(plugin.getPivotConfig()).not.toBe(pivotConfig);
+      expect(sharedService.allColumns.map((col) => col.id)).toEqual(['country', 'pivot_0_0', 'pivot_1_0']);
+      expect(gridStub.setColumns).toHaveBeenCalledWith(sharedService.allColumns);
+      expect(dataViewStub.setItems).toHaveBeenCalledWith(
+        [
+          { id: 'pivot_0', country: 'Canada', pivot_0_0: 10, pivot_1_0: 50 },
+          { id: 'pivot_1', country: 'USA', pivot_0_0: 5, pivot_1_0: null },
+        ],
+        'id'
+      );
+      expect(onPivotChangedMock).toHaveBeenCalledWith(expect.anything(), { caller: 'set-pivot', pivot: pivotConfig });
+      expect(pubSubSpy).toHaveBeenCalledWith(
+        'onPivotChanged',
+        expect.objectContaining({ args: { caller: 'set-pivot', pivot: pivotConfig } }),
+        undefined,
+        expect.any(Function)
+      );
+      expect(plugin.dropzoneElements.rows!.querySelector<HTMLDivElement>('.slick-pivot-field')!.dataset.id).toBe('country');
+      expect(plugin.dropzoneElements.values!.querySelector<HTMLSelectElement>('.slick-pivot-aggregator')!.value).toBe('Sum');
+    });
+
+    it('should remove unknown and duplicate columns from the pivot config', () => {
+      plugin.init(gridStub);
+
+      plugin.setPivotConfig({ rows: ['country', 'country', 'unknown'], columns: ['country', 'year'], values: [{ columnId: 'unknown', aggregator: 'Sum' }] });
+
+      expect(plugin.getPivotConfig()).toEqual({ rows: ['country'], columns: ['year'], values: [] });
+      expect(plugin.isPivoted).toBe(false);
+      expect(gridStub.setColumns).not.toHaveBeenCalled();
+    });
+
+    it('should restore the original columns & dataset when calling "clearPivot"', () => {
+      plugin.init(gridStub);
+      plugin.setPivotConfig(pivotConfig);
+
+      plugin.clearPivot();
+
+      expect(plugin.isPivoted).toBe(false);
+      expect(plugin.getPivotConfig()).toBeNull();
+      expect(sharedService.allColumns).toEqual(mockColumns);
+      expect(gridStub.setColumns).toHaveBeenLastCalledWith(mockColumns);
+      expect(dataViewStub.setItems).toHaveBeenLastCalledWith(mockItems, 'id');
+      expect(preHeaderElm.querySelectorAll('.slick-pivot-dropzone-placeholder').length).toBe(3);
+    });
+
+    it('should apply the pivot from the Grid Presets without triggering the "onPivotChanged" event', () => {
+      const onPivotChangedMock = vi.fn();
+      gridOptionsMock.presets = { pivot: pivotConfig };
+
+      plugin.init(gridStub, { onPivotChanged: onPivotChangedMock, initialPivot: { rows: ['product'], columns: [], values: [] } });
+
+      expect(plugin.isPivoted).toBe(true);
+      expect(plugin.getPivotConfig()).toEqual(pivotConfig);
+      expect(onPivotChangedMock).not.toHaveBeenCalled();
+    });
+
+    it('should recalculate the pivot from the new dataset when the DataView items are replaced while the pivot is applied', () => {
+      plugin.init(gridStub);
+      plugin.setPivotConfig(pivotConfig);
+      vi.spyOn(dataViewStub, 'getItems').mockReturnValue([{ id: 1, country: 'Mexico', year: 2025, sales: 7, product: 'C' }]);
+
+      dataViewStub.onSetItemsCalled.notify({ idProperty: 'id', itemCount: 1 });
+
+      expect(dataViewStub.setItems).toHaveBeenLastCalledWith([{ id: 'pivot_0', country: 'Mexico', pivot_0_0: 7 }], 'id');
+    });
+  });
+
+  describe('drop areas', () => {
+    it('should update the pivot config when dropping fields in the drop areas', () => {
+      const onPivotChangedMock = vi.fn();
+      plugin.init(gridStub, { onPivotChanged: onPivotChangedMock, defaultAggregator: 'Count' });
+      const [, rowsSortable, , valuesSortable] = plugin.sortableInstances;
+      const fieldElms = preHeaderElm.querySelectorAll<HTMLDivElement>('.slick-pivot-fields .slick-pivot-field');
+
+      plugin.dropzoneElements.rows!.appendChild(fieldElms[0].cloneNode(true));
+      rowsSortable.options.onAdd!({ item: fieldElms[0] } as any);
+      plugin.dropzoneElements.values!.appendChild(fieldElms[2].cloneNode(true));
+      valuesSortable.options.onAdd!({ item: fieldElms[2] } as any);
+
+      expect(plugin.getPivotConfig()).toEqual({ rows: ['country'], columns: [], values: [{ columnId: 'sales', aggregator: 'Count' }] });
+      expect(plugin.isPivoted).toBe(true);
+      expect(onPivotChangedMock).toHaveBeenLastCalledWith(expect.anything(), { caller: 'add-field', pivot: plugin.getPivotConfig() });
+      expect(plugin.dropzoneElements.rows!.querySelector('.slick-pivot-dropzone-placeholder')).toBeNull();
+    });
+
+    it('should recalculate the pivot when changing the aggregator of a value field', () => {
+      plugin.init(gridStub);
+      plugin.setPivotConfig({ rows: ['country'], columns: [], values: [{ columnId: 'sales', aggregator: 'Sum' }] });
+
+      const aggregatorSelectElm = plugin.dropzoneElements.values!.querySelector<HTMLSelectElement>('.slick-pivot-aggregator')!;
+      aggregatorSelectElm.value = 'Max';
+      aggregatorSelectElm.dispatchEvent(new Event('change', { bubbles: true }));
+
+      expect(plugin.getPivotConfig()!.values).toEqual([{ columnId: 'sales', aggregator: 'Max' }]);
+      expect(dataViewStub.setItems).toHaveBeenLastCalledWith(
+        [
+          { id: 'pivot_0', country: 'Canada', pivot_0_0: 30 },
+          { id: 'pivot_1', country: 'USA', pivot_0_0: 5 },
+        ],
+        'id'
+      );
+    });
+
+    it('should remove a dropped field and turn off the pivot when clicking on its remove icon and it was the last row dimension', () => {
+      plugin.init(gridStub, { deleteIconCssClass: 'mdi mdi-close' });
+      plugin.setPivotConfig({ rows: ['country'], columns: [], values: [{ columnId: 'sales', aggregator: 'Sum' }] });
+
+      const removeIconElm = plugin.dropzoneElements.rows!.querySelector<HTMLDivElement>('.slick-pivot-field-remove')!;
+      expect(removeIconElm.classList.contains('mdi-close')).toBe(true);
+      removeIconElm.dispatchEvent(new Event('click', { bubbles: true }));
+
+      expect(plugin.getPivotConfig()).toEqual({ rows: [], columns: [], values: [{ columnId: 'sales', aggregator: 'Sum' }] });
+      expect(plugin.isPivoted).toBe(false);
+      expect(gridStub.setColumns).toHaveBeenLastCalledWith(mockColumns);
+    });
+  });
+});
@@ -63,6 +63,8 @@ export class ExtensionUtility {
       gridOptions = { ...this.sharedService.gridOptions, ...inputGridOptions };
       this.sharedService.gridOptions = gridOptions;
     }
+    // a refresh requested by the user must always fetch fresh data, so any cached result is now considered outdated
+    this.backendUtilities?.clearCache();
     this.backendUtilities?.refreshBackendDataset(gridOptions);
   }
 
@@ -1,19 +1,25 @@
 export * from './extensionUtility.js';
 export * from './menuBaseClass.js';
+export * from './slickAdvancedFilterPanel.js';
+export * from './slickAriaAnnouncer.js';
 export * from './slickAutoTooltip.js';
 export * from './slickCellExcelCopyManager.js';
 export * from './slickCellExternalCopyManager.js';
 export * from './slickCellMenu.js';
 export * from './slickCellRangeDecorator.js';
 export * from './slickCellRangeSelector.js';
+export * from './slickChangeIndicator.js';
 export * from './slickCheckboxSelectColumn.js';
 export * from './slickColumnPicker.js';
+export * from './slickConditionalFormatting.js';
 export * from './slickContextMenu.js';
 export * from './slickDraggableGrouping.js';
+export * from './slickFillHandle.js';
 export * from './slickGridMenu.js';
 export * from './slickGroupItemMetadataProvider.js';
 export * from './slickHeaderButtons.js';
 export * from './slickHeaderMenu.js';
 export * from './slickHybridSelectionModel.js';
+export * from './slickPivot.js';
 export * from './slickRowBasedEdit.js';
 export * from './slickRowMoveManager.js';
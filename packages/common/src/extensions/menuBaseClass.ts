@@ -888,8 +888,9 @@ export class MenuBaseClass<M extends MenuPlugin | HeaderButton | ColumnPicker |
           const menuIconOffset = getOffset(buttonElm); // get button offset position
           const nextPositionLeft = menuIconOffset.right;
           menuOffsetTop = menuIconOffset.top + buttonElm!.offsetHeight; // top position has to include button height so the menu is placed just below it
-          menuOffsetLeft =
-            (addonOptions as GridMenuOption)?.dropSide === 'right' ? nextPositionLeft - buttonWidth : nextPositionLeft - currentMenuWidth;
+          // in RTL mode, the Grid Menu button is on the left side and so the drop side is mirrored
+          const isDropRight = ((addonOptions as GridMenuOption)?.dropSide === 'right') !== !!this.gridOptions.rtl;
+          menuOffsetLeft = isDropRight ? nextPositionLeft - buttonWidth : nextPositionLeft - currentMenuWidth;
         }
       } else if (this.pluginName === 'CellMenu' || this.pluginName === 'ContextMenu') {
         menuOffsetLeft = parentElm && this.pluginName === 'CellMenu' ? parentOffset.left : targetEvent.pageX;
@@ -962,7 +963,11 @@ export class MenuBaseClass<M extends MenuPlugin | HeaderButton | ColumnPicker |
         }
         const gridPos = this.grid.getGridPosition();
         const browserWidth = document.documentElement.clientWidth;
-        const dropSide = subMenuPosCalc >= gridPos.width || subMenuPosCalc >= browserWidth ? 'left' : 'right';
+        let dropSide = subMenuPosCalc >= gridPos.width || subMenuPosCalc >= browserWidth ? 'left' : 'right';
+        if (this.gridOptions.rtl) {
+          // in RTL mode, we prefer to drop the menu on the left unless there isn't enough space on the left
+          dropSide = menuOffsetLeft - Number(menuWidth) < 0 ? 'right' : 'left';
+        }
 
         let needHeaderMenuOffsetLeftRecalc = false;
         if (dropSide === 'left' || (!isSubMenu && (addonOptions as CellMenu | ContextMenu)?.dropSide === 'left')) {
@@ -996,7 +1001,15 @@ export class MenuBaseClass<M extends MenuPlugin | HeaderButton | ColumnPicker |
 
         if (needHeaderMenuOffsetLeftRecalc) {
           menuOffsetLeft = relativePos?.left ?? 0;
-          if ((addonOptions as HeaderMenu)?.autoAlign && gridPos?.width && menuOffsetLeft + (menuElm.clientWidth ?? 0) >= gridPos.width) {
+          if (this.gridOptions.rtl && dropSide === 'left') {
+            // align the menu on the right side of the header menu button
+            menuOffsetLeft =
+              menuOffsetLeft + targetElm.clientWidth - menuElm.clientWidth + ((addonOptions as HeaderMenuOption)?.autoAlignOffset || 0);
+          } else if (
+            (addonOptions as HeaderMenu)?.autoAlign &&
+            gridPos?.width &&
+            menuOffsetLeft + (menuElm.clientWidth ?? 0) >= gridPos.width
+          ) {
             menuOffsetLeft =
               menuOffsetLeft + targetElm.clientWidth - menuElm.clientWidth + ((addonOptions as HeaderMenuOption)?.autoAlignOffset || 0);
           }
@@ -1004,6 +1017,9 @@ export class MenuBaseClass<M extends MenuPlugin | HeaderButton | ColumnPicker |
       }
 
       // ready to reposition the menu
+      if (this.gridOptions.rtl) {
+        menuElm.dir = 'rtl';
+      }
       menuElm.style.top = `${menuOffsetTop}px`;
       menuElm.style.left = `${menuOffsetLeft}px`;
 
@@ -0,0 +1,329 @@
+import { BindingEventService } from '@slickgrid-universal/binding';
+import { createDomElement, deepCopy, getHtmlStringOutput } from '@slickgrid-universal/utils';
+import { isFilterExpressionGroup } from '../filter-conditions/filterUtilities.js';
+import { compoundOperatorNumeric, compoundOperatorString } from '../filters/filterUtilities.js';
+import type {
+  Column,
+  DOMEvent,
+  FilterExpressionCondition,
+  FilterExpressionGroup,
+  GridOption,
+  OperatorDetail,
+} from '../interfaces/index.js';
+import type { FilterService } from '../services/filter.service.js';
+import type { SharedService } from '../services/shared.service.js';
+import { getColumnFieldType, getTranslationPrefix, isColumnDateType } from '../services/utilities.js';
+import type { ExtensionUtility } from './extensionUtility.js';
+
+type FilterExpressionNode = FilterExpressionCondition | FilterExpressionGroup;
+
+/**
+ * An Advanced Filter panel (opened from the Grid Menu "advanced-filter" command) to visually build a Filter Expression,
+ * which is a tree of conditions combined by nested AND/OR groups that can optionally be negated (NOT).
+ * The Filter Expression is only applied (via the FilterService) when the user clicks on the "Apply" button.
+ * @class SlickAdvancedFilterPanel
+ * @constructor
+ */
+export class SlickAdvancedFilterPanel {
+  protected _bindEventService: BindingEventService;
+  protected _elementNodes: WeakMap<HTMLElement, FilterExpressionNode> = new WeakMap();
+  protected _filterExpression: FilterExpressionGroup = { logic: 'and', conditions: [] };
+  protected _nodeParents: WeakMap<FilterExpressionNode, FilterExpressionGroup> = new WeakMap();
+  protected _panelElm: HTMLDivElement | null = null;
+  protected _treeElm: HTMLDivElement | null = null;
+  readonly pluginName = 'AdvancedFilterPanel';
+
+  constructor(
+    protected readonly extensionUtility: ExtensionUtility,
+    protected readonly filterService: FilterService,
+    protected readonly sharedService: SharedService
+  ) {
+    this._bindEventService = new BindingEventService();
+  }
+
+  /** Getter of the Filter Expression currently being edited in the panel (it is not yet applied to the grid) */
+  get filterExpression(): FilterExpressionGroup {
+    return this._filterExpression;
+  }
+
+  get gridOptions(): GridOption {
+    return this.sharedService.gridOptions ?? {};
+  }
+
+  get panelElement(): HTMLDivElement | null {
+    return this._panelElm;
+  }
+
+  /** Dispose (destroy) the panel */
+  dispose(): void {
+    this._bindEventService.unbindAll();
+    this._panelElm?.remove();
+    this._panelElm = null;
+    this._treeElm = null;
+  }
+
+  /** Open the panel, it will start from a copy of the Filter Expression currently applied to the grid (when any) */
+  openPanel(): HTMLDivElement {
+    this.dispose();
+    this._filterExpression = deepCopy(this.filterService.getFilterExpression() ?? { logic: 'and', conditions: [] });
+
+    const gridUid = this.sharedService.slickGrid?.getUID() ?? '';
+    const panelTitle = this.translateText('ADVANCED_FILTER');
+    const panelElm = createDomElement('div', {
+      className: `slick-advanced-filter-panel ${gridUid}`.trim(),
+      role: 'dialog',
+      ariaLabel: panelTitle,
+    });
+    if (this.gridOptions.darkMode) {
+      panelElm.classList.add('slick-dark-mode');
+    }
+    createDomElement('div', { className: 'slick-advanced-filter-title', textContent: panelTitle }, panelElm);
+    createDomElement(
+      'button',
+      { type: 'button', className: 'close', ariaLabel: 'Close', textContent: '×', dataset: { action: 'close' } },
+      panelElm
+    );
+    this._treeElm = createDomElement('div', { className: 'slick-advanced-filter-tree' }, panelElm);
+
+    const footerElm = createDomElement('div', { className: 'slick-advanced-filter-footer' }, panelElm);
+    this.createButtonElement('clear', this.translateText('CLEAR_ALL_FILTERS'), footerElm);
+    this.createButtonElement('close', this.translateText('CANCEL'), footerElm);
+    this.createButtonElement('apply', this.translateText('APPLY'), footerElm);
+
+    this._bindEventService.bind(panelElm, 'click', this.handlePanelClick.bind(this) as EventListener);
+    this._bindEventService.bind(panelElm, ['change', 'input'], this.handlePanelChange.bind(this) as EventListener);
+
+    this._panelElm = panelElm;
+    this.renderFilterTree();
+    document.body.appendChild(panelElm);
+
+    return panelElm;
+  }
+
+  /** Apply the Filter Expression built in the panel to the grid (incomplete conditions and empty groups are skipped) and close the panel */
+  async applyFilterExpression(): Promise<void> {
+    const filterExpression = this.removeIncompleteNodes(this._filterExpression);
+    this.dispose();
+    await this.filterService.setFilterExpression(filterExpression);
+  }
+
+  /** Remove any Filter Expression applied to the grid and close the panel */
+  async clearFilterExpression(): Promise<void> {
+    this.dispose();
+    await this.filterService.setFilterExpression(null);
+  }
+
+  /** (re)render the entire Filter Expression tree */
+  renderFilterTree(): void {
+    if (this._treeElm) {
+      this._treeElm.textContent = '';
+      this._treeElm.appendChild(this.createGroupElement(this._filterExpression));
+    }
+  }
+
+  //
+  // protected functions
+  // -------------------
+
+  protected createButtonElement(action: string, textContent: string, parentElm: HTMLElement): HTMLButtonElement {
+    return createDomElement(
+      'button',
+      { type: 'button', className: `slick-advanced-filter-btn btn-${action}`, textContent, dataset: { action } },
+      parentElm
+    );
+  }
+
+  protected createConditionElement(condition: FilterExpressionCondition): HTMLDivElement {
+    const conditionElm = createDomElement('div', { className: 'slick-advanced-filter-condition' });
+    this._elementNodes.set(conditionElm, condition);
+
+    // column select
+    const columnSelectElm = createDomElement('select', { className: 'form-control column-select', dataset: { property: 'columnId' } });
+    for (const columnDef of this.getFilterableColumns()) {
+      const columnName = getHtmlStringOutput(columnDef.columnPickerLabel || columnDef.name || '', 'innerHTML');
+      createDomElement('option', { value: `${columnDef.id}`, textContent: columnName || `${columnDef.id}` }, columnSelectElm);
+    }
+    columnSelectElm.value = `${condition.columnId}`;
+    conditionElm.appendChild(columnSelectElm);
+
+    // operator select, which depends on the column type
+    const operatorSelectElm = createDomElement('select', { className: 'form-control operator-select', dataset: { property: 'operator' } });
+    for (const operatorDetail of this.getOperatorList(condition.columnId)) {
+      createDomElement('option', { value: operatorDetail.operator, textContent: operatorDetail.desc }, operatorSelectElm);
+    }
+    operatorSelectElm.value = condition.operator ?? '';
+    conditionElm.appendChild(operatorSelectElm);
+
+    // search value input
+    createDomElement(
+      'input',
+      {
+        type: 'text',
+        className: 'form-control search-term',
+        ariaLabel: this.translateText('SEARCH'),
+        value: `${condition.searchTerms?.[0] ?? ''}`,
+        dataset: { property: 'searchTerm' },
+      },
+      conditionElm
+    );
+    this.createButtonElement('remove', this.translateText('REMOVE'), conditionElm);
+
+    return conditionElm;
+  }
+
+  protected createGroupElement(group: FilterExpressionGroup, parentGroup?: FilterExpressionGroup): HTMLDivElement {
+    const groupElm = createDomElement('div', { className: `slick-advanced-filter-group${parentGroup ? ' nested-group' : ''}` });
+    this._elementNodes.set(groupElm, group);
+
+    // group header with its logic operator (and/or), the "not" checkbox and the action buttons
+    const groupHeaderElm = createDomElement('div', { className: 'slick-advanced-filter-group-header' }, groupElm);
+    const logicSelectElm = createDomElement('select', { className: 'form-control logic-select', dataset: { property: 'logic' } });
+    createDomElement('option', { value: 'and', textContent: this.translateText('AND') }, logicSelectElm);
+    createDomElement('option', { value: 'or', textContent: this.translateText('OR') }, logicSelectElm);
+    logicSelectElm.value = group.logic;
+    groupHeaderElm.appendChild(logicSelectElm);
+
+    const notLabelElm = createDomElement('label', { className: 'not-label' }, groupHeaderElm);
+    createDomElement('input', { type: 'checkbox', checked: !!group.not, dataset: { property: 'not' } }, notLabelElm);
+    notLabelElm.appendChild(document.createTextNode(this.translateText('NOT')));
+
+    this.createButtonElement('add-condition', this.translateText('ADD_CONDITION'), groupHeaderElm);
+    this.createButtonElement('add-group', this.translateText('ADD_GROUP'), groupHeaderElm);
+    if (parentGroup) {
+      this.createButtonElement('remove', this.translateText('REMOVE'), groupHeaderElm);
+    }
+
+    // group conditions, which can be conditions or other nested groups
+    const groupConditionsElm = createDomElement('div', { className: 'slick-advanced-filter-group-conditions' }, groupElm);
+    for (const node of group.conditions) {
+      this._nodeParents.set(node, group);
+      groupConditionsElm.appendChild(
+        isFilterExpressionGroup(node) ? this.createGroupElement(node, group) : this.createConditionElement(node)
+      );
+    }
+
+    return groupElm;
+  }
+
+  /** Create a new condition, it will use the first filterable column by default */
+  protected createNewCondition(): FilterExpressionCondition {
+    return { columnId: this.getFilterableColumns()[0]?.id ?? '', operator: '', searchTerms: [] };
+  }
+
+  /** Find the Filter Expression node (group or condition) associated to the closest DOM element of the event target */
+  protected findClosestNode(targetElm: HTMLElement): FilterExpressionNode | undefined {
+    const nodeElm = targetElm.closest<HTMLElement>('.slick-advanced-filter-condition, .slick-advanced-filter-group');
+    return nodeElm ? this._elementNodes.get(nodeElm) : undefined;
+  }
+
+  protected getFilterableColumns(): Column[] {
+    const columns = this.sharedService.allColumns ?? this.sharedService.slickGrid?.getColumns() ?? [];
+    return columns.filter((columnDef) => columnDef.filterable);
+  }
+
+  /** Get the list of operators that can be used by a column, numeric and date fields will use the numeric operators */
+  protected getOperatorList(columnId: number | string): OperatorDetail[] {
+    const columnDef = this.getFilterableColumns().find((col) => col.id === columnId);
+    const fieldType = columnDef ? getColumnFieldType(columnDef) : 'string';
+    const translaterService = this.extensionUtility.translaterService;
+
+    return fieldType === 'number' || fieldType === 'integer' || fieldType === 'float' || isColumnDateType(fieldType)
+      ? compoundOperatorNumeric(this.gridOptions, translaterService)
+      : compoundOperatorString(this.gridOptions, translaterService);
+  }
+
+  protected handlePanelChange(e: DOMEvent<HTMLInputElement | HTMLSelectElement>): void {
+    const targetElm = e.target;
+    const node = this.findClosestNode(targetElm);
+    if (!node) {
+      return;
+    }
+
+    switch (targetElm.dataset?.property) {
+      case 'logic':
+        (node as FilterExpressionGroup).logic = targetElm.value === 'or' ? 'or' : 'and';
+        break;
+      case 'not':
+        (node as FilterExpressionGroup).not = (targetElm as HTMLInputElement).checked;
+        break;
+      case 'columnId':
+        if (e.type === 'change') {
+          // the operator list depends on the column type, so we need to reset the operator and re-render it
+          const columnDef = this.getFilterableColumns().find((col) => `${col.id}` === targetElm.value);
+          (node as FilterExpressionCondition).columnId = columnDef?.id ?? targetElm.value;
+          (node as FilterExpressionCondition).operator = '';
+          this.renderFilterTree();
+        }
+        break;
+      case 'operator':
+        (node as FilterExpressionCondition).operator = targetElm.value as FilterExpressionCondition['operator'];
+        break;
+      case 'searchTerm':
+        (node as FilterExpressionCondition).searchTerms = targetElm.value !== '' ? [targetElm.value] : [];
+        break;
+    }
+  }
+
+  protected handlePanelClick(e: DOMEvent<HTMLElement>): void {
+    const action = e.target.closest<HTMLElement>('[data-action]')?.dataset.action;
+    const node = this.findClosestNode(e.target);
+
+    switch (action) {
+      case 'add-condition':
+        (node as FilterExpressionGroup)?.conditions.push(this.createNewCondition());
+        this.renderFilterTree();
+        break;
+      case 'add-group':
+        (node as FilterExpressionGroup)?.conditions.push({ logic: 'and', conditions: [this.createNewCondition()] });
+        this.renderFilterTree();
+        break;
+      case 'remove':
+        if (node) {
+          const parentGroup = this._nodeParents.get(node);
+          const nodeIndex = parentGroup?.conditions.indexOf(node) ?? -1;
+          if (parentGroup && nodeIndex >= 0) {
+            parentGroup.conditions.splice(nodeIndex, 1);
+            this.renderFilterTree();
+          }
+        }
+        break;
+      case 'apply':
+        this.applyFilterExpression();
+        break;
+      case 'clear':
+        this.clearFilterExpression();
+        break;
+      case 'close':
+        this.dispose();
+        break;
+    }
+  }
+
+  /**
+   * Return a copy of the Filter Expression group without any incomplete conditions (without search value) or empty groups,
+   * it will return `null` when nothing is left in the group
+   */
+  protected removeIncompleteNodes(group: FilterExpressionGroup): FilterExpressionGroup | null {
+    const conditions: Array<FilterExpressionCondition | FilterExpressionGroup> = [];
+    for (const node of group.conditions) {
+      if (isFilterExpressionGroup(node)) {
+        const nestedGroup = this.removeIncompleteNodes(node);
+        if (nestedGroup) {
+          conditions.push(nestedGroup);
+        }
+      } else if (node.columnId !== '' && node.searchTerms?.length > 0) {
+        conditions.push({ ...node, operator: node.operator || undefined });
+      }
+    }
+
+    if (conditions.length === 0) {
+      return null;
+    }
+    return { logic: group.logic, ...(group.not ? { not: true } : {}), conditions };
+  }
+
+  protected translateText(key: string): string {
+    const translationPrefix = getTranslationPrefix(this.gridOptions);
+    return this.extensionUtility.translateWhenEnabledAndServiceExist(`${translationPrefix}${key}`, `TEXT_${key}`);
+  }
+}
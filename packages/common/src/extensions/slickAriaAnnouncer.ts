@@ -0,0 +1,230 @@
+import type { BasePubSubService, EventSubscription } from '@slickgrid-universal/event-pub-sub';
+import { createDomElement, getHtmlStringOutput, stripTags } from '@slickgrid-universal/utils';
+import { SlickEventHandler, type SlickDataView, type SlickGrid } from '../core/index.js';
+import type { AriaAnnouncer, AriaAnnouncerOption, Column, CurrentSorter, GridOption } from '../interfaces/index.js';
+import type { SharedService } from '../services/shared.service.js';
+import { getTranslationPrefix } from '../services/utilities.js';
+import type { ExtensionUtility } from './extensionUtility.js';
+
+/**
+ * A plugin to announce the grid changes to the screen readers through a visually hidden "aria-live" region,
+ * the sort, filter, cell edit & row selection changes are announced as well as the rows visible in the viewport once the user stopped scrolling
+ * (the grid is virtualized, so only a few rows are rendered at any time and the screen readers can't know how many rows there are).
+ *
+ * NOTES:
+ *     The live region is added right after the grid container since an "aria-live" region can't be a child of an element with a "grid" role.
+ *     Any custom message can also be announced by calling the `announce()` method.
+ *
+ * To use the plugin, it is enabled by default via the "enableAriaAnnouncer" grid option and it can be configured with the "ariaAnnouncer" grid option
+ *   this.gridOptions = { ariaAnnouncer: { announceScroll: false, politeness: 'assertive' } };
+ */
+export class SlickAriaAnnouncer {
+  readonly pluginName = 'AriaAnnouncer';
+
+  protected _addonOptions!: AriaAnnouncer;
+  protected _eventHandler: SlickEventHandler;
+  protected _filterTimer?: any;
+  protected _grid?: SlickGrid;
+  protected _isRemoteFilterPending = false;
+  protected _lastViewportMessage = '';
+  protected _liveRegionElm?: HTMLDivElement;
+  protected _scrollTimer?: any;
+  protected _subscriptions: EventSubscription[] = [];
+  protected _defaults = {
+    announceCellChange: true,
+    announceFilterChange: true,
+    announceScroll: true,
+    announceSelectionChange: true,
+    announceSortChange: true,
+    delay: 500,
+    politeness: 'polite',
+  } as AriaAnnouncerOption;
+
+  /** Constructor of the SlickGrid 3rd party plugin, it can optionally receive options */
+  constructor(
+    protected readonly extensionUtility: ExtensionUtility,
+    protected readonly pubSubService: BasePubSubService,
+    protected readonly sharedService: SharedService
+  ) {
+    this._eventHandler = new SlickEventHandler();
+  }
+
+  get addonOptions(): AriaAnnouncer {
+    return this._addonOptions;
+  }
+
+  /** Getter of SlickGrid DataView object */
+  get dataView(): SlickDataView {
+    return this.grid?.getData<SlickDataView>() ?? {};
+  }
+
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  get grid(): SlickGrid {
+    return this._grid ?? this.sharedService.slickGrid ?? {};
+  }
+
+  get gridOptions(): GridOption {
+    return this.sharedService.gridOptions ?? {};
+  }
+
+  /** Getter of the live region DOM element */
+  get liveRegionElement(): HTMLDivElement | undefined {
+    return this._liveRegionElm;
+  }
+
+  /** Initialize plugin. */
+  init(grid: SlickGrid, ariaAnnouncerOptions?: AriaAnnouncer): this {
+    this._addonOptions = { ...this._defaults, ...ariaAnnouncerOptions };
+    this._grid = grid;
+    this.createLiveRegion();
+
+    if (this._addonOptions.announceSortChange) {
+      this._subscriptions.push(
+        this.pubSubService.subscribe<CurrentSorter[]>('onSortChanged', (sorters) => this.announceSortChange(sorters)),
+        this.pubSubService.subscribe('onSortCleared', () => this.announceSortChange([]))
+      );
+    }
+
+    if (this._addonOptions.announceFilterChange) {
+      ['onFilterChanged', 'onFilterCleared', 'onGlobalSearchChanged', 'onFilterExpressionChanged'].forEach((eventName) => {
+        this._subscriptions.push(this.pubSubService.subscribe(eventName, () => this.handleFilterChanged()));
+      });
+      if (this.dataView?.onSetItemsCalled) {
+        // a backend service will only have the new row count once the new data is loaded
+        this._eventHandler.subscribe(this.dataView.onSetItemsCalled, () => {
+          if (this._isRemoteFilterPending) {
+            this._isRemoteFilterPending = false;
+            this.scheduleFilterAnnouncement();
+          }
+        });
+      }
+    }
+
+    if (this._addonOptions.announceCellChange && grid?.onCellChange) {
+      this._eventHandler.subscribe(grid.onCellChange, (_e, args) => {
+        this.announce(this.translateText('ARIA_CELL_UPDATED').replace('{{x}}', this.getColumnName(args.column)));
+      });
+    }
+
+    if (this._addonOptions.announceSelectionChange && grid?.onSelectedRowsChanged) {
+      this._eventHandler.subscribe(grid.onSelectedRowsChanged, (_e, args) => {
+        this.announce(this.translateText('ARIA_ROWS_SELECTED').replace('{{x}}', String(args.rows?.length ?? 0)));
+      });
+    }
+
+    if (this._addonOptions.announceScroll && grid?.onViewportChanged) {
+      this._eventHandler.subscribe(grid.onViewportChanged, () => {
+        clearTimeout(this._scrollTimer);
+        this._scrollTimer = setTimeout(() => this.announceViewport(), this._addonOptions.delay);
+      });
+    }
+    return this;
+  }
+
+  /** Dispose (destroy) the SlickGrid 3rd party plugin */
+  dispose(): void {
+    this._eventHandler?.unsubscribeAll();
+    this.pubSubService.unsubscribeAll(this._subscriptions);
+    this._subscriptions = [];
+    clearTimeout(this._filterTimer);
+    clearTimeout(this._scrollTimer);
+    this._liveRegionElm?.remove();
+    this._liveRegionElm = undefined;
+  }
+
+  /**
+   * Announce a message to the screen readers
+   * @param {String} message - text to announce
+   */
+  announce(message: string): void {
+    if (this._liveRegionElm && message) {
+      // the screen readers won't announce the exact same text twice in a row, so we alternate it with a trailing non-breaking space
+      this._liveRegionElm.textContent = message === this._liveRegionElm.textContent ? `${message}\u00A0` : message;
+    }
+  }
+
+  // -----------------------
+  // protected functions
+  // -----------------------
+
+  /** Announce the number of rows found after a filter change */
+  protected announceFilterChange(): void {
+    const rowCount = this.gridOptions.backendServiceApi
+      ? (this.gridOptions.pagination?.totalItems ?? this.dataView.getLength())
+      : this.dataView.getFilteredItemCount();
+    this.announce(this.translateText('ARIA_ROWS_FOUND').replace('{{x}}', String(rowCount)));
+  }
+
+  /** Announce the sorted column(s) with their sort direction or that the sorting was removed */
+  protected announceSortChange(sorters: CurrentSorter[]): void {
+    if (!Array.isArray(sorters) || sorters.length === 0) {
+      this.announce(this.translateText('ARIA_SORTING_REMOVED'));
+    } else {
+      const columns = this.grid.getColumns?.() ?? [];
+      const sortedColumns = sorters.map((sorter) => {
+        const columnDef = columns.find((col) => col.id === sorter.columnId);
+        const direction = this.translateText(sorter.direction.toUpperCase() === 'DESC' ? 'ARIA_SORT_DESCENDING' : 'ARIA_SORT_ASCENDING');
+        return `${columnDef ? this.getColumnName(columnDef) : sorter.columnId} ${direction}`;
+      });
+      this.announce(this.translateText('ARIA_SORTED_BY').replace('{{x}}', sortedColumns.join(', ')));
+    }
+  }
+
+  /** Announce the rows visible in the viewport, unless they are the same rows that were previously announced */
+  protected announceViewport(): void {
+    const rowCount = this.dataView.getLength?.() ?? 0;
+    const viewport = this.grid.getViewport?.();
+    if (viewport && rowCount > 0) {
+      const message = this.translateText('ARIA_SHOWING_ROWS')
+        .replace('{{x}}', String(Math.min(viewport.top + 1, rowCount)))
+        .replace('{{y}}', String(Math.min(viewport.bottom, rowCount)))
+        .replace('{{z}}', String(rowCount));
+      if (message !== this._lastViewportMessage) {
+        this._lastViewportMessage = message;
+        this.announce(message);
+      }
+    }
+  }
+
+  /** Create the visually hidden live region right after the grid container */
+  protected createLiveRegion(): void {
+    const containerElm = this.grid.getContainerNode?.();
+    if (containerElm) {
+      this._liveRegionElm = createDomElement('div', { className: 'slick-aria-live-region' });
+      this._liveRegionElm.setAttribute('aria-live', this._addonOptions.politeness || 'polite');
+      this._liveRegionElm.setAttribute('aria-atomic', 'true');
+      if (containerElm.parentElement) {
+        containerElm.insertAdjacentElement('afterend', this._liveRegionElm);
+      } else {
+        containerElm.appendChild(this._liveRegionElm);
+      }
+    }
+  }
+
+  /** Get the column name as plain text (the column name could be an HTML string or an element) */
+  protected getColumnName(columnDef?: Column): string {
+    return stripTags(getHtmlStringOutput(columnDef?.name || '', 'innerHTML')) || String(columnDef?.id ?? '');
+  }
+
+  protected handleFilterChanged(): void {
+    if (this.gridOptions.backendServiceApi) {
+      this._isRemoteFilterPending = true;
+    } else {
+      this.scheduleFilterAnnouncement();
+    }
+  }
+
+  /** Announce the filter change after a delay, the user might still be typing a filter value */
+  protected scheduleFilterAnnouncement(): void {
+    clearTimeout(this._filterTimer);
+    this._filterTimer = setTimeout(() => this.announceFilterChange(), this._addonOptions.delay);
+  }
+
+  protected translateText(key: string): string {
+    const translationPrefix = getTranslationPrefix(this.gridOptions);
+    return this.extensionUtility.translateWhenEnabledAndServiceExist(`${translationPrefix}${key}`, `TEXT_${key}`);
+  }
+}
@@ -57,6 +57,11 @@ export class SlickCellExcelCopyManager {
     return this._undoRedoBuffer;
   }
 
+  /** Setter of the undo redo buffer, for example the `UndoRedoService` will replace it to record all pastes in its own history */
+  set undoRedoBuffer(undoRedoBuffer: EditUndoRedoBuffer) {
+    this._undoRedoBuffer = undoRedoBuffer;
+  }
+
   init(grid: SlickGrid, options?: ExcelCopyBufferOption): void {
     this._grid = grid;
     this.createUndoRedoBuffer();
@@ -185,7 +190,8 @@ export class SlickCellExcelCopyManager {
 
   /** Hook an undo shortcut key hook that will redo/undo the copy buffer using Ctrl+(Shift)+Z keyboard events */
   protected handleBodyKeyDown(e: KeyboardEvent): void {
-    if (e.key === 'Z' && (e.ctrlKey || e.metaKey)) {
+    // when the Undo/Redo is enabled, the keyboard shortcuts are already handled by the UndoRedoService
+    if (e.key === 'Z' && (e.ctrlKey || e.metaKey) && !this.gridOptions.enableUndoRedo) {
       if (e.shiftKey) {
         this._undoRedoBuffer.redo(); // Ctrl + Shift + Z
       } else {
@@ -0,0 +1,257 @@
+import { isNumber } from '@slickgrid-universal/utils';
+import { SlickEventHandler, SlickNonDataItem, type DataIdType, type SlickDataView, type SlickGrid } from '../core/index.js';
+import type { ChangeIndicator, ChangeIndicatorOption, Column, CssStyleHash, GridOption } from '../interfaces/index.js';
+import type { SharedService } from '../services/shared.service.js';
+import { getDescendantProperty } from '../services/utilities.js';
+
+/** Indicator of a cell which had its value changed, it is kept until its duration expired */
+interface CellChangeIndicator {
+  cssClass: string;
+}
+
+/**
+ * A plugin to automatically flash the cells of the columns having a `changeIndicator` when their value changed after an item update,
+ * it works with any item update done through the `GridService.updateItem()` or directly with the DataView (`updateItem`, `updateItems`, ...).
+ * A snapshot of the values of these columns is kept for every item and is compared with the new values every time the DataView rows changed,
+ * a numeric value increase/decrease is flashed with different CSS classes and an optional delta arrow, any other value change uses a generic CSS class.
+ *
+ * NOTES:
+ *     The CSS classes are applied through the grid cell CSS styles (`setCellCssStyles`) so that they remain on the cells even when the rows are re-rendered.
+ *     Replacing the entire dataset (`setItems`) only refreshes the snapshot and never flashes any cell.
+ *
+ * To use the plugin, just add a `changeIndicator` to your column definitions (the "enableChangeIndicator" grid option is enabled by default)
+ *   this.gridOptions = { changeIndicator: { duration: 1500 } };
+ *   this.columnDefinitions = [
+ *     { id: 'price', name: 'Price', field: 'price', type: 'number', changeIndicator: { showDeltaArrow: true } },
+ *     { id: 'status', name: 'Status', field: 'status', changeIndicator: true },
+ *   ];
+ */
+export class SlickChangeIndicator {
+  readonly pluginName = 'ChangeIndicator';
+
+  protected _addonOptions!: ChangeIndicator;
+  protected _cellIndicators: Map<DataIdType, Map<string | number, CellChangeIndicator>> = new Map();
+  protected _cssStylesKey = 'change-indicator';
+  protected _eventHandler: SlickEventHandler;
+  protected _expiryTimers: Set<any> = new Set();
+  protected _grid?: SlickGrid;
+  protected _snapshot: Map<DataIdType, Record<string, any>> = new Map();
+  protected _defaults = {
+    arrowCssClass: 'change-indicator-arrow',
+    changedCssClass: 'change-indicator-changed',
+    downCssClass: 'change-indicator-down',
+    duration: 1000,
+    showDeltaArrow: false,
+    upCssClass: 'change-indicator-up',
+  } as ChangeIndicatorOption;
+
+  /** Constructor of the SlickGrid 3rd party plugin, it can optionally receive options */
+  constructor(protected readonly sharedService: SharedService) {
+    this._eventHandler = new SlickEventHandler();
+  }
+
+  get addonOptions(): ChangeIndicator {
+    return this._addonOptions;
+  }
+
+  /** Getter of SlickGrid DataView object */
+  get dataView(): SlickDataView {
+    return this.grid?.getData<SlickDataView>() ?? {};
+  }
+
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  get grid(): SlickGrid {
+    return this._grid ?? this.sharedService.slickGrid ?? {};
+  }
+
+  get gridOptions(): GridOption {
+    return this.sharedService.gridOptions ?? {};
+  }
+
+  /** Initialize plugin. */
+  init(grid: SlickGrid, changeIndicatorOptions?: ChangeIndicator): this {
+    this._addonOptions = { ...this._defaults, ...changeIndicatorOptions };
+    this._grid = grid;
+    this._cssStylesKey = `change-indicator-${grid?.getUID?.() ?? ''}`;
+
+    const dataView = this.dataView;
+    if (dataView?.onRowsChanged) {
+      this._eventHandler.subscribe(dataView.onRowsChanged, (_e, args) => this.handleRowsChanged(args.rows));
+    }
+    if (dataView?.onRowCountChanged) {
+      // items might have been deleted, their snapshot must then be removed to avoid keeping them in memory
+      this._eventHandler.subscribe(dataView.onRowCountChanged, () => this.pruneDeletedItems());
+    }
+    if (dataView?.onSetItemsCalled) {
+      // a new dataset should never be flashed, we only need to take a new snapshot of its values
+      this._eventHandler.subscribe(dataView.onSetItemsCalled, () => this.resetSnapshot());
+    }
+    this.resetSnapshot();
+    return this;
+  }
+
+  /** Dispose (destroy) the SlickGrid 3rd party plugin */
+  dispose(): void {
+    this._eventHandler?.unsubscribeAll();
+    this._expiryTimers.forEach((timer) => clearTimeout(timer));
+    this._expiryTimers.clear();
+    this._cellIndicators.clear();
+    this._snapshot.clear();
+  }
+
+  /** Remove every change indicator currently displayed */
+  clearIndicators(): void {
+    this._expiryTimers.forEach((timer) => clearTimeout(timer));
+    this._expiryTimers.clear();
+    this._cellIndicators.clear();
+    this.grid?.removeCellCssStyles?.(this._cssStylesKey);
+  }
+
+  /** Take a new snapshot of the values of every column having a change indicator, for all the items of the DataView */
+  resetSnapshot(): void {
+    this._snapshot.clear();
+    this.clearIndicators();
+    const trackedColumns = this.getTrackedColumns();
+    if (trackedColumns.length > 0) {
+      const idPropName = this.gridOptions.datasetIdPropertyName ?? 'id';
+      (this.dataView.getItems?.() ?? []).forEach((item) => {
+        if (item?.[idPropName] !== undefined) {
+          this._snapshot.set(item[idPropName], this.getTrackedValues(item, trackedColumns));
+        }
+      });
+    }
+  }
+
+  // -----------------------
+  // protected functions
+  // -----------------------
+
+  /** Apply the CSS classes of all the change indicators to the cells, the rows are found by their item id since they might have moved (e.g. sorting) */
+  protected applyCellCssStyles(): void {
+    const hash: CssStyleHash = {};
+    this._cellIndicators.forEach((cellIndicators, id) => {
+      const row = this.dataView.getRowById(id);
+      if (row !== undefined) {
+        hash[row] = {};
+        cellIndicators.forEach((indicator, columnId) => (hash[row][columnId] = indicator.cssClass));
+      }
+    });
+    this.grid.setCellCssStyles(this._cssStylesKey, hash);
+  }
+
+  /** Get the CSS classes of the change indicator of a cell (up/down for numbers, a generic changed CSS class for anything else) */
+  protected getCssClasses(columnDef: Column, oldValue: any, newValue: any): string {
+    const options = this.getColumnOptions(columnDef);
+    if (isNumber(oldValue) && isNumber(newValue)) {
+      const cssClasses = [+newValue > +oldValue ? options.upCssClass : options.downCssClass];
+      if (options.showDeltaArrow) {
+        cssClasses.push(options.arrowCssClass);
+      }
+      return cssClasses.join(' ');
+    }
+    return options.changedCssClass || '';
+  }
+
+  /** Get the change indicator options of a column merged with the plugin options */
+  protected getColumnOptions(columnDef: Column): ChangeIndicatorOption {
+    return typeof columnDef.changeIndicator === 'object' ? { ...this._addonOptions, ...columnDef.changeIndicator } : this._addonOptions;
+  }
+
+  /** Get all the columns which have a change indicator */
+  protected getTrackedColumns(): Column[] {
+    return (this.grid.getColumns?.() ?? []).filter((columnDef) => columnDef.changeIndicator && columnDef.field);
+  }
+
+  protected getTrackedValues(item: any, trackedColumns: Column[]): Record<string, any> {
+    const values: Record<string, any> = {};
+    trackedColumns.forEach((columnDef) => (values[columnDef.field] = getDescendantProperty(item, columnDef.field)));
+    return values;
+  }
+
+  /** Compare the values of the changed rows with the snapshot and flash the cells which had their value changed */
+  protected handleRowsChanged(rows: number[]): void {
+    const trackedColumns = this.getTrackedColumns();
+    if (!trackedColumns.length || !Array.isArray(rows)) {
+      return;
+    }
+    this.pruneDeletedItems();
+    const idPropName = this.gridOptions.datasetIdPropertyName ?? 'id';
+    const newIndicatorsByDuration = new Map<number, Array<[DataIdType, string | number, CellChangeIndicator]>>();
+
+    rows.forEach((row) => {
+      const item = this.dataView.getItem(row);
+      const id = item?.[idPropName];
+      if (id === undefined || item instanceof SlickNonDataItem) {
+        return;
+      }
+      const newValues = this.getTrackedValues(item, trackedColumns);
+      const oldValues = this._snapshot.get(id);
+      this._snapshot.set(id, newValues);
+
+      if (oldValues) {
+        trackedColumns.forEach((columnDef) => {
+          const field = columnDef.field;
+          const duration = this.getColumnOptions(columnDef).duration ?? 0;
+          // a column which just started to be tracked doesn't have any previous value to compare with
+          if (duration > 0 && field in oldValues && oldValues[field] !== newValues[field]) {
+            const indicator: CellChangeIndicator = { cssClass: this.getCssClasses(columnDef, oldValues[field], newValues[field]) };
+            if (!this._cellIndicators.has(id)) {
+              this._cellIndicators.set(id, new Map());
+            }
+            this._cellIndicators.get(id)!.set(columnDef.id, indicator);
+            if (!newIndicatorsByDuration.has(duration)) {
+              newIndicatorsByDuration.set(duration, []);
+            }
+            newIndicatorsByDuration.get(duration)!.push([id, columnDef.id, indicator]);
+          }
+        });
+      }
+    });
+
+    // remove the new indicators once their duration expired, unless they were replaced by a more recent change in the meantime
+    newIndicatorsByDuration.forEach((indicators, duration) => {
+      const timer = setTimeout(() => {
+        this._expiryTimers.delete(timer);
+        this.removeIndicators(indicators);
+      }, duration);
+      this._expiryTimers.add(timer);
+    });
+
+    // the rows might have moved (sorting, filtering), so we always need to re-apply the remaining indicators
+    if (this._cellIndicators.size > 0) {
+      this.applyCellCssStyles();
+    }
+  }
+
+  /**
+   * Remove the snapshot & change indicators of the items that no longer exist in the DataView (e.g. deleted by the Live Data Service),
+   * the snapshot can only have more entries than the DataView items when some of its items were deleted
+   */
+  protected pruneDeletedItems(): void {
+    if (this._snapshot.size > (this.dataView.getItemCount?.() ?? 0)) {
+      this._snapshot.forEach((_values, id) => {
+        if (this.dataView.getIdxById(id) === undefined) {
+          this._snapshot.delete(id);
+          this._cellIndicators.delete(id);
+        }
+      });
+    }
+  }
+
+  /** Remove some change indicators and re-apply the remaining ones */
+  protected removeIndicators(indicators: Array<[DataIdType, string | number, CellChangeIndicator]>): void {
+    indicators.forEach(([id, columnId, indicator]) => {
+      const cellIndicators = this._cellIndicators.get(id);
+      if (cellIndicators?.get(columnId) === indicator) {
+        cellIndicators.delete(columnId);
+        if (cellIndicators.size === 0) {
+          this._cellIndicators.delete(id);
+        }
+      }
+    });
+    this.applyCellCssStyles();
+  }
+}
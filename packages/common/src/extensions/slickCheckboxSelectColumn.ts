@@ -32,6 +32,8 @@ export class SlickCheckboxSelectColumn<T = any> {
     field: DEFAULT_COLUMN_ID,
     hideSelectAllCheckbox: false,
     name: '',
+    rowCheckboxAriaLabel: 'Select Row',
+    selectAllAriaLabel: 'Select All Rows',
     toolTip: 'Select/Deselect All',
     width: 30,
     reorderable: false,
@@ -252,8 +254,11 @@ export class SlickCheckboxSelectColumn<T = any> {
     const labelElm = createDomElement('label', { className: 'checkbox-selector-label selectall', htmlFor: inputId });
     const divElm = createDomElement('div', { className: 'icon-checkbox-container' });
     divElm.classList[isChecked ? 'add' : 'remove']('checked');
+    const ariaLabel =
+      (inputId.startsWith('header-') ? this._addonOptions.selectAllAriaLabel : this._addonOptions.rowCheckboxAriaLabel) || null;
+    const ariaChecked = isPartialChecked && !isChecked ? 'mixed' : String(isChecked);
     divElm.appendChild(
-      createDomElement('input', { id: inputId, type: 'checkbox', checked: isChecked, ariaChecked: String(isChecked), tabIndex: -1 })
+      createDomElement('input', { id: inputId, type: 'checkbox', checked: isChecked, ariaChecked, ariaLabel, tabIndex: -1 })
     );
     divElm.appendChild(createDomElement('div', { className: this.getCheckboxIcon(isChecked, isPartialChecked) }));
     labelElm.appendChild(divElm);
@@ -359,7 +364,15 @@ export class SlickCheckboxSelectColumn<T = any> {
         const inputId = `header-filter-selector${this._selectAll_UID}`;
         const labelElm = createDomElement('label', { id: 'filter-checkbox-selectall-container', htmlFor: inputId });
         const divElm = createDomElement('div', { className: 'icon-checkbox-container', tabIndex: 0 });
-        divElm.appendChild(createDomElement('input', { id: inputId, type: 'checkbox', ariaChecked: 'false', tabIndex: -1 }));
+        divElm.appendChild(
+          createDomElement('input', {
+            id: inputId,
+            type: 'checkbox',
+            ariaChecked: 'false',
+            ariaLabel: this._addonOptions.selectAllAriaLabel || null,
+            tabIndex: -1,
+          })
+        );
         divElm.appendChild(createDomElement('div', { className: `sgi ${UNCHECK_ICON}` }));
 
         labelElm.appendChild(divElm);
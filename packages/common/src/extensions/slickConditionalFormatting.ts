@@ -0,0 +1,546 @@
+import type { BasePubSubService, EventSubscription } from '@slickgrid-universal/event-pub-sub';
+import { createDomElement, isNumber } from '@slickgrid-universal/utils';
+import { Constants } from '../constants.js';
+import { SlickEvent, SlickEventHandler, SlickNonDataItem, type SlickDataView, type SlickGrid } from '../core/index.js';
+import { applyHtmlToElement } from '../core/utils.js';
+import type { SearchTerm } from '../enums/index.js';
+import { FilterConditions, getParsedSearchTermsByFieldType } from '../filter-conditions/index.js';
+import type {
+  Column,
+  ConditionalFormatting,
+  ConditionalFormattingOption,
+  ConditionalFormattingRule,
+  ConditionalFormattingStyle,
+  CurrentConditionalFormatting,
+  FilterConditionOption,
+  Formatter,
+  FormatterResultWithHtml,
+  GridOption,
+  ItemMetadata,
+} from '../interfaces/index.js';
+import type { SharedService } from '../services/shared.service.js';
+import { getDescendantProperty } from '../services/utilities.js';
+import type { ExtensionUtility } from './extensionUtility.js';
+
+/** Rule types requiring the statistics (min, max, average, ...) of all the column values to be evaluated */
+const STATISTICAL_RULE_TYPES = ['colorScale', 'dataBar', 'iconSet', 'topN', 'bottomN', 'aboveAverage', 'belowAverage'];
+
+interface ColumnStatistics {
+  min: number;
+  max: number;
+  average: number;
+  /** all numeric values of the column sorted in ascending order */
+  sortedValues: number[];
+}
+
+interface CellFormatting {
+  style: ConditionalFormattingStyle;
+  dataBar?: { color: string; percent: number };
+  iconCssClass?: string;
+  showValue: boolean;
+}
+
+/**
+ * A plugin to add Conditional Formatting rules on any column, the rules are evaluated while the cells are rendered
+ * and they are similar to the Excel conditional formatting (highlight cell rules, color scales, data bars, icon sets, top N, above average).
+ * The rules can be provided on each column definition (`conditionalFormatting`) or be added by the user from the Header Menu.
+ *
+ * NOTES:
+ *     The rules are applied through the DataView item metadata (column formatter override) which means that the
+ *     column `formatter` is never modified and is still used to render the cell value (the Excel export keeps its own native rules).
+ *
+ * To use the plugin, just enable it and add rules to your column definitions
+ *   this.gridOptions = { enableConditionalFormatting: true };
+ *   this.columnDefinitions = [{
+ *     id: 'duration', name: 'Duration', field: 'duration', type: 'number',
+ *     conditionalFormatting: [
+ *       { type: 'cellValue', operator: '>', searchTerms: [90], style: { backgroundColor: '#ffc7ce', color: '#9c0006' } },
+ *       { type: 'dataBar' },
+ *     ],
+ *   }];
+ */
+export class SlickConditionalFormatting {
+  onConditionalFormattingChanged: SlickEvent;
+  readonly pluginName = 'ConditionalFormatting';
+
+  protected _addonOptions!: ConditionalFormatting;
+  protected _columnStats: Map<string | number, ColumnStatistics> = new Map();
+  protected _eventHandler: SlickEventHandler;
+  protected _grid?: SlickGrid;
+  protected _parsedSearchTerms: WeakMap<ConditionalFormattingRule, SearchTerm | SearchTerm[] | undefined> = new WeakMap();
+  protected _subscriptions: EventSubscription[] = [];
+  protected _defaults = {
+    colorScaleColors: Constants.DEFAULT_CONDITIONAL_FORMATTING_COLOR_SCALE_COLORS,
+    dataBarColor: Constants.DEFAULT_CONDITIONAL_FORMATTING_DATA_BAR_COLOR,
+    highlightStyle: { backgroundColor: '#ffc7ce', color: '#9c0006' },
+    iconSets: {
+      arrows: ['mdi mdi-arrow-down color-danger', 'mdi mdi-arrow-right color-warning', 'mdi mdi-arrow-up color-success'],
+      symbols: ['mdi mdi-close-circle color-danger', 'mdi mdi-alert-circle color-warning', 'mdi mdi-check-circle color-success'],
+      trafficLights: ['mdi mdi-circle color-danger', 'mdi mdi-circle color-warning', 'mdi mdi-circle color-success'],
+    },
+  } as ConditionalFormattingOption;
+
+  /** Constructor of the SlickGrid 3rd party plugin, it can optionally receive options */
+  constructor(
+    protected readonly extensionUtility: ExtensionUtility,
+    protected readonly pubSubService: BasePubSubService,
+    protected readonly sharedService: SharedService
+  ) {
+    this.onConditionalFormattingChanged = new SlickEvent<{ caller?: string; conditionalFormatting: CurrentConditionalFormatting[] }>(
+      'onConditionalFormattingChanged'
+    );
+    this._eventHandler = new SlickEventHandler();
+  }
+
+  get addonOptions(): ConditionalFormattingOption {
+    return this._addonOptions;
+  }
+
+  /** Getter of SlickGrid DataView object */
+  get dataView(): SlickDataView {
+    return this.grid?.getData<SlickDataView>() ?? {};
+  }
+
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  get grid(): SlickGrid {
+    return this._grid ?? this.sharedService.slickGrid ?? {};
+  }
+
+  get gridOptions(): GridOption {
+    return this.sharedService.gridOptions ?? {};
+  }
+
+  /** Initialize plugin. */
+  init(grid: SlickGrid, conditionalFormattingOptions?: ConditionalFormatting): this {
+    this._addonOptions = {
+      ...this._defaults,
+      ...conditionalFormattingOptions,
+      iconSets: { ...this._defaults.iconSets, ...conditionalFormattingOptions?.iconSets },
+    };
+    this._grid = grid;
+
+    // add PubSub instance to all SlickEvent
+    this.onConditionalFormattingChanged.setPubSubService(this.pubSubService);
+
+    // apply the rules through the item metadata, similar to the Row Based Edit plugin
+    const dataView = this.dataView;
+    if (dataView) {
+      const originalGetItemMetadata = dataView.getItemMetadata;
+      dataView.getItemMetadata = this.updateItemMetadata(originalGetItemMetadata?.bind?.(dataView));
+
+      // any data change will require the statistics (min, max, average) to be recalculated
+      if (dataView.onRowsOrCountChanged) {
+        this._eventHandler.subscribe(dataView.onRowsOrCountChanged, () => this.refreshStatistics());
+      }
+      if (dataView.onSetItemsCalled) {
+        this._eventHandler.subscribe(dataView.onSetItemsCalled, () => this._columnStats.clear());
+      }
+    }
+    if (grid?.onCellChange) {
+      this._eventHandler.subscribe(grid.onCellChange, () => this.refreshStatistics());
+    }
+
+    this._subscriptions.push(
+      this.pubSubService.subscribe<{ columnId: string | number; command: string }>('onHeaderMenuConditionalFormatting', (args) =>
+        this.executeHeaderMenuCommand(args.columnId, args.command)
+      )
+    );
+
+    // Grid State presets have precedence over the rules defined in the column definitions
+    if (Array.isArray(this.gridOptions.presets?.conditionalFormatting)) {
+      this.setConditionalFormatting(this.gridOptions.presets.conditionalFormatting, false);
+    }
+    return this;
+  }
+
+  /** Dispose (destroy) the SlickGrid 3rd party plugin */
+  dispose(): void {
+    this._eventHandler?.unsubscribeAll();
+    this.pubSubService.unsubscribeAll(this._subscriptions);
+    this._subscriptions = [];
+    this._columnStats.clear();
+  }
+
+  /** Add a new rule to a column, any existing rule of the same type (except "cellValue" rules) will be replaced */
+  addColumnRule(columnId: string | number, rule: ConditionalFormattingRule, triggerEvent = true): void {
+    const rules = this.getColumnRules(columnId).filter((r) => r.type === 'cellValue' || r.type !== rule.type);
+    this.setColumnRules(columnId, [...rules, rule], triggerEvent);
+  }
+
+  /** Clear all Conditional Formatting rules of every column */
+  clearAllRules(triggerEvent = true): void {
+    this.getAllColumns().forEach((col) => delete col.conditionalFormatting);
+    this.applyRuleChanges(triggerEvent);
+  }
+
+  /** Clear all Conditional Formatting rules of a column */
+  clearColumnRules(columnId: string | number, triggerEvent = true): void {
+    this.setColumnRules(columnId, [], triggerEvent);
+  }
+
+  /** Get the Conditional Formatting rules of a column */
+  getColumnRules(columnId: string | number): ConditionalFormattingRule[] {
+    return this.getColumnById(columnId)?.conditionalFormatting ?? [];
+  }
+
+  /** Get the current Conditional Formatting rules of every column that has at least 1 rule (used by the Grid State) */
+  getCurrentConditionalFormatting(): CurrentConditionalFormatting[] {
+    return this.getAllColumns()
+      .filter((col) => Array.isArray(col.conditionalFormatting) && col.conditionalFormatting.length > 0)
+      .map((col) => ({ columnId: col.id, rules: (col.conditionalFormatting as ConditionalFormattingRule[]).map((rule) => ({ ...rule })) }));
+  }
+
+  /** Replace the Conditional Formatting rules of a column */
+  setColumnRules(columnId: string | number, rules: ConditionalFormattingRule[], triggerEvent = true): void {
+    const columnDef = this.getColumnById(columnId);
+    if (columnDef) {
+      if (Array.isArray(rules) && rules.length > 0) {
+        columnDef.conditionalFormatting = rules;
+      } else {
+        delete columnDef.conditionalFormatting;
+      }
+      this.applyRuleChanges(triggerEvent);
+    }
+  }
+
+  /**
+   * Replace the Conditional Formatting rules of every column, any column not provided in the list will have its rules cleared.
+   * This is typically used by the Grid State presets.
+   */
+  setConditionalFormatting(conditionalFormatting: CurrentConditionalFormatting[], triggerEvent = true): void {
+    this.getAllColumns().forEach((col) => {
+      const columnRules = conditionalFormatting.find((cf) => cf.columnId === col.id)?.rules;
+      if (Array.isArray(columnRules) && columnRules.length > 0) {
+        col.conditionalFormatting = columnRules.map((rule) => ({ ...rule }));
+      } else {
+        delete col.conditionalFormatting;
+      }
+    });
+    this.applyRuleChanges(triggerEvent);
+  }
+
+  /**
+   * Evaluate all Conditional Formatting rules of a column for a specific item (data context)
+   * @param {Column} columnDef - column definition
+   * @param {*} item - item data context
+   * @returns {CellFormatting | null} - cell formatting or null when no rule is matching
+   */
+  evaluateCellRules(columnDef: Column, item: any): CellFormatting | null {
+    const rules = columnDef.conditionalFormatting ?? [];
+    const cellValue = getDescendantProperty(item, columnDef.field);
+    const numericValue = isNumber(cellValue) ? +cellValue : NaN;
+    const formatting: CellFormatting = { style: {}, showValue: true };
+    let isMatching = false;
+
+    for (const rule of rules) {
+      let isRuleMatching = false;
+      const stats = STATISTICAL_RULE_TYPES.includes(rule.type) ? this.getColumnStatistics(columnDef) : undefined;
+
+      switch (rule.type) {
+        case 'cellValue':
+          isRuleMatching = this.isCellValueMatching(columnDef, item, cellValue, rule);
+          break;
+        case 'colorScale':
+          if (stats && !isNaN(numericValue)) {
+            this.assignStyle(formatting.style, { backgroundColor: this.getColorScaleColor(numericValue, stats, rule) });
+            isRuleMatching = true;
+          }
+          break;
+        case 'dataBar':
+          if (stats && !isNaN(numericValue) && formatting.dataBar === undefined) {
+            const lowerBound = Math.min(0, stats.min);
+            const range = stats.max - lowerBound;
+            const percent = range > 0 ? ((numericValue - lowerBound) / range) * 100 : 100;
+            formatting.dataBar = {
+              color: rule.colors?.[0] ?? this._addonOptions.dataBarColor ?? '',
+              percent: Math.max(0, Math.min(100, percent)),
+            };
+            formatting.showValue &&= rule.showValue !== false;
+            isRuleMatching = true;
+          }
+          break;
+        case 'iconSet':
+          if (stats && !isNaN(numericValue) && formatting.iconCssClass === undefined) {
+            const icons = this._addonOptions.iconSets?.[rule.iconSet ?? 'arrows'] ?? [];
+            const range = stats.max - stats.min;
+            const position = range > 0 ? (numericValue - stats.min) / range : 1;
+            formatting.iconCssClass = icons[position < 1 / 3 ? 0 : position < 2 / 3 ? 1 : 2];
+            formatting.showValue &&= rule.showValue !== false;
+            isRuleMatching = true;
+          }
+          break;
+        case 'topN':
+        case 'bottomN':
+          if (stats && !isNaN(numericValue) && stats.sortedValues.length > 0) {
+            const count = stats.sortedValues.length;
+            const rank = rule.percent ? Math.ceil((count * (rule.rank ?? 10)) / 100) : (rule.rank ?? 10);
+            const index = Math.max(0, Math.min(count, rank) - 1);
+            isRuleMatching =
+              rule.type === 'topN' ? numericValue >= stats.sortedValues[count - 1 - index] : numericValue <= stats.sortedValues[index];
+          }
+          break;
+        case 'aboveAverage':
+        case 'belowAverage':
+          if (stats && !isNaN(numericValue)) {
+            isRuleMatching = rule.type === 'aboveAverage' ? numericValue > stats.average : numericValue < stats.average;
+          }
+          break;
+      }
+
+      if (isRuleMatching) {
+        isMatching = true;
+        if (rule.style) {
+          this.assignStyle(formatting.style, rule.style);
+        }
+        if (rule.stopIfTrue) {
+          break;
+        }
+      }
+    }
+    return isMatching ? formatting : null;
+  }
+
+  /**
+   * Get the statistics (min, max, average & sorted values) of all the numeric values of a column,
+   * they are calculated from the filtered items and are kept in cache until the data changes
+   */
+  getColumnStatistics(columnDef: Column): ColumnStatistics {
+    let stats = this._columnStats.get(columnDef.id);
+    if (!stats) {
+      const items = this.dataView.getFilteredItems?.() ?? this.dataView.getItems?.() ?? [];
+      const values: number[] = [];
+      for (const item of items) {
+        const value = getDescendantProperty(item, columnDef.field);
+        if (isNumber(value)) {
+          values.push(+value);
+        }
+      }
+      values.sort((a, b) => a - b);
+      const sum = values.reduce((total, val) => total + val, 0);
+      stats = {
+        min: values.length ? values[0] : 0,
+        max: values.length ? values[values.length - 1] : 0,
+        average: values.length ? sum / values.length : 0,
+        sortedValues: values,
+      };
+      this._columnStats.set(columnDef.id, stats);
+    }
+    return stats;
+  }
+
+  // --
+  // protected functions
+  // ------------------
+
+  /** Apply the rule changes by re-rendering the grid and optionally trigger the rules changed event */
+  protected applyRuleChanges(triggerEvent = true): void {
+    this._columnStats.clear();
+    this.grid.invalidate?.();
+
+    if (triggerEvent) {
+      this.onConditionalFormattingChanged.notify({
+        caller: 'conditionalFormatting',
+        conditionalFormatting: this.getCurrentConditionalFormatting(),
+      });
+    }
+  }
+
+  /** Assign style properties without overriding those that were already assigned by a previous rule (earlier rules have precedence) */
+  protected assignStyle(target: ConditionalFormattingStyle, source: ConditionalFormattingStyle): void {
+    for (const [prop, value] of Object.entries(source)) {
+      if (prop === 'cssClass') {
+        target.cssClass = [target.cssClass, value].filter((cssClass) => cssClass).join(' ');
+      } else if (target[prop as keyof ConditionalFormattingStyle] === undefined) {
+        (target as any)[prop] = value;
+      }
+    }
+  }
+
+  /** Execute a Header Menu command, e.g. add a "dataBar" rule to the column or clear the column rules */
+  protected executeHeaderMenuCommand(columnId: string | number, command: string): void {
+    const highlightStyle = { ...this._addonOptions.highlightStyle };
+
+    switch (command) {
+      case 'color-scale':
+        this.addColumnRule(columnId, { type: 'colorScale' });
+        break;
+      case 'data-bar':
+        this.addColumnRule(columnId, { type: 'dataBar' });
+        break;
+      case 'icon-set':
+        this.addColumnRule(columnId, { type: 'iconSet', iconSet: 'arrows' });
+        break;
+      case 'top-10-items':
+        this.addColumnRule(columnId, { type: 'topN', rank: 10, style: highlightStyle });
+        break;
+      case 'bottom-10-items':
+        this.addColumnRule(columnId, { type: 'bottomN', rank: 10, style: highlightStyle });
+        break;
+      case 'above-average':
+        this.addColumnRule(columnId, { type: 'aboveAverage', style: highlightStyle });
+        break;
+      case 'below-average':
+        this.addColumnRule(columnId, { type: 'belowAverage', style: highlightStyle });
+        break;
+      case 'clear-conditional-formatting':
+        this.clearColumnRules(columnId);
+        break;
+    }
+  }
+
+  protected getAllColumns(): Column[] {
+    return this.sharedService.allColumns ?? this.grid.getColumns?.() ?? [];
+  }
+
+  protected getColumnById(columnId: string | number): Column | undefined {
+    return this.getAllColumns().find((col) => col.id === columnId);
+  }
+
+  /** Interpolate the color scale color (2 or 3 colors) of a numeric value by its position in the column values range */
+  protected getColorScaleColor(value: number, stats: ColumnStatistics, rule: ConditionalFormattingRule): string {
+    const colors = rule.colors?.length ? rule.colors : (this._addonOptions.colorScaleColors ?? []);
+    const range = stats.max - stats.min;
+    const position = range > 0 ? (value - stats.min) / range : 1;
+    if (colors.length < 2) {
+      return colors[0] ?? '';
+    }
+    if (colors.length === 2) {
+      return interpolateHexColor(colors[0], colors[1], position);
+    }
+    return position < 0.5
+      ? interpolateHexColor(colors[0], colors[1], position * 2)
+      : interpolateHexColor(colors[1], colors[2], (position - 0.5) * 2);
+  }
+
+  /** Check if a cell value is matching a "cellValue" rule, it uses the same filter conditions as the column filters */
+  protected isCellValueMatching(columnDef: Column, item: any, cellValue: any, rule: ConditionalFormattingRule): boolean {
+    const fieldType = columnDef.type || 'string';
+    if (!this._parsedSearchTerms.has(rule)) {
+      this._parsedSearchTerms.set(rule, getParsedSearchTermsByFieldType(rule.searchTerms ?? [], fieldType));
+    }
+    const conditionOptions = {
+      dataKey: this.gridOptions.datasetIdPropertyName ? item[this.gridOptions.datasetIdPropertyName] : item.id,
+      cellValue,
+      operator: rule.operator ?? '',
+      searchTerms: rule.searchTerms ?? [],
+      fieldType,
+      defaultFilterRangeOperator: this.gridOptions.defaultFilterRangeOperator,
+      ignoreAccentOnStringFilterAndSort: this.gridOptions.ignoreAccentOnStringFilterAndSort ?? false,
+    } as FilterConditionOption;
+    return FilterConditions.executeFilterConditionTest(conditionOptions, this._parsedSearchTerms.get(rule) as SearchTerm[]);
+  }
+
+  /** Recalculate the statistics and re-render the grid but only when there are statistical rules (e.g. color scale) */
+  protected refreshStatistics(): void {
+    this._columnStats.clear();
+    const hasStatisticalRules = this.getAllColumns().some((col) =>
+      col.conditionalFormatting?.some((rule) => STATISTICAL_RULE_TYPES.includes(rule.type))
+    );
+    if (hasStatisticalRules) {
+      this.grid.invalidate?.();
+    }
+  }
+
+  /** Render the cell by wrapping the original formatter output inside a container that has the Conditional Formatting applied */
+  protected renderFormattedCell(formatting: CellFormatting, formatterOutput: ReturnType<Formatter>): FormatterResultWithHtml {
+    const { backgroundColor, color, bold, italic, cssClass } = formatting.style;
+    const containerElm = createDomElement('div', { className: 'slick-cf-content' });
+    if (backgroundColor) {
+      containerElm.style.backgroundColor = backgroundColor;
+    }
+    if (color) {
+      containerElm.style.color = color;
+    }
+    if (bold) {
+      containerElm.style.fontWeight = 'bold';
+    }
+    if (italic) {
+      containerElm.style.fontStyle = 'italic';
+    }
+    if (formatting.dataBar) {
+      createDomElement(
+        'span',
+        { className: 'slick-cf-data-bar', style: { backgroundColor: formatting.dataBar.color, width: `${formatting.dataBar.percent}%` } },
+        containerElm
+      );
+    }
+    if (formatting.iconCssClass) {
+      createDomElement('i', { className: `slick-cf-icon ${formatting.iconCssClass}` }, containerElm);
+    }
+
+    // the original formatter output could be a primitive, an HTML element or a formatter result object
+    const isResultObject =
+      formatterOutput !== null && typeof formatterOutput === 'object' && ('html' in formatterOutput || 'text' in formatterOutput);
+    const content = isResultObject ? ((formatterOutput as any).html ?? (formatterOutput as any).text) : formatterOutput;
+    if (formatting.showValue) {
+      const valueElm = createDomElement('span', { className: 'slick-cf-value' }, containerElm);
+      applyHtmlToElement(valueElm, content ?? '', {
+        enableHtmlRendering: this.gridOptions.enableHtmlRendering,
+        sanitizer: this.gridOptions.sanitizer,
+      });
+    }
+
+    return {
+      ...(isResultObject ? (formatterOutput as object) : {}),
+      addClasses: [isResultObject ? (formatterOutput as any).addClasses : '', 'slick-cf-cell', cssClass].filter((c) => c).join(' '),
+      html: containerElm,
+    } as FormatterResultWithHtml;
+  }
+
+  /** Wrap the DataView item metadata to add a formatter override on every column that has Conditional Formatting rules */
+  protected updateItemMetadata(previousItemMetadata: any): (rowNumber: number) => ItemMetadata | null {
+    return (rowNumber: number) => {
+      const meta: ItemMetadata | null = typeof previousItemMetadata === 'function' ? previousItemMetadata(rowNumber) : null;
+      const item = this.dataView.getItem?.(rowNumber);
+      const formattedColumns = this.grid.getColumns?.().filter((col) => col.conditionalFormatting?.length) ?? [];
+
+      // group rows, group totals and empty rows are never formatted
+      if (!item || item instanceof SlickNonDataItem || item.__group || item.__groupTotals || !formattedColumns.length) {
+        return meta;
+      }
+
+      // make a copy since the previous metadata could be shared by multiple rows
+      const columnsMeta: ItemMetadata['columns'] = { ...meta?.columns };
+      for (const columnDef of formattedColumns) {
+        const previousColumnMeta = meta?.columns?.[columnDef.id];
+        const baseFormatter = (previousColumnMeta?.formatter ||
+          meta?.formatter ||
+          columnDef.formatter ||
+          this.gridOptions.formatterFactory?.getFormatter(columnDef) ||
+          this.gridOptions.defaultFormatter) as Formatter | undefined;
+
+        columnsMeta[columnDef.id] = {
+          ...previousColumnMeta,
+          formatter: (row, cell, value, colDef, dataContext, grid) => {
+            const output = baseFormatter ? baseFormatter(row, cell, value, colDef, dataContext, grid) : (value ?? '');
+            const formatting = this.evaluateCellRules(colDef, dataContext);
+            return formatting ? this.renderFormattedCell(formatting, output) : output;
+          },
+        };
+      }
+      return { ...meta, columns: columnsMeta };
+    };
+  }
+}
+
+/** Interpolate between 2 hexadecimal colors (e.g. "#f8696b" & "#63be7b") by a ratio between 0 and 1 */
+function interpolateHexColor(startColor: string, endColor: string, ratio: number): string {
+  const parseHex = (hex: string) => {
+    const hexValue = hex.replace('#', '');
+    const fullHex = hexValue.length === 3 ? hexValue.replace(/(.)/g, '$1$1') : hexValue;
+    return [0, 2, 4].map((pos) => parseInt(fullHex.substring(pos, pos + 2), 16) || 0);
+  };
+  const start = parseHex(startColor);
+  const end = parseHex(endColor);
+  const boundedRatio = Math.max(0, Math.min(1, ratio));
+  return (
+    '#' +
+    start
+      .map((startVal, idx) => Math.round(startVal + (end[idx] - startVal) * boundedRatio))
+      .map((val) => val.toString(16).padStart(2, '0'))
+      .join('')
+  );
+}
@@ -0,0 +1,328 @@
+import { setDeepValue } from '@slickgrid-universal/utils';
+import { SlickEvent, SlickEventHandler, SlickRange, Utils as SlickUtils, type SlickEventData, type SlickGrid } from '../core/index.js';
+import type {
+  Column,
+  EditCommand,
+  EditorArguments,
+  FillCellChange,
+  FillCellValidationError,
+  FillHandleOption,
+  FillSeriesType,
+  OnBeforeFillCellsEventArgs,
+  OnDragReplaceCellsEventArgs,
+  OnFillCellsEventArgs,
+} from '../interfaces/index.js';
+import { formatDateByFieldType, mapTempoDateFormatWithFieldType, tryParseDate } from '../services/dateUtils.js';
+import { getColumnFieldType, getDescendantProperty, isColumnDateType } from '../services/utilities.js';
+
+const ONE_DAY_IN_MS = 86400000;
+
+/**
+ * Fill Handle plugin (drag-to-fill) which fills the extended cell range, when dragging the cell selection handle, like a spreadsheet would.
+ * The series used to fill each column (or row) is detected from the source values (copy, linear series, date series or pattern repeat),
+ * every value is validated by the column editor validator and all changes are committed through the grid `editCommandHandler` as a single command.
+ */
+export class SlickFillHandle {
+  readonly pluginName = 'FillHandle';
+  onBeforeFillCells: SlickEvent<OnBeforeFillCellsEventArgs>;
+  onFillCells: SlickEvent<OnFillCellsEventArgs>;
+
+  protected _addonOptions!: FillHandleOption;
+  protected _eventHandler: SlickEventHandler;
+  protected _grid!: SlickGrid;
+  protected _defaults = {
+    fillSeries: 'auto',
+    fillNonEditableColumns: false,
+  } as FillHandleOption;
+
+  constructor() {
+    this.onBeforeFillCells = new SlickEvent<OnBeforeFillCellsEventArgs>('onBeforeFillCells');
+    this.onFillCells = new SlickEvent<OnFillCellsEventArgs>('onFillCells');
+    this._eventHandler = new SlickEventHandler();
+  }
+
+  get addonOptions(): FillHandleOption {
+    return this._addonOptions;
+  }
+
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  init(grid: SlickGrid, options?: FillHandleOption): void {
+    this._grid = grid;
+    this._addonOptions = { ...this._defaults, ...options };
+
+    // add PubSub instance to all SlickEvent
+    const pubSub = grid.getPubSubService();
+    if (pubSub) {
+      SlickUtils.addSlickEventPubSubWhenDefined(pubSub, this);
+    }
+
+    this._eventHandler.subscribe(grid.onDragReplaceCells, this.handleDragReplaceCells.bind(this));
+  }
+
+  destroy(): void {
+    this.dispose();
+  }
+
+  /** Dispose (destroy) the SlickGrid 3rd party plugin */
+  dispose(): void {
+    this._eventHandler?.unsubscribeAll();
+  }
+
+  /**
+   * Fill the cells of the target range (excluding the source range) by using the series detected from the values of the source range.
+   * The source range is first extended vertically (each column is a series) and then horizontally (each row is a series).
+   * @param {SlickRange} sourceRange - range of the cells used as the source of the fill
+   * @param {SlickRange} targetRange - extended range, it must include the source range
+   * @returns {Array<FillCellChange>} list of filled cells
+   */
+  fillCells(sourceRange: SlickRange, targetRange: SlickRange): FillCellChange[] {
+    const eventArgs: OnBeforeFillCellsEventArgs = { sourceRange, targetRange };
+    const beforeEventData = this.onBeforeFillCells.notify(eventArgs);
+    if (beforeEventData.getReturnValue() === false || this._addonOptions.onBeforeFillCells?.(beforeEventData, eventArgs) === false) {
+      return [];
+    }
+
+    const columns = this._grid.getColumns();
+    const changes = new Map<string, FillCellChange>();
+    const validationErrors: FillCellValidationError[] = [];
+    const getCellValue = (row: number, cell: number) => {
+      const change = changes.get(`${row}:${cell}`);
+      return change ? change.value : getDescendantProperty(this._grid.getDataItem(row), columns[cell]?.field);
+    };
+    const fillCell = (row: number, cell: number, value: any) => {
+      const column = columns[cell];
+      const item = this._grid.getDataItem(row);
+      if (!this.isCellFillable(item, column)) {
+        return;
+      }
+      const validator = column.editor?.validator ?? column.validator;
+      const validationResults = validator?.(value, { column, grid: this._grid, item } as EditorArguments);
+      if (validationResults && !validationResults.valid) {
+        validationErrors.push({ row, cell, column, value, validationResults });
+        return;
+      }
+      changes.set(`${row}:${cell}`, { row, cell, column, item, previousValue: getDescendantProperty(item, column.field), value });
+    };
+
+    // 1. fill vertically (up or down) by using each source column as a series
+    const sourceCells = this.getVisibleCellIndexes(sourceRange.fromCell, sourceRange.toCell);
+    const sourceRows = this.getRowIndexes(sourceRange.fromRow, sourceRange.toRow);
+    const targetRows = [
+      ...this.getRowIndexes(targetRange.fromRow, sourceRange.fromRow - 1),
+      ...this.getRowIndexes(sourceRange.toRow + 1, targetRange.toRow),
+    ];
+    if (targetRows.length) {
+      sourceCells.forEach((cell) => {
+        const seriesFn = this.createSeries(
+          sourceRows.map((row) => getCellValue(row, cell)),
+          columns[cell]
+        );
+        targetRows.forEach((row) => fillCell(row, cell, seriesFn(row - sourceRange.fromRow)));
+      });
+    }
+
+    // 2. then fill horizontally (left or right) on all rows (including the vertically filled rows) by using each source row as a series
+    const leftCells = this.getVisibleCellIndexes(targetRange.fromCell, sourceRange.fromCell - 1);
+    const rightCells = this.getVisibleCellIndexes(sourceRange.toCell + 1, targetRange.toCell);
+    if (sourceCells.length && (leftCells.length || rightCells.length)) {
+      this.getRowIndexes(targetRange.fromRow, targetRange.toRow).forEach((row) => {
+        const seriesFn = this.createSeries(
+          sourceCells.map((cell) => getCellValue(row, cell)),
+          columns[sourceCells[0]]
+        );
+        leftCells.forEach((cell, idx) => fillCell(row, cell, seriesFn(idx - leftCells.length)));
+        rightCells.forEach((cell, idx) => fillCell(row, cell, seriesFn(sourceCells.length + idx)));
+      });
+    }
+
+    const cellChanges = Array.from(changes.values());
+    if (cellChanges.length) {
+      const editCommand: EditCommand = {
+        row: cellChanges[0].row,
+        cell: cellChanges[0].cell,
+        editor: null,
+        serializedValue: cellChanges.map((change) => change.value),
+        prevSerializedValue: cellChanges.map((change) => change.previousValue),
+        execute: () => this.applyCellValues(cellChanges, 'value'),
+        undo: () => this.applyCellValues(cellChanges, 'previousValue'),
+      };
+
+      // commit all changes as a single command through the edit command handler when defined (e.g. Undo/Redo)
+      const editCommandHandler = this._grid.getOptions().editCommandHandler;
+      if (typeof editCommandHandler === 'function') {
+        editCommandHandler(cellChanges[0].item, cellChanges[0].column, editCommand);
+      } else {
+        editCommand.execute();
+      }
+    }
+
+    const fillEventArgs: OnFillCellsEventArgs = { ...eventArgs, changes: cellChanges, validationErrors };
+    const fillEventData = this.onFillCells.notify(fillEventArgs);
+    this._addonOptions.onFillCells?.(fillEventData, fillEventArgs);
+
+    return cellChanges;
+  }
+
+  //
+  // protected functions
+  // ---------------------
+
+  protected applyCellValues(changes: FillCellChange[], valueProp: 'value' | 'previousValue'): void {
+    changes.forEach((change) => {
+      setDeepValue(change.item, change.column.field, change[valueProp]);
+      this._grid.updateCell(change.row, change.cell);
+      this._grid.onCellChange.notify({ row: change.row, cell: change.cell, item: change.item, column: change.column, grid: this._grid });
+    });
+  }
+
+  /**
+   * Create a series function from the source values, the function returns the value at any offset of the series
+   * (0 being the first source value, a negative offset being before the first source value)
+   */
+  protected createSeries(sourceValues: any[], column?: Column): (offset: number) => any {
+    const count = sourceValues.length;
+    const repeatFn = (offset: number) => sourceValues[((offset % count) + count) % count];
+    const fillSeries = this._addonOptions.fillSeries ?? 'auto';
+    const seriesType: FillSeriesType =
+      fillSeries === 'auto' ? (count === 1 ? 'copy' : this.detectSeriesType(sourceValues, column)) : fillSeries;
+
+    if (seriesType === 'linear' && sourceValues.every((value) => this.isNumber(value))) {
+      const step = count > 1 ? sourceValues[1] - sourceValues[0] : 1;
+      const decimals = Math.max(...sourceValues.map((value) => this.countDecimals(value)), this.countDecimals(step));
+      return (offset: number) => Number((sourceValues[0] + step * offset).toFixed(Math.min(decimals, 15)));
+    }
+    if (seriesType === 'date') {
+      const fieldType = column ? getColumnFieldType(column) : undefined;
+      const dates = sourceValues.map((value) => this.parseDate(value, column));
+      if (dates.every((date) => date)) {
+        const outputFn = (date: Date) =>
+          sourceValues[0] instanceof Date || !fieldType ? date : formatDateByFieldType(date, undefined, fieldType);
+        return this.createDateSeries(dates as Date[], outputFn);
+      }
+    }
+    return repeatFn;
+  }
+
+  /** Create a series of dates with a constant step in months when the days of the month are the same, or else in days (or in milliseconds with time) */
+  protected createDateSeries(dates: Date[], outputFn: (date: Date) => Date | string): (offset: number) => Date | string {
+    const first = dates[0];
+    if (
+      dates.length > 1 &&
+      dates.every((date) => date.getDate() === first.getDate() && this.getTimeOfDay(date) === this.getTimeOfDay(first))
+    ) {
+      const monthStep = this.getMonthIndex(dates[1]) - this.getMonthIndex(first);
+      if (monthStep !== 0 && dates.every((date, idx) => this.getMonthIndex(date) - this.getMonthIndex(first) === monthStep * idx)) {
+        return (offset: number) => {
+          const date = new Date(first);
+          date.setDate(1);
+          date.setMonth(first.getMonth() + monthStep * offset);
+          // clamp the day to the last day of the month (e.g. Jan 31 + 1 month = Feb 28)
+          date.setDate(Math.min(first.getDate(), new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()));
+          return outputFn(date);
+        };
+      }
+    }
+    if (dates.every((date) => this.getTimeOfDay(date) === this.getTimeOfDay(first))) {
+      const dayStep = dates.length > 1 ? this.getDayIndex(dates[1]) - this.getDayIndex(first) : 1;
+      return (offset: number) => {
+        const date = new Date(first);
+        date.setDate(first.getDate() + dayStep * offset);
+        return outputFn(date);
+      };
+    }
+    const msStep = dates[1].getTime() - first.getTime();
+    return (offset: number) => outputFn(new Date(first.getTime() + msStep * offset));
+  }
+
+  /** Detect which series to use from the source values, the step between each value must be constant to be considered as a series */
+  protected detectSeriesType(sourceValues: any[], column?: Column): FillSeriesType {
+    if (sourceValues.every((value) => this.isNumber(value))) {
+      const step = sourceValues[1] - sourceValues[0];
+      return sourceValues.every((value, idx) => Math.abs(value - (sourceValues[0] + step * idx)) < 1e-9) ? 'linear' : 'pattern';
+    }
+
+    const dates = sourceValues.map((value) => this.parseDate(value, column));
+    if (dates.every((date) => date)) {
+      const times = (dates as Date[]).map((date) => date.getTime());
+      const days = (dates as Date[]).map((date) => this.getDayIndex(date));
+      const months = (dates as Date[]).map((date) => this.getMonthIndex(date));
+      const isConstantStep = (values: number[]) =>
+        values[1] !== values[0] && values.every((value, idx) => value - values[0] === (values[1] - values[0]) * idx);
+      if (
+        isConstantStep(times) ||
+        isConstantStep(days) ||
+        (isConstantStep(months) && (dates as Date[]).every((date) => date.getDate() === (dates[0] as Date).getDate()))
+      ) {
+        return 'date';
+      }
+    }
+    return 'pattern';
+  }
+
+  protected countDecimals(value: number): number {
+    return Number.isInteger(value) ? 0 : (String(value).split('.')[1]?.length ?? 0);
+  }
+
+  protected getDayIndex(date: Date): number {
+    return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / ONE_DAY_IN_MS);
+  }
+
+  protected getMonthIndex(date: Date): number {
+    return date.getFullYear() * 12 + date.getMonth();
+  }
+
+  protected getTimeOfDay(date: Date): number {
+    return date.getTime() - new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  }
+
+  protected getRowIndexes(fromRow: number, toRow: number): number[] {
+    const rows: number[] = [];
+    for (let row = fromRow; row <= toRow; row++) {
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /** Get all the column indexes of a range of cells, excluding any hidden columns */
+  protected getVisibleCellIndexes(fromCell: number, toCell: number): number[] {
+    const columns = this._grid.getColumns();
+    const cells: number[] = [];
+    for (let cell = fromCell; cell <= toCell; cell++) {
+      if (columns[cell] && !columns[cell].hidden) {
+        cells.push(cell);
+      }
+    }
+    return cells;
+  }
+
+  protected handleDragReplaceCells(_e: SlickEventData, args: OnDragReplaceCellsEventArgs): void {
+    this.fillCells(args.prevSelectedRange, args.selectedRange);
+  }
+
+  /** A cell can be filled when it's a data row and its column is editable (unless `fillNonEditableColumns` is enabled) and doesn't have `denyPaste` */
+  protected isCellFillable(item: any, column?: Column): column is Column {
+    if (!item || item.__nonDataRow || !column || column.hidden || column.denyPaste) {
+      return false;
+    }
+    return !!this._addonOptions.fillNonEditableColumns || (!!this._grid.getOptions().editable && !!(column.editor || column.editorClass));
+  }
+
+  protected isNumber(value: any): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+
+  /** Parse a date from a Date object or from a date string when the column is a date field type */
+  protected parseDate(value: any, column?: Column): Date | false {
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? false : value;
+    }
+    const fieldType = column ? getColumnFieldType(column) : undefined;
+    if (typeof value === 'string' && value && isColumnDateType(fieldType)) {
+      return tryParseDate(value, mapTempoDateFormatWithFieldType(fieldType!), true);
+    }
+    return false;
+  }
+}
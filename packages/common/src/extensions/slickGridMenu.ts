@@ -21,6 +21,7 @@ import type { SortService } from '../services/sort.service.js';
 import type { TextExportService } from '../services/textExport.service.js';
 import type { ExtensionUtility } from './extensionUtility.js';
 import { MenuBaseClass, type ExtendableItemTypes, type ExtractMenuType, type MenuType } from './menuBaseClass.js';
+import { SlickAdvancedFilterPanel } from './slickAdvancedFilterPanel.js';
 
 /**
  * A control to add a Grid Menu with Extra Commands & Column Picker (hambuger menu on top-right of the grid)
@@ -43,6 +44,7 @@ export class SlickGridMenu extends MenuBaseClass<GridMenu> {
   onCommand: SlickEvent<GridMenuCommandItemCallbackArgs>;
   onColumnsChanged: SlickEvent<onGridMenuColumnsChangedCallbackArgs>;
 
+  protected _advancedFilterPanel?: SlickAdvancedFilterPanel;
   protected _commandMenuElm: HTMLDivElement | null = null;
   protected _gridMenuButtonElm: HTMLButtonElement | null = null;
   protected _headerElm: HTMLDivElement | null = null;
@@ -167,6 +169,7 @@ export class SlickGridMenu extends MenuBaseClass<GridMenu> {
   /** Dispose (destroy) the SlickGrid 3rd party plugin */
   dispose(): void {
     this.deleteMenu();
+    this._advancedFilterPanel?.dispose();
     super.dispose();
   }
 
@@ -222,7 +225,12 @@ export class SlickGridMenu extends MenuBaseClass<GridMenu> {
         });
 
         // Create button
-        this._gridMenuButtonElm = createDomElement('button', { className: 'slick-grid-menu-button', ariaLabel: 'Grid Menu', tabIndex: 0 });
+        this._gridMenuButtonElm = createDomElement('button', {
+          className: 'slick-grid-menu-button',
+          ariaLabel: 'Grid Menu',
+          ariaHasPopup: 'menu',
+          tabIndex: 0,
+        });
 
         // Create icon span inside button
         const iconSpan = createDomElement('span', { className: this._addonOptions?.iconCssClass || 'mdi mdi-menu' });
@@ -584,6 +592,24 @@ export class SlickGridMenu extends MenuBaseClass<GridMenu> {
         );
       }
 
+      // show grid menu: open the Advanced Filter panel (nested AND/OR/NOT filter groups)
+      if (this.gridOptions.enableFiltering && !this._addonOptions.hideAdvancedFilterCommand) {
+        this.addMissingCommandOrAction(
+          {
+            iconCssClass: this._addonOptions.iconAdvancedFilterCommand || 'mdi mdi-filter-plus-outline',
+            _orgTitle: commandLabels?.advancedFilterCommand || '',
+            titleKey: `${translationPrefix}${commandLabels?.advancedFilterCommandKey ?? 'ADVANCED_FILTER'}`,
+            disabled: false,
+            command: 'advanced-filter',
+            positionOrder: 49,
+            action: this.openAdvancedFilterPanel.bind(this),
+          },
+          this._addonOptions.hideCommands,
+          gridMenuCommandItems,
+          originalCommandItems
+        );
+      }
+
       if (this.gridOptions.enableFiltering && !this.sharedService.hideHeaderRowAfterPageLoad) {
         // show grid menu: Clear all Filters
         if (!this._addonOptions.hideClearAllFiltersCommand) {
@@ -802,6 +828,7 @@ export class SlickGridMenu extends MenuBaseClass<GridMenu> {
     // reset frozen props on both SlickGrid options and shared service options
     const newGridOptions: Partial<GridOption> = {
       frozenColumn: -1,
+      frozenRightColumn: -1,
       frozenRow: -1,
       frozenBottom: false,
       enableMouseWheelScrollHandler: false,
@@ -872,6 +899,11 @@ export class SlickGridMenu extends MenuBaseClass<GridMenu> {
     }
   }
 
+  protected openAdvancedFilterPanel(): void {
+    this._advancedFilterPanel ??= new SlickAdvancedFilterPanel(this.extensionUtility, this.filterService, this.sharedService);
+    this._advancedFilterPanel.openPanel();
+  }
+
   protected toggleFilterBar(): void {
     let showHeaderRow = this.gridOptions?.showHeaderRow ?? false;
     showHeaderRow = !showHeaderRow; // inverse show header flag
@@ -894,6 +926,7 @@ export class SlickGridMenu extends MenuBaseClass<GridMenu> {
       iconCssClass: 'mdi mdi-menu',
       menuWidth: 12,
       commandItems: [],
+      hideAdvancedFilterCommand: true, // opt-in command
       hideClearAllFiltersCommand: false,
       hideRefreshDatasetCommand: false,
       hideToggleFilterCommand: false,
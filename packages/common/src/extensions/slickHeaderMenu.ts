@@ -152,7 +152,7 @@ export class SlickHeaderMenu extends MenuBaseClass<HeaderMenu> {
 
       this._headerButtonDivElm = createDomElement(
         'div',
-        { className: 'slick-header-menu-button', ariaLabel: 'Header Menu', tabIndex: 0 },
+        { className: 'slick-header-menu-button', ariaLabel: 'Header Menu', ariaHasPopup: 'menu', role: 'button', tabIndex: 0 },
         args.node
       );
 
@@ -350,6 +350,50 @@ export class SlickHeaderMenu extends MenuBaseClass<HeaderMenu> {
                 columnHeaderMenuItems
               );
             }
+
+            // Freeze Columns on the right side (pinning)
+            const columnIdx = columns.findIndex((col) => col.id === columnDef.id);
+            if (gridOptions.frozenRightColumn === columnIdx) {
+              // make sure the "freeze-columns-right" doesn't exist before adding the "unfreeze-columns-right"
+              this.removeCommandWhenFound(columnHeaderMenuItems, 'freeze-columns-right');
+
+              // add unfreeze right command
+              const cmdUnfreezeRight = 'unfreeze-columns-right';
+              this.addMissingCommandOrAction(
+                {
+                  _orgTitle: commandLabels?.unfreezeColumnsCommand || '',
+                  iconCssClass: headerMenuOptions.iconUnfreezeColumns || 'mdi mdi-pin-off-outline',
+                  titleKey: `${translationPrefix}UNFREEZE_COLUMNS`,
+                  command: cmdUnfreezeRight,
+                  positionOrder: 46,
+                  action: (_e, args) => this.freezeOrUnfreezeRightColumns(args.column, cmdUnfreezeRight),
+                },
+                headerMenuOptions.hideCommands,
+                columnHeaderMenuItems
+              );
+            } else {
+              // make sure the "unfreeze-columns-right" doesn't exist before adding the "freeze-columns-right"
+              this.removeCommandWhenFound(columnHeaderMenuItems, 'unfreeze-columns-right');
+
+              // a column frozen on the left side can't also be frozen on the right side
+              if (columnIdx > (gridOptions.frozenColumn ?? -1)) {
+                const cmdFreezeRight = 'freeze-columns-right';
+                this.addMissingCommandOrAction(
+                  {
+                    _orgTitle: commandLabels?.freezeColumnsRightCommand || '',
+                    iconCssClass: headerMenuOptions.iconFreezeColumnsRight || 'mdi mdi-pin-outline mdi-flip-h',
+                    titleKey: `${translationPrefix}FREEZE_COLUMNS_RIGHT`,
+                    command: cmdFreezeRight,
+                    positionOrder: 46,
+                    action: (_e, args) => this.freezeOrUnfreezeRightColumns(args.column, cmdFreezeRight),
+                  },
+                  headerMenuOptions.hideCommands,
+                  columnHeaderMenuItems
+                );
+              } else {
+                this.removeCommandWhenFound(columnHeaderMenuItems, 'freeze-columns-right');
+              }
+            }
           }
 
           // Column Resize by Content (column autofit)
@@ -478,6 +522,38 @@ export class SlickHeaderMenu extends MenuBaseClass<HeaderMenu> {
             }
           }
 
+          // Conditional Formatting via sub-menus
+          if (gridOptions.enableConditionalFormatting) {
+            const cfCommandAction = (_e: any, args: MenuCommandItemCallbackArgs) =>
+              this.pubSubService.publish('onHeaderMenuConditionalFormatting', { columnId: args.column.id, command: args.command });
+            const cfSubCommands = [
+              { command: 'color-scale', titleKey: 'COLOR_SCALE', iconCssClass: 'mdi mdi-theme-light-dark' },
+              { command: 'data-bar', titleKey: 'DATA_BAR', iconCssClass: 'mdi mdi-percent-outline' },
+              { command: 'icon-set', titleKey: 'ICON_SET', iconCssClass: 'mdi mdi-star-outline' },
+              { command: 'top-10-items', titleKey: 'TOP_10_ITEMS', iconCssClass: 'mdi mdi-arrow-up' },
+              { command: 'bottom-10-items', titleKey: 'BOTTOM_10_ITEMS', iconCssClass: 'mdi mdi-arrow-down' },
+              { command: 'above-average', titleKey: 'ABOVE_AVERAGE', iconCssClass: 'mdi mdi-plus-circle-outline' },
+              { command: 'below-average', titleKey: 'BELOW_AVERAGE', iconCssClass: 'mdi mdi-minus-circle-outline' },
+              { command: 'clear-conditional-formatting', titleKey: 'CLEAR_CONDITIONAL_FORMATTING', iconCssClass: 'mdi mdi-close' },
+            ];
+            this.addMissingCommandOrAction(
+              {
+                _orgTitle: commandLabels?.conditionalFormattingCommand || '',
+                iconCssClass: headerMenuOptions.iconConditionalFormattingSubMenu || 'mdi mdi-tune-variant',
+                titleKey: `${translationPrefix}CONDITIONAL_FORMATTING`,
+                command: 'conditional-formatting-root-menu',
+                positionOrder: 53,
+                commandItems: cfSubCommands.map((cfCmd) => ({
+                  ...cfCmd,
+                  titleKey: `${translationPrefix}${cfCmd.titleKey}`,
+                  action: cfCommandAction,
+                })),
+              },
+              headerMenuOptions.hideCommands,
+              columnHeaderMenuItems
+            );
+          }
+
           // Filtering Commands
           if (
             gridOptions.enableFiltering &&
@@ -586,6 +662,34 @@ export class SlickHeaderMenu extends MenuBaseClass<HeaderMenu> {
     }
   }
 
+  /** freeze or unfreeze columns on the right side command, every column starting from the selected column up to the last column will be frozen */
+  protected freezeOrUnfreezeRightColumns(column: Column, command: 'freeze-columns-right' | 'unfreeze-columns-right'): void {
+    const columnPosition = this.grid.getVisibleColumns().findIndex((col) => col.id === column.id);
+    const newGridOptions = {
+      frozenRightColumn: command === 'unfreeze-columns-right' ? -1 : columnPosition,
+    };
+
+    // make sure column freeze is allowed (including the columns frozen on the left side) before applying the change
+    if (this.grid.validateColumnFreezeWidth(this.grid.getOptions().frozenColumn, newGridOptions.frozenRightColumn)) {
+      this.grid.setOptions(newGridOptions, false, true); // suppress the setColumns (3rd argument) since we'll do that ourselves
+
+      // remove the last freeze/unfreeze command called from Header Menu since it will be replaced by the other one when reopening the menu
+      const columnHeaderMenuItems: Array<MenuCommandItem | 'divider'> = column?.header?.menu?.commandItems ?? [];
+      this.removeCommandWhenFound(columnHeaderMenuItems, command);
+
+      this.sharedService.gridOptions.frozenRightColumn = newGridOptions.frozenRightColumn;
+
+      this.grid.updateColumns();
+      this.recreateHeaderMenu(this.grid.getColumns());
+
+      // we also need to autosize columns if the option is enabled
+      const gridOptions = this.grid.getOptions();
+      if (gridOptions.enableAutoSizeColumns) {
+        this.grid.autosizeColumns();
+      }
+    }
+  }
+
   protected createParentMenu(e: DOMMouseOrTouchEvent<HTMLDivElement>, columnDef: Column, menu: HeaderMenuItems): void {
     // let the user modify the menu or cancel altogether,
     // or provide alternative menu implementation.
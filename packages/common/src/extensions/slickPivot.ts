@@ -0,0 +1,567 @@
+import { BindingEventService } from '@slickgrid-universal/binding';
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { classNameToList, createDomElement, emptyElement, getHtmlStringOutput, stripTags } from '@slickgrid-universal/utils';
+import type { Options as SortableOptions } from 'sortablejs';
+import Sortable from 'sortablejs/modular/sortable.core.esm.js';
+import { Aggregators } from '../aggregators/aggregators.index.js';
+import { SlickEvent, SlickEventData, SlickEventHandler, type SlickDataView, type SlickGrid } from '../core/index.js';
+import { SortDirectionNumber } from '../enums/index.js';
+import type { Column, GridOption, Pivot, PivotAggregatorType, PivotConfig, PivotOption, PivotValueField } from '../interfaces/index.js';
+import type { SharedService } from '../services/shared.service.js';
+import { sortByFieldType } from '../sortComparers/sortUtilities.js';
+import type { ExtensionUtility } from './extensionUtility.js';
+
+type PivotArea = 'rows' | 'columns' | 'values';
+
+/**
+ * A plugin to show the grid as a Pivot Table, the pivot is calculated from the original dataset by using
+ * row dimensions, column dimensions and value fields which are calculated by the same Aggregators used by the Grouping.
+ * A new set of columns is generated for every column dimension value and the resulting pivot rows are then fed into the DataView.
+ *
+ * NOTES:
+ *     Similar to the Draggable Grouping, the pivot drop areas (Rows, Columns & Values) are rendered in either the Top-Header or the Pre-Header
+ *     and the user can drag & drop any of the original columns into them (the original columns & dataset are restored when turning off the pivot).
+ *
+ * The Pivot can also be configured programmatically
+ *   this.gridOptions = {
+ *     enablePivot: true,
+ *     createPreHeaderPanel: true,
+ *     showPreHeaderPanel: true,
+ *     pivot: {
+ *       initialPivot: { rows: ['country'], columns: ['year'], values: [{ columnId: 'sales', aggregator: 'Sum' }] },
+ *     },
+ *   };
+ */
+export class SlickPivot {
+  onPivotChanged: SlickEvent;
+  readonly pluginName = 'Pivot';
+
+  protected _addonOptions!: Pivot;
+  protected _bindingEventService: BindingEventService;
+  protected _dropzoneElms: Partial<Record<PivotArea, HTMLDivElement>> = {};
+  protected _eventHandler: SlickEventHandler;
+  protected _fieldsElm?: HTMLDivElement;
+  protected _grid?: SlickGrid;
+  protected _gridUid = '';
+  protected _isPivoted = false;
+  protected _isSettingPivotItems = false;
+  protected _panelElm?: HTMLDivElement;
+  protected _pivotConfig: PivotConfig | null = null;
+  protected _sortableInstances: Sortable[] = [];
+  protected _sourceColumns: Column[] = [];
+  protected _sourceItems: any[] = [];
+  protected _defaults = {
+    defaultAggregator: 'Sum',
+    dropPlaceHolderText: 'Drop a field here',
+    rowsTitle: 'Rows',
+    columnsTitle: 'Columns',
+    valuesTitle: 'Values',
+  } as PivotOption;
+
+  /** Constructor of the SlickGrid 3rd party plugin, it can optionally receive options */
+  constructor(
+    protected readonly extensionUtility: ExtensionUtility,
+    protected readonly pubSubService: BasePubSubService,
+    protected readonly sharedService: SharedService
+  ) {
+    this._bindingEventService = new BindingEventService();
+    this.onPivotChanged = new SlickEvent<{ caller?: string; pivot: PivotConfig | null }>('onPivotChanged');
+    this._eventHandler = new SlickEventHandler();
+  }
+
+  get addonOptions(): PivotOption {
+    return this._addonOptions;
+  }
+
+  /** Getter of SlickGrid DataView object */
+  get dataView(): SlickDataView {
+    return this.grid?.getData<SlickDataView>() ?? {};
+  }
+
+  get dropzoneElements(): Partial<Record<PivotArea, HTMLDivElement>> {
+    return this._dropzoneElms;
+  }
+
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  get grid(): SlickGrid {
+    return this._grid ?? this.sharedService.slickGrid ?? {};
+  }
+
+  get gridOptions(): GridOption {
+    return this.sharedService.gridOptions ?? {};
+  }
+
+  /** Getter for the grid uid */
+  get gridUid(): string {
+    return this._gridUid || (this.grid?.getUID() ?? '');
+  }
+
+  /** Is the pivot currently applied to the grid? */
+  get isPivoted(): boolean {
+    return this._isPivoted;
+  }
+
+  get panelElement(): HTMLDivElement | undefined {
+    return this._panelElm;
+  }
+
+  get sortableInstances(): Sortable[] {
+    return this._sortableInstances;
+  }
+
+  /** Initialize plugin. */
+  init(grid: SlickGrid, pivotOptions?: Pivot): this {
+    this._addonOptions = { ...this._defaults, ...pivotOptions };
+    this._grid = grid;
+    if (grid) {
+      this._gridUid = grid.getUID();
+      this._sourceColumns = this.sharedService.allColumns ?? grid.getColumns();
+      const containerElm = grid.getTopHeaderPanel() || grid.getPreHeaderPanel();
+      if (!containerElm) {
+        throw new Error(
+          '[Slickgrid-Universal] Pivot requires the pre-header to be created and shown for the plugin to work correctly (use `createPreHeaderPanel` and `showPreHeaderPanel`).'
+        );
+      }
+
+      // add PubSub instance to all SlickEvent
+      this.onPivotChanged.setPubSubService(this.pubSubService);
+
+      this.translatePivotTitles();
+      this._panelElm = createDomElement('div', { className: 'slick-pivot-panel' }, containerElm);
+      this._fieldsElm = createDomElement('div', { className: 'slick-pivot-fields' }, this._panelElm);
+      this._dropzoneElms.rows = this.createDropzone('rows', this._addonOptions.rowsTitle);
+      this._dropzoneElms.columns = this.createDropzone('columns', this._addonOptions.columnsTitle);
+      this._dropzoneElms.values = this.createDropzone('values', this._addonOptions.valuesTitle);
+      this.renderAvailableFields();
+      this.setupSortableDropzones();
+
+      this._bindingEventService.bind(this._panelElm, 'click', this.handlePanelClick.bind(this) as EventListener);
+      this._bindingEventService.bind(this._panelElm, 'change', this.handlePanelChange.bind(this) as EventListener);
+
+      // when the dataset is replaced while the pivot is applied, we need to keep it as the new pivot source and recalculate the pivot
+      this._eventHandler.subscribe(this.dataView.onSetItemsCalled, () => {
+        if (this._isPivoted && !this._isSettingPivotItems) {
+          this._sourceItems = this.dataView.getItems();
+          this.applyPivot();
+        }
+      });
+
+      // user can optionally provide an initial pivot config, Grid Presets have precedence
+      const initialPivot = this.gridOptions.presets?.pivot ?? this._addonOptions.initialPivot;
+      if (initialPivot) {
+        this.setPivotConfig(initialPivot, 'presets', false);
+      } else {
+        this.renderDropzones();
+      }
+    }
+    return this;
+  }
+
+  /** Dispose the plugin. */
+  dispose(): void {
+    this.destroySortableInstances();
+    this.onPivotChanged.unsubscribe();
+    this._eventHandler.unsubscribeAll();
+    this._bindingEventService.unbindAll();
+    this._panelElm?.remove();
+    this._panelElm = undefined;
+    this._fieldsElm = undefined;
+    this._dropzoneElms = {};
+  }
+
+  destroySortableInstances(): void {
+    this._sortableInstances.forEach((sortableInstance) => {
+      if (sortableInstance?.el) {
+        sortableInstance.destroy();
+      }
+    });
+    this._sortableInstances = [];
+  }
+
+  /** Turn off the pivot mode, the original columns & dataset will be restored */
+  clearPivot(): void {
+    this.setPivotConfig(null, 'clear-all');
+  }
+
+  /** Get a copy of the pivot configuration currently applied or null when there is none */
+  getPivotConfig(): PivotConfig | null {
+    if (this._pivotConfig) {
+      const { rows, columns, values } = this._pivotConfig;
+      return { rows: [...rows], columns: [...columns], values: values.map((valueField) => ({ ...valueField })) };
+    }
+    return null;
+  }
+
+  /**
+   * Change the pivot configuration and recalculate the pivot, the pivot is only applied when it has at least 1 value field
+   * and 1 row or column dimension, providing `null` (or an empty config) will restore the original columns & dataset.
+   * @param {PivotConfig | null} pivotConfig - pivot configuration
+   * @param {String} [caller] - optional name of the action that triggered the change
+   * @param {Boolean} [triggerEvent] - defaults to true, should we trigger the `onPivotChanged` event?
+   */
+  setPivotConfig(pivotConfig: PivotConfig | null, caller = 'set-pivot', triggerEvent = true): void {
+    this._pivotConfig = this.sanitizePivotConfig(pivotConfig);
+    this.renderDropzones();
+    this.applyPivot();
+
+    if (triggerEvent) {
+      this.triggerOnPivotChangedEvent({ caller, pivot: this.getPivotConfig() });
+    }
+  }
+
+  /**
+   * Calculate the pivot columns & rows from a list of items, it uses the Aggregators (with the same logic as the Grouping)
+   * to calculate each pivot cell value for every unique combination of the row & column dimension values.
+   * @param {Array<Object>} items - source items
+   * @param {PivotConfig} pivotConfig - pivot configuration
+   * @param {Array<Column>} [sourceColumns] - source column definitions, defaults to the columns found when the plugin was initialized
+   */
+  generatePivotData(items: any[], pivotConfig: PivotConfig, sourceColumns?: Column[]): { columns: Column[]; rows: any[] } {
+    const columnDefs = sourceColumns ?? this._sourceColumns;
+    const findColumn = (columnId: string) => columnDefs.find((col) => `${col.id}` === columnId);
+    const rowDimensions = pivotConfig.rows.map(findColumn).filter((col) => !!col) as Column[];
+    const colDimensions = pivotConfig.columns.map(findColumn).filter((col) => !!col) as Column[];
+    const valueFields = pivotConfig.values.filter(
+      (valueField) => !!findColumn(valueField.columnId) && !!Aggregators[valueField.aggregator]
+    );
+    const idPropName = this.gridOptions.datasetIdPropertyName ?? 'id';
+
+    // 1. split all items by their row & column dimension values
+    const rowGroups = this.groupItemsByDimensions(items, rowDimensions);
+    const colGroups = this.groupItemsByDimensions(items, colDimensions);
+
+    // 2. generate the columns, starting with the row dimensions followed by a column for every column dimension value & value field
+    const pivotColumns: Column[] = rowDimensions.map((col) => ({
+      id: col.id,
+      name: col.name,
+      field: col.field,
+      type: col.type,
+      formatter: col.formatter,
+      params: col.params,
+      width: col.width,
+      sortable: true,
+    }));
+    const pivotCells: Array<{ colKey: string; columnId: string; valueField: PivotValueField; valueColumn: Column }> = [];
+    colGroups.forEach((colGroup, colIdx) => {
+      valueFields.forEach((valueField, valueIdx) => {
+        const valueColumn = findColumn(valueField.columnId) as Column;
+        const valueTitle = valueField.title ?? `${this.getColumnTitle(valueColumn)} (${valueField.aggregator})`;
+        const columnId = `pivot_${colIdx}_${valueIdx}`;
+        let columnName = valueTitle;
+        if (colDimensions.length) {
+          columnName = valueFields.length > 1 ? `${colGroup.label} - ${valueTitle}` : colGroup.label;
+        }
+        pivotCells.push({ colKey: colGroup.key, columnId, valueField, valueColumn });
+        pivotColumns.push({
+          id: columnId,
+          name: columnName,
+          field: columnId,
+          type: valueField.aggregator === 'Distinct' ? 'string' : 'number',
+          formatter: this.canReuseSourceFormatter(valueField.aggregator) ? valueColumn.formatter : undefined,
+          params: valueColumn.params,
+          cssClass: 'slick-pivot-value',
+          sortable: true,
+        });
+      });
+    });
+
+    // 3. calculate every pivot cell value of each row by using the Aggregators
+    const pivotRows = rowGroups.map((rowGroup, rowIdx) => {
+      const row: any = {};
+      rowDimensions.forEach((col, dimIdx) => (row[col.field] = rowGroup.values[dimIdx]));
+      if (row[idPropName] === undefined) {
+        row[idPropName] = `pivot_${rowIdx}`;
+      }
+      const itemsByColKey = new Map<string, any[]>();
+      rowGroup.items.forEach((item) => {
+        const colKey = this.getDimensionKey(item, colDimensions);
+        let cellItems = itemsByColKey.get(colKey);
+        if (!cellItems) {
+          cellItems = [];
+          itemsByColKey.set(colKey, cellItems);
+        }
+        cellItems.push(item);
+      });
+
+      pivotCells.forEach(({ colKey, columnId, valueField, valueColumn }) => {
+        const cellItems = itemsByColKey.get(colKey) ?? [];
+        row[columnId] = cellItems.length ? this.aggregateItems(cellItems, valueColumn.field, valueField.aggregator) : null;
+      });
+      return row;
+    });
+
+    return { columns: pivotColumns, rows: pivotRows };
+  }
+
+  //
+  // protected functions
+  // ------------------
+
+  /** Calculate the aggregated value of a list of items with the same Aggregator as the one used by the Grouping */
+  protected aggregateItems(items: any[], field: string, aggregatorType: PivotAggregatorType): any {
+    const aggregator = new Aggregators[aggregatorType](field);
+    aggregator.init();
+    items.forEach((item) => aggregator.accumulate?.(item));
+    const groupTotals: any = { group: { rows: items } };
+    aggregator.storeResult(groupTotals);
+    const value = groupTotals[aggregator.type]?.[field];
+    return Array.isArray(value) ? value.join(', ') : value;
+  }
+
+  /** Apply (or remove) the pivot to the grid, it swaps the columns and the DataView items with the pivot columns & rows */
+  protected applyPivot(): void {
+    const pivotConfig = this._pivotConfig;
+    if (pivotConfig && pivotConfig.values.length > 0 && (pivotConfig.rows.length > 0 || pivotConfig.columns.length > 0)) {
+      if (!this._isPivoted) {
+        this._sourceColumns = this.sharedService.allColumns ?? this.grid.getColumns();
+        this._sourceItems = this.dataView.getItems();
+      }
+      const { columns, rows } = this.generatePivotData(this._sourceItems, pivotConfig);
+      this._isPivoted = true;
+      this.updateGridColumnsAndItems(columns, rows);
+    } else if (this._isPivoted) {
+      this._isPivoted = false;
+      this.updateGridColumnsAndItems(this._sourceColumns, this._sourceItems);
+    }
+  }
+
+  protected createDropzone(area: PivotArea, title?: string): HTMLDivElement {
+    const areaElm = createDomElement('div', { className: `slick-pivot-area slick-pivot-area-${area}` }, this._panelElm);
+    createDomElement('span', { className: 'slick-pivot-area-title', textContent: title ?? '' }, areaElm);
+    return createDomElement('div', { className: 'slick-pivot-dropzone', dataset: { area } }, areaElm);
+  }
+
+  protected createFieldElement(column: Column, valueField?: PivotValueField, removable = false): HTMLDivElement {
+    const fieldElm = createDomElement('div', { className: 'slick-pivot-field', dataset: { id: `${column.id}` } });
+    createDomElement('span', { className: 'slick-pivot-field-title', textContent: this.getColumnTitle(column) }, fieldElm);
+
+    if (valueField) {
+      const aggregatorSelectElm = createDomElement('select', { className: 'slick-pivot-aggregator' }, fieldElm);
+      (['Sum', 'Avg', 'Count', 'Min', 'Max', 'Distinct'] as PivotAggregatorType[]).forEach((aggregatorType) =>
+        createDomElement('option', { value: aggregatorType, textContent: aggregatorType }, aggregatorSelectElm)
+      );
+      aggregatorSelectElm.value = valueField.aggregator;
+    }
+
+    if (removable) {
+      const removeIconElm = createDomElement('div', { className: 'slick-pivot-field-remove' }, fieldElm);
+      removeIconElm.classList.add(...classNameToList(this._addonOptions.deleteIconCssClass || 'slick-pivot-field-remove-icon'));
+    }
+    return fieldElm;
+  }
+
+  protected getColumnTitle(column: Column): string {
+    return stripTags(getHtmlStringOutput(column.columnPickerLabel || column.name || '', 'innerHTML')) || `${column.id}`;
+  }
+
+  /** Get a unique key representing all dimension values of an item */
+  protected getDimensionKey(item: any, dimensions: Column[]): string {
+    return JSON.stringify(dimensions.map((col) => item[col.field] ?? null));
+  }
+
+  /** Split the items by the unique combination of their dimension values, each group is sorted by its dimension values */
+  protected groupItemsByDimensions(items: any[], dimensions: Column[]): Array<{ key: string; label: string; values: any[]; items: any[] }> {
+    const groups = new Map<string, { key: string; label: string; values: any[]; items: any[] }>();
+    items.forEach((item) => {
+      const key = this.getDimensionKey(item, dimensions);
+      let group = groups.get(key);
+      if (!group) {
+        const values = dimensions.map((col) => item[col.field] ?? null);
+        group = { key, label: values.map((value) => `${value ?? ''}`).join(' / '), values, items: [] };
+        groups.set(key, group);
+      }
+      group.items.push(item);
+    });
+
+    return Array.from(groups.values()).sort((group1, group2) => {
+      for (let i = 0; i < dimensions.length; i++) {
+        const col = dimensions[i];
+        const result = sortByFieldType(
+          col.type || 'string',
+          group1.values[i],
+          group2.values[i],
+          SortDirectionNumber.asc,
+          col,
+          this.gridOptions
+        );
+        if (result !== 0) {
+          return result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  /** When changing an aggregator of a value field, we need to recalculate the pivot */
+  protected handlePanelChange(event: Event): void {
+    if ((event.target as HTMLElement)?.classList.contains('slick-pivot-aggregator')) {
+      this.updatePivotFromDropzones('change-aggregator');
+    }
+  }
+
+  /** Remove a dropped field when clicking on its remove icon */
+  protected handlePanelClick(event: MouseEvent): void {
+    const targetElm = event.target as HTMLElement;
+    if (targetElm?.classList.contains('slick-pivot-field-remove')) {
+      targetElm.closest('.slick-pivot-field')?.remove();
+      this.updatePivotFromDropzones('remove-field');
+    }
+  }
+
+  /** Count & Distinct values are not of the same type as the source values, so they cannot reuse the source column Formatter */
+  protected canReuseSourceFormatter(aggregatorType: PivotAggregatorType): boolean {
+    return aggregatorType !== 'Count' && aggregatorType !== 'Distinct';
+  }
+
+  /** Render the list of source columns that can be dragged into any of the pivot drop areas */
+  protected renderAvailableFields(): void {
+    if (this._fieldsElm) {
+      emptyElement(this._fieldsElm);
+      this._sourceColumns
+        .filter((col) => !col.excludeFromColumnPicker && col.field)
+        .forEach((col) => this._fieldsElm!.appendChild(this.createFieldElement(col)));
+    }
+  }
+
+  /** Render all the fields of each drop area from the current pivot configuration */
+  protected renderDropzones(): void {
+    const findColumn = (columnId: string) => this._sourceColumns.find((col) => `${col.id}` === columnId);
+    (['rows', 'columns', 'values'] as PivotArea[]).forEach((area) => {
+      const dropzoneElm = this._dropzoneElms[area];
+      if (dropzoneElm) {
+        emptyElement(dropzoneElm);
+        const fieldElms: HTMLDivElement[] = [];
+        if (area === 'values') {
+          this._pivotConfig?.values.forEach((valueField) => {
+            const column = findColumn(valueField.columnId);
+            if (column) {
+              fieldElms.push(this.createFieldElement(column, valueField, true));
+            }
+          });
+        } else {
+          this._pivotConfig?.[area].forEach((columnId) => {
+            const column = findColumn(columnId);
+            if (column) {
+              fieldElms.push(this.createFieldElement(column, undefined, true));
+            }
+          });
+        }
+
+        if (fieldElms.length) {
+          fieldElms.forEach((fieldElm) => dropzoneElm.appendChild(fieldElm));
+        } else {
+          createDomElement(
+            'div',
+            { className: 'slick-pivot-dropzone-placeholder', textContent: this._addonOptions.dropPlaceHolderText ?? '' },
+            dropzoneElm
+          );
+        }
+      }
+    });
+  }
+
+  /** Remove any unknown column and make sure that a column is used only once as a row or column dimension */
+  protected sanitizePivotConfig(pivotConfig: PivotConfig | null): PivotConfig | null {
+    if (!pivotConfig) {
+      return null;
+    }
+    const columnExists = (columnId: string) => this._sourceColumns.some((col) => `${col.id}` === columnId);
+    const rows = [...new Set(pivotConfig.rows ?? [])].filter(columnExists);
+    const columns = [...new Set(pivotConfig.columns ?? [])].filter((columnId) => columnExists(columnId) && !rows.includes(columnId));
+    const values = (pivotConfig.values ?? [])
+      .filter((valueField) => columnExists(valueField.columnId))
+      .map((valueField) => ({ ...valueField, aggregator: valueField.aggregator || this._addonOptions.defaultAggregator || 'Sum' }));
+
+    return rows.length || columns.length || values.length ? { rows, columns, values } : null;
+  }
+
+  protected setupSortableDropzones(): void {
+    this.destroySortableInstances();
+    const groupName = `pivot_${this._gridUid}`;
+
+    if (this._fieldsElm) {
+      this._sortableInstances.push(
+        Sortable.create(this._fieldsElm, {
+          group: { name: groupName, pull: 'clone', put: false },
+          draggable: '.slick-pivot-field',
+          sort: false,
+        } as SortableOptions)
+      );
+    }
+
+    (['rows', 'columns', 'values'] as PivotArea[]).forEach((area) => {
+      const dropzoneElm = this._dropzoneElms[area];
+      if (dropzoneElm) {
+        this._sortableInstances.push(
+          Sortable.create(dropzoneElm, {
+            group: { name: groupName, pull: true, put: true },
+            animation: 50,
+            ghostClass: 'slick-droppable-sortitem-hover',
+            draggable: '.slick-pivot-field',
+            onAdd: () => this.updatePivotFromDropzones('add-field'),
+            onUpdate: () => this.updatePivotFromDropzones('sort-field'),
+          } as SortableOptions)
+        );
+      }
+    });
+  }
+
+  /** Translate the drop area titles & placeholder when translation is enabled and translation keys are provided */
+  protected translatePivotTitles(): void {
+    if (this.gridOptions.enableTranslate) {
+      const translatableProps = [
+        ['dropPlaceHolderText', 'dropPlaceHolderTextKey'],
+        ['rowsTitle', 'rowsTitleKey'],
+        ['columnsTitle', 'columnsTitleKey'],
+        ['valuesTitle', 'valuesTitleKey'],
+      ] as Array<[keyof PivotOption, keyof PivotOption]>;
+
+      translatableProps.forEach(([textProp, textKeyProp]) => {
+        const translationKey = this._addonOptions[textKeyProp] as string | undefined;
+        if (translationKey) {
+          (this._addonOptions as any)[textProp] = this.extensionUtility.translateWhenEnabledAndServiceExist(
+            translationKey,
+            `TEXT_${translationKey}`
+          );
+        }
+      });
+    }
+  }
+
+  /** call notify on slickgrid event and execute onPivotChanged callback when defined as a function by the user */
+  protected triggerOnPivotChangedEvent(args: { caller?: string; pivot: PivotConfig | null }): void {
+    if (this._addonOptions && typeof this._addonOptions.onPivotChanged === 'function') {
+      this._addonOptions.onPivotChanged(new SlickEventData(), args);
+    }
+    this.onPivotChanged.notify(args);
+  }
+
+  protected updateGridColumnsAndItems(columns: Column[], items: any[]): void {
+    this._isSettingPivotItems = true;
+    this.sharedService.allColumns = columns;
+    this.grid.setColumns(columns);
+    this.dataView.setItems(items, this.gridOptions.datasetIdPropertyName ?? 'id');
+    this.grid.invalidate();
+    this._isSettingPivotItems = false;
+  }
+
+  /** Read the fields dropped in each drop area and update the pivot configuration accordingly */
+  protected updatePivotFromDropzones(caller: string): void {
+    const readColumnIds = (area: PivotArea) =>
+      Array.from(this._dropzoneElms[area]?.querySelectorAll<HTMLDivElement>('.slick-pivot-field') ?? []).map(
+        (fieldElm) => fieldElm.dataset.id as string
+      );
+    const values = Array.from(this._dropzoneElms.values?.querySelectorAll<HTMLDivElement>('.slick-pivot-field') ?? []).map(
+      (fieldElm) =>
+        ({
+          columnId: fieldElm.dataset.id,
+          aggregator: fieldElm.querySelector<HTMLSelectElement>('.slick-pivot-aggregator')?.value || this._addonOptions.defaultAggregator,
+        }) as PivotValueField
+    );
+
+    this.setPivotConfig({ rows: readColumnIds('rows'), columns: readColumnIds('columns'), values }, caller);
+  }
+}
@@ -1,7 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 import { Filters } from '../../filters/filters.index.js';
 import { renderDomElementFromCollectionAsync } from '../../filters/filterUtilities.js';
-import { compareObjects, testFilterCondition } from '../filterUtilities.js';
+import { compareObjects, isFilterExpressionGroup, testFilterCondition } from '../filterUtilities.js';
 
 describe('filterUtilities', () => {
   describe('compareObjects method', () => {
@@ -41,6 +41,18 @@ describe('filterUtilities', () => {
     });
   });
 
+  describe('isFilterExpressionGroup method', () => {
+    it('should return True when the node has a "conditions" array', () => {
+      expect(isFilterExpressionGroup({ logic: 'and', conditions: [] })).toBe(true);
+      expect(isFilterExpressionGroup({ logic: 'or', not: true, conditions: [{ columnId: 'age', searchTerms: [20] }] })).toBe(true);
+    });
+
+    it('should return False when the node is a filter condition or is undefined', () => {
+      expect(isFilterExpressionGroup({ columnId: 'age', operator: '>', searchTerms: [20] })).toBe(false);
+      expect(isFilterExpressionGroup(undefined as any)).toBe(false);
+    });
+  });
+
   describe('renderDomElementFromCollectionAsync method', () => {
     it('should get collection found in inner object property when "collectionInsideObjectProperty" is enabled and replace collection prop', () => {
       const collection = [
@@ -1,4 +1,5 @@
 import type { OperatorType } from '../enums/index.js';
+import type { FilterExpressionCondition, FilterExpressionGroup } from '../interfaces/index.js';
 
 /**
  * Compare 2 objects,
@@ -30,6 +31,11 @@ export function compareObjects(o1: any, o2: any, compareKey?: string): boolean {
   return true;
 }
 
+/** Simple check to see if the Filter Expression node is a group of conditions (or else it's a single condition) */
+export function isFilterExpressionGroup(node: FilterExpressionCondition | FilterExpressionGroup): node is FilterExpressionGroup {
+  return Array.isArray((node as FilterExpressionGroup)?.conditions);
+}
+
 /** Simple check to see if the given Operator is meant to be used with a collection check */
 export function isCollectionOperator(operator: OperatorType): boolean {
   const inputOperator = operator?.toUpperCase() || '';
@@ -141,9 +141,11 @@ export const GlobalGridOptions: Partial<GridOption> = {
     frozenLeftViewportMarginLeft: '0px',
     frozenRightViewportMarginLeft: '40%',
   } as unknown as EmptyWarning,
+  enableAriaAnnouncer: true,
   enableAutoResize: true,
   enableAutoSizeColumns: true,
   enableCellNavigation: false,
+  enableChangeIndicator: true,
   enableColumnPicker: true,
   enableColumnReorder: true,
   enableColumnResizeOnDoubleClick: true,
@@ -199,6 +201,7 @@ export const GlobalGridOptions: Partial<GridOption> = {
   gridMenu: {
     dropSide: 'left',
     commandLabels: {
+      advancedFilterCommandKey: 'ADVANCED_FILTER',
       clearAllFiltersCommandKey: 'CLEAR_ALL_FILTERS',
       clearAllSortingCommandKey: 'CLEAR_ALL_SORTING',
       clearFrozenColumnsCommandKey: 'CLEAR_PINNING',
@@ -211,6 +214,7 @@ export const GlobalGridOptions: Partial<GridOption> = {
       toggleFilterCommandKey: 'TOGGLE_FILTER_ROW',
       togglePreHeaderCommandKey: 'TOGGLE_PRE_HEADER_ROW',
     },
+    hideAdvancedFilterCommand: true, // opt-in command
     hideClearAllFiltersCommand: false,
     hideClearAllSortingCommand: false,
     hideClearFrozenColumnsCommand: true, // opt-in command
@@ -225,6 +229,7 @@ export const GlobalGridOptions: Partial<GridOption> = {
     hideToggleDarkModeCommand: true,
     hideTogglePreHeaderCommand: false,
     iconCssClass: 'mdi mdi-menu',
+    iconAdvancedFilterCommand: 'mdi mdi-filter-plus-outline',
     iconClearAllFiltersCommand: 'mdi mdi-filter-remove-outline',
     iconClearAllSortingCommand: 'mdi mdi-sort-variant-off',
     iconClearFrozenColumnsCommand: 'mdi mdi-pin-off-outline',
@@ -249,11 +254,13 @@ export const GlobalGridOptions: Partial<GridOption> = {
     iconClearSortCommand: 'mdi mdi-sort-variant-off',
     iconFilterShortcutSubMenu: 'mdi mdi-filter-outline',
     iconFreezeColumns: 'mdi mdi-pin-outline',
+    iconFreezeColumnsRight: 'mdi mdi-pin-outline mdi-flip-h',
     iconUnfreezeColumns: 'mdi mdi-pin-off-outline',
     iconSortAscCommand: 'mdi mdi-sort-ascending',
     iconSortDescCommand: 'mdi mdi-sort-descending',
     iconColumnHideCommand: 'mdi mdi-close',
     iconColumnResizeByContentCommand: 'mdi mdi-arrow-expand-horizontal',
+    iconConditionalFormattingSubMenu: 'mdi mdi-tune-variant',
     hideColumnResizeByContentCommand: false,
     hideColumnHideCommand: false,
     hideClearFilterCommand: false,
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { type SlickGrid } from '../../core/index.js';
+import type { Column } from '../../interfaces/index.js';
+import { countDistinctTotalsFormatter } from '../countDistinctTotalsFormatter.js';
+
+describe('countDistinctTotalsFormatter', () => {
+  it('should display an empty string when no value is provided', () => {
+    const output = countDistinctTotalsFormatter({}, {} as Column, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the "countDistinct" does not find the field property in its object', () => {
+    const columnDef = { id: 'column3', field: 'column3' } as Column;
+    const totals = { countDistinct: { column1: 12, column2: 3 } };
+    const output = countDistinctTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display zero when the group only has empty values to count', () => {
+    const columnDef = { id: 'department', field: 'department' } as Column;
+    const totals = { countDistinct: { department: 0 } };
+    const output = countDistinctTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('0');
+  });
+
+  it('should display the distinct count with a prefix and suffix', () => {
+    const columnDef = { id: 'department', field: 'department', params: { groupFormatterPrefix: 'Departments: ', groupFormatterSuffix: ' unique' } } as Column;
+    const totals = { countDistinct: { department: 7 } };
+    const output = countDistinctTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('Departments: 7 unique');
+  });
+
+  it('should display a large distinct count with a thousand separator', () => {
+    const columnDef = { id: 'customerId', field: 'customerId', params: { thousandSeparator: ',' } } as Column;
+    const totals = { countDistinct: { customerId: 1234567 } };
+    const output = countDistinctTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('1,234,567');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi, type Mock } from 'vitest';
+import { type SlickGrid } from '../../core/index.js';
+import type { Column, GridOption } from '../../interfaces/index.js';
+import { medianTotalsFormatter } from '../medianTotalsFormatter.js';
+
+describe('medianTotalsFormatter', () => {
+  // stub some methods of the SlickGrid Grid instance
+  const gridStub = {
+    getOptions: vi.fn(),
+  } as unknown as SlickGrid;
+
+  it('should display an empty string when no value is provided', () => {
+    const output = medianTotalsFormatter({}, {} as Column, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the "median" does not find the field property in its object', () => {
+    const columnDef = { id: 'column3', field: 'column3' } as Column;
+    const totals = { median: { column1: 123, column2: 345 } };
+    const output = medianTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the group has no valid number to calculate a median', () => {
+    const columnDef = { id: 'duration', field: 'duration' } as Column;
+    const totals = { median: { duration: undefined } };
+    const output = medianTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display the average of the 2 middle values of an even group with the decimal count defined in the column params', () => {
+    // values of 10, 15, 16, 30 => median of (15 + 16) / 2
+    const columnDef = { id: 'duration', field: 'duration', params: { minDecimal: 1, groupFormatterSuffix: ' days' } } as Column;
+    const totals = { median: { duration: 15.5 } };
+    const output = medianTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('15.5 days');
+  });
+
+  it('should display a negative median with parentheses when "displayNegativeNumberWithParentheses" is enabled in the Formatter Options', () => {
+    (gridStub.getOptions as Mock).mockReturnValue({ formatterOptions: { displayNegativeNumberWithParentheses: true } } as GridOption);
+    const columnDef = { id: 'balance', field: 'balance' } as Column;
+    const totals = { median: { balance: -2.4 } };
+    const output = medianTotalsFormatter(totals, columnDef, gridStub);
+    expect(output).toBe('(2.4)');
+  });
+
+  it('should display a median with user defined decimal count, thousand separator and prefix', () => {
+    const columnDef = {
+      id: 'salary',
+      field: 'salary',
+      params: { maxDecimal: 2, thousandSeparator: ',', groupFormatterPrefix: 'Median: ' },
+    } as Column;
+    const totals = { median: { salary: 72345.45678 } };
+    const output = medianTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('Median: 72,345.46');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi, type Mock } from 'vitest';
+import { type SlickGrid } from '../../core/index.js';
+import type { Column, GridOption } from '../../interfaces/index.js';
+import { modeTotalsFormatter } from '../modeTotalsFormatter.js';
+
+describe('modeTotalsFormatter', () => {
+  // stub some methods of the SlickGrid Grid instance
+  const gridStub = {
+    getOptions: vi.fn(),
+  } as unknown as SlickGrid;
+
+  it('should display an empty string when no value is provided', () => {
+    const output = modeTotalsFormatter({}, {} as Column, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the "mode" does not find the field property in its object', () => {
+    const columnDef = { id: 'column3', field: 'column3' } as Column;
+    const totals = { mode: { column1: 123, column2: 345 } };
+    const output = modeTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the most frequent value is null', () => {
+    const columnDef = { id: 'column1', field: 'column1' } as Column;
+    const totals = { mode: { column1: null } };
+    const output = modeTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display the most frequent text value as is with a prefix and suffix', () => {
+    const columnDef = { id: 'column1', field: 'column1', params: { groupFormatterPrefix: 'Mode: ', groupFormatterSuffix: ' (most)' } } as Column;
+    const totals = { mode: { column1: 'Finance' } };
+    const output = modeTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('Mode: Finance (most)');
+  });
+
+  it('should display a negative number with parentheses when input is negative and "displayNegativeNumberWithParentheses" is enabled in the Formatter Options', () => {
+    (gridStub.getOptions as Mock).mockReturnValue({ formatterOptions: { displayNegativeNumberWithParentheses: true } } as GridOption);
+    const columnDef = { id: 'column3', field: 'column3' } as Column;
+    const totals = { mode: { column1: 123, column2: 345, column3: -2.4 } };
+    const output = modeTotalsFormatter(totals, columnDef, gridStub);
+    expect(output).toBe('(2.4)');
+  });
+
+  it('should display a number with user defined decimal count and thousand separator', () => {
+    const totals = { mode: { column1: 12345.45678, column2: 345.2 } };
+
+    const output1 = modeTotalsFormatter(
+      totals,
+      { id: 'column1', field: 'column1', params: { maxDecimal: 2, thousandSeparator: ',' } } as Column,
+      {} as SlickGrid
+    );
+    const output2 = modeTotalsFormatter(totals, { id: 'column2', field: 'column2', params: { minDecimal: 3 } } as Column, {} as SlickGrid);
+
+    expect(output1).toBe('12,345.46');
+    expect(output2).toBe('345.200');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi, type Mock } from 'vitest';
+import { type SlickGrid } from '../../core/index.js';
+import type { Column, GridOption } from '../../interfaces/index.js';
+import { percentileTotalsFormatter } from '../percentileTotalsFormatter.js';
+
+describe('percentileTotalsFormatter', () => {
+  // stub some methods of the SlickGrid Grid instance
+  const gridStub = {
+    getOptions: vi.fn(),
+  } as unknown as SlickGrid;
+
+  it('should display an empty string when no value is provided', () => {
+    const output = percentileTotalsFormatter({}, {} as Column, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the "groupFormatterPercentile" param is not the percentile calculated by the Aggregator', () => {
+    const columnDef = { id: 'column1', field: 'column1', params: { groupFormatterPercentile: 50 } } as Column;
+    const totals = { percentile90: { column1: 123 } };
+    const output = percentileTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the group has no valid number to calculate a percentile', () => {
+    const columnDef = { id: 'column1', field: 'column1', params: { groupFormatterPercentile: 90 } } as Column;
+    const totals = { percentile90: { column1: undefined } };
+    const output = percentileTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display the percentile defined by the "groupFormatterPercentile" param when multiple percentiles are calculated on the same field', () => {
+    const totals = { percentile10: { duration: 2.5 }, percentile90: { duration: 97.5 } };
+
+    const output1 = percentileTotalsFormatter(
+      totals,
+      { id: 'duration', field: 'duration', params: { groupFormatterPercentile: 10, groupFormatterPrefix: 'P10: ' } } as Column,
+      {} as SlickGrid
+    );
+    const output2 = percentileTotalsFormatter(
+      totals,
+      { id: 'duration', field: 'duration', params: { groupFormatterPercentile: 90, groupFormatterPrefix: 'P90: ' } } as Column,
+      {} as SlickGrid
+    );
+
+    expect(output1).toBe('P10: 2.5');
+    expect(output2).toBe('P90: 97.5');
+  });
+
+  it('should display an interpolated percentile rounded to the decimal count defined in the column params', () => {
+    const columnDef = {
+      id: 'cost',
+      field: 'cost',
+      params: { groupFormatterPercentile: 90, maxDecimal: 2, thousandSeparator: ',', groupFormatterSuffix: ' USD' },
+    } as Column;
+    const totals = { percentile90: { cost: 12345.45678 } };
+    const output = percentileTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('12,345.46 USD');
+  });
+
+  it('should display a negative percentile with parentheses when "displayNegativeNumberWithParentheses" is enabled in the Formatter Options', () => {
+    (gridStub.getOptions as Mock).mockReturnValue({ formatterOptions: { displayNegativeNumberWithParentheses: true } } as GridOption);
+    const columnDef = { id: 'temperature', field: 'temperature', params: { groupFormatterPercentile: 10 } } as Column;
+    const totals = { percentile10: { temperature: -12.4 } };
+    const output = percentileTotalsFormatter(totals, columnDef, gridStub);
+    expect(output).toBe('(12.4)');
+  });
+});
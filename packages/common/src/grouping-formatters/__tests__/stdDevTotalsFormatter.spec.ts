@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { type SlickGrid } from '../../core/index.js';
+import type { Column } from '../../interfaces/index.js';
+import { stdDevTotalsFormatter } from '../stdDevTotalsFormatter.js';
+
+describe('stdDevTotalsFormatter', () => {
+  it('should display an empty string when no value is provided', () => {
+    const output = stdDevTotalsFormatter({}, {} as Column, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the sample standard deviation is undefined because the group has less than 2 values', () => {
+    const columnDef = { id: 'duration', field: 'duration' } as Column;
+    const totals = { stdDevSample: { duration: undefined }, stdDevPopulation: { duration: 0 } };
+    const output = stdDevTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display the sample standard deviation by default and the population standard deviation when defined by the "groupFormatterVarianceMode" param', () => {
+    // values of 2, 4, 4, 4, 5, 5, 7, 9 => population standard deviation of 2 and sample standard deviation of 2.138
+    const totals = { stdDevSample: { duration: Math.sqrt(32 / 7) }, stdDevPopulation: { duration: 2 } };
+
+    const output1 = stdDevTotalsFormatter(totals, { id: 'duration', field: 'duration', params: { maxDecimal: 3 } } as Column, {} as SlickGrid);
+    const output2 = stdDevTotalsFormatter(
+      totals,
+      { id: 'duration', field: 'duration', params: { groupFormatterVarianceMode: 'population' } } as Column,
+      {} as SlickGrid
+    );
+
+    expect(output1).toBe('2.138');
+    expect(output2).toBe('2');
+  });
+
+  it('should display a standard deviation of zero when all the values of the group are equal', () => {
+    const columnDef = { id: 'duration', field: 'duration', params: { groupFormatterPrefix: 'σ: ' } } as Column;
+    const totals = { stdDevSample: { duration: 0 } };
+    const output = stdDevTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('σ: 0');
+  });
+
+  it('should display a standard deviation with user defined decimal count, thousand separator, prefix and suffix', () => {
+    const columnDef = {
+      id: 'salary',
+      field: 'salary',
+      params: { minDecimal: 2, maxDecimal: 2, thousandSeparator: ',', groupFormatterPrefix: 'StdDev: ', groupFormatterSuffix: ' USD' },
+    } as Column;
+    const totals = { stdDevSample: { salary: 12345.4 } };
+    const output = stdDevTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('StdDev: 12,345.40 USD');
+  });
+});
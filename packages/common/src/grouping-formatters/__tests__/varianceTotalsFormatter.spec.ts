@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { type SlickGrid } from '../../core/index.js';
+import type { Column } from '../../interfaces/index.js';
+import { varianceTotalsFormatter } from '../varianceTotalsFormatter.js';
+
+describe('varianceTotalsFormatter', () => {
+  it('should display an empty string when no value is provided', () => {
+    const output = varianceTotalsFormatter({}, {} as Column, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the sample variance is undefined because the group has less than 2 values', () => {
+    const columnDef = { id: 'duration', field: 'duration' } as Column;
+    const totals = { varianceSample: { duration: undefined }, variancePopulation: { duration: 0 } };
+    const output = varianceTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display the sample variance by default and the population variance when defined by the "groupFormatterVarianceMode" param', () => {
+    // values of 2, 4, 4, 4, 5, 5, 7, 9 => population variance of 4 and sample variance of 4.571
+    const totals = { varianceSample: { duration: 32 / 7 }, variancePopulation: { duration: 4 } };
+
+    const output1 = varianceTotalsFormatter(totals, { id: 'duration', field: 'duration', params: { maxDecimal: 3 } } as Column, {} as SlickGrid);
+    const output2 = varianceTotalsFormatter(
+      totals,
+      { id: 'duration', field: 'duration', params: { groupFormatterVarianceMode: 'population' } } as Column,
+      {} as SlickGrid
+    );
+
+    expect(output1).toBe('4.571');
+    expect(output2).toBe('4');
+  });
+
+  it('should display a large variance with user defined decimal count, thousand separator, prefix and suffix', () => {
+    const columnDef = {
+      id: 'cost',
+      field: 'cost',
+      params: { maxDecimal: 2, thousandSeparator: ',', groupFormatterPrefix: 'Var: ', groupFormatterSuffix: ' USD²' },
+    } as Column;
+    const totals = { varianceSample: { cost: 1524157.87654 } };
+    const output = varianceTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('Var: 1,524,157.88 USD²');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { type SlickGrid } from '../../core/index.js';
+import type { Column } from '../../interfaces/index.js';
+import { weightedAvgTotalsFormatter } from '../weightedAvgTotalsFormatter.js';
+
+describe('weightedAvgTotalsFormatter', () => {
+  it('should display an empty string when no value is provided', () => {
+    const output = weightedAvgTotalsFormatter({}, {} as Column, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the "weightedAvg" does not find the field property in its object', () => {
+    const columnDef = { id: 'column3', field: 'column3' } as Column;
+    const totals = { weightedAvg: { column1: 123, column2: 345 } };
+    const output = weightedAvgTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display an empty string when the weighted average is undefined because the sum of all the weights is zero', () => {
+    const columnDef = { id: 'price', field: 'price' } as Column;
+    const totals = { weightedAvg: { price: undefined } };
+    const output = weightedAvgTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('');
+  });
+
+  it('should display a weighted average price rounded to the decimal count defined in the column params', () => {
+    // prices of 10 x 3 and 20 x 4 => (30 + 80) / 7 = 15.714285...
+    const columnDef = {
+      id: 'price',
+      field: 'price',
+      params: { minDecimal: 2, maxDecimal: 2, groupFormatterPrefix: 'Avg Price: ', groupFormatterSuffix: ' USD' },
+    } as Column;
+    const totals = { weightedAvg: { price: 110 / 7 } };
+    const output = weightedAvgTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('Avg Price: 15.71 USD');
+  });
+
+  it('should display a weighted average with user defined decimal and thousand separators', () => {
+    const columnDef = {
+      id: 'price',
+      field: 'price',
+      params: { maxDecimal: 2, decimalSeparator: ',', thousandSeparator: ' ' },
+    } as Column;
+    const totals = { weightedAvg: { price: 12345.45678 } };
+    const output = weightedAvgTotalsFormatter(totals, columnDef, {} as SlickGrid);
+    expect(output).toBe('12 345,46');
+  });
+});
@@ -3,8 +3,13 @@ import { avgTotalsCurrencyFormatter } from './avgTotalsCurrencyFormatter.js';
 import { avgTotalsDollarFormatter } from './avgTotalsDollarFormatter.js';
 import { avgTotalsFormatter } from './avgTotalsFormatter.js';
 import { avgTotalsPercentageFormatter } from './avgTotalsPercentageFormatter.js';
+import { countDistinctTotalsFormatter } from './countDistinctTotalsFormatter.js';
 import { maxTotalsFormatter } from './maxTotalsFormatter.js';
+import { medianTotalsFormatter } from './medianTotalsFormatter.js';
 import { minTotalsFormatter } from './minTotalsFormatter.js';
+import { modeTotalsFormatter } from './modeTotalsFormatter.js';
+import { percentileTotalsFormatter } from './percentileTotalsFormatter.js';
+import { stdDevTotalsFormatter } from './stdDevTotalsFormatter.js';
 import { sumTotalsBoldFormatter } from './sumTotalsBoldFormatter.js';
 import { sumTotalsColoredFormatter } from './sumTotalsColoredFormatter.js';
 import { sumTotalsCurrencyColoredFormatter } from './sumTotalsCurrencyColoredFormatter.js';
@@ -14,6 +19,8 @@ import { sumTotalsDollarColoredBoldFormatter } from './sumTotalsDollarColoredBol
 import { sumTotalsDollarColoredFormatter } from './sumTotalsDollarColoredFormatter.js';
 import { sumTotalsDollarFormatter } from './sumTotalsDollarFormatter.js';
 import { sumTotalsFormatter } from './sumTotalsFormatter.js';
+import { varianceTotalsFormatter } from './varianceTotalsFormatter.js';
+import { weightedAvgTotalsFormatter } from './weightedAvgTotalsFormatter.js';
 
 /** Provides a list of different Formatters that will change the cell value displayed in the UI */
 export const GroupTotalFormatters: Record<string, GroupTotalsFormatter> = {
@@ -41,18 +48,48 @@ export const GroupTotalFormatters: Record<string, GroupTotalsFormatter> = {
    */
   avgTotalsPercentage: avgTotalsPercentageFormatter,
 
+  /**
+   * Show the count of distinct values of all the column totals
+   * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
+   */
+  countDistinctTotals: countDistinctTotalsFormatter,
+
   /**
    * Show max value of all the column totals
    * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
    */
   maxTotals: maxTotalsFormatter,
 
+  /**
+   * Show median value of all the column totals
+   * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
+   */
+  medianTotals: medianTotalsFormatter,
+
   /**
    * Show min value of all the column totals
    * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
    */
   minTotals: minTotalsFormatter,
 
+  /**
+   * Show the most frequent value (mode) of all the column totals, which could also be a text value
+   * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
+   */
+  modeTotals: modeTotalsFormatter,
+
+  /**
+   * Show percentile value of all the column totals
+   * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
+   */
+  percentileTotals: percentileTotalsFormatter,
+
+  /**
+   * Show standard deviation of all the column totals
+   * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
+   */
+  stdDevTotals: stdDevTotalsFormatter,
+
   /**
    * Sums up all the column totals
    * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
@@ -108,4 +145,16 @@ export const GroupTotalFormatters: Record<string, GroupTotalsFormatter> = {
    * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
    */
   sumTotalsDollarColoredBold: sumTotalsDollarColoredBoldFormatter,
+
+  /**
+   * Show variance of all the column totals
+   * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
+   */
+  varianceTotals: varianceTotalsFormatter,
+
+  /**
+   * Show weighted average of all the column totals
+   * Extra options available in "params":: "groupFormatterPrefix" and "groupFormatterSuffix", e.g.: params: { groupFormatterPrefix: '<i>Total</i>: ', groupFormatterSuffix: '$' }
+   */
+  weightedAvgTotals: weightedAvgTotalsFormatter,
 };
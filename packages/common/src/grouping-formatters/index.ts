@@ -1,3 +1,5 @@
+export * from './weightedAvgTotalsFormatter.js';
+export * from './varianceTotalsFormatter.js';
 export * from './sumTotalsFormatter.js';
 export * from './sumTotalsDollarFormatter.js';
 export * from './sumTotalsDollarColoredFormatter.js';
@@ -5,9 +7,14 @@ export * from './sumTotalsDollarColoredBoldFormatter.js';
 export * from './sumTotalsDollarBoldFormatter.js';
 export * from './sumTotalsColoredFormatter.js';
 export * from './sumTotalsBoldFormatter.js';
+export * from './stdDevTotalsFormatter.js';
+export * from './percentileTotalsFormatter.js';
+export * from './modeTotalsFormatter.js';
 export * from './minTotalsFormatter.js';
+export * from './medianTotalsFormatter.js';
 export * from './maxTotalsFormatter.js';
 export * from './groupingFormatters.index.js';
+export * from './countDistinctTotalsFormatter.js';
 export * from './avgTotalsPercentageFormatter.js';
 export * from './avgTotalsFormatter.js';
 export * from './avgTotalsDollarFormatter.js';
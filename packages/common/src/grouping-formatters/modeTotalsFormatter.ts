@@ -0,0 +1,26 @@
+import { isNumber } from '@slickgrid-universal/utils';
+import { type SlickGrid } from '../core/index.js';
+import { retrieveFormatterOptions } from '../formatters/formatterUtilities.js';
+import { formatNumber } from '../services/utilities.js';
+import type { Column, GroupTotalsFormatter } from './../interfaces/index.js';
+
+export const modeTotalsFormatter: GroupTotalsFormatter = (totals: any, columnDef: Column, grid: SlickGrid) => {
+  const field = columnDef.field ?? '';
+  const val = totals.mode?.[field];
+  const params = columnDef?.params ?? {};
+  const prefix = params.groupFormatterPrefix || '';
+  const suffix = params.groupFormatterSuffix || '';
+
+  if (isNumber(val)) {
+    const { minDecimal, maxDecimal, decimalSeparator, thousandSeparator, wrapNegativeNumber } = retrieveFormatterOptions(
+      columnDef,
+      grid,
+      'regular',
+      'group'
+    );
+    const formattedNumber = formatNumber(val, minDecimal, maxDecimal, wrapNegativeNumber, '', '', decimalSeparator, thousandSeparator);
+    return `${prefix}${formattedNumber}${suffix}`;
+  }
+  // the most frequent value could also be a text (or any other type) which we'll display as is
+  return val !== undefined && val !== null ? `${prefix}${val}${suffix}` : '';
+};
@@ -0,0 +1,26 @@
+import { isNumber, titleCase } from '@slickgrid-universal/utils';
+import { type SlickGrid } from '../core/index.js';
+import { retrieveFormatterOptions } from '../formatters/formatterUtilities.js';
+import { formatNumber } from '../services/utilities.js';
+import type { Column, GroupTotalsFormatter } from './../interfaces/index.js';
+
+export const stdDevTotalsFormatter: GroupTotalsFormatter = (totals: any, columnDef: Column, grid: SlickGrid) => {
+  const field = columnDef.field ?? '';
+  const params = columnDef?.params ?? {};
+  // the totals are stored under the mode calculated by the Aggregator (e.g. "stdDevSample" or "stdDevPopulation")
+  const val = totals[`stdDev${titleCase(params.groupFormatterVarianceMode ?? 'sample')}`]?.[field];
+  const prefix = params.groupFormatterPrefix || '';
+  const suffix = params.groupFormatterSuffix || '';
+  const { minDecimal, maxDecimal, decimalSeparator, thousandSeparator, wrapNegativeNumber } = retrieveFormatterOptions(
+    columnDef,
+    grid,
+    'regular',
+    'group'
+  );
+
+  if (isNumber(val)) {
+    const formattedNumber = formatNumber(val, minDecimal, maxDecimal, wrapNegativeNumber, '', '', decimalSeparator, thousandSeparator);
+    return `${prefix}${formattedNumber}${suffix}`;
+  }
+  return '';
+};
@@ -19,5 +19,5 @@ export interface Aggregator {
 }
 
 export interface AggregatorConstructor {
-  new (field: number | string): Aggregator;
+  new (field: number | string, ...args: any[]): Aggregator;
 }
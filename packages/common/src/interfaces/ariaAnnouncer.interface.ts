@@ -0,0 +1,10 @@
+import type { SlickAriaAnnouncer } from '../extensions/slickAriaAnnouncer.js';
+import type { AriaAnnouncerOption } from './ariaAnnouncerOption.interface.js';
+
+export interface AriaAnnouncer extends AriaAnnouncerOption {
+  //
+  // Events
+  // ---------
+  /** Fired after extension (plugin) is registered by SlickGrid */
+  onExtensionRegistered?: (plugin: SlickAriaAnnouncer) => void;
+}
@@ -0,0 +1,22 @@
+export interface AriaAnnouncerOption {
+  /** Defaults to true, announce the column name of a cell after its value was changed by an editor */
+  announceCellChange?: boolean;
+
+  /** Defaults to true, announce the number of rows found after a filter change */
+  announceFilterChange?: boolean;
+
+  /** Defaults to true, announce the rows visible in the viewport (e.g. "Showing rows 21 to 40 of 500") once the user stopped scrolling */
+  announceScroll?: boolean;
+
+  /** Defaults to true, announce the number of selected rows after a row selection change */
+  announceSelectionChange?: boolean;
+
+  /** Defaults to true, announce the sorted column(s) and their sort direction after a sort change */
+  announceSortChange?: boolean;
+
+  /** Defaults to 500, delay in milliseconds to wait after the last scroll or filter change before announcing it (typing a filter or scrolling could trigger a lot of changes) */
+  delay?: number;
+
+  /** Defaults to "polite", the "aria-live" politeness of the live region, an "assertive" announcement will interrupt the screen reader */
+  politeness?: 'polite' | 'assertive';
+}
@@ -1,12 +1,18 @@
 import type { SlickGrid } from '../core/index.js';
 import type { SharedService } from '../services/shared.service.js';
 import type {
+  Aggregator,
   BackendServiceOption,
+  Column,
   ColumnFilters,
   CurrentFilter,
+  CurrentGlobalSearch,
   CurrentPagination,
   CurrentSorter,
+  CursorPageInfo,
   FilterChangedArgs,
+  FilterExpressionGroup,
+  GroupTotals,
   MultiColumnSort,
   Pagination,
   PaginationChangedArgs,
@@ -14,6 +20,50 @@ import type {
   SingleColumnSort,
 } from './index.js';
 
+export interface BackendServiceDatasetResult {
+  /** dataset (items) extracted from the backend process result */
+  dataset: any[];
+
+  /** total item count extracted from the backend process result, when available */
+  totalItems?: number;
+
+  /** cursor page info extracted from the backend process result, when the group children are paginated by a cursor (server-side grouping) */
+  pageInfo?: CursorPageInfo;
+}
+
+export interface BackendServiceGroupBy {
+  /** column definition of the grouped column */
+  columnDef: Column;
+
+  /** aggregators of the grouping level, their totals should be calculated by the backend server */
+  aggregators: Aggregator[];
+
+  /** defaults to true, sort direction of the groups */
+  sortAsc?: boolean;
+}
+
+export interface BackendServiceGroupResult {
+  /** group value, which is the value of the grouped column shared by all the group items */
+  value: any;
+
+  /** item count of the group */
+  count: number;
+
+  /** group totals calculated by the backend server for each aggregator, ex.: { sum: { cost: 1200 }, avg: { duration: 5 } } */
+  totals?: GroupTotals<any>;
+}
+
+export interface BackendServiceGroupsResult {
+  /** groups extracted from the backend process result */
+  groups: BackendServiceGroupResult[];
+
+  /** total group count extracted from the backend process result, when available */
+  totalItems?: number;
+
+  /** cursor page info extracted from the backend process result, when the group children are paginated by a cursor */
+  pageInfo?: CursorPageInfo;
+}
+
 export interface BackendService {
   /** Backend Service options */
   options?: BackendServiceOption;
@@ -39,6 +89,26 @@ export interface BackendService {
   /** Get the dataset name */
   getDatasetName?: () => string;
 
+  /**
+   * Extract the dataset and the total item count from the backend process result,
+   * this is required by the Infinite Scroll "viewport" mode which manages the dataset by itself
+   */
+  getDatasetFromProcessResult?: (processResult: any) => BackendServiceDatasetResult;
+
+  /**
+   * Extract the groups (with their item count and totals) of a grouping level from the backend process result,
+   * this is required by the server-side grouping
+   */
+  getGroupsFromProcessResult?: (processResult: any, level: number) => BackendServiceGroupsResult;
+
+  /**
+   * Build the query of the children of a group, which are the sub-groups of the next grouping level or the items when it is the last grouping level,
+   * this is required by the server-side grouping
+   * @param {Array<*>} groupValues - values of the group and of all of its parent groups (e.g. `['male', 'Acme']` for a 2nd level group)
+   * @param {String} [afterCursor] - end cursor of the previously loaded children, only provided when loading the next page of a group children paginated by a cursor
+   */
+  buildGroupChildrenQuery?: (groupValues: any[], afterCursor?: string) => string;
+
   /** Get the Filters that are currently used by the grid */
   getCurrentFilters?: () => ColumnFilters | CurrentFilter[];
 
@@ -48,12 +118,24 @@ export interface BackendService {
   /** Get the Sorters that are currently used by the grid */
   getCurrentSorters?: () => CurrentSorter[];
 
+  /** Get the query variables of the last built query, only available when the service builds a parameterized query (e.g. GraphQL with `useVariables`) */
+  getQueryVariables?: () => Record<string, any> | undefined;
+
   /** Reset the pagination options */
   resetPaginationOptions: () => void;
 
   /** Update the Filters options with a set of new options */
   updateFilters?: (columnFilters: ColumnFilters | CurrentFilter[], isUpdatedByPresetOrDynamically: boolean) => void;
 
+  /** Update the Filter Expression (nested AND/OR/NOT groups of conditions), a `null` expression will remove any previous filter expression */
+  updateFilterExpression?: (filterExpression: FilterExpressionGroup | null) => void;
+
+  /** Update the Global Search (quick search across all columns), a `null` global search will remove any previous global search */
+  updateGlobalSearch?: (globalSearch: CurrentGlobalSearch | null) => void;
+
+  /** Update the server-side grouping, the query will then return the groups of the 1st grouping level (or the items when there is no grouping) */
+  updateGrouping?: (groupBy: BackendServiceGroupBy[]) => void;
+
   /** Update the Pagination component with it's new page number and size. If using cursor based pagination, a CursorPageInfo object needs to be supplied */
   updatePagination?: (newPage: number, pageSize: number, cursorArgs?: PaginationCursorChangedArgs) => void;
 
@@ -1,5 +1,6 @@
 import type { Observable } from '../services/rxjsFacade.js';
 import type { BackendService } from './backendService.interface.js';
+import type { Column } from './column.interface.js';
 
 export interface BackendServiceApi<T = any> {
   /** Default to 500ms, how long to wait until we start querying backend to avoid sending too many requests to backend server. */
@@ -8,12 +9,43 @@ export interface BackendServiceApi<T = any> {
   /** Do we want to disable the default creation of an internal post process callback (currently only available for GraphQL) */
   disableInternalPostProcess?: boolean;
 
+  /**
+   * Defaults to false, cache the process results by their query (and query variables) so that executing the same query again
+   * (e.g. revisiting a page or re-applying a previous filter) reuses the cached result instead of sending a new request to the backend.
+   * The cache can be cleared at any time via the `GridService.clearBackendCache()` method.
+   */
+  enableCache?: boolean;
+
+  /** Options of the query cache, only used when `enableCache` is enabled */
+  cacheOptions?: BackendCacheOption;
+
+  /**
+   * Defaults to false, show a loading overlay on top of the grid while the process is executing
+   * and an error overlay with a "retry" button (which reloads the grid data) when the process fails.
+   */
+  enableOverlay?: boolean;
+
+  /** Options of the loading & error overlay, only used when `enableOverlay` is enabled */
+  overlayOptions?: BackendOverlayOption;
+
+  /**
+   * Options of the Excel, Text & PDF exports, by default only the items loaded in the grid are exported (which is only the current page when using Pagination).
+   * The export can instead re-run the current query (with its filters & sorting) to fetch all the items, or delegate the export to the server.
+   */
+  exportOptions?: BackendExportOption;
+
   /** Backend Service Options */
   options?: any;
 
+  /** Retry policy of a failed process, a failed process is not retried unless this option is provided */
+  retry?: BackendRetryOption;
+
   /** Backend Service instance (could be OData, GraphQL or any other Backend Service) */
   service: BackendService;
 
+  /** Timeout in milliseconds of every process execution, the request is then aborted and fails with a "TimeoutError" (which can be retried) */
+  timeout?: number;
+
   /**
    * Do we want to optionally use the local (in memory) filtering strategy?
    * This could be useful if user wishes to load the entire dataset only once with a OData/GraphQL Backend Service
@@ -40,11 +72,11 @@ export interface BackendServiceApi<T = any> {
    */
   internalPostProcess?: (result: T) => void;
 
-  /** On error callback, when an error is thrown by the process execution */
-  onError?: (e: any) => void;
+  /** On error callback, when an error is thrown by the process execution (after all retries), the error info provides the error type, HTTP status and number of attempts */
+  onError?: (e: any, errorInfo?: BackendErrorInfo) => void;
 
   /** On init (or on page load), what action to perform? */
-  onInit?: (query: string) => Promise<T> | Observable<T>;
+  onInit?: (query: string, options?: BackendServiceProcessOptions) => Promise<T> | Observable<T>;
 
   /** When user reaches the end of the current grid scroll position (only works when Infinite Scroll feature is enabled) */
   onScrollEnd?: () => void;
@@ -53,8 +85,114 @@ export interface BackendServiceApi<T = any> {
   preProcess?: () => void;
 
   /** On Processing, we get the query back from the service, and we need to provide a Promise/Observable. For example: this.http.get(myGraphqlUrl) */
-  process: (query: string, options?: { signal?: AbortSignal }) => Promise<T> | Observable<T>;
+  process: (query: string, options?: BackendServiceProcessOptions) => Promise<T> | Observable<T>;
 
   /** After executing the query, what action to perform? For example, stop the spinner */
   postProcess?: (response: T) => void;
 }
+
+export interface BackendServiceProcessOptions {
+  /** abort signal of the request, which is aborted when a newer request is started */
+  signal?: AbortSignal;
+
+  /** query variables of a parameterized query, only provided when the Backend Service builds its query with variables (e.g. GraphQL with `useVariables`) */
+  variables?: Record<string, any>;
+}
+
+export interface BackendCacheOption {
+  /** Defaults to 300000 (5min.), time to live in milliseconds of a cached result, an expired result is never reused */
+  ttl?: number;
+
+  /** Defaults to 50, maximum number of cached results, the least recently used result is removed when that number is exceeded */
+  maxEntries?: number;
+
+  /**
+   * Defaults to false, when a cached result is reused, should we also execute the process in the background to revalidate it?
+   * The grid is then refreshed with the new result only when it differs from the cached result.
+   */
+  revalidate?: boolean;
+}
+
+export interface BackendExportOption {
+  /**
+   * Defaults to "local", what will be exported by the Excel, Text & PDF exports?
+   * - "local": the items loaded in the grid, which is only the current page when using Pagination
+   * - "fetchAll": all the items of the current query (with its filters & sorting), they are fetched in chunks by the Backend Service before being exported
+   * - "server": the export is delegated to the server by calling the `serverExport` callback with the query of all the items of the current query
+   */
+  mode?: 'local' | 'fetchAll' | 'server';
+
+  /** Defaults to 1000, number of items fetched by every backend request of the "fetchAll" mode */
+  chunkSize?: number;
+
+  /** Maximum number of items fetched by the "fetchAll" mode, there is no maximum by default */
+  maxItems?: number;
+
+  /** Callback executed after every chunk fetched by the "fetchAll" mode, for example to show the export progress */
+  onProgress?: (loadedItems: number, totalItems?: number) => void;
+
+  /** Server export callback, it is required by the "server" mode and is executed with the query of all the items of the current query (without pagination) */
+  serverExport?: (query: string, args: BackendServerExportArgs) => Promise<any> | void;
+}
+
+export interface BackendServerExportArgs {
+  /** exported columns, the columns excluded from the export (`excludeFromExport`) are not included */
+  columns: Column[];
+
+  /** filename of the export (without its extension) */
+  filename: string;
+
+  /** export file format */
+  format: 'csv' | 'txt' | 'xls' | 'xlsx' | 'pdf';
+
+  /** query variables of the query, only provided when the Backend Service builds its query with variables (e.g. GraphQL with `useVariables`) */
+  variables?: Record<string, any>;
+}
+
+export interface BackendErrorInfo {
+  /** type of the error, "network" is a request that could not reach the server and "http" is an error response from the server */
+  type: 'http' | 'network' | 'timeout' | 'unknown';
+
+  /** HTTP status code of the error response, when available */
+  status?: number;
+
+  /** number of attempts made by the process, which is 1 when the process was not retried */
+  attempts: number;
+
+  /** is the error retryable according to the retry policy? */
+  retryable: boolean;
+}
+
+export interface BackendOverlayOption {
+  /** Defaults to "slick-backend-overlay", CSS class name of the overlay element */
+  className?: string;
+
+  /** Defaults to "Loading...", text shown by the loading overlay */
+  loadingText?: string;
+
+  /** Defaults to "Retry", text of the "retry" button of the error overlay */
+  retryButtonText?: string;
+
+  /** Optional formatter of the error message shown by the error overlay, which defaults to "Sorry, the data could not be loaded." */
+  errorFormatter?: (error: any, errorInfo: BackendErrorInfo) => string;
+}
+
+export interface BackendRetryOption {
+  /** Defaults to 3, maximum number of retries of a failed process */
+  count?: number;
+
+  /** Defaults to 500, delay in milliseconds before the 1st retry */
+  delay?: number;
+
+  /** Defaults to 2, multiplier of the delay between each retry (exponential backoff), a factor of 1 will retry at a constant delay */
+  backoffFactor?: number;
+
+  /** Defaults to 30000, maximum delay in milliseconds between 2 retries */
+  maxDelay?: number;
+
+  /**
+   * Optional predicate to decide if an error is retryable, by default only the network errors, the timeouts
+   * and the HTTP status 408 (Request Timeout), 429 (Too Many Requests) and 5xx (Server Errors) are retried
+   */
+  isRetryable?: (error: any, errorInfo: BackendErrorInfo) => boolean;
+}
@@ -3,7 +3,21 @@ import type { OperatorType } from '../enums/operator.type.js';
 import type { Column } from './column.interface.js';
 
 export interface InfiniteScrollOption {
+  /** How many items to fetch per page (or per block of rows when using the "viewport" mode) */
   fetchSize: number;
+
+  /**
+   * Defaults to "append", which Infinite Scroll strategy to use
+   *  - "append": fetch the next page when reaching the bottom of the grid and append it to the dataset
+   *  - "viewport": the grid knows the total row count and shows placeholder rows, the blocks of rows visible in the viewport are then fetched on demand (lazy loading)
+   */
+  mode?: 'append' | 'viewport';
+
+  /** Defaults to 10, maximum number of blocks (of `fetchSize` rows) kept in cache when using the "viewport" mode, the least recently viewed blocks are evicted first */
+  maxCachedBlocks?: number;
+
+  /** Defaults to 100ms, how long to wait after the viewport stopped changing before fetching the missing blocks when using the "viewport" mode */
+  viewportFetchDelay?: number;
 }
 
 export interface BackendServiceOption {
@@ -21,6 +35,13 @@ export interface BackendServiceOption {
 
   /** Execute the process callback command on component init (page load) */
   executeProcessCommandOnInit?: boolean;
+
+  /**
+   * Defaults to false, enable the server-side grouping. The DataView grouping (for example from the Draggable Grouping) and its aggregators are sent
+   * to the backend server which returns the groups with their item count and totals, the children of a group are then only fetched when it gets expanded.
+   * Note: the dataset is then managed by the grid and so you should NOT assign the dataset yourself in the `postProcess`.
+   */
+  serverSideGrouping?: boolean;
 }
 
 export interface BackendServiceFilterQueryOverrideArgs {
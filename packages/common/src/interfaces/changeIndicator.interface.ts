@@ -0,0 +1,10 @@
+import type { SlickChangeIndicator } from '../extensions/slickChangeIndicator.js';
+import type { ChangeIndicatorOption } from './changeIndicatorOption.interface.js';
+
+export interface ChangeIndicator extends ChangeIndicatorOption {
+  //
+  // Events
+  // ---------
+  /** Fired after extension (plugin) is registered by SlickGrid */
+  onExtensionRegistered?: (plugin: SlickChangeIndicator) => void;
+}
@@ -0,0 +1,19 @@
+export interface ChangeIndicatorOption {
+  /** Defaults to "change-indicator-arrow", CSS class added to the cell (with the up/down CSS class) to show a delta arrow when the "showDeltaArrow" option is enabled */
+  arrowCssClass?: string;
+
+  /** Defaults to "change-indicator-changed", CSS class added to the cell when a non-numeric value changed */
+  changedCssClass?: string;
+
+  /** Defaults to "change-indicator-down", CSS class added to the cell when a numeric value decreased */
+  downCssClass?: string;
+
+  /** Defaults to 1000, duration in milliseconds of the change indicator (flash & delta arrow) */
+  duration?: number;
+
+  /** Defaults to false, do we want to show a delta arrow (up/down) when a numeric value changed? */
+  showDeltaArrow?: boolean;
+
+  /** Defaults to "change-indicator-up", CSS class added to the cell when a numeric value increased */
+  upCssClass?: string;
+}
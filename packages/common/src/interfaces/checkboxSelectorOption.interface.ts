@@ -50,6 +50,12 @@ export interface CheckboxSelectorOption {
   /** Defaults to false, makes the column reorderable to another position in the grid. */
   reorderable?: boolean;
 
+  /** Defaults to "Select Row", accessible name (aria-label) of every row selection checkbox */
+  rowCheckboxAriaLabel?: string;
+
+  /** Defaults to "Select All Rows", accessible name (aria-label) of the "Select All" checkbox */
+  selectAllAriaLabel?: string;
+
   /** Defaults to "Select/Deselect All", provide a tooltip that will be shown over the "Select All" checkbox */
   toolTip?: string;
 
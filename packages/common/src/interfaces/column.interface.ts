@@ -1,9 +1,11 @@
 import type { FieldType } from '../enums/field.type.js';
 import type {
   CellMenu,
+  ChangeIndicatorOption,
   ColumnEditor,
   ColumnExcelExportOption,
   ColumnFilter,
+  ConditionalFormattingRule,
   CustomTooltipOption,
   Editor,
   EditorConstructor,
@@ -68,6 +70,14 @@ export interface Column<T = any> {
   /** Options that can be provide to the Cell Context Menu Plugin */
   cellMenu?: CellMenu;
 
+  /**
+   * Automatically flash the cell when its value changed after an item update (through the `GridService.updateItem()` or the DataView),
+   * a numeric value increase/decrease is flashed with different CSS classes and a delta arrow could optionally be shown.
+   * It can be `true` to use the grid `changeIndicator` options or an object to override some of them for this column.
+   * Note that the "enableChangeIndicator" grid option must be enabled (it is enabled by default).
+   */
+  changeIndicator?: boolean | ChangeIndicatorOption;
+
   /** Column group name for grouping of column headers spanning accross multiple columns */
   columnGroup?: string;
 
@@ -83,6 +93,12 @@ export interface Column<T = any> {
   /** Column span in cell count or use `*` to span across the entire row */
   colspan?: number | string | '*';
 
+  /**
+   * List of Conditional Formatting rules (value thresholds, color scales, data bars, icon sets, top N, above average, ...)
+   * which are evaluated on every cell render, note that the "enableConditionalFormatting" grid option must be enabled.
+   */
+  conditionalFormatting?: ConditionalFormattingRule[];
+
   /** CSS class to add to the column cell */
   cssClass?: string;
 
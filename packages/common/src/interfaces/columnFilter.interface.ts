@@ -8,6 +8,7 @@ import type {
   Column,
   Filter,
   FilterConstructor,
+  FilterLambdaOption,
   MenuCommandItem,
   OperatorDetail,
   SearchColumnFilter,
@@ -142,6 +143,12 @@ export interface ColumnFilter {
    */
   queryField?: string;
 
+  /**
+   * Filter a collection-valued navigation property with a lambda operator ("any" or "all"), the filter condition is then applied to each collection item.
+   * e.g.: `{ queryField: 'orders/status', lambda: { collectionPath: 'orders' } }` will query "Orders/any(o: o/Status eq 'Open')" (currently only supported by OData)
+   */
+  lambda?: FilterLambdaOption;
+
   /**
    * Defaults to true, should an empty search term have the effect of returning all results?
    * Typically that would be True except for a dropdown Select Filter,
@@ -0,0 +1,18 @@
+import type { SlickEventData } from '../core/index.js';
+import type { SlickConditionalFormatting } from '../extensions/slickConditionalFormatting.js';
+import type { ConditionalFormattingOption } from './conditionalFormattingOption.interface.js';
+import type { CurrentConditionalFormatting } from './currentConditionalFormatting.interface.js';
+
+export interface ConditionalFormatting extends ConditionalFormattingOption {
+  //
+  // Events
+  // ---------
+  /** Fired when the Conditional Formatting rules of any column changed */
+  onConditionalFormattingChanged?: (
+    e: SlickEventData | null,
+    args: { caller?: string; conditionalFormatting: CurrentConditionalFormatting[] }
+  ) => void;
+
+  /** Fired after extension (plugin) is registered by SlickGrid */
+  onExtensionRegistered?: (plugin: SlickConditionalFormatting) => void;
+}
@@ -0,0 +1,15 @@
+import type { ConditionalFormattingIconSetName, ConditionalFormattingStyle } from './conditionalFormattingRule.interface.js';
+
+export interface ConditionalFormattingOption {
+  /** Defaults to `['#f8696b', '#ffeb84', '#63be7b']` (same as Excel), default colors (min, [mid], max) used by a "colorScale" rule without any `colors` */
+  colorScaleColors?: string[];
+
+  /** Defaults to "#638ec6" (same as Excel), default color used by a "dataBar" rule without any `colors` */
+  dataBarColor?: string;
+
+  /** Defaults to light red fill with dark red text (same as Excel), style used by the highlight rules that are added from the Header Menu */
+  highlightStyle?: ConditionalFormattingStyle;
+
+  /** CSS classes of the icons (low, mid, high) used by each icon set of the "iconSet" rules */
+  iconSets?: Partial<Record<ConditionalFormattingIconSetName, [low: string, mid: string, high: string]>>;
+}
@@ -0,0 +1,75 @@
+import type { OperatorType, SearchTerm } from '../enums/index.js';
+
+/** Type of Conditional Formatting rule, they are similar to (and exported as) the native Excel conditional formatting rule types */
+export type ConditionalFormattingRuleType =
+  /** highlight the cell when its value is matching the `operator` & `searchTerms` condition (ie: value > 100) */
+  | 'cellValue'
+  /** 2 or 3 colors scale (min, [mid], max), the cell background color is interpolated from the cell value position in the column values range */
+  | 'colorScale'
+  /** horizontal bar drawn behind the cell value, its width is proportional to the cell value compared to the column values range */
+  | 'dataBar'
+  /** 3 icons set (low, mid, high), the icon is chosen by the cell value position (by thirds) in the column values range */
+  | 'iconSet'
+  /** highlight the cell when its value is part of the top N (or top N%) values of the column */
+  | 'topN'
+  /** highlight the cell when its value is part of the bottom N (or bottom N%) values of the column */
+  | 'bottomN'
+  /** highlight the cell when its value is above the column values average */
+  | 'aboveAverage'
+  /** highlight the cell when its value is below the column values average */
+  | 'belowAverage';
+
+/** Name of the icon set used by an "iconSet" rule, each set is composed of 3 icons (low, mid, high) */
+export type ConditionalFormattingIconSetName = 'arrows' | 'symbols' | 'trafficLights';
+
+export interface ConditionalFormattingStyle {
+  /** cell background color, it must be an hexadecimal color (ie: "#ffc7ce") when the grid is exported to Excel */
+  backgroundColor?: string;
+
+  /** cell text color, it must be an hexadecimal color (ie: "#9c0006") when the grid is exported to Excel */
+  color?: string;
+
+  /** show the cell text in bold */
+  bold?: boolean;
+
+  /** show the cell text in italic */
+  italic?: boolean;
+
+  /** optional CSS class(es) to add to the cell (not exported to Excel) */
+  cssClass?: string;
+}
+
+export interface ConditionalFormattingRule {
+  /** Conditional Formatting rule type */
+  type: ConditionalFormattingRuleType;
+
+  /** condition operator of a "cellValue" rule, it reuses the same operators as the column Filters */
+  operator?: OperatorType;
+
+  /** condition search terms of a "cellValue" rule (ie: `[100]` or `[5, 10]` with a range operator) */
+  searchTerms?: SearchTerm[];
+
+  /** style to apply to the cell when the rule is matching (only used by "cellValue", "topN", "bottomN", "aboveAverage" & "belowAverage" rules) */
+  style?: ConditionalFormattingStyle;
+
+  /**
+   * Colors of a "colorScale" (2 or 3 hexadecimal colors for min, [mid], max) or a "dataBar" (1 hexadecimal color) rule,
+   * when omitted it will use the default colors defined in the Conditional Formatting options.
+   */
+  colors?: string[];
+
+  /** icon set name of an "iconSet" rule, defaults to "arrows" */
+  iconSet?: ConditionalFormattingIconSetName;
+
+  /** rank of a "topN" or "bottomN" rule, defaults to 10 */
+  rank?: number;
+
+  /** Defaults to false, is the `rank` of a "topN" or "bottomN" rule a percentage of the column values count? */
+  percent?: boolean;
+
+  /** Defaults to true, should we still show the cell value when using a "dataBar" or "iconSet" rule? */
+  showValue?: boolean;
+
+  /** Defaults to false, when the rule is matching, should we stop evaluating the next rules of the same column? */
+  stopIfTrue?: boolean;
+}
@@ -0,0 +1,9 @@
+import type { ConditionalFormattingRule } from './conditionalFormattingRule.interface.js';
+
+export interface CurrentConditionalFormatting {
+  /** Column ID of the column that has Conditional Formatting rules */
+  columnId: string | number;
+
+  /** List of Conditional Formatting rules, they are evaluated in the same order as they are provided */
+  rules: ConditionalFormattingRule[];
+}
@@ -0,0 +1,9 @@
+import type { GlobalSearchOption } from './index.js';
+
+export interface CurrentGlobalSearch {
+  /** Search term used by the global (quick) search, an empty string means that there is no global search applied */
+  searchTerm: string;
+
+  /** Optional Global Search options that were used with the search term */
+  options?: GlobalSearchOption;
+}
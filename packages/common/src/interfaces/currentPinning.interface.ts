@@ -5,6 +5,9 @@ export interface CurrentPinning {
   /** Number of column index(es) to freeze (pin) in the grid */
   frozenColumn?: number;
 
+  /** Column index of the first column to freeze (pin) on the right side of the grid, up to the last column */
+  frozenRightColumn?: number;
+
   /** Number of row index(es) to freeze (pin) in the grid */
   frozenRow?: number;
 }
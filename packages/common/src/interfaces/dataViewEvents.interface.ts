@@ -1,4 +1,5 @@
 import type { SlickDataView, SlickGrid } from '../core/index.js';
+import type { Grouping } from './grouping.interface.js';
 
 export interface OnGroupExpandedEventArgs {
   level: number;
@@ -8,6 +9,9 @@ export interface OnGroupCollapsedEventArgs {
   level: number;
   groupingKey: string | number | null;
 }
+export interface OnGroupingChangedEventArgs {
+  groupingInfos: Grouping[];
+}
 export interface OnRowCountChangedEventArgs {
   previous: number;
   current: number;
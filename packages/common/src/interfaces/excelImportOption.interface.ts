@@ -0,0 +1,28 @@
+import type { FileType } from '../enums/file.type.js';
+
+export interface ExcelImportOption {
+  /** Defaults to 500, how many rows to insert at the bottom of the grid (via the Grid Service `addItems()`) per chunk, the import yields to the browser between each chunk to keep the UI responsive */
+  chunkSize?: number;
+
+  /**
+   * Optional mapping of the sheet column header titles to the grid column `field`, e.g.: `{ 'Task Title': 'title', 'Start Date': 'start' }`.
+   * When undefined, each sheet header will be mapped to the first grid column with a matching `name`, `id` or `field` (case insensitive).
+   * Any sheet column that cannot be mapped will simply be ignored.
+   */
+  columnMapping?: Record<string, string>;
+
+  /** Defaults to ",", delimiter used to separate values when reading a CSV file */
+  delimiter?: string;
+
+  /** File format to read, when undefined it will be detected by the file name extension (a file without any name will be considered as "xlsx") */
+  format?: Extract<FileType, 'csv' | 'xlsx'>;
+
+  /** Defaults to 1, row number (1-based) of the header titles row, any row before it will be skipped and all rows after it are considered data rows */
+  headerRowNumber?: number;
+
+  /** Sheet name to import from the workbook, defaults to the first sheet */
+  sheetName?: string;
+
+  /** Defaults to true, validate each cell value with the column editor validator (or column validator) and reject any row with an invalid cell */
+  validateCells?: boolean;
+}
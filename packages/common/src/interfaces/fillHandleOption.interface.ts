@@ -0,0 +1,95 @@
+import type { SlickEventData, SlickRange } from '../core/index.js';
+import type { SlickFillHandle } from '../extensions/slickFillHandle.js';
+import type { Column, EditorValidationResult } from './index.js';
+
+/**
+ * Fill series used to fill the target cells from the values of the source cells
+ *  - "copy": copy the single source value
+ *  - "linear": linear series of numbers with a constant step (e.g. 1,2,3 or 10,20,30)
+ *  - "date": series of dates with a constant step in days or in months (e.g. each day, each week or each month)
+ *  - "pattern": repeat the source values in the same order (e.g. A,B,A,B)
+ */
+export type FillSeriesType = 'copy' | 'linear' | 'date' | 'pattern';
+
+export interface FillCellChange {
+  /** row index of the filled cell */
+  row: number;
+
+  /** column index of the filled cell */
+  cell: number;
+
+  /** column definition of the filled cell */
+  column: Column;
+
+  /** item data context of the filled cell */
+  item: any;
+
+  /** cell value before the fill */
+  previousValue: any;
+
+  /** cell value after the fill */
+  value: any;
+}
+
+export interface FillCellValidationError {
+  /** row index of the cell that could not be filled */
+  row: number;
+
+  /** column index of the cell that could not be filled */
+  cell: number;
+
+  /** column definition of the cell that could not be filled */
+  column: Column;
+
+  /** value that was rejected by the column editor validator */
+  value: any;
+
+  /** validation result returned by the column editor validator */
+  validationResults: EditorValidationResult;
+}
+
+export interface OnBeforeFillCellsEventArgs {
+  /** original selection range that is used as the source of the fill */
+  sourceRange: SlickRange;
+
+  /** extended selection range, it includes the source range */
+  targetRange: SlickRange;
+}
+
+export interface OnFillCellsEventArgs extends OnBeforeFillCellsEventArgs {
+  /** list of cells that were filled */
+  changes: FillCellChange[];
+
+  /** list of cells that were skipped because their value is invalid */
+  validationErrors: FillCellValidationError[];
+}
+
+export interface FillHandleOption {
+  /**
+   * Defaults to "auto", which series to use when filling the cells. When set to "auto" the series is detected from the source values of each column (or row)
+   *  - a single value is copied
+   *  - numbers with a constant step use a "linear" series
+   *  - dates with a constant step (in days or in months) use a "date" series
+   *  - anything else will repeat the source values ("pattern")
+   */
+  fillSeries?: 'auto' | FillSeriesType;
+
+  /**
+   * Defaults to false, should we also fill the columns without any editor?
+   * By default only the editable columns are filled (same as editing each cell), while columns with `denyPaste` are never filled.
+   */
+  fillNonEditableColumns?: boolean;
+
+  // --
+  // Events
+  // ------------
+
+  /** Fired after extension (plugin) is registered by SlickGrid */
+  onExtensionRegistered?: (plugin: SlickFillHandle) => void;
+
+  /** Fired before filling the cells, return false to cancel the fill */
+  onBeforeFillCells?: (e: SlickEventData, args: OnBeforeFillCellsEventArgs) => boolean | void;
+
+  /** Fired after the cells were filled */
+  onFillCells?: (e: SlickEventData, args: OnFillCellsEventArgs) => void;
+}
@@ -0,0 +1,24 @@
+import type { FilterLogicOperator, OperatorType } from '../enums/index.js';
+import type { SearchTerm } from '../enums/searchTerm.type.js';
+
+export interface FilterExpressionCondition {
+  /** Column Id that must be defined as a Column and exists in the Columns Definition array */
+  columnId: number | string;
+
+  /** Filter operator or use default operator (by the column field type) when not provided */
+  operator?: OperatorType;
+
+  /** Filter search terms */
+  searchTerms: SearchTerm[];
+}
+
+export interface FilterExpressionGroup {
+  /** Logical operator used to combine every conditions of the group */
+  logic: FilterLogicOperator;
+
+  /** Defaults to false, should we negate (NOT) the result of the whole group? */
+  not?: boolean;
+
+  /** List of conditions, a condition can also be another group which allows to create nested filter expressions (tree) */
+  conditions: Array<FilterExpressionCondition | FilterExpressionGroup>;
+}
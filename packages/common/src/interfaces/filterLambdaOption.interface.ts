@@ -0,0 +1,18 @@
+export interface FilterLambdaOption {
+  /**
+   * Path of the collection-valued navigation property, which must be the start of the column filter query field,
+   * the rest of the query field is then the property path of each collection item (or nothing when the collection has primitive values).
+   * e.g.: "orders" for a query field of "orders/status"
+   */
+  collectionPath: string;
+
+  /**
+   * Defaults to "any", lambda operator to use on the collection
+   * - "any": returns the rows having at least 1 collection item matching the filter
+   * - "all": returns the rows having every collection item matching the filter (which includes the rows having an empty collection)
+   */
+  operator?: 'any' | 'all';
+
+  /** Defaults to the first letter of the collection name (e.g. "o" for "orders"), name of the lambda variable representing each collection item */
+  variable?: string;
+}
@@ -0,0 +1,16 @@
+export interface GlobalSearchOption {
+  /** Defaults to false, should the global search be case sensitive? */
+  caseSensitive?: boolean;
+
+  /**
+   * Optional list of column IDs to search against, when omitted it will search against every visible column.
+   * Note that the "id" of internal columns (e.g. checkbox selector, row move) are always excluded from the search.
+   */
+  columnIds?: Array<number | string>;
+
+  /**
+   * Defaults to false, should we search against the formatted value (output of the column `formatter`) instead of the raw cell value?
+   * Note that this can also be enabled per column via the `params: { useFormatterOuputToFilter: true }` column option.
+   */
+  useFormatterOutput?: boolean;
+}
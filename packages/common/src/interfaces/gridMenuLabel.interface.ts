@@ -1,4 +1,10 @@
 export interface GridMenuLabel {
+  /** Defaults to "Advanced Filter" */
+  advancedFilterCommand?: string;
+
+  /** Defaults to "ADVANCED_FILTER" translation key */
+  advancedFilterCommandKey?: string;
+
   /** Defaults to "Clear all Filters" */
   clearAllFiltersCommand?: string;
 
@@ -63,6 +63,9 @@ export interface GridMenuOption extends MenuOption<GridMenuCommandItemCallbackAr
   /** Defaults to false, which will skip the creation of the Column Picker list inside the Grid Menu */
   hideColumnPickerSection?: boolean;
 
+  /** Defaults to true, which will hide the "Advanced Filter" command in the Grid Menu (Grid Option "enableFiltering: true" has to be enabled) */
+  hideAdvancedFilterCommand?: boolean;
+
   /** @deprecated @use `hideCommands` or `commandListBuilder` Defaults to false, which will hide the "Clear all Filters" command in the Grid Menu (Grid Option "enableFiltering: true" has to be enabled) */
   hideClearAllFiltersCommand?: boolean;
 
@@ -111,6 +114,9 @@ export interface GridMenuOption extends MenuOption<GridMenuCommandItemCallbackAr
   /** CSS class for the displaying the Grid menu icon (aka the hamburger menu button) */
   iconCssClass?: string;
 
+  /** icon for the "Advanced Filter" command */
+  iconAdvancedFilterCommand?: string;
+
   /** icon for the "Clear all Filters" command */
   iconClearAllFiltersCommand?: string;
 
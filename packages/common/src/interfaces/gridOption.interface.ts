@@ -5,15 +5,18 @@ import type { DataViewOption, SlickEditorLock } from '../core/index.js';
 import type { ColumnReorderFunction, OperatorType } from '../enums/index.js';
 import type { TranslaterService } from '../services/translater.service.js';
 import type {
+  AriaAnnouncer,
   AutocompleterOption,
   AutoResizeOption,
   AutoTooltipOption,
   BackendServiceApi,
   CellMenu,
+  ChangeIndicator,
   CheckboxSelectorOption,
   Column,
   ColumnPicker,
   CompositeEditorOpenDetailOption,
+  ConditionalFormatting,
   ContextMenu,
   CustomFooterOption,
   CustomTooltipOption,
@@ -23,9 +26,11 @@ import type {
   EmptyWarning,
   ExcelCopyBufferOption,
   ExcelExportOption,
+  ExcelImportOption,
   ExtensionModel,
   ExternalResource,
   ExternalResourceConstructor,
+  FillHandleOption,
   Formatter,
   FormatterOption,
   GridMenu,
@@ -35,11 +40,13 @@ import type {
   HeaderMenu,
   HybridSelectionModelOption,
   ItemMetadata,
+  LiveDataOption,
   Locale,
   LongTextEditorOption,
   OperatorDetailAlt,
   Pagination,
   PdfExportOption,
+  Pivot,
   ResizeByContentOption,
   RowBasedEditOptions,
   RowDetailView,
@@ -47,7 +54,9 @@ import type {
   SliderOption,
   SliderRangeOption,
   TextExportOption,
+  TextImportOption,
   TreeDataOption,
+  UndoRedoOption,
   VanillaCalendarOption,
 } from './index.js';
 
@@ -89,6 +98,12 @@ export interface GridOption<C extends Column = Column> {
   /** Defaults to true, which leads to always show a vertical scrolling. This is rather important to use when using the Grid Menu (hamburger) */
   alwaysShowVerticalScroll?: boolean;
 
+  /** Options for the Aria Announcer plugin which announces the grid changes (sort, filter, edit, selection & scroll) to the screen readers */
+  ariaAnnouncer?: AriaAnnouncer;
+
+  /** Optional accessible name of the grid announced by the screen readers, it is added as an "aria-label" on the grid container */
+  ariaLabel?: string;
+
   /** Defaults to 100, which is the asynchronous editor loading delay */
   asyncEditorLoadDelay?: number;
 
@@ -147,6 +162,13 @@ export interface GridOption<C extends Column = Column> {
   /** Defaults to false, which leads to automatically adjust the size (height) of the grid to display the entire content without any scrolling in the grid. */
   autoHeight?: boolean;
 
+  /**
+   * Defaults to false, when enabled it will measure the content of every rendered row and grow the row height to fit its content (e.g. wrapped text),
+   * every item is only measured once and its measured height is then cached (a row never gets smaller than its item metadata or `getRowHeight` callback height).
+   * NOTE: this requires the "enableVariableRowHeight" grid option and a column CSS class with `white-space: normal` for the text to wrap
+   */
+  autoMeasureRowHeight?: boolean;
+
   /**
    * Defaults to 60, when "autoFixResizeWhenBrokenStyleDetected" is enabled then what will be the delay timeout before quitting?
    * Note that that the resize gets called every 200ms
@@ -185,6 +207,9 @@ export interface GridOption<C extends Column = Column> {
    */
   cellValueCouldBeUndefined?: boolean;
 
+  /** Change Indicator Plugin options, these are the defaults of every column having a `changeIndicator` (duration, CSS classes, delta arrow) */
+  changeIndicator?: ChangeIndicator;
+
   /** Checkbox Select Plugin options (columnId, cssClass, toolTip, width) */
   checkboxSelector?: CheckboxSelectorOption;
 
@@ -219,6 +244,9 @@ export interface GridOption<C extends Column = Column> {
   /** Optionally provide global options to the Composite Editor instead of having to redeclare them every time you want to use it */
   compositeEditorOptions?: Partial<CompositeEditorOpenDetailOption>;
 
+  /** Conditional Formatting Plugin options & events */
+  conditionalFormatting?: ConditionalFormatting;
+
   /** Context menu options (mouse right+click) */
   contextMenu?: ContextMenu;
 
@@ -375,6 +403,9 @@ export interface GridOption<C extends Column = Column> {
   /** Defaults to false, which leads to give user possibility to add row to the grid */
   enableAddRow?: boolean;
 
+  /** Defaults to true, which will announce the grid changes (sort, filter, edit, selection & scroll) to the screen readers through an "aria-live" region */
+  enableAriaAnnouncer?: boolean;
+
   /** Do we want to enable asynchronous (delayed) post rendering */
   enableAsyncPostRender?: boolean;
 
@@ -409,6 +440,13 @@ export interface GridOption<C extends Column = Column> {
    */
   enableCellRowSpan?: boolean;
 
+  /**
+   * Defaults to true, do we want to enable the Change Indicator Plugin?
+   * It flashes the cells of every column having a `changeIndicator` when their value changed after an item update,
+   * you could disable it on a grid with frequent updates when you don't want the cost of comparing the old & new values.
+   */
+  enableChangeIndicator?: boolean;
+
   /** Defaults to false, when enabled it will add a column for checkbox selection at the 1st column position. A selection will trigger the "onSelectedRowsChanged" event. */
   enableCheckboxSelector?: boolean;
 
@@ -431,12 +469,27 @@ export interface GridOption<C extends Column = Column> {
    */
   enableColumnResizeOnDoubleClick?: boolean;
 
+  /**
+   * Defaults to false, when enabled the header, header row (filters), pre-header column groups and footer row cells are only rendered for the columns
+   * inside the horizontal range rendered by the grid (the same range as the row cells), which is a lot faster for very wide grids (e.g. 500+ columns).
+   * The columns outside of that range only keep an empty cell (placeholder) to preserve their width & position, their content (and their filter) is only created once they are scrolled into view
+   * and it is destroyed once they are scrolled out of view (the filters search terms are kept and still applied to the data).
+   * NOTE: the columns frozen on either side and the columns with `alwaysRenderColumn` are always rendered.
+   */
+  enableColumnVirtualization?: boolean;
+
   /**
    * Defaults to false, do we want to use a Composite Editor Modal?
    * Composite Editor is providing a modal window to edit an entire row, it reuses every column definition editor/validators and displays them in a convenient single form.
    */
   enableCompositeEditor?: boolean;
 
+  /**
+   * Defaults to false, do we want to enable the Conditional Formatting Plugin?
+   * It evaluates the `conditionalFormatting` rules of every column definition on each cell render and adds a sub-menu in the Header Menu to edit them at runtime.
+   */
+  enableConditionalFormatting?: boolean;
+
   /** Do we want to enable Context Menu? (mouse right+click) */
   enableContextMenu?: boolean;
 
@@ -465,6 +518,13 @@ export interface GridOption<C extends Column = Column> {
   /** Do we want to enable the Excel Export? (if Yes, it will show up in the Grid Menu) */
   enableExcelExport?: boolean;
 
+  /**
+   * Defaults to false, do we want to enable the Fill Handle (drag-to-fill) plugin?
+   * It allows to drag the handle displayed on the cell selection corner to extend the selection down or right and fill the cells (copy, linear series, date series or pattern repeat).
+   * NOTE: this requires the cell selection (it will use the Hybrid Selection Model with a "cell" selection type when not already defined).
+   */
+  enableFillHandle?: boolean;
+
   /** Do we want to enable Filters? */
   enableFiltering?: boolean;
 
@@ -507,6 +567,12 @@ export interface GridOption<C extends Column = Column> {
   /** Do we want to enable pagination? Currently only works with a Backend Service API */
   enablePagination?: boolean;
 
+  /**
+   * Defaults to false, do we want to enable the Pivot Plugin? It requires the pre-header (or top-header) panel to be created & shown
+   * since that is where the pivot drop areas (Rows, Columns & Values) are rendered.
+   */
+  enablePivot?: boolean;
+
   /** Defaults to false, do we want to enable the Row Detail Plugin? */
   enableRowDetailView?: boolean;
 
@@ -534,9 +600,23 @@ export interface GridOption<C extends Column = Column> {
   /** Do we want to enable Tree Data grid? */
   enableTreeData?: boolean;
 
+  /**
+   * Do we want to enable the Undo/Redo history of all changes (cell edits, Excel Copy Buffer paste, GridService add/update/delete, Row Move and Composite Editor mass changes)?
+   * NOTE: the `UndoRedoService` must also be available, it is created and initialized by the grid when this option is enabled.
+   */
+  enableUndoRedo?: boolean;
+
   /** Enable the row based editing plugin */
   enableRowBasedEdit?: boolean;
 
+  /**
+   * Defaults to false, do we want to support a different height for every row?
+   * The height of each row is read (in that order) from the item metadata `height` or the `getRowHeight` callback and it will fallback to the `rowHeight` grid option,
+   * the auto-measured height (when "autoMeasureRowHeight" is enabled) is used instead when the row content needs more space. The rows are then positioned by a cumulative offset index which is rebuilt every time the rows are invalidated.
+   * NOTE: you need to call `grid.invalidateRowHeights()` when the height of a row changed without any change in the dataset
+   */
+  enableVariableRowHeight?: boolean;
+
   /** Options for the row based editing plugin */
   rowBasedEditOptions?: RowBasedEditOptions;
 
@@ -555,6 +635,9 @@ export interface GridOption<C extends Column = Column> {
   /** Some default options to set for the Excel export service */
   excelExportOptions?: ExcelExportOption;
 
+  /** Some default options to set for the Excel import service */
+  excelImportOptions?: ExcelImportOption;
+
   /** Register any external Resources (Components, Services) like the ExcelExportService, TextExportService, SlickCompositeEditorComponent, ... */
   externalResources?: ExternalResource[] | ExternalResourceConstructor[];
 
@@ -572,6 +655,9 @@ export interface GridOption<C extends Column = Column> {
    */
   filterTypingDebounce?: number;
 
+  /** Options for the Fill Handle (drag-to-fill) plugin */
+  fillHandleOptions?: FillHandleOption;
+
   /** Firefox max supported CSS height */
   ffMaxSupportedCssHeight?: number;
 
@@ -602,6 +688,12 @@ export interface GridOption<C extends Column = Column> {
   /** Number of column index(es) to freeze (pin) in the grid */
   frozenColumn?: number;
 
+  /**
+   * Column index of the first column to freeze (pin) on the right side of the grid, all the columns from that index up to the last column will be frozen.
+   * It can be used by itself or combined with `frozenColumn` to freeze columns on both sides (it must be greater than the `frozenColumn` index).
+   */
+  frozenRightColumn?: number;
+
   /** Number of row index(es) to freeze (pin) in the grid */
   frozenRow?: number;
 
@@ -615,6 +707,12 @@ export interface GridOption<C extends Column = Column> {
   /** Defaults to false, which leads to have row(s) taking full width */
   fullWidthRows?: boolean;
 
+  /**
+   * Optional callback to provide the height (in pixels) of a row, it should return `undefined` to use the default `rowHeight`.
+   * NOTE: this requires the "enableVariableRowHeight" grid option
+   */
+  getRowHeight?: (item: any, row: number) => number | undefined | null;
+
   /** Grid DOM element container ID (used Slickgrid-Universal auto-resizer) */
   gridContainerId?: string;
 
@@ -675,6 +773,9 @@ export interface GridOption<C extends Column = Column> {
   /** Set of Locale translations used by the library */
   locales?: Locale;
 
+  /** Live Data options, only used when the `LiveDataService` is registered as an external resource */
+  liveDataOptions?: LiveDataOption;
+
   /**
    * Defaults to 5000, max number of rows that we'll consider doing a partial rowspan remapping.
    * Anything else will be considered to require a full rowspan remap when necessary
@@ -713,6 +814,9 @@ export interface GridOption<C extends Column = Column> {
   /** extra custom generic parameters that could be used by your Formatter/Editor or anything else */
   params?: any | any[];
 
+  /** Pivot Plugin options & events */
+  pivot?: Pivot;
+
   /** Extra pre-header panel height (on top of column header, only accepts an integer) */
   preHeaderPanelHeight?: number;
 
@@ -798,6 +902,13 @@ export interface GridOption<C extends Column = Column> {
    */
   rowTopOffsetRenderType?: 'top' | 'transform';
 
+  /**
+   * Defaults to false, render the grid in a Right-to-Left (RTL) layout mode (e.g. Arabic, Hebrew), the columns are then displayed from right to left
+   * and the scrolling, frozen columns, column resize handles, keyboard arrow keys, menus & tooltips are all mirrored.
+   * NOTE: this option must be set before the grid is created, it cannot be changed dynamically.
+   */
+  rtl?: boolean;
+
   /**
    * Provide an optional sanitizer, a recommendation is to use DOMPurify to sanitize any HTML strings before passing them to `innerHTML`.
    * see https://github.com/cure53/DOMPurify
@@ -873,6 +984,9 @@ export interface GridOption<C extends Column = Column> {
   /** Some default options to set for the text file export service */
   textExportOptions?: TextExportOption;
 
+  /** Some default options to set for the text file import service */
+  textImportOptions?: TextImportOption;
+
   /** Some default options to set for the PDF export service */
   pdfExportOptions?: PdfExportOption;
 
@@ -915,6 +1029,9 @@ export interface GridOption<C extends Column = Column> {
   /** Defaults to false, when set to True will lead to multiple columns sorting without the need to hold or do shift-click to execute a multiple sort. */
   tristateMultiColumnSort?: boolean;
 
+  /** Undo/Redo options, only used when `enableUndoRedo` is enabled */
+  undoRedoOptions?: UndoRedoOption;
+
   /** Defaults to false, do we want to use default Salesforce grid  */
   useSalesforceDefaultGridOptions?: boolean;
 
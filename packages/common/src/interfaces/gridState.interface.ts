@@ -1,10 +1,14 @@
 import type {
   CurrentColumn,
+  CurrentConditionalFormatting,
   CurrentFilter,
+  CurrentGlobalSearch,
   CurrentPagination,
   CurrentPinning,
   CurrentRowSelection,
   CurrentSorter,
+  FilterExpressionGroup,
+  PivotConfig,
   TreeToggleStateChange,
 } from './index.js';
 
@@ -12,9 +16,18 @@ export interface GridState {
   /** Columns (and their state: visibility/position) that are currently applied in the grid */
   columns?: CurrentColumn[] | null;
 
+  /** Conditional Formatting rules of every column that has any, only available when using the Conditional Formatting plugin */
+  conditionalFormatting?: CurrentConditionalFormatting[] | null;
+
   /** Filters (and their state, columnId, searchTerm(s)) that are currently applied in the grid */
   filters?: CurrentFilter[] | null;
 
+  /** Global (quick) search term that is currently applied in the grid across all columns, it is combined with any column filters */
+  globalSearch?: CurrentGlobalSearch | null;
+
+  /** Filter Expression (nested groups of conditions combined with AND/OR/NOT) that is currently applied, it is combined with any column filters */
+  filterExpression?: FilterExpressionGroup | null;
+
   /**
    * List of Current Grouping column IDs (it won't work when `getter` is a function).
    * NOTE: Grid Presets for Grouping is only available when using `DraggableGrouping`
@@ -27,6 +40,9 @@ export interface GridState {
   /** Pagination (and it's state, pageNumber, pageSize) that are currently applied in the grid */
   pagination?: CurrentPagination | null;
 
+  /** Pivot configuration (row dimensions, column dimensions & value fields), only available when using the Pivot plugin */
+  pivot?: PivotConfig | null;
+
   /** Pinning (frozen) column & row position */
   pinning?: CurrentPinning;
 
@@ -1,12 +1,16 @@
 import type { GridStateType } from '../enums/index.js';
 import type {
   CurrentColumn,
+  CurrentConditionalFormatting,
   CurrentFilter,
+  CurrentGlobalSearch,
   CurrentPagination,
   CurrentPinning,
   CurrentRowSelection,
   CurrentSorter,
+  FilterExpressionGroup,
   GridState,
+  PivotConfig,
   TreeToggleStateChange,
 } from './index.js';
 
@@ -16,11 +20,16 @@ export interface GridStateChange {
     /** Grid State change, the values of the new change */
     newValues:
       | CurrentColumn[]
+      | CurrentConditionalFormatting[]
       | CurrentFilter[]
+      | CurrentGlobalSearch
       | CurrentSorter[]
+      | FilterExpressionGroup
       | CurrentPagination
       | CurrentPinning
       | CurrentRowSelection
+      | PivotConfig
+      | null
       | Partial<TreeToggleStateChange>;
 
     /** The Grid State Type of change that was made (filter/sorter/...) */
@@ -10,10 +10,12 @@ export type BuiltInHeaderMenuCommand =
   | 'divider-2'
   | 'divider-3'
   | 'freeze-columns'
+  | 'freeze-columns-right'
   | 'hide-column'
   | 'sort-asc'
   | 'sort-desc'
-  | 'unfreeze-columns';
+  | 'unfreeze-columns'
+  | 'unfreeze-columns-right';
 
 export interface HeaderMenuCommandItemCallbackArgs {
   /** Column definition */
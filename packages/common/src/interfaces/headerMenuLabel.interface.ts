@@ -17,6 +17,12 @@ export interface HeaderMenuLabel {
   /** Defaults to "COLUMN_RESIZE_BY_CONTENT" translation key */
   columnResizeByContentCommandKey?: string;
 
+  /** Defaults to "Conditional Formatting" */
+  conditionalFormattingCommand?: string;
+
+  /** Defaults to "CONDITIONAL_FORMATTING" translation key */
+  conditionalFormattingCommandKey?: string;
+
   /** Defaults to "Filter Shortcuts" */
   filterShortcutsCommand?: string;
 
@@ -29,6 +35,12 @@ export interface HeaderMenuLabel {
   /** Defaults to "FREEZE_COLUMNS" translation key */
   freezeColumnsCommandKey?: string;
 
+  /** Defaults to "Freeze Columns (Right)" */
+  freezeColumnsRightCommand?: string;
+
+  /** Defaults to "FREEZE_COLUMNS_RIGHT" translation key */
+  freezeColumnsRightCommandKey?: string;
+
   /** Defaults to "Hide Column" */
   hideColumnCommand?: string;
 
@@ -55,12 +55,18 @@ export interface HeaderMenuOption extends MenuOption<HeaderMenuCommandItemCallba
   /** icon for the "Hide Column" command */
   iconColumnHideCommand?: string;
 
+  /** icon for the "Conditional Formatting" menu (the rule presets will be displayed as sub-menus of this parent menu) */
+  iconConditionalFormattingSubMenu?: string;
+
   /** icon for the "Filter Shortcuts" menu (the shortcuts will be displayed as sub-menus of this parent menu) */
   iconFilterShortcutSubMenu?: string;
 
   /** icon for the "Freeze Columns" command */
   iconFreezeColumns?: string;
 
+  /** icon for the "Freeze Columns (Right)" command */
+  iconFreezeColumnsRight?: string;
+
   /** icon for the "Unfreeze Columns" command */
   iconUnfreezeColumns?: string;
 
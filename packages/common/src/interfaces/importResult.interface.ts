@@ -0,0 +1,52 @@
+export interface ImportCellError {
+  /** grid column field of the invalid cell */
+  field: string;
+
+  /** error message of the cell type conversion or validation */
+  message: string;
+
+  /** original cell value read from the file */
+  value: any;
+}
+
+export interface ImportRejectedRow {
+  /** all cell errors found in the row */
+  errors: ImportCellError[];
+
+  /** row number (1-based) in the imported file */
+  rowNumber: number;
+
+  /** original cell values of the row read from the file */
+  values: any[];
+}
+
+export interface ImportResult {
+  /** items that were inserted in the grid */
+  importedItems: any[];
+
+  /** rows that were rejected because of an invalid cell value */
+  rejectedRows: ImportRejectedRow[];
+
+  /** total count of data rows read from the file */
+  totalRowCount: number;
+}
+
+export interface ImportSheetData {
+  /** delimiter that was used to read the file (only available with text files) */
+  delimiter?: string;
+
+  /** encoding that was used to decode the file (only available with text files) */
+  encoding?: string;
+
+  /** header titles read from the header row */
+  headers: string[];
+
+  /** data rows read after the header row (each row is an array of cell values), empty rows are excluded */
+  rows: Array<{ rowNumber: number; values: any[] }>;
+
+  /** quote character that was used to read the file, an empty string when values are not quoted (only available with text files) */
+  quoteChar?: string;
+
+  /** name of the sheet that was read (only available with Excel files) */
+  sheetName?: string;
+}
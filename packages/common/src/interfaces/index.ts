@@ -1,4 +1,6 @@
 export type * from './aggregator.interface.js';
+export type * from './ariaAnnouncer.interface.js';
+export type * from './ariaAnnouncerOption.interface.js';
 export type * from './autocompleterOption.interface.js';
 export type * from './autoResizeOption.interface.js';
 export type * from './autoTooltipOption.interface.js';
@@ -10,6 +12,8 @@ export type * from './cellArgs.interface.js';
 export type * from './cellMenu.interface.js';
 export type * from './cellMenuOption.interface.js';
 export type * from './cellRange.interface.js';
+export type * from './changeIndicator.interface.js';
+export type * from './changeIndicatorOption.interface.js';
 export type * from './checkboxSelectorOption.interface.js';
 export type * from './collectionCustomStructure.interface.js';
 export type * from './collectionFilterBy.interface.js';
@@ -29,11 +33,16 @@ export type * from './compositeEditorError.interface.js';
 export type * from './compositeEditorLabel.interface.js';
 export type * from './compositeEditorOpenDetailOption.interface.js';
 export type * from './compositeEditorOption.interface.js';
+export type * from './conditionalFormatting.interface.js';
+export type * from './conditionalFormattingOption.interface.js';
+export type * from './conditionalFormattingRule.interface.js';
 export type * from './contextMenu.interface.js';
 export type * from './contextMenuLabel.interface.js';
 export type * from './contextMenuOption.interface.js';
 export type * from './currentColumn.interface.js';
+export type * from './currentConditionalFormatting.interface.js';
 export type * from './currentFilter.interface.js';
+export type * from './currentGlobalSearch.interface.js';
 export type * from './currentPagination.interface.js';
 export type * from './currentPinning.interface.js';
 export type * from './currentRowSelection.interface.js';
@@ -57,19 +66,24 @@ export type * from './editUndoRedoBuffer.interface.js';
 export type * from './emptyWarning.interface.js';
 export type * from './excelCopyBufferOption.interface.js';
 export type * from './excelExportOption.interface.js';
+export type * from './excelImportOption.interface.js';
 export type * from './extension.interface.js';
 export type * from './extensionModel.interface.js';
 export type * from './externalCopyClipCommand.interface.js';
 export type * from './externalResource.interface.js';
+export type * from './fillHandleOption.interface.js';
 export type * from './filter.interface.js';
 export type * from './filterArguments.interface.js';
 export type * from './filterCallback.interface.js';
 export type * from './filterChangedArgs.interface.js';
 export type * from './filterCondition.interface.js';
 export type * from './filterConditionOption.interface.js';
+export type * from './filterExpression.interface.js';
+export type * from './filterLambdaOption.interface.js';
 export type * from './formatter.interface.js';
 export type * from './formatterOption.interface.js';
 export type * from './formatterResultObject.interface.js';
+export type * from './globalSearchOption.interface.js';
 export type * from './gridEvents.interface.js';
 export type * from './gridMenu.interface.js';
 export type * from './gridMenuCommandItemCallbackArgs.interface.js';
@@ -97,10 +111,14 @@ export type * from './headerMenuItems.interface.js';
 export type * from './headerMenuLabel.interface.js';
 export type * from './headerMenuOption.interface.js';
 export type * from './hideColumnOption.interface.js';
+export type * from './importResult.interface.js';
 export type * from './inputOption.interface.js';
 export type * from './interactions.interface.js';
 export type * from './itemMetadata.interface.js';
 export type * from './keyTitlePair.interface.js';
+export type * from './liveDataChanges.interface.js';
+export type * from './liveDataMessage.interface.js';
+export type * from './liveDataOption.interface.js';
 export type * from './locale.interface.js';
 export type * from './longTextEditorOption.interface.js';
 export type * from './menuCallbackArgs.interface.js';
@@ -123,6 +141,9 @@ export type * from './paginationChangedArgs.interface.js';
 export type * from './paginationCursorChangedArgs.interface.js';
 export type * from './pagingInfo.interface.js';
 export type * from './pdfExportOption.interface.js';
+export type * from './pivot.interface.js';
+export type * from './pivotConfig.interface.js';
+export type * from './pivotOption.interface.js';
 export type * from './position.interface.js';
 export type * from './resizeByContentOption.interface.js';
 export type * from './resizer.interface.js';
@@ -144,7 +165,12 @@ export type * from './slickRowDetailView.interface.js';
 export type * from './sliderOption.interface.js';
 export type * from './sorter.interface.js';
 export type * from './textExportOption.interface.js';
+export type * from './textFileFormat.interface.js';
+export type * from './textImportOption.interface.js';
 export type * from './treeDataOption.interface.js';
 export type * from './treeToggledItem.interface.js';
 export type * from './treeToggleStateChange.interface.js';
+export type * from './undoRedoOption.interface.js';
+export type * from './undoRedoStateChange.interface.js';
+export type * from './undoRedoTransaction.interface.js';
 export type * from './vanillaCalendarOption.interface.js';
@@ -24,6 +24,9 @@ export interface ItemMetadata {
   /** A custom group formatter. */
   formatter?: GroupTotalsFormatter | Formatter;
 
+  /** Row height in pixels, it requires the "enableVariableRowHeight" grid option and will fallback to the `rowHeight` grid option when undefined. */
+  height?: number;
+
   /** Whether or not a row or any cells in it can be selected. */
   selectable?: boolean;
 
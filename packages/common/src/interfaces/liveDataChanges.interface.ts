@@ -0,0 +1,12 @@
+import type { DataIdType } from '../core/index.js';
+
+export interface LiveDataChanges {
+  /** ids of the items that were added to the grid */
+  addedIds: DataIdType[];
+
+  /** ids of the items that were updated (replaced or patched) */
+  updatedIds: DataIdType[];
+
+  /** ids of the items that were deleted from the grid */
+  deletedIds: DataIdType[];
+}
@@ -0,0 +1,22 @@
+import type { DataIdType } from '../core/index.js';
+
+export type LiveDataMessageType = 'upsert' | 'delete' | 'patch';
+
+export interface LiveDataMessage<T = any> {
+  /**
+   * Type of the message
+   * - "upsert": add the item, or replace it when an item with the same id already exists
+   * - "delete": delete the item with the provided id
+   * - "patch": merge the changes into the existing item with the provided id (the message is ignored when the item doesn't exist)
+   */
+  type: LiveDataMessageType;
+
+  /** id of the item, it is optional for the "upsert" messages since the id can be read from the item itself */
+  id?: DataIdType;
+
+  /** the full item of an "upsert" message */
+  item?: T;
+
+  /** the changes (partial item) of a "patch" message */
+  changes?: Partial<T>;
+}
@@ -0,0 +1,10 @@
+export interface LiveDataOption {
+  /** Defaults to true, should we flash the cells which had their value changed by an "upsert" or "patch" message? (it uses the `cellFlashingCssClass` grid option) */
+  flashChangedCells?: boolean;
+
+  /** Defaults to 500, duration in milliseconds of the cell flashing */
+  flashDuration?: number;
+
+  /** Defaults to true, should we pause the updates while the user is editing a cell? All messages received in the meantime are applied once the editor is closed */
+  pauseWhileEditing?: boolean;
+}
@@ -1,16 +1,64 @@
 export interface Locale {
+  /** Text "Above Average" shown in the Header Menu Conditional Formatting sub-menu */
+  TEXT_ABOVE_AVERAGE?: string;
+
+  /** Text "Add Condition" displayed in the Advanced Filter panel */
+  TEXT_ADD_CONDITION?: string;
+
+  /** Text "Add Group" displayed in the Advanced Filter panel */
+  TEXT_ADD_GROUP?: string;
+
+  /** Text "Advanced Filter" shown in Grid Menu and as the Advanced Filter panel title */
+  TEXT_ADVANCED_FILTER?: string;
+
   /** Text "All Selected" displayed in the Multiple Select Editor/Filter */
   TEXT_ALL_SELECTED: string;
 
   /** Text "All {{x}} records selected" displayed in a Composite Editor modal of type  "mass-update". */
   TEXT_ALL_X_RECORDS_SELECTED?: string;
 
+  /** Text "And" logical operator displayed in the Advanced Filter panel */
+  TEXT_AND?: string;
+
+  /** Text "Apply" button displayed in the Advanced Filter panel */
+  TEXT_APPLY?: string;
+
   /** Text "Apply Mass Update" displayed in the Composite Editor with a "mass-update" modal type. */
   TEXT_APPLY_MASS_UPDATE?: string;
 
   /** Text "Update Selection" used by the "Mass Selection" button label in a Composite Editor modal. */
   TEXT_APPLY_TO_SELECTION?: string;
 
+  /** Text "{{x}} updated" announced to the screen readers after a cell edit, where "{{x}}" is the column name */
+  TEXT_ARIA_CELL_UPDATED?: string;
+
+  /** Text "{{x}} rows found" announced to the screen readers after a filter change */
+  TEXT_ARIA_ROWS_FOUND?: string;
+
+  /** Text "{{x}} rows selected" announced to the screen readers after a row selection change */
+  TEXT_ARIA_ROWS_SELECTED?: string;
+
+  /** Text "Showing rows {{x}} to {{y}} of {{z}}" announced to the screen readers after scrolling the grid */
+  TEXT_ARIA_SHOWING_ROWS?: string;
+
+  /** Text "ascending" sort direction announced to the screen readers after a sort change */
+  TEXT_ARIA_SORT_ASCENDING?: string;
+
+  /** Text "descending" sort direction announced to the screen readers after a sort change */
+  TEXT_ARIA_SORT_DESCENDING?: string;
+
+  /** Text "Sorted by {{x}}" announced to the screen readers after a sort change, where "{{x}}" is the list of sorted columns */
+  TEXT_ARIA_SORTED_BY?: string;
+
+  /** Text "Sorting removed" announced to the screen readers after the sorting was cleared */
+  TEXT_ARIA_SORTING_REMOVED?: string;
+
+  /** Text "Below Average" shown in the Header Menu Conditional Formatting sub-menu */
+  TEXT_BELOW_AVERAGE?: string;
+
+  /** Text "Bottom 10 Items" shown in the Header Menu Conditional Formatting sub-menu */
+  TEXT_BOTTOM_10_ITEMS?: string;
+
   /** Text "Cancel" shown in the Long Text Editor dialog */
   TEXT_CANCEL: string;
 
@@ -20,6 +68,9 @@ export interface Locale {
   /** Text "Clear all Grouping" displayed in the Context Menu when Grouping is enabled */
   TEXT_CLEAR_ALL_GROUPING: string;
 
+  /** Text "Clear Rules" shown in the Header Menu Conditional Formatting sub-menu */
+  TEXT_CLEAR_CONDITIONAL_FORMATTING?: string;
+
   /** Text "Collapse all Grouping" displayed in the Context Menu when Grouping is enabled */
   TEXT_COLLAPSE_ALL_GROUPS: string;
 
@@ -32,6 +83,9 @@ export interface Locale {
   /** Text "Clone" displayed in the Composite Editor with a "clone" modal type. */
   TEXT_CLONE?: string;
 
+  /** Text "Color Scale" shown in the Header Menu Conditional Formatting sub-menu */
+  TEXT_COLOR_SCALE?: string;
+
   /** Text "Columns" title displayed in the Column Picker & Grid Menu (when enabled) */
   TEXT_COLUMNS: string;
 
@@ -41,12 +95,18 @@ export interface Locale {
   /** Text "Commands" title displayed in the Column Picker & Grid Menu (when enabled) */
   TEXT_COMMANDS: string;
 
+  /** Text "Conditional Formatting" shown in Header Menu */
+  TEXT_CONDITIONAL_FORMATTING?: string;
+
   /** Text "Contains" shown in Compound Editors/Filters as an Operator */
   TEXT_CONTAINS: string;
 
   /** Text "Copy" shown in Context Menu to copy a cell value */
   TEXT_COPY: string;
 
+  /** Text "Data Bar" shown in the Header Menu Conditional Formatting sub-menu */
+  TEXT_DATA_BAR?: string;
+
   /** Text "Drop a column header here to group by the column" which shows in the pre-header when using the Draggable Grouping plugin */
   TEXT_DROP_COLUMN_HEADER_TO_GROUP_BY?: string;
 
@@ -107,6 +167,9 @@ export interface Locale {
   /** Text "Freeze Columns" shown in Header Menu (when enabled) */
   TEXT_FREEZE_COLUMNS?: string;
 
+  /** Text "Freeze Columns (Right)" shown in Header Menu (when enabled) */
+  TEXT_FREEZE_COLUMNS_RIGHT?: string;
+
   /** Text "Greater than" shown in Compound Editors/Filters as an Operator */
   TEXT_GREATER_THAN: string;
 
@@ -119,6 +182,9 @@ export interface Locale {
   /** Text "Hide Column" shown in Header Menu */
   TEXT_HIDE_COLUMN: string;
 
+  /** Text "Icon Set" shown in the Header Menu Conditional Formatting sub-menu */
+  TEXT_ICON_SET?: string;
+
   /** Text "items" displayed in the Pagination (when enabled) */
   TEXT_ITEMS?: string;
 
@@ -128,6 +194,9 @@ export interface Locale {
   /** Text "Records Selected" displayed in the Custom Footer */
   TEXT_ITEMS_SELECTED?: string;
 
+  /** Text "Not" (negate a group of conditions) displayed in the Advanced Filter panel */
+  TEXT_NOT?: string;
+
   /** Text "of" displayed in the Pagination (when enabled) */
   TEXT_OF?: string;
 
@@ -161,6 +230,9 @@ export interface Locale {
   /** Text "Options" title displayed in the Column Picker & Grid Menu (when enabled) */
   TEXT_OPTIONS: string;
 
+  /** Text "Or" logical operator displayed in the Advanced Filter panel */
+  TEXT_OR?: string;
+
   /** Text "Page" displayed in the Pagination (when enabled) */
   TEXT_PAGE?: string;
 
@@ -170,6 +242,9 @@ export interface Locale {
   /** Text "Refresh Dataset" displayed in the Grid Menu (when enabled) */
   TEXT_REFRESH_DATASET?: string;
 
+  /** Text "Remove" button displayed in the Advanced Filter panel */
+  TEXT_REMOVE?: string;
+
   /** Text "Remove Filter" shown in Header Menu */
   TEXT_REMOVE_FILTER: string;
 
@@ -185,6 +260,9 @@ export interface Locale {
   /** Text "Save" shown in the Long Text Editor dialog */
   TEXT_SAVE: string;
 
+  /** Text "Search" used as the search value input label in the Advanced Filter panel */
+  TEXT_SEARCH?: string;
+
   /** Text "Select All" displayed in the Multiple Select Editor/Filter */
   TEXT_SELECT_ALL: string;
 
@@ -212,6 +290,9 @@ export interface Locale {
   /** Text "Toggle Pre-Header Row" shown in Grid Menu (when enabled) */
   TEXT_TOGGLE_PRE_HEADER_ROW?: string;
 
+  /** Text "Top 10 Items" shown in the Header Menu Conditional Formatting sub-menu */
+  TEXT_TOP_10_ITEMS?: string;
+
   /** Text "Unfreeze Columns" shown in Grid Menu, this is an alternative to the text (CLEAR_PINNING: Unfreeze Columns/Rows) */
   TEXT_UNFREEZE_COLUMNS?: string;
 
@@ -0,0 +1,15 @@
+import type { SlickEventData } from '../core/index.js';
+import type { SlickPivot } from '../extensions/slickPivot.js';
+import type { PivotConfig } from './pivotConfig.interface.js';
+import type { PivotOption } from './pivotOption.interface.js';
+
+export interface Pivot extends PivotOption {
+  //
+  // Events
+  // ---------
+  /** Fired when the pivot configuration changed (`pivot` is null when the pivot mode is turned off) */
+  onPivotChanged?: (e: SlickEventData | null, args: { caller?: string; pivot: PivotConfig | null }) => void;
+
+  /** Fired after extension (plugin) is registered by SlickGrid */
+  onExtensionRegistered?: (plugin: SlickPivot) => void;
+}
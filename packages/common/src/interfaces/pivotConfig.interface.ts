@@ -0,0 +1,24 @@
+/** Aggregator names (from the `Aggregators` list) which can be used by a Pivot value field */
+export type PivotAggregatorType = 'Avg' | 'Count' | 'Distinct' | 'Max' | 'Min' | 'Sum';
+
+export interface PivotValueField {
+  /** Column ID of the source column to aggregate */
+  columnId: string;
+
+  /** Aggregator used to calculate the value of each pivot cell */
+  aggregator: PivotAggregatorType;
+
+  /** optional title of the generated column(s), defaults to the source column name followed by the aggregator name (ie: "Cost (Sum)") */
+  title?: string;
+}
+
+export interface PivotConfig {
+  /** List of source column IDs used as row dimensions, every unique combination of their values becomes a row */
+  rows: string[];
+
+  /** List of source column IDs used as column dimensions, every unique combination of their values becomes a new set of columns */
+  columns: string[];
+
+  /** List of value fields to aggregate for every row & column dimension combination */
+  values: PivotValueField[];
+}
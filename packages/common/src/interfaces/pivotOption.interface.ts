@@ -0,0 +1,36 @@
+import type { PivotAggregatorType, PivotConfig } from './pivotConfig.interface.js';
+
+export interface PivotOption {
+  /** Defaults to "Sum", aggregator used by a field when it is first dropped in the "Values" area */
+  defaultAggregator?: PivotAggregatorType;
+
+  /** an extra CSS class to add to the remove button of each dropped field (default undefined), if deleteIconCssClass is undefined then slick-pivot-field-remove-icon class will be added */
+  deleteIconCssClass?: string;
+
+  /** option to specify set own placeholder note text shown in every empty drop area */
+  dropPlaceHolderText?: string;
+
+  /** translation key of the drop area placeholder text (only used when `enableTranslate` is enabled) */
+  dropPlaceHolderTextKey?: string;
+
+  /** optionally provide an initial pivot configuration, note that the Grid Presets (`presets.pivot`) have precedence when defined */
+  initialPivot?: PivotConfig;
+
+  /** Defaults to "Rows", title of the Rows drop area */
+  rowsTitle?: string;
+
+  /** translation key of the Rows drop area title (only used when `enableTranslate` is enabled) */
+  rowsTitleKey?: string;
+
+  /** Defaults to "Columns", title of the Columns drop area */
+  columnsTitle?: string;
+
+  /** translation key of the Columns drop area title (only used when `enableTranslate` is enabled) */
+  columnsTitleKey?: string;
+
+  /** Defaults to "Values", title of the Values drop area */
+  valuesTitle?: string;
+
+  /** translation key of the Values drop area title (only used when `enableTranslate` is enabled) */
+  valuesTitleKey?: string;
+}
@@ -0,0 +1,18 @@
+export interface TextRow {
+  /** row number (1-based) in the file */
+  rowNumber: number;
+
+  /** cell values of the row */
+  values: string[];
+}
+
+export interface TextFileFormat {
+  /** delimiter used to separate values */
+  delimiter: string;
+
+  /** encoding used to decode the file */
+  encoding: string;
+
+  /** quote character wrapping the values, an empty string when values are not quoted */
+  quoteChar: string;
+}
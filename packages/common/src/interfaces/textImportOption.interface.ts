@@ -0,0 +1,37 @@
+import type { DelimiterType } from '../enums/delimiter.type.js';
+
+export interface TextImportOption {
+  /** Defaults to 500, how many rows to insert at the bottom of the grid (via the Grid Service `addItems()`) per chunk, the import yields to the browser between each chunk to keep the UI responsive */
+  chunkSize?: number;
+
+  /**
+   * Optional mapping of the file column header titles to the grid column `field`, e.g.: `{ 'Task Title': 'title', 'Start Date': 'start' }`.
+   * When undefined, each header will be mapped to the first grid column with a matching `name`, `id` or `field` (case insensitive).
+   * Any file column that cannot be mapped will simply be ignored.
+   */
+  columnMapping?: Record<string, string>;
+
+  /** Delimiter used to separate values, when undefined it will be detected from the first lines of the file (any of the `DelimiterType`) */
+  delimiter?: DelimiterType | string;
+
+  /** Defaults to "utf-8", encoding used to decode a file without any Byte Order Mark (BOM), a file with a UTF-8 or UTF-16 BOM is always decoded with the encoding of its BOM */
+  encoding?: string;
+
+  /** The default text to display in 1st column of the File Export, which will identify that the current row is a Grouping Aggregator (defaults to the `textExportOptions` value) */
+  groupingAggregatorRowText?: string;
+
+  /** The column header title of the Group by column, when the first header matches it then the file is considered as a grouped export (defaults to the `textExportOptions` value or "Group By") */
+  groupingColumnHeaderTitle?: string;
+
+  /**
+   * Row number (1-based) of the header titles row, any row before it will be skipped and all rows after it are considered data rows.
+   * Defaults to 1, or to 2 when the pre-header panel is shown since the text export will then add the column group titles as the first row.
+   */
+  headerRowNumber?: number;
+
+  /** Quote character wrapping the values, when undefined it will be detected from the first lines of the file (double quotes for a CSV export and none for a TXT export), use an empty string to disable quoting */
+  quoteChar?: string;
+
+  /** Defaults to true, validate each cell value with the column editor validator (or column validator) and reject any row with an invalid cell */
+  validateCells?: boolean;
+}
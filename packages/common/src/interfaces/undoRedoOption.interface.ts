@@ -0,0 +1,7 @@
+export interface UndoRedoOption {
+  /** Defaults to true, should we bind the undo (Ctrl+Z) & redo (Ctrl+Y or Ctrl+Shift+Z) keyboard shortcuts when the grid has the focus? */
+  enableKeyboardShortcuts?: boolean;
+
+  /** Defaults to 100, maximum number of transactions kept in the undo history, the oldest transactions are dropped when the limit is reached */
+  maxHistoryDepth?: number;
+}
@@ -0,0 +1,21 @@
+import type { UndoRedoTransactionType } from './undoRedoTransaction.interface.js';
+
+export interface UndoRedoStateChange {
+  /** Action that changed the Undo/Redo history */
+  action: 'add' | 'undo' | 'redo' | 'clear';
+
+  /** Type of the transaction that was added, undone or redone (undefined when the history is cleared) */
+  transactionType?: UndoRedoTransactionType;
+
+  /** Is there any transaction available to undo? */
+  canUndo: boolean;
+
+  /** Is there any transaction available to redo? */
+  canRedo: boolean;
+
+  /** Number of transactions available to undo */
+  undoCount: number;
+
+  /** Number of transactions available to redo */
+  redoCount: number;
+}
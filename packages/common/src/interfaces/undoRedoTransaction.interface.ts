@@ -0,0 +1,34 @@
+/** Type of change recorded by an Undo/Redo transaction */
+export type UndoRedoTransactionType =
+  /** cell edit committed by a cell Editor (or by the Composite Editor in "edit" mode) */
+  | 'cellEdit'
+  /** cells pasted by the Excel Copy Buffer */
+  | 'paste'
+  /** items added by the GridService */
+  | 'addItems'
+  /** items updated by the GridService */
+  | 'updateItems'
+  /** items deleted by the GridService */
+  | 'deleteItems'
+  /** rows moved by the Row Move Manager */
+  | 'moveRows'
+  /** items changed by the Composite Editor "mass-update" or "mass-selection" */
+  | 'massUpdate'
+  /** any other change recorded by the user */
+  | 'custom';
+
+export interface UndoRedoCommand {
+  /** Call to apply (or re-apply) the changes */
+  execute: () => void;
+
+  /** Call to undo (rollback) the changes */
+  undo: () => void;
+}
+
+export interface UndoRedoTransaction {
+  /** Type of change that was recorded */
+  type: UndoRedoTransactionType;
+
+  /** List of commands that are undone (in reverse order) or redone (in order) as a single action */
+  commands: UndoRedoCommand[];
+}
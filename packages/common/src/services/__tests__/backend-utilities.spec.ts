@@ -1,6 +1,7 @@
 import { of, Subject, throwError } from 'rxjs';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { RxJsResourceStub } from '../../../../../test/rxjsResourceStub.js';
+import type { SlickGrid } from '../../core/index.js';
 import type { BackendServiceApi, GridOption } from '../../interfaces/index.js';
 import { BackendUtilityService } from '../backendUtility.service.js';
 
@@ -8,6 +9,7 @@ vi.useFakeTimers();
 
 const graphqlServiceMock = {
   buildQuery: vi.fn(),
+  getQueryVariables: vi.fn(),
   updateFilters: vi.fn(),
   updatePagination: vi.fn(),
   updateSorters: vi.fn(),
@@ -108,7 +110,16 @@ describe('Backend Utility Service', () => {
 
       service.onBackendError('some error', gridOptionMock.backendServiceApi!);
 
-      expect(spy).toHaveBeenCalled();
+      expect(spy).toHaveBeenCalledWith('some error', { type: 'unknown', status: undefined, attempts: 1, retryable: false });
+    });
+
+    it('should run the "onError" callback method with the error info when provided', () => {
+      gridOptionMock.backendServiceApi!.onError = vi.fn();
+      const errorInfo = { type: 'http', status: 500, attempts: 4, retryable: true } as const;
+
+      service.onBackendError('some error', gridOptionMock.backendServiceApi!, errorInfo);
+
+      expect(gridOptionMock.backendServiceApi!.onError).toHaveBeenCalledWith('some error', errorInfo);
     });
 
     it('should throw back the error when callback was provided', () => {
@@ -117,6 +128,51 @@ describe('Backend Utility Service', () => {
     });
   });
 
+  describe('getBackendErrorInfo method', () => {
+    it('should classify an error with an HTTP status as an "http" error and only retry 408, 429 and 5xx status', () => {
+      const backendApi = gridOptionMock.backendServiceApi!;
+
+      expect(service.getBackendErrorInfo({ status: 500 }, backendApi)).toEqual({ type: 'http', status: 500, attempts: 1, retryable: true });
+      expect(service.getBackendErrorInfo({ statusCode: 429 }, backendApi, 2)).toEqual({ type: 'http', status: 429, attempts: 2, retryable: true });
+      expect(service.getBackendErrorInfo({ response: { status: 408 } }, backendApi)).toEqual({
+        type: 'http',
+        status: 408,
+        attempts: 1,
+        retryable: true,
+      });
+      expect(service.getBackendErrorInfo({ status: 404 }, backendApi)).toEqual({ type: 'http', status: 404, attempts: 1, retryable: false });
+    });
+
+    it('should classify a status of 0 or a TypeError as a retryable "network" error', () => {
+      const backendApi = gridOptionMock.backendServiceApi!;
+
+      expect(service.getBackendErrorInfo({ status: 0 }, backendApi)).toEqual(expect.objectContaining({ type: 'network', retryable: true }));
+      expect(service.getBackendErrorInfo(new TypeError('Failed to fetch'), backendApi)).toEqual(
+        expect.objectContaining({ type: 'network', status: undefined, retryable: true })
+      );
+    });
+
+    it('should classify a TimeoutError as a retryable "timeout" error and any other error as a non-retryable "unknown" error', () => {
+      const backendApi = gridOptionMock.backendServiceApi!;
+
+      expect(service.getBackendErrorInfo(new DOMException('timed out', 'TimeoutError'), backendApi)).toEqual(
+        expect.objectContaining({ type: 'timeout', retryable: true })
+      );
+      expect(service.getBackendErrorInfo('some error', backendApi)).toEqual(expect.objectContaining({ type: 'unknown', retryable: false }));
+    });
+
+    it('should use the "isRetryable" callback of the retry policy when provided', () => {
+      const isRetryableMock = vi.fn().mockReturnValue(true);
+      const backendApi = { ...gridOptionMock.backendServiceApi!, retry: { isRetryable: isRetryableMock } };
+      const error = { status: 404 };
+
+      const output = service.getBackendErrorInfo(error, backendApi, 3);
+
+      expect(output.retryable).toBe(true);
+      expect(isRetryableMock).toHaveBeenCalledWith(error, expect.objectContaining({ type: 'http', status: 404, attempts: 3 }));
+    });
+  });
+
   describe('refreshBackendDataset method', () => {
     it('should call "executeBackendCallback" after calling the "refreshBackendDataset" method with Pagination', () => {
       const query = `query { users (first:20,offset:0) { totalCount, nodes { id,name,gender,company } } }`;
@@ -216,7 +272,11 @@ describe('Backend Utility Service', () => {
       expect(errorCallbackMock).toHaveBeenCalled();
       expect(nextSpy).toHaveBeenCalled();
       expect(processSpy).toHaveBeenCalled();
-      expect(service.onBackendError).toHaveBeenCalledWith(errorExpected, gridOptionMock.backendServiceApi);
+      expect(service.onBackendError).toHaveBeenCalledWith(
+        errorExpected,
+        gridOptionMock.backendServiceApi,
+        expect.objectContaining({ type: 'unknown', attempts: 1 })
+      );
     });
 
     it('should pass AbortSignal to the process method when executing a Promise-based backend callback', async () => {
@@ -233,6 +293,22 @@ describe('Backend Utility Service', () => {
       });
     });
 
+    it('should pass the backend service query variables to the process method when the service provides them', async () => {
+      const now = new Date();
+      const query = `query($first: Int, $offset: Int) { users (first:$first,offset:$offset) { totalCount, nodes { id,name } } }`;
+      const queryVariables = { first: 20, offset: 0 };
+      const getQueryVariablesSpy = vi.spyOn(gridOptionMock.backendServiceApi!.service, 'getQueryVariables').mockReturnValue(queryVariables);
+
+      const processSpy = vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockReturnValue(Promise.resolve({ data: {} }));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, now, 10);
+
+      await vi.waitFor(() => {
+        expect(processSpy).toHaveBeenCalledWith(query, { signal: expect.any(AbortSignal), variables: queryVariables });
+      });
+      getQueryVariablesSpy.mockRestore();
+    });
+
     it('should abort previous request when a new Promise-based request is triggered', async () => {
       const now = new Date();
       const query1 = `query { users (first:20,offset:0) }`;
@@ -323,7 +399,11 @@ describe('Backend Utility Service', () => {
 
       await vi.waitFor(() => {
         expect(errorCallbackMock).toHaveBeenCalled();
-        expect(service.onBackendError).toHaveBeenCalledWith(realError, gridOptionMock.backendServiceApi);
+        expect(service.onBackendError).toHaveBeenCalledWith(
+          realError,
+          gridOptionMock.backendServiceApi,
+          expect.objectContaining({ type: 'unknown', attempts: 1, retryable: false })
+        );
       });
     });
 
@@ -346,4 +426,363 @@ describe('Backend Utility Service', () => {
       });
     });
   });
+
+  describe('retry and timeout', () => {
+    const query = `query { users (first:20,offset:0) }`;
+
+    it('should retry a failed Promise-based request with an exponential backoff delay until it succeeds', async () => {
+      const now = new Date();
+      const processResult = { data: { users: [] } };
+      const successCallbackMock = vi.fn();
+      const executeProcessesSpy = vi.spyOn(service, 'executeBackendProcessesCallback');
+      gridOptionMock.backendServiceApi!.retry = { count: 2, delay: 100, backoffFactor: 3 };
+      service.onBackendError = vi.fn();
+
+      const processSpy = vi
+        .spyOn(gridOptionMock.backendServiceApi!, 'process')
+        .mockImplementationOnce(() => Promise.reject({ status: 503 }))
+        .mockImplementationOnce(() => Promise.reject({ status: 503 }))
+        .mockReturnValueOnce(Promise.resolve(processResult));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, now, 10, { successCallback: successCallbackMock });
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(processSpy).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(processSpy).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(300);
+      expect(processSpy).toHaveBeenCalledTimes(3);
+
+      expect(executeProcessesSpy).toHaveBeenCalledWith(now, processResult, gridOptionMock.backendServiceApi, 10);
+      expect(successCallbackMock).toHaveBeenCalled();
+      expect(service.onBackendError).not.toHaveBeenCalled();
+    });
+
+    it('should call "onBackendError" with the number of attempts when all retries failed', async () => {
+      const errorCallbackMock = vi.fn();
+      const error = { status: 500 };
+      gridOptionMock.backendServiceApi!.retry = { count: 1, delay: 50 };
+      service.onBackendError = vi.fn();
+      const processSpy = vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockImplementation(() => Promise.reject(error));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, new Date(), 10, { errorCallback: errorCallbackMock });
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(processSpy).toHaveBeenCalledTimes(2);
+      expect(errorCallbackMock).toHaveBeenCalledTimes(1);
+      expect(service.onBackendError).toHaveBeenCalledWith(error, gridOptionMock.backendServiceApi, {
+        type: 'http',
+        status: 500,
+        attempts: 2,
+        retryable: true,
+      });
+    });
+
+    it('should not retry an error that is not retryable', async () => {
+      const error = { status: 400 };
+      gridOptionMock.backendServiceApi!.retry = { count: 3 };
+      service.onBackendError = vi.fn();
+      const processSpy = vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockImplementation(() => Promise.reject(error));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, new Date(), 10);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(processSpy).toHaveBeenCalledTimes(1);
+      expect(service.onBackendError).toHaveBeenCalledWith(error, gridOptionMock.backendServiceApi, expect.objectContaining({ retryable: false }));
+    });
+
+    it('should cancel a pending retry when a newer request is triggered', async () => {
+      gridOptionMock.backendServiceApi!.retry = { count: 3, delay: 100 };
+      service.onBackendError = vi.fn();
+      const processSpy = vi
+        .spyOn(gridOptionMock.backendServiceApi!, 'process')
+        .mockImplementationOnce(() => Promise.reject({ status: 503 }))
+        .mockReturnValueOnce(Promise.resolve({ data: {} }));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, new Date(), 10);
+      await vi.advanceTimersByTimeAsync(0);
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, `query { users (first:20,offset:20) }`, {}, new Date(), 10);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(processSpy).toHaveBeenCalledTimes(2);
+      expect(service.onBackendError).not.toHaveBeenCalled();
+    });
+
+    it('should abort the request and call "onBackendError" with a TimeoutError when the process takes longer than the timeout', async () => {
+      let capturedSignal: AbortSignal | undefined;
+      const errorCallbackMock = vi.fn();
+      gridOptionMock.backendServiceApi!.timeout = 1000;
+      service.onBackendError = vi.fn();
+      vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockImplementation((_q, opts) => {
+        capturedSignal = opts?.signal;
+        return new Promise((resolve) => setTimeout(() => resolve({ data: {} }), 5000));
+      });
+      const executeProcessesSpy = vi.spyOn(service, 'executeBackendProcessesCallback');
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, new Date(), 10, { errorCallback: errorCallbackMock });
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(capturedSignal?.aborted).toBe(true);
+      expect(errorCallbackMock).toHaveBeenCalled();
+      expect(service.onBackendError).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'TimeoutError' }),
+        gridOptionMock.backendServiceApi,
+        expect.objectContaining({ type: 'timeout', attempts: 1 })
+      );
+      expect(executeProcessesSpy).not.toHaveBeenCalled();
+    });
+
+    it('should ignore stale Observable results when a newer request has been triggered', () => {
+      const now = new Date();
+      const slowSubject = new Subject<any>();
+      const result2 = { data: { users: [{ name: 'Jane' }] } };
+      const executeProcessesSpy = vi.spyOn(service, 'executeBackendProcessesCallback');
+      vi.spyOn(gridOptionMock.backendServiceApi!, 'process')
+        .mockReturnValueOnce(slowSubject as any)
+        .mockReturnValueOnce(of(result2));
+
+      service.addRxJsResource(rxjsResourceStub);
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, now, 10);
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, now, 10);
+      slowSubject.next({ data: { users: [{ name: 'John' }] } });
+
+      expect(executeProcessesSpy).toHaveBeenCalledTimes(1);
+      expect(executeProcessesSpy).toHaveBeenCalledWith(now, result2, gridOptionMock.backendServiceApi, 10);
+    });
+  });
+
+  describe('loading & error overlay', () => {
+    const query = `query { users (first:20,offset:0) }`;
+    let gridContainerElm: HTMLDivElement;
+    let gridStub: SlickGrid;
+
+    beforeEach(() => {
+      gridContainerElm = document.createElement('div');
+      gridStub = { getContainerNode: () => gridContainerElm, getOptions: () => gridOptionMock } as unknown as SlickGrid;
+      gridOptionMock.backendServiceApi!.enableOverlay = true;
+      graphqlServiceMock.buildQuery = vi.fn().mockReturnValue(query);
+      service.init(gridStub);
+    });
+
+    it('should not show any overlay when "enableOverlay" is disabled', () => {
+      gridOptionMock.backendServiceApi!.enableOverlay = false;
+      vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockReturnValue(new Promise(() => {}));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, new Date(), 10);
+
+      expect(gridContainerElm.querySelector('.slick-backend-overlay')).toBeNull();
+    });
+
+    it('should show a loading overlay while the process is executing and remove it once it resolves', async () => {
+      gridOptionMock.backendServiceApi!.overlayOptions = { loadingText: 'Chargement...' };
+      vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockReturnValue(new Promise((resolve) => setTimeout(() => resolve({ data: {} }), 100)));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, new Date(), 10);
+
+      const overlayElm = gridContainerElm.querySelector('.slick-backend-overlay') as HTMLDivElement;
+      expect(overlayElm.classList.contains('slick-backend-overlay-loading')).toBe(true);
+      expect(overlayElm.role).toBe('status');
+      expect(overlayElm.querySelector('.slick-backend-overlay-spinner')).toBeTruthy();
+      expect(overlayElm.querySelector('.slick-backend-overlay-text')!.textContent).toBe('Chargement...');
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(gridContainerElm.querySelector('.slick-backend-overlay')).toBeNull();
+    });
+
+    it('should show an error overlay with the formatted error and reload the data when clicking on the "retry" button', async () => {
+      const errorFormatterMock = vi.fn().mockReturnValue('Server unavailable');
+      gridOptionMock.backendServiceApi!.onError = vi.fn();
+      gridOptionMock.backendServiceApi!.overlayOptions = { errorFormatter: errorFormatterMock, retryButtonText: 'Réessayer' };
+      const processSpy = vi
+        .spyOn(gridOptionMock.backendServiceApi!, 'process')
+        .mockImplementationOnce(() => Promise.reject({ status: 503 }))
+        .mockReturnValueOnce(Promise.resolve({ data: {} }));
+      const preProcessSpy = vi.spyOn(gridOptionMock.backendServiceApi!, 'preProcess');
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, new Date(), 10);
+      await vi.advanceTimersByTimeAsync(0);
+
+      const overlayElm = gridContainerElm.querySelector('.slick-backend-overlay') as HTMLDivElement;
+      expect(overlayElm.classList.contains('slick-backend-overlay-error')).toBe(true);
+      expect(overlayElm.role).toBe('alert');
+      expect(overlayElm.querySelector('.slick-backend-overlay-text')!.textContent).toBe('Server unavailable');
+      expect(errorFormatterMock).toHaveBeenCalledWith({ status: 503 }, expect.objectContaining({ type: 'http', status: 503 }));
+
+      const retryButtonElm = overlayElm.querySelector('.slick-backend-overlay-retry') as HTMLButtonElement;
+      expect(retryButtonElm.textContent).toBe('Réessayer');
+      retryButtonElm.dispatchEvent(new Event('click'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(preProcessSpy).toHaveBeenCalledTimes(1);
+      expect(processSpy).toHaveBeenCalledTimes(2);
+      expect(gridContainerElm.querySelector('.slick-backend-overlay')).toBeNull();
+    });
+
+    it('should remove the overlay and abort the current request when disposing the service', () => {
+      let capturedSignal: AbortSignal | undefined;
+      vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockImplementation((_q, opts) => {
+        capturedSignal = opts?.signal;
+        return new Promise(() => {});
+      });
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query, {}, new Date(), 10);
+      expect(gridContainerElm.querySelector('.slick-backend-overlay')).toBeTruthy();
+
+      service.dispose();
+
+      expect(capturedSignal?.aborted).toBe(true);
+      expect(gridContainerElm.querySelector('.slick-backend-overlay')).toBeNull();
+    });
+  });
+
+  describe('query cache', () => {
+    const query1 = `query { users (first:20,offset:0) }`;
+    const query2 = `query { users (first:20,offset:20) }`;
+
+    beforeEach(() => {
+      gridOptionMock.backendServiceApi!.enableCache = true;
+    });
+
+    it('should not cache anything when "enableCache" is disabled', () => {
+      gridOptionMock.backendServiceApi!.enableCache = false;
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, { data: {} });
+
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1)).toBeUndefined();
+    });
+
+    it('should return a copy of the cached result so that any further changes are not applied to the cache', () => {
+      const result = { data: { users: [{ name: 'John' }] } };
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, result);
+      result.data.users[0].name = 'Jane';
+
+      const output = service.getCachedResult(gridOptionMock.backendServiceApi!, query1);
+      output.metrics = {};
+
+      expect(output).toEqual({ data: { users: [{ name: 'John' }] }, metrics: {} });
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1)).toEqual({ data: { users: [{ name: 'John' }] } });
+    });
+
+    it('should use the query variables as part of the cache key', () => {
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, { data: { page: 1 } }, { offset: 0 });
+
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1, { offset: 0 })).toEqual({ data: { page: 1 } });
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1, { offset: 20 })).toBeUndefined();
+    });
+
+    it('should not return an expired result when its "ttl" is exceeded', () => {
+      gridOptionMock.backendServiceApi!.cacheOptions = { ttl: 1000 };
+      const dateNowSpy = vi.spyOn(Date, 'now').mockReturnValue(5000);
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, { data: {} });
+
+      dateNowSpy.mockReturnValue(5999);
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1)).toEqual({ data: {} });
+
+      dateNowSpy.mockReturnValue(6000);
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1)).toBeUndefined();
+      dateNowSpy.mockRestore();
+    });
+
+    it('should remove the least recently used result when the "maxEntries" is exceeded', () => {
+      gridOptionMock.backendServiceApi!.cacheOptions = { maxEntries: 2 };
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, { data: 1 });
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query2, { data: 2 });
+      service.getCachedResult(gridOptionMock.backendServiceApi!, query1); // query1 is now the most recently used
+      service.setCachedResult(gridOptionMock.backendServiceApi!, 'query3', { data: 3 });
+
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1)).toEqual({ data: 1 });
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query2)).toBeUndefined();
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, 'query3')).toEqual({ data: 3 });
+    });
+
+    it('should clear the cached results of a query or all of them when calling "clearCache"', () => {
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, { data: 1 }, { offset: 0 });
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, { data: 2 }, { offset: 20 });
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query2, { data: 3 });
+
+      service.clearCache(query1);
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1, { offset: 0 })).toBeUndefined();
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1, { offset: 20 })).toBeUndefined();
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query2)).toEqual({ data: 3 });
+
+      service.clearCache();
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query2)).toBeUndefined();
+    });
+
+    it('should cache the process result and reuse it, without executing the process, when the same query is executed again', async () => {
+      // also fake the Date so that the metrics of the cached result (end time) are the same as the original process result
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+      const now = new Date();
+      const processResult = { data: { users: [{ name: 'John' }] } };
+      const successCallbackMock = vi.fn();
+      const executeProcessesSpy = vi.spyOn(service, 'executeBackendProcessesCallback');
+      const processSpy = vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockImplementation(() => Promise.resolve(processResult));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query1, {}, now, 10);
+      await vi.advanceTimersByTimeAsync(0);
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query1, {}, now, 10, { successCallback: successCallbackMock });
+
+      expect(processSpy).toHaveBeenCalledTimes(1);
+      expect(executeProcessesSpy).toHaveBeenCalledTimes(2);
+      expect(executeProcessesSpy).toHaveBeenLastCalledWith(now, processResult, gridOptionMock.backendServiceApi, 10);
+      expect(successCallbackMock).toHaveBeenCalled();
+      vi.useFakeTimers();
+    });
+
+    it('should revalidate a cached result in the background and only refresh the grid when the result changed', async () => {
+      const now = new Date();
+      gridOptionMock.backendServiceApi!.cacheOptions = { revalidate: true };
+      const executeProcessesSpy = vi.spyOn(service, 'executeBackendProcessesCallback');
+      const processSpy = vi
+        .spyOn(gridOptionMock.backendServiceApi!, 'process')
+        .mockImplementationOnce(() => Promise.resolve({ data: { users: [{ name: 'John' }] } }))
+        .mockImplementationOnce(() => Promise.resolve({ data: { users: [{ name: 'John' }] } }))
+        .mockImplementationOnce(() => Promise.resolve({ data: { users: [{ name: 'Jane' }] } }));
+
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query1, {}, now, 10);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(executeProcessesSpy).toHaveBeenCalledTimes(1);
+
+      // 1st revalidation has the same result, so the grid is only refreshed with the cached result
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query1, {}, now, 10);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(processSpy).toHaveBeenCalledTimes(2);
+      expect(executeProcessesSpy).toHaveBeenCalledTimes(2);
+
+      // 2nd revalidation has a new result, so the grid is refreshed once more
+      service.executeBackendCallback(gridOptionMock.backendServiceApi!, query1, {}, now, 10);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(processSpy).toHaveBeenCalledTimes(3);
+      expect(executeProcessesSpy).toHaveBeenCalledTimes(4);
+      expect(executeProcessesSpy).toHaveBeenLastCalledWith(
+        now,
+        expect.objectContaining({ data: { users: [{ name: 'Jane' }] } }),
+        gridOptionMock.backendServiceApi,
+        10
+      );
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1)).toEqual({ data: { users: [{ name: 'Jane' }] } });
+    });
+
+    it('should silently ignore an error of the background revalidation', async () => {
+      gridOptionMock.backendServiceApi!.cacheOptions = { revalidate: true };
+      const errorCallbackMock = vi.fn();
+      service.onBackendError = vi.fn();
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, { data: {} });
+      vi.spyOn(gridOptionMock.backendServiceApi!, 'process').mockImplementation(() => Promise.reject({ status: 500 }));
+
+      service.revalidateCachedResult(gridOptionMock.backendServiceApi!, query1, new Date(), 10);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(errorCallbackMock).not.toHaveBeenCalled();
+      expect(service.onBackendError).not.toHaveBeenCalled();
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1)).toEqual({ data: {} });
+    });
+
+    it('should clear the cache when disposing the service', () => {
+      service.setCachedResult(gridOptionMock.backendServiceApi!, query1, { data: {} });
+      service.dispose();
+
+      expect(service.getCachedResult(gridOptionMock.backendServiceApi!, query1)).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,160 @@
+import { of } from 'rxjs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BackendService, BackendServiceApi, Column } from '../../interfaces/index.js';
+import { executeBackendServerExport, fetchAllBackendItems, getBackendExportMode } from '../backendExportUtils.js';
+
+const createDataset = (from: number, count: number) => Array.from({ length: count }, (_, idx) => ({ id: from + idx, name: `Item ${from + idx}` }));
+
+let backendServiceMock: BackendService;
+
+describe('Backend Export Utilities', () => {
+  beforeEach(() => {
+    backendServiceMock = {
+      buildQuery: vi.fn(() => `query-${vi.mocked(backendServiceMock.updatePagination!).mock.lastCall?.[0]}`),
+      getCurrentPagination: vi.fn(() => ({ pageNumber: 3, pageSize: 20 })),
+      getDatasetFromProcessResult: (result: any) => ({ dataset: result.items, totalItems: result.total, pageInfo: result.pageInfo }),
+      getQueryVariables: vi.fn(() => ({ locale: 'en' })),
+      options: { paginationOptions: { first: 20, offset: 40 } },
+      postProcess: vi.fn(),
+      resetPaginationOptions: vi.fn(),
+      updateOptions: vi.fn(),
+      updatePagination: vi.fn(),
+    } as unknown as BackendService;
+  });
+
+  describe('getBackendExportMode method', () => {
+    it('should return "local" when there is no Backend Service API or when the export mode is not defined', () => {
+      expect(getBackendExportMode()).toBe('local');
+      expect(getBackendExportMode({ service: backendServiceMock, process: vi.fn() })).toBe('local');
+    });
+
+    it('should return the export mode of the Backend Service API', () => {
+      expect(getBackendExportMode({ service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'fetchAll' } })).toBe('fetchAll');
+      expect(getBackendExportMode({ service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'server' } })).toBe('server');
+    });
+  });
+
+  describe('fetchAllBackendItems method', () => {
+    it('should throw when the Backend Service does not implement the "updatePagination" method', async () => {
+      const backendApi = { service: { ...backendServiceMock, updatePagination: undefined }, process: vi.fn() } as BackendServiceApi;
+      await expect(fetchAllBackendItems(backendApi)).rejects.toThrow('the "fetchAll" export mode requires a Backend Service implementing');
+    });
+
+    it('should fetch every chunk until the total item count is reached and then restore the pagination', async () => {
+      const processMock = vi.fn((query: string) =>
+        Promise.resolve(query === 'query-3' ? { items: createDataset(4, 1), total: 5 } : { items: createDataset(query === 'query-1' ? 0 : 2, 2), total: 5 })
+      );
+      const onProgress = vi.fn();
+      const backendApi = { service: backendServiceMock, process: processMock, exportOptions: { chunkSize: 2, onProgress } } as BackendServiceApi;
+
+      const items = await fetchAllBackendItems(backendApi);
+
+      expect(items).toEqual(createDataset(0, 5));
+      expect(processMock).toHaveBeenCalledTimes(3);
+      expect(processMock).toHaveBeenNthCalledWith(1, 'query-1', { variables: { locale: 'en' } });
+      expect(backendServiceMock.updatePagination).toHaveBeenNthCalledWith(1, 1, 2);
+      expect(backendServiceMock.updatePagination).toHaveBeenNthCalledWith(3, 3, 2);
+      expect(backendServiceMock.postProcess).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenNthCalledWith(1, 2, 5);
+      expect(onProgress).toHaveBeenLastCalledWith(5, 5);
+      expect(backendServiceMock.updatePagination).toHaveBeenLastCalledWith(3, 20);
+      expect(backendServiceMock.updateOptions).toHaveBeenCalledWith({ paginationOptions: { first: 20, offset: 40 } });
+    });
+
+    it('should stop fetching when a chunk is smaller than the chunk size when the total item count is unknown', async () => {
+      const processMock = vi.fn((query: string) => Promise.resolve({ items: query === 'query-1' ? createDataset(0, 2) : createDataset(2, 1) }));
+      const backendApi = { service: backendServiceMock, process: processMock, exportOptions: { chunkSize: 2 } } as BackendServiceApi;
+
+      const items = await fetchAllBackendItems(backendApi);
+
+      expect(items).toEqual(createDataset(0, 3));
+      expect(processMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop fetching and truncate the items when reaching the "maxItems" option', async () => {
+      const processMock = vi.fn(() => Promise.resolve({ items: createDataset(0, 2), total: 100 }));
+      const backendApi = { service: backendServiceMock, process: processMock, exportOptions: { chunkSize: 2, maxItems: 3 } } as BackendServiceApi;
+
+      const items = await fetchAllBackendItems(backendApi);
+
+      expect(items.length).toBe(3);
+      expect(processMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch every chunk with the "after" cursor until the page info has no next page when using a cursor', async () => {
+      const processMock = vi
+        .fn()
+        .mockReturnValueOnce(Promise.resolve({ items: createDataset(0, 2), total: 3, pageInfo: { hasNextPage: true, endCursor: 'abc' } }))
+        .mockReturnValueOnce(Promise.resolve({ items: createDataset(2, 1), total: 3, pageInfo: { hasNextPage: false, endCursor: 'def' } }));
+      const backendApi = {
+        service: backendServiceMock,
+        process: processMock,
+        options: { useCursor: true },
+        exportOptions: { chunkSize: 2 },
+      } as BackendServiceApi;
+
+      const items = await fetchAllBackendItems(backendApi);
+
+      expect(items).toEqual(createDataset(0, 3));
+      expect(backendServiceMock.updatePagination).toHaveBeenNthCalledWith(1, 1, 2, { newPage: 1, pageSize: 2, first: 2 });
+      expect(backendServiceMock.updatePagination).toHaveBeenNthCalledWith(2, 2, 2, { newPage: 2, pageSize: 2, first: 2, after: 'abc' });
+    });
+
+    it('should support a process returning an Observable', async () => {
+      const backendApi = {
+        service: backendServiceMock,
+        process: vi.fn(() => of({ items: createDataset(0, 2), total: 2 })),
+        exportOptions: { chunkSize: 5 },
+      } as unknown as BackendServiceApi;
+
+      const items = await fetchAllBackendItems(backendApi);
+
+      expect(items).toEqual(createDataset(0, 2));
+    });
+
+    it('should restore the pagination even when the process fails', async () => {
+      const backendApi = {
+        service: backendServiceMock,
+        process: vi.fn(() => Promise.reject(new Error('Server Error'))),
+      } as BackendServiceApi;
+
+      await expect(fetchAllBackendItems(backendApi)).rejects.toThrow('Server Error');
+      expect(backendServiceMock.updatePagination).toHaveBeenLastCalledWith(3, 20);
+      expect(backendServiceMock.updateOptions).toHaveBeenCalledWith({ paginationOptions: { first: 20, offset: 40 } });
+    });
+  });
+
+  describe('executeBackendServerExport method', () => {
+    const columns = [{ id: 'name', field: 'name' }] as Column[];
+
+    it('should throw when the "serverExport" callback is not defined', async () => {
+      const backendApi = { service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'server' } } as BackendServiceApi;
+      await expect(executeBackendServerExport(backendApi, { columns, filename: 'export', format: 'csv' })).rejects.toThrow(
+        'the "server" export mode requires a "serverExport" callback'
+      );
+    });
+
+    it('should execute the "serverExport" callback with the query of all the items and then restore the pagination', async () => {
+      const serverExport = vi.fn();
+      const processMock = vi.fn();
+      const backendApi = { service: backendServiceMock, process: processMock, exportOptions: { mode: 'server', serverExport } } as BackendServiceApi;
+
+      await executeBackendServerExport(backendApi, { columns, filename: 'export', format: 'xlsx' }, 250);
+
+      expect(backendServiceMock.updatePagination).toHaveBeenNthCalledWith(1, 1, 250);
+      expect(serverExport).toHaveBeenCalledWith('query-1', { columns, filename: 'export', format: 'xlsx', variables: { locale: 'en' } });
+      expect(processMock).not.toHaveBeenCalled();
+      expect(backendServiceMock.updatePagination).toHaveBeenLastCalledWith(3, 20);
+    });
+
+    it('should execute the "serverExport" callback with the current query when the total item count is unknown', async () => {
+      const serverExport = vi.fn();
+      const backendApi = { service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'server', serverExport } } as BackendServiceApi;
+
+      await executeBackendServerExport(backendApi, { columns, filename: 'export', format: 'pdf' });
+
+      expect(backendServiceMock.updatePagination).toHaveBeenCalledTimes(1); // only the pagination restore
+      expect(serverExport).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ format: 'pdf', variables: { locale: 'en' } }));
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { of } from 'rxjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RxJsResourceStub } from '../../../../../test/rxjsResourceStub.js';
+import { Aggregators } from '../../aggregators/index.js';
+import { SlickDataView, type SlickGrid, type SlickGroup } from '../../core/index.js';
+import type { BackendService, Column, GridOption } from '../../interfaces/index.js';
+import { BackendGroupingService } from '../backendGrouping.service.js';
+import type { BackendUtilityService } from '../backendUtility.service.js';
+
+const backendServiceMock = {
+  buildGroupChildrenQuery: vi.fn(),
+  buildQuery: vi.fn(),
+  getDatasetFromProcessResult: (result: any) => ({ dataset: result.items ?? [], totalItems: result.total, pageInfo: result.pageInfo }),
+  getGroupsFromProcessResult: (result: any) => ({ groups: result.groups ?? [], totalItems: result.total, pageInfo: result.pageInfo }),
+  options: { serverSideGrouping: true },
+  postProcess: vi.fn(),
+  updateGrouping: vi.fn(),
+} as unknown as BackendService;
+
+let gridOptionsMock: GridOption;
+let mockColumns: Column[];
+
+const gridStub = {
+  getColumns: () => mockColumns,
+  getOptions: () => gridOptionsMock,
+  invalidate: vi.fn(),
+} as unknown as SlickGrid;
+
+const backendUtilityServiceStub = {
+  onBackendError: vi.fn(),
+  refreshBackendDataset: vi.fn(),
+} as unknown as BackendUtilityService;
+
+const pubSubServiceStub = {
+  publish: vi.fn(),
+  subscribe: vi.fn(),
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+} as BasePubSubService;
+
+const genderGroups = [
+  { value: 'female', count: 2, totals: { sum: { cost: 30 } } },
+  { value: 'male', count: 1, totals: { sum: { cost: 5 } } },
+];
+
+describe('BackendGroupingService', () => {
+  let dataView: SlickDataView;
+  let service: BackendGroupingService;
+
+  beforeEach(() => {
+    gridOptionsMock = {
+      backendServiceApi: {
+        service: backendServiceMock,
+        process: vi.fn(),
+      },
+    } as GridOption;
+    mockColumns = [
+      { id: 'gender', field: 'gender' },
+      { id: 'company', field: 'company' },
+      { id: 'cost', field: 'cost' },
+    ];
+    dataView = new SlickDataView({});
+    vi.spyOn(backendServiceMock, 'buildGroupChildrenQuery').mockImplementation(
+      (groupValues, afterCursor) => `children-of-${groupValues.join('/')}${afterCursor ? `-after-${afterCursor}` : ''}`
+    );
+    service = new BackendGroupingService(backendUtilityServiceStub, pubSubServiceStub);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    vi.clearAllMocks();
+  });
+
+  it('should create the service, take over the "internalPostProcess" of the Backend Service API and send the grouping presets to the Backend Service', () => {
+    const sumAggregator = new Aggregators.Sum('cost');
+    dataView.setGrouping({ getter: 'gender', aggregators: [sumAggregator], collapsed: true });
+    service.init(gridStub, dataView);
+
+    expect(service).toBeTruthy();
+    expect(service.eventHandler).toBeTruthy();
+    expect(gridOptionsMock.backendServiceApi!.internalPostProcess).toEqual(expect.any(Function));
+    expect(backendServiceMock.updateGrouping).toHaveBeenCalledWith([{ columnDef: mockColumns[0], aggregators: [sumAggregator], sortAsc: true }]);
+  });
+
+  it('should find the grouped column by its "grouping.getter" function or throw when it is not found', () => {
+    const getterFn = (item: any) => item.company;
+    mockColumns[1].grouping = { getter: getterFn };
+    dataView.setGrouping({ getter: getterFn, sortAsc: false });
+    service.init(gridStub, dataView);
+
+    service.refreshGrouping();
+
+    expect(backendServiceMock.updateGrouping).toHaveBeenLastCalledWith([{ columnDef: mockColumns[1], aggregators: [], sortAsc: false }]);
+    expect(backendUtilityServiceStub.refreshBackendDataset).toHaveBeenCalledWith(gridOptionsMock);
+
+    const otherDataView = new SlickDataView({});
+    otherDataView.setGrouping({ getter: (item: any) => item.other });
+    expect(() => new BackendGroupingService(backendUtilityServiceStub, pubSubServiceStub).init(gridStub, otherDataView)).toThrow(
+      'Server-side grouping requires every grouping "getter" to be a field name'
+    );
+  });
+
+  it('should refresh the backend dataset only once when the DataView grouping is changed a few times in a row', () => {
+    vi.useFakeTimers();
+    service.init(gridStub, dataView);
+
+    dataView.setGrouping({ getter: 'gender' });
+    dataView.setGrouping([{ getter: 'gender' }, { getter: 'company' }]);
+    vi.runAllTimers();
+
+    expect(backendUtilityServiceStub.refreshBackendDataset).toHaveBeenCalledTimes(1);
+    expect(backendServiceMock.updateGrouping).toHaveBeenLastCalledWith([
+      { columnDef: mockColumns[0], aggregators: [], sortAsc: true },
+      { columnDef: mockColumns[1], aggregators: [], sortAsc: true },
+    ]);
+    vi.useRealTimers();
+  });
+
+  it('should display the server-side groups with their title, count and totals when resetting the groups', () => {
+    dataView.setGrouping({
+      getter: 'gender',
+      formatter: (g) => `Gender: ${g.value} (${g.count} items)`,
+      aggregators: [new Aggregators.Sum('cost')],
+      collapsed: true,
+      aggregateCollapsed: true,
+    });
+    service.init(gridStub, dataView);
+
+    gridOptionsMock.backendServiceApi!.internalPostProcess!({ groups: genderGroups, total: 2 });
+
+    expect(service.groups.length).toBe(2);
+    expect(dataView.getLength()).toBe(4);
+    expect(dataView.getItem(0)).toEqual(
+      expect.objectContaining({ __group: true, level: 0, value: 'female', count: 2, groupingKey: 'female', title: 'Gender: female (2 items)' })
+    );
+    expect(dataView.getItem(1)).toEqual(expect.objectContaining({ __groupTotals: true, initialized: true, sum: { cost: 30 } }));
+    expect(dataView.getItem(2)).toEqual(expect.objectContaining({ __group: true, value: 'male', count: 1 }));
+    expect(gridOptionsMock.backendServiceApi!.process).not.toHaveBeenCalled();
+    expect(gridStub.invalidate).toHaveBeenCalled();
+  });
+
+  it('should set the items when there is no grouping', () => {
+    service.init(gridStub, dataView);
+
+    service.resetGroups({ items: [{ id: 0, gender: 'male' }], total: 1 });
+
+    expect(service.groups).toEqual([]);
+    expect(dataView.getItems()).toEqual([{ id: 0, gender: 'male' }]);
+    expect(dataView.getLength()).toBe(1);
+  });
+
+  it('should fetch and display the items of a group of the last grouping level when it gets expanded', async () => {
+    dataView.setGrouping({ getter: 'gender', collapsed: true });
+    service.init(gridStub, dataView);
+    const processSpy = vi.spyOn(gridOptionsMock.backendServiceApi!, 'process').mockResolvedValue({ items: [{ id: 0, gender: 'male', cost: 5 }] });
+    service.resetGroups({ groups: genderGroups });
+
+    dataView.expandGroup('male');
+
+    expect(processSpy).toHaveBeenCalledWith('children-of-male', { signal: expect.any(AbortSignal) });
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onGroupChildrenLoading', { group: service.groups[1], isLoadingMore: false });
+    await vi.waitFor(() => expect(service.isGroupLoaded(service.groups[1])).toBe(true));
+    expect(backendServiceMock.postProcess).toHaveBeenCalled();
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onGroupChildrenLoaded', { group: service.groups[1], hasMore: false });
+    expect(dataView.getLength()).toBe(3);
+    expect(dataView.getItem(2)).toEqual({ id: 0, gender: 'male', cost: 5 });
+    expect(dataView.getItemById(0)).toEqual({ id: 0, gender: 'male', cost: 5 });
+
+    // collapsing and expanding it again should not fetch it again
+    dataView.collapseGroup('male');
+    dataView.expandGroup('male');
+    expect(processSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch the sub-groups of an expanded group and then the items of its expanded sub-groups', async () => {
+    dataView.setGrouping([{ getter: 'gender' }, { getter: 'company' }]);
+    service.init(gridStub, dataView);
+    const processSpy = vi
+      .spyOn(gridOptionsMock.backendServiceApi!, 'process')
+      .mockResolvedValueOnce({ groups: [{ value: 'Acme', count: 1 }] })
+      .mockResolvedValueOnce({ items: [{ id: 0, gender: 'male', company: 'Acme' }] });
+
+    service.resetGroups({ groups: [genderGroups[1]] });
+
+    expect(processSpy).toHaveBeenCalledWith('children-of-male', expect.anything());
+    await vi.waitFor(() => expect(processSpy).toHaveBeenCalledTimes(2));
+    expect(processSpy).toHaveBeenLastCalledWith('children-of-male/Acme', expect.anything());
+    const subGroup = service.groups[0].groups[0] as SlickGroup;
+    expect(subGroup).toEqual(expect.objectContaining({ level: 1, value: 'Acme', groupingKey: 'male:|:Acme' }));
+
+    await vi.waitFor(() => expect(service.isGroupLoaded(subGroup)).toBe(true));
+    expect(dataView.getLength()).toBe(3);
+    expect(dataView.getItem(2)).toEqual({ id: 0, gender: 'male', company: 'Acme' });
+  });
+
+  it('should load the next page of a group items when its children are paginated by a cursor and append them to the group', async () => {
+    dataView.setGrouping({ getter: 'gender' });
+    service.init(gridStub, dataView);
+    const processSpy = vi
+      .spyOn(gridOptionsMock.backendServiceApi!, 'process')
+      .mockResolvedValueOnce({ items: [{ id: 0, gender: 'male' }], pageInfo: { hasNextPage: true, endCursor: 'abc' } })
+      .mockResolvedValueOnce({ items: [{ id: 1, gender: 'male' }], pageInfo: { hasNextPage: false, endCursor: 'def' } });
+    service.resetGroups({ groups: [genderGroups[1]] });
+    const group = service.groups[0];
+
+    await vi.waitFor(() => expect(service.isGroupLoaded(group)).toBe(true));
+    expect(service.hasMoreGroupChildren(group)).toBe(true);
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onGroupChildrenLoaded', { group, hasMore: true });
+
+    service.loadMoreGroupChildren(group);
+    service.loadMoreGroupChildren(group); // should be ignored while the next page is being fetched
+
+    expect(processSpy).toHaveBeenCalledTimes(2);
+    expect(processSpy).toHaveBeenLastCalledWith('children-of-male-after-abc', expect.anything());
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onGroupChildrenLoading', { group, isLoadingMore: true });
+    await vi.waitFor(() => expect(service.hasMoreGroupChildren(group)).toBe(false));
+    expect(group.rows).toEqual([
+      { id: 0, gender: 'male' },
+      { id: 1, gender: 'male' },
+    ]);
+    expect(dataView.getLength()).toBe(3);
+    expect(dataView.getItem(2)).toEqual({ id: 1, gender: 'male' });
+
+    // no more children to load
+    service.loadMoreGroupChildren(group);
+    expect(processSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should load the next page of a group sub-groups when its children are paginated by a cursor', async () => {
+    dataView.setGrouping([{ getter: 'gender' }, { getter: 'company', collapsed: true }]);
+    service.init(gridStub, dataView);
+    vi.spyOn(gridOptionsMock.backendServiceApi!, 'process')
+      .mockResolvedValueOnce({ groups: [{ value: 'Acme', count: 1 }], pageInfo: { hasNextPage: true, endCursor: 'abc' } })
+      .mockResolvedValueOnce({ groups: [{ value: 'Globex', count: 2 }], pageInfo: { hasNextPage: false, endCursor: 'def' } });
+    service.resetGroups({ groups: [genderGroups[1]] });
+    const group = service.groups[0];
+    await vi.waitFor(() => expect(service.hasMoreGroupChildren(group)).toBe(true));
+
+    service.loadMoreGroupChildren(group);
+
+    await vi.waitFor(() => expect(group.groups.length).toBe(2));
+    expect(group.groups[1]).toEqual(expect.objectContaining({ level: 1, value: 'Globex', groupingKey: 'male:|:Globex' }));
+    expect(dataView.getLength()).toBe(3);
+  });
+
+  it('should fetch the group children from an Observable process when using RxJS', () => {
+    dataView.setGrouping({ getter: 'gender' });
+    service.addRxJsResource(new RxJsResourceStub());
+    service.init(gridStub, dataView);
+    vi.spyOn(gridOptionsMock.backendServiceApi!, 'process').mockReturnValue(of({ items: [{ id: 0, gender: 'male' }] }) as any);
+
+    service.resetGroups({ groups: [genderGroups[1]] });
+
+    expect(service.isGroupLoaded(service.groups[0])).toBe(true);
+    expect(dataView.getItem(1)).toEqual({ id: 0, gender: 'male' });
+  });
+
+  it('should ignore a stale group children result and abort its request when the groups are reset before receiving it', async () => {
+    dataView.setGrouping({ getter: 'gender' });
+    service.init(gridStub, dataView);
+    let resolveProcess: (value: any) => void = () => {};
+    const processSpy = vi
+      .spyOn(gridOptionsMock.backendServiceApi!, 'process')
+      .mockReturnValueOnce(new Promise((resolve) => (resolveProcess = resolve)))
+      .mockReturnValue(new Promise(() => {}));
+    service.resetGroups({ groups: [genderGroups[1]] });
+    const signal = processSpy.mock.calls[0][1]!.signal!;
+
+    service.resetGroups({ groups: [genderGroups[0]] });
+    resolveProcess({ items: [{ id: 0, gender: 'male' }] });
+    await Promise.resolve();
+
+    expect(signal.aborted).toBe(true);
+    expect(dataView.getItems()).toEqual([]);
+    expect(service.groups[0].value).toBe('female');
+  });
+
+  it('should call the backend error handler when fetching the group children fails, but not when the request was aborted', async () => {
+    dataView.setGrouping({ getter: 'gender' });
+    service.init(gridStub, dataView);
+    const error = new Error('Server error');
+    const abortError = new DOMException('Aborted', 'AbortError');
+    vi.spyOn(gridOptionsMock.backendServiceApi!, 'process').mockRejectedValueOnce(abortError).mockRejectedValueOnce(error);
+
+    service.resetGroups({ groups: genderGroups });
+
+    await vi.waitFor(() => expect(backendUtilityServiceStub.onBackendError).toHaveBeenCalledWith(error, gridOptionsMock.backendServiceApi));
+    expect(backendUtilityServiceStub.onBackendError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw when the Backend Service does not implement the server-side grouping methods', () => {
+    dataView.setGrouping({ getter: 'gender' });
+    gridOptionsMock.backendServiceApi!.service = { ...backendServiceMock, getGroupsFromProcessResult: undefined } as unknown as BackendService;
+    service.init(gridStub, dataView);
+
+    expect(() => service.resetGroups({ groups: genderGroups })).toThrow('requires a Backend Service implementing the "getGroupsFromProcessResult" method');
+
+    gridOptionsMock.backendServiceApi!.service = { ...backendServiceMock, buildGroupChildrenQuery: undefined } as unknown as BackendService;
+    expect(() => service.resetGroups({ groups: genderGroups })).toThrow('requires a Backend Service implementing the "buildGroupChildrenQuery" method');
+  });
+});
@@ -0,0 +1,196 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { of } from 'rxjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RxJsResourceStub } from '../../../../../test/rxjsResourceStub.js';
+import { SlickDataView, SlickEvent, SlickEventData, type SlickGrid } from '../../core/index.js';
+import type { BackendService, GridOption } from '../../interfaces/index.js';
+import type { BackendUtilityService } from '../backendUtility.service.js';
+import { BackendViewportService } from '../backendViewport.service.js';
+
+const createDataset = (from: number, count: number) => Array.from({ length: count }, (_, idx) => ({ id: from + idx, name: `Item ${from + idx}` }));
+
+const backendServiceMock = {
+  buildQuery: vi.fn(),
+  getDatasetFromProcessResult: (result: any) => ({ dataset: result.items, totalItems: result.total }),
+  options: { infiniteScroll: { fetchSize: 10, mode: 'viewport', maxCachedBlocks: 2 } },
+  postProcess: vi.fn(),
+  updatePagination: vi.fn(),
+} as unknown as BackendService;
+
+let gridOptionsMock: GridOption;
+
+const gridStub = {
+  getOptions: () => gridOptionsMock,
+  getViewport: vi.fn(),
+  invalidate: vi.fn(),
+  scrollTo: vi.fn(),
+  onBeforeEditCell: new SlickEvent(),
+  onViewportChanged: new SlickEvent(),
+} as unknown as SlickGrid;
+
+const backendUtilityServiceStub = {
+  onBackendError: vi.fn(),
+} as unknown as BackendUtilityService;
+
+const pubSubServiceStub = {
+  publish: vi.fn(),
+  subscribe: vi.fn(),
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+} as BasePubSubService;
+
+describe('BackendViewportService', () => {
+  let dataView: SlickDataView;
+  let service: BackendViewportService;
+
+  beforeEach(() => {
+    gridOptionsMock = {
+      backendServiceApi: {
+        service: backendServiceMock,
+        process: vi.fn(),
+      },
+    } as GridOption;
+    dataView = new SlickDataView({});
+    vi.spyOn(gridStub, 'getViewport').mockReturnValue({ top: 0, bottom: 5, leftPx: 0, rightPx: 0 });
+    vi.spyOn(backendServiceMock, 'buildQuery').mockImplementation(() => `query-${vi.mocked(backendServiceMock.updatePagination!).mock.lastCall?.[0]}`);
+    service = new BackendViewportService(backendUtilityServiceStub, pubSubServiceStub);
+    service.init(gridStub, dataView);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    vi.clearAllMocks();
+  });
+
+  it('should create the service and take over the "internalPostProcess" of the Backend Service API', () => {
+    expect(service).toBeTruthy();
+    expect(service.eventHandler).toBeTruthy();
+    expect(service.infiniteScrollOptions).toEqual({ fetchSize: 10, mode: 'viewport', maxCachedBlocks: 2, viewportFetchDelay: 100 });
+    expect(gridOptionsMock.backendServiceApi!.internalPostProcess).toEqual(expect.any(Function));
+  });
+
+  it('should fill the DataView with placeholder rows for the total row count when resetting the dataset with the 1st page result', () => {
+    gridOptionsMock.backendServiceApi!.internalPostProcess!({ items: createDataset(0, 10), total: 95 });
+
+    expect(service.totalItems).toBe(95);
+    expect(dataView.getLength()).toBe(95);
+    expect(dataView.getItem(0)).toEqual({ id: 0, name: 'Item 0' });
+    expect(dataView.getItem(10)).toEqual({ id: '__placeholder_10', __placeholder: true });
+    expect(service.isPlaceholderItem(dataView.getItem(10))).toBe(true);
+    expect(service.isBlockLoaded(0)).toBe(true);
+    expect(dataView.getItemMetadata(10)).toEqual({ cssClasses: 'slick-placeholder-row' });
+    expect(dataView.getItemMetadata(0)).toEqual({ cssClasses: '' });
+    expect(gridStub.scrollTo).toHaveBeenCalledWith(0);
+  });
+
+  it('should throw when the Backend Service does not implement "getDatasetFromProcessResult"', () => {
+    const backendService = { ...backendServiceMock, getDatasetFromProcessResult: undefined } as unknown as BackendService;
+    gridOptionsMock.backendServiceApi!.service = backendService;
+
+    expect(() => service.resetDataset({ items: [] })).toThrow('requires a Backend Service implementing the "getDatasetFromProcessResult" method');
+  });
+
+  it('should prevent editing a placeholder row', () => {
+    service.resetDataset({ items: createDataset(0, 10), total: 20 });
+
+    const placeholderEdit = gridStub.onBeforeEditCell.notify({ item: dataView.getItem(15) } as any, new SlickEventData());
+    const itemEdit = gridStub.onBeforeEditCell.notify({ item: dataView.getItem(5) } as any, new SlickEventData());
+
+    expect(placeholderEdit.getReturnValue()).toBe(false);
+    expect(itemEdit.getReturnValue()).toBe(true);
+  });
+
+  it('should fetch the missing blocks of the viewport with their page query and replace the placeholder rows', async () => {
+    const processSpy = vi.spyOn(gridOptionsMock.backendServiceApi!, 'process').mockResolvedValue({ items: createDataset(30, 10), total: 95 });
+    service.resetDataset({ items: createDataset(0, 10), total: 95 });
+
+    service.ensureData(32, 38);
+    service.ensureData(32, 38); // calling it twice should only fetch once
+
+    expect(backendServiceMock.updatePagination).toHaveBeenNthCalledWith(1, 4, 10);
+    expect(backendServiceMock.updatePagination).toHaveBeenNthCalledWith(2, 1, 10);
+    expect(processSpy).toHaveBeenCalledTimes(1);
+    expect(processSpy).toHaveBeenCalledWith('query-4', { signal: expect.any(AbortSignal) });
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onViewportDataLoading', { from: 30, to: 39 });
+
+    await vi.waitFor(() => expect(service.isBlockLoaded(3)).toBe(true));
+    expect(dataView.getItem(30)).toEqual({ id: 30, name: 'Item 30' });
+    expect(dataView.getItem(40)).toEqual({ id: '__placeholder_40', __placeholder: true });
+    expect(backendServiceMock.postProcess).toHaveBeenCalled();
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onViewportDataLoaded', { from: 30, to: 39 });
+  });
+
+  it('should fetch the blocks from an Observable process when using RxJS', () => {
+    service.addRxJsResource(new RxJsResourceStub());
+    vi.spyOn(gridOptionsMock.backendServiceApi!, 'process').mockReturnValue(of({ items: createDataset(90, 5), total: 95 }) as any);
+    service.resetDataset({ items: createDataset(0, 10), total: 95 });
+
+    service.ensureData(90, 200);
+
+    expect(service.isBlockLoaded(9)).toBe(true);
+    expect(dataView.getItem(94)).toEqual({ id: 94, name: 'Item 94' });
+  });
+
+  it('should evict the least recently viewed block and revert its rows to placeholders when exceeding "maxCachedBlocks"', async () => {
+    const processSpy = vi.spyOn(gridOptionsMock.backendServiceApi!, 'process');
+    service.resetDataset({ items: createDataset(0, 10), total: 95 });
+
+    processSpy.mockResolvedValueOnce({ items: createDataset(10, 10), total: 95 });
+    service.ensureData(10, 12);
+    await vi.waitFor(() => expect(service.isBlockLoaded(1)).toBe(true));
+
+    service.ensureData(0, 2); // view block 0 again, block 1 is now the least recently viewed
+    processSpy.mockResolvedValueOnce({ items: createDataset(20, 10), total: 95 });
+    service.ensureData(20, 22);
+    await vi.waitFor(() => expect(service.isBlockLoaded(2)).toBe(true));
+
+    expect(service.isBlockLoaded(0)).toBe(true);
+    expect(service.isBlockLoaded(1)).toBe(false);
+    expect(dataView.getItem(10)).toEqual({ id: '__placeholder_10', __placeholder: true });
+    expect(dataView.getItem(20)).toEqual({ id: 20, name: 'Item 20' });
+  });
+
+  it('should ignore a stale block result when the dataset was reset (filtered or sorted) before receiving it', async () => {
+    let resolveProcess: (value: any) => void = () => {};
+    vi.spyOn(gridOptionsMock.backendServiceApi!, 'process').mockReturnValueOnce(new Promise((resolve) => (resolveProcess = resolve)));
+    service.resetDataset({ items: createDataset(0, 10), total: 95 });
+    service.ensureData(50, 52);
+
+    service.resetDataset({ items: createDataset(100, 10), total: 60 });
+    resolveProcess({ items: createDataset(50, 10), total: 95 });
+    await Promise.resolve();
+
+    expect(service.isBlockLoaded(5)).toBe(false);
+    expect(dataView.getLength()).toBe(60);
+    expect(dataView.getItem(50)).toEqual({ id: '__placeholder_50', __placeholder: true });
+  });
+
+  it('should call the backend error handler when fetching a block fails and retry it on next call', async () => {
+    const error = new Error('Server error');
+    const processSpy = vi.spyOn(gridOptionsMock.backendServiceApi!, 'process').mockRejectedValueOnce(error);
+    service.resetDataset({ items: createDataset(0, 10), total: 95 });
+
+    service.ensureData(20, 22);
+    await vi.waitFor(() => expect(backendUtilityServiceStub.onBackendError).toHaveBeenCalledWith(error, gridOptionsMock.backendServiceApi));
+
+    processSpy.mockResolvedValueOnce({ items: createDataset(20, 10), total: 95 });
+    service.ensureData(20, 22);
+    expect(processSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fetch the blocks visible in the viewport after the viewport stopped changing', () => {
+    vi.useFakeTimers();
+    const processSpy = vi.spyOn(gridOptionsMock.backendServiceApi!, 'process').mockResolvedValue({ items: [], total: 95 });
+    service.resetDataset({ items: createDataset(0, 10), total: 95 });
+    vi.spyOn(gridStub, 'getViewport').mockReturnValue({ top: 60, bottom: 75, leftPx: 0, rightPx: 0 });
+
+    gridStub.onViewportChanged.notify({ grid: gridStub });
+    gridStub.onViewportChanged.notify({ grid: gridStub });
+    vi.advanceTimersByTime(100);
+
+    expect(processSpy).toHaveBeenCalledTimes(2);
+    expect(processSpy).toHaveBeenCalledWith('query-7', expect.anything());
+    expect(processSpy).toHaveBeenCalledWith('query-8', expect.anything());
+    vi.useRealTimers();
+  });
+});
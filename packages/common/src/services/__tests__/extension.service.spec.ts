@@ -5,16 +5,21 @@ import { SlickEvent, type SlickGrid } from '../../core/index.js';
 import { ExtensionName } from '../../enums/index.js';
 import {
   ExtensionUtility,
+  SlickAriaAnnouncer,
   SlickAutoTooltip,
   SlickCellExcelCopyManager,
   SlickCellMenu,
+  SlickChangeIndicator,
   SlickColumnPicker,
+  SlickConditionalFormatting,
   SlickContextMenu,
   SlickDraggableGrouping,
+  SlickFillHandle,
   SlickGridMenu,
   SlickHeaderButtons,
   SlickHeaderMenu,
   SlickHybridSelectionModel,
+  SlickPivot,
   SlickRowBasedEdit,
   type SlickCheckboxSelectColumn,
   type SlickRowMoveManager,
@@ -24,7 +29,12 @@ import { ExtensionService, SharedService, type FilterService, type GridService,
 
 const GRID_UID = 'slickgrid_12345';
 
+vi.mock('../../extensions/slickAriaAnnouncer');
+vi.mock('../../extensions/slickChangeIndicator');
+vi.mock('../../extensions/slickConditionalFormatting');
 vi.mock('../../extensions/slickDraggableGrouping');
+vi.mock('../../extensions/slickFillHandle');
+vi.mock('../../extensions/slickPivot');
 vi.mock('../../extensions/slickRowBasedEdit');
 
 const mockHybridSelectionModel = {
@@ -647,6 +657,98 @@ describe('ExtensionService', () => {
         expect(output).toEqual({ name: 'headerMenu', instance: pluginInstance } as ExtensionModel<any>);
       });
 
+      it('should register the Aria Announcer addon when "enableAriaAnnouncer" is set in the grid options', () => {
+        const onRegisteredMock = vi.fn();
+        const gridOptionsMock = {
+          enableAriaAnnouncer: true,
+          ariaAnnouncer: { announceScroll: false, onExtensionRegistered: onRegisteredMock },
+        } as GridOption;
+        const gridSpy = vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+
+        service.bindDifferentExtensions();
+        const output = service.getExtensionByName('ariaAnnouncer');
+        const pluginInstance = service.getExtensionInstanceByName('ariaAnnouncer');
+
+        expect(onRegisteredMock).toHaveBeenCalledWith(expect.any(Object));
+        expect(output!.instance instanceof SlickAriaAnnouncer).toBe(true);
+        expect(pluginInstance.init).toHaveBeenCalledWith(gridStub, gridOptionsMock.ariaAnnouncer);
+        expect(gridSpy).toHaveBeenCalled();
+        expect(output).toEqual({ name: 'ariaAnnouncer', instance: pluginInstance } as ExtensionModel<any>);
+      });
+
+      it('should register the Change Indicator addon when "enableChangeIndicator" is set in the grid options', () => {
+        const onRegisteredMock = vi.fn();
+        const gridOptionsMock = {
+          enableChangeIndicator: true,
+          changeIndicator: { duration: 500, onExtensionRegistered: onRegisteredMock },
+        } as GridOption;
+        const gridSpy = vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+
+        service.bindDifferentExtensions();
+        const output = service.getExtensionByName('changeIndicator');
+        const pluginInstance = service.getExtensionInstanceByName('changeIndicator');
+
+        expect(onRegisteredMock).toHaveBeenCalledWith(expect.any(Object));
+        expect(output!.instance instanceof SlickChangeIndicator).toBe(true);
+        expect(pluginInstance.init).toHaveBeenCalledWith(gridStub, gridOptionsMock.changeIndicator);
+        expect(gridSpy).toHaveBeenCalled();
+        expect(output).toEqual({ name: 'changeIndicator', instance: pluginInstance } as ExtensionModel<any>);
+      });
+
+      it('should register the Conditional Formatting addon when "enableConditionalFormatting" is set in the grid options', () => {
+        const onRegisteredMock = vi.fn();
+        const gridOptionsMock = {
+          enableConditionalFormatting: true,
+          conditionalFormatting: { onExtensionRegistered: onRegisteredMock },
+        } as GridOption;
+        const gridSpy = vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+
+        service.bindDifferentExtensions();
+        const output = service.getExtensionByName('conditionalFormatting');
+        const pluginInstance = service.getExtensionInstanceByName('conditionalFormatting');
+
+        expect(onRegisteredMock).toHaveBeenCalledWith(expect.any(Object));
+        expect(output!.instance instanceof SlickConditionalFormatting).toBe(true);
+        expect(pluginInstance.init).toHaveBeenCalledWith(gridStub, gridOptionsMock.conditionalFormatting);
+        expect(gridSpy).toHaveBeenCalled();
+        expect(output).toEqual({ name: 'conditionalFormatting', instance: pluginInstance } as ExtensionModel<any>);
+      });
+
+      it('should register the Fill Handle addon and a cell selection model when "enableFillHandle" is set in the grid options', () => {
+        const onRegisteredMock = vi.fn();
+        const gridOptionsMock = { enableFillHandle: true, fillHandleOptions: { onExtensionRegistered: onRegisteredMock } } as GridOption;
+        const gridSpy = vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+
+        service.bindDifferentExtensions();
+        const selectionInstance = service.getExtensionByName('hybridSelection');
+        const output = service.getExtensionByName('fillHandle');
+        const pluginInstance = service.getExtensionInstanceByName('fillHandle');
+
+        expect(onRegisteredMock).toHaveBeenCalledWith(expect.any(Object));
+        expect(selectionInstance).not.toBeNull();
+        expect(SlickHybridSelectionModel).toHaveBeenCalledWith({ selectionType: 'cell' });
+        expect(output!.instance instanceof SlickFillHandle).toBe(true);
+        expect(pluginInstance.init).toHaveBeenCalledWith(gridStub, gridOptionsMock.fillHandleOptions);
+        expect(gridSpy).toHaveBeenCalled();
+        expect(output).toEqual({ name: 'fillHandle', instance: pluginInstance } as ExtensionModel<any>);
+      });
+
+      it('should register the Pivot addon when "enablePivot" is set in the grid options', () => {
+        const onRegisteredMock = vi.fn();
+        const gridOptionsMock = { enablePivot: true, pivot: { onExtensionRegistered: onRegisteredMock } } as GridOption;
+        const gridSpy = vi.spyOn(SharedService.prototype, 'gridOptions', 'get').mockReturnValue(gridOptionsMock);
+
+        service.bindDifferentExtensions();
+        const output = service.getExtensionByName('pivot');
+        const pluginInstance = service.getExtensionInstanceByName('pivot');
+
+        expect(onRegisteredMock).toHaveBeenCalledWith(expect.any(Object));
+        expect(output!.instance instanceof SlickPivot).toBe(true);
+        expect(pluginInstance.init).toHaveBeenCalledWith(gridStub, gridOptionsMock.pivot);
+        expect(gridSpy).toHaveBeenCalled();
+        expect(output).toEqual({ name: 'pivot', instance: pluginInstance } as ExtensionModel<any>);
+      });
+
       it('should register the ExcelCopyBuffer addon when "enableExcelCopyBuffer" is set in the grid options', () => {
         const onRegisteredMock = vi.fn();
         const gridOptionsMock = { enableExcelCopyBuffer: true, excelCopyBufferOptions: { onExtensionRegistered: onRegisteredMock } } as GridOption;
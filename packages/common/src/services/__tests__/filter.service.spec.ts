@@ -14,6 +14,7 @@ import type {
   Column,
   ColumnFilters,
   CurrentFilter,
+  FilterExpressionGroup,
   GridMenuItem,
   GridOption,
   MenuCommandItem,
@@ -93,6 +94,7 @@ const gridStub = {
   getData: () => dataViewStub,
   getHeaderRowColumn: vi.fn(),
   getSortColumns: vi.fn(),
+  getVisibleColumns: vi.fn(),
   invalidate: vi.fn(),
   onLocalSortChanged: vi.fn(),
   onSort: new SlickEvent(),
@@ -143,6 +145,7 @@ describe('FilterService', () => {
 
   afterEach(() => {
     delete gridOptionMock.backendServiceApi;
+    delete gridOptionMock.enableColumnVirtualization;
     vi.clearAllMocks();
     service.dispose();
   });
@@ -359,6 +362,43 @@ describe('FilterService', () => {
       expect(pubSubSpy).toHaveBeenCalledWith(`onBeforeFilterChange`, [{ columnId: 'firstName', operator: 'EQ', searchTerms: [true] }]);
       expect(pubSubSpy).toHaveBeenCalledWith(`onFilterChanged`, [{ columnId: 'firstName', operator: 'EQ', searchTerms: [true] }]);
     });
+
+    it('should destroy the filter and remove it from its metadata but keep its column filter when its column is scrolled out of view with "enableColumnVirtualization"', () => {
+      gridOptionMock.enableColumnVirtualization = true;
+      const mockColumn = { id: 'firstName', field: 'firstName', filterable: true, filter: { model: Filters.input, searchTerms: ['John'] } } as Column;
+      const mockArgs = { grid: gridStub, column: mockColumn, node: document.getElementById(DOM_ELEMENT_ID) };
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue([mockColumn]);
+
+      service.init(gridStub);
+      service.bindLocalOnFilter(gridStub);
+      gridStub.onHeaderRowCellRendered.notify(mockArgs as any, new SlickEventData(), gridStub);
+      const destroySpy = vi.spyOn(service.getFiltersMetadata()[0], 'destroy');
+      gridStub.onBeforeHeaderRowCellDestroy.notify(mockArgs as any, new SlickEventData(), gridStub);
+
+      expect(destroySpy).toHaveBeenCalled();
+      expect(service.getFiltersMetadata().length).toBe(0);
+      expect(service.getColumnFilters()).toEqual({
+        firstName: { columnId: 'firstName', columnDef: mockColumn, searchTerms: ['John'], operator: undefined, parsedSearchTerms: ['John'], type: 'string' },
+      });
+    });
+
+    it('should populate the column filters of the columns with searchTerms even when their filter is not yet created with "enableColumnVirtualization"', () => {
+      gridOptionMock.enableColumnVirtualization = true;
+      const mockColumns = [
+        { id: 'firstName', field: 'firstName', filterable: true },
+        { id: 'lastName', field: 'lastName', filterable: true, filter: { model: Filters.input, operator: 'StartsWith', searchTerms: ['Do'] } },
+        { id: 'age', field: 'age', filter: { model: Filters.input, searchTerms: [20] } },
+      ] as Column[];
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+
+      service.init(gridStub);
+      service.bindLocalOnFilter(gridStub);
+
+      expect(service.getFiltersMetadata().length).toBe(0);
+      expect(service.getColumnFilters()).toEqual({
+        lastName: { columnId: 'lastName', columnDef: mockColumns[1], searchTerms: ['Do'], operator: 'StartsWith', parsedSearchTerms: ['Do'], type: 'string' },
+      });
+    });
   });
 
   // this is a private method test, but we can access it by triggering a Filter Search event or through the Filter metadata
@@ -674,7 +714,7 @@ describe('FilterService', () => {
         await new Promise(process.nextTick);
 
         expect(pubSubSpy).toHaveBeenCalledWith(`onFilterCleared`, true);
-        expect(spyOnError).toHaveBeenCalledWith(errorExpected);
+        expect(spyOnError).toHaveBeenCalledWith(errorExpected, expect.objectContaining({ type: 'unknown', attempts: 1 }));
         expect(updateFilterSpy).toHaveBeenCalledWith(previousFilters, false, false, false);
       });
 
@@ -695,7 +735,7 @@ describe('FilterService', () => {
 
         expect(pubSubSpy).toHaveBeenCalledWith(`onBeforeFilterClear`, true, 0);
         expect(pubSubSpy).toHaveBeenCalledWith(`onFilterCleared`, true);
-        expect(spyOnError).toHaveBeenCalledWith(errorExpected);
+        expect(spyOnError).toHaveBeenCalledWith(errorExpected, expect.objectContaining({ type: 'unknown', attempts: 1 }));
       });
     });
   });
@@ -1557,6 +1597,29 @@ describe('FilterService', () => {
       });
     });
 
+    it('should keep the state of the filters that are not yet created (column outside of the rendered range) when "enableColumnVirtualization" is enabled', async () => {
+      gridOptionMock.enableColumnVirtualization = true;
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue([mockColumn1, mockColumn2]);
+
+      service.init(gridStub);
+      service.bindLocalOnFilter(gridStub);
+      gridStub.onHeaderRowCellRendered.notify(mockArgs1 as any, new SlickEventData(), gridStub);
+      await service.updateFilters(mockNewFilters);
+
+      expect(service.getFiltersMetadata().length).toBe(1);
+      expect(service.getColumnFilters()).toEqual({
+        firstName: {
+          columnId: 'firstName',
+          columnDef: mockColumn1,
+          searchTerms: ['Jane'],
+          operator: 'StartsWith',
+          parsedSearchTerms: ['Jane'],
+          type: 'string',
+        },
+        isActive: { columnId: 'isActive', columnDef: mockColumn2, searchTerms: [false], operator: undefined, parsedSearchTerms: false, type: 'boolean' },
+      });
+    });
+
     it('should call "resetToPreviousSearchFilters" when "onBeforeSearchChange" event is prevented from bubbling and "resetFilterSearchValueAfterOnBeforeCancellation" is set to true', async () => {
       const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish').mockReturnValue(false);
       const resetPrevSpy = vi.spyOn(service, 'resetToPreviousSearchFilters');
@@ -2041,6 +2104,345 @@ describe('FilterService', () => {
     });
   });
 
+  describe('setGlobalSearch method', () => {
+    let mockColumn1: Column;
+    let mockColumn2: Column;
+    let mockColumn3: Column;
+    let mockItem1: any;
+
+    beforeEach(() => {
+      gridOptionMock.enableTreeData = false;
+      gridOptionMock.backendServiceApi = undefined;
+      gridOptionMock.presets = undefined;
+      mockColumn1 = { id: 'firstName', name: 'firstName', field: 'firstName' };
+      mockColumn2 = { id: 'age', name: 'age', field: 'age', type: 'number' };
+      mockColumn3 = {
+        id: 'zip',
+        name: 'zip',
+        field: 'address.zip',
+        formatter: (_row, _cell, _val, _col, dataContext) => `<b>ZIP-${dataContext.address.zip}</b>`,
+      };
+      mockItem1 = { id: 1, firstName: 'John', lastName: 'Doe', age: 26, address: { zip: 123456 } };
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue([mockColumn1, mockColumn2, mockColumn3]);
+      vi.spyOn(gridStub, 'getVisibleColumns').mockReturnValue([mockColumn1, mockColumn2, mockColumn3]);
+    });
+
+    it('should set the Global Search and expect the DataView to be refreshed and an event to be published', async () => {
+      const refreshSpy = vi.spyOn(dataViewStub, 'refresh');
+      const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+      service.init(gridStub);
+      service.bindLocalOnFilter(gridStub);
+      await service.setGlobalSearch('john');
+
+      expect(refreshSpy).toHaveBeenCalled();
+      expect(service.getGlobalSearch()).toEqual({ searchTerm: 'john' });
+      expect(pubSubSpy).toHaveBeenCalledWith('onGlobalSearchChanged', { searchTerm: 'john' });
+    });
+
+    it('should remove the Global Search when calling the method with an empty search term', async () => {
+      const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+      service.init(gridStub);
+      service.bindLocalOnFilter(gridStub);
+      await service.setGlobalSearch('john');
+      await service.setGlobalSearch('', undefined);
+
+      expect(service.getGlobalSearch()).toBeNull();
+      expect(pubSubSpy).toHaveBeenLastCalledWith('onGlobalSearchChanged', { searchTerm: '' });
+    });
+
+    it('should not publish any event when "emitChangedEvent" is set to false', async () => {
+      const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+      service.init(gridStub);
+      await service.setGlobalSearch('john', undefined, false);
+
+      expect(pubSubSpy).not.toHaveBeenCalled();
+    });
+
+    it('should return True from "customLocalFilter" when any of the visible column values contains the search term (case insensitive by default)', async () => {
+      service.init(gridStub);
+      await service.setGlobalSearch('JOH');
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+    });
+
+    it('should return False from "customLocalFilter" when none of the column values contains the search term', async () => {
+      service.init(gridStub);
+      await service.setGlobalSearch('Jane');
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+    });
+
+    it('should return False from "customLocalFilter" when the search term casing is different and "caseSensitive" is enabled', async () => {
+      service.init(gridStub);
+      await service.setGlobalSearch('JOHN', { caseSensitive: true });
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+    });
+
+    it('should search against complex object (dot notation) and number values', async () => {
+      service.init(gridStub);
+
+      await service.setGlobalSearch('3456');
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+
+      await service.setGlobalSearch('26');
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+    });
+
+    it('should search against the formatted value (without any html) when "useFormatterOutput" is enabled', async () => {
+      service.init(gridStub);
+
+      await service.setGlobalSearch('zip-123');
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+
+      await service.setGlobalSearch('zip-123', { useFormatterOutput: true });
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+    });
+
+    it('should pass the grid column index to the formatter when searching against the formatted value of a subset of the columns', async () => {
+      const formatterSpy = vi.fn().mockReturnValue('ZIP-123456');
+      mockColumn3.formatter = formatterSpy;
+      sharedService.allColumns = [mockColumn1, mockColumn2, mockColumn3];
+      vi.spyOn(gridStub, 'getColumnIndex').mockReturnValue(2);
+      service.init(gridStub);
+
+      await service.setGlobalSearch('zip-123', { columnIds: ['zip'], useFormatterOutput: true });
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+      expect(gridStub.getColumnIndex).toHaveBeenCalledWith('zip');
+      expect(formatterSpy).toHaveBeenCalledWith(expect.any(Number), 2, mockItem1.address, mockColumn3, mockItem1, gridStub);
+    });
+
+    it('should only search against the provided "columnIds" when defined', async () => {
+      sharedService.allColumns = [mockColumn1, mockColumn2, mockColumn3];
+      service.init(gridStub);
+
+      await service.setGlobalSearch('john', { columnIds: ['age', 'zip'] });
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+
+      await service.setGlobalSearch('john', { columnIds: ['firstName'] });
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+    });
+
+    it('should combine the Global Search with column filters and return False when the Global Search matches but the column filter does not', async () => {
+      vi.spyOn(gridStub, 'getColumnIndex').mockReturnValue(1);
+      service.init(gridStub);
+      await service.setGlobalSearch('john');
+      const columnFilters = {
+        age: { columnDef: mockColumn2, columnId: 'age', operator: '>', searchTerms: [30], parsedSearchTerms: [30], type: 'number' },
+      } as ColumnFilters;
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters })).toBe(false);
+    });
+
+    it('should load the Global Search from the grid presets when calling "init"', () => {
+      gridOptionMock.presets = { globalSearch: { searchTerm: 'john' } };
+      service.init(gridStub);
+
+      expect(service.getGlobalSearch()).toEqual({ searchTerm: 'john' });
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+    });
+
+    it('should include the parents of the items matching the Global Search when using Tree Data', async () => {
+      gridOptionMock.enableTreeData = true;
+      gridOptionMock.treeDataOptions = { columnId: 'file' };
+      const mockFileColumn = { id: 'file', name: 'file', field: 'file' };
+      vi.spyOn(gridStub, 'getVisibleColumns').mockReturnValue([mockFileColumn]);
+      const dataset = [
+        { __hasChildren: true, __parentId: null, __treeLevel: 0, file: 'documents', id: 21 },
+        { __parentId: 21, __treeLevel: 1, file: 'todo.txt', id: 10 },
+        { __parentId: 21, __treeLevel: 1, file: 'map.pdf', id: 5 },
+      ];
+
+      service.init(gridStub);
+      await service.setGlobalSearch('todo', undefined, false);
+      const output = service.preFilterTreeData(dataset, {});
+
+      expect(output).toEqual(initSetWithValues([10, 21]));
+    });
+
+    it('should send the Global Search to the backend service and refresh the backend dataset when using a Backend Service', async () => {
+      backendServiceStub.updateGlobalSearch = vi.fn();
+      gridOptionMock.backendServiceApi = {
+        filterTypingDebounce: 0,
+        service: backendServiceStub,
+        process: () => new Promise((resolve) => resolve(vi.fn())),
+      };
+      const refreshSpy = vi.spyOn(dataViewStub, 'refresh');
+      const refreshBackendSpy = vi.spyOn(backendUtilityService, 'refreshBackendDataset').mockReturnValueOnce();
+
+      service.init(gridStub);
+      service.bindBackendOnFilter(gridStub);
+      await service.setGlobalSearch('john', { caseSensitive: true });
+
+      expect(refreshSpy).not.toHaveBeenCalled();
+      expect(backendServiceStub.updateGlobalSearch).toHaveBeenCalledWith({ searchTerm: 'john', options: { caseSensitive: true } });
+      expect(refreshBackendSpy).toHaveBeenCalledWith(gridOptionMock);
+    });
+
+    it('should send the Global Search to the backend service without refreshing the backend dataset when "triggerBackendQuery" is set to false', async () => {
+      backendServiceStub.updateGlobalSearch = vi.fn();
+      gridOptionMock.backendServiceApi = {
+        filterTypingDebounce: 0,
+        service: backendServiceStub,
+        process: () => new Promise((resolve) => resolve(vi.fn())),
+      };
+      const refreshBackendSpy = vi.spyOn(backendUtilityService, 'refreshBackendDataset');
+
+      service.init(gridStub);
+      service.bindBackendOnFilter(gridStub);
+      await service.setGlobalSearch('john', undefined, true, false);
+
+      expect(backendServiceStub.updateGlobalSearch).toHaveBeenCalledWith({ searchTerm: 'john' });
+      expect(refreshBackendSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setFilterExpression method', () => {
+    let mockColumns: Column[];
+    let mockItem1: any;
+    let mockItem2: any;
+
+    beforeEach(() => {
+      gridOptionMock.enableTreeData = false;
+      gridOptionMock.backendServiceApi = undefined;
+      gridOptionMock.presets = undefined;
+      mockColumns = [
+        { id: 'firstName', name: 'firstName', field: 'firstName' },
+        { id: 'age', name: 'age', field: 'age', type: 'number' },
+        { id: 'gender', name: 'gender', field: 'gender' },
+      ];
+      mockItem1 = { id: 1, firstName: 'John', age: 26, gender: 'male' };
+      mockItem2 = { id: 2, firstName: 'Jane', age: 42, gender: 'female' };
+      sharedService.allColumns = mockColumns;
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+    });
+
+    it('should set the Filter Expression and expect the DataView to be refreshed and an event to be published', async () => {
+      const refreshSpy = vi.spyOn(dataViewStub, 'refresh');
+      const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+      const mockExpression = { logic: 'and', conditions: [{ columnId: 'firstName', operator: 'EQ', searchTerms: ['John'] }] } as FilterExpressionGroup;
+
+      service.init(gridStub);
+      await service.setFilterExpression(mockExpression);
+
+      expect(refreshSpy).toHaveBeenCalled();
+      expect(service.getFilterExpression()).toEqual(mockExpression);
+      expect(service.getFilterExpression()).not.toBe(mockExpression);
+      expect(pubSubSpy).toHaveBeenCalledWith('onFilterExpressionChanged', mockExpression);
+    });
+
+    it('should remove the Filter Expression and publish an empty group when calling the method with null', async () => {
+      const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+      service.init(gridStub);
+      await service.setFilterExpression({ logic: 'and', conditions: [] });
+      await service.setFilterExpression(null);
+
+      expect(service.getFilterExpression()).toBeNull();
+      expect(pubSubSpy).toHaveBeenLastCalledWith('onFilterExpressionChanged', { logic: 'and', conditions: [] });
+    });
+
+    it('should return True from "customLocalFilter" only when any of the conditions are valid with an "or" logic', async () => {
+      service.init(gridStub);
+      await service.setFilterExpression({
+        logic: 'or',
+        conditions: [
+          { columnId: 'firstName', operator: 'StartsWith', searchTerms: ['Jo'] },
+          { columnId: 'age', operator: '>', searchTerms: [40] },
+        ],
+      });
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+      expect(service.customLocalFilter(mockItem2, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+      expect(service.customLocalFilter({ ...mockItem2, age: 30 }, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+    });
+
+    it('should return True from "customLocalFilter" only when all conditions are valid with an "and" logic', async () => {
+      service.init(gridStub);
+      await service.setFilterExpression({
+        logic: 'and',
+        conditions: [
+          { columnId: 'gender', operator: 'EQ', searchTerms: ['female'] },
+          { columnId: 'age', operator: '>', searchTerms: [40] },
+        ],
+      });
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+      expect(service.customLocalFilter(mockItem2, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+    });
+
+    it('should evaluate nested groups and negate the group result when "not" is enabled', async () => {
+      service.init(gridStub);
+      // firstName = John OR NOT (gender = female AND age > 40)
+      await service.setFilterExpression({
+        logic: 'or',
+        conditions: [
+          { columnId: 'firstName', operator: 'EQ', searchTerms: ['John'] },
+          {
+            logic: 'and',
+            not: true,
+            conditions: [
+              { columnId: 'gender', operator: 'EQ', searchTerms: ['female'] },
+              { columnId: 'age', operator: '>', searchTerms: [40] },
+            ],
+          },
+        ],
+      });
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+      expect(service.customLocalFilter(mockItem2, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+      expect(service.customLocalFilter({ ...mockItem2, age: 30 }, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+    });
+
+    it('should ignore conditions with an unknown column and use the column "filterPredicate" when defined', async () => {
+      mockColumns[0].filter = { filterPredicate: (dataContext, searchFilterArgs) => dataContext.firstName === `${searchFilterArgs.searchTerms[0]}n` };
+      service.init(gridStub);
+      await service.setFilterExpression({
+        logic: 'and',
+        conditions: [
+          { columnId: 'unknown', operator: 'EQ', searchTerms: ['abc'] },
+          { columnId: 'firstName', searchTerms: ['Joh'] },
+        ],
+      });
+
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+      expect(service.customLocalFilter(mockItem2, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+    });
+
+    it('should load the Filter Expression from the grid presets when calling "init"', () => {
+      gridOptionMock.presets = { filterExpression: { logic: 'and', conditions: [{ columnId: 'gender', operator: 'EQ', searchTerms: ['male'] }] } };
+      service.init(gridStub);
+
+      expect(service.getFilterExpression()).toEqual(gridOptionMock.presets.filterExpression);
+      expect(service.customLocalFilter(mockItem1, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(true);
+      expect(service.customLocalFilter(mockItem2, { dataView: dataViewStub, grid: gridStub, columnFilters: {} })).toBe(false);
+    });
+
+    it('should send the Filter Expression to the backend service and refresh the backend dataset when using a Backend Service', async () => {
+      backendServiceStub.updateFilterExpression = vi.fn();
+      gridOptionMock.backendServiceApi = {
+        filterTypingDebounce: 0,
+        service: backendServiceStub,
+        process: () => new Promise((resolve) => resolve(vi.fn())),
+      };
+      const mockExpression = { logic: 'or', conditions: [{ columnId: 'firstName', operator: 'EQ', searchTerms: ['John'] }] } as FilterExpressionGroup;
+      const refreshSpy = vi.spyOn(dataViewStub, 'refresh');
+      const refreshBackendSpy = vi.spyOn(backendUtilityService, 'refreshBackendDataset').mockReturnValueOnce();
+
+      service.init(gridStub);
+      service.bindBackendOnFilter(gridStub);
+      await service.setFilterExpression(mockExpression, true, true);
+
+      expect(refreshSpy).not.toHaveBeenCalled();
+      expect(backendServiceStub.updateFilterExpression).toHaveBeenCalledWith(mockExpression);
+      expect(refreshBackendSpy).toHaveBeenCalledWith(gridOptionMock);
+    });
+  });
+
   describe('drawFilterTemplate method', () => {
     let mockColumn1: Column;
     let mockColumn2: Column;
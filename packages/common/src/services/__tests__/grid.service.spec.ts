@@ -6,11 +6,13 @@ import type { CellArgs, Column, GridOption, OnEventArgs } from '../../interfaces
 import {
   GridService,
   SharedService,
+  type BackendUtilityService,
   type FilterService,
   type GridStateService,
   type PaginationService,
   type SortService,
   type TreeDataService,
+  type UndoRedoService,
 } from '../index.js';
 
 const mockHybridSelectionModel = {
@@ -58,6 +60,7 @@ const dataviewStub = {
   getIdxById: vi.fn(),
   getItemMetadata: vi.fn(),
   getItem: vi.fn(),
+  getItemById: vi.fn(),
   getItems: vi.fn(),
   getRowById: vi.fn(),
   insertItem: vi.fn(),
@@ -1552,6 +1555,44 @@ describe('Grid Service', () => {
     });
   });
 
+  describe('clearBackendCache method', () => {
+    const backendUtilityServiceStub = { clearCache: vi.fn(), refreshBackendDataset: vi.fn() } as unknown as BackendUtilityService;
+
+    beforeEach(() => {
+      service = new GridService(
+        gridStateServiceStub,
+        filterServiceStub,
+        pubSubServiceStub,
+        paginationServiceStub,
+        sharedService,
+        sortServiceStub,
+        treeDataServiceStub,
+        undefined,
+        backendUtilityServiceStub
+      );
+      service.init(gridStub);
+    });
+
+    it('should clear the backend cache without refreshing the dataset by default', () => {
+      vi.spyOn(gridStub, 'getOptions').mockReturnValue({ backendServiceApi: {} } as GridOption);
+
+      service.clearBackendCache();
+
+      expect(backendUtilityServiceStub.clearCache).toHaveBeenCalled();
+      expect(backendUtilityServiceStub.refreshBackendDataset).not.toHaveBeenCalled();
+    });
+
+    it('should clear the backend cache and refresh the dataset when "refreshDataset" is enabled', () => {
+      const gridOptionsMock = { backendServiceApi: {} } as GridOption;
+      vi.spyOn(gridStub, 'getOptions').mockReturnValue(gridOptionsMock);
+
+      service.clearBackendCache(true);
+
+      expect(backendUtilityServiceStub.clearCache).toHaveBeenCalled();
+      expect(backendUtilityServiceStub.refreshBackendDataset).toHaveBeenCalledWith(gridOptionsMock);
+    });
+  });
+
   describe('Pinning methods', () => {
     const columnsMock: Column[] = [
       { id: 'field1', field: 'field1', width: 100, nameKey: 'TITLE' },
@@ -1567,7 +1608,13 @@ describe('Grid Service', () => {
       service.clearPinning();
 
       expect(updateColumnSpy).toHaveBeenCalled();
-      expect(setOptionsSpy).toHaveBeenCalledWith({ frozenBottom: false, frozenColumn: -1, frozenRow: -1, enableMouseWheelScrollHandler: false });
+      expect(setOptionsSpy).toHaveBeenCalledWith({
+        frozenBottom: false,
+        frozenColumn: -1,
+        frozenRightColumn: -1,
+        frozenRow: -1,
+        enableMouseWheelScrollHandler: false,
+      });
     });
 
     it('should call "setPinning" which itself calls "clearPinning" when the pinning option input is an empty object', () => {
@@ -2117,4 +2164,70 @@ describe('Grid Service', () => {
       expect(sortSpy).toHaveBeenCalled();
     });
   });
+
+  describe('Undo/Redo recording', () => {
+    const undoRedoServiceStub = {
+      beginTransaction: vi.fn(),
+      endTransaction: vi.fn(),
+      recordAddedItems: vi.fn(),
+      recordDeletedItems: vi.fn(),
+      recordUpdatedItems: vi.fn(),
+    } as unknown as UndoRedoService;
+
+    beforeEach(() => {
+      service = new GridService(
+        gridStateServiceStub,
+        filterServiceStub,
+        pubSubServiceStub,
+        paginationServiceStub,
+        sharedService,
+        sortServiceStub,
+        treeDataServiceStub,
+        undoRedoServiceStub
+      );
+      service.init(gridStub);
+    });
+
+    it('should record the added items when calling "addItems"', () => {
+      const mockItems = [{ id: 0, user: { firstName: 'John', lastName: 'Doe' } }];
+      vi.spyOn(dataviewStub, 'getRowById').mockReturnValue(0);
+
+      service.addItems(mockItems, { highlightRow: false, resortGrid: false, selectRow: false, triggerEvent: false });
+
+      expect(undoRedoServiceStub.recordAddedItems).toHaveBeenCalledWith(mockItems);
+    });
+
+    it('should record the items about to be deleted before deleting them when calling "deleteItemById"', () => {
+      const mockItem = { id: 4, user: { firstName: 'John', lastName: 'Doe' } };
+      vi.spyOn(dataviewStub, 'getIdxById').mockReturnValue(4);
+      vi.spyOn(dataviewStub, 'getItemById').mockReturnValue(mockItem);
+      const deleteSpy = vi.spyOn(dataviewStub, 'deleteItem');
+
+      service.deleteItemById(4, { triggerEvent: false });
+
+      expect(undoRedoServiceStub.recordDeletedItems).toHaveBeenCalledWith([mockItem]);
+      expect((undoRedoServiceStub.recordDeletedItems as any).mock.invocationCallOrder[0]).toBeLessThan(deleteSpy.mock.invocationCallOrder[0]);
+    });
+
+    it('should group all the deletes of "deleteItemByIds" in a single transaction', () => {
+      vi.spyOn(dataviewStub, 'getIdxById').mockReturnValue(undefined);
+
+      service.deleteItemByIds([0, 1], { triggerEvent: false });
+
+      expect(undoRedoServiceStub.beginTransaction).toHaveBeenCalledWith('deleteItems');
+      expect(undoRedoServiceStub.endTransaction).toHaveBeenCalled();
+    });
+
+    it('should record the previous and updated items when calling "updateItemById"', () => {
+      const previousItem = { id: 0, user: { firstName: 'John', lastName: 'Doe' } };
+      const mockItem = { id: 0, user: { firstName: 'Jane', lastName: 'Doe' } };
+      vi.spyOn(dataviewStub, 'getIdxById').mockReturnValue(0);
+      vi.spyOn(dataviewStub, 'getRowById').mockReturnValue(0);
+      vi.spyOn(dataviewStub, 'getItemById').mockReturnValue(previousItem);
+
+      service.updateItemById(0, mockItem, { highlightRow: false, selectRow: false, triggerEvent: false });
+
+      expect(undoRedoServiceStub.recordUpdatedItems).toHaveBeenCalledWith([previousItem], [mockItem]);
+    });
+  });
 });
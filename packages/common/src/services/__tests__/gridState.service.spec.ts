@@ -9,14 +9,17 @@ import type {
   CheckboxSelectorOption,
   Column,
   CurrentColumn,
+  CurrentConditionalFormatting,
   CurrentFilter,
   CurrentPagination,
   CurrentPinning,
   CurrentRowSelection,
   CurrentSorter,
+  FilterExpressionGroup,
   GridOption,
   GridState,
   GridStateChange,
+  PivotConfig,
   RowDetailView,
   RowMoveManager,
   TreeToggleStateChange,
@@ -152,7 +155,7 @@ describe('GridStateService', () => {
       vi.spyOn(gridStub, 'getSelectionModel').mockReturnValue(hybridSelectionModelStub);
 
       expect(gridStateSpy).toHaveBeenCalled();
-      expect(pubSubSpy).toHaveBeenCalledTimes(7);
+      expect(pubSubSpy).toHaveBeenCalledTimes(9);
       // expect(pubSubSpy).toHaveBeenNthCalledWith(1, `onFilterChanged`, () => { });
     });
 
@@ -166,7 +169,7 @@ describe('GridStateService', () => {
       vi.spyOn(gridStub, 'getSelectionModel').mockReturnValueOnce(hybridSelectionModelStub);
 
       expect(gridStateSpy).toHaveBeenCalled();
-      expect(pubSubSpy).toHaveBeenCalledTimes(21); // not 7 but 21 with hybrid selection, not sure why though
+      expect(pubSubSpy).toHaveBeenCalledTimes(27); // not 9 but 27 with hybrid selection, not sure why though
       // expect(pubSubSpy).toHaveBeenNthCalledWith(1, `onFilterChanged`, () => { });
     });
 
@@ -532,6 +535,51 @@ describe('GridStateService', () => {
       });
     });
 
+    describe('bindPivotChangeEventToGridStateChange tests', () => {
+      it('should subscribe to the Pivot "onPivotChanged" event and expect a Grid State change to be triggered when a notify is triggered after service was initialized', () => {
+        const pivotMock = { rows: ['country'], columns: [], values: [{ columnId: 'sales', aggregator: 'Avg' }] } as PivotConfig;
+        const instanceMock = { onPivotChanged: slickgridEvent };
+        const extensionMock = { name: ExtensionName.pivot, instance: instanceMock };
+        const gridStateMock = { columns: [], filters: [], sorters: [], pivot: pivotMock } as GridState;
+        const stateChangeMock = { change: { newValues: pivotMock, type: 'pivot' }, gridState: gridStateMock } as GridStateChange;
+
+        const pubSubSpy = vi.spyOn(mockPubSub, 'publish');
+        const gridStateSpy = vi.spyOn(service, 'getCurrentGridState').mockReturnValue(gridStateMock);
+        const extensionSpy = vi.spyOn(extensionServiceStub, 'getExtensionByName').mockReturnValue(extensionMock as any);
+
+        service.init(gridStub);
+        slickgridEvent.notify({ caller: 'add-field', pivot: pivotMock }, new SlickEventData(), gridStub);
+
+        expect(gridStateSpy).toHaveBeenCalled();
+        expect(extensionSpy).toHaveBeenCalledWith(ExtensionName.pivot);
+        expect(pubSubSpy).toHaveBeenCalledWith(`onGridStateChanged`, stateChangeMock);
+      });
+    });
+
+    describe('bindConditionalFormattingChangeEventToGridStateChange tests', () => {
+      it('should subscribe to the Conditional Formatting "onConditionalFormattingChanged" event and expect a Grid State change to be triggered when a notify is triggered after service was initialized', () => {
+        const conditionalFormattingMock = [{ columnId: 'duration', rules: [{ type: 'dataBar' }] }] as CurrentConditionalFormatting[];
+        const instanceMock = { onConditionalFormattingChanged: slickgridEvent };
+        const extensionMock = { name: ExtensionName.conditionalFormatting, instance: instanceMock };
+        const gridStateMock = { columns: [], filters: [], sorters: [], conditionalFormatting: conditionalFormattingMock } as GridState;
+        const stateChangeMock = {
+          change: { newValues: conditionalFormattingMock, type: 'conditionalFormatting' },
+          gridState: gridStateMock,
+        } as GridStateChange;
+
+        const pubSubSpy = vi.spyOn(mockPubSub, 'publish');
+        const gridStateSpy = vi.spyOn(service, 'getCurrentGridState').mockReturnValue(gridStateMock);
+        const extensionSpy = vi.spyOn(extensionServiceStub, 'getExtensionByName').mockReturnValue(extensionMock as any);
+
+        service.init(gridStub);
+        slickgridEvent.notify({ caller: 'conditionalFormatting', conditionalFormatting: conditionalFormattingMock }, new SlickEventData(), gridStub);
+
+        expect(gridStateSpy).toHaveBeenCalled();
+        expect(extensionSpy).toHaveBeenCalledWith(ExtensionName.conditionalFormatting);
+        expect(pubSubSpy).toHaveBeenCalledWith(`onGridStateChanged`, stateChangeMock);
+      });
+    });
+
     describe('bindSlickGridColumnChangeEventToGridStateChange tests', () => {
       it('should subscribe to some SlickGrid events and expect the event to be triggered when a notify is triggered after service was initialized', () => {
         const columnsMock = [{ id: 'field1', field: 'field1', width: 100, cssClass: 'red' }] as Column[];
@@ -573,6 +621,20 @@ describe('GridStateService', () => {
         expect(gridStateSpy).toHaveBeenCalled();
         expect(pubSubSpy).toHaveBeenCalledWith(`onGridStateChanged`, stateChangeMock);
       });
+
+      it('should trigger a pinning grid state change when only the frozen right column changed', () => {
+        const mockGridOptionsBefore = { frozenBottom: false, frozenColumn: -1, frozenRightColumn: -1, frozenRow: -1 } as GridOption;
+        const mockGridOptionsAfter = { frozenBottom: false, frozenColumn: -1, frozenRightColumn: 3, frozenRow: -1 } as GridOption;
+        const gridStateMock = { pinning: mockGridOptionsAfter, columns: [], filters: [], sorters: [] } as GridState;
+        const stateChangeMock = { change: { newValues: mockGridOptionsAfter, type: 'pinning' }, gridState: gridStateMock } as GridStateChange;
+        const pubSubSpy = vi.spyOn(mockPubSub, 'publish');
+        vi.spyOn(service, 'getCurrentGridState').mockReturnValue(gridStateMock);
+
+        service.init(gridStub);
+        gridStub.onSetOptions.notify({ optionsBefore: mockGridOptionsBefore, optionsAfter: mockGridOptionsAfter, grid: gridStub }, new SlickEventData());
+
+        expect(pubSubSpy).toHaveBeenCalledWith(`onGridStateChanged`, stateChangeMock);
+      });
     });
   });
 
@@ -637,6 +699,62 @@ describe('GridStateService', () => {
     });
   });
 
+  describe('getCurrentGlobalSearch method', () => {
+    afterEach(() => {
+      delete (filterServiceStub as any).getGlobalSearch;
+      vi.clearAllMocks();
+    });
+
+    it('should call "getCurrentGlobalSearch" and return null when there is no Global Search applied', () => {
+      filterServiceStub.getGlobalSearch = () => null;
+
+      const output = service.getCurrentGlobalSearch();
+      expect(output).toBeNull();
+    });
+
+    it('should call "getCurrentGlobalSearch" and expect it to be part of the Grid State when a Global Search is applied', () => {
+      const globalSearchMock = { searchTerm: 'John', options: { caseSensitive: true } };
+      const gridOptionsMock = { enablePagination: false } as GridOption;
+      vi.spyOn(gridStub, 'getOptions').mockReturnValue(gridOptionsMock);
+      filterServiceStub.getGlobalSearch = () => globalSearchMock;
+
+      const gridState = service.getCurrentGridState();
+
+      expect(gridState.globalSearch).toEqual(globalSearchMock);
+    });
+  });
+
+  describe('getCurrentFilterExpression method', () => {
+    afterEach(() => {
+      delete (filterServiceStub as any).getFilterExpression;
+      vi.clearAllMocks();
+    });
+
+    it('should call "getCurrentFilterExpression" and return null when there is no Filter Expression applied', () => {
+      filterServiceStub.getFilterExpression = () => null;
+
+      const output = service.getCurrentFilterExpression();
+      expect(output).toBeNull();
+    });
+
+    it('should call "getCurrentFilterExpression" and expect it to be part of the Grid State when a Filter Expression is applied', () => {
+      const filterExpressionMock = {
+        logic: 'or',
+        conditions: [
+          { columnId: 'field1', operator: 'EQ', searchTerms: ['John'] },
+          { logic: 'and', not: true, conditions: [{ columnId: 'field2', operator: '>', searchTerms: [5] }] },
+        ],
+      } as FilterExpressionGroup;
+      const gridOptionsMock = { enablePagination: false } as GridOption;
+      vi.spyOn(gridStub, 'getOptions').mockReturnValue(gridOptionsMock);
+      filterServiceStub.getFilterExpression = () => filterExpressionMock;
+
+      const gridState = service.getCurrentGridState();
+
+      expect(gridState.filterExpression).toEqual(filterExpressionMock);
+    });
+  });
+
   describe('getCurrentGrouping method', () => {
     afterEach(() => {
       vi.clearAllMocks();
@@ -675,6 +793,69 @@ describe('GridStateService', () => {
     });
   });
 
+  describe('getCurrentPivot method', () => {
+    afterEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should call "getCurrentPivot" and return null when the pivot is not enabled', () => {
+      const gridOptionsMock = { enablePivot: false } as GridOption;
+      vi.spyOn(gridStub, 'getOptions').mockReturnValueOnce(gridOptionsMock);
+
+      const output = service.getCurrentPivot();
+      expect(output).toBeNull();
+    });
+
+    it('should call "getCurrentPivot" and expect it to be part of the Grid State when the pivot is enabled and applied', () => {
+      const pivotMock = { rows: ['country'], columns: ['year'], values: [{ columnId: 'sales', aggregator: 'Sum' }] } as PivotConfig;
+      const gridOptionsMock = { enablePivot: true } as GridOption;
+      vi.spyOn(gridStub, 'getOptions').mockReturnValue(gridOptionsMock);
+      const extensionMock = { name: ExtensionName.pivot, instance: { getPivotConfig: () => pivotMock } };
+      const extensionSpy = vi.spyOn(extensionServiceStub, 'getExtensionByName').mockReturnValue(extensionMock as any);
+
+      const output = service.getCurrentPivot();
+      const gridState = service.getCurrentGridState();
+
+      expect(extensionSpy).toHaveBeenCalledWith(ExtensionName.pivot);
+      expect(output).toEqual(pivotMock);
+      expect(gridState.pivot).toEqual(pivotMock);
+    });
+  });
+
+  describe('getCurrentConditionalFormatting method', () => {
+    afterEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should call "getCurrentConditionalFormatting" and return null when the conditional formatting is not enabled', () => {
+      const gridOptionsMock = { enableConditionalFormatting: false } as GridOption;
+      vi.spyOn(gridStub, 'getOptions').mockReturnValueOnce(gridOptionsMock);
+
+      const output = service.getCurrentConditionalFormatting();
+      expect(output).toBeNull();
+    });
+
+    it('should call "getCurrentConditionalFormatting" and expect it to be part of the Grid State when the conditional formatting is enabled', () => {
+      const conditionalFormattingMock = [
+        { columnId: 'duration', rules: [{ type: 'cellValue', operator: '>', searchTerms: [50], style: { color: '#9c0006' } }] },
+      ] as CurrentConditionalFormatting[];
+      const gridOptionsMock = { enableConditionalFormatting: true } as GridOption;
+      vi.spyOn(gridStub, 'getOptions').mockReturnValue(gridOptionsMock);
+      const extensionMock = {
+        name: ExtensionName.conditionalFormatting,
+        instance: { getCurrentConditionalFormatting: () => conditionalFormattingMock },
+      };
+      const extensionSpy = vi.spyOn(extensionServiceStub, 'getExtensionByName').mockReturnValue(extensionMock as any);
+
+      const output = service.getCurrentConditionalFormatting();
+      const gridState = service.getCurrentGridState();
+
+      expect(extensionSpy).toHaveBeenCalledWith(ExtensionName.conditionalFormatting);
+      expect(output).toEqual(conditionalFormattingMock);
+      expect(gridState.conditionalFormatting).toEqual(conditionalFormattingMock);
+    });
+  });
+
   describe('getCurrentPagination method', () => {
     afterEach(() => {
       vi.clearAllMocks();
@@ -1220,6 +1401,31 @@ describe('GridStateService', () => {
       expect(pubSubSpy).toHaveBeenCalledWith(`onGridStateChanged`, stateChangeMock);
     });
 
+    it('should trigger a "onGridStateChanged" event when "onGlobalSearchChanged" is triggered', () => {
+      const globalSearchMock = { searchTerm: 'John' };
+      const gridStateMock = { columns: currentColumnsMock, filters: filterMock, sorters: sorterMock, pinning: pinningMock } as GridState;
+      const stateChangeMock = { change: { newValues: globalSearchMock, type: 'globalSearch' }, gridState: gridStateMock } as GridStateChange;
+
+      const pubSubSpy = vi.spyOn(mockPubSub, 'publish');
+
+      fnCallbacks['onGlobalSearchChanged'](globalSearchMock);
+      expect(pubSubSpy).toHaveBeenCalledWith(`onGridStateChanged`, stateChangeMock);
+    });
+
+    it('should trigger a "onGridStateChanged" event when "onFilterExpressionChanged" is triggered', () => {
+      const filterExpressionMock = { logic: 'or', conditions: [{ columnId: 'field1', operator: 'EQ', searchTerms: ['John'] }] } as FilterExpressionGroup;
+      const gridStateMock = { columns: currentColumnsMock, filters: filterMock, sorters: sorterMock, pinning: pinningMock } as GridState;
+      const stateChangeMock = {
+        change: { newValues: filterExpressionMock, type: 'filterExpression' },
+        gridState: gridStateMock,
+      } as GridStateChange;
+
+      const pubSubSpy = vi.spyOn(mockPubSub, 'publish');
+
+      fnCallbacks['onFilterExpressionChanged'](filterExpressionMock);
+      expect(pubSubSpy).toHaveBeenCalledWith(`onGridStateChanged`, stateChangeMock);
+    });
+
     it('should trigger a "onGridStateChanged" event when "onSortChanged" is triggered', () => {
       const gridStateMock = { columns: currentColumnsMock, filters: filterMock, sorters: sorterMock, pinning: pinningMock } as GridState;
       const stateChangeMock = { change: { newValues: sorterMock, type: 'sorter' }, gridState: gridStateMock } as GridStateChange;
@@ -41,8 +41,10 @@ const gridStub = {
   getPreHeaderPanel: vi.fn(),
   getPreHeaderPanelLeft: vi.fn(),
   getPreHeaderPanelRight: vi.fn(),
+  getRenderedRange: vi.fn(),
   getSortColumns: vi.fn(),
   invalidate: vi.fn(),
+  isColumnInRenderedRange: vi.fn(),
   onAutosizeColumns: new SlickEvent(),
   onAfterUpdateColumns: new SlickEvent(),
   onColumnsReordered: new SlickEvent(),
@@ -289,5 +291,30 @@ describe('HeaderGroupingService', () => {
       expect(divHeaderColumns.length).toBeGreaterThan(2);
       expect(divHeaderColumns[0].outerHTML).toEqual(`<div style="width: 2815px; left: -1000px;" class="slick-header-columns">All your colums div here</div>`);
     });
+
+    it('should merge the consecutive columns outside of the rendered range into an empty placeholder when "enableColumnVirtualization" is enabled', () => {
+      const preHeaderPanelElm = document.createElement('div');
+      vi.spyOn(gridStub, 'getOptions').mockReturnValue({ ...gridOptionMock, enableColumnVirtualization: true });
+      vi.spyOn(gridStub, 'getHeaderColumnWidthDiff').mockReturnValue(0);
+      vi.spyOn(gridStub, 'getColumnIndex').mockImplementation((id) => mockColumns.findIndex((col) => col.id === id));
+      vi.spyOn(gridStub, 'getRenderedRange').mockReturnValue({ top: 0, bottom: 10, leftPx: 0, rightPx: 100 });
+      vi.spyOn(gridStub, 'isColumnInRenderedRange').mockImplementation((idx) => idx < 2);
+      mockColumns[0].width = 50;
+      mockColumns[2].width = 80;
+      mockColumns[3].width = 120;
+
+      service.init(gridStub);
+      service.renderHeaderGroups(preHeaderPanelElm, 0, mockColumns.length);
+
+      const headerElms = preHeaderPanelElm.querySelectorAll<HTMLDivElement>('.slick-header-column');
+      expect(gridStub.getRenderedRange).toHaveBeenCalledTimes(1);
+      expect(headerElms.length).toBe(2);
+      expect(headerElms[0].dataset.group).toBe('Common Factor');
+      expect(headerElms[0].style.width).toBe('150px');
+      expect(headerElms[0].textContent).toBe('Common Factor');
+      expect(headerElms[1].classList.contains('slick-header-column-placeholder')).toBe(true);
+      expect(headerElms[1].style.width).toBe('200px');
+      expect(headerElms[1].textContent).toBe('');
+    });
   });
 });
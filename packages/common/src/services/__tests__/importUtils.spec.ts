@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SlickGrid } from '../../core/index.js';
+import type { Column, GridOption } from '../../interfaces/index.js';
+import { createItemFromImportRow, getImportColumnMapping, parseImportValueByFieldType } from '../importUtils.js';
+
+const gridOptionsMock = {} as GridOption;
+const gridStub = {
+  getOptions: () => gridOptionsMock,
+} as unknown as SlickGrid;
+
+describe('Import Utilities', () => {
+  describe('getImportColumnMapping method', () => {
+    const columns = [
+      { id: 'title', field: 'title', name: '<b>Title</b>' },
+      { id: 'duration', field: 'duration', name: 'Duration (days)' },
+      { id: 'start', field: 'startDate', name: 'Start' },
+    ] as Column[];
+
+    it('should map headers to the column with a matching name, id or field (case insensitive) and return undefined when not found', () => {
+      const output = getImportColumnMapping(['TITLE', ' duration (days) ', 'startDate', 'Unknown', ''], columns);
+      expect(output).toEqual([columns[0], columns[1], columns[2], undefined, undefined]);
+    });
+
+    it('should map headers by using the column mapping when provided', () => {
+      const output = getImportColumnMapping(['Task', 'Title', 'Begin'], columns, { Task: 'title', Begin: 'startDate' });
+      expect(output).toEqual([columns[0], undefined, columns[2]]);
+    });
+  });
+
+  describe('parseImportValueByFieldType method', () => {
+    it('should return undefined without any error for an empty value', () => {
+      expect(parseImportValueByFieldType('', { id: 'a', field: 'a', type: 'number' })).toEqual({ value: undefined });
+      expect(parseImportValueByFieldType(null, { id: 'a', field: 'a', type: 'number' })).toEqual({ value: undefined });
+    });
+
+    it('should parse numbers by using the grid formatter options separators', () => {
+      const column = { id: 'a', field: 'a', type: 'number' } as Column;
+      expect(parseImportValueByFieldType(12.5, column)).toEqual({ value: 12.5 });
+      expect(parseImportValueByFieldType('1,234.5', column)).toEqual({ value: 1234.5 });
+      expect(parseImportValueByFieldType('1 234,5', column, { formatterOptions: { decimalSeparator: ',', thousandSeparator: ' ' } })).toEqual({
+        value: 1234.5,
+      });
+      expect(parseImportValueByFieldType('abc', column)).toEqual({ value: undefined, error: 'Invalid number' });
+      expect(parseImportValueByFieldType('2.5', { ...column, type: 'integer' })).toEqual({ value: undefined, error: 'Invalid integer' });
+    });
+
+    it('should parse booleans', () => {
+      const column = { id: 'a', field: 'a', type: 'boolean' } as Column;
+      expect(parseImportValueByFieldType(true, column)).toEqual({ value: true });
+      expect(parseImportValueByFieldType('Yes', column)).toEqual({ value: true });
+      expect(parseImportValueByFieldType('0', column)).toEqual({ value: false });
+      expect(parseImportValueByFieldType('maybe', column)).toEqual({ value: undefined, error: 'Invalid boolean' });
+    });
+
+    it('should convert any value to a string for string types', () => {
+      expect(parseImportValueByFieldType(123, { id: 'a', field: 'a', type: 'string' })).toEqual({ value: '123' });
+    });
+
+    it('should keep the value as is when the column has no type', () => {
+      expect(parseImportValueByFieldType(123, { id: 'a', field: 'a' })).toEqual({ value: 123 });
+    });
+
+    it('should parse a date string with its FieldType format and save it with the same format', () => {
+      expect(parseImportValueByFieldType('25/12/2025', { id: 'a', field: 'a', type: 'dateEuro' })).toEqual({ value: '25/12/2025' });
+      expect(parseImportValueByFieldType('2025-12-25', { id: 'a', field: 'a', type: 'dateUs' })).toEqual({ value: '12/25/2025' });
+      expect(parseImportValueByFieldType('not a date', { id: 'a', field: 'a', type: 'dateIso' })).toEqual({
+        value: undefined,
+        error: 'Invalid date',
+      });
+    });
+
+    it('should save a Date object when the column type is "date" or with the "saveOutputType" format when defined', () => {
+      const date = new Date(2025, 11, 25);
+      expect(parseImportValueByFieldType(date, { id: 'a', field: 'a', type: 'date' })).toEqual({ value: date });
+      expect(parseImportValueByFieldType('2025-12-25', { id: 'a', field: 'a', type: 'date' })).toEqual({ value: date });
+      expect(parseImportValueByFieldType(date, { id: 'a', field: 'a', type: 'dateUs', saveOutputType: 'dateIso' })).toEqual({
+        value: '2025-12-25',
+      });
+    });
+  });
+
+  describe('createItemFromImportRow method', () => {
+    it('should create an item from the row values with complex object fields and ignore unmapped cells', () => {
+      const columns = [{ id: 'title', field: 'title' }, undefined, { id: 'city', field: 'address.city', type: 'string' }] as Column[];
+
+      const output = createItemFromImportRow(['Task 1', 'ignored', 'Montreal'], columns, gridStub);
+
+      expect(output).toEqual({ item: { title: 'Task 1', address: { city: 'Montreal' } }, errors: [] });
+    });
+
+    it('should return the type conversion errors and the column editor validator errors', () => {
+      const validatorMock = vi.fn().mockReturnValue({ valid: false, msg: 'Title is required' });
+      const columns = [
+        { id: 'title', field: 'title', editor: { model: {} as any, validator: validatorMock } },
+        { id: 'duration', field: 'duration', type: 'number', validator: vi.fn().mockReturnValue({ valid: true, msg: '' }) },
+        { id: 'percent', field: 'percent', type: 'number', validator: vi.fn() },
+      ] as Column[];
+
+      const output = createItemFromImportRow(['', '5', 'abc'], columns, gridStub);
+
+      expect(output.item).toEqual({ duration: 5 });
+      expect(output.errors).toEqual([
+        { field: 'percent', message: 'Invalid number', value: 'abc' },
+        { field: 'title', message: 'Title is required', value: undefined },
+      ]);
+      expect(validatorMock).toHaveBeenCalledWith('', { column: columns[0], grid: gridStub, item: output.item });
+      expect(columns[2].validator).not.toHaveBeenCalled();
+    });
+
+    it('should not validate the cells when "validateCells" is disabled', () => {
+      const validatorMock = vi.fn().mockReturnValue({ valid: false, msg: 'Invalid' });
+      const columns = [{ id: 'title', field: 'title', validator: validatorMock }] as Column[];
+
+      const output = createItemFromImportRow(['Task 1'], columns, gridStub, false);
+
+      expect(output).toEqual({ item: { title: 'Task 1' }, errors: [] });
+      expect(validatorMock).not.toHaveBeenCalled();
+    });
+  });
+});
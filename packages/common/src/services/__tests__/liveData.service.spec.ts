@@ -0,0 +1,332 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { Subject } from 'rxjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContainerServiceStub } from '../../../../../test/containerServiceStub.js';
+import { SlickDataView, SlickEvent, type SlickGrid } from '../../core/index.js';
+import type { Column, GridOption, LiveDataMessage } from '../../interfaces/index.js';
+import { LiveDataService } from '../liveData.service.js';
+
+const createDataset = () => [
+  { id: 1, symbol: 'AAPL', price: 100 },
+  { id: 2, symbol: 'MSFT', price: 200 },
+  { id: 3, symbol: 'TSLA', price: 300 },
+];
+
+const mockColumns = [
+  { id: 'symbol', field: 'symbol' },
+  { id: 'price', field: 'price' },
+] as Column[];
+
+const pubSubServiceStub = {
+  publish: vi.fn(),
+  subscribe: vi.fn(),
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+} as BasePubSubService;
+
+const editorLockStub = { isActive: vi.fn() };
+let gridOptionsMock: GridOption;
+let dataView: SlickDataView;
+
+const gridStub = {
+  getCellNode: vi.fn(),
+  getColumns: () => mockColumns,
+  getData: () => dataView,
+  getEditorLock: () => editorLockStub,
+  getOptions: () => gridOptionsMock,
+  onBeforeCellEditorDestroy: new SlickEvent(),
+} as unknown as SlickGrid;
+
+describe('LiveDataService', () => {
+  let container: ContainerServiceStub;
+  let service: LiveDataService;
+  let frameCallbacks: FrameRequestCallback[];
+
+  /** execute the pending animation frame callbacks */
+  const runAnimationFrame = () => {
+    const callbacks = frameCallbacks;
+    frameCallbacks = [];
+    callbacks.forEach((callback) => callback(0));
+  };
+
+  beforeEach(() => {
+    frameCallbacks = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frameCallbacks.push(callback));
+    vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    gridOptionsMock = { cellFlashingCssClass: 'flashing' } as GridOption;
+    dataView = new SlickDataView({});
+    dataView.setItems(createDataset());
+    editorLockStub.isActive.mockReturnValue(false);
+    container = new ContainerServiceStub();
+    container.registerInstance('PubSubService', pubSubServiceStub);
+    service = new LiveDataService();
+    service.init(gridStub, container);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('should create the service', () => {
+    expect(service).toBeTruthy();
+    expect(service.eventHandler).toBeTruthy();
+    expect(service.addonOptions).toEqual({ flashChangedCells: true, flashDuration: 500, pauseWhileEditing: true });
+  });
+
+  it('should apply the queued messages on the next animation frame as a single batch update', () => {
+    const beginUpdateSpy = vi.spyOn(dataView, 'beginUpdate');
+    const endUpdateSpy = vi.spyOn(dataView, 'endUpdate');
+
+    service.push([
+      { type: 'upsert', item: { id: 4, symbol: 'AMZN', price: 400 } },
+      { type: 'patch', id: 1, changes: { price: 101 } },
+      { type: 'delete', id: 3 },
+    ]);
+    service.push({ type: 'upsert', item: { id: 2, symbol: 'MSFT', price: 201 } });
+
+    expect(service.pendingCount).toBe(4);
+    expect(frameCallbacks.length).toBe(1);
+    expect(dataView.getItemById(1).price).toBe(100);
+
+    runAnimationFrame();
+
+    expect(service.pendingCount).toBe(0);
+    expect(beginUpdateSpy).toHaveBeenCalledTimes(1);
+    expect(endUpdateSpy).toHaveBeenCalledTimes(1);
+    expect(dataView.getItems()).toEqual([
+      { id: 1, symbol: 'AAPL', price: 101 },
+      { id: 2, symbol: 'MSFT', price: 201 },
+      { id: 4, symbol: 'AMZN', price: 400 },
+    ]);
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onLiveDataUpdated', { addedIds: [4], updatedIds: [1, 2], deletedIds: [3] });
+  });
+
+  it('should coalesce the messages of the same item', () => {
+    service.push([
+      { type: 'patch', id: 1, changes: { price: 101 } },
+      { type: 'patch', id: 1, changes: { symbol: 'AAPL.O' } },
+      { type: 'upsert', item: { id: 5, symbol: 'NFLX', price: 500 } },
+      { type: 'patch', id: 5, changes: { price: 501 } },
+      { type: 'delete', id: 2 },
+      { type: 'patch', id: 2, changes: { price: 999 } },
+      { type: 'patch', id: 99, changes: { price: 999 } },
+    ]);
+    expect(service.pendingCount).toBe(4);
+
+    const changes = service.flush();
+
+    expect(changes).toEqual({ addedIds: [5], updatedIds: [1], deletedIds: [2] });
+    expect(dataView.getItems()).toEqual([
+      { id: 1, symbol: 'AAPL.O', price: 101 },
+      { id: 3, symbol: 'TSLA', price: 300 },
+      { id: 5, symbol: 'NFLX', price: 501 },
+    ]);
+  });
+
+  it('should ignore messages without any item id and deletes of items that do not exist', () => {
+    service.push([
+      { type: 'upsert', item: { symbol: 'NOID' } },
+      { type: 'delete', id: 99 },
+    ] as LiveDataMessage[]);
+
+    expect(service.flush()).toEqual({ addedIds: [], updatedIds: [], deletedIds: [] });
+    expect(dataView.getItems().length).toBe(3);
+  });
+
+  it('should read the item id from the "datasetIdPropertyName" grid option', () => {
+    gridOptionsMock.datasetIdPropertyName = 'symbol';
+    service.push({ type: 'upsert', item: { id: 9, symbol: 'IBM', price: 90 } });
+
+    expect(service.flush().addedIds).toEqual(['IBM']);
+  });
+
+  it('should preserve the current sort of the DataView', () => {
+    dataView.sort((a, b) => a.price - b.price, false);
+    expect(dataView.getItems().map((item) => item.id)).toEqual([3, 2, 1]);
+
+    service.push([
+      { type: 'patch', id: 1, changes: { price: 350 } },
+      { type: 'upsert', item: { id: 4, symbol: 'AMZN', price: 250 } },
+    ]);
+    service.flush();
+
+    expect(dataView.getItems().map((item) => item.id)).toEqual([1, 3, 4, 2]);
+  });
+
+  it('should preserve the current filter of the DataView', () => {
+    dataView.setFilter((item) => item.price >= 200);
+    dataView.refresh();
+    expect(dataView.getLength()).toBe(2);
+
+    service.push([
+      { type: 'patch', id: 1, changes: { price: 250 } },
+      { type: 'patch', id: 2, changes: { price: 150 } },
+    ]);
+    service.flush();
+
+    expect(dataView.getFilteredItems().map((item) => item.id)).toEqual([1, 3]);
+  });
+
+  it('should flash the cells which had their value changed and remove the flashing CSS class after the flash duration', () => {
+    vi.useFakeTimers();
+    const cellNode = document.createElement('div');
+    vi.spyOn(gridStub, 'getCellNode').mockReturnValue(cellNode);
+
+    service.push({ type: 'patch', id: 2, changes: { price: 201 } });
+    runAnimationFrame();
+
+    expect(gridStub.getCellNode).toHaveBeenCalledTimes(1);
+    expect(gridStub.getCellNode).toHaveBeenCalledWith(1, 1);
+    expect(cellNode.classList.contains('flashing')).toBe(true);
+
+    vi.advanceTimersByTime(500);
+    expect(cellNode.classList.contains('flashing')).toBe(false);
+    vi.useRealTimers();
+  });
+
+  it('should not flash the cells of the columns having a change indicator when the Change Indicator is enabled', () => {
+    gridOptionsMock.enableChangeIndicator = true;
+    vi.spyOn(gridStub, 'getColumns').mockReturnValueOnce([mockColumns[0], { ...mockColumns[1], changeIndicator: true }]);
+
+    service.push({ type: 'patch', id: 2, changes: { price: 201 } });
+    service.flush();
+
+    expect(gridStub.getCellNode).not.toHaveBeenCalled();
+  });
+
+  it('should not flash any cells when "flashChangedCells" is disabled', () => {
+    gridOptionsMock.liveDataOptions = { flashChangedCells: false };
+
+    service.push({ type: 'patch', id: 2, changes: { price: 201 } });
+    service.flush();
+
+    expect(gridStub.getCellNode).not.toHaveBeenCalled();
+  });
+
+  it('should keep the messages while paused and apply them when resumed', () => {
+    service.pause();
+    service.push({ type: 'patch', id: 1, changes: { price: 101 } });
+    runAnimationFrame();
+
+    expect(service.isPaused).toBe(true);
+    expect(service.pendingCount).toBe(1);
+    expect(dataView.getItemById(1).price).toBe(100);
+
+    service.resume();
+    runAnimationFrame();
+
+    expect(service.isPaused).toBe(false);
+    expect(service.pendingCount).toBe(0);
+    expect(dataView.getItemById(1).price).toBe(101);
+  });
+
+  it('should keep the messages while the user is editing and apply them once the editor is closed', () => {
+    editorLockStub.isActive.mockReturnValue(true);
+    service.push({ type: 'patch', id: 1, changes: { price: 101 } });
+    runAnimationFrame();
+
+    expect(service.pendingCount).toBe(1);
+
+    editorLockStub.isActive.mockReturnValue(false);
+    gridStub.onBeforeCellEditorDestroy.notify({ editor: {} as any, grid: gridStub });
+    runAnimationFrame();
+
+    expect(service.pendingCount).toBe(0);
+    expect(dataView.getItemById(1).price).toBe(101);
+  });
+
+  it('should apply the messages while the user is editing when "pauseWhileEditing" is disabled', () => {
+    gridOptionsMock.liveDataOptions = { pauseWhileEditing: false };
+    editorLockStub.isActive.mockReturnValue(true);
+    service.push({ type: 'patch', id: 1, changes: { price: 101 } });
+    runAnimationFrame();
+
+    expect(dataView.getItemById(1).price).toBe(101);
+  });
+
+  it('should connect to an Observable and stop receiving messages after disconnecting', () => {
+    const source = new Subject<LiveDataMessage | LiveDataMessage[]>();
+    service.connect(source);
+
+    source.next({ type: 'patch', id: 1, changes: { price: 101 } });
+    source.next([{ type: 'delete', id: 3 }]);
+    expect(service.pendingCount).toBe(2);
+
+    service.disconnect();
+    source.next({ type: 'delete', id: 2 });
+    runAnimationFrame();
+
+    expect(source.observed).toBe(false);
+    expect(dataView.getItems().map((item) => item.id)).toEqual([1, 2]);
+  });
+
+  it('should publish an "onLiveDataError" event when the Observable fails', () => {
+    const source = new Subject<LiveDataMessage>();
+    const error = new Error('Connection lost');
+    service.connect(source);
+
+    source.error(error);
+
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onLiveDataError', { error });
+  });
+
+  it('should connect to an async iterable and queue all of its messages', async () => {
+    async function* createSource() {
+      yield { type: 'patch', id: 1, changes: { price: 101 } } as LiveDataMessage;
+      yield [{ type: 'delete', id: 3 }] as LiveDataMessage[];
+    }
+    service.connect(createSource());
+    await vi.waitFor(() => expect(service.pendingCount).toBe(2));
+
+    runAnimationFrame();
+
+    expect(dataView.getItems()).toEqual([
+      { id: 1, symbol: 'AAPL', price: 101 },
+      { id: 2, symbol: 'MSFT', price: 200 },
+    ]);
+  });
+
+  it('should stop consuming an async iterable after disconnecting', async () => {
+    const returnSpy = vi.fn(() => Promise.resolve({ done: true, value: undefined }));
+    let resolveNext: (value: IteratorResult<LiveDataMessage>) => void = () => {};
+    const source = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => new Promise<IteratorResult<LiveDataMessage>>((resolve) => (resolveNext = resolve)),
+        return: returnSpy,
+      }),
+    };
+    service.connect(source);
+
+    service.disconnect();
+    resolveNext({ done: false, value: { type: 'delete', id: 1 } });
+    await Promise.resolve();
+
+    expect(returnSpy).toHaveBeenCalled();
+    expect(service.pendingCount).toBe(0);
+  });
+
+  it('should publish an "onLiveDataError" event when the async iterable fails', async () => {
+    const error = new Error('Connection lost');
+    const source = {
+      [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(error) }),
+    };
+    service.connect(source);
+
+    await vi.waitFor(() => expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onLiveDataError', { error }));
+  });
+
+  it('should throw when the source is neither an Observable nor an async iterable', () => {
+    expect(() => service.connect({} as any)).toThrow('the Live Data source must be an Observable or an async iterable');
+  });
+
+  it('should cancel the pending animation frame and drop the queued messages on dispose', () => {
+    service.push({ type: 'patch', id: 1, changes: { price: 101 } });
+    service.dispose();
+
+    expect(cancelAnimationFrame).toHaveBeenCalled();
+    expect(service.pendingCount).toBe(0);
+    expect(service.flush()).toEqual({ addedIds: [], updatedIds: [], deletedIds: [] });
+  });
+});
@@ -26,8 +26,11 @@ vi.mock('@slickgrid-universal/event-pub-sub', () => ({
 const backendUtilityServiceStub = {
   executeBackendProcessesCallback: vi.fn(),
   executeBackendCallback: vi.fn(),
+  getCachedResult: vi.fn(),
   onBackendError: vi.fn(),
   refreshBackendDataset: vi.fn(),
+  revalidateCachedResult: vi.fn(),
+  setCachedResult: vi.fn(),
 } as unknown as BackendUtilityService;
 
 const dataviewStub = {
@@ -581,6 +584,37 @@ describe('PaginationService', () => {
       expect(backendExecuteSpy).toHaveBeenCalledWith(expect.any(Date), processResult, mockGridOption.backendServiceApi as BackendServiceApi, 85);
     });
 
+    it('should cache the result of the "process" method when it is not yet cached', async () => {
+      const setCacheSpy = vi.spyOn(backendUtilityServiceStub, 'setCachedResult');
+      vi.spyOn(mockBackendService, 'processOnPaginationChanged').mockReturnValue('backend query');
+      const processResult = { users: [{ name: 'John' }] };
+      mockGridOption.backendServiceApi!.process = vi.fn(() => Promise.resolve(processResult));
+
+      service.init(gridStub, mockGridOption.pagination as Pagination, mockGridOption.backendServiceApi);
+      await service.processOnPageChanged(1);
+
+      expect(setCacheSpy).toHaveBeenCalledWith(mockGridOption.backendServiceApi, 'backend query', processResult, undefined);
+    });
+
+    it('should reuse the cached result, without executing the "process" method, and revalidate it when "revalidate" is enabled', async () => {
+      const cachedResult = { users: [{ name: 'John' }] };
+      const backendExecuteSpy = vi.spyOn(backendUtilityServiceStub, 'executeBackendProcessesCallback');
+      const revalidateSpy = vi.spyOn(backendUtilityServiceStub, 'revalidateCachedResult');
+      vi.spyOn(backendUtilityServiceStub, 'getCachedResult').mockReturnValueOnce(cachedResult);
+      vi.spyOn(mockBackendService, 'processOnPaginationChanged').mockReturnValue('backend query');
+      const processSpy = vi.fn();
+      mockGridOption.backendServiceApi!.process = processSpy;
+      mockGridOption.backendServiceApi!.cacheOptions = { revalidate: true };
+
+      service.init(gridStub, mockGridOption.pagination as Pagination, mockGridOption.backendServiceApi);
+      await service.processOnPageChanged(1);
+
+      expect(processSpy).not.toHaveBeenCalled();
+      expect(backendUtilityServiceStub.setCachedResult).not.toHaveBeenCalled();
+      expect(revalidateSpy).toHaveBeenCalledWith(mockGridOption.backendServiceApi, 'backend query', expect.any(Date), 85);
+      expect(backendExecuteSpy).toHaveBeenCalledWith(expect.any(Date), cachedResult, mockGridOption.backendServiceApi as BackendServiceApi, 85);
+    });
+
     it('should call "setPagingOptions" from the DataView and trigger "onPaginationChanged" when using a Local Grid', () => {
       const pubSubSpy = vi.spyOn(mockPubSub, 'publish');
       const setPagingSpy = vi.spyOn(dataviewStub, 'setPagingOptions');
@@ -679,6 +713,28 @@ describe('PaginationService', () => {
       expect(refreshSpy).toHaveBeenCalledWith(true, true);
     });
 
+    it('should call refreshPagination when "onGlobalSearchChanged" is triggered and Pagination is enabled', () => {
+      const resetSpy = vi.spyOn(service, 'resetPagination');
+      const refreshSpy = vi.spyOn(service, 'refreshPagination');
+
+      service.init(gridStub, mockGridOption.pagination as Pagination, mockGridOption.backendServiceApi);
+      fnCallbacks['onGlobalSearchChanged']({ searchTerm: 'John' });
+
+      expect(resetSpy).toHaveBeenCalled();
+      expect(refreshSpy).toHaveBeenCalledWith(true, true);
+    });
+
+    it('should call refreshPagination when "onFilterExpressionChanged" is triggered and Pagination is enabled', () => {
+      const resetSpy = vi.spyOn(service, 'resetPagination');
+      const refreshSpy = vi.spyOn(service, 'refreshPagination');
+
+      service.init(gridStub, mockGridOption.pagination as Pagination, mockGridOption.backendServiceApi);
+      fnCallbacks['onFilterExpressionChanged']({ logic: 'or', conditions: [{ columnId: 'field1', operator: 'EQ', searchTerms: ['John'] }] });
+
+      expect(resetSpy).toHaveBeenCalled();
+      expect(refreshSpy).toHaveBeenCalledWith(true, true);
+    });
+
     it('should call refreshPagination when "onFilterChanged" is triggered and Pagination is enabled', () => {
       const pubSubSpy = vi.spyOn(mockPubSub, 'publish');
       const resetSpy = vi.spyOn(service, 'resetPagination');
@@ -711,6 +767,18 @@ describe('PaginationService', () => {
       expect(resetSpy).toHaveBeenCalled();
       expect(refreshSpy).toHaveBeenCalledWith(true, true);
     });
+
+    it('should call reset and refreshPagination when "onGroupingChanged" is triggered and Server-Side Grouping is enabled', () => {
+      const resetSpy = vi.spyOn(service, 'resetPagination');
+      const refreshSpy = vi.spyOn(service, 'refreshPagination');
+      mockGridOption.backendServiceApi!.options.serverSideGrouping = true;
+
+      service.init(gridStub, mockGridOption.pagination as Pagination, mockGridOption.backendServiceApi);
+      fnCallbacks['onGroupingChanged']({ groupingInfos: [] });
+
+      expect(resetSpy).toHaveBeenCalled();
+      expect(refreshSpy).toHaveBeenCalledWith(true, true);
+    });
   });
 
   describe('resetPagination method', () => {
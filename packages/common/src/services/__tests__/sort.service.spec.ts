@@ -706,7 +706,7 @@ describe('SortService', () => {
 
       await new Promise(process.nextTick);
 
-      expect(spyOnError).toHaveBeenCalledWith(errorExpected);
+      expect(spyOnError).toHaveBeenCalledWith(errorExpected, expect.objectContaining({ type: 'unknown', attempts: 1 }));
       expect(applySortIconSpy).toHaveBeenCalledWith([mockPreviousSortedCol]);
       expect(backendUpdateSpy).toHaveBeenCalledWith([mockPreviousSortedCol]);
     });
@@ -726,7 +726,7 @@ describe('SortService', () => {
 
       await new Promise(process.nextTick);
 
-      expect(spyOnError).toHaveBeenCalledWith(errorExpected);
+      expect(spyOnError).toHaveBeenCalledWith(errorExpected, expect.objectContaining({ type: 'unknown', attempts: 1 }));
     });
   });
 
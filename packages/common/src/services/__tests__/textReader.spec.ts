@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import type { TextFileFormat } from '../../interfaces/index.js';
+import { detectTextEncoding, readBlobChunks, readTextRows, sniffTextFormat } from '../textReader.js';
+
+async function readAllRows(file: Blob, options?: Partial<TextFileFormat>, detectedFormat?: Partial<TextFileFormat>) {
+  const rows: Array<{ rowNumber: number; values: string[] }> = [];
+  for await (const row of readTextRows(file, options, detectedFormat)) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** create a file which is streamed with the provided chunks */
+function createChunkedFile(textChunks: string[]): Blob {
+  const chunks = textChunks.map((text) => new TextEncoder().encode(text));
+  return {
+    stream: () => ({
+      getReader: () => ({
+        read: async () => (chunks.length ? { done: false, value: chunks.shift() } : { done: true, value: undefined }),
+      }),
+    }),
+  } as unknown as Blob;
+}
+
+describe('textReader', () => {
+  describe('readBlobChunks method', () => {
+    it('should read all chunks of a Blob', async () => {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of readBlobChunks(new Blob(['abc']))) {
+        chunks.push(chunk);
+      }
+      expect(new TextDecoder().decode(chunks[0])).toBe('abc');
+    });
+
+    it('should read the Blob as an ArrayBuffer when streaming is not available', async () => {
+      const blob = new Blob(['abc']);
+      Object.defineProperty(blob, 'stream', { value: undefined });
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of readBlobChunks(blob)) {
+        chunks.push(chunk);
+      }
+      expect(new TextDecoder().decode(chunks[0])).toBe('abc');
+    });
+  });
+
+  describe('detectTextEncoding method', () => {
+    it('should detect the encoding by the Byte Order Mark or else return the default encoding', () => {
+      expect(detectTextEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]), 'windows-1252')).toBe('utf-8');
+      expect(detectTextEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+      expect(detectTextEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x41]))).toBe('utf-16be');
+      expect(detectTextEncoding(new Uint8Array([0x41]))).toBe('utf-8');
+      expect(detectTextEncoding(new Uint8Array([0x41]), 'windows-1252')).toBe('windows-1252');
+    });
+  });
+
+  describe('sniffTextFormat method', () => {
+    it('should detect the double quotes and the comma delimiter of a CSV export, while ignoring delimiters inside quoted values', () => {
+      const sample = '"Title","Note"\n"Task 1","a; b; c"\n="1E06","d;e"\n';
+      expect(sniffTextFormat(sample)).toEqual({ delimiter: ',', quoteChar: '"' });
+    });
+
+    it('should detect a TXT export without quotes and ignore the group title rows without any delimiter', () => {
+      const sample = 'Group By\tTitle\tDuration\nDuration: 5 (2 items)\n\tTask 1\t5\n\tTask 2\t5\nDuration: 10 (1 items)\n\tTask 3\t10';
+      expect(sniffTextFormat(sample)).toEqual({ delimiter: '\t', quoteChar: '' });
+    });
+
+    it('should prefer a multi-characters delimiter over its single character and ignore the partial last line of an incomplete sample', () => {
+      expect(sniffTextFormat('Title;;Time\nTask 1;;10:30\nTask 2;;11:30\nTask 3;;12', false)).toEqual({ delimiter: ';;', quoteChar: '' });
+      expect(sniffTextFormat('Title::Time\nTask 1::10:30\nTask 2::11:30\n')).toEqual({ delimiter: '::', quoteChar: '' });
+    });
+
+    it('should use the provided delimiter and quote character and default to a comma when no delimiter is found', () => {
+      expect(sniffTextFormat('a|b\nc|d', true, { delimiter: ';', quoteChar: "'" })).toEqual({ delimiter: ';', quoteChar: "'" });
+      expect(sniffTextFormat('Title\nTask 1')).toEqual({ delimiter: ',', quoteChar: '' });
+    });
+  });
+
+  describe('readTextRows method', () => {
+    it('should read a CSV export with its UTF-8 BOM, escaped quotes, line breaks and values forced to be kept as string', async () => {
+      const detectedFormat: Partial<TextFileFormat> = {};
+      const rows = await readAllRows(
+        new Blob(['\uFEFF"Title","Note","Code"\r\n"Task, 1","He said ""Hi""\non 2 lines",="1E06"\r\n"","",=""\r\n"Task 2","last","x"']),
+        undefined,
+        detectedFormat
+      );
+
+      expect(detectedFormat).toEqual({ delimiter: ',', encoding: 'utf-8', quoteChar: '"' });
+      expect(rows).toEqual([
+        { rowNumber: 1, values: ['Title', 'Note', 'Code'] },
+        { rowNumber: 2, values: ['Task, 1', 'He said "Hi"\non 2 lines', '1E06'] },
+        { rowNumber: 3, values: ['', '', ''] },
+        { rowNumber: 4, values: ['Task 2', 'last', 'x'] },
+      ]);
+    });
+
+    it('should read a TXT export without quotes, keeping any quote as part of the value', async () => {
+      const rows = await readAllRows(new Blob(['Title;Note\nTask 1;"quoted"\n']));
+
+      expect(rows).toEqual([
+        { rowNumber: 1, values: ['Title', 'Note'] },
+        { rowNumber: 2, values: ['Task 1', '"quoted"'] },
+      ]);
+    });
+
+    it('should decode a UTF-16 file with its BOM', async () => {
+      const text = 'Title\tCity\nTask 1\tMontréal\n';
+      const bytes = new Uint8Array(2 + text.length * 2);
+      bytes.set([0xff, 0xfe]);
+      for (let i = 0; i < text.length; i++) {
+        bytes[2 + i * 2] = text.charCodeAt(i);
+        bytes[3 + i * 2] = 0;
+      }
+      const detectedFormat: Partial<TextFileFormat> = {};
+      const rows = await readAllRows(new Blob([bytes]), undefined, detectedFormat);
+
+      expect(detectedFormat).toEqual({ delimiter: '\t', encoding: 'utf-16le', quoteChar: '' });
+      expect(rows).toEqual([
+        { rowNumber: 1, values: ['Title', 'City'] },
+        { rowNumber: 2, values: ['Task 1', 'Montréal'] },
+      ]);
+    });
+
+    it('should parse a multi-characters delimiter and a quoted value split across chunks', async () => {
+      const rows = await readAllRows(createChunkedFile(['"Title"||"Note"\n"Task 1"|', '|"a ""b', '"" c"\n"Task 2"||"x"']));
+
+      expect(rows).toEqual([
+        { rowNumber: 1, values: ['Title', 'Note'] },
+        { rowNumber: 2, values: ['Task 1', 'a "b" c'] },
+        { rowNumber: 3, values: ['Task 2', 'x'] },
+      ]);
+    });
+
+    it('should detect the format from the start of a large file before parsing all of its rows', async () => {
+      const lines = Array.from({ length: 5000 }, (_, idx) => `Task ${idx}|${idx * 10}|Description of task ${idx}`);
+      const detectedFormat: Partial<TextFileFormat> = {};
+      const rows = await readAllRows(createChunkedFile([`Title|Duration|Description\n${lines.join('\n')}`]), undefined, detectedFormat);
+
+      expect(detectedFormat.delimiter).toBe('|');
+      expect(rows).toHaveLength(5001);
+      expect(rows[5000]).toEqual({ rowNumber: 5001, values: ['Task 4999', '49990', 'Description of task 4999'] });
+    });
+
+    it('should use the provided encoding, delimiter and quote character', async () => {
+      const detectedFormat: Partial<TextFileFormat> = {};
+      const rows = await readAllRows(
+        new Blob([new Uint8Array([0x41, 0x3b, 0xe9])]),
+        { delimiter: ';', encoding: 'windows-1252', quoteChar: '' },
+        detectedFormat
+      );
+
+      expect(detectedFormat).toEqual({ delimiter: ';', encoding: 'windows-1252', quoteChar: '' });
+      expect(rows).toEqual([{ rowNumber: 1, values: ['A', 'é'] }]);
+    });
+  });
+});
@@ -0,0 +1,436 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SlickDataView, SlickEvent, SlickEventData, type SlickGrid } from '../../core/index.js';
+import type { Column, EditCommand, GridOption } from '../../interfaces/index.js';
+import type { ExtensionService } from '../extension.service.js';
+import { UndoRedoService } from '../undoRedo.service.js';
+
+let gridOptionsMock: GridOption;
+
+const editorLockStub = {
+  isActive: vi.fn(),
+  cancelCurrentEdit: vi.fn(),
+};
+
+const gridStub = {
+  getData: vi.fn(),
+  getEditorLock: () => editorLockStub,
+  getOptions: () => gridOptionsMock,
+  invalidate: vi.fn(),
+  setOptions: (options: GridOption) => (gridOptionsMock = { ...gridOptionsMock, ...options }),
+  onKeyDown: new SlickEvent(),
+} as unknown as SlickGrid;
+
+const extensionServiceStub = {
+  getExtensionInstanceByName: vi.fn(),
+} as unknown as ExtensionService;
+
+const pubSubServiceStub = {
+  publish: vi.fn(),
+  subscribe: vi.fn(),
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+} as BasePubSubService;
+
+function createEditCommand(item: any, field: string, prevValue: any, newValue: any): EditCommand {
+  return {
+    row: 0,
+    cell: 0,
+    editor: {} as any,
+    serializedValue: newValue,
+    prevSerializedValue: prevValue,
+    execute: () => (item[field] = newValue),
+    undo: () => (item[field] = prevValue),
+  };
+}
+
+function triggerKeyDown(key: string, options?: KeyboardEventInit) {
+  const keyboardEvent = new KeyboardEvent('keydown', { key, ...options });
+  const preventDefaultSpy = vi.spyOn(keyboardEvent, 'preventDefault');
+  gridStub.onKeyDown.notify({ grid: gridStub } as any, new SlickEventData(keyboardEvent), gridStub);
+  return preventDefaultSpy;
+}
+
+describe('UndoRedo Service', () => {
+  let dataView: SlickDataView;
+  let service: UndoRedoService;
+
+  beforeEach(() => {
+    gridOptionsMock = { enableUndoRedo: true };
+    editorLockStub.isActive.mockReturnValue(false);
+    editorLockStub.cancelCurrentEdit.mockReturnValue(true);
+    dataView = new SlickDataView({});
+    dataView.setItems([
+      { id: 0, firstName: 'John', lastName: 'Doe' },
+      { id: 1, firstName: 'Jane', lastName: 'Smith' },
+      { id: 2, firstName: 'Bob', lastName: 'Jones' },
+    ]);
+    vi.spyOn(gridStub, 'getData').mockReturnValue(dataView);
+    service = new UndoRedoService(extensionServiceStub, pubSubServiceStub);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    vi.clearAllMocks();
+  });
+
+  it('should create the service', () => {
+    expect(service).toBeTruthy();
+    expect(service.eventHandler).toBeTruthy();
+    expect(service.addonOptions).toEqual({ enableKeyboardShortcuts: true, maxHistoryDepth: 100 });
+  });
+
+  it('should not record anything when the service is not yet initialized', () => {
+    const item = dataView.getItemById(0);
+    service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Johnny'));
+
+    expect(item.firstName).toBe('Johnny');
+    expect(service.canUndo()).toBe(false);
+    expect(pubSubServiceStub.publish).not.toHaveBeenCalled();
+  });
+
+  describe('cell edits', () => {
+    it('should chain the grid edit command handler and record the cell edit that can then be undone and redone', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      gridOptionsMock.editCommandHandler!(item, { id: 'firstName' } as Column, createEditCommand(item, 'firstName', 'John', 'Johnny'));
+
+      expect(item.firstName).toBe('Johnny');
+      expect(service.canUndo()).toBe(true);
+      expect(service.undoCount).toBe(1);
+
+      service.undo();
+      expect(item.firstName).toBe('John');
+      expect(service.canUndo()).toBe(false);
+      expect(service.canRedo()).toBe(true);
+      expect(gridStub.invalidate).toHaveBeenCalled();
+
+      service.redo();
+      expect(item.firstName).toBe('Johnny');
+      expect(service.undoCount).toBe(1);
+      expect(service.redoCount).toBe(0);
+    });
+
+    it('should call any existing edit command handler instead of executing the command itself', () => {
+      const existingHandlerMock = vi.fn((_item, _col, editCommand: EditCommand) => editCommand.execute());
+      gridOptionsMock.editCommandHandler = existingHandlerMock;
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      const editCommand = createEditCommand(item, 'firstName', 'John', 'Johnny');
+      gridOptionsMock.editCommandHandler!(item, { id: 'firstName' } as Column, editCommand);
+
+      expect(existingHandlerMock).toHaveBeenCalledWith(item, { id: 'firstName' }, editCommand);
+      expect(item.firstName).toBe('Johnny');
+      expect(service.undoCount).toBe(1);
+    });
+
+    it('should restore the previous edit command handler when disposing the service', () => {
+      const existingHandlerMock = vi.fn();
+      gridOptionsMock.editCommandHandler = existingHandlerMock;
+      service.init(gridStub);
+      expect(gridOptionsMock.editCommandHandler).not.toBe(existingHandlerMock);
+
+      service.dispose();
+      expect(gridOptionsMock.editCommandHandler).toBe(existingHandlerMock);
+    });
+
+    it('should not undo anything when the current editor cannot be cancelled', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Johnny'));
+      editorLockStub.cancelCurrentEdit.mockReturnValue(false);
+      service.undo();
+
+      expect(item.firstName).toBe('Johnny');
+      expect(service.undoCount).toBe(1);
+    });
+
+    it('should clear the redo history when a new change is recorded after an undo', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Johnny'));
+      service.undo();
+      expect(service.canRedo()).toBe(true);
+
+      service.queueAndExecuteCommand(createEditCommand(item, 'lastName', 'Doe', 'Dow'));
+      expect(service.canRedo()).toBe(false);
+      expect(service.undoCount).toBe(1);
+    });
+  });
+
+  describe('transactions & history', () => {
+    it('should undo/redo all the commands of a transaction as a single action and in reverse order', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      service.beginTransaction();
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Johnny'));
+      service.beginTransaction(); // nested transactions are merged into the outer transaction
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'Johnny', 'Jon'));
+      service.endTransaction();
+      expect(service.undoCount).toBe(0);
+      service.endTransaction();
+
+      expect(service.undoCount).toBe(1);
+      service.undo();
+      expect(item.firstName).toBe('John');
+      service.redo();
+      expect(item.firstName).toBe('Jon');
+    });
+
+    it('should not add any empty transaction to the history', () => {
+      service.init(gridStub);
+      service.beginTransaction();
+      service.endTransaction();
+      service.endTransaction(); // extra call should be ignored
+
+      expect(service.canUndo()).toBe(false);
+    });
+
+    it('should drop the oldest transactions when reaching the max history depth', () => {
+      gridOptionsMock.undoRedoOptions = { maxHistoryDepth: 2 };
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'A'));
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'A', 'B'));
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'B', 'C'));
+
+      expect(service.undoCount).toBe(2);
+      service.undo();
+      service.undo();
+      service.undo(); // nothing left to undo
+      expect(item.firstName).toBe('A');
+    });
+
+    it('should publish an "onUndoRedoStateChanged" event every time the history changes', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Johnny'), 'cellEdit');
+      expect(pubSubServiceStub.publish).toHaveBeenLastCalledWith('onUndoRedoStateChanged', {
+        action: 'add',
+        transactionType: 'cellEdit',
+        canUndo: true,
+        canRedo: false,
+        undoCount: 1,
+        redoCount: 0,
+      });
+
+      service.undo();
+      expect(pubSubServiceStub.publish).toHaveBeenLastCalledWith('onUndoRedoStateChanged', {
+        action: 'undo',
+        transactionType: 'cellEdit',
+        canUndo: false,
+        canRedo: true,
+        undoCount: 0,
+        redoCount: 1,
+      });
+
+      service.clearHistory();
+      expect(pubSubServiceStub.publish).toHaveBeenLastCalledWith('onUndoRedoStateChanged', {
+        action: 'clear',
+        transactionType: undefined,
+        canUndo: false,
+        canRedo: false,
+        undoCount: 0,
+        redoCount: 0,
+      });
+    });
+  });
+
+  describe('keyboard shortcuts', () => {
+    it('should undo with Ctrl+Z and redo with Ctrl+Y or Ctrl+Shift+Z', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Johnny'));
+
+      const preventDefaultSpy = triggerKeyDown('z', { ctrlKey: true });
+      expect(item.firstName).toBe('John');
+      expect(preventDefaultSpy).toHaveBeenCalled();
+
+      triggerKeyDown('y', { ctrlKey: true });
+      expect(item.firstName).toBe('Johnny');
+
+      triggerKeyDown('z', { metaKey: true });
+      triggerKeyDown('Z', { ctrlKey: true, shiftKey: true });
+      expect(item.firstName).toBe('Johnny');
+    });
+
+    it('should not undo when an editor is active or when it is not an undo/redo shortcut', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Johnny'));
+
+      const preventDefaultSpy = triggerKeyDown('c', { ctrlKey: true });
+      triggerKeyDown('z');
+      triggerKeyDown('z', { ctrlKey: true, altKey: true });
+      editorLockStub.isActive.mockReturnValue(true);
+      triggerKeyDown('z', { ctrlKey: true });
+
+      expect(preventDefaultSpy).not.toHaveBeenCalled();
+      expect(item.firstName).toBe('Johnny');
+    });
+
+    it('should not bind any keyboard shortcuts when "enableKeyboardShortcuts" is disabled', () => {
+      gridOptionsMock.undoRedoOptions = { enableKeyboardShortcuts: false };
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      service.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Johnny'));
+      triggerKeyDown('z', { ctrlKey: true });
+
+      expect(item.firstName).toBe('Johnny');
+    });
+  });
+
+  describe('item changes', () => {
+    it('should record added items which are deleted on undo and re-inserted at the same index on redo', () => {
+      service.init(gridStub);
+      const newItem = { id: 3, firstName: 'Alice', lastName: 'Brown' };
+      dataView.insertItem(1, newItem);
+      service.recordAddedItems([newItem]);
+
+      service.undo();
+      expect(dataView.getItemById(3)).toBeUndefined();
+      expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onItemsDeleted', [newItem]);
+
+      service.redo();
+      expect(dataView.getIdxById(3)).toBe(1);
+      expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onItemsAdded', [newItem]);
+    });
+
+    it('should record deleted items which are re-inserted at their original index on undo', () => {
+      service.init(gridStub);
+      const deletedItems = [dataView.getItemById(0), dataView.getItemById(2)];
+      service.recordDeletedItems(deletedItems);
+      dataView.deleteItems([0, 2]);
+
+      service.undo();
+      expect(dataView.getItems().map((item) => item.id)).toEqual([0, 1, 2]);
+
+      service.redo();
+      expect(dataView.getItems().map((item) => item.id)).toEqual([1]);
+    });
+
+    it('should record updated items and restore their previous properties on undo while keeping the same item references', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(1);
+      const previousItems = [{ ...item }, { ...dataView.getItemById(2) }];
+      const updatedItems = [
+        { id: 1, firstName: 'Janet', lastName: 'Smith', age: 30 },
+        { ...dataView.getItemById(2) }, // unchanged item should not be recorded
+      ];
+      dataView.updateItems([1, 2], updatedItems);
+      service.recordUpdatedItems(previousItems, updatedItems);
+
+      service.undo();
+      const restoredItem = dataView.getItemById(1);
+      expect(restoredItem).toEqual({ id: 1, firstName: 'Jane', lastName: 'Smith' });
+      expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onItemsUpdated', [restoredItem]);
+
+      service.redo();
+      expect(dataView.getItemById(1)).toBe(restoredItem);
+      expect(restoredItem).toEqual({ id: 1, firstName: 'Janet', lastName: 'Smith', age: 30 });
+    });
+
+    it('should record an item modified in place before calling the GridService "updateItem" by comparing it with its last known values', () => {
+      service.init(gridStub);
+      const item = dataView.getItemById(1);
+      gridOptionsMock.editCommandHandler!(item, { id: 'lastName' } as Column, createEditCommand(item, 'lastName', 'Smith', 'Smyth'));
+
+      // same as GridService "updateItem()" which provides the DataView item as the previous item, which is the same object when modified in place
+      item.firstName = 'Janet';
+      item.age = 30;
+      service.recordUpdatedItems([dataView.getItemById(1)], [item]);
+      dataView.updateItem(1, item);
+      expect(service.undoCount).toBe(2);
+
+      // the undo should only revert the in place changes and not the previous cell edit
+      service.undo();
+      expect(dataView.getItemById(1)).toBe(item);
+      expect(item).toEqual({ id: 1, firstName: 'Jane', lastName: 'Smyth' });
+
+      service.redo();
+      expect(item).toEqual({ id: 1, firstName: 'Janet', lastName: 'Smyth', age: 30 });
+    });
+
+    it('should compare an item modified in place with the values of the new dataset after the DataView items are replaced', () => {
+      service.init(gridStub);
+      dataView.setItems([{ id: 5, firstName: 'Mike', lastName: 'Brown' }]);
+      const item = dataView.getItemById(5);
+      item.firstName = 'Michael';
+      service.recordUpdatedItems([item], [item]);
+
+      service.undo();
+      expect(item).toEqual({ id: 5, firstName: 'Mike', lastName: 'Brown' });
+    });
+
+    it('should not record any item changes that have no changes or when using Tree Data', () => {
+      service.init(gridStub);
+      service.recordUpdatedItems([{ id: 0, firstName: 'John' }], [{ id: 0, firstName: 'John' }]);
+      service.recordAddedItems([]);
+      expect(service.canUndo()).toBe(false);
+
+      gridOptionsMock.enableTreeData = true;
+      service.recordDeletedItems([dataView.getItemById(0)]);
+      expect(service.canUndo()).toBe(false);
+    });
+
+    it('should not record any changes made while undoing or redoing', () => {
+      service.init(gridStub);
+      const command = { execute: vi.fn(), undo: vi.fn(() => service.recordAddedItems([dataView.getItemById(0)])) };
+      service.addCommand(command);
+      service.undo();
+
+      expect(command.undo).toHaveBeenCalled();
+      expect(service.undoCount).toBe(0);
+      expect(service.redoCount).toBe(1);
+    });
+  });
+
+  describe('extensions', () => {
+    it('should replace the Excel Copy Buffer undo buffer so that its pastes are recorded as "paste" transactions', () => {
+      const copyManagerMock = { undoRedoBuffer: undefined as any };
+      vi.spyOn(extensionServiceStub, 'getExtensionInstanceByName').mockImplementation(((name: string) =>
+        name === 'cellExternalCopyManager' ? copyManagerMock : undefined) as any);
+      service.init(gridStub);
+      const item = dataView.getItemById(0);
+      copyManagerMock.undoRedoBuffer.queueAndExecuteCommand(createEditCommand(item, 'firstName', 'John', 'Pasted'));
+
+      expect(item.firstName).toBe('Pasted');
+      expect(pubSubServiceStub.publish).toHaveBeenLastCalledWith('onUndoRedoStateChanged', expect.objectContaining({ transactionType: 'paste' }));
+
+      copyManagerMock.undoRedoBuffer.undo();
+      expect(item.firstName).toBe('John');
+      copyManagerMock.undoRedoBuffer.redo();
+      expect(item.firstName).toBe('Pasted');
+    });
+
+    it('should record Row Moves by comparing the dataset before and after the move', () => {
+      const rowMoveManagerMock = { onBeforeMoveRows: new SlickEvent(), onMoveRows: new SlickEvent() };
+      vi.spyOn(extensionServiceStub, 'getExtensionInstanceByName').mockImplementation(((name: string) =>
+        name === 'rowMoveManager' ? rowMoveManagerMock : undefined) as any);
+      service.init(gridStub);
+
+      rowMoveManagerMock.onBeforeMoveRows.notify({ grid: gridStub, rows: [0], insertBefore: 3 });
+      const [item0, item1, item2] = dataView.getItems();
+      dataView.setItems([item1, item2, item0]);
+      rowMoveManagerMock.onMoveRows.notify({ grid: gridStub, rows: [0], insertBefore: 3 });
+
+      expect(service.undoCount).toBe(1);
+      service.undo();
+      expect(dataView.getItems().map((item) => item.id)).toEqual([0, 1, 2]);
+      service.redo();
+      expect(dataView.getItems().map((item) => item.id)).toEqual([1, 2, 0]);
+    });
+
+    it('should not record a Row Move when the dataset order did not change', () => {
+      const rowMoveManagerMock = { onBeforeMoveRows: new SlickEvent(), onMoveRows: new SlickEvent() };
+      vi.spyOn(extensionServiceStub, 'getExtensionInstanceByName').mockImplementation(((name: string) =>
+        name === 'rowMoveManager' ? rowMoveManagerMock : undefined) as any);
+      service.init(gridStub);
+
+      rowMoveManagerMock.onBeforeMoveRows.notify({ grid: gridStub, rows: [0], insertBefore: 0 });
+      rowMoveManagerMock.onMoveRows.notify({ grid: gridStub, rows: [0], insertBefore: 0 });
+
+      expect(service.canUndo()).toBe(false);
+    });
+  });
+});
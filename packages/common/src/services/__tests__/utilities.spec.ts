@@ -3,6 +3,7 @@ import { of } from 'rxjs';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { basicFetchStub } from '../../../../../test/httpClientStub.js';
 import { RxJsResourceStub } from '../../../../../test/rxjsResourceStub.js';
+import { MedianAggregator } from '../../aggregators/medianAggregator.js';
 import { SumAggregator } from '../../aggregators/sumAggregator.js';
 import { Constants } from '../../constants.js';
 import { applyHtmlToElement } from '../../core/utils.js';
@@ -483,6 +484,35 @@ describe('Service/Utilies', () => {
       ]);
     });
 
+    it('should return a flat array from a hierarchical structure and tree totals aggregation of an Aggregator keeping all values of each parent', () => {
+      const aggregator = new MedianAggregator('size');
+      addTreeLevelAndAggregatorsByMutation(mockTreeArray, { aggregator, childrenPropName: 'files', levelPropName: '__treeLevel' });
+      const output = flattenToParentChildArray(mockTreeArray, { childrenPropName: 'files' });
+      expect(output).toEqual([
+        { id: 18, size: 90, __treeLevel: 0, dateModified: '2015-03-03', file: 'something.txt', __parentId: null, __hasChildren: false },
+        {
+          id: 11,
+          __treeLevel: 0,
+          file: 'Music',
+          __parentId: null,
+          __hasChildren: true,
+          __treeTotals: { median: { size: 91.5 }, medianValues: { size: [98, 85] } },
+        },
+        {
+          id: 12,
+          __treeLevel: 1,
+          file: 'mp3',
+          __parentId: 11,
+          __hasChildren: true,
+          __treeTotals: { median: { size: 91.5 }, medianValues: { size: [98, 85] } },
+        },
+        { id: 16, __treeLevel: 2, file: 'rock', __parentId: 12, __hasChildren: true, __treeTotals: { median: { size: 98 }, medianValues: { size: [98] } } },
+        { id: 17, __treeLevel: 3, dateModified: '2015-05-13', file: 'soft.mp3', size: 98, __parentId: 16, __hasChildren: false },
+        { id: 14, __treeLevel: 2, file: 'pop', __parentId: 12, __hasChildren: true, __treeTotals: { median: { size: 85 }, medianValues: { size: [85] } } },
+        { id: 15, __treeLevel: 3, dateModified: '2015-03-01', file: 'theme.mp3', size: 85, __parentId: 14, __hasChildren: false },
+      ]);
+    });
+
     it('should return a flat array from a hierarchical structure and tree totals aggregation and tree level number as well', () => {
       const aggregator = new SumAggregator('size');
       addTreeLevelAndAggregatorsByMutation(mockTreeArray, { aggregator, childrenPropName: 'files', levelPropName: '__treeLevel' });
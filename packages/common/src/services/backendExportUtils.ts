@@ -0,0 +1,118 @@
+import type { BackendServerExportArgs, BackendService, BackendServiceApi, CursorPageInfo } from '../interfaces/index.js';
+
+const DEFAULT_EXPORT_CHUNK_SIZE = 1000;
+
+/**
+ * Get the export mode of a Backend Service API, it is always "local" when the grid is not using a Backend Service
+ * @param {BackendServiceApi} [backendApi] - Backend Service API
+ */
+export function getBackendExportMode(backendApi?: BackendServiceApi): 'local' | 'fetchAll' | 'server' {
+  return (backendApi && backendApi.exportOptions?.mode) || 'local';
+}
+
+/**
+ * Fetch all the items of the current query (with its filters & sorting) by re-running the query, page by page (of `chunkSize` items), until all the items are loaded.
+ * The cursor based pagination is also supported, the next chunk is then fetched until the cursor page info has no next page.
+ * The pagination of the Backend Service is restored once all the items are fetched and the user's `postProcess` callback is never executed.
+ * @param {BackendServiceApi} backendApi - Backend Service API, its service must implement the `updatePagination` and `getDatasetFromProcessResult` methods
+ * @returns {Promise<Array<Object>>} all the items of the current query
+ */
+export async function fetchAllBackendItems(backendApi: BackendServiceApi): Promise<any[]> {
+  const service = backendApi.service;
+  if (typeof service?.updatePagination !== 'function' || typeof service.getDatasetFromProcessResult !== 'function') {
+    throw new Error(
+      '[Slickgrid-Universal] the "fetchAll" export mode requires a Backend Service implementing the "updatePagination" and "getDatasetFromProcessResult" methods.'
+    );
+  }
+  const { chunkSize = DEFAULT_EXPORT_CHUNK_SIZE, maxItems, onProgress } = backendApi.exportOptions ?? {};
+  const isCursorBased = !!backendApi.options?.useCursor;
+
+  return executeWithBackendPaginationRestore(service, async () => {
+    const items: any[] = [];
+    let pageInfo: CursorPageInfo | undefined;
+    let totalItems: number | undefined;
+
+    for (let pageNumber = 1; ; pageNumber++) {
+      if (isCursorBased) {
+        const afterCursor = pageInfo?.endCursor ? { after: pageInfo.endCursor } : {};
+        service.updatePagination!(pageNumber, chunkSize, { newPage: pageNumber, pageSize: chunkSize, first: chunkSize, ...afterCursor });
+      } else {
+        service.updatePagination!(pageNumber, chunkSize);
+      }
+      const processResult = await executeBackendProcess(backendApi, service.buildQuery(), service.getQueryVariables?.());
+
+      // the service post process could still change the result (e.g. flatten the OData navigation properties)
+      service.postProcess?.(processResult);
+      const result = service.getDatasetFromProcessResult!(processResult);
+      const dataset = Array.isArray(result?.dataset) ? result.dataset : [];
+      items.push(...dataset);
+      totalItems ??= result?.totalItems;
+      pageInfo = result?.pageInfo;
+      onProgress?.(items.length, totalItems);
+
+      const hasMoreItems = isCursorBased
+        ? !!(pageInfo?.hasNextPage && pageInfo.endCursor)
+        : dataset.length >= chunkSize && (totalItems === undefined || items.length < totalItems);
+      if (!hasMoreItems || (maxItems !== undefined && items.length >= maxItems)) {
+        break;
+      }
+    }
+    return maxItems !== undefined ? items.slice(0, maxItems) : items;
+  });
+}
+
+/**
+ * Delegate an export to the server by executing the `serverExport` callback of the Backend Service API with the query of all the items of the current query,
+ * that query is the current query (with its filters & sorting) with a 1st page that has all the items (when the total item count is known)
+ * @param {BackendServiceApi} backendApi - Backend Service API
+ * @param {BackendServerExportArgs} args - export arguments (columns, filename & format) which are provided to the `serverExport` callback
+ * @param {Number} [totalItems] - total item count of the current query
+ */
+export async function executeBackendServerExport(
+  backendApi: BackendServiceApi,
+  args: Omit<BackendServerExportArgs, 'variables'>,
+  totalItems?: number
+): Promise<void> {
+  const serverExport = backendApi.exportOptions?.serverExport;
+  if (typeof serverExport !== 'function') {
+    throw new Error(
+      '[Slickgrid-Universal] the "server" export mode requires a "serverExport" callback in the Backend Service API "exportOptions".'
+    );
+  }
+  const service = backendApi.service;
+
+  const { query, variables } = await executeWithBackendPaginationRestore(service, async () => {
+    if (totalItems && typeof service.updatePagination === 'function') {
+      service.updatePagination(1, totalItems);
+    }
+    return { query: service.buildQuery(), variables: service.getQueryVariables?.() };
+  });
+  await serverExport(query, { ...args, variables });
+}
+
+/** Execute the process of the Backend Service API, the process could return a Promise or an Observable (which is converted to a Promise of its first value) */
+function executeBackendProcess(backendApi: BackendServiceApi, query: string, variables?: Record<string, any>): Promise<any> {
+  const process: any = backendApi.process(query, { variables });
+  if (typeof process?.then !== 'function' && typeof process?.subscribe === 'function') {
+    return new Promise((resolve, reject) => process.subscribe({ next: resolve, error: reject }));
+  }
+  return Promise.resolve(process);
+}
+
+/** Execute a callback that changes the pagination of the Backend Service and then restore its pagination (even when the callback fails) */
+async function executeWithBackendPaginationRestore<T>(service: BackendService, callback: () => Promise<T>): Promise<T> {
+  const currentPagination = service.getCurrentPagination?.();
+  const paginationOptions = service.options?.paginationOptions;
+
+  try {
+    return await callback();
+  } finally {
+    if (currentPagination) {
+      service.updatePagination?.(currentPagination.pageNumber, currentPagination.pageSize);
+    }
+    // the cursor based pagination options (e.g. "after" cursor) can't be rebuilt from the current pagination, so we restore them as is
+    if (paginationOptions !== undefined) {
+      service.updateOptions({ paginationOptions });
+    }
+  }
+}
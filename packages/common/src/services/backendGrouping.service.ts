@@ -0,0 +1,321 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { SlickEventHandler, SlickGroup, SlickGroupTotals, type SlickDataView, type SlickGrid } from '../core/index.js';
+import type {
+  BackendServiceApi,
+  BackendServiceDatasetResult,
+  BackendServiceGroupBy,
+  BackendServiceGroupResult,
+  BackendServiceGroupsResult,
+  Column,
+  CursorPageInfo,
+  GridOption,
+} from '../interfaces/index.js';
+import type { BackendUtilityService } from './backendUtility.service.js';
+import type { Observable, RxJsFacade } from './rxjsFacade.js';
+
+/** same grouping key delimiter as the DataView, so that the group can also be expanded/collapsed by calling the DataView `expandGroup()`/`collapseGroup()` */
+const GROUPING_KEY_DELIMITER = ':|:';
+
+/**
+ * Backend Grouping Service, used by the server-side grouping (`serverSideGrouping: true` in the Backend Service options).
+ * The DataView grouping (for example from the Draggable Grouping) and its aggregators are sent to the Backend Service (OData, GraphQL, ...)
+ * which queries the groups with their item count and totals, these groups are then displayed as the DataView remote groups
+ * and the children of a group (sub-groups or items) are only fetched once the group is expanded.
+ * When the Backend Service paginates the group children by a cursor, the next page of a group children can be fetched with `loadMoreGroupChildren()`.
+ */
+export class BackendGroupingService {
+  protected _dataView?: SlickDataView;
+  protected _eventHandler: SlickEventHandler;
+  protected _grid?: SlickGrid;
+  protected _groups: SlickGroup[] = [];
+  protected _groupValuesByKey: Map<string, any[]> = new Map();
+  protected _groupPageInfoByKey: Map<string, CursorPageInfo> = new Map();
+  protected _loadedGroupKeys: Set<string> = new Set();
+  protected _pendingGroups: Map<string, AbortController> = new Map();
+  protected _requestGeneration = 0;
+  protected _timer?: any;
+
+  constructor(
+    protected readonly backendUtilityService: BackendUtilityService,
+    protected readonly pubSubService: BasePubSubService,
+    protected rxjs?: RxJsFacade | undefined
+  ) {
+    this._eventHandler = new SlickEventHandler();
+  }
+
+  /** Getter of the Backend Service API */
+  protected get _backendApi(): BackendServiceApi | undefined {
+    return this._gridOptions.backendServiceApi;
+  }
+
+  /** Getter for the Grid Options pulled through the Grid Object */
+  protected get _gridOptions(): GridOption {
+    return this._grid?.getOptions() ?? {};
+  }
+
+  /** Getter of the SlickGrid Event Handler */
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  /** Getter of the server-side groups of the 1st grouping level */
+  get groups(): SlickGroup[] {
+    return this._groups;
+  }
+
+  addRxJsResource(rxjs: RxJsFacade): void {
+    this.rxjs = rxjs;
+  }
+
+  dispose(): void {
+    clearTimeout(this._timer);
+    this._eventHandler.unsubscribeAll();
+    this.abortPendingRequests();
+    this._groupPageInfoByKey.clear();
+    this._groupValuesByKey.clear();
+    this._loadedGroupKeys.clear();
+    this._groups = [];
+  }
+
+  /**
+   * Initialize the server-side grouping, it will take over the dataset by using the `internalPostProcess` of the Backend Service API
+   * so that any query executed by the grid (on init, filtering, sorting or grouping change) will reset the groups (or the items when there is no grouping).
+   */
+  init(grid: SlickGrid, dataView: SlickDataView): void {
+    this._grid = grid;
+    this._dataView = dataView;
+    const backendApi = this._backendApi;
+
+    if (backendApi) {
+      backendApi.internalPostProcess = (processResult: any) => this.resetGroups(processResult);
+    }
+
+    // the grouping might be changed a few times in a row (e.g. when dragging a column in the Draggable Grouping), so we only query once it's done
+    this._eventHandler.subscribe(dataView.onGroupingChanged, () => {
+      clearTimeout(this._timer);
+      this._timer = setTimeout(() => this.refreshGrouping());
+    });
+    this._eventHandler.subscribe(dataView.onGroupExpanded, () => this.loadExpandedGroups());
+
+    // grouping presets must be part of the 1st query
+    this.updateBackendGrouping();
+  }
+
+  /** Does the group have more children to load? Which is only possible when the group children are paginated by a cursor */
+  hasMoreGroupChildren(group: SlickGroup): boolean {
+    return !!this._groupPageInfoByKey.get(group.groupingKey)?.hasNextPage;
+  }
+
+  /** Is the group children (sub-groups or items) loaded? */
+  isGroupLoaded(group: SlickGroup): boolean {
+    return this._loadedGroupKeys.has(group.groupingKey);
+  }
+
+  /**
+   * Fetch the next page of a group children and append them to the group, which is only possible when the group children are paginated by a cursor
+   * (for example with the GraphQL `groupChildrenPageSize` option), nothing is fetched when the group has no more children or when they are already being fetched.
+   * @param {SlickGroup} group - group to load more children
+   */
+  loadMoreGroupChildren(group: SlickGroup): void {
+    const pageInfo = this._groupPageInfoByKey.get(group.groupingKey);
+    if (pageInfo?.hasNextPage && !this._pendingGroups.has(group.groupingKey)) {
+      this.fetchGroupChildren(group, pageInfo.endCursor);
+    }
+  }
+
+  /** Fetch the children of every expanded group (including the expanded sub-groups of an expanded group) which are not yet loaded */
+  loadExpandedGroups(): void {
+    const loadGroups = (groups: SlickGroup[]) => {
+      for (const group of groups) {
+        if (!group.collapsed) {
+          if (this.isGroupLoaded(group)) {
+            loadGroups(group.groups ?? []);
+          } else if (!this._pendingGroups.has(group.groupingKey)) {
+            this.fetchGroupChildren(group);
+          }
+        }
+      }
+    };
+    loadGroups(this._groups);
+  }
+
+  /** Send the current DataView grouping to the Backend Service and refresh the dataset, which will return the groups of the 1st grouping level */
+  refreshGrouping(): void {
+    this.updateBackendGrouping();
+    this.backendUtilityService.refreshBackendDataset(this._gridOptions);
+  }
+
+  /**
+   * Reset the groups from the result of the 1st grouping level query (executed on init or after any filtering/sorting/grouping change),
+   * all previously loaded group children are discarded, or reset the items when there is no grouping.
+   * @param processResult - backend process result
+   */
+  resetGroups(processResult: any): void {
+    if (this._dataView) {
+      this._requestGeneration++;
+      this.abortPendingRequests();
+      this._groupPageInfoByKey.clear();
+      this._groupValuesByKey.clear();
+      this._loadedGroupKeys.clear();
+
+      this._dataView.beginUpdate();
+      if (this._dataView.getGrouping().length) {
+        this._groups = this.createGroups(this.getGroupsFromProcessResult(processResult, 0).groups);
+        this._dataView.setItems([], this._gridOptions.datasetIdPropertyName);
+        this._dataView.setRemoteGroups(this._groups);
+      } else {
+        this._groups = [];
+        this._dataView.setRemoteGroups(null);
+        this._dataView.setItems(this.getDatasetFromProcessResult(processResult).dataset, this._gridOptions.datasetIdPropertyName);
+      }
+      this._dataView.endUpdate();
+      this._grid?.invalidate();
+      this.loadExpandedGroups();
+    }
+  }
+
+  //
+  // protected functions
+  // ------------------
+
+  protected abortPendingRequests(): void {
+    this._pendingGroups.forEach((abortController) => abortController.abort());
+    this._pendingGroups.clear();
+  }
+
+  /** Create the DataView remote groups from the groups returned by the Backend Service */
+  protected createGroups(groupResults: BackendServiceGroupResult[], parentGroup?: SlickGroup): SlickGroup[] {
+    const level = parentGroup ? parentGroup.level + 1 : 0;
+    const hasAggregators = !!this._dataView?.getGrouping()[level]?.aggregators?.length;
+    const parentGroupValues = parentGroup ? (this._groupValuesByKey.get(parentGroup.groupingKey) ?? []) : [];
+
+    return groupResults.map((groupResult) => {
+      const group = new SlickGroup();
+      group.level = level;
+      group.value = groupResult.value;
+      group.count = groupResult.count;
+      group.groupingKey = (parentGroup ? parentGroup.groupingKey + GROUPING_KEY_DELIMITER : '') + groupResult.value;
+      if (hasAggregators) {
+        const totals = new SlickGroupTotals();
+        Object.assign(totals, groupResult.totals);
+        totals.group = group;
+        totals.initialized = true;
+        group.totals = totals;
+      }
+      this._groupValuesByKey.set(group.groupingKey, [...parentGroupValues, groupResult.value]);
+      return group;
+    });
+  }
+
+  /**
+   * Fetch the children of a group, which are the sub-groups of the next grouping level or the items when it is the last grouping level
+   * @param {SlickGroup} group - group to fetch the children
+   * @param {String} [afterCursor] - end cursor of the previously loaded children, the fetched children are then appended to the group
+   */
+  protected fetchGroupChildren(group: SlickGroup, afterCursor?: string): void {
+    const backendApi = this._backendApi;
+    const backendService = backendApi?.service;
+    if (!backendApi || typeof backendService?.buildGroupChildrenQuery !== 'function') {
+      throw new Error(
+        '[Slickgrid-Universal] Server-side grouping requires a Backend Service implementing the "buildGroupChildrenQuery" method.'
+      );
+    }
+
+    const requestGeneration = this._requestGeneration;
+    const abortController = new AbortController();
+    const isLastGroupingLevel = group.level >= (this._dataView?.getGrouping().length ?? 0) - 1;
+    const query = backendService.buildGroupChildrenQuery(this._groupValuesByKey.get(group.groupingKey) ?? [group.value], afterCursor);
+    this._pendingGroups.set(group.groupingKey, abortController);
+
+    this.pubSubService.publish('onGroupChildrenLoading', { group, isLoadingMore: afterCursor !== undefined });
+    const onSuccess = (processResult: any) => {
+      // ignore stale results, which are results of a query executed before the last groups reset
+      if (requestGeneration === this._requestGeneration && this._dataView) {
+        this._pendingGroups.delete(group.groupingKey);
+        this._loadedGroupKeys.add(group.groupingKey);
+        backendService.postProcess?.(processResult);
+
+        const result = isLastGroupingLevel
+          ? this.getDatasetFromProcessResult(processResult)
+          : this.getGroupsFromProcessResult(processResult, group.level + 1);
+        if (result.pageInfo) {
+          this._groupPageInfoByKey.set(group.groupingKey, result.pageInfo);
+        }
+
+        // the next page of children are appended to the previously loaded children
+        if (isLastGroupingLevel) {
+          const items = (result as BackendServiceDatasetResult).dataset;
+          group.rows = afterCursor !== undefined ? group.rows.concat(items) : items;
+          this._dataView.addItems(items);
+        } else {
+          const groups = this.createGroups((result as BackendServiceGroupsResult).groups, group);
+          group.groups = afterCursor !== undefined ? (group.groups ?? []).concat(groups) : groups;
+          this._dataView.refresh();
+        }
+        this.pubSubService.publish('onGroupChildrenLoaded', { group, hasMore: this.hasMoreGroupChildren(group) });
+        this.loadExpandedGroups();
+      }
+    };
+    const onError = (error: any) => {
+      if (this._pendingGroups.get(group.groupingKey) === abortController) {
+        this._pendingGroups.delete(group.groupingKey);
+      }
+      // ignore AbortError from cancelled requests
+      if (error?.name !== 'AbortError') {
+        this.backendUtilityService.onBackendError(error, backendApi);
+      }
+    };
+
+    const process = backendApi.process(query, { signal: abortController.signal, variables: backendService.getQueryVariables?.() });
+    if (process instanceof Promise) {
+      process.then(onSuccess).catch(onError);
+    } else if (this.rxjs?.isObservable(process)) {
+      (process as Observable<any>).subscribe(onSuccess, onError);
+    }
+  }
+
+  /** Get the grouped column, its aggregators and its sort direction of every DataView grouping level */
+  protected getGroupBy(): BackendServiceGroupBy[] {
+    const columns = this._grid?.getColumns() ?? [];
+
+    return (this._dataView?.getGrouping() ?? []).map((grouping) => {
+      const columnDef: Column | undefined =
+        typeof grouping.getter === 'string'
+          ? (columns.find((col) => col.field === grouping.getter) ?? { id: grouping.getter, field: grouping.getter })
+          : columns.find((col) => col.grouping?.getter === grouping.getter);
+
+      if (!columnDef) {
+        throw new Error(
+          '[Slickgrid-Universal] Server-side grouping requires every grouping "getter" to be a field name or the "getter" function of a column "grouping".'
+        );
+      }
+      return { columnDef, aggregators: grouping.aggregators ?? [], sortAsc: grouping.sortAsc ?? true };
+    });
+  }
+
+  protected getDatasetFromProcessResult(processResult: any): BackendServiceDatasetResult {
+    const backendService = this._backendApi?.service;
+    if (typeof backendService?.getDatasetFromProcessResult !== 'function') {
+      throw new Error(
+        '[Slickgrid-Universal] Server-side grouping requires a Backend Service implementing the "getDatasetFromProcessResult" method.'
+      );
+    }
+    const result = backendService.getDatasetFromProcessResult(processResult);
+    return { ...result, dataset: Array.isArray(result?.dataset) ? result.dataset : [] };
+  }
+
+  protected getGroupsFromProcessResult(processResult: any, level: number): BackendServiceGroupsResult {
+    const backendService = this._backendApi?.service;
+    if (typeof backendService?.getGroupsFromProcessResult !== 'function') {
+      throw new Error(
+        '[Slickgrid-Universal] Server-side grouping requires a Backend Service implementing the "getGroupsFromProcessResult" method.'
+      );
+    }
+    const result = backendService.getGroupsFromProcessResult(processResult, level);
+    return { ...result, groups: Array.isArray(result?.groups) ? result.groups : [] };
+  }
+
+  protected updateBackendGrouping(): void {
+    this._backendApi?.service?.updateGrouping?.(this.getGroupBy());
+  }
+}
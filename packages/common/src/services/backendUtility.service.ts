@@ -1,5 +1,7 @@
+import { createDomElement, deepCopy, emptyElement } from '@slickgrid-universal/utils';
+import type { SlickGrid } from '../core/index.js';
 import type { EmitterType } from '../enums/emitter.type.js';
-import type { BackendServiceApi, GridOption } from '../interfaces/index.js';
+import type { BackendErrorInfo, BackendServiceApi, GridOption } from '../interfaces/index.js';
 import type { Observable, RxJsFacade, Subject } from './rxjsFacade.js';
 
 export interface BackendCallbacks {
@@ -9,10 +11,24 @@ export interface BackendCallbacks {
   httpCancelRequestSubject?: Subject<void>;
 }
 
+/** cached result of a process, keyed by its query (and query variables) */
+interface BackendCacheEntry {
+  query: string;
+  result: any;
+  timestamp: number;
+}
+
+/** HTTP status that are retried by default: 408 (Request Timeout) and 429 (Too Many Requests), all 5xx (Server Errors) are also retried */
+const RETRYABLE_HTTP_STATUS = [408, 429];
+
 export class BackendUtilityService {
   protected _infiniteScrollBottomHit = false;
-  protected _currentRequestId = 0; // used to track and ignore stale Promise-based results
+  protected _currentRequestId = 0; // used to track and ignore stale (out of order) results
   protected _abortController?: AbortController; // used to cancel fetch requests when new filters/sorts are triggered
+  protected _cache: Map<string, BackendCacheEntry> = new Map();
+  protected _grid?: SlickGrid;
+  protected _overlayElm?: HTMLDivElement;
+  protected _retryTimer?: any;
 
   constructor(protected rxjs?: RxJsFacade | undefined) {}
 
@@ -20,6 +36,75 @@ export class BackendUtilityService {
     this.rxjs = rxjs;
   }
 
+  /** Initialize the service with the grid, which is only required by the loading & error overlay (`enableOverlay`) */
+  init(grid: SlickGrid): void {
+    this._grid = grid;
+  }
+
+  dispose(): void {
+    clearTimeout(this._retryTimer);
+    this._abortController?.abort();
+    this.hideOverlay();
+    this.clearCache();
+  }
+
+  /**
+   * Clear the cached process results (when `enableCache` is enabled)
+   * @param {String} [query] - optionally clear only the cached results of that query, all cached results are cleared when omitted
+   */
+  clearCache(query?: string): void {
+    if (query === undefined) {
+      this._cache.clear();
+    } else {
+      this._cache.forEach((entry, key) => entry.query === query && this._cache.delete(key));
+    }
+  }
+
+  /**
+   * Get a copy of the cached result of a query, it returns undefined when the cache is disabled or when there's no valid (non-expired) result
+   * @param backendApi - Backend Service API
+   * @param query - query built by the Backend Service
+   * @param [variables] - query variables (when the Backend Service builds its query with variables)
+   */
+  getCachedResult(backendApi: BackendServiceApi, query: string, variables?: Record<string, any>): any {
+    if (backendApi?.enableCache) {
+      const cacheKey = this.getCacheKey(query, variables);
+      const entry = this._cache.get(cacheKey);
+      if (entry) {
+        this._cache.delete(cacheKey);
+        if (Date.now() - entry.timestamp < (backendApi.cacheOptions?.ttl ?? 300000)) {
+          // re-insert the entry to keep the Map in the least recently used order
+          this._cache.set(cacheKey, entry);
+          return deepCopy(entry.result);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Cache a copy of the result of a query (only when `enableCache` is enabled), the least recently used result is removed when the cache is full
+   * @param backendApi - Backend Service API
+   * @param query - query built by the Backend Service
+   * @param result - process result
+   * @param [variables] - query variables (when the Backend Service builds its query with variables)
+   */
+  setCachedResult(backendApi: BackendServiceApi, query: string, result: any, variables?: Record<string, any>): void {
+    if (backendApi?.enableCache && result !== undefined) {
+      const cacheKey = this.getCacheKey(query, variables);
+      this._cache.delete(cacheKey);
+      this._cache.set(cacheKey, { query, result: deepCopy(result), timestamp: Date.now() });
+
+      const maxEntries = backendApi.cacheOptions?.maxEntries ?? 50;
+      for (const key of this._cache.keys()) {
+        if (this._cache.size <= maxEntries) {
+          break;
+        }
+        this._cache.delete(key);
+      }
+    }
+  }
+
   /** Execute the Backend Processes Callback, that could come from an Observable or a Promise callback */
   executeBackendProcessesCallback(startTime: Date, processResult: any, backendApi: BackendServiceApi, totalItems: number): any {
     const endTime = new Date();
@@ -58,10 +143,40 @@ export class BackendUtilityService {
     }
   }
 
+  /**
+   * Get the info of a backend error, which is its type (http, network, timeout or unknown), its HTTP status (when available)
+   * and if it's retryable according to the Backend Service API retry policy
+   * @param error - error thrown by the process
+   * @param backendApi - Backend Service API
+   * @param attempts - number of attempts made by the process
+   */
+  getBackendErrorInfo(error: any, backendApi: BackendServiceApi, attempts = 1): BackendErrorInfo {
+    // the status could be found on the error itself (e.g. Angular HttpErrorResponse) or on its response (e.g. Axios)
+    const status: number | undefined = [error?.status, error?.statusCode, error?.response?.status].find((s) => typeof s === 'number');
+    let type: BackendErrorInfo['type'] = 'unknown';
+    if (error?.name === 'TimeoutError') {
+      type = 'timeout';
+    } else if (status === 0 || error instanceof TypeError) {
+      // a request that could not reach the server has a status of 0 (XHR) or is rejected with a TypeError (Fetch API)
+      type = 'network';
+    } else if (status !== undefined) {
+      type = 'http';
+    }
+
+    const errorInfo: BackendErrorInfo = { type, status, attempts, retryable: false };
+    const isRetryable = backendApi?.retry?.isRetryable;
+    errorInfo.retryable =
+      typeof isRetryable === 'function'
+        ? isRetryable(error, errorInfo)
+        : type === 'network' || type === 'timeout' || (status !== undefined && (RETRYABLE_HTTP_STATUS.includes(status) || status >= 500));
+
+    return errorInfo;
+  }
+
   /** On a backend service api error, we will run the "onError" if there is 1 provided or just throw back the error when nothing is provided */
-  onBackendError(e: any, backendApi: BackendServiceApi): void {
+  onBackendError(e: any, backendApi: BackendServiceApi, errorInfo?: BackendErrorInfo): void {
     if (typeof backendApi?.onError === 'function') {
-      backendApi.onError(e);
+      backendApi.onError(e, errorInfo ?? this.getBackendErrorInfo(e, backendApi));
     } else {
       throw e;
     }
@@ -69,6 +184,8 @@ export class BackendUtilityService {
 
   /**
    * Execute the backend callback, which are mainly the "process" & "postProcess" methods.
+   * A failed process is retried when a retry policy is provided and any result of a previous request (out of order or stale) is always ignored,
+   * also when the cache is enabled, a cached result of the same query is reused instead of executing the process.
    * Also note that "preProcess" was executed prior to this callback
    */
   executeBackendCallback(
@@ -85,61 +202,25 @@ export class BackendUtilityService {
         extraCallbacks.emitActionChangedCallback.call(this, 'remote');
       }
 
-      // abort any previous fetch requests before starting a new one
-      this._abortController?.abort();
-      this._abortController = new AbortController();
-
-      // the processes can be Observables (like HttpClient) or Promises
-      const process = backendServiceApi.process(query, { signal: this._abortController.signal });
-      if (process instanceof Promise && process.then) {
-        // increment request counter to track and ignore stale results
-        const requestId = ++this._currentRequestId;
-
-        process
-          .then((processResult: any) => {
-            // only process if this is still the current request (prevents processing stale results from cancelled filters)
-            if (this._currentRequestId === requestId) {
-              this.executeBackendProcessesCallback(startTime, processResult, backendServiceApi, totalItems);
-              extraCallbacks?.successCallback?.call(this, args);
-            }
-          })
-          .catch((error: any) => {
-            // ignore AbortError from cancelled requests
-            if (error.name !== 'AbortError') {
-              extraCallbacks?.errorCallback?.call(this, args);
-              this.onBackendError(error, backendServiceApi);
-            }
-          });
-      } else if (this.rxjs?.isObservable(process)) {
-        const rxjs = this.rxjs as RxJsFacade;
-
-        // this will abort any previous HTTP requests, that were previously hooked in the takeUntil, before sending a new request
-        if (rxjs.isObservable(extraCallbacks?.httpCancelRequestSubject)) {
-          extraCallbacks?.httpCancelRequestSubject!.next();
-        }
+      // increment request counter to track and ignore stale results, any pending retry of a previous request is also cancelled
+      const requestId = ++this._currentRequestId;
+      clearTimeout(this._retryTimer);
 
-        (process as unknown as Observable<any>)
-          // the following takeUntil, will potentially be used later to cancel any pending http request (takeUntil another rx, that would be httpCancelRequests$, completes)
-          // but make sure the observable is actually defined with the iif condition check before piping it to the takeUntil
-          .pipe(
-            rxjs.takeUntil(
-              rxjs.iif(
-                () => rxjs.isObservable(extraCallbacks?.httpCancelRequestSubject),
-                extraCallbacks?.httpCancelRequestSubject,
-                rxjs.EMPTY
-              )
-            )
-          )
-          .subscribe(
-            (processResult: any) => {
-              this.executeBackendProcessesCallback(startTime, processResult, backendServiceApi, totalItems);
-              extraCallbacks?.successCallback?.call(this, args);
-            },
-            (error: any) => {
-              extraCallbacks?.errorCallback?.call(this, args);
-              this.onBackendError(error, backendServiceApi);
-            }
-          );
+      const cachedResult = this.getCachedResult(backendServiceApi, query, backendServiceApi.service.getQueryVariables?.());
+      if (cachedResult !== undefined) {
+        // any pending request is now stale, so we can abort it
+        this._abortController?.abort();
+        this.hideOverlay();
+        this.executeBackendProcessesCallback(startTime, cachedResult, backendServiceApi, totalItems);
+        extraCallbacks?.successCallback?.call(this, args);
+
+        // stale-while-revalidate, execute the process in the background and refresh the grid only when the result changed
+        if (backendServiceApi.cacheOptions?.revalidate) {
+          this.executeProcess(backendServiceApi, query, args, startTime, totalItems, requestId, 1, extraCallbacks, true);
+        }
+      } else {
+        this.showLoadingOverlay(backendServiceApi);
+        this.executeProcess(backendServiceApi, query, args, startTime, totalItems, requestId, 1, extraCallbacks);
       }
     }
   }
@@ -167,7 +248,194 @@ export class BackendUtilityService {
     }
   }
 
+  /**
+   * Revalidate a cached result by executing the process in the background (stale-while-revalidate),
+   * the grid is then refreshed only when the new result differs from the cached result and any error is silently ignored.
+   * @param backendApi - Backend Service API
+   * @param query - query built by the Backend Service
+   * @param startTime - start time of the execution
+   * @param totalItems - total items count
+   */
+  revalidateCachedResult(backendApi: BackendServiceApi, query: string, startTime: Date, totalItems: number): void {
+    clearTimeout(this._retryTimer);
+    this.executeProcess(backendApi, query, null, startTime, totalItems, ++this._currentRequestId, 1, undefined, true);
+  }
+
   setInfiniteScrollBottomHit(scrollBottomHit: boolean): void {
     this._infiniteScrollBottomHit = scrollBottomHit;
   }
+
+  //
+  // protected functions
+  // ------------------
+
+  /**
+   * Execute an attempt of the process, a failed attempt is retried (after a backoff delay) until the retry count is reached
+   * and only the results of the current request are processed, the results of any previous request are ignored.
+   * When revalidating a cached result, the grid is only refreshed when the result changed and any error is silently ignored.
+   */
+  protected executeProcess(
+    backendServiceApi: BackendServiceApi,
+    query: string,
+    args: any,
+    startTime: Date,
+    totalItems: number,
+    requestId: number,
+    attempt: number,
+    extraCallbacks?: BackendCallbacks,
+    isRevalidating = false
+  ): void {
+    // abort any previous fetch requests before starting a new one
+    this._abortController?.abort();
+    const abortController = new AbortController();
+    this._abortController = abortController;
+
+    let hasFailed = false;
+    let timeoutTimer: any;
+    const isStaleRequest = () => hasFailed || requestId !== this._currentRequestId;
+    const variables = backendServiceApi.service.getQueryVariables?.();
+
+    const onSuccess = (processResult: any) => {
+      // only process if this is still the current request (prevents processing stale results from cancelled filters)
+      if (!isStaleRequest()) {
+        clearTimeout(timeoutTimer);
+        const cachedResult = isRevalidating ? this._cache.get(this.getCacheKey(query, variables))?.result : undefined;
+        this.setCachedResult(backendServiceApi, query, processResult, variables);
+        if (isRevalidating && JSON.stringify(cachedResult) === JSON.stringify(processResult)) {
+          return;
+        }
+        this.hideOverlay();
+        this.executeBackendProcessesCallback(startTime, processResult, backendServiceApi, totalItems);
+        extraCallbacks?.successCallback?.call(this, args);
+      }
+    };
+    const onError = (error: any) => {
+      // ignore errors of stale requests and AbortError from cancelled requests
+      if (isStaleRequest() || error?.name === 'AbortError') {
+        return;
+      }
+      hasFailed = true;
+      clearTimeout(timeoutTimer);
+      if (isRevalidating) {
+        return; // the cached result is already displayed
+      }
+
+      const retryCount = backendServiceApi.retry ? (backendServiceApi.retry.count ?? 3) : 0;
+      const errorInfo = this.getBackendErrorInfo(error, backendServiceApi, attempt);
+      if (errorInfo.retryable && attempt <= retryCount) {
+        this._retryTimer = setTimeout(
+          () => this.executeProcess(backendServiceApi, query, args, startTime, totalItems, requestId, attempt + 1, extraCallbacks),
+          this.getRetryDelay(backendServiceApi, attempt)
+        );
+      } else {
+        this.showErrorOverlay(backendServiceApi, error, errorInfo);
+        extraCallbacks?.errorCallback?.call(this, args);
+        this.onBackendError(error, backendServiceApi, errorInfo);
+      }
+    };
+
+    if (backendServiceApi.timeout) {
+      timeoutTimer = setTimeout(() => {
+        const timeoutError = new DOMException(`The backend process timed out after ${backendServiceApi.timeout}ms.`, 'TimeoutError');
+        onError(timeoutError);
+        abortController.abort(timeoutError);
+      }, backendServiceApi.timeout);
+    }
+
+    // the processes can be Observables (like HttpClient) or Promises
+    const process = backendServiceApi.process(query, { signal: abortController.signal, variables });
+    if (process instanceof Promise && process.then) {
+      process.then(onSuccess).catch(onError);
+    } else if (this.rxjs?.isObservable(process)) {
+      const rxjs = this.rxjs as RxJsFacade;
+
+      // this will abort any previous HTTP requests, that were previously hooked in the takeUntil, before sending a new request
+      if (rxjs.isObservable(extraCallbacks?.httpCancelRequestSubject)) {
+        extraCallbacks?.httpCancelRequestSubject!.next();
+      }
+
+      (process as unknown as Observable<any>)
+        // the following takeUntil, will potentially be used later to cancel any pending http request (takeUntil another rx, that would be httpCancelRequests$, completes)
+        // but make sure the observable is actually defined with the iif condition check before piping it to the takeUntil
+        .pipe(
+          rxjs.takeUntil(
+            rxjs.iif(
+              () => rxjs.isObservable(extraCallbacks?.httpCancelRequestSubject),
+              extraCallbacks?.httpCancelRequestSubject,
+              rxjs.EMPTY
+            )
+          )
+        )
+        .subscribe(onSuccess, onError);
+    }
+  }
+
+  /** Get the cache key of a query, the query variables are part of the key since a parameterized query is the same for every variables */
+  protected getCacheKey(query: string, variables?: Record<string, any>): string {
+    return variables ? `${query}|${JSON.stringify(variables)}` : query;
+  }
+
+  /** Get the delay before the next retry, which grows exponentially with every attempt (exponential backoff) up to the maximum delay */
+  protected getRetryDelay(backendServiceApi: BackendServiceApi, attempt: number): number {
+    const { delay = 500, backoffFactor = 2, maxDelay = 30000 } = backendServiceApi.retry ?? {};
+    return Math.min(delay * backoffFactor ** (attempt - 1), maxDelay);
+  }
+
+  protected hideOverlay(): void {
+    emptyElement(this._overlayElm);
+    this._overlayElm?.remove();
+    this._overlayElm = undefined;
+  }
+
+  /** Show the error overlay with the error message and a "retry" button which reloads the grid data (when `enableOverlay` is enabled) */
+  protected showErrorOverlay(backendServiceApi: BackendServiceApi, error: any, errorInfo: BackendErrorInfo): void {
+    const overlayOptions = backendServiceApi.overlayOptions;
+    const overlayContentElm = this.createOverlay(backendServiceApi, 'error');
+    if (overlayContentElm) {
+      const message = overlayOptions?.errorFormatter?.(error, errorInfo) ?? 'Sorry, the data could not be loaded.';
+      createDomElement('span', { className: 'slick-backend-overlay-text', textContent: message }, overlayContentElm);
+      const retryButtonElm = createDomElement(
+        'button',
+        {
+          className: 'btn btn-xs btn-default slick-backend-overlay-retry',
+          type: 'button',
+          textContent: overlayOptions?.retryButtonText ?? 'Retry',
+        },
+        overlayContentElm
+      );
+      retryButtonElm.addEventListener('click', () => {
+        // reload the data with the current grid state, the "preProcess" is also executed by the refresh
+        this.hideOverlay();
+        if (this._grid) {
+          this.refreshBackendDataset(this._grid.getOptions());
+        }
+      });
+    }
+  }
+
+  /** Show the loading overlay while the process is executing (when `enableOverlay` is enabled) */
+  protected showLoadingOverlay(backendServiceApi: BackendServiceApi): void {
+    const overlayContentElm = this.createOverlay(backendServiceApi, 'loading');
+    if (overlayContentElm) {
+      createDomElement('span', { className: 'slick-backend-overlay-spinner' }, overlayContentElm);
+      createDomElement(
+        'span',
+        { className: 'slick-backend-overlay-text', textContent: backendServiceApi.overlayOptions?.loadingText ?? 'Loading...' },
+        overlayContentElm
+      );
+    }
+  }
+
+  /** Create (or replace) the overlay on top of the grid and return its content element, nothing is created when the overlay is disabled */
+  protected createOverlay(backendServiceApi: BackendServiceApi, type: 'error' | 'loading'): HTMLDivElement | undefined {
+    this.hideOverlay();
+    const gridContainerElm = this._grid?.getContainerNode();
+    if (backendServiceApi.enableOverlay && gridContainerElm) {
+      const className = backendServiceApi.overlayOptions?.className ?? 'slick-backend-overlay';
+      this._overlayElm = createDomElement('div', { className: `${className} ${className}-${type}` }, gridContainerElm);
+      this._overlayElm.setAttribute('role', type === 'error' ? 'alert' : 'status');
+      return createDomElement('div', { className: `${className}-content` }, this._overlayElm);
+    }
+    return undefined;
+  }
 }
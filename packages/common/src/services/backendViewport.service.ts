@@ -0,0 +1,319 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { SlickEventHandler, type SlickDataView, type SlickGrid } from '../core/index.js';
+import type {
+  BackendServiceApi,
+  BackendServiceDatasetResult,
+  GridOption,
+  InfiniteScrollOption,
+  ItemMetadata,
+} from '../interfaces/index.js';
+import type { BackendUtilityService } from './backendUtility.service.js';
+import type { Observable, RxJsFacade } from './rxjsFacade.js';
+
+const PLACEHOLDER_ID_PREFIX = '__placeholder_';
+const DEFAULT_FETCH_SIZE = 25;
+const DEFAULT_MAX_CACHED_BLOCKS = 10;
+const DEFAULT_VIEWPORT_FETCH_DELAY = 100;
+
+interface ViewportBlock {
+  /** ids of the items loaded in the block */
+  ids: Array<number | string>;
+
+  /** access counter, the least recently viewed blocks are evicted first */
+  lastAccess: number;
+}
+
+/**
+ * Backend Viewport Service, a virtual data source used by the Infinite Scroll "viewport" mode (`infiniteScroll: { mode: 'viewport' }`).
+ * The DataView is filled with placeholder rows for the total row count and the blocks of rows visible in the viewport are fetched on demand
+ * through the Backend Service (OData, GraphQL, ...), the loaded blocks are then cached and the least recently viewed ones are evicted.
+ */
+export class BackendViewportService {
+  protected _accessCounter = 0;
+  protected _blocks: Map<number, ViewportBlock> = new Map();
+  protected _dataView?: SlickDataView;
+  protected _eventHandler: SlickEventHandler;
+  protected _grid?: SlickGrid;
+  protected _pendingBlocks: Map<number, AbortController> = new Map();
+  protected _requestGeneration = 0;
+  protected _timer?: any;
+  protected _totalItems = 0;
+
+  constructor(
+    protected readonly backendUtilityService: BackendUtilityService,
+    protected readonly pubSubService: BasePubSubService,
+    protected rxjs?: RxJsFacade | undefined
+  ) {
+    this._eventHandler = new SlickEventHandler();
+  }
+
+  /** Getter of the Backend Service API */
+  protected get _backendApi(): BackendServiceApi | undefined {
+    return this._gridOptions.backendServiceApi;
+  }
+
+  /** Getter for the Grid Options pulled through the Grid Object */
+  protected get _gridOptions(): GridOption {
+    return this._grid?.getOptions() ?? {};
+  }
+
+  /** Getter of the SlickGrid Event Handler */
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  /** Getter of the Infinite Scroll options merged with their defaults */
+  get infiniteScrollOptions(): InfiniteScrollOption {
+    const infiniteScroll = this._backendApi?.service?.options?.infiniteScroll;
+    return {
+      fetchSize: DEFAULT_FETCH_SIZE,
+      maxCachedBlocks: DEFAULT_MAX_CACHED_BLOCKS,
+      viewportFetchDelay: DEFAULT_VIEWPORT_FETCH_DELAY,
+      ...(typeof infiniteScroll === 'object' ? infiniteScroll : {}),
+    };
+  }
+
+  /** Total item count of the backend dataset (including the rows that are not yet loaded) */
+  get totalItems(): number {
+    return this._totalItems;
+  }
+
+  addRxJsResource(rxjs: RxJsFacade): void {
+    this.rxjs = rxjs;
+  }
+
+  dispose(): void {
+    clearTimeout(this._timer);
+    this._eventHandler.unsubscribeAll();
+    this.abortPendingRequests();
+    this._blocks.clear();
+  }
+
+  /**
+   * Initialize the virtual data source, it will take over the dataset by using the `internalPostProcess` of the Backend Service API
+   * so that any query executed by the grid (on init, filtering or sorting) will reset the dataset to its new total row count.
+   */
+  init(grid: SlickGrid, dataView: SlickDataView): void {
+    this._grid = grid;
+    this._dataView = dataView;
+    const backendApi = this._backendApi;
+
+    if (backendApi) {
+      backendApi.internalPostProcess = (processResult: any) => this.resetDataset(processResult);
+    }
+
+    // placeholder rows have their own css class and cannot be edited
+    const originalGetItemMetadata = dataView.getItemMetadata;
+    dataView.getItemMetadata = this.updateItemMetadata(originalGetItemMetadata?.bind?.(dataView));
+    this._eventHandler.subscribe(grid.onBeforeEditCell, (_e, args) => !this.isPlaceholderItem(args.item));
+    this._eventHandler.subscribe(grid.onViewportChanged, () => {
+      clearTimeout(this._timer);
+      this._timer = setTimeout(() => this.ensureViewportData(), this.infiniteScrollOptions.viewportFetchDelay);
+    });
+  }
+
+  /**
+   * Make sure that the rows from index x to y are loaded, any block of rows that is not yet loaded (or loading) will be fetched
+   * @param {Number} from - first row index
+   * @param {Number} to - last row index
+   */
+  ensureData(from: number, to: number): void {
+    if (this._totalItems > 0) {
+      const { fetchSize } = this.infiniteScrollOptions;
+      const fromBlock = Math.floor(Math.max(from, 0) / fetchSize);
+      const toBlock = Math.floor(Math.min(to, this._totalItems - 1) / fetchSize);
+
+      for (let blockIdx = fromBlock; blockIdx <= toBlock; blockIdx++) {
+        const block = this._blocks.get(blockIdx);
+        if (block) {
+          block.lastAccess = ++this._accessCounter;
+        } else if (!this._pendingBlocks.has(blockIdx)) {
+          this.fetchBlock(blockIdx);
+        }
+      }
+    }
+  }
+
+  /** Make sure that all rows visible in the grid viewport are loaded */
+  ensureViewportData(): void {
+    const viewport = this._grid?.getViewport();
+    if (viewport) {
+      this.ensureData(viewport.top, viewport.bottom);
+    }
+  }
+
+  /** Is the block of rows, at the given block index, loaded? */
+  isBlockLoaded(blockIdx: number): boolean {
+    return this._blocks.has(blockIdx);
+  }
+
+  /** Is the item a placeholder row (a row not yet loaded)? */
+  isPlaceholderItem(item: any): boolean {
+    return !!item?.__placeholder;
+  }
+
+  /**
+   * Reset the dataset from the result of the 1st page query (executed on init or after any filtering/sorting),
+   * the DataView will be filled with placeholder rows for the new total row count and all previously cached blocks are discarded.
+   * @param processResult - backend process result
+   */
+  resetDataset(processResult: any): void {
+    if (this._dataView && this._grid) {
+      this._requestGeneration++;
+      this.abortPendingRequests();
+      this._blocks.clear();
+
+      const { dataset, totalItems } = this.getDatasetFromProcessResult(processResult);
+      this._totalItems = totalItems ?? dataset.length;
+      const items = Array.from({ length: this._totalItems }, (_, row) => this.createPlaceholderItem(row));
+      this._dataView.setItems(this.mergeBlockItems(items, 0, dataset), this._gridOptions.datasetIdPropertyName);
+      this._blocks.set(0, { ids: this.getItemIds(dataset), lastAccess: ++this._accessCounter });
+
+      this._grid.scrollTo(0);
+      this._grid.invalidate();
+      this.ensureViewportData();
+    }
+  }
+
+  //
+  // protected functions
+  // ------------------
+
+  protected abortPendingRequests(): void {
+    this._pendingBlocks.forEach((abortController) => abortController.abort());
+    this._pendingBlocks.clear();
+  }
+
+  protected createPlaceholderItem(row: number): any {
+    return { [this._gridOptions.datasetIdPropertyName || 'id']: `${PLACEHOLDER_ID_PREFIX}${row}`, __placeholder: true };
+  }
+
+  /** Evict the least recently viewed blocks when the cache exceeds its maximum size, rows of an evicted block are reverted to placeholders */
+  protected evictBlocks(): void {
+    const maxCachedBlocks = Math.max(this.infiniteScrollOptions.maxCachedBlocks ?? DEFAULT_MAX_CACHED_BLOCKS, 1);
+
+    while (this._blocks.size > maxCachedBlocks) {
+      const [blockIdx, block] = [...this._blocks.entries()].reduce((oldest, entry) =>
+        entry[1].lastAccess < oldest[1].lastAccess ? entry : oldest
+      );
+      const ids = block.ids.filter((id) => this._dataView?.getIdxById(id) !== undefined);
+      const placeholders = ids.map((id) => this.createPlaceholderItem(this._dataView!.getIdxById(id) as number));
+      this._blocks.delete(blockIdx);
+      this._dataView?.updateItems(ids, placeholders);
+    }
+  }
+
+  /** Fetch a block of rows by querying the Backend Service with the page matching the block index */
+  protected fetchBlock(blockIdx: number): void {
+    const backendApi = this._backendApi;
+    const backendService = backendApi?.service;
+    if (!backendApi || !backendService?.updatePagination) {
+      return;
+    }
+
+    const { fetchSize } = this.infiniteScrollOptions;
+    const from = blockIdx * fetchSize;
+    const to = Math.min(from + fetchSize, this._totalItems) - 1;
+    const requestGeneration = this._requestGeneration;
+    const abortController = new AbortController();
+    this._pendingBlocks.set(blockIdx, abortController);
+
+    // build the query of the block page and then revert back to 1st page, which is the page expected by any other query (filtering, sorting, ...)
+    backendService.updatePagination(blockIdx + 1, fetchSize);
+    const query = backendService.buildQuery();
+    backendService.updatePagination(1, fetchSize);
+
+    this.pubSubService.publish('onViewportDataLoading', { from, to });
+    const onSuccess = (processResult: any) => {
+      // ignore stale results, which are results of a query executed before the last dataset reset
+      if (requestGeneration === this._requestGeneration) {
+        this._pendingBlocks.delete(blockIdx);
+        backendService.postProcess?.(processResult);
+        this.loadBlock(blockIdx, this.getDatasetFromProcessResult(processResult).dataset);
+        this.pubSubService.publish('onViewportDataLoaded', { from, to });
+      }
+    };
+    const onError = (error: any) => {
+      if (this._pendingBlocks.get(blockIdx) === abortController) {
+        this._pendingBlocks.delete(blockIdx);
+      }
+      // ignore AbortError from cancelled requests
+      if (error?.name !== 'AbortError') {
+        this.backendUtilityService.onBackendError(error, backendApi);
+      }
+    };
+
+    const process = backendApi.process(query, { signal: abortController.signal, variables: backendApi.service.getQueryVariables?.() });
+    if (process instanceof Promise) {
+      process.then(onSuccess).catch(onError);
+    } else if (this.rxjs?.isObservable(process)) {
+      (process as Observable<any>).subscribe(onSuccess, onError);
+    }
+  }
+
+  protected getDatasetFromProcessResult(processResult: any): BackendServiceDatasetResult {
+    const backendService = this._backendApi?.service;
+    if (typeof backendService?.getDatasetFromProcessResult !== 'function') {
+      throw new Error(
+        '[Slickgrid-Universal] Infinite Scroll with "viewport" mode requires a Backend Service implementing the "getDatasetFromProcessResult" method.'
+      );
+    }
+    const result = backendService.getDatasetFromProcessResult(processResult);
+    return { ...result, dataset: Array.isArray(result?.dataset) ? result.dataset : [] };
+  }
+
+  protected getItemIds(items: any[]): Array<number | string> {
+    const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+    return items.map((item) => item[idPropName]);
+  }
+
+  /** Replace the placeholder rows of a block by the items that were fetched */
+  protected loadBlock(blockIdx: number, dataset: any[]): void {
+    if (this._dataView) {
+      const { fetchSize } = this.infiniteScrollOptions;
+      const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+      const placeholderIds: Array<number | string> = [];
+      const items: any[] = [];
+
+      dataset.slice(0, fetchSize).forEach((item, idx) => {
+        const placeholderId = `${PLACEHOLDER_ID_PREFIX}${blockIdx * fetchSize + idx}`;
+        // skip any item that is already loaded in another block, which could happen when the backend data changed in between queries
+        if (this._dataView!.getIdxById(placeholderId) !== undefined && this._dataView!.getIdxById(item[idPropName]) === undefined) {
+          placeholderIds.push(placeholderId);
+          items.push(item);
+        }
+      });
+
+      this._dataView.updateItems(placeholderIds, items);
+      this._blocks.set(blockIdx, { ids: this.getItemIds(items), lastAccess: ++this._accessCounter });
+      this.evictBlocks();
+    }
+  }
+
+  /** Replace the placeholder items, starting at the block index, by the dataset items */
+  protected mergeBlockItems(items: any[], blockIdx: number, dataset: any[]): any[] {
+    const { fetchSize } = this.infiniteScrollOptions;
+    dataset.slice(0, fetchSize).forEach((item, idx) => {
+      const row = blockIdx * fetchSize + idx;
+      if (row < items.length) {
+        items[row] = item;
+      }
+    });
+    return items;
+  }
+
+  /** Add the "slick-placeholder-row" css class on every placeholder row */
+  protected updateItemMetadata(previousItemMetadata: any): (rowNumber: number) => ItemMetadata {
+    return (rowNumber: number): ItemMetadata => {
+      const item = this._dataView?.getItem(rowNumber);
+      let meta: ItemMetadata = { cssClasses: '' };
+      if (typeof previousItemMetadata === 'function') {
+        meta = previousItemMetadata(rowNumber) || meta;
+      }
+      if (this.isPlaceholderItem(item)) {
+        meta.cssClasses = `${meta.cssClasses || ''} slick-placeholder-row`.trim();
+      }
+      return meta;
+    };
+  }
+}
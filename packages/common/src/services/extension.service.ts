@@ -9,17 +9,22 @@ import {
   type SlickPluginList,
 } from '../enums/index.js';
 import {
+  SlickAriaAnnouncer,
   SlickAutoTooltip,
   SlickCellExcelCopyManager,
   SlickCellMenu,
+  SlickChangeIndicator,
   SlickCheckboxSelectColumn,
   SlickColumnPicker,
+  SlickConditionalFormatting,
   SlickContextMenu,
   SlickDraggableGrouping,
+  SlickFillHandle,
   SlickGridMenu,
   SlickHeaderButtons,
   SlickHeaderMenu,
   SlickHybridSelectionModel,
+  SlickPivot,
   SlickRowBasedEdit,
   SlickRowMoveManager,
   type ExtensionUtility,
@@ -37,15 +42,20 @@ export class ExtensionService {
   protected _extensionCreatedList: ExtensionList<any> = {} as ExtensionList<any>;
   protected _extensionList: ExtensionList<any> = {} as ExtensionList<any>;
 
+  protected _ariaAnnouncerPlugin?: SlickAriaAnnouncer;
   protected _cellMenuPlugin?: SlickCellMenu;
   protected _cellExcelCopyManagerPlugin?: SlickCellExcelCopyManager;
   protected _checkboxSelectColumn?: SlickCheckboxSelectColumn;
   protected _contextMenuPlugin?: SlickContextMenu;
+  protected _changeIndicatorPlugin?: SlickChangeIndicator;
   protected _columnPickerControl?: SlickColumnPicker;
+  protected _conditionalFormattingPlugin?: SlickConditionalFormatting;
   protected _draggleGroupingPlugin?: SlickDraggableGrouping;
+  protected _fillHandlePlugin?: SlickFillHandle;
   protected _gridMenuControl?: SlickGridMenu;
   protected _groupItemMetadataProviderService?: SlickGroupItemMetadataProvider;
   protected _headerMenuPlugin?: SlickHeaderMenu;
+  protected _pivotPlugin?: SlickPivot;
   protected _rowMoveManagerPlugin?: SlickRowMoveManager;
   protected _selectionModel?: SlickHybridSelectionModel;
   protected _rowBasedEdit?: SlickRowBasedEdit;
@@ -92,15 +102,20 @@ export class ExtensionService {
         delete this._extensionList[key as keyof Record<ExtensionName | ExtensionNameTypeString, ExtensionModel<any>>];
       });
     }
+    this._ariaAnnouncerPlugin = null as any;
     this._cellMenuPlugin = null as any;
     this._cellExcelCopyManagerPlugin = null as any;
     this._checkboxSelectColumn = null as any;
     this._contextMenuPlugin = null as any;
+    this._changeIndicatorPlugin = null as any;
     this._columnPickerControl = null as any;
+    this._conditionalFormattingPlugin = null as any;
     this._draggleGroupingPlugin = null as any;
+    this._fillHandlePlugin = null as any;
     this._gridMenuControl = null as any;
     this._groupItemMetadataProviderService = null as any;
     this._headerMenuPlugin = null as any;
+    this._pivotPlugin = null as any;
     this._rowMoveManagerPlugin = null as any;
     this._selectionModel = null as any;
     this._extensionCreatedList = null as any;
@@ -191,6 +206,16 @@ export class ExtensionService {
         this._extensionList['rowBasedEdit'] = { name: 'rowBasedEdit', instance: this._rowBasedEdit };
       }
 
+      // Aria Announcer Plugin
+      if (this.gridOptions.enableAriaAnnouncer) {
+        this._ariaAnnouncerPlugin = new SlickAriaAnnouncer(this.extensionUtility, this.pubSubService, this.sharedService);
+        this._ariaAnnouncerPlugin.init(this.sharedService.slickGrid, this.gridOptions.ariaAnnouncer);
+        if (this.gridOptions.ariaAnnouncer?.onExtensionRegistered) {
+          this.gridOptions.ariaAnnouncer.onExtensionRegistered(this._ariaAnnouncerPlugin);
+        }
+        this._extensionList['ariaAnnouncer'] = { name: 'ariaAnnouncer', instance: this._ariaAnnouncerPlugin };
+      }
+
       // Auto Tooltip Plugin
       if (this.gridOptions.enableAutoTooltip) {
         const instance = new SlickAutoTooltip(this.gridOptions?.autoTooltipOptions);
@@ -220,6 +245,16 @@ export class ExtensionService {
         this._extensionList['cellMenu'] = { name: 'cellMenu', instance: this._cellMenuPlugin };
       }
 
+      // Change Indicator Plugin
+      if (this.gridOptions.enableChangeIndicator) {
+        this._changeIndicatorPlugin = new SlickChangeIndicator(this.sharedService);
+        this._changeIndicatorPlugin.init(this.sharedService.slickGrid, this.gridOptions.changeIndicator);
+        if (this.gridOptions.changeIndicator?.onExtensionRegistered) {
+          this.gridOptions.changeIndicator.onExtensionRegistered(this._changeIndicatorPlugin);
+        }
+        this._extensionList['changeIndicator'] = { name: 'changeIndicator', instance: this._changeIndicatorPlugin };
+      }
+
       // Hybrid Selection OR Row Selection Plugin
       // this extension should be registered BEFORE the CheckboxSelector, RowDetail or RowMoveManager since it can be use by these 2 plugins
       if (
@@ -227,11 +262,13 @@ export class ExtensionService {
         (this.gridOptions.enableSelection ||
           this.gridOptions.enableCheckboxSelector ||
           this.gridOptions.enableRowDetailView ||
-          this.gridOptions.enableRowMoveManager)
+          this.gridOptions.enableRowMoveManager ||
+          this.gridOptions.enableFillHandle)
       ) {
         if (!this._selectionModel || !this.sharedService.slickGrid.getSelectionModel()) {
           const selectionOptions = this.gridOptions.selectionOptions ?? {};
-          const selectionType = this.gridOptions.selectionOptions?.selectionType || 'row';
+          // the Fill Handle requires a cell selection to display its drag handle on the selection corner
+          const selectionType = this.gridOptions.selectionOptions?.selectionType || (this.gridOptions.enableFillHandle ? 'cell' : 'row');
           this._selectionModel = new SlickHybridSelectionModel({ ...selectionOptions, selectionType });
           this.sharedService.slickGrid.setSelectionModel(this._selectionModel);
         }
@@ -268,6 +305,16 @@ export class ExtensionService {
         };
       }
 
+      // Conditional Formatting Plugin
+      if (this.gridOptions.enableConditionalFormatting) {
+        this._conditionalFormattingPlugin = new SlickConditionalFormatting(this.extensionUtility, this.pubSubService, this.sharedService);
+        this._conditionalFormattingPlugin.init(this.sharedService.slickGrid, this.gridOptions.conditionalFormatting);
+        if (this.gridOptions.conditionalFormatting?.onExtensionRegistered) {
+          this.gridOptions.conditionalFormatting.onExtensionRegistered(this._conditionalFormattingPlugin);
+        }
+        this._extensionList['conditionalFormatting'] = { name: 'conditionalFormatting', instance: this._conditionalFormattingPlugin };
+      }
+
       // Context Menu Control
       if (this.gridOptions.enableContextMenu) {
         this._contextMenuPlugin = new SlickContextMenu(this.extensionUtility, this.pubSubService, this.sharedService, this.treeDataService);
@@ -295,6 +342,16 @@ export class ExtensionService {
         };
       }
 
+      // Fill Handle Plugin
+      if (this.gridOptions.enableFillHandle) {
+        this._fillHandlePlugin = new SlickFillHandle();
+        this._fillHandlePlugin.init(this.sharedService.slickGrid, this.gridOptions.fillHandleOptions);
+        if (this.gridOptions.fillHandleOptions?.onExtensionRegistered) {
+          this.gridOptions.fillHandleOptions.onExtensionRegistered(this._fillHandlePlugin);
+        }
+        this._extensionList['fillHandle'] = { name: 'fillHandle', instance: this._fillHandlePlugin };
+      }
+
       // Grid Menu Control
       if (this.gridOptions.enableGridMenu) {
         this._gridMenuControl = new SlickGridMenu(
@@ -334,6 +391,16 @@ export class ExtensionService {
         this._extensionList['headerMenu'] = { name: 'headerMenu', instance: this._headerMenuPlugin };
       }
 
+      // Pivot Plugin
+      if (this.gridOptions.enablePivot) {
+        this._pivotPlugin = new SlickPivot(this.extensionUtility, this.pubSubService, this.sharedService);
+        this._pivotPlugin.init(this.sharedService.slickGrid, this.gridOptions.pivot);
+        if (this.gridOptions.pivot?.onExtensionRegistered) {
+          this.gridOptions.pivot.onExtensionRegistered(this._pivotPlugin);
+        }
+        this._extensionList['pivot'] = { name: 'pivot', instance: this._pivotPlugin };
+      }
+
       // Row Move Manager Plugin
       if (this.gridOptions.enableRowMoveManager) {
         this._rowMoveManagerPlugin = this._rowMoveManagerPlugin || new SlickRowMoveManager(this.pubSubService);
@@ -1,21 +1,26 @@
 import { type BasePubSubService } from '@slickgrid-universal/event-pub-sub';
-import { deepCopy, extend, queueMicrotaskPolyfill, stripTags } from '@slickgrid-universal/utils';
+import { deepCopy, extend, queueMicrotaskPolyfill, removeAccentFromText, stripTags } from '@slickgrid-universal/utils';
 import { dequal } from 'dequal/lite';
 import { Constants } from '../constants.js';
 import { SlickEvent, SlickEventData, SlickEventHandler, type SlickDataView, type SlickGrid } from '../core/index.js';
 import { type EmitterType, type OperatorType, type SearchTerm } from '../enums/index.js';
-import { FilterConditions, getParsedSearchTermsByFieldType } from './../filter-conditions/index.js';
+import { FilterConditions, getParsedSearchTermsByFieldType, isFilterExpressionGroup } from './../filter-conditions/index.js';
 import { type FilterFactory } from './../filters/filterFactory.js';
+import { parseFormatterWhenExist } from './../formatters/formatterUtilities.js';
 import type {
   Column,
   ColumnFilters,
   CurrentFilter,
+  CurrentGlobalSearch,
   DOMMouseOrTouchEvent,
   Filter,
   FilterArguments,
   FilterCallbackArg,
   FilterChangedArgs,
   FilterConditionOption,
+  FilterExpressionCondition,
+  FilterExpressionGroup,
+  GlobalSearchOption,
   GridOption,
   SearchColumnFilter,
 } from './../interfaces/index.js';
@@ -43,6 +48,9 @@ export class FilterService {
   protected _firstColumnIdRendered: string | number = '';
   protected _filtersMetadata: Array<Filter> = [];
   protected _columnFilters: ColumnFilters = {};
+  protected _filterExpression: FilterExpressionGroup | null = null;
+  protected _filterExpressionColumnFilters: WeakMap<FilterExpressionCondition, SearchColumnFilter | null> = new WeakMap();
+  protected _globalSearch: CurrentGlobalSearch | null = null;
   protected _grid!: SlickGrid;
   protected _isTreePresetExecuted = false;
   protected _previousFilters: CurrentFilter[] = [];
@@ -108,6 +116,18 @@ export class FilterService {
     if (this._gridOptions && this._gridOptions.enableTreeData && this._gridOptions.treeDataOptions) {
       this._grid.setSortColumns([{ columnId: this._gridOptions.treeDataOptions.columnId, sortAsc: true }]);
     }
+
+    // load any Global Search presets, the search will be applied on the first DataView refresh (or first backend query)
+    const globalSearchPreset = this._gridOptions.presets?.globalSearch;
+    if (globalSearchPreset?.searchTerm) {
+      this._globalSearch = { ...globalSearchPreset };
+    }
+
+    // same for the Filter Expression presets
+    const filterExpressionPreset = this._gridOptions.presets?.filterExpression;
+    if (filterExpressionPreset && isFilterExpressionGroup(filterExpressionPreset)) {
+      this._filterExpression = deepCopy(filterExpressionPreset);
+    }
   }
 
   dispose(): void {
@@ -146,6 +166,7 @@ export class FilterService {
    */
   bindBackendOnFilter(grid: SlickGrid): void {
     this._filtersMetadata = [];
+    this.populateColumnFiltersOfVirtualColumns();
 
     // subscribe to SlickGrid onHeaderRowCellRendered event to create filter template
     this._eventHandler.subscribe(grid.onHeaderRowCellRendered, (_e, args) => {
@@ -177,6 +198,7 @@ export class FilterService {
    */
   bindLocalOnFilter(grid: SlickGrid): void {
     this._filtersMetadata = [];
+    this.populateColumnFiltersOfVirtualColumns();
     this._dataView.setFilterArgs({ columnFilters: this._columnFilters, grid: this._grid, dataView: this._dataView });
     this._dataView.setFilter(this.customLocalFilter.bind(this));
 
@@ -367,6 +389,12 @@ export class FilterService {
         }
         return filtered;
       }
+    } else if (
+      (this._globalSearch && !this.isItemMatchingGlobalSearch(item)) ||
+      (this._filterExpression && !this.isItemMatchingFilterExpression(item, this._filterExpression))
+    ) {
+      // the global search and filter expression are combined (AND) with the column filters, when the item doesn't match we can exit early
+      return false;
     } else if (typeof columnFilters === 'object') {
       for (const columnId of Object.keys(columnFilters)) {
         const searchColFilter = columnFilters[columnId] as SearchColumnFilter;
@@ -626,7 +654,10 @@ export class FilterService {
       // Step 2. loop through every item data context to execute filter condition check
       inputItems.forEach((item) => {
         const hasChildren = item[hasChildrenPropName];
-        let matchFilter = true; // valid until proven otherwise
+        // valid until proven otherwise
+        let matchFilter =
+          (!this._globalSearch || this.isItemMatchingGlobalSearch(item)) &&
+          (!this._filterExpression || this.isItemMatchingFilterExpression(item, this._filterExpression));
 
         // loop through all column filters and execute filter condition(s)
         for (const columnId of Object.keys(columnFilters)) {
@@ -721,6 +752,16 @@ export class FilterService {
     return this._filtersMetadata;
   }
 
+  /** Get the Filter Expression (nested AND/OR/NOT groups of conditions) that is currently applied or `null` when there isn't any */
+  getFilterExpression(): FilterExpressionGroup | null {
+    return this._filterExpression;
+  }
+
+  /** Get the Global Search (search term and options) that is currently applied or `null` when there isn't any */
+  getGlobalSearch(): CurrentGlobalSearch | null {
+    return this._globalSearch;
+  }
+
   getCurrentLocalFilters(): CurrentFilter[] {
     const currentFilters: CurrentFilter[] = [];
     if (this._columnFilters) {
@@ -827,6 +868,9 @@ export class FilterService {
         }
       });
 
+      // with column virtualization, the presets of the columns that are not yet rendered must still be applied to the data
+      this.populateColumnFiltersOfVirtualColumns();
+
       // when we have a Filter Presets on a Tree Data View grid, we need to call the pre-filtering of tree data
       if (this._gridOptions.enableTreeData) {
         this.refreshTreeDataFilters();
@@ -929,6 +973,90 @@ export class FilterService {
     }
   }
 
+  /**
+   * Set a Global Search (quick search) that will search across all the visible columns (or only the ones provided by the `columnIds` option),
+   * an item will be shown when any of its column value contains the search term. The Global Search is combined (AND) with any column filters.
+   * You can remove the Global Search at any point in time by providing an empty search term.
+   *
+   * Also for backend service only, you can choose to trigger a backend query (default) or not if you wish to do it later.
+   * @param {String} searchTerm - search term to find in any of the columns
+   * @param {Object} [options] - optional Global Search options (caseSensitive, columnIds, useFormatterOutput)
+   * @param {Boolean} [emitChangedEvent] - defaults to True, do we want to emit a global search changed event?
+   * @param {Boolean} [triggerBackendQuery] - defaults to True, which will query the backend.
+   */
+  async setGlobalSearch(
+    searchTerm: string,
+    options?: GlobalSearchOption,
+    emitChangedEvent = true,
+    triggerBackendQuery = true
+  ): Promise<boolean> {
+    const term = searchTerm === undefined || searchTerm === null ? '' : `${searchTerm}`;
+    this._globalSearch = term !== '' ? { searchTerm: term, ...(options && { options }) } : null;
+
+    const backendApi = this._gridOptions.backendServiceApi;
+    if (backendApi) {
+      const backendApiService = backendApi?.service;
+      if (backendApiService?.updateGlobalSearch) {
+        backendApiService.updateGlobalSearch(this._globalSearch);
+        if (triggerBackendQuery) {
+          this.backendUtilities?.refreshBackendDataset(this._gridOptions);
+        }
+      }
+    } else {
+      // when using Tree Data, we also need to refresh the filters because of the tree structure with recursion
+      if (this._gridOptions.enableTreeData) {
+        this.refreshTreeDataFilters();
+      }
+      this._dataView.refresh();
+    }
+
+    if (emitChangedEvent) {
+      await this.pubSubService.publish('onGlobalSearchChanged', this._globalSearch ?? { searchTerm: '' });
+    }
+    return true;
+  }
+
+  /**
+   * Set a Filter Expression, which is a tree of conditions grouped by a logical operator (AND/OR) that can optionally be negated (NOT),
+   * every group can also include other groups to create nested filter expressions. The Filter Expression is combined (AND) with any column filters.
+   * You can remove the Filter Expression at any point in time by providing `null`.
+   *
+   * Also for backend service only, you can choose to trigger a backend query (default) or not if you wish to do it later.
+   * @param {FilterExpressionGroup | null} filterExpression - root group of the filter expression, or `null` to remove it
+   * @param {Boolean} [emitChangedEvent] - defaults to True, do we want to emit a filter expression changed event?
+   * @param {Boolean} [triggerBackendQuery] - defaults to True, which will query the backend.
+   */
+  async setFilterExpression(
+    filterExpression: FilterExpressionGroup | null,
+    emitChangedEvent = true,
+    triggerBackendQuery = true
+  ): Promise<boolean> {
+    this._filterExpression = filterExpression && isFilterExpressionGroup(filterExpression) ? deepCopy(filterExpression) : null;
+    this._filterExpressionColumnFilters = new WeakMap();
+
+    const backendApi = this._gridOptions.backendServiceApi;
+    if (backendApi) {
+      const backendApiService = backendApi?.service;
+      if (backendApiService?.updateFilterExpression) {
+        backendApiService.updateFilterExpression(this._filterExpression);
+        if (triggerBackendQuery) {
+          this.backendUtilities?.refreshBackendDataset(this._gridOptions);
+        }
+      }
+    } else {
+      // when using Tree Data, we also need to refresh the filters because of the tree structure with recursion
+      if (this._gridOptions.enableTreeData) {
+        this.refreshTreeDataFilters();
+      }
+      this._dataView.refresh();
+    }
+
+    if (emitChangedEvent) {
+      await this.pubSubService.publish('onFilterExpressionChanged', this._filterExpression ?? { logic: 'and', conditions: [] });
+    }
+    return true;
+  }
+
   /**
    * Update Filters dynamically just by providing an array of filter(s).
    * You can also choose emit (default) a Filter Changed event that will be picked by the Grid State Service.
@@ -946,7 +1074,10 @@ export class FilterService {
     triggerBackendQuery = true,
     triggerOnSearchChangeEvent = false
   ): Promise<boolean> {
-    if (!this._filtersMetadata || this._filtersMetadata.length === 0 || !this._gridOptions || !this._gridOptions.enableFiltering) {
+    // with column virtualization, the filters might not be created yet when their columns are outside of the rendered range
+    const hasFilters =
+      this._filtersMetadata?.length > 0 || (this._gridOptions.enableColumnVirtualization && this._columns.some((col) => col.filterable));
+    if (!hasFilters || !this._gridOptions || !this._gridOptions.enableFiltering) {
       throw new Error(
         '[Slickgrid-Universal] in order to use "updateFilters" method, you need to have Filterable Columns defined in your grid and "enableFiltering" set in your Grid Options'
       );
@@ -975,6 +1106,13 @@ export class FilterService {
               forceOnSearchChangeEvent: true,
             });
           }
+        } else if (newFilter && this._gridOptions.enableColumnVirtualization) {
+          // the filter of a column outside of the rendered range (column virtualization) doesn't exist yet,
+          // so we only keep its state which will be used to create the filter once it is scrolled into view
+          const columnDef = this._columns.find((col) => col.id === newFilter.columnId && col.filterable);
+          if (columnDef) {
+            this.updateColumnFilters(newFilter.searchTerms, columnDef, newFilter.operator);
+          }
         }
       });
 
@@ -1338,6 +1476,134 @@ export class FilterService {
     return '';
   }
 
+  /**
+   * Check if an item (data context) is matching the Global Search, the item is valid as soon as 1 of its column values contains the search term.
+   * The value compared could be the raw cell value or the formatted output when `useFormatterOutput` is enabled (or column `params.useFormatterOuputToFilter`).
+   * @param {Object} item - item data context
+   * @returns {Boolean} - is the item matching the Global Search?
+   */
+  protected isItemMatchingGlobalSearch(item: any): boolean {
+    const searchTerm = this._globalSearch?.searchTerm ?? '';
+    if (searchTerm === '') {
+      return true;
+    }
+    const globalSearchOptions = this._globalSearch?.options;
+    const isCaseSensitive = globalSearchOptions?.caseSensitive ?? false;
+    const ignoreAccent = this._gridOptions.ignoreAccentOnStringFilterAndSort ?? false;
+    const normalizeText = (text: string) => {
+      const output = ignoreAccent ? removeAccentFromText(text) : text;
+      return isCaseSensitive ? output : output.toLowerCase();
+    };
+
+    // Row Detail View plugin, if the row is padding we just get the value we're searching on from it's parent
+    if (this._gridOptions.enableRowDetailView) {
+      const metadataPrefix = this._gridOptions.rowDetailView?.keyPrefix || '__';
+      if (item[`${metadataPrefix}isPadding`] && item[`${metadataPrefix}parent`]) {
+        item = item[`${metadataPrefix}parent`];
+      }
+    }
+
+    // search against the provided column IDs (even when hidden) or else against every visible columns
+    const columnIds = globalSearchOptions?.columnIds;
+    const columns = Array.isArray(columnIds)
+      ? (this.sharedService.allColumns ?? this._columns).filter((col) => columnIds.includes(col.id))
+      : this._grid.getVisibleColumns();
+    const searchValue = normalizeText(searchTerm);
+
+    for (const columnDef of columns) {
+      const fieldName = columnDef.queryFieldFilter || columnDef.queryField || columnDef.field || '';
+      let cellValue = fieldName.indexOf('.') >= 0 ? getDescendantProperty(item, fieldName) : item[fieldName];
+
+      if ((globalSearchOptions?.useFormatterOutput || columnDef.params?.useFormatterOuputToFilter) && columnDef.formatter) {
+        const rowIndex = this._dataView?.getIdxById?.(item[this._gridOptions.datasetIdPropertyName || 'id']) ?? 0;
+        const columnIndex = this._grid.getColumnIndex(columnDef.id) as number;
+        cellValue = stripTags(parseFormatterWhenExist(columnDef.formatter, rowIndex, columnIndex, columnDef, item, this._grid));
+      }
+
+      if (cellValue !== undefined && cellValue !== null && normalizeText(`${cellValue}`).includes(searchValue)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check if an item (data context) is matching a Filter Expression group, every condition of the group are combined by the group logical operator
+   * and the group result is then inversed when the group is negated (NOT). Nested groups are evaluated by recursion.
+   * @param {Object} item - item data context
+   * @param {FilterExpressionGroup} filterGroup - filter expression group to evaluate
+   * @returns {Boolean} - is the item matching the Filter Expression group?
+   */
+  protected isItemMatchingFilterExpression(item: any, filterGroup: FilterExpressionGroup): boolean {
+    const conditions = filterGroup.conditions || [];
+    const isOrLogic = filterGroup.logic === 'or';
+    let isMatching = true; // an empty group is always valid
+
+    for (let i = 0, ln = conditions.length; i < ln; i++) {
+      const node = conditions[i];
+      const isNodeMatching = isFilterExpressionGroup(node)
+        ? this.isItemMatchingFilterExpression(item, node)
+        : this.isItemMatchingFilterExpressionCondition(item, node);
+
+      if (isOrLogic) {
+        // "or" is valid as soon as 1 condition is valid
+        isMatching = isNodeMatching;
+        if (isNodeMatching) {
+          break;
+        }
+      } else if (!isNodeMatching) {
+        // "and" is invalid as soon as 1 condition is invalid
+        isMatching = false;
+        break;
+      }
+    }
+    return filterGroup.not ? !isMatching : isMatching;
+  }
+
+  /**
+   * Check if an item (data context) is matching a single Filter Expression condition,
+   * it uses the same filter conditions (`executeFilterConditionTest`) as the column filters.
+   * @param {Object} item - item data context
+   * @param {FilterExpressionCondition} condition - filter expression condition
+   * @returns {Boolean} - is the item matching the condition?
+   */
+  protected isItemMatchingFilterExpressionCondition(item: any, condition: FilterExpressionCondition): boolean {
+    // parse the search terms only once per condition and keep them in cache, they will be reused by every item
+    let searchColFilter = this._filterExpressionColumnFilters.get(condition);
+    if (searchColFilter === undefined) {
+      const columnDef = (this.sharedService.allColumns ?? this._columns).find((col) => col.id === condition.columnId);
+      searchColFilter = null;
+      if (columnDef) {
+        const searchTerms = Array.isArray(condition.searchTerms) ? [...condition.searchTerms] : [];
+        const fieldType = columnDef.filter?.type ?? columnDef.type ?? 'string';
+        searchColFilter = {
+          columnId: condition.columnId,
+          columnDef,
+          operator: condition.operator,
+          searchTerms,
+          parsedSearchTerms: getParsedSearchTermsByFieldType(searchTerms, fieldType),
+          type: fieldType,
+        };
+      }
+      this._filterExpressionColumnFilters.set(condition, searchColFilter);
+    }
+
+    // an invalid column or a column without any search terms will not filter out the item
+    if (!searchColFilter) {
+      return true;
+    }
+
+    // user could provide a custom filter predicate on the column definition
+    if (typeof searchColFilter.columnDef.filter?.filterPredicate === 'function') {
+      return searchColFilter.columnDef.filter.filterPredicate(item, searchColFilter);
+    }
+    const conditionOptions = this.preProcessFilterConditionOnDataContext(item, searchColFilter, this._grid);
+    if (typeof conditionOptions === 'boolean') {
+      return conditionOptions;
+    }
+    return FilterConditions.executeFilterConditionTest(conditionOptions as FilterConditionOption, searchColFilter.parsedSearchTerms);
+  }
+
   /**
    * When clearing or disposing of all filters, we need to loop through all columnFilters and delete them 1 by 1
    * only trying to make columnFilter an empty (without looping) would not trigger a dataset change
@@ -1360,9 +1626,28 @@ export class FilterService {
     this._eventHandler.subscribe(grid.onBeforeHeaderRowCellDestroy, (_e, args) => {
       const colFilter: Filter | undefined = this._filtersMetadata.find((filter: Filter) => filter.columnDef.id === args.column.id);
       colFilter?.destroy?.();
+
+      // with column virtualization, a filter scrolled out of view is destroyed but its state is kept in the column filters
+      if (colFilter && this._gridOptions.enableColumnVirtualization) {
+        this._filtersMetadata.splice(this._filtersMetadata.indexOf(colFilter), 1);
+      }
     });
   }
 
+  /**
+   * With column virtualization, the filters are only created when their column is scrolled into view,
+   * so we need to populate the column filters from the columns searchTerms (or presets) of the filters that are not yet created
+   */
+  protected populateColumnFiltersOfVirtualColumns(): void {
+    if (this._gridOptions.enableColumnVirtualization) {
+      this._columns.forEach((columnDef) => {
+        if (columnDef.filterable && !columnDef.hidden && columnDef.filter?.searchTerms && !this._columnFilters[columnDef.id]) {
+          this.updateColumnFilters(columnDef.filter.searchTerms, columnDef, columnDef.filter.operator);
+        }
+      });
+    }
+  }
+
   protected updateColumnFilters(searchTerms: SearchTerm[] | undefined, columnDef: Column, operator?: OperatorType): void {
     const fieldType = columnDef.filter?.type ?? columnDef.type ?? 'string';
     const parsedSearchTerms = getParsedSearchTermsByFieldType(searchTerms, fieldType); // parsed term could be a single value or an array of values
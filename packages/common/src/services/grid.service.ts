@@ -15,11 +15,13 @@ import type {
   ShowColumnOption,
 } from '../interfaces/index.js';
 import type { PaginationService } from '../services/pagination.service.js';
+import type { BackendUtilityService } from './backendUtility.service.js';
 import type { FilterService } from './filter.service.js';
 import type { GridStateService } from './gridState.service.js';
 import type { SharedService } from './shared.service.js';
 import type { SortService } from './sort.service.js';
 import type { TreeDataService } from './treeData.service.js';
+import type { UndoRedoService } from './undoRedo.service.js';
 
 const GridServiceDeleteOptionDefaults: GridServiceDeleteOption = { skipError: false, triggerEvent: true };
 const GridServiceInsertOptionDefaults: GridServiceInsertOption = {
@@ -58,7 +60,9 @@ export class GridService {
     protected readonly paginationService: PaginationService,
     protected readonly sharedService: SharedService,
     protected readonly sortService: SortService,
-    protected readonly treeDataService: TreeDataService
+    protected readonly treeDataService: TreeDataService,
+    protected readonly undoRedoService?: UndoRedoService | undefined,
+    protected readonly backendUtilityService?: BackendUtilityService | undefined
   ) {}
 
   /** Getter of SlickGrid DataView object */
@@ -86,10 +90,23 @@ export class GridService {
     this.filterService?.clearFilters();
   }
 
+  /**
+   * Clear all the cached results of the Backend Service queries (only used when the `backendServiceApi.enableCache` option is enabled),
+   * for example after modifying some data on the server, so that the next queries are sent to the backend
+   * @param {Boolean} [refreshDataset] - optionally refresh the grid dataset right away with a fresh query (defaults to false)
+   */
+  clearBackendCache(refreshDataset = false): void {
+    this.backendUtilityService?.clearCache();
+    if (refreshDataset && this._gridOptions?.backendServiceApi) {
+      this.backendUtilityService?.refreshBackendDataset(this._gridOptions);
+    }
+  }
+
   /** Clear all the pinning (frozen) options */
   clearPinning(resetColumns = true): void {
     this.sharedService.slickGrid.setOptions({
       frozenColumn: -1,
+      frozenRightColumn: -1,
       frozenRow: -1,
       frozenBottom: false,
       enableMouseWheelScrollHandler: false,
@@ -412,6 +429,7 @@ export class GridService {
     } else {
       this._dataView.insertItem(0, item); // insert at index 0
     }
+    this.undoRedoService?.recordAddedItems([item]);
 
     // row number in the grid, by default it will be on first row (top is the default)
     let rowNumber: number | undefined = 0;
@@ -493,6 +511,7 @@ export class GridService {
       } else {
         this._dataView.insertItems(0, items); // insert at index 0 to the start of the dataset
       }
+      this.undoRedoService?.recordAddedItems(items);
 
       // end the bulk transaction since we're all done
       this._dataView.endUpdate();
@@ -582,6 +601,7 @@ export class GridService {
     });
 
     // delete the item from the dataView
+    this.undoRedoService?.recordDeletedItems(itemIds.map((itemId) => this._dataView.getItemById(itemId)).filter((item) => item));
     this._dataView.deleteItems(itemIds);
 
     // end the bulk transaction since we're all done
@@ -619,6 +639,9 @@ export class GridService {
     }
 
     // delete the item from the dataView
+    if (this.undoRedoService && this._dataView.getIdxById(itemId) !== undefined) {
+      this.undoRedoService.recordDeletedItems([this._dataView.getItemById(itemId)]);
+    }
     this._dataView.deleteItem(itemId);
 
     // do we want to trigger an event after deleting the item
@@ -640,6 +663,7 @@ export class GridService {
     if (Array.isArray(itemIds)) {
       // begin bulk transaction
       this._dataView.beginUpdate(true);
+      this.undoRedoService?.beginTransaction('deleteItems');
 
       for (let i = 0; i < itemIds.length; i++) {
         if (itemIds[i] !== null) {
@@ -648,6 +672,7 @@ export class GridService {
       }
 
       // end the bulk transaction since we're all done
+      this.undoRedoService?.endTransaction();
       this._dataView.endUpdate();
 
       // do we want to trigger an event after deleting the item
@@ -713,6 +738,10 @@ export class GridService {
     });
 
     // Update the items in the dataView, note that the itemIds must be in the same order as the items
+    this.undoRedoService?.recordUpdatedItems(
+      itemIds.map((itemId) => this._dataView.getItemById(itemId)),
+      items
+    );
     this._dataView.updateItems(itemIds, items);
 
     // end the bulk transaction since we're all done
@@ -763,6 +792,7 @@ export class GridService {
 
     if (this._dataView.getIdxById(itemId) !== undefined) {
       // Update the item itself inside the dataView
+      this.undoRedoService?.recordUpdatedItems([this._dataView.getItemById(itemId)], [item]);
       this._dataView.updateItem(itemId, item);
       if (rowNumber !== undefined) {
         this._grid.updateRow(rowNumber);
@@ -833,6 +863,7 @@ export class GridService {
 
     // begin bulk transaction
     this._dataView.beginUpdate(true);
+    this.undoRedoService?.beginTransaction('updateItems');
 
     const upsertedRows: { added: number | undefined; updated: number | undefined }[] = [];
     items.forEach((item: T) => {
@@ -842,6 +873,7 @@ export class GridService {
     });
 
     // end the bulk transaction since we're all done
+    this.undoRedoService?.endTransaction();
     this._dataView.endUpdate();
 
     const rowNumbers = upsertedRows.map((upsertRow) => (upsertRow.added !== undefined ? upsertRow.added : upsertRow.updated)) as number[];
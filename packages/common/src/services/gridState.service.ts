@@ -5,12 +5,16 @@ import { ExtensionName, type ExtensionNameTypeString } from '../enums/index.js';
 import type {
   Column,
   CurrentColumn,
+  CurrentConditionalFormatting,
   CurrentFilter,
+  CurrentGlobalSearch,
   CurrentPagination,
   CurrentRowSelection,
   CurrentSorter,
+  FilterExpressionGroup,
   GridOption,
   GridState,
+  PivotConfig,
   TreeToggleStateChange,
 } from '../interfaces/index.js';
 import type { ExtensionService } from './extension.service.js';
@@ -161,20 +165,44 @@ export class GridStateService {
    */
   getCurrentGridState(includeHiddenColumns = false): GridState {
     const isIncludingHiddenProps = !!(includeHiddenColumns || this._gridOptions.gridStateIncludeHiddenProps);
-    const { frozenColumn, frozenRow, frozenBottom } = this.sharedService.gridOptions;
+    const { frozenColumn, frozenRightColumn, frozenRow, frozenBottom } = this.sharedService.gridOptions;
     const gridState: GridState = {
       columns: this.getCurrentColumns(isIncludingHiddenProps),
       filters: this.getCurrentFilters(),
       sorters: this.getCurrentSorters(),
-      pinning: { frozenColumn, frozenRow, frozenBottom },
+      pinning: { frozenColumn, frozenRightColumn, frozenRow, frozenBottom },
     };
 
+    // optional Global Search
+    const currentGlobalSearch = this.getCurrentGlobalSearch();
+    if (currentGlobalSearch) {
+      gridState.globalSearch = currentGlobalSearch;
+    }
+
+    // optional Filter Expression
+    const currentFilterExpression = this.getCurrentFilterExpression();
+    if (currentFilterExpression) {
+      gridState.filterExpression = currentFilterExpression;
+    }
+
     // optional Grouping
     const currentGrouping = this.getCurrentGrouping();
     if (currentGrouping) {
       gridState.grouping = currentGrouping;
     }
 
+    // optional Pivot
+    const currentPivot = this.getCurrentPivot();
+    if (currentPivot) {
+      gridState.pivot = currentPivot;
+    }
+
+    // optional Conditional Formatting
+    const currentConditionalFormatting = this.getCurrentConditionalFormatting();
+    if (currentConditionalFormatting) {
+      gridState.conditionalFormatting = currentConditionalFormatting;
+    }
+
     // optional Pagination
     const currentPagination = this.getCurrentPagination();
     if (currentPagination) {
@@ -280,6 +308,17 @@ export class GridStateService {
     return this.getAssociatedCurrentColumns(columns, includeHiddenColumns);
   }
 
+  /**
+   * Get the Conditional Formatting rules of every column that has rules or null when the Conditional Formatting is not enabled
+   * @returns current Conditional Formatting rules
+   */
+  getCurrentConditionalFormatting(): CurrentConditionalFormatting[] | null {
+    if (this._gridOptions?.enableConditionalFormatting) {
+      return this.extensionService?.getExtensionByName?.('conditionalFormatting')?.instance?.getCurrentConditionalFormatting() ?? null;
+    }
+    return null;
+  }
+
   /**
    * Get the Filters (and their state, columnId, searchTerm(s)) that are currently applied in the grid
    * @return current filters
@@ -296,6 +335,22 @@ export class GridStateService {
     return null;
   }
 
+  /**
+   * Get the Filter Expression (nested AND/OR/NOT groups of conditions) that is currently applied in the grid or null when there is none
+   * @return current filter expression
+   */
+  getCurrentFilterExpression(): FilterExpressionGroup | null {
+    return this.filterService?.getFilterExpression?.() ?? null;
+  }
+
+  /**
+   * Get the Global Search (and its state, searchTerm, options) that is currently applied in the grid or null when there is none
+   * @return current global search
+   */
+  getCurrentGlobalSearch(): CurrentGlobalSearch | null {
+    return this.filterService?.getGlobalSearch?.() ?? null;
+  }
+
   /**
    * Get the Grouping column IDs or null when there are no Grouping set
    * @returns current Grouping column IDs
@@ -307,6 +362,17 @@ export class GridStateService {
     return null;
   }
 
+  /**
+   * Get the Pivot configuration (row dimensions, column dimensions & value fields) or null when the pivot is not applied
+   * @returns current Pivot configuration
+   */
+  getCurrentPivot(): PivotConfig | null {
+    if (this._gridOptions?.enablePivot) {
+      return this.extensionService?.getExtensionByName?.('pivot')?.instance?.getPivotConfig() ?? null;
+    }
+    return null;
+  }
+
   /**
    * Get current Pagination (and its state, pageNumber, pageSize) that are currently applied in the grid
    * @return current pagination state
@@ -452,6 +518,28 @@ export class GridStateService {
       })
     );
 
+    // Subscribe to Event Emitter of Global Search changed
+    this._subscriptions.push(
+      this.pubSubService.subscribe<CurrentGlobalSearch>('onGlobalSearchChanged', (currentGlobalSearch) => {
+        this.resetRowSelectionWhenRequired();
+        this.pubSubService.publish('onGridStateChanged', {
+          change: { newValues: currentGlobalSearch, type: 'globalSearch' },
+          gridState: this.getCurrentGridState(isIncludingHiddenProps),
+        });
+      })
+    );
+
+    // Subscribe to Event Emitter of Filter Expression changed
+    this._subscriptions.push(
+      this.pubSubService.subscribe<FilterExpressionGroup>('onFilterExpressionChanged', (currentFilterExpression) => {
+        this.resetRowSelectionWhenRequired();
+        this.pubSubService.publish('onGridStateChanged', {
+          change: { newValues: currentFilterExpression, type: 'filterExpression' },
+          gridState: this.getCurrentGridState(isIncludingHiddenProps),
+        });
+      })
+    );
+
     // Subscribe to Event Emitter of Sort changed
     this._subscriptions.push(
       this.pubSubService.subscribe<CurrentSorter[]>('onSortChanged', (currentSorters) => {
@@ -474,6 +562,12 @@ export class GridStateService {
       })
     );
 
+    // Subscribe to Pivot configuration changes
+    this.bindPivotChangeEventToGridStateChange();
+
+    // Subscribe to Conditional Formatting rules changes
+    this.bindConditionalFormattingChangeEventToGridStateChange();
+
     // Subscribe to ColumnPicker and/or GridMenu for show/hide Columns visibility changes
     this.bindExtensionAddonEventToGridStateChange('columnPicker', 'onColumnsChanged');
     this.bindExtensionAddonEventToGridStateChange('gridMenu', 'onColumnsChanged');
@@ -593,6 +687,39 @@ export class GridStateService {
     }
   }
 
+  /** Bind the Conditional Formatting plugin event (when enabled) to a Grid State change event */
+  protected bindConditionalFormattingChangeEventToGridStateChange(): void {
+    const conditionalFormattingPlugin = this.extensionService?.getExtensionByName?.('conditionalFormatting')?.instance;
+    const isIncludingHiddenProps = !!this._gridOptions.gridStateIncludeHiddenProps;
+
+    if (typeof conditionalFormattingPlugin?.onConditionalFormattingChanged?.subscribe === 'function') {
+      this._eventHandler.subscribe(
+        conditionalFormattingPlugin.onConditionalFormattingChanged,
+        (_e, args: { conditionalFormatting: CurrentConditionalFormatting[] }) => {
+          this.pubSubService.publish('onGridStateChanged', {
+            change: { newValues: args?.conditionalFormatting ?? [], type: 'conditionalFormatting' },
+            gridState: this.getCurrentGridState(isIncludingHiddenProps),
+          });
+        }
+      );
+    }
+  }
+
+  /** Bind the Pivot plugin event (when enabled) to a Grid State change event */
+  protected bindPivotChangeEventToGridStateChange(): void {
+    const pivotPlugin = this.extensionService?.getExtensionByName?.('pivot')?.instance;
+    const isIncludingHiddenProps = !!this._gridOptions.gridStateIncludeHiddenProps;
+
+    if (pivotPlugin?.onPivotChanged && typeof pivotPlugin.onPivotChanged.subscribe === 'function') {
+      this._eventHandler.subscribe(pivotPlugin.onPivotChanged, (_e, args: { pivot: PivotConfig | null }) => {
+        this.pubSubService.publish('onGridStateChanged', {
+          change: { newValues: args?.pivot ?? null, type: 'pivot' },
+          gridState: this.getCurrentGridState(isIncludingHiddenProps),
+        });
+      });
+    }
+  }
+
   /**
    * Bind a Grid Event (of Column changes) to a Grid State change event
    * @param event - event name
@@ -621,12 +748,32 @@ export class GridStateService {
   protected bindSlickGridOnSetOptionsEventToGridStateChange(grid: SlickGrid): void {
     const onSetOptionsHandler = grid.onSetOptions;
     this._eventHandler.subscribe(onSetOptionsHandler, (_e, args) => {
-      const { frozenBottom: frozenBottomBefore, frozenColumn: frozenColumnBefore, frozenRow: frozenRowBefore } = args.optionsBefore;
-      const { frozenBottom: frozenBottomAfter, frozenColumn: frozenColumnAfter, frozenRow: frozenRowAfter } = args.optionsAfter;
+      const {
+        frozenBottom: frozenBottomBefore,
+        frozenColumn: frozenColumnBefore,
+        frozenRightColumn: frozenRightColumnBefore,
+        frozenRow: frozenRowBefore,
+      } = args.optionsBefore;
+      const {
+        frozenBottom: frozenBottomAfter,
+        frozenColumn: frozenColumnAfter,
+        frozenRightColumn: frozenRightColumnAfter,
+        frozenRow: frozenRowAfter,
+      } = args.optionsAfter;
 
-      if (frozenBottomBefore !== frozenBottomAfter || frozenColumnBefore !== frozenColumnAfter || frozenRowBefore !== frozenRowAfter) {
+      if (
+        frozenBottomBefore !== frozenBottomAfter ||
+        frozenColumnBefore !== frozenColumnAfter ||
+        frozenRightColumnBefore !== frozenRightColumnAfter ||
+        frozenRowBefore !== frozenRowAfter
+      ) {
         const isIncludingHiddenProps = !!this._gridOptions.gridStateIncludeHiddenProps;
-        const newValues = { frozenBottom: frozenBottomAfter, frozenColumn: frozenColumnAfter, frozenRow: frozenRowAfter };
+        const newValues = {
+          frozenBottom: frozenBottomAfter,
+          frozenColumn: frozenColumnAfter,
+          frozenRightColumn: frozenRightColumnAfter,
+          frozenRow: frozenRowAfter,
+        };
         const currentGridState = this.getCurrentGridState(isIncludingHiddenProps);
         this.pubSubService.publish('onGridStateChanged', {
           change: { newValues, type: 'pinning' },
@@ -113,11 +113,35 @@ export class HeaderGroupingService {
     const frozenHeaderWidthCalcDifferential = this._gridOptions?.frozenHeaderWidthCalcDifferential ?? 0;
     const isFrozenGrid = this._gridOptions?.frozenColumn !== undefined && this._gridOptions.frozenColumn >= 0;
     const visibleColumns = this._grid.getVisibleColumns();
+    const renderedRange = this._gridOptions?.enableColumnVirtualization ? this._grid.getRenderedRange() : undefined;
+    let placeholderElm: HTMLDivElement | null = null;
 
     for (let i = start; i < end; i++) {
       colDef = visibleColumns[i];
       if (colDef) {
-        if (lastColumnGroup === colDef.columnGroup && i > 0) {
+        // with column virtualization, consecutive columns outside of the rendered range are merged into a single empty placeholder to keep the groups position
+        if (renderedRange && !this._grid.isColumnInRenderedRange(this._grid.getColumnIndex(colDef.id), renderedRange)) {
+          if (placeholderElm) {
+            widthTotal += colDef.width || 0;
+            placeholderElm.style.width = `${widthTotal - headerColumnWidthDiff}px`;
+          } else {
+            widthTotal = colDef.width || 0;
+            placeholderElm = createDomElement(
+              'div',
+              {
+                className: 'slick-state-default slick-header-column slick-header-column-placeholder',
+                style: { width: `${widthTotal - headerColumnWidthDiff}px` },
+              },
+              preHeaderPanel
+            );
+          }
+          headerElm = null;
+          lastColumnGroup = '';
+          continue;
+        }
+        placeholderElm = null;
+
+        if (headerElm && lastColumnGroup === colDef.columnGroup && i > 0) {
           widthTotal += colDef.width || 0;
           if (headerElm?.style) {
             headerElm.style.width = `${widthTotal - headerColumnWidthDiff - frozenHeaderWidthCalcDifferential}px`; // remove possible frozen border
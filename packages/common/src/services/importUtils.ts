@@ -0,0 +1,178 @@
+import { setDeepValue, stripTags } from '@slickgrid-universal/utils';
+import type { SlickGrid } from '../core/index.js';
+import type { FieldType } from '../enums/index.js';
+import type { Column, EditorArguments, GridOption, ImportCellError } from '../interfaces/index.js';
+import { formatDateByFieldType, mapTempoDateFormatWithFieldType, tryParseDate } from './dateUtils.js';
+import { getColumnFieldType, isColumnDateType } from './utilities.js';
+
+const TRUTHY_IMPORT_VALUES = ['true', 'yes', 'y', '1'];
+const FALSY_IMPORT_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Find the grid column of every header title of an imported file (sheet columns without any match will return `undefined`).
+ * When a column mapping is provided, the header title is mapped to the column with the matching `field`,
+ * otherwise it will be mapped to the first column with a matching `name`, `id` or `field` (case insensitive).
+ * @param {Array<String>} headers - header titles read from the imported file
+ * @param {Array<Column>} columns - grid column definitions
+ * @param {Object} [columnMapping] - optional mapping of header titles to column fields
+ */
+export function getImportColumnMapping(
+  headers: string[],
+  columns: Column[],
+  columnMapping?: Record<string, string>
+): Array<Column | undefined> {
+  const normalize = (text: any) =>
+    String(text ?? '')
+      .trim()
+      .toLowerCase();
+
+  return headers.map((header) => {
+    if (columnMapping) {
+      const field = columnMapping[header];
+      return field !== undefined ? columns.find((col) => col.field === field) : undefined;
+    }
+    const headerTitle = normalize(header);
+    if (!headerTitle) {
+      return undefined;
+    }
+    return columns.find((col) => {
+      const columnName = typeof col.name === 'string' ? stripTags(col.name) : col.name?.textContent;
+      return [columnName, col.id, col.field].some((title) => normalize(title) === headerTitle);
+    });
+  });
+}
+
+/**
+ * Convert an imported cell value to the type expected by its column, the conversion is driven by the column `type` (or `outputType`).
+ * - number types (`number`, `float`, `integer`) are parsed by using the grid `formatterOptions` decimal/thousand separators
+ * - `boolean` accepts true/false, yes/no, y/n and 1/0 (case insensitive)
+ * - date types are parsed with the format of their `FieldType` (or ISO) and saved with the `saveOutputType` (or `type`) format,
+ *   a `date` type will be saved as a `Date` object
+ * - any other types will keep the value as read from the file (or as a string for `string`/`text` types)
+ * @param {*} value - cell value read from the file
+ * @param {Column} column - column definition
+ * @param {GridOption} [gridOptions] - grid options
+ * @returns {Object} converted value or an error message when the value could not be converted
+ */
+export function parseImportValueByFieldType(value: any, column: Column, gridOptions?: GridOption): { value: any; error?: string } {
+  if (value === null || value === undefined || value === '') {
+    return { value: undefined };
+  }
+  const fieldType = column.type;
+
+  switch (fieldType) {
+    case 'number':
+    case 'float':
+    case 'integer': {
+      let num = value;
+      if (typeof value !== 'number') {
+        const decimalSeparator = gridOptions?.formatterOptions?.decimalSeparator ?? '.';
+        const thousandSeparator = gridOptions?.formatterOptions?.thousandSeparator ?? ',';
+        let numText = String(value).trim().replace(/\s/g, '');
+        if (thousandSeparator && thousandSeparator !== decimalSeparator) {
+          numText = numText.split(thousandSeparator).join('');
+        }
+        num = numText === '' ? NaN : Number(numText.replace(decimalSeparator, '.'));
+      }
+      if (isNaN(num)) {
+        return { value: undefined, error: 'Invalid number' };
+      }
+      if (fieldType === 'integer' && !Number.isInteger(num)) {
+        return { value: undefined, error: 'Invalid integer' };
+      }
+      return { value: num };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') {
+        return { value };
+      }
+      const boolText = String(value).trim().toLowerCase();
+      if (TRUTHY_IMPORT_VALUES.includes(boolText)) {
+        return { value: true };
+      } else if (FALSY_IMPORT_VALUES.includes(boolText)) {
+        return { value: false };
+      }
+      return { value: undefined, error: 'Invalid boolean' };
+    }
+    case 'string':
+    case 'text':
+      return { value: value instanceof Date ? value.toISOString() : String(value) };
+  }
+
+  const inputFieldType = getColumnFieldType(column);
+  if (isColumnDateType(fieldType) || isColumnDateType(inputFieldType)) {
+    const date = parseImportDate(value, inputFieldType);
+    if (!date) {
+      return { value: undefined, error: 'Invalid date' };
+    }
+    const saveFieldType: FieldType = column.saveOutputType || fieldType || 'dateIso';
+    return { value: saveFieldType === 'date' ? date : formatDateByFieldType(date, undefined, saveFieldType) };
+  }
+
+  return { value };
+}
+
+/**
+ * Create an item (data context) from the cell values of an imported row, each cell is converted to its column type
+ * and (optionally) validated with the column editor validator (or column validator).
+ * @param {Array<*>} values - cell values of the imported row
+ * @param {Array<Column>} mappedColumns - column of each cell (see `getImportColumnMapping()`)
+ * @param {SlickGrid} grid - SlickGrid instance
+ * @param {Boolean} [validateCells] - defaults to true, should we validate each cell value?
+ */
+export function createItemFromImportRow(
+  values: any[],
+  mappedColumns: Array<Column | undefined>,
+  grid: SlickGrid,
+  validateCells = true
+): { item: any; errors: ImportCellError[] } {
+  const item: any = {};
+  const errors: ImportCellError[] = [];
+  const parsedValues = new Map<Column, any>();
+  const gridOptions = grid.getOptions();
+
+  mappedColumns.forEach((column, idx) => {
+    if (column?.field) {
+      const { value, error } = parseImportValueByFieldType(values[idx], column, gridOptions);
+      if (error) {
+        errors.push({ field: column.field, message: error, value: values[idx] });
+      } else if (value !== undefined) {
+        parsedValues.set(column, value);
+        column.field.includes('.') ? setDeepValue(item, column.field, value) : (item[column.field] = value);
+      }
+    }
+  });
+
+  // validate only after the item is fully created since a validator might need other properties of the item
+  if (validateCells) {
+    mappedColumns.forEach((column) => {
+      const validator = column?.editor?.validator ?? column?.validator;
+      if (column?.field && validator && !errors.some((error) => error.field === column.field)) {
+        const value = parsedValues.get(column);
+        const validationResults = validator(value ?? '', { column, grid, item } as EditorArguments);
+        if (validationResults && !validationResults.valid) {
+          errors.push({ field: column.field, message: validationResults.msg || 'Invalid value', value });
+        }
+      }
+    });
+  }
+
+  return { item, errors };
+}
+
+/** Parse an imported date value, a string will be parsed with its FieldType format or else as an ISO date */
+function parseImportDate(value: any, inputFieldType: FieldType): Date | false {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? false : value;
+  }
+  const dateText = String(value).trim();
+  const date = tryParseDate(dateText, mapTempoDateFormatWithFieldType(inputFieldType));
+  if (date) {
+    return date;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(dateText)) {
+    return tryParseDate(dateText, 'YYYY-MM-DD'); // ISO date only, parsed as a local date
+  }
+  const isoDate = new Date(dateText);
+  return /^\d{4}-\d{2}-\d{2}T/.test(dateText) && !isNaN(isoDate.getTime()) ? isoDate : false;
+}
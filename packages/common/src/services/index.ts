@@ -1,4 +1,7 @@
+export * from './backendExportUtils.js';
+export * from './backendGrouping.service.js';
 export * from './backendUtility.service.js';
+export * from './backendViewport.service.js';
 export * from './collection.service.js';
 export * from './container.service.js';
 export * from './dataWrapperService.js';
@@ -11,6 +14,8 @@ export * from './grid.service.js';
 export * from './gridEvent.service.js';
 export * from './gridState.service.js';
 export * from './headerGrouping.service.js';
+export * from './importUtils.js';
+export * from './liveData.service.js';
 export * from './observers.js';
 export * from './pagination.service.js';
 export * from './pdfExport.service.js';
@@ -19,6 +24,8 @@ export * from './rxjsFacade.js';
 export * from './shared.service.js';
 export * from './sort.service.js';
 export * from './textExport.service.js';
+export * from './textReader.js';
 export * from './translater.service.js';
 export * from './treeData.service.js';
+export * from './undoRedo.service.js';
 export * from './utilities.js';
@@ -0,0 +1,299 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { SlickEventHandler, type DataIdType, type SlickDataView, type SlickGrid } from '../core/index.js';
+import type { ExternalResource, GridOption, LiveDataChanges, LiveDataMessage, LiveDataOption } from '../interfaces/index.js';
+import type { ContainerService } from './container.service.js';
+import type { Observable } from './rxjsFacade.js';
+import { getDescendantProperty } from './utilities.js';
+
+const LiveDataOptionDefaults: LiveDataOption = {
+  flashChangedCells: true,
+  flashDuration: 500,
+  pauseWhileEditing: true,
+};
+
+/** A source of Live Data messages, every value could be a single message or a batch of messages */
+export type LiveDataSource<T = any> =
+  | Observable<LiveDataMessage<T> | LiveDataMessage<T>[]>
+  | AsyncIterable<LiveDataMessage<T> | LiveDataMessage<T>[]>;
+
+/**
+ * Live Data Service which applies a stream of upsert/delete/patch messages (from a WebSocket or SSE feed for example) to the grid.
+ * All the messages received within the same animation frame are coalesced by item id and applied as a single DataView batch update,
+ * the sorting, filtering & grouping are preserved and the cells which had their value changed are flashed.
+ */
+export class LiveDataService implements ExternalResource {
+  readonly pluginName = 'LiveDataService';
+  protected _eventHandler: SlickEventHandler;
+  protected _flashTimers: Set<any> = new Set();
+  protected _frameId?: number;
+  protected _grid?: SlickGrid;
+  protected _isPaused = false;
+  protected _pendingMessages: Map<DataIdType, LiveDataMessage> = new Map();
+  protected _pubSubService?: BasePubSubService;
+  protected _subscriptions: Array<{ unsubscribe: () => void }> = [];
+
+  constructor() {
+    this._eventHandler = new SlickEventHandler();
+  }
+
+  /** Getter of SlickGrid DataView object */
+  protected get _dataView(): SlickDataView {
+    return this._grid?.getData<SlickDataView>() as SlickDataView;
+  }
+
+  /** Getter for the Grid Options pulled through the Grid Object */
+  protected get _gridOptions(): GridOption {
+    return this._grid?.getOptions() ?? {};
+  }
+
+  /** Getter of the Live Data options merged with their defaults */
+  get addonOptions(): LiveDataOption {
+    return { ...LiveDataOptionDefaults, ...this._gridOptions.liveDataOptions };
+  }
+
+  /** Getter of the SlickGrid Event Handler */
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  /** Are the updates currently paused? */
+  get isPaused(): boolean {
+    return this._isPaused;
+  }
+
+  /** Number of coalesced messages waiting to be applied to the grid */
+  get pendingCount(): number {
+    return this._pendingMessages.size;
+  }
+
+  dispose(): void {
+    this.disconnect();
+    this._eventHandler.unsubscribeAll();
+    if (this._frameId !== undefined) {
+      cancelAnimationFrame(this._frameId);
+      this._frameId = undefined;
+    }
+    this._flashTimers.forEach((timer) => clearTimeout(timer));
+    this._flashTimers.clear();
+    this._pendingMessages.clear();
+    this._isPaused = false;
+    this._grid = undefined;
+  }
+
+  /**
+   * Initialize the Service
+   * @param {SlickGrid} grid
+   * @param {ContainerService} containerService
+   */
+  init(grid: SlickGrid, containerService: ContainerService): void {
+    this._grid = grid;
+    this._pubSubService = containerService.get<BasePubSubService>('PubSubService') ?? undefined;
+
+    // the messages received while editing are kept in the queue, so we need to apply them once the editor is closed
+    this._eventHandler.subscribe(grid.onBeforeCellEditorDestroy, () => this.scheduleFlush());
+  }
+
+  /**
+   * Connect a source of messages (an Observable or an async iterator), every value received is queued and applied on the next animation frame.
+   * More than one source can be connected at the same time and they will all be stopped by calling `disconnect()`
+   * @param {LiveDataSource} source - Observable or async iterable of messages (single message or batch of messages)
+   */
+  connect<T = any>(source: LiveDataSource<T>): void {
+    if (typeof (source as AsyncIterable<any>)?.[Symbol.asyncIterator] === 'function') {
+      this.consumeAsyncIterable(source as AsyncIterable<LiveDataMessage<T> | LiveDataMessage<T>[]>);
+    } else if (typeof (source as Observable<any>)?.subscribe === 'function') {
+      const subscription = (source as Observable<LiveDataMessage<T> | LiveDataMessage<T>[]>).subscribe(
+        (messages) => this.push(messages),
+        (error) => this._pubSubService?.publish('onLiveDataError', { error })
+      );
+      this._subscriptions.push(subscription);
+    } else {
+      throw new Error('[Slickgrid-Universal] the Live Data source must be an Observable or an async iterable.');
+    }
+  }
+
+  /** Disconnect (unsubscribe) from all the connected sources, the messages that were already received are still applied */
+  disconnect(): void {
+    const subscriptions = this._subscriptions;
+    this._subscriptions = [];
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+  }
+
+  /**
+   * Queue one or more messages, they are coalesced with the messages already queued for the same item and applied on the next animation frame
+   * @param {LiveDataMessage | LiveDataMessage[]} messages - single message or batch of messages
+   */
+  push<T = any>(messages: LiveDataMessage<T> | LiveDataMessage<T>[]): void {
+    const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+
+    for (const message of Array.isArray(messages) ? messages : [messages]) {
+      const id: DataIdType | undefined = message?.id ?? (message?.item as any)?.[idPropName];
+      if (id === undefined || id === null) {
+        continue;
+      }
+      const pendingMessage = this._pendingMessages.get(id);
+
+      if (message.type === 'patch') {
+        if (pendingMessage?.type === 'upsert') {
+          pendingMessage.item = { ...pendingMessage.item, ...message.changes };
+        } else if (pendingMessage?.type === 'patch') {
+          pendingMessage.changes = { ...pendingMessage.changes, ...message.changes };
+        } else if (!pendingMessage) {
+          this._pendingMessages.set(id, { type: 'patch', id, changes: { ...message.changes } });
+        }
+        // a patch received after a delete of the same item is simply ignored
+      } else if (message.type === 'upsert' || message.type === 'delete') {
+        this._pendingMessages.set(id, { type: message.type, id, item: message.item });
+      }
+    }
+    this.scheduleFlush();
+  }
+
+  /** Pause the updates, the messages received in the meantime are kept and coalesced until the updates are resumed */
+  pause(): void {
+    this._isPaused = true;
+  }
+
+  /** Resume the updates and apply all the messages received while it was paused */
+  resume(): void {
+    this._isPaused = false;
+    this.scheduleFlush();
+  }
+
+  /**
+   * Apply all the queued messages right away as a single DataView batch update (even when the updates are paused)
+   * @returns {LiveDataChanges} ids of the items that were added, updated & deleted
+   */
+  flush(): LiveDataChanges {
+    const changes: LiveDataChanges = { addedIds: [], updatedIds: [], deletedIds: [] };
+    if (!this._grid || !this._dataView || this._pendingMessages.size === 0) {
+      return changes;
+    }
+
+    const messages = Array.from(this._pendingMessages.values());
+    this._pendingMessages.clear();
+
+    const addedItems: any[] = [];
+    const updatedItems: any[] = [];
+    const changedFields = new Map<DataIdType, any[]>();
+
+    for (const message of messages) {
+      const id = message.id as DataIdType;
+      const existingItem = this._dataView.getItemById(id);
+      if (message.type === 'delete') {
+        if (existingItem) {
+          changes.deletedIds.push(id);
+        }
+      } else if (existingItem) {
+        const newItem = message.type === 'upsert' ? message.item : { ...existingItem, ...message.changes };
+        changes.updatedIds.push(id);
+        updatedItems.push(newItem);
+        changedFields.set(id, [existingItem, newItem]);
+      } else if (message.type === 'upsert') {
+        changes.addedIds.push(id);
+        addedItems.push(message.item);
+      }
+    }
+
+    // apply all changes as a single batch, the DataView refresh will then re-apply the filtering & grouping
+    this._dataView.beginUpdate(true);
+    if (updatedItems.length) {
+      this._dataView.updateItems(changes.updatedIds, updatedItems);
+    }
+    if (addedItems.length) {
+      this._dataView.addItems(addedItems);
+    }
+    if (changes.deletedIds.length) {
+      this._dataView.deleteItems(changes.deletedIds);
+    }
+    if (updatedItems.length || addedItems.length) {
+      this._dataView.reSort(); // keep the current sort, it does nothing when the grid isn't sorted
+    }
+    this._dataView.endUpdate();
+
+    if (this.addonOptions.flashChangedCells && changedFields.size) {
+      this.flashChangedCells(changedFields);
+    }
+    this._pubSubService?.publish('onLiveDataUpdated', changes);
+
+    return changes;
+  }
+
+  // -----------------------
+  // protected functions
+  // -----------------------
+
+  /** Consume an async iterable until it is done or until the sources are disconnected */
+  protected async consumeAsyncIterable(source: AsyncIterable<LiveDataMessage | LiveDataMessage[]>): Promise<void> {
+    const iterator = source[Symbol.asyncIterator]();
+    let isConnected = true;
+    const subscription = {
+      unsubscribe: () => {
+        isConnected = false;
+        iterator.return?.();
+      },
+    };
+    this._subscriptions.push(subscription);
+
+    try {
+      while (isConnected) {
+        const { done, value } = await iterator.next();
+        if (done || !isConnected) {
+          break;
+        }
+        this.push(value);
+      }
+    } catch (error) {
+      this._pubSubService?.publish('onLiveDataError', { error });
+    } finally {
+      this._subscriptions = this._subscriptions.filter((sub) => sub !== subscription);
+    }
+  }
+
+  /** Flash the cells of every column which had its value changed */
+  protected flashChangedCells(changedFields: Map<DataIdType, any[]>): void {
+    const cssClass = this._gridOptions.cellFlashingCssClass || 'flashing';
+    const cellNodes: HTMLElement[] = [];
+    // the columns with a change indicator are already flashed by the Change Indicator Plugin
+    const hasChangeIndicator = this._gridOptions.enableChangeIndicator;
+    const columns = (this._grid?.getColumns() ?? []).map((columnDef) =>
+      hasChangeIndicator && columnDef.changeIndicator ? null : columnDef
+    );
+
+    changedFields.forEach(([oldItem, newItem], id) => {
+      const row = this._dataView.getRowById(id);
+      if (row !== undefined) {
+        columns.forEach((columnDef, cell) => {
+          if (columnDef && getDescendantProperty(oldItem, columnDef.field) !== getDescendantProperty(newItem, columnDef.field)) {
+            const cellNode = this._grid?.getCellNode(row, cell);
+            if (cellNode) {
+              cellNode.classList.add(cssClass);
+              cellNodes.push(cellNode);
+            }
+          }
+        });
+      }
+    });
+
+    if (cellNodes.length) {
+      const timer = setTimeout(() => {
+        cellNodes.forEach((cellNode) => cellNode.classList.remove(cssClass));
+        this._flashTimers.delete(timer);
+      }, this.addonOptions.flashDuration);
+      this._flashTimers.add(timer);
+    }
+  }
+
+  /** Apply the queued messages on the next animation frame, unless the updates are paused or the user is editing a cell */
+  protected scheduleFlush(): void {
+    if (this._frameId === undefined && this._pendingMessages.size > 0) {
+      this._frameId = requestAnimationFrame(() => {
+        this._frameId = undefined;
+        const isEditing = this.addonOptions.pauseWhileEditing && this._grid?.getEditorLock()?.isActive();
+        if (!this._isPaused && !isEditing) {
+          this.flush();
+        }
+      });
+    }
+  }
+}
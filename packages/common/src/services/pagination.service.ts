@@ -151,14 +151,23 @@ export class PaginationService {
       });
     }
 
-    // Subscribe to Filter Clear & Changed and go back to page 1 when that happen
-    this._subscriptions.push(this.pubSubService.subscribe(['onFilterChanged', 'onFilterCleared'], () => this.resetPagination()));
+    // Subscribe to Filter Clear & Changed (including Global Search & Filter Expression) and go back to page 1 when that happen
+    this._subscriptions.push(
+      this.pubSubService.subscribe(['onFilterChanged', 'onFilterCleared', 'onGlobalSearchChanged', 'onFilterExpressionChanged'], () =>
+        this.resetPagination()
+      )
+    );
 
     // when using Infinite Scroll (only), we also need to reset pagination when sorting
     if (backendServiceApi?.options?.infiniteScroll) {
       this._subscriptions.push(this.pubSubService.subscribe('onSortChanged', () => this.resetPagination()));
     }
 
+    // when using server-side grouping, the pagination is done on the groups of the 1st grouping level, so we need to reset it when the grouping changes
+    if (backendServiceApi?.options?.serverSideGrouping) {
+      this._subscriptions.push(this.pubSubService.subscribe('onGroupingChanged', () => this.resetPagination()));
+    }
+
     // Subscribe to any dataview row count changed so that when Adding/Deleting item(s) through the DataView
     // that would trigger a refresh of the pagination numbers
     if (this.dataView) {
@@ -466,11 +475,19 @@ export class PaginationService {
                   pageSize: itemsPerPage,
                 });
 
-          // the processes can be Promises
-          const process = this._backendServiceApi.process(query);
+          // the processes can be Promises, a cached result of the same query (when the cache is enabled) is also reused as a Promise
+          const backendApi = this._backendServiceApi;
+          const variables = backendApi.service.getQueryVariables?.();
+          const cachedResult = this.backendUtilities?.getCachedResult(backendApi, query, variables);
+          const process = cachedResult !== undefined ? Promise.resolve(cachedResult) : backendApi.process(query, { variables });
           if (process instanceof Promise) {
             process
               .then((processResult: any) => {
+                if (cachedResult === undefined) {
+                  this.backendUtilities?.setCachedResult(backendApi, query, processResult, variables);
+                } else if (backendApi.cacheOptions?.revalidate) {
+                  this.backendUtilities?.revalidateCachedResult(backendApi, query, startTime, this._totalItems);
+                }
                 this.backendUtilities?.executeBackendProcessesCallback(
                   startTime,
                   processResult,
@@ -497,6 +514,7 @@ export class PaginationService {
             this._subscriptions.push(
               (process as Observable<any>).subscribe(
                 (processResult: any) => {
+                  this.backendUtilities?.setCachedResult(backendApi, query, processResult, variables);
                   const pagination = this.getFullPagination();
                   this._previousPagination = {
                     pageNumber: pagination.pageNumber,
@@ -0,0 +1,254 @@
+import type { TextFileFormat, TextRow } from '../interfaces/index.js';
+
+/** delimiters that can be detected (all `DelimiterType`), in order of precedence when more than one delimiter is found on every line */
+const DELIMITER_CANDIDATES = ['\t', '::', '||', ';;', ',', ';', '|', ':', '=', ' '];
+const QUOTE_CHAR_CANDIDATES = ['"', "'"];
+
+/** how many characters to read from the start of the file to detect the delimiter and quote character */
+const SNIFF_SAMPLE_SIZE = 64 * 1024;
+const SNIFF_MAX_LINES = 50;
+
+/**
+ * Read the content of a Blob (or File) chunk by chunk, the Blob is read as a stream when available or else as a single ArrayBuffer.
+ * @param {Blob} file - file to read
+ */
+export async function* readBlobChunks(file: Blob): AsyncGenerator<Uint8Array> {
+  if (typeof file.stream === 'function') {
+    const reader = file.stream().getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      yield value;
+    }
+  } else {
+    yield new Uint8Array(await file.arrayBuffer());
+  }
+}
+
+/**
+ * Detect the encoding of a file by its Byte Order Mark (BOM), which is what the Text Export writes when `useUtf8WithBom` is enabled.
+ * @param {Uint8Array} bytes - first bytes of the file
+ * @param {String} [defaultEncoding] - defaults to "utf-8", encoding to use when the file has no BOM
+ */
+export function detectTextEncoding(bytes: Uint8Array, defaultEncoding = 'utf-8'): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  } else if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+  return defaultEncoding;
+}
+
+/**
+ * Detect the quote character and delimiter from a sample of the first lines of the file.
+ * The quote character is the one wrapping entire lines (a CSV export wraps every value in double quotes while a TXT export has no quotes),
+ * then the delimiter is the candidate found the same number of times (outside of quotes) on the most lines.
+ * @param {String} sample - text read from the start of the file
+ * @param {Boolean} [isComplete] - is the sample the entire file? when it is not then the last (partial) line is ignored
+ * @param {Object} [format] - known delimiter and/or quote character, which will not be detected
+ */
+export function sniffTextFormat(
+  sample: string,
+  isComplete = true,
+  format?: { delimiter?: string; quoteChar?: string }
+): { delimiter: string; quoteChar: string } {
+  const lines = sample.split('\n');
+  if (!isComplete && lines.length > 1) {
+    lines.pop();
+  }
+  const sampleLines = lines
+    .map((line) => line.replace(/\r$/, ''))
+    .filter((line) => line !== '')
+    .slice(0, SNIFF_MAX_LINES);
+
+  const quoteChar = format?.quoteChar ?? sniffQuoteChar(sampleLines);
+  const delimiter = format?.delimiter || sniffDelimiter(sampleLines, quoteChar);
+  return { delimiter, quoteChar };
+}
+
+/**
+ * Read the rows of a delimited text file (csv/txt), the file is decoded and parsed chunk by chunk and every row is yielded as soon as it is complete.
+ * The encoding is detected by the file Byte Order Mark (BOM) and the delimiter & quote character are detected from the first lines of the file
+ * unless they are provided. Quoted values can include the delimiter, a line break or an escaped quote (a doubled quote, e.g. `""`),
+ * and a value exported with `exportCsvForceToKeepAsString` (e.g. `="1E06"`) is read without its leading equal sign.
+ * @param {Blob} file - text file
+ * @param {Object} [options] - known delimiter, quote character and/or encoding to use when the file has no BOM
+ * @param {Object} [detectedFormat] - optional object which will be filled with the format that was used to read the file
+ */
+export async function* readTextRows(
+  file: Blob,
+  options?: Partial<TextFileFormat>,
+  detectedFormat?: Partial<TextFileFormat>
+): AsyncGenerator<TextRow> {
+  let decoder: TextDecoder | undefined;
+  let encoding = options?.encoding || 'utf-8';
+  let parseText: ((text: string, isLastChunk: boolean) => TextRow[]) | undefined;
+  let sample = '';
+
+  const startParsing = (isComplete: boolean) => {
+    const { delimiter, quoteChar } = sniffTextFormat(sample, isComplete, options);
+    Object.assign(detectedFormat ?? {}, { delimiter, encoding, quoteChar });
+    return createTextRowParser(delimiter, quoteChar);
+  };
+
+  for await (const chunk of readBlobChunks(file)) {
+    if (!decoder) {
+      encoding = detectTextEncoding(chunk, encoding);
+      decoder = new TextDecoder(encoding); // the BOM is removed by the decoder
+    }
+    const text = decoder.decode(chunk, { stream: true });
+    if (parseText) {
+      yield* parseText(text, false);
+    } else {
+      sample += text;
+      if (sample.length >= SNIFF_SAMPLE_SIZE) {
+        parseText = startParsing(false);
+        yield* parseText(sample, false);
+        sample = '';
+      }
+    }
+  }
+
+  const lastText = decoder?.decode() ?? '';
+  if (!parseText) {
+    sample += lastText;
+    yield* startParsing(true)(sample, true);
+  } else {
+    yield* parseText(lastText, true);
+  }
+}
+
+// --
+// local functions
+// -------------------
+
+/** count how many times the delimiter is found in a line, any delimiter inside a quoted value is ignored */
+function countDelimiter(line: string, delimiter: string, quoteChar: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (quoteChar && line[i] === quoteChar) {
+      inQuotes = !inQuotes; // an escaped quote toggles twice
+    } else if (!inQuotes && line.startsWith(delimiter, i)) {
+      count++;
+      i += delimiter.length - 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Create a parser which is called with each decoded text chunk and returns all rows completed by that chunk,
+ * the parser keeps its state between chunks so that a value or a multi-characters delimiter can be split across chunks.
+ */
+function createTextRowParser(delimiter: string, quoteChar: string): (text: string, isLastChunk: boolean) => TextRow[] {
+  let values: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  let pendingQuote = false; // a quote was found in a quoted value, it is either an escaped quote or the closing quote
+  let carry = ''; // end of the previous chunk which could be the start of a multi-characters delimiter
+  let rowNumber = 0;
+
+  const endRow = (): TextRow => {
+    values.push(value);
+    const row = { rowNumber: ++rowNumber, values };
+    values = [];
+    value = '';
+    return row;
+  };
+
+  return (chunkText: string, isLastChunk: boolean) => {
+    const rows: TextRow[] = [];
+    const text = carry + chunkText;
+    carry = '';
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (pendingQuote) {
+          pendingQuote = false;
+          if (char === quoteChar) {
+            value += quoteChar;
+            continue;
+          }
+          inQuotes = false; // previous quote was the closing quote, process current char as unquoted
+        } else if (char === quoteChar) {
+          pendingQuote = true;
+          continue;
+        } else {
+          value += char;
+          continue;
+        }
+      }
+
+      if (quoteChar && char === quoteChar && (value === '' || value === '=')) {
+        inQuotes = true;
+        value = ''; // a value starting with `="` was exported with `exportCsvForceToKeepAsString`, the equal sign is not part of the value
+      } else if (delimiter.length > 1 && !isLastChunk && i + delimiter.length > text.length && delimiter.startsWith(text.slice(i))) {
+        carry = text.slice(i); // could be a delimiter split across 2 chunks, process it with the next chunk
+        break;
+      } else if (text.startsWith(delimiter, i)) {
+        values.push(value);
+        value = '';
+        i += delimiter.length - 1;
+      } else if (char === '\n') {
+        rows.push(endRow());
+      } else if (char !== '\r') {
+        value += char;
+      }
+    }
+
+    if (isLastChunk && (value !== '' || values.length)) {
+      rows.push(endRow());
+    }
+    return rows;
+  };
+}
+
+/** the delimiter is the candidate found the same (non-zero) number of times on the most lines, e.g. a group title row of a grouped export has no delimiter */
+function sniffDelimiter(lines: string[], quoteChar: string): string {
+  let bestDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const countFrequencies = new Map<number, number>();
+    for (const line of lines) {
+      const count = countDelimiter(line, delimiter, quoteChar);
+      if (count > 0) {
+        countFrequencies.set(count, (countFrequencies.get(count) ?? 0) + 1);
+      }
+    }
+    const score = Math.max(0, ...countFrequencies.values());
+
+    // a space is also common inside values, so it is only considered as the delimiter when found the same number of times on every line
+    if (score > bestScore && (delimiter !== ' ' || score === lines.length)) {
+      bestDelimiter = delimiter;
+      bestScore = score;
+    }
+  }
+  return bestDelimiter;
+}
+
+/**
+ * the quote character is the candidate wrapping the most lines, since a CSV export wraps every value in quotes
+ * (a value exported with `exportCsvForceToKeepAsString` starts with `="`)
+ */
+function sniffQuoteChar(lines: string[]): string {
+  let bestQuoteChar = '';
+  let bestScore = 0;
+
+  for (const quoteChar of QUOTE_CHAR_CANDIDATES) {
+    const score = lines.filter(
+      (line) => line.length > 1 && (line.startsWith(quoteChar) || line.startsWith(`=${quoteChar}`)) && line.endsWith(quoteChar)
+    ).length;
+    if (score > bestScore) {
+      bestQuoteChar = quoteChar;
+      bestScore = score;
+    }
+  }
+  return bestQuoteChar;
+}
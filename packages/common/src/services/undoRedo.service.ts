@@ -0,0 +1,471 @@
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { SlickEventHandler, type SlickDataView, type SlickEventData, type SlickGrid } from '../core/index.js';
+import type {
+  Column,
+  EditCommand,
+  EditUndoRedoBuffer,
+  GridOption,
+  UndoRedoCommand,
+  UndoRedoOption,
+  UndoRedoStateChange,
+  UndoRedoTransaction,
+  UndoRedoTransactionType,
+} from '../interfaces/index.js';
+import type { ExtensionService } from './extension.service.js';
+
+const UndoRedoOptionDefaults: UndoRedoOption = {
+  enableKeyboardShortcuts: true,
+  maxHistoryDepth: 100,
+};
+
+/**
+ * Undo/Redo Service which records all changes made in the grid (cell edits, Excel Copy Buffer paste, GridService add/update/delete,
+ * Row Move and Composite Editor mass changes) as transactions that can then be undone/redone as a single action.
+ */
+export class UndoRedoService implements EditUndoRedoBuffer {
+  readonly pluginName = 'UndoRedoService';
+  protected _eventHandler: SlickEventHandler;
+  protected _existingEditCommandHandler?: (item: any, column: Column, command: EditCommand) => void;
+  protected _grid?: SlickGrid;
+  protected _isApplyingHistory = false;
+  protected _itemSnapshots: Map<number | string, any> = new Map();
+  protected _pendingTransaction: UndoRedoTransaction | null = null;
+  protected _redoStack: UndoRedoTransaction[] = [];
+  protected _rowMoveItemsSnapshot: any[] | null = null;
+  protected _transactionDepth = 0;
+  protected _undoStack: UndoRedoTransaction[] = [];
+
+  constructor(
+    protected readonly extensionService: ExtensionService,
+    protected readonly pubSubService: BasePubSubService
+  ) {
+    this._eventHandler = new SlickEventHandler();
+    this.handleEditCommand = this.handleEditCommand.bind(this);
+  }
+
+  /** Getter of SlickGrid DataView object */
+  protected get _dataView(): SlickDataView {
+    return this._grid?.getData<SlickDataView>() as SlickDataView;
+  }
+
+  /** Getter for the Grid Options pulled through the Grid Object */
+  protected get _gridOptions(): GridOption {
+    return this._grid?.getOptions() ?? {};
+  }
+
+  /** Getter of the Undo/Redo options merged with their defaults */
+  get addonOptions(): UndoRedoOption {
+    return { ...UndoRedoOptionDefaults, ...this._gridOptions.undoRedoOptions };
+  }
+
+  /** Getter of the SlickGrid Event Handler */
+  get eventHandler(): SlickEventHandler {
+    return this._eventHandler;
+  }
+
+  /** Number of transactions available to redo */
+  get redoCount(): number {
+    return this._redoStack.length;
+  }
+
+  /** Number of transactions available to undo */
+  get undoCount(): number {
+    return this._undoStack.length;
+  }
+
+  dispose(): void {
+    this._eventHandler.unsubscribeAll();
+    if (this._grid && this._gridOptions.editCommandHandler === this.handleEditCommand) {
+      this._grid.setOptions({ editCommandHandler: this._existingEditCommandHandler });
+    }
+    this._undoStack = [];
+    this._redoStack = [];
+    this._pendingTransaction = null;
+    this._rowMoveItemsSnapshot = null;
+    this._itemSnapshots.clear();
+    this._transactionDepth = 0;
+    this._grid = undefined;
+  }
+
+  /**
+   * Initialize the Service, it must be called after all the extensions are created since it will also record the Excel Copy Buffer & Row Move Manager changes
+   * @param {SlickGrid} grid
+   */
+  init(grid: SlickGrid): void {
+    this._grid = grid;
+
+    // record all cell edits by chaining the grid edit command handler with any existing handler
+    if (this._gridOptions.editCommandHandler !== this.handleEditCommand) {
+      this._existingEditCommandHandler = this._gridOptions.editCommandHandler;
+      grid.setOptions({ editCommandHandler: this.handleEditCommand });
+    }
+
+    // record all Excel Copy Buffer pastes by replacing its own undo buffer
+    const cellExcelCopyManager = this.extensionService.getExtensionInstanceByName('cellExternalCopyManager');
+    if (cellExcelCopyManager) {
+      cellExcelCopyManager.undoRedoBuffer = {
+        queueAndExecuteCommand: (editCommand: EditCommand) => this.queueAndExecuteCommand(editCommand, 'paste'),
+        undo: () => this.undo(),
+        redo: () => this.redo(),
+      };
+    }
+
+    // record all Row Moves, the dataset is expected to be reordered by the user in the `onMoveRows` callback
+    const rowMoveManager = this.extensionService.getExtensionInstanceByName('rowMoveManager');
+    if (rowMoveManager) {
+      this._eventHandler.subscribe(rowMoveManager.onBeforeMoveRows, () => {
+        // the dataset doesn't change while dragging, so the last snapshot is the dataset as it was before the move
+        this._rowMoveItemsSnapshot = this._dataView.getItems().slice();
+      });
+      this._eventHandler.subscribe(rowMoveManager.onMoveRows, this.handleRowsMoved.bind(this));
+    }
+
+    if (this.addonOptions.enableKeyboardShortcuts) {
+      this._eventHandler.subscribe(grid.onKeyDown, this.handleKeyDown.bind(this));
+    }
+
+    // keep the last known values of every item, so that an item modified in place before calling the GridService can still be compared
+    this._eventHandler.subscribe(this._dataView.onSetItemsCalled, this.snapshotAllItems.bind(this));
+    this.snapshotAllItems();
+  }
+
+  /**
+   * Start a transaction, all the changes recorded until the matching `endTransaction()` is called will then be undone/redone as a single action.
+   * Transactions can be nested, only the outer transaction will be added to the history.
+   * @param {UndoRedoTransactionType} transactionType - type of change recorded by the transaction
+   */
+  beginTransaction(transactionType: UndoRedoTransactionType = 'custom'): void {
+    if (this._transactionDepth++ === 0) {
+      this._pendingTransaction = { type: transactionType, commands: [] };
+    }
+  }
+
+  /** End a transaction that was started with `beginTransaction()` and add it to the history when it has any changes */
+  endTransaction(): void {
+    if (this._transactionDepth > 0 && --this._transactionDepth === 0) {
+      const transaction = this._pendingTransaction;
+      this._pendingTransaction = null;
+      if (transaction?.commands.length) {
+        this.addTransaction(transaction);
+      }
+    }
+  }
+
+  /** Is there any transaction available to redo? */
+  canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
+  /** Is there any transaction available to undo? */
+  canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  /** Clear the entire Undo/Redo history */
+  clearHistory(): void {
+    this._undoStack = [];
+    this._redoStack = [];
+    this.publishStateChange('clear');
+  }
+
+  /**
+   * Add a command that was already executed to the history, it will be added to the current transaction when there's one or else as a new transaction
+   * @param {UndoRedoCommand} command - command with its execute & undo callbacks
+   * @param {UndoRedoTransactionType} transactionType - type of change recorded
+   */
+  addCommand(command: UndoRedoCommand | EditCommand, transactionType: UndoRedoTransactionType = 'custom'): void {
+    if (!this._grid || this._isApplyingHistory) {
+      return;
+    }
+    if (this._pendingTransaction) {
+      this._pendingTransaction.commands.push(command);
+    } else {
+      this.addTransaction({ type: transactionType, commands: [command] });
+    }
+  }
+
+  /**
+   * Execute a command and add it to the history
+   * @param {UndoRedoCommand} command - command with its execute & undo callbacks
+   * @param {UndoRedoTransactionType} transactionType - type of change recorded
+   */
+  queueAndExecuteCommand(command: UndoRedoCommand | EditCommand, transactionType: UndoRedoTransactionType = 'custom'): void {
+    command.execute();
+    this.addCommand(command, transactionType);
+  }
+
+  /**
+   * Record items that were just added to the DataView, their undo will delete them and their redo will re-insert them at the same index
+   * @param {Array<Object>} items - added items
+   */
+  recordAddedItems(items: any[]): void {
+    if (this.isRecordingItemChanges() && items.length) {
+      this.snapshotItems(items);
+      const addedItems = this.getItemsWithIndex(items);
+      this.addCommand(
+        {
+          execute: () => this.insertItems(addedItems),
+          undo: () => this.removeItems(addedItems.map((addedItem) => addedItem.item)),
+        },
+        'addItems'
+      );
+    }
+  }
+
+  /**
+   * Record items that are about to be deleted from the DataView (it must be called before the deletion),
+   * their undo will re-insert them at the same index and their redo will delete them again
+   * @param {Array<Object>} items - items about to be deleted
+   */
+  recordDeletedItems(items: any[]): void {
+    if (this.isRecordingItemChanges() && items.length) {
+      this.deleteItemSnapshots(items);
+      const deletedItems = this.getItemsWithIndex(items);
+      this.addCommand(
+        {
+          execute: () => this.removeItems(deletedItems.map((deletedItem) => deletedItem.item)),
+          undo: () => this.insertItems(deletedItems),
+        },
+        'deleteItems'
+      );
+    }
+  }
+
+  /**
+   * Record items that are updated, the previous items must be provided before being changed. When an updated item is the same object
+   * as its previous item (e.g. the DataView item was modified in place), it is compared with the last known values of that item instead.
+   * Only the items with a change are recorded and their undo/redo will restore the item properties of the DataView item.
+   * @param {Array<Object>} previousItems - items before their changes
+   * @param {Array<Object>} updatedItems - items after their changes (in the same order as the previous items)
+   * @param {UndoRedoTransactionType} [transactionType] - type of change recorded, defaults to "updateItems"
+   */
+  recordUpdatedItems(previousItems: any[], updatedItems: any[], transactionType: UndoRedoTransactionType = 'updateItems'): void {
+    if (!this.isRecordingItemChanges()) {
+      return;
+    }
+    const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+    const changes: Array<{ id: number | string; previous: any; updated: any }> = [];
+    updatedItems.forEach((updatedItem, idx) => {
+      const previousItem = previousItems[idx] === updatedItem ? this._itemSnapshots.get(updatedItem?.[idPropName]) : previousItems[idx];
+      if (previousItem && updatedItem && !this.isShallowEqual(previousItem, updatedItem)) {
+        changes.push({ id: updatedItem[idPropName], previous: { ...previousItem }, updated: { ...updatedItem } });
+      }
+    });
+    this.snapshotItems(updatedItems);
+
+    if (changes.length) {
+      this.addCommand(
+        {
+          execute: () => this.restoreItems(changes.map((change) => ({ id: change.id, values: change.updated }))),
+          undo: () => this.restoreItems(changes.map((change) => ({ id: change.id, values: change.previous }))),
+        },
+        transactionType
+      );
+    }
+  }
+
+  /** Redo the last transaction that was undone */
+  redo(): void {
+    if (this.canRedo() && this._grid?.getEditorLock().cancelCurrentEdit()) {
+      const transaction = this._redoStack.pop() as UndoRedoTransaction;
+      this.applyHistory(() => transaction.commands.forEach((command) => command.execute()));
+      this.snapshotEditedItems(transaction.commands);
+      this._undoStack.push(transaction);
+      this.publishStateChange('redo', transaction.type);
+    }
+  }
+
+  /** Undo the last transaction */
+  undo(): void {
+    if (this.canUndo() && this._grid?.getEditorLock().cancelCurrentEdit()) {
+      const transaction = this._undoStack.pop() as UndoRedoTransaction;
+      this.applyHistory(() => [...transaction.commands].reverse().forEach((command) => command.undo()));
+      this.snapshotEditedItems(transaction.commands);
+      this._redoStack.push(transaction);
+      this.publishStateChange('undo', transaction.type);
+    }
+  }
+
+  // --
+  // protected functions
+  // ------------------
+
+  protected addTransaction(transaction: UndoRedoTransaction): void {
+    this._undoStack.push(transaction);
+    this._redoStack = [];
+
+    // drop the oldest transactions when reaching the max history depth
+    const maxHistoryDepth = this.addonOptions.maxHistoryDepth ?? 0;
+    if (maxHistoryDepth > 0 && this._undoStack.length > maxHistoryDepth) {
+      this._undoStack.splice(0, this._undoStack.length - maxHistoryDepth);
+    }
+    this.publishStateChange('add', transaction.type);
+  }
+
+  /** Apply undo/redo changes in a single DataView bulk transaction and without recording any of them */
+  protected applyHistory(applyFn: () => void): void {
+    this._isApplyingHistory = true;
+    this._dataView.beginUpdate(true);
+    try {
+      applyFn();
+    } finally {
+      this._dataView.endUpdate();
+      this._isApplyingHistory = false;
+    }
+    this._grid?.invalidate();
+  }
+
+  protected deleteItemSnapshots(items: any[]): void {
+    const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+    items.forEach((item) => this._itemSnapshots.delete(item?.[idPropName]));
+  }
+
+  protected getItemsWithIndex(items: any[]): Array<{ index: number; item: any }> {
+    const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+    return items
+      .filter((item) => item?.[idPropName] !== undefined)
+      .map((item) => ({ index: this._dataView.getIdxById(item[idPropName]) ?? this._dataView.getItemCount(), item }));
+  }
+
+  /** Execute the cell edit and record it, any existing edit command handler is still executed (and expected to execute the command) */
+  protected handleEditCommand(item: any, column: Column, editCommand: EditCommand): void {
+    if (typeof this._existingEditCommandHandler === 'function') {
+      this._existingEditCommandHandler(item, column, editCommand);
+    } else {
+      editCommand.execute();
+    }
+    this.snapshotItems([item]);
+    this.addCommand(editCommand, 'cellEdit');
+  }
+
+  /** Undo with Ctrl+Z and redo with Ctrl+Y (or Ctrl+Shift+Z) unless an editor is opened since its input has its own undo */
+  protected handleKeyDown(e: SlickEventData): void {
+    const keyboardEvent = e.getNativeEvent<KeyboardEvent>();
+    const key = keyboardEvent?.key?.toLowerCase();
+    if (
+      !keyboardEvent ||
+      !(keyboardEvent.ctrlKey || keyboardEvent.metaKey) ||
+      keyboardEvent.altKey ||
+      this._grid?.getEditorLock().isActive()
+    ) {
+      return;
+    }
+
+    if (key === 'z' && !keyboardEvent.shiftKey) {
+      this.undo();
+    } else if (key === 'y' || (key === 'z' && keyboardEvent.shiftKey)) {
+      this.redo();
+    } else {
+      return;
+    }
+    keyboardEvent.preventDefault();
+    e.stopImmediatePropagation();
+  }
+
+  protected handleRowsMoved(): void {
+    const previousItems = this._rowMoveItemsSnapshot;
+    const movedItems = this._dataView.getItems().slice();
+    this._rowMoveItemsSnapshot = null;
+
+    if (previousItems && (previousItems.length !== movedItems.length || previousItems.some((item, idx) => item !== movedItems[idx]))) {
+      const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+      this.addCommand(
+        {
+          execute: () => this._dataView.setItems(movedItems.slice(), idPropName),
+          undo: () => this._dataView.setItems(previousItems.slice(), idPropName),
+        },
+        'moveRows'
+      );
+    }
+  }
+
+  /** Insert items back at their original index (in ascending order so that each index is valid once the previous items are inserted) */
+  protected insertItems(itemsWithIndex: Array<{ index: number; item: any }>): void {
+    const sortedItems = [...itemsWithIndex].sort((a, b) => a.index - b.index);
+    sortedItems.forEach(({ index, item }) => this._dataView.insertItem(Math.min(index, this._dataView.getItemCount()), item));
+    this.snapshotItems(sortedItems.map(({ item }) => item));
+    this.pubSubService.publish(
+      'onItemsAdded',
+      sortedItems.map(({ item }) => item)
+    );
+  }
+
+  /** Only record GridService & Composite Editor item changes when initialized and not a Tree Data grid (its hierarchical dataset cannot be restored) */
+  protected isRecordingItemChanges(): boolean {
+    return !!this._grid && !this._isApplyingHistory && !this._gridOptions.enableTreeData;
+  }
+
+  protected isShallowEqual(item1: any, item2: any): boolean {
+    const keys1 = Object.keys(item1);
+    return keys1.length === Object.keys(item2).length && keys1.every((key) => item1[key] === item2[key]);
+  }
+
+  protected publishStateChange(action: UndoRedoStateChange['action'], transactionType?: UndoRedoTransactionType): void {
+    this.pubSubService.publish<UndoRedoStateChange>('onUndoRedoStateChanged', {
+      action,
+      transactionType,
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      undoCount: this.undoCount,
+      redoCount: this.redoCount,
+    });
+  }
+
+  protected removeItems(items: any[]): void {
+    const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+    const itemIds = items.map((item) => item[idPropName]).filter((itemId) => this._dataView.getIdxById(itemId) !== undefined);
+    this._dataView.deleteItems(itemIds);
+    this.deleteItemSnapshots(items);
+    this.pubSubService.publish('onItemsDeleted', items);
+  }
+
+  /**
+   * Restore the properties of the DataView items in place, we keep the same item object references
+   * so that any other command referencing these items (e.g. a cell edit) can still be undone/redone afterward
+   */
+  protected restoreItems(itemValues: Array<{ id: number | string; values: any }>): void {
+    const restoredIds: Array<number | string> = [];
+    const restoredItems: any[] = [];
+    itemValues.forEach(({ id, values }) => {
+      const item = this._dataView.getItemById(id);
+      if (item) {
+        Object.keys(item)
+          .filter((prop) => !(prop in values))
+          .forEach((prop) => delete item[prop]);
+        Object.assign(item, values);
+        restoredIds.push(id);
+        restoredItems.push(item);
+      }
+    });
+    this._dataView.updateItems(restoredIds, restoredItems);
+    this.snapshotItems(restoredItems);
+    this.pubSubService.publish('onItemsUpdated', restoredItems);
+  }
+
+  /** keep a shallow copy of every DataView item, Tree Data items are not recorded and so they are not kept either */
+  protected snapshotAllItems(): void {
+    this._itemSnapshots.clear();
+    if (!this._gridOptions.enableTreeData) {
+      this.snapshotItems(this._dataView.getItems());
+    }
+  }
+
+  /** keep the item values of the cell edits (and any other command with a row) after they were undone/redone */
+  protected snapshotEditedItems(commands: Array<UndoRedoCommand | EditCommand>): void {
+    const editedRows = commands
+      .filter((command) => typeof (command as EditCommand).row === 'number')
+      .map((command) => (command as EditCommand).row);
+    this.snapshotItems(editedRows.map((row) => this._dataView.getItem(row)));
+  }
+
+  protected snapshotItems(items: any[]): void {
+    if (!this._gridOptions.enableTreeData) {
+      const idPropName = this._gridOptions.datasetIdPropertyName || 'id';
+      items.forEach((item) => {
+        if (item?.[idPropName] !== undefined) {
+          this._itemSnapshots.set(item[idPropName], { ...item });
+        }
+      });
+    }
+  }
+}
@@ -1,12 +1,15 @@
 import {
   Editors,
+  GridService,
+  SlickDataView,
   SlickEvent,
+  UndoRedoService,
   type Column,
   type CompositeEditorOpenDetailOption,
   type Editor,
+  type ExtensionService,
   type GridOption,
-  type GridService,
-  type SlickDataView,
+  type PubSubService,
   type SlickGrid,
   type SlickHybridSelectionModel,
 } from '@slickgrid-universal/common';
@@ -2026,6 +2029,77 @@ describe('CompositeEditorService', () => {
         expect(clearSelectionSpy).toHaveBeenCalled();
         expect(disposeSpy).toHaveBeenCalled();
       });
+
+      it('should record a single "massUpdate" history entry that restores all the selected rows with one undo when "Mass Selection" save button is clicked', () => {
+        const dataView = new SlickDataView({});
+        dataView.setItems([
+          { id: 222, field3: 'something', address: { zip: 123456 } },
+          { id: 333, field3: 'else', address: { zip: 789123 } },
+          { id: 444, field3: 'other', address: { zip: 456789 } },
+        ]);
+        const undoRedoOptionsMock = { ...gridOptionsMock, enableUndoRedo: true };
+        const serviceGridStub = {
+          getData: () => dataView,
+          getEditorLock: () => ({ cancelCurrentEdit: () => true }),
+          getOptions: () => undoRedoOptionsMock,
+          invalidate: vi.fn(),
+          setOptions: vi.fn(),
+          updateRow: vi.fn(),
+          onKeyDown: new SlickEvent(),
+        } as unknown as SlickGrid;
+        const pubSubServiceStub = { publish: vi.fn(), subscribe: vi.fn(), unsubscribe: vi.fn(), unsubscribeAll: vi.fn() } as PubSubService;
+        const undoRedoService = new UndoRedoService({ getExtensionInstanceByName: vi.fn() } as unknown as ExtensionService, pubSubServiceStub);
+        const gridService = new GridService({} as any, {} as any, pubSubServiceStub, {} as any, {} as any, {} as any, {} as any, undoRedoService);
+        undoRedoService.init(serviceGridStub);
+        gridService.init(serviceGridStub);
+        container.registerInstance('GridService', gridService);
+        container.registerInstance('UndoRedoService', undoRedoService);
+
+        const currentEditorMock = { validate: vi.fn() } as unknown as Editor;
+        vi.spyOn(gridStub, 'getOptions').mockReturnValue(undoRedoOptionsMock);
+        vi.spyOn(gridStub, 'getDataItem').mockReturnValue(dataView.getItemById(222));
+        vi.spyOn(gridStub, 'getCellEditor').mockReturnValue(currentEditorMock as any);
+        vi.spyOn(currentEditorMock, 'validate').mockReturnValue({ valid: true, msg: null });
+        vi.spyOn(dataViewStub, 'getAllSelectedIds').mockReturnValue([222, 333]);
+        vi.spyOn(dataViewStub, 'mapIdsToRows').mockReturnValue([0, 1]);
+        vi.spyOn(dataViewStub, 'getItemById').mockImplementation((id) => dataView.getItemById(id));
+
+        const mockModalOptions = { headerTitle: 'Details', modalType: 'mass-selection' } as CompositeEditorOpenDetailOption;
+        component = new SlickCompositeEditorComponent();
+        component.init(gridStub, container);
+        component.openDetails(mockModalOptions);
+
+        const compositeContainerElm = document.querySelector('dialog.slick-editor-modal.slickgrid_123456') as HTMLSelectElement;
+        const compositeFooterSaveBtnElm = compositeContainerElm.querySelector('.btn-save') as HTMLSelectElement;
+
+        gridStub.onCompositeEditorChange.notify({
+          row: 0,
+          cell: 0,
+          column: columnsMock[0],
+          item: dataView.getItemById(222),
+          formValues: { field3: 'test' },
+          editors: {},
+          grid: gridStub,
+        });
+
+        compositeFooterSaveBtnElm.click();
+
+        vi.runAllTimers();
+
+        expect(dataView.getItems().map((item) => item.field3)).toEqual(['test', 'test', 'other']);
+        expect(undoRedoService.undoCount).toBe(1);
+
+        undoRedoService.undo();
+
+        expect(dataView.getItems()).toEqual([
+          { id: 222, field3: 'something', address: { zip: 123456 } },
+          { id: 333, field3: 'else', address: { zip: 789123 } },
+          { id: 444, field3: 'other', address: { zip: 456789 } },
+        ]);
+        expect(undoRedoService.canUndo()).toBe(false);
+        expect(undoRedoService.redoCount).toBe(1);
+        undoRedoService.dispose();
+      });
     });
   });
 
@@ -2174,6 +2248,54 @@ describe('CompositeEditorService', () => {
       expect(clearSelectionSpy).not.toHaveBeenCalled(); // shouldClearRowSelectionAfterMassAction is false
     });
 
+    it('should record the mass update changes in the Undo/Redo Service when "enableUndoRedo" is enabled and "Mass Update" save button is clicked', async () => {
+      const mockProduct1 = { id: 222, field3: 'something', address: { zip: 123456 }, product: { name: 'Product ABC', price: 12.55 } };
+      const mockProduct2 = { id: 333, field3: 'else', address: { zip: 789123 }, product: { name: 'Product XYZ', price: 33.44 } };
+      const currentEditorMock = { validate: vi.fn() } as unknown as Editor;
+      const undoRedoServiceStub = { recordUpdatedItems: vi.fn() };
+      container.registerInstance('UndoRedoService', undoRedoServiceStub);
+      vi.spyOn(gridStub, 'getOptions').mockReturnValue({ ...gridOptionsMock, enableUndoRedo: true });
+      vi.spyOn(dataViewStub, 'getItems').mockReturnValue([mockProduct1, mockProduct2]);
+      vi.spyOn(gridStub, 'getCellEditor').mockReturnValue(currentEditorMock as any);
+      vi.spyOn(currentEditorMock, 'validate').mockReturnValue({ valid: true, msg: null });
+      vi.spyOn(dataViewStub, 'getAllSelectedIds').mockReturnValue([222]);
+      vi.spyOn(dataViewStub, 'mapIdsToRows').mockReturnValue([0]);
+
+      const mockModalOptions = { headerTitle: 'Details', modalType: 'mass-update' } as CompositeEditorOpenDetailOption;
+      component = new SlickCompositeEditorComponent();
+      component.init(gridStub, container);
+      component.openDetails(mockModalOptions);
+
+      const compositeContainerElm = document.querySelector('dialog.slick-editor-modal.slickgrid_123456') as HTMLSelectElement;
+      const compositeFooterSaveBtnElm = compositeContainerElm.querySelector('.btn-save') as HTMLSelectElement;
+
+      gridStub.onCompositeEditorChange.notify({
+        row: 0,
+        cell: 0,
+        column: columnsMock[0],
+        item: mockProduct1,
+        formValues: { field3: 'test' },
+        editors: {},
+        grid: gridStub,
+      });
+
+      compositeFooterSaveBtnElm.click();
+
+      await new Promise(process.nextTick);
+
+      expect(undoRedoServiceStub.recordUpdatedItems).toHaveBeenCalledWith(
+        [
+          { address: { zip: 123456 }, field3: 'something', id: 222, product: { name: 'Product ABC', price: 12.55 } },
+          { address: { zip: 789123 }, field3: 'else', id: 333, product: { name: 'Product XYZ', price: 33.44 } },
+        ],
+        [
+          { address: { zip: 123456 }, field3: 'test', id: 222, product: { name: 'Product ABC', price: 12.55 } },
+          { address: { zip: 789123 }, field3: 'test', id: 333, product: { name: 'Product XYZ', price: 33.44 } },
+        ],
+        'massUpdate'
+      );
+    });
+
     it('should handle saving and expect a dataset preview of the change when "shouldPreviewMassChangeDataset" is enabled and grid changes when "Mass Update" save button is clicked and user provides a custom "onSave" async function', async () => {
       const mockProduct1 = { id: 222, field3: 'something', address: { zip: 123456 }, product: { name: 'Product ABC', price: 12.55 } };
       const mockProduct2 = { id: 333, field3: 'else', address: { zip: 789123 }, product: { name: 'Product XYZ', price: 33.44 } };
@@ -21,6 +21,7 @@ import type {
   SlickGrid,
   SlickRange,
   TranslaterService,
+  UndoRedoService,
 } from '@slickgrid-universal/common';
 import {
   applyHtmlToElement,
@@ -76,6 +77,7 @@ export class SlickCompositeEditorComponent implements ExternalResource {
   protected grid!: SlickGrid;
   protected gridService: GridService | null = null;
   protected translaterService?: TranslaterService | null;
+  protected undoRedoService?: UndoRedoService | null;
 
   get eventHandler(): SlickEventHandler {
     return this._eventHandler;
@@ -119,6 +121,7 @@ export class SlickCompositeEditorComponent implements ExternalResource {
     this.grid = grid;
     this.gridService = containerService.get<GridService>('GridService');
     this.translaterService = containerService.get<TranslaterService>('TranslaterService');
+    this.undoRedoService = containerService.get<UndoRedoService>('UndoRedoService');
 
     if (!this.gridService) {
       throw new Error(
@@ -660,6 +663,9 @@ export class SlickCompositeEditorComponent implements ExternalResource {
     // not applying to dataView means that we're doing a preview of dataset and we should use a deep copy of it instead of applying changes directly to it
     const data = applyToDataview ? this.dataView.getItems() : deepCopy(this.dataView.getItems());
 
+    // the items are modified in place, so we need to keep a copy of them before their changes when recording them in the Undo/Redo history
+    const previousItems = this.isRecordingUndoRedo(applyToDataview) ? data.map((item: any) => ({ ...item })) : [];
+
     // from the "lastCompositeEditor" object that we kept as reference, it contains all the changes inside the "formValues" property
     // we can loop through these changes and apply them on the selected row indexes
     Object.keys(formValues).forEach((itemProp) => {
@@ -677,6 +683,9 @@ export class SlickCompositeEditorComponent implements ExternalResource {
     if (applyToDataview) {
       this.dataView.setItems(data, this.gridOptions.datasetIdPropertyName);
       this.grid.invalidate();
+      if (previousItems.length) {
+        this.undoRedoService?.recordUpdatedItems(previousItems, data, 'massUpdate');
+      }
     }
     return data;
   }
@@ -702,9 +711,16 @@ export class SlickCompositeEditorComponent implements ExternalResource {
       }
     });
 
-    // update all items in the grid with the grid service
+    // update all items in the grid with the grid service, the changes recorded by the grid service are grouped as a single mass update
     if (applyToDataview) {
+      const isRecordingUndoRedo = this.isRecordingUndoRedo(applyToDataview);
+      if (isRecordingUndoRedo) {
+        this.undoRedoService?.beginTransaction('massUpdate');
+      }
       this.gridService?.updateItems(selectedItems);
+      if (isRecordingUndoRedo) {
+        this.undoRedoService?.endTransaction();
+      }
     }
     return selectedItems;
   }
@@ -1028,6 +1044,11 @@ export class SlickCompositeEditorComponent implements ExternalResource {
     this.validateCompositeEditors();
   }
 
+  /** Check if the mass changes have to be recorded in the Undo/Redo history (only when applied to the DataView) */
+  protected isRecordingUndoRedo(applyToDataview: boolean): boolean {
+    return applyToDataview && !!this.undoRedoService && !!this.gridOptions.enableUndoRedo;
+  }
+
   /** Check wether the grid has the Row Selection enabled */
   protected hasRowSelectionEnabled(): boolean {
     const selectionModel = this.grid.getSelectionModel();
@@ -80,6 +80,7 @@ describe('SlickCustomTooltip plugin', () => {
   afterEach(() => {
     plugin.dispose();
     delete gridOptionsMock.customTooltip;
+    delete gridOptionsMock.rtl;
     vi.clearAllMocks();
   });
 
@@ -337,6 +338,31 @@ describe('SlickCustomTooltip plugin', () => {
     expect(tooltipElm.textContent).toBe('tooltip text');
   });
 
+  it('should create a tooltip align on the right of the cell, when position is "auto" and the "rtl" grid option is enabled with enough space on the left', () => {
+    gridOptionsMock.rtl = true;
+    const cellNode = document.createElement('div');
+    cellNode.className = 'slick-cell l2 r2';
+    cellNode.setAttribute('title', 'tooltip text');
+    Object.defineProperty(cellNode, 'offsetWidth', { writable: true, configurable: true, value: 100 });
+    const mockColumns = [{ id: 'firstName', field: 'firstName' }] as Column[];
+    vi.spyOn(gridStub, 'getCellFromEvent').mockReturnValue({ cell: 0, row: 1 });
+    vi.spyOn(gridStub, 'getCellNode').mockReturnValue(cellNode);
+    vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+    vi.spyOn(gridStub, 'getColumnByIdx').mockReturnValue(mockColumns[0]);
+    vi.spyOn(dataviewStub, 'getItem').mockReturnValue({ firstName: 'John', lastName: 'Doe' });
+    (getOffset as Mock).mockReturnValue({ top: 0, left: 300, right: 400, bottom: 0 });
+    const rectSpy = vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({ height: 20, width: 250 } as DOMRect);
+
+    plugin.init(gridStub, container);
+    plugin.setOptions({ useRegularTooltip: true, position: 'auto' });
+    gridStub.onMouseEnter.notify({ grid: gridStub } as any, { ...new SlickEventData(), target: cellNode } as any);
+
+    const tooltipElm = document.body.querySelector('.slick-custom-tooltip') as HTMLDivElement;
+    expect(tooltipElm).toBeTruthy();
+    expect(tooltipElm.style.left).toBe('150px');
+    rectSpy.mockRestore();
+  });
+
   it('should create a centered tooltip, when position is set to "center"', () => {
     const cellNode = document.createElement('div');
     cellNode.className = 'slick-cell l2 r2';
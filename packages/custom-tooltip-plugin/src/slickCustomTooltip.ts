@@ -685,17 +685,19 @@ export class SlickCustomTooltip {
 
       // user could explicitely use a "left-align" position, (when user knows his column is completely on the right in the grid)
       // or when using "auto" and we detect not enough available space then we'll position to the "left" of the cell
+      // in RTL mode, the "auto" position instead aligns the tooltip to the right of the cell unless there isn't enough space on the left
       const position = this._cellAddonOptions?.position ?? 'auto';
+      const rightAlignOffset = calculatedTooltipWidth - cellContainerWidth - (this._cellAddonOptions?.offsetLeft ?? 0);
+      const shouldAutoAlignRight = this.gridOptions.rtl
+        ? newPositionLeft - rightAlignOffset >= 0
+        : newPositionLeft + calculatedTooltipWidth > calculatedBodyWidth;
       let finalTooltipPosition = '';
       if (position === 'center') {
         newPositionLeft += cellContainerWidth / 2 - calculatedTooltipWidth / 2 + (this._cellAddonOptions?.offsetRight ?? 0);
         finalTooltipPosition = 'top-center';
-      } else if (
-        position === 'right-align' ||
-        ((position === 'auto' || position !== 'left-align') && newPositionLeft + calculatedTooltipWidth > calculatedBodyWidth)
-      ) {
+      } else if (position === 'right-align' || ((position === 'auto' || position !== 'left-align') && shouldAutoAlignRight)) {
         finalTooltipPosition = 'right';
-        newPositionLeft -= calculatedTooltipWidth - cellContainerWidth - (this._cellAddonOptions?.offsetLeft ?? 0);
+        newPositionLeft -= rightAlignOffset;
       } else {
         finalTooltipPosition = 'left';
       }
@@ -616,6 +616,30 @@ describe('ExcelExportService', () => {
           { mimeType: mimeTypeXLSX }
         );
       });
+
+      it('should add native Excel conditional formatting rules to the worksheet XML when "enableConditionalFormatting" is enabled and columns have rules', async () => {
+        mockCollection = [
+          { id: 0, userId: '1E06', firstName: 'John', lastName: 'X', position: 'SALES_REP', order: 10 },
+          { id: 1, userId: '2B02', firstName: 'Jane', lastName: 'Doe', position: 'FINANCE_MANAGER', order: 1 },
+        ];
+        mockColumns[5].conditionalFormatting = [{ type: 'dataBar' }, { type: 'aboveAverage', style: { bold: true } }];
+        mockGridOptions.enableConditionalFormatting = true;
+        vi.spyOn(dataViewStub, 'getLength').mockReturnValue(mockCollection.length);
+        vi.spyOn(dataViewStub, 'getItem').mockReturnValue(null).mockReturnValueOnce(mockCollection[0]).mockReturnValueOnce(mockCollection[1]);
+
+        service.init(gridStub, container);
+        await service.exportToExcel({ ...mockExportExcelOptions, useStreamingExport: false });
+
+        const workbook = (downloadExcelFile as Mock).mock.calls[0][0] as Workbook;
+        const worksheetXml = workbook.worksheets[0].toXML().toString();
+        expect(worksheetXml).toContain('<conditionalFormatting sqref="E2:E3">');
+        expect(worksheetXml).toContain('<cfRule type="dataBar" priority="1">');
+        expect(worksheetXml).toMatch(/<cfRule type="aboveAverage" dxfId="\d+" priority="2"\/>/);
+        expect(worksheetXml.indexOf('</sheetData>')).toBeLessThan(worksheetXml.indexOf('<conditionalFormatting'));
+
+        delete mockColumns[5].conditionalFormatting;
+        mockGridOptions.enableConditionalFormatting = false;
+      });
     });
 
     describe('exportToExcel method with Date Fields', () => {
@@ -774,6 +798,90 @@ describe('ExcelExportService', () => {
       });
     });
 
+    describe('exportToExcel with Backend Service export', () => {
+      const mockCollection = [
+        { id: 0, firstName: 'John', lastName: 'Doe' },
+        { id: 1, firstName: 'Jane', lastName: 'Smith' },
+      ];
+      let backendServiceMock: any;
+
+      beforeEach(() => {
+        mockColumns = [
+          { id: 'id', field: 'id', excludeFromExport: true },
+          { id: 'firstName', field: 'firstName', name: 'First Name', width: 100 },
+          { id: 'lastName', field: 'lastName', name: 'Last Name', width: 100 },
+        ] as Column[];
+        backendServiceMock = {
+          buildQuery: vi.fn(() => 'query'),
+          getDatasetFromProcessResult: (result: any) => ({ dataset: result.items, totalItems: result.total }),
+          updateOptions: vi.fn(),
+          updatePagination: vi.fn(),
+        };
+
+        vi.spyOn(gridStub, 'getVisibleColumns').mockReturnValue(mockColumns);
+        vi.spyOn(dataViewStub, 'getLength').mockReturnValue(1);
+        vi.spyOn(dataViewStub, 'getItem').mockReturnValue(mockCollection[0]);
+      });
+
+      it('should export all the items fetched by the Backend Service instead of the DataView items when using the "fetchAll" export mode', async () => {
+        const processMock = vi.fn(() => Promise.resolve({ items: mockCollection, total: 2 }));
+        mockGridOptions.backendServiceApi = { service: backendServiceMock, process: processMock, exportOptions: { mode: 'fetchAll' } };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+        service.init(gridStub, container);
+        const result = await service.exportToExcel({ ...mockExportExcelOptions, useStreamingExport: false });
+
+        expect(result).toBe(true);
+        expect(dataViewStub.getItem).not.toHaveBeenCalled();
+        expect(pubSubSpy).toHaveBeenCalledWith('onAfterExportToExcel', { filename: 'export.xlsx', mimeType: mimeTypeXLSX });
+        expect(downloadExcelFile).toHaveBeenCalledWith(
+          expect.objectContaining({
+            worksheets: [
+              expect.objectContaining({
+                data: [
+                  [
+                    { metadata: { style: 1 }, value: 'First Name' },
+                    { metadata: { style: 1 }, value: 'Last Name' },
+                  ],
+                  ['John', 'Doe'],
+                  ['Jane', 'Smith'],
+                ],
+              }),
+            ],
+          }),
+          'export.xlsx',
+          { mimeType: mimeTypeXLSX }
+        );
+      });
+
+      it('should delegate the export to the "serverExport" callback without downloading any file when using the "server" export mode', async () => {
+        const serverExport = vi.fn();
+        mockGridOptions.backendServiceApi = { service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'server', serverExport } };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+        service.init(gridStub, container);
+        const result = await service.exportToExcel(mockExportExcelOptions);
+
+        expect(result).toBe(true);
+        expect(serverExport).toHaveBeenCalledWith('query', { columns: mockColumns.slice(1), filename: 'export', format: 'xlsx', variables: undefined });
+        expect(downloadExcelFile).not.toHaveBeenCalled();
+        expect(pubSubSpy).toHaveBeenCalledWith('onAfterExportToExcel', { filename: 'export.xlsx' });
+      });
+
+      it('should return false and publish the error when the "serverExport" callback fails', async () => {
+        const error = new Error('Server Error');
+        const serverExport = vi.fn(() => Promise.reject(error));
+        mockGridOptions.backendServiceApi = { service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'server', serverExport } };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+        service.init(gridStub, container);
+        const result = await service.exportToExcel(mockExportExcelOptions);
+
+        expect(result).toBe(false);
+        expect(pubSubSpy).toHaveBeenCalledWith('onAfterExportToExcel', { error });
+      });
+    });
+
     describe('with Translation', () => {
       let mockCollection: any[];
 
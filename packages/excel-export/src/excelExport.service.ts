@@ -1,6 +1,7 @@
 import type {
   ExcelExportService as BaseExcelExportService,
   Column,
+  ConditionalFormattingRule,
   ContainerService,
   ExcelExportOption,
   ExcelGroupValueParserArgs,
@@ -18,7 +19,10 @@ import type {
 } from '@slickgrid-universal/common';
 import {
   Constants,
+  executeBackendServerExport,
   exportWithFormatterWhenDefined,
+  fetchAllBackendItems,
+  getBackendExportMode,
   getColumnFieldType,
   getTranslationPrefix,
   isColumnDateType,
@@ -40,8 +44,15 @@ import {
   type ExcelMetadata,
   type StyleSheet,
   type Worksheet,
+  type XMLNode,
 } from 'excel-builder-vanilla';
-import { getExcelFormatFromGridFormatter, getGroupTotalValue, useCellFormatByFieldType, type ExcelFormatter } from './excelUtils.js';
+import {
+  createExcelConditionalFormatting,
+  getExcelFormatFromGridFormatter,
+  getGroupTotalValue,
+  useCellFormatByFieldType,
+  type ExcelFormatter,
+} from './excelUtils.js';
 
 const DEFAULT_EXPORT_OPTIONS: ExcelExportOption = {
   filename: 'export',
@@ -67,6 +78,7 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
   protected _workbook!: Workbook;
   protected _timer1?: any;
   protected _timer2?: any;
+  protected _backendExportItems?: any[];
 
   // references of each detected cell and/or group total formats
   protected _regularCellExcelFormats: {
@@ -158,6 +170,26 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
     this._fileFormat = this._excelExportOptions.format || 'xlsx';
     const useStreamingExport = !!this._excelExportOptions.useStreamingExport;
 
+    // a Backend Service grid could export all the items of its query (instead of only the current page) or delegate the export to the server
+    const backendApi = this._gridOptions.backendServiceApi;
+    const backendExportMode = getBackendExportMode(backendApi);
+    if (backendApi && backendExportMode === 'server') {
+      try {
+        const columns = this.getColumns().filter((col) => !col.excludeFromExport);
+        const filename = `${this._excelExportOptions.filename}`;
+        await executeBackendServerExport(
+          backendApi,
+          { columns, filename, format: this._fileFormat },
+          this._gridOptions.pagination?.totalItems
+        );
+        this._pubSubService?.publish('onAfterExportToExcel', { filename: `${filename}.${this._fileFormat}` });
+        return true;
+      } catch (error) {
+        this._pubSubService?.publish('onAfterExportToExcel', { error });
+        return false;
+      }
+    }
+
     // reset references of detected Excel formats
     this._regularCellExcelFormats = {};
     this._groupTotalExcelFormats = {};
@@ -178,7 +210,11 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
     this._sheet.setColumnFormats([boldFormat]);
 
     try {
-      // get all data by reading all DataView rows with yielding for responsiveness
+      if (backendApi && backendExportMode === 'fetchAll') {
+        this._backendExportItems = await fetchAllBackendItems(backendApi);
+      }
+
+      // get all data by reading all DataView rows (or all the items fetched by the Backend Service) with yielding for responsiveness
       const dataOutput = await this.getDataOutputAsync();
 
       if (this._gridOptions?.excelExportOptions?.customExcelHeader) {
@@ -197,6 +233,12 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
       this._sheet.setData(finalOutput);
       this._workbook.addWorksheet(this._sheet);
 
+      // map any column Conditional Formatting rules onto native Excel conditional formatting, only the data rows are formatted
+      if (this._gridOptions.enableConditionalFormatting) {
+        const headerRowCount = this._hasColumnTitlePreHeader ? 2 : 1;
+        this.addConditionalFormattingToSheet(columns, finalOutput.length - dataOutput.length + headerRowCount + 1, finalOutput.length);
+      }
+
       // MIME type could be undefined, if that's the case we'll detect the type by its file extension
       // user could also provide its own mime type, if however an empty string is provided we will consider to be without any MIME type)
       let mimeType = this._excelExportOptions?.mimeType;
@@ -237,6 +279,8 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
       console.error('Excel export failed:', error);
       this._pubSubService?.publish('onAfterExportToExcel', { error });
       return false;
+    } finally {
+      this._backendExportItems = undefined;
     }
   }
 
@@ -268,6 +312,61 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
   // protected functions
   // -----------------------
 
+  /**
+   * Add the Conditional Formatting rules of every column as native Excel conditional formatting,
+   * since the library has no API for it, we will append the XML nodes to the worksheet XML when it gets generated
+   * @param {Array<Column>} columns - exported columns
+   * @param {Number} firstDataRow - first data row number (1-based)
+   * @param {Number} lastDataRow - last data row number (1-based)
+   */
+  protected addConditionalFormattingToSheet(columns: Column[], firstDataRow: number, lastDataRow: number): void {
+    const formattedColumns: Array<{ cellRange: string; rules: ConditionalFormattingRule[] }> = [];
+    let excelColumnIndex = this._hasGroupedItems ? 1 : 0;
+    columns.forEach((columnDef) => {
+      if (!columnDef.excludeFromExport) {
+        const excelColumnName = this.getExcelColumnNameByIndex(++excelColumnIndex);
+        if (columnDef.conditionalFormatting?.length && lastDataRow >= firstDataRow) {
+          formattedColumns.push({
+            cellRange: `${excelColumnName}${firstDataRow}:${excelColumnName}${lastDataRow}`,
+            rules: columnDef.conditionalFormatting,
+          });
+        }
+      }
+    });
+
+    if (formattedColumns.length) {
+      const sheet = this._sheet;
+      const originalToXML = sheet.toXML.bind(sheet);
+      sheet.toXML = () => {
+        const xmlDoc = originalToXML();
+        const cfNodes: XMLNode[] = [];
+        let priority = 1;
+        formattedColumns.forEach(({ cellRange, rules }) => {
+          const cfNode = createExcelConditionalFormatting(
+            xmlDoc,
+            this._stylesheet,
+            cellRange,
+            rules,
+            priority,
+            this._gridOptions.conditionalFormatting
+          );
+          if (cfNode) {
+            cfNodes.push(cfNode);
+            priority += cfNode.children.length;
+          }
+        });
+
+        // conditional formatting must be positioned after the sheet data & merged cells but before the page settings (as per the OOXML schema)
+        const sheetChildren = xmlDoc.documentElement.children;
+        const nextNodeIndex = sheetChildren.findIndex((node) =>
+          ['hyperlinks', 'pageMargins', 'pageSetup', 'headerFooter', 'drawing', 'tableParts'].includes(node.nodeName)
+        );
+        sheetChildren.splice(nextNodeIndex >= 0 ? nextNodeIndex : sheetChildren.length, 0, ...cfNodes);
+        return xmlDoc;
+      };
+    }
+  }
+
   /** get columns might include hidden columns when `includeHidden` is enabled */
   protected getColumns(): Column[] {
     return (this._excelExportOptions?.includeHidden ? this._grid?.getColumns() : this._grid.getVisibleColumns()) || [];
@@ -312,7 +411,7 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
 
   /** Get each column style including a style for the width of each column */
   protected getColumnStyles(columns: Column[]): any[] {
-    const grouping = this._dataView.getGrouping();
+    const grouping = this._backendExportItems ? [] : this._dataView.getGrouping();
     const columnStyles = [];
     if (Array.isArray(grouping) && grouping.length > 0) {
       columnStyles.push({
@@ -407,7 +506,8 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
 
     // get grouped column titles and if found, we will add a "Group by" column at the first column index
     // if it's a CSV format, we'll escape the text in double quotes
-    const grouping = this._dataView.getGrouping();
+    // the items fetched by the Backend Service are never grouped
+    const grouping = this._backendExportItems ? [] : this._dataView.getGrouping();
     if (Array.isArray(grouping) && grouping.length > 0) {
       this._hasGroupedItems = true;
       return groupByColumnHeader;
@@ -485,18 +585,19 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
     columns: Column[]
   ): Promise<Array<Array<string | ExcelColumnMetadata | number>>> {
     const dataView = this._dataView;
-    const lineCount = dataView.getLength();
+    const backendItems = this._backendExportItems;
+    const lineCount = backendItems ? backendItems.length : dataView.getLength();
 
     // Yield periodically based on dataset size
     const YIELD_FREQUENCY = lineCount < 1000 ? 0 : lineCount < 10000 ? 1000 : 500;
 
     // Update the hasGroupedItems flag from current grouping
-    const grouping = dataView.getGrouping();
+    const grouping = backendItems ? [] : dataView.getGrouping();
     this._hasGroupedItems = Array.isArray(grouping) && grouping.length > 0;
 
-    // Read rows directly from DataView
+    // Read rows directly from DataView (or from the items fetched by the Backend Service)
     for (let rowNumber = 0; rowNumber < lineCount; rowNumber++) {
-      const itemObj = dataView.getItem(rowNumber);
+      const itemObj = backendItems ? backendItems[rowNumber] : dataView.getItem(rowNumber);
 
       // make sure we have a filled object AND that the item doesn't include the "getItem" method
       // this happen could happen with an opened Row Detail as it seems to include an empty Slick DataView (we'll just skip those lines)
@@ -585,7 +686,7 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
     const columnsLn = columns.length;
     let prevColspan: number | string = 1;
     let colspanStartIndex = 0;
-    const itemMetadata = this._dataView.getItemMetadata(row);
+    const itemMetadata = this._backendExportItems ? null : this._dataView.getItemMetadata(row);
 
     for (let col = 0; col < columnsLn; col++) {
       const columnDef = columns[col];
@@ -602,7 +703,7 @@ export class ExcelExportService implements ExternalResource, BaseExcelExportServ
 
       // when using rowspan
       let rowspan = 1;
-      if (this._gridOptions.enableCellRowSpan) {
+      if (this._gridOptions.enableCellRowSpan && !this._backendExportItems) {
         const prs = this._grid.getParentRowSpanByCell(row, col, false);
         if (prs) {
           if (prs.start === row) {
@@ -1,7 +1,14 @@
 import { FieldType, Formatters, GroupTotalFormatters, type Column, type Formatter, type GridOption, type SlickGrid } from '@slickgrid-universal/common';
-import { type StyleSheet } from 'excel-builder-vanilla';
+import { XMLDOM, type StyleSheet } from 'excel-builder-vanilla';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { getExcelFormatFromGridFormatter, getExcelNumberCallback, getNumericFormatterOptions, useCellFormatByFieldType } from './excelUtils.js';
+import {
+  createExcelConditionalFormatting,
+  getExcelFormatFromGridFormatter,
+  getExcelNumberCallback,
+  getNumericFormatterOptions,
+  toExcelArgbColor,
+  useCellFormatByFieldType,
+} from './excelUtils.js';
 
 const mockGridOptions = {
   enableExcelExport: true,
@@ -678,6 +685,85 @@ describe('excelUtils', () => {
         expect(output).toEqual({ groupType: 'max', excelFormat: { id: 135 } });
       });
 
+      it('should get excel excel metadata style format for GroupTotalFormatters.countDistinctTotals', () => {
+        const column = {
+          type: 'number',
+          formatter: Formatters.decimal,
+          groupTotalsFormatter: GroupTotalFormatters.countDistinctTotals,
+        } as Column;
+        const output = getExcelFormatFromGridFormatter(stylesheetStub, {}, column, gridStub, 'group');
+
+        expect(output).toEqual({ groupType: 'countDistinct', excelFormat: { id: 135 } });
+      });
+
+      it('should get excel excel metadata style format for GroupTotalFormatters.medianTotals', () => {
+        const column = {
+          type: 'number',
+          formatter: Formatters.decimal,
+          groupTotalsFormatter: GroupTotalFormatters.medianTotals,
+        } as Column;
+        const output = getExcelFormatFromGridFormatter(stylesheetStub, {}, column, gridStub, 'group');
+
+        expect(output).toEqual({ groupType: 'median', excelFormat: { id: 135 } });
+      });
+
+      it('should get excel excel metadata style format for GroupTotalFormatters.modeTotals', () => {
+        const column = {
+          type: 'number',
+          formatter: Formatters.decimal,
+          groupTotalsFormatter: GroupTotalFormatters.modeTotals,
+        } as Column;
+        const output = getExcelFormatFromGridFormatter(stylesheetStub, {}, column, gridStub, 'group');
+
+        expect(output).toEqual({ groupType: 'mode', excelFormat: { id: 135 } });
+      });
+
+      it('should get excel excel metadata style format for GroupTotalFormatters.percentileTotals', () => {
+        const column = {
+          type: 'number',
+          formatter: Formatters.decimal,
+          groupTotalsFormatter: GroupTotalFormatters.percentileTotals,
+          params: { groupFormatterPercentile: 90 },
+        } as Column;
+        const output = getExcelFormatFromGridFormatter(stylesheetStub, {}, column, gridStub, 'group');
+
+        expect(output).toEqual({ groupType: 'percentile90', excelFormat: { id: 135 } });
+      });
+
+      it('should get excel excel metadata style format for GroupTotalFormatters.stdDevTotals', () => {
+        const column = {
+          type: 'number',
+          formatter: Formatters.decimal,
+          groupTotalsFormatter: GroupTotalFormatters.stdDevTotals,
+        } as Column;
+        const output = getExcelFormatFromGridFormatter(stylesheetStub, {}, column, gridStub, 'group');
+
+        expect(output).toEqual({ groupType: 'stdDevSample', excelFormat: { id: 135 } });
+      });
+
+      it('should get excel excel metadata style format for GroupTotalFormatters.varianceTotals', () => {
+        const column = {
+          type: 'number',
+          formatter: Formatters.decimal,
+          groupTotalsFormatter: GroupTotalFormatters.varianceTotals,
+          params: { groupFormatterVarianceMode: 'population' },
+        } as Column;
+        const output = getExcelFormatFromGridFormatter(stylesheetStub, {}, column, gridStub, 'group');
+
+        expect(output).toEqual({ groupType: 'variancePopulation', excelFormat: { id: 135 } });
+      });
+
+      it('should get excel excel metadata style format for GroupTotalFormatters.weightedAvgTotals', () => {
+        const column = {
+          type: 'number',
+          formatter: Formatters.decimal,
+          groupTotalsFormatter: GroupTotalFormatters.weightedAvgTotals,
+        } as Column;
+        const output = getExcelFormatFromGridFormatter(stylesheetStub, {}, column, gridStub, 'group');
+
+        expect(output).toEqual({ groupType: 'weightedAvg', excelFormat: { id: 135 } });
+      });
+
       it('should get excel excel metadata style format for GroupTotalFormatters.sumTotalsColored', () => {
         const column = {
           type: 'number',
@@ -911,4 +997,89 @@ describe('excelUtils', () => {
       });
     });
   });
+
+  describe('toExcelArgbColor() method', () => {
+    it('should return an ARGB color when providing a 6 digits hex color with or without the hash sign', () => {
+      expect(toExcelArgbColor('#63be7b')).toBe('FF63BE7B');
+      expect(toExcelArgbColor('63be7b')).toBe('FF63BE7B');
+    });
+
+    it('should expand a 3 digits hex color to an ARGB color', () => {
+      expect(toExcelArgbColor('#f00')).toBe('FFFF0000');
+    });
+
+    it('should return undefined when the color is not a valid hex color', () => {
+      expect(toExcelArgbColor('red')).toBeUndefined();
+      expect(toExcelArgbColor('')).toBeUndefined();
+      expect(toExcelArgbColor()).toBeUndefined();
+    });
+  });
+
+  describe('createExcelConditionalFormatting() method', () => {
+    let xmlDoc: XMLDOM;
+    let createDifferentialStyleSpy: any;
+
+    beforeEach(() => {
+      xmlDoc = new XMLDOM(null, 'worksheet');
+      stylesheetStub.createDifferentialStyle = vi.fn();
+      createDifferentialStyleSpy = vi.spyOn(stylesheetStub, 'createDifferentialStyle').mockReturnValue({ id: 3 });
+    });
+
+    it('should return null when there are no rules or when none of the rules can be represented in Excel', () => {
+      expect(createExcelConditionalFormatting(xmlDoc, stylesheetStub, 'B2:B10', [], 1)).toBeNull();
+      expect(
+        createExcelConditionalFormatting(
+          xmlDoc,
+          stylesheetStub,
+          'B2:B10',
+          [{ type: 'cellValue', operator: 'Contains', searchTerms: ['abc'], style: { color: '#9c0006' } }],
+          1
+        )
+      ).toBeNull();
+    });
+
+    it('should create a "cellIs" rule with a differential style when providing a "cellValue" rule with a range search term', () => {
+      const output = createExcelConditionalFormatting(
+        xmlDoc,
+        stylesheetStub,
+        'B2:B10',
+        [{ type: 'cellValue', operator: 'RangeInclusive', searchTerms: ['5..10'], style: { color: '#9c0006', backgroundColor: '#ffc7ce', bold: true } }],
+        2
+      );
+      const outputXml = output!.toString();
+
+      expect(createDifferentialStyleSpy).toHaveBeenCalledWith({
+        font: { bold: true, italic: false, color: 'FF9C0006' },
+        fill: { type: 'pattern', patternType: 'solid', fgColor: 'FFFFC7CE', bgColor: 'FFFFC7CE' },
+      });
+      expect(outputXml).toContain('<conditionalFormatting sqref="B2:B10">');
+      expect(outputXml).toContain('<cfRule type="cellIs" dxfId="3" priority="2" operator="between">');
+      expect(outputXml).toContain('<formula>5</formula><formula>10</formula>');
+    });
+
+    it('should create a rule for each type of statistical rules with incremental priorities', () => {
+      const output = createExcelConditionalFormatting(
+        xmlDoc,
+        stylesheetStub,
+        'C2:C20',
+        [
+          { type: 'colorScale' },
+          { type: 'dataBar', colors: ['#0000ff'], showValue: false },
+          { type: 'iconSet', iconSet: 'trafficLights' },
+          { type: 'bottomN', rank: 5, percent: true, style: { backgroundColor: '#ffc7ce' } },
+          { type: 'belowAverage', style: { italic: true }, stopIfTrue: true },
+        ],
+        1
+      );
+      const outputXml = output!.toString();
+
+      expect(outputXml).toContain('<cfRule type="colorScale" priority="1"><colorScale><cfvo type="min"/>');
+      expect(outputXml).toContain('<color rgb="FFF8696B"/><color rgb="FFFFEB84"/><color rgb="FF63BE7B"/>');
+      expect(outputXml).toContain('<cfRule type="dataBar" priority="2"><dataBar showValue="0">');
+      expect(outputXml).toContain('<color rgb="FF0000FF"/>');
+      expect(outputXml).toContain('<cfRule type="iconSet" priority="3"><iconSet iconSet="3TrafficLights1">');
+      expect(outputXml).toContain('<cfRule type="top10" dxfId="3" priority="4" rank="5" percent="1" bottom="1"/>');
+      expect(outputXml).toContain('<cfRule type="aboveAverage" dxfId="3" priority="5" aboveAverage="0" stopIfTrue="1"/>');
+    });
+  });
 });
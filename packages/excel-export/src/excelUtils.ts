@@ -1,4 +1,17 @@
-import type { Column, Formatter, FormatterType, GetDataValueCallback, GridOption, SlickGrid } from '@slickgrid-universal/common';
+import type {
+  Column,
+  ConditionalFormattingIconSetName,
+  ConditionalFormattingOption,
+  ConditionalFormattingRule,
+  ConditionalFormattingStyle,
+  Formatter,
+  FormatterType,
+  GetDataValueCallback,
+  GridOption,
+  OperatorType,
+  SearchTerm,
+  SlickGrid,
+} from '@slickgrid-universal/common';
 import {
   Constants,
   Formatters,
@@ -7,8 +20,8 @@ import {
   GroupTotalFormatters,
   retrieveFormatterOptions,
 } from '@slickgrid-universal/common';
-import { stripTags } from '@slickgrid-universal/utils';
-import type { StyleSheet } from 'excel-builder-vanilla';
+import { isNumber, stripTags, titleCase } from '@slickgrid-universal/utils';
+import type { ExcelStyleInstruction, StyleSheet, XMLDOM, XMLNode } from 'excel-builder-vanilla';
 
 export type ExcelFormatter = object & { id: number };
 
@@ -98,8 +111,15 @@ export function getNumericFormatterOptions(
         dataType = 'percent';
         break;
       case GroupTotalFormatters.avgTotals:
+      case GroupTotalFormatters.countDistinctTotals:
+      case GroupTotalFormatters.medianTotals:
       case GroupTotalFormatters.minTotals:
       case GroupTotalFormatters.maxTotals:
+      case GroupTotalFormatters.modeTotals:
+      case GroupTotalFormatters.percentileTotals:
+      case GroupTotalFormatters.stdDevTotals:
+      case GroupTotalFormatters.varianceTotals:
+      case GroupTotalFormatters.weightedAvgTotals:
       case GroupTotalFormatters.sumTotals:
       case GroupTotalFormatters.sumTotalsColored:
       case GroupTotalFormatters.sumTotalsBold:
@@ -175,12 +195,34 @@ export function getExcelFormatFromGridFormatter(
       case GroupTotalFormatters.avgTotalsPercentage:
         groupType = 'avg';
         break;
+      case GroupTotalFormatters.countDistinctTotals:
+        groupType = 'countDistinct';
+        break;
+      case GroupTotalFormatters.medianTotals:
+        groupType = 'median';
+        break;
       case GroupTotalFormatters.minTotals:
         groupType = 'min';
         break;
       case GroupTotalFormatters.maxTotals:
         groupType = 'max';
         break;
+      case GroupTotalFormatters.modeTotals:
+        groupType = 'mode';
+        break;
+      case GroupTotalFormatters.percentileTotals:
+        // the percentile & variance modes are part of the totals type (e.g. "percentile90", "stdDevSample"), same as the Aggregator type
+        groupType = `percentile${columnDef.params?.groupFormatterPercentile}`;
+        break;
+      case GroupTotalFormatters.stdDevTotals:
+        groupType = `stdDev${titleCase(columnDef.params?.groupFormatterVarianceMode ?? 'sample')}`;
+        break;
+      case GroupTotalFormatters.varianceTotals:
+        groupType = `variance${titleCase(columnDef.params?.groupFormatterVarianceMode ?? 'sample')}`;
+        break;
+      case GroupTotalFormatters.weightedAvgTotals:
+        groupType = 'weightedAvg';
+        break;
       case GroupTotalFormatters.sumTotals:
       case GroupTotalFormatters.sumTotalsBold:
       case GroupTotalFormatters.sumTotalsColored:
@@ -277,6 +319,174 @@ function createFormatFromNumber(formattedVal: string) {
   return format.replace(',', ',');
 }
 
+/** Excel "cellIs" operators of a Conditional Formatting "cellValue" rule, any other operator cannot be exported as a native Excel rule */
+const excelCellIsOperators: Partial<Record<OperatorType, string>> = {
+  '>': 'greaterThan',
+  GT: 'greaterThan',
+  '>=': 'greaterThanOrEqual',
+  GE: 'greaterThanOrEqual',
+  '<': 'lessThan',
+  LT: 'lessThan',
+  '<=': 'lessThanOrEqual',
+  LE: 'lessThanOrEqual',
+  '=': 'equal',
+  '==': 'equal',
+  EQ: 'equal',
+  '!=': 'notEqual',
+  '<>': 'notEqual',
+  NE: 'notEqual',
+  RangeInclusive: 'between',
+};
+
+/** Excel native icon set names of each Conditional Formatting icon set */
+const excelIconSetNames: Record<ConditionalFormattingIconSetName, string> = {
+  arrows: '3Arrows',
+  symbols: '3Symbols',
+  trafficLights: '3TrafficLights1',
+};
+
+/**
+ * Convert an hexadecimal color (e.g. "#ffc7ce" or "#fc0") to an Excel ARGB color (e.g. "FFFFC7CE")
+ * @param {String} color - hexadecimal color
+ * @returns {String | undefined} - Excel ARGB color or undefined when the input is not an hexadecimal color
+ */
+export function toExcelArgbColor(color?: string): string | undefined {
+  const hexColor = (color || '').replace('#', '');
+  if (/^[0-9a-f]{3}$/i.test(hexColor)) {
+    return `FF${hexColor.replace(/(.)/g, '$1$1')}`.toUpperCase();
+  }
+  return /^[0-9a-f]{6}$/i.test(hexColor) ? `FF${hexColor}`.toUpperCase() : undefined;
+}
+
+/**
+ * Create an Excel native Conditional Formatting XML node (`<conditionalFormatting>`) of a column from its Conditional Formatting rules,
+ * any rule that cannot be represented by a native Excel rule (e.g. a "cellValue" rule with a "Contains" operator) will be skipped.
+ * @param {XMLDOM} xmlDoc - worksheet XML document
+ * @param {StyleSheet} stylesheet - Excel stylesheet used to create the differential styles (dxf) of the highlight rules
+ * @param {String} cellRange - Excel cell range of the column data (e.g. "C2:C101")
+ * @param {Array<ConditionalFormattingRule>} rules - column Conditional Formatting rules
+ * @param {Number} startPriority - priority of the first rule, every rule of the worksheet must have its own priority
+ * @param {ConditionalFormattingOption} [options] - Conditional Formatting options, which include the default colors
+ * @returns {XMLNode | null} - Conditional Formatting XML node or null when none of the rules can be exported
+ */
+export function createExcelConditionalFormatting(
+  xmlDoc: XMLDOM,
+  stylesheet: StyleSheet,
+  cellRange: string,
+  rules: ConditionalFormattingRule[],
+  startPriority: number,
+  options?: ConditionalFormattingOption
+): XMLNode | null {
+  const cfNode = createXmlNode(xmlDoc, 'conditionalFormatting', { sqref: cellRange });
+  let priority = startPriority;
+
+  for (const rule of rules) {
+    let ruleNode: XMLNode | null = null;
+
+    switch (rule.type) {
+      case 'cellValue': {
+        const excelOperator = excelCellIsOperators[rule.operator as OperatorType];
+        const searchTerms = getConditionalFormattingSearchTerms(rule);
+        const dxfId = createExcelDifferentialStyleId(stylesheet, rule.style);
+        if (excelOperator && dxfId !== undefined && searchTerms.length >= (excelOperator === 'between' ? 2 : 1)) {
+          ruleNode = createXmlNode(xmlDoc, 'cfRule', { type: 'cellIs', dxfId, priority, operator: excelOperator });
+          searchTerms.slice(0, excelOperator === 'between' ? 2 : 1).forEach((searchTerm) => {
+            const formulaNode = createXmlNode(xmlDoc, 'formula');
+            formulaNode.appendChild(
+              xmlDoc.createTextNode(isNumber(searchTerm) ? String(searchTerm) : `"${String(searchTerm).replace(/"/g, '""')}"`)
+            );
+            ruleNode!.appendChild(formulaNode);
+          });
+        }
+        break;
+      }
+      case 'colorScale': {
+        const colors = (
+          rule.colors?.length ? rule.colors : (options?.colorScaleColors ?? Constants.DEFAULT_CONDITIONAL_FORMATTING_COLOR_SCALE_COLORS)
+        )
+          .slice(0, 3)
+          .map((color) => toExcelArgbColor(color));
+        if (colors.length >= 2 && colors.every((color) => color)) {
+          const colorScaleNode = createXmlNode(xmlDoc, 'colorScale');
+          colorScaleNode.appendChild(createXmlNode(xmlDoc, 'cfvo', { type: 'min' }));
+          if (colors.length === 3) {
+            colorScaleNode.appendChild(createXmlNode(xmlDoc, 'cfvo', { type: 'percentile', val: 50 }));
+          }
+          colorScaleNode.appendChild(createXmlNode(xmlDoc, 'cfvo', { type: 'max' }));
+          colors.forEach((color) => colorScaleNode.appendChild(createXmlNode(xmlDoc, 'color', { rgb: color as string })));
+          ruleNode = createXmlNode(xmlDoc, 'cfRule', { type: 'colorScale', priority });
+          ruleNode.appendChild(colorScaleNode);
+        }
+        break;
+      }
+      case 'dataBar': {
+        const color = toExcelArgbColor(
+          rule.colors?.[0] ?? options?.dataBarColor ?? Constants.DEFAULT_CONDITIONAL_FORMATTING_DATA_BAR_COLOR
+        );
+        if (color) {
+          const dataBarNode = createXmlNode(xmlDoc, 'dataBar', rule.showValue === false ? { showValue: 0 } : {});
+          dataBarNode.appendChild(createXmlNode(xmlDoc, 'cfvo', { type: 'min' }));
+          dataBarNode.appendChild(createXmlNode(xmlDoc, 'cfvo', { type: 'max' }));
+          dataBarNode.appendChild(createXmlNode(xmlDoc, 'color', { rgb: color }));
+          ruleNode = createXmlNode(xmlDoc, 'cfRule', { type: 'dataBar', priority });
+          ruleNode.appendChild(dataBarNode);
+        }
+        break;
+      }
+      case 'iconSet': {
+        const iconSetAttrs: Record<string, string | number> = {
+          iconSet: excelIconSetNames[rule.iconSet ?? 'arrows'] ?? excelIconSetNames.arrows,
+        };
+        if (rule.showValue === false) {
+          iconSetAttrs.showValue = 0;
+        }
+        const iconSetNode = createXmlNode(xmlDoc, 'iconSet', iconSetAttrs);
+        [0, 33, 67].forEach((val) => iconSetNode.appendChild(createXmlNode(xmlDoc, 'cfvo', { type: 'percent', val })));
+        ruleNode = createXmlNode(xmlDoc, 'cfRule', { type: 'iconSet', priority });
+        ruleNode.appendChild(iconSetNode);
+        break;
+      }
+      case 'topN':
+      case 'bottomN': {
+        const dxfId = createExcelDifferentialStyleId(stylesheet, rule.style);
+        if (dxfId !== undefined) {
+          const top10Attrs: Record<string, string | number> = { type: 'top10', dxfId, priority, rank: rule.rank ?? 10 };
+          if (rule.percent) {
+            top10Attrs.percent = 1;
+          }
+          if (rule.type === 'bottomN') {
+            top10Attrs.bottom = 1;
+          }
+          ruleNode = createXmlNode(xmlDoc, 'cfRule', top10Attrs);
+        }
+        break;
+      }
+      case 'aboveAverage':
+      case 'belowAverage': {
+        const dxfId = createExcelDifferentialStyleId(stylesheet, rule.style);
+        if (dxfId !== undefined) {
+          const averageAttrs: Record<string, string | number> = { type: 'aboveAverage', dxfId, priority };
+          if (rule.type === 'belowAverage') {
+            averageAttrs.aboveAverage = 0;
+          }
+          ruleNode = createXmlNode(xmlDoc, 'cfRule', averageAttrs);
+        }
+        break;
+      }
+    }
+
+    if (ruleNode) {
+      if (rule.stopIfTrue) {
+        ruleNode.setAttribute('stopIfTrue', 1);
+      }
+      cfNode.appendChild(ruleNode);
+      priority++;
+    }
+  }
+
+  return cfNode.children.length > 0 ? cfNode : null;
+}
+
 function createExcelFormatFromGridFormatter(columnDef: Column, grid: SlickGrid, formatterType: FormatterType, groupType = '') {
   let outputFormat = '';
   let positiveFormat = '';
@@ -314,3 +524,41 @@ function textPadding(numberStr: string, count: number): string {
   }
   return output;
 }
+
+/** Create an Excel differential style (dxf) from a Conditional Formatting style and return its ID or undefined when the style is empty */
+function createExcelDifferentialStyleId(stylesheet: StyleSheet, style?: ConditionalFormattingStyle): number | undefined {
+  const fontColor = toExcelArgbColor(style?.color);
+  const fillColor = toExcelArgbColor(style?.backgroundColor);
+  if (!fontColor && !fillColor && !style?.bold && !style?.italic) {
+    return undefined;
+  }
+  const differentialStyle: ExcelStyleInstruction = {};
+  if (fontColor || style?.bold || style?.italic) {
+    differentialStyle.font = { bold: !!style?.bold, italic: !!style?.italic, ...(fontColor ? { color: fontColor } : {}) };
+  }
+  if (fillColor) {
+    // Excel reads the background color of a differential solid fill from its "bgColor"
+    differentialStyle.fill = {
+      type: 'pattern',
+      patternType: 'solid',
+      fgColor: fillColor,
+      bgColor: fillColor,
+    } as ExcelStyleInstruction['fill'];
+  }
+  return stylesheet.createDifferentialStyle(differentialStyle).id;
+}
+
+function createXmlNode(xmlDoc: XMLDOM, nodeName: string, attributes: Record<string, string | number> = {}): XMLNode {
+  const node = xmlDoc.createElement(nodeName);
+  Object.entries(attributes).forEach(([attrName, attrValue]) => node.setAttribute(attrName, attrValue));
+  return node;
+}
+
+/** Get the search terms of a "cellValue" rule, a range could also be provided as a single search term (e.g. "5..10") */
+function getConditionalFormattingSearchTerms(rule: ConditionalFormattingRule): SearchTerm[] {
+  const searchTerms = rule.searchTerms ?? [];
+  if (searchTerms.length === 1 && typeof searchTerms[0] === 'string' && searchTerms[0].includes('..')) {
+    return searchTerms[0].split('..');
+  }
+  return searchTerms;
+}
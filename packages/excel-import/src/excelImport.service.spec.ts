@@ -0,0 +1,158 @@
+import type { Column, GridOption, GridService, SlickDataView, SlickGrid } from '@slickgrid-universal/common';
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { strToU8, zipSync } from 'fflate';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContainerServiceStub } from '../../../test/containerServiceStub.js';
+import { ExcelImportService } from './excelImport.service.js';
+
+// make sure to use the Uint8Array of the test environment, `strToU8()` returns a Node Uint8Array which is not recognized by `zipSync()` in JSDOM
+const toU8 = (text: string) => new Uint8Array(strToU8(text));
+
+/** create a minimal .xlsx file with inline strings, each row is an array of cell values */
+function createXlsxFile(rows: any[][]): File {
+  const sheetData = rows
+    .map(
+      (row) =>
+        `<row>${row.map((value) => (typeof value === 'number' ? `<c><v>${value}</v></c>` : `<c t="inlineStr"><is><t>${value}</t></is></c>`)).join('')}</row>`
+    )
+    .join('');
+  const zip = zipSync({
+    'xl/workbook.xml': toU8('<workbook><sheets><sheet name="Tasks" sheetId="1" r:id="rId1"/></sheets></workbook>'),
+    'xl/_rels/workbook.xml.rels': toU8('<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>'),
+    'xl/worksheets/sheet1.xml': toU8(`<worksheet><sheetData>${sheetData}</sheetData></worksheet>`),
+  });
+  return new File([zip as BlobPart], 'tasks.xlsx');
+}
+
+const pubSubServiceStub = {
+  publish: vi.fn(),
+  subscribe: vi.fn(),
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+} as BasePubSubService;
+
+const gridServiceStub = {
+  addItems: vi.fn(),
+} as unknown as GridService;
+
+const dataViewStub = {
+  getItems: vi.fn(),
+} as unknown as SlickDataView;
+
+const mockColumns = [
+  { id: 'title', field: 'title', name: 'Title', type: 'string' },
+  {
+    id: 'duration',
+    field: 'duration',
+    name: 'Duration',
+    type: 'number',
+    editor: { model: {} as any, validator: (value: number) => ({ valid: value <= 100, msg: 'Must be at most 100' }) },
+  },
+  { id: 'completed', field: 'completed', name: 'Completed', type: 'boolean' },
+] as Column[];
+
+let gridOptionsMock: GridOption;
+
+const gridStub = {
+  getColumns: () => mockColumns,
+  getData: () => dataViewStub,
+  getOptions: () => gridOptionsMock,
+} as unknown as SlickGrid;
+
+describe('ExcelImportService', () => {
+  let container: ContainerServiceStub;
+  let service: ExcelImportService;
+
+  beforeEach(() => {
+    gridOptionsMock = {};
+    vi.spyOn(dataViewStub, 'getItems').mockReturnValue([{ id: 3 }, { id: 'abc' }]);
+    container = new ContainerServiceStub();
+    container.registerInstance('GridService', gridServiceStub);
+    container.registerInstance('PubSubService', pubSubServiceStub);
+    service = new ExcelImportService();
+    service.init(gridStub, container);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    vi.clearAllMocks();
+  });
+
+  it('should create the service', () => {
+    expect(service).toBeTruthy();
+    expect(service.pluginName).toBe('ExcelImportService');
+  });
+
+  it('should throw when importing before the service is initialized', async () => {
+    await expect(new ExcelImportService().importFile(new File([''], 'tasks.csv'))).rejects.toThrow(
+      'it seems that the SlickGrid & DataView objects and/or GridService are not initialized'
+    );
+  });
+
+  it('should read the header titles and data rows of an Excel file without importing anything', async () => {
+    const file = createXlsxFile([['Title', 'Duration'], ['Task 1', 5], [''], ['Task 2', 10]]);
+
+    const output = await service.readFile(file);
+
+    expect(output).toEqual({
+      headers: ['Title', 'Duration'],
+      rows: [
+        { rowNumber: 2, values: ['Task 1', 5] },
+        { rowNumber: 4, values: ['Task 2', 10] },
+      ],
+      sheetName: 'Tasks',
+    });
+    expect(gridServiceStub.addItems).not.toHaveBeenCalled();
+  });
+
+  it('should import an Excel file, convert each cell by its column type and generate missing ids', async () => {
+    const file = createXlsxFile([
+      ['Title', 'Duration', 'Completed', 'Unknown'],
+      ['Task 1', 5, 'yes', 'x'],
+      ['Task 2', '10', 'false', 'y'],
+    ]);
+
+    const result = await service.importFile(file);
+
+    const expectedItems = [
+      { id: 4, title: 'Task 1', duration: 5, completed: true },
+      { id: 5, title: 'Task 2', duration: 10, completed: false },
+    ];
+    expect(result).toEqual({ importedItems: expectedItems, rejectedRows: [], totalRowCount: 2 });
+    expect(gridServiceStub.addItems).toHaveBeenCalledWith(expectedItems, expect.objectContaining({ position: 'bottom', highlightRow: false }));
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onBeforeImportFromExcel', true);
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onAfterImportFromExcel', result);
+  });
+
+  it('should import a CSV file in chunks by using the column mapping and report the rejected rows', async () => {
+    const file = new File(['Task,Days\nTask 1,5\nTask 2,abc\nTask 3,500\nTask 4,20\nTask 5,30\n'], 'tasks.csv');
+
+    const result = await service.importFile(file, { chunkSize: 2, columnMapping: { Task: 'title', Days: 'duration' } });
+
+    expect(result.totalRowCount).toBe(5);
+    expect(result.importedItems.map((item) => item.title)).toEqual(['Task 1', 'Task 4', 'Task 5']);
+    expect(result.rejectedRows).toEqual([
+      { rowNumber: 3, values: ['Task 2', 'abc'], errors: [{ field: 'duration', message: 'Invalid number', value: 'abc' }] },
+      { rowNumber: 4, values: ['Task 3', '500'], errors: [{ field: 'duration', message: 'Must be at most 100', value: 500 }] },
+    ]);
+    expect(gridServiceStub.addItems).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(gridServiceStub.addItems).mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it('should use the grid "excelImportOptions" and skip the rows before the header row', async () => {
+    gridOptionsMock.excelImportOptions = { delimiter: ';', headerRowNumber: 2, validateCells: false };
+    const file = new File(['My Tasks\nTitle;Duration\nTask 1;500\n'], 'tasks.txt');
+
+    const result = await service.importFile(file, { format: 'csv' });
+
+    expect(result.importedItems).toEqual([{ id: 4, title: 'Task 1', duration: 500 }]);
+    expect(result.rejectedRows).toEqual([]);
+  });
+
+  it('should publish the error and reject when the file cannot be read', async () => {
+    const file = new File(['not a zip file'], 'tasks.xlsx');
+
+    await expect(service.importFile(file)).rejects.toThrow();
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onAfterImportFromExcel', { error: expect.anything() });
+  });
+});
@@ -0,0 +1,200 @@
+import type {
+  Column,
+  ContainerService,
+  ExcelImportOption,
+  ExternalResource,
+  GridOption,
+  GridService,
+  ImportResult,
+  ImportSheetData,
+  PubSubService,
+  SlickDataView,
+  SlickGrid,
+} from '@slickgrid-universal/common';
+import { createItemFromImportRow, getImportColumnMapping, readTextRows } from '@slickgrid-universal/common';
+import { readSheetRows, readXlsxWorkbook, type SheetRow } from './xlsxReader.js';
+
+const DEFAULT_IMPORT_OPTIONS: ExcelImportOption = {
+  chunkSize: 500,
+  delimiter: ',',
+  headerRowNumber: 1,
+  validateCells: true,
+};
+
+export class ExcelImportService implements ExternalResource {
+  protected _grid!: SlickGrid;
+  protected _gridService: GridService | null = null;
+  protected _pubSubService: PubSubService | null = null;
+  protected _timer?: any;
+
+  /** ExcelImportService class name which is use to find service instance in the external registered services */
+  readonly pluginName = 'ExcelImportService';
+
+  protected get _datasetIdPropName(): string {
+    return this._gridOptions?.datasetIdPropertyName ?? 'id';
+  }
+
+  /** Getter of SlickGrid DataView object */
+  protected get _dataView(): SlickDataView {
+    return this._grid?.getData<SlickDataView>();
+  }
+
+  /** Getter for the Grid Options pulled through the Grid Object */
+  protected get _gridOptions(): GridOption {
+    return this._grid?.getOptions() || ({} as GridOption);
+  }
+
+  dispose(): void {
+    clearTimeout(this._timer);
+  }
+
+  /**
+   * Initialize the Import Service
+   * @param grid
+   * @param containerService
+   */
+  init(grid: SlickGrid, containerService: ContainerService): void {
+    this._grid = grid;
+    this._gridService = containerService.get<GridService>('GridService');
+    this._pubSubService = containerService.get<PubSubService>('PubSubService');
+  }
+
+  /**
+   * Read the header titles and data rows of an Excel (.xlsx) or CSV file without importing anything in the grid,
+   * this can be used to preview the file and/or to let the user map the sheet columns to the grid columns (`columnMapping`) before the import.
+   * @param {File|Blob} file - file to read
+   * @param {ExcelImportOption} [options] - import options (only `delimiter`, `format`, `headerRowNumber` and `sheetName` are used)
+   */
+  async readFile(file: File | Blob, options?: ExcelImportOption): Promise<ImportSheetData> {
+    const importOptions = this.getImportOptions(options);
+    const sheetData: ImportSheetData = { headers: [], rows: [] };
+
+    for await (const row of this.readRows(file, importOptions, sheetData)) {
+      if (row.rowNumber === importOptions.headerRowNumber) {
+        sheetData.headers = Array.from(row.values, (title) => String(title ?? '').trim());
+      } else if (row.rowNumber > importOptions.headerRowNumber! && !this.isEmptyRow(row)) {
+        sheetData.rows.push(row);
+      }
+    }
+    return sheetData;
+  }
+
+  /**
+   * Import an Excel (.xlsx) or CSV file in the grid, the sheet columns are mapped to the grid columns (by their header titles or by the `columnMapping` option),
+   * each cell is converted to its column type and validated by its column editor validator, then all valid rows are inserted in chunks via the Grid Service `addItems()`.
+   * Any row with an invalid cell is rejected and returned in the `rejectedRows` of the import result.
+   *
+   * Events:
+   * - 'onBeforeImportFromExcel' before the import starts
+   * - 'onAfterImportFromExcel' after the import completes (with the import result) or fails (with the error)
+   * @param {File|Blob} file - file to import
+   * @param {ExcelImportOption} [options] - import options
+   */
+  async importFile(file: File | Blob, options?: ExcelImportOption): Promise<ImportResult> {
+    if (!this._grid || !this._dataView || !this._gridService) {
+      throw new Error(
+        '[Slickgrid-Universal] it seems that the SlickGrid & DataView objects and/or GridService are not initialized, did you forget to register the ExcelImportService in the grid options "externalResources"?'
+      );
+    }
+
+    this._pubSubService?.publish('onBeforeImportFromExcel', true);
+    const importOptions = this.getImportOptions(options);
+    const result: ImportResult = { importedItems: [], rejectedRows: [], totalRowCount: 0 };
+
+    try {
+      let mappedColumns: Array<Column | undefined> = [];
+      let itemChunk: any[] = [];
+      let nextItemId = this.getNextItemId();
+
+      for await (const row of this.readRows(file, importOptions)) {
+        if (row.rowNumber === importOptions.headerRowNumber) {
+          const headers = Array.from(row.values, (title) => String(title ?? '').trim());
+          mappedColumns = getImportColumnMapping(headers, this._grid.getColumns(), importOptions.columnMapping);
+        } else if (row.rowNumber > importOptions.headerRowNumber! && !this.isEmptyRow(row)) {
+          result.totalRowCount++;
+          const { item, errors } = createItemFromImportRow(row.values, mappedColumns, this._grid, importOptions.validateCells);
+          if (errors.length) {
+            result.rejectedRows.push({ errors, rowNumber: row.rowNumber, values: row.values });
+            continue;
+          }
+          if (item[this._datasetIdPropName] === undefined) {
+            item[this._datasetIdPropName] = nextItemId++;
+          }
+          itemChunk.push(item);
+
+          if (itemChunk.length >= importOptions.chunkSize!) {
+            await this.insertItemChunk(itemChunk, result);
+            itemChunk = [];
+          }
+        }
+      }
+      await this.insertItemChunk(itemChunk, result);
+    } catch (error) {
+      this._pubSubService?.publish('onAfterImportFromExcel', { error });
+      throw error;
+    }
+
+    this._pubSubService?.publish('onAfterImportFromExcel', result);
+    return result;
+  }
+
+  // -----------------------
+  // protected functions
+  // -----------------------
+
+  protected getImportOptions(options?: ExcelImportOption): ExcelImportOption {
+    return { ...DEFAULT_IMPORT_OPTIONS, ...this._gridOptions.excelImportOptions, ...options };
+  }
+
+  /** is the row without any value? (e.g. a blank line or a row with only empty cells) */
+  protected isEmptyRow(row: SheetRow): boolean {
+    return !row.values.some((value) => value !== undefined && value !== '');
+  }
+
+  /** find the next numeric item id to use for any imported item without an id, which is the highest numeric id of the dataset + 1 */
+  protected getNextItemId(): number {
+    let maxItemId = -1;
+    for (const item of this._dataView.getItems()) {
+      const itemId = item?.[this._datasetIdPropName];
+      if (typeof itemId === 'number' && itemId > maxItemId) {
+        maxItemId = itemId;
+      }
+    }
+    return maxItemId + 1;
+  }
+
+  /** insert a chunk of items in the grid and yield to the browser to keep the UI responsive */
+  protected async insertItemChunk(items: any[], result: ImportResult): Promise<void> {
+    if (items.length) {
+      this._gridService?.addItems(items, {
+        highlightRow: false,
+        position: 'bottom',
+        resortGrid: false,
+        scrollRowIntoView: false,
+        selectRow: false,
+      });
+      result.importedItems.push(...items);
+      await new Promise<void>((resolve) => {
+        clearTimeout(this._timer);
+        this._timer = setTimeout(resolve, 0);
+      });
+    }
+  }
+
+  /** read all rows of the file with the reader of its format (detected by the file name extension when the `format` option is undefined) */
+  protected async *readRows(file: File | Blob, importOptions: ExcelImportOption, sheetData?: ImportSheetData): AsyncGenerator<SheetRow> {
+    const fileName = (file as File).name ?? '';
+    const format = importOptions.format ?? (/\.csv$/i.test(fileName) ? 'csv' : 'xlsx');
+
+    if (format === 'csv') {
+      // values can be wrapped in double quotes (RFC 4180), a leading BOM is also detected and ignored
+      yield* readTextRows(file, { delimiter: importOptions.delimiter || ',', quoteChar: '"' });
+    } else {
+      const workbook = await readXlsxWorkbook(file, importOptions.sheetName);
+      if (sheetData) {
+        sheetData.sheetName = importOptions.sheetName ?? workbook.sheets[0]?.name;
+      }
+      yield* readSheetRows(workbook, importOptions.sheetName);
+    }
+  }
+}
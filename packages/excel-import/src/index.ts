@@ -0,0 +1 @@
+export { ExcelImportService } from './excelImport.service.js';
@@ -0,0 +1,150 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { excelSerialToDate, readSheetRows, readXlsxWorkbook } from './xlsxReader.js';
+
+// make sure to use the Uint8Array of the test environment, `strToU8()` returns a Node Uint8Array which is not recognized by `zipSync()` in JSDOM
+const toU8 = (text: string) => new Uint8Array(strToU8(text));
+
+export function createXlsxFile(sheets: Record<string, string>, options?: { date1904?: boolean; sharedStrings?: string[]; worksheetsFirst?: boolean }): Blob {
+  const sheetNames = Object.keys(sheets);
+  const worksheetFiles: Record<string, Uint8Array> = {};
+  sheetNames.forEach((name, idx) => {
+    worksheetFiles[`xl/worksheets/sheet${idx + 1}.xml`] = toU8(
+      `<?xml version="1.0" encoding="UTF-8"?><worksheet><sheetData>${sheets[name]}</sheetData><rowBreaks count="0"></rowBreaks></worksheet>`
+    );
+  });
+  const files: Record<string, Uint8Array> = {
+    ...(options?.worksheetsFirst ? worksheetFiles : {}),
+    '[Content_Types].xml': toU8('<?xml version="1.0" encoding="UTF-8"?><Types></Types>'),
+    'xl/workbook.xml': toU8(
+      `<?xml version="1.0" encoding="UTF-8"?><workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `${options?.date1904 ? '<workbookPr date1904="1"/>' : ''}<sheets>` +
+        sheetNames.map((name, idx) => `<sheet name="${name}" sheetId="${idx + 1}" r:id="rId${idx + 1}"/>`).join('') +
+        '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': toU8(
+      '<?xml version="1.0" encoding="UTF-8"?><Relationships>' +
+        sheetNames.map((_name, idx) => `<Relationship Id="rId${idx + 1}" Type="worksheet" Target="worksheets/sheet${idx + 1}.xml"/>`).join('') +
+        '</Relationships>'
+    ),
+    'xl/styles.xml': toU8(
+      '<?xml version="1.0" encoding="UTF-8"?><styleSheet><numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>' +
+        '<numFmt numFmtId="165" formatCode="&quot;Day&quot; 0.00"/></numFmts>' +
+        '<cellXfs count="4"><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="165"/></cellXfs></styleSheet>'
+    ),
+    'xl/sharedStrings.xml': toU8(
+      '<?xml version="1.0" encoding="UTF-8"?><sst>' +
+        (options?.sharedStrings ?? []).map((text) => `<si><t>${text}</t></si>`).join('') +
+        '<si><r><t>Rich </t></r><r><t>Text</t></r><rPh><t>ignored</t></rPh></si></sst>'
+    ),
+    'xl/theme/theme1.xml': toU8('<theme></theme>'),
+    ...(options?.worksheetsFirst ? {} : worksheetFiles),
+  };
+  return new Blob([zipSync(files) as BlobPart]);
+}
+
+describe('xlsxReader', () => {
+  describe('excelSerialToDate method', () => {
+    it('should convert an Excel date serial to a local Date with its time', () => {
+      expect(excelSerialToDate(46016)).toEqual(new Date(2025, 11, 25));
+      expect(excelSerialToDate(46016.75)).toEqual(new Date(2025, 11, 25, 18, 0, 0));
+      expect(excelSerialToDate(44554, true)).toEqual(new Date(2025, 11, 25));
+    });
+  });
+
+  describe('readXlsxWorkbook & readSheetRows methods', () => {
+    it('should throw when the file is not a valid Excel file', async () => {
+      await expect(readXlsxWorkbook(new Blob([zipSync({ 'other.xml': toU8('<a/>') }) as BlobPart]))).rejects.toThrow(
+        'the file is not a valid Excel (.xlsx) file.'
+      );
+    });
+
+    it('should read the sheets and parse all cell types of the first sheet', async () => {
+      const file = createXlsxFile(
+        {
+          Tasks:
+            '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>Inline &amp; &#x41;</t></is></c></row>' +
+            '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="C3" s="1"><v>46016</v></c><c r="D3" s="3"><v>2.5</v></c><c r="E3" t="b"><v>1</v></c>' +
+            '<c r="F3" t="str"><v>formula</v></c><c r="G3" t="e"><v>#N/A</v></c><c r="H3" t="d"><v>2025-12-25T00:00:00</v></c><c r="I3"/></row>' +
+            '<row r="4"/>',
+          Other: '<row r="1"><c r="A1"><v>1</v></c></row>',
+        },
+        { sharedStrings: ['Title'] }
+      );
+
+      const workbook = await readXlsxWorkbook(file);
+      const rows = Array.from(readSheetRows(workbook));
+
+      expect(workbook.sheets).toEqual([
+        { name: 'Tasks', path: 'xl/worksheets/sheet1.xml' },
+        { name: 'Other', path: 'xl/worksheets/sheet2.xml' },
+      ]);
+      expect(workbook.dateStyleIndexes).toEqual(new Set([1, 2]));
+      expect(rows).toEqual([
+        { rowNumber: 1, values: ['Title', 'Inline & A'] },
+        {
+          rowNumber: 3,
+          values: ['Rich Text', undefined, new Date(2025, 11, 25), 2.5, true, 'formula', '#N/A', new Date('2025-12-25T00:00:00'), undefined],
+        },
+        { rowNumber: 4, values: [] },
+      ]);
+    });
+
+    it('should read a sheet by its name with the 1904 date system and cells without any reference', async () => {
+      const file = createXlsxFile(
+        { Tasks: '<row><c><v>1</v></c></row>', Other: '<row><c><v>1</v></c><c s="2"><v>44554</v></c></row><row><c><v>2</v></c></row>' },
+        { date1904: true }
+      );
+
+      const workbook = await readXlsxWorkbook(file, 'Other');
+      const rows = Array.from(readSheetRows(workbook, 'Other'));
+
+      expect(rows).toEqual([
+        { rowNumber: 1, values: [1, new Date(2025, 11, 25)] },
+        { rowNumber: 2, values: [2] },
+      ]);
+    });
+
+    it('should only keep the uncompressed chunks of the requested worksheet', async () => {
+      const sheets = { Tasks: '<row><c><v>1</v></c></row>', Other: '<row><c><v>2</v></c></row>', Last: '<row><c><v>3</v></c></row>' };
+
+      const workbook1 = await readXlsxWorkbook(createXlsxFile(sheets));
+      const workbook2 = await readXlsxWorkbook(createXlsxFile(sheets), 'Other');
+
+      expect(workbook1.sheets.map((sheet) => sheet.name)).toEqual(['Tasks', 'Other', 'Last']);
+      expect(Array.from(workbook1.worksheetChunks.keys())).toEqual(['xl/worksheets/sheet1.xml']);
+      expect(Array.from(workbook2.worksheetChunks.keys())).toEqual(['xl/worksheets/sheet2.xml']);
+      expect(Array.from(readSheetRows(workbook2, 'Other'))).toEqual([{ rowNumber: 1, values: [2] }]);
+    });
+
+    it('should drop the worksheets that are not requested when they are stored before the workbook in the file', async () => {
+      const sheets = { Tasks: '<row><c><v>1</v></c></row>', Other: '<row><c><v>2</v></c></row>', Last: '<row><c><v>3</v></c></row>' };
+
+      const workbook = await readXlsxWorkbook(createXlsxFile(sheets, { worksheetsFirst: true }), 'Last');
+
+      expect(Array.from(workbook.worksheetChunks.keys())).toEqual(['xl/worksheets/sheet3.xml']);
+      expect(Array.from(readSheetRows(workbook, 'Last'))).toEqual([{ rowNumber: 1, values: [3] }]);
+    });
+
+    it('should parse rows split across multiple chunks', async () => {
+      const workbook = await readXlsxWorkbook(createXlsxFile({ Tasks: '' }));
+      const encoder = new TextEncoder();
+      workbook.worksheetChunks.set('xl/worksheets/sheet1.xml', [
+        encoder.encode('<worksheet><sheetData><row r="1"><c r="A1"><v>1'),
+        encoder.encode('</v></c></row><ro'),
+        encoder.encode('w r="2"><c r="B2"><v>2</v></c></row></sheetData></worksheet>'),
+      ]);
+
+      expect(Array.from(readSheetRows(workbook))).toEqual([
+        { rowNumber: 1, values: [1] },
+        { rowNumber: 2, values: [undefined, 2] },
+      ]);
+    });
+
+    it('should throw when the sheet name is not found', async () => {
+      const workbook = await readXlsxWorkbook(createXlsxFile({ Tasks: '' }), 'Unknown');
+      expect(workbook.worksheetChunks.size).toBe(0);
+      expect(() => Array.from(readSheetRows(workbook, 'Unknown'))).toThrow('could not find the sheet "Unknown" in the Excel file.');
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import { readBlobChunks } from '@slickgrid-universal/common';
+import { Unzip, UnzipInflate, type UnzipFile } from 'fflate';
+
+/** Excel built-in number format ids which are dates and/or times */
+const BUILTIN_DATE_FORMAT_IDS = [
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+];
+const MS_PER_DAY = 86_400_000;
+
+export interface SheetRow {
+  /** row number (1-based) in the sheet */
+  rowNumber: number;
+
+  /** cell values (string, number, boolean or Date), empty cells are `undefined` */
+  values: any[];
+}
+
+export interface XlsxWorkbook {
+  /** is the workbook using the 1904 date system (Mac Excel)? */
+  date1904: boolean;
+
+  /** sheet file path of each sheet name (in workbook order) */
+  sheets: Array<{ name: string; path: string }>;
+
+  /** shared strings table */
+  sharedStrings: string[];
+
+  /** index of each cell style (`s` attribute) which uses a date number format */
+  dateStyleIndexes: Set<number>;
+
+  /** uncompressed chunks of the worksheet file that was requested when reading the workbook (the other worksheets are skipped) */
+  worksheetChunks: Map<string, Uint8Array[]>;
+}
+
+/**
+ * Read a .xlsx file by streaming it through the unzipper, only the workbook, shared strings, styles and requested worksheet files are decompressed.
+ * The requested worksheet is resolved as soon as the workbook is read and it is the only one kept as uncompressed chunks (the other worksheets
+ * are dropped or skipped) so that it can later be parsed row by row with `readSheetRows()`.
+ * @param {Blob} file - .xlsx file
+ * @param {String} [sheetName] - sheet that will be read, defaults to the first sheet
+ */
+export async function readXlsxWorkbook(file: Blob, sheetName?: string): Promise<XlsxWorkbook> {
+  const entries = new Map<string, Uint8Array[]>();
+  const completedEntries = new Set<string>();
+  let sheets: Array<{ name: string; path: string }> | undefined;
+  let sheetPath: string | undefined;
+  let unzipError: Error | undefined;
+
+  // as soon as the workbook and its relationships are read, we know which worksheet to keep and we can drop any other worksheet already read
+  const resolveSheetPath = () => {
+    if (!sheets && completedEntries.has('xl/workbook.xml') && completedEntries.has('xl/_rels/workbook.xml.rels')) {
+      sheets = parseSheets(entries);
+      sheetPath = (sheetName !== undefined ? sheets.find((s) => s.name === sheetName) : sheets[0])?.path;
+      entries.forEach((_chunks, name) => name.startsWith('xl/worksheets/') && name !== sheetPath && entries.delete(name));
+    }
+  };
+
+  const unzipper = new Unzip((entry: UnzipFile) => {
+    const isWorksheet = /^xl\/worksheets\/[^/]+\.xml$/.test(entry.name);
+    if (
+      (isWorksheet && (!sheets || entry.name === sheetPath)) ||
+      /^xl\/(workbook\.xml|_rels\/workbook\.xml\.rels|sharedStrings\.xml|styles\.xml)$/.test(entry.name)
+    ) {
+      const chunks: Uint8Array[] = [];
+      entries.set(entry.name, chunks);
+      entry.ondata = (err, data, final) => {
+        if (err) {
+          unzipError = err;
+        } else {
+          if (data.length) {
+            chunks.push(data);
+          }
+          if (final && !isWorksheet) {
+            completedEntries.add(entry.name);
+            resolveSheetPath();
+          }
+        }
+      };
+      entry.start();
+    }
+  });
+  unzipper.register(UnzipInflate);
+
+  for await (const chunk of readBlobChunks(file)) {
+    unzipper.push(chunk);
+  }
+  unzipper.push(new Uint8Array(0), true);
+
+  if (unzipError) {
+    throw unzipError;
+  }
+  if (!entries.has('xl/workbook.xml')) {
+    throw new Error('[Slickgrid-Universal] the file is not a valid Excel (.xlsx) file.');
+  }
+  sheets ??= parseSheets(entries);
+
+  const worksheetChunks = new Map<string, Uint8Array[]>();
+  entries.forEach((chunks, name) => name.startsWith('xl/worksheets/') && worksheetChunks.set(name, chunks));
+
+  return {
+    date1904: /<workbookPr\b[^>]*\bdate1904="(1|true)"/.test(decodeChunks(entries.get('xl/workbook.xml'))),
+    sheets,
+    sharedStrings: parseSharedStrings(decodeChunks(entries.get('xl/sharedStrings.xml'))),
+    dateStyleIndexes: parseDateStyleIndexes(decodeChunks(entries.get('xl/styles.xml'))),
+    worksheetChunks,
+  };
+}
+
+/**
+ * Parse the rows of a worksheet, the uncompressed chunks are decoded one at a time and every row is yielded as soon as it is complete
+ * which avoids creating one huge string (or DOM document) of the entire worksheet.
+ * @param {XlsxWorkbook} workbook - workbook read by `readXlsxWorkbook()`
+ * @param {String} [sheetName] - sheet to read, defaults to the first sheet
+ */
+export function* readSheetRows(workbook: XlsxWorkbook, sheetName?: string): Generator<SheetRow> {
+  const sheet = sheetName !== undefined ? workbook.sheets.find((s) => s.name === sheetName) : workbook.sheets[0];
+  const chunks = sheet && workbook.worksheetChunks.get(sheet.path);
+  if (!chunks) {
+    throw new Error(`[Slickgrid-Universal] could not find the sheet "${sheetName ?? ''}" in the Excel file.`);
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let prevRowNumber = 0;
+
+  for (let i = 0; i < chunks.length; i++) {
+    buffer += decoder.decode(chunks[i], { stream: i < chunks.length - 1 });
+    let pos = 0;
+
+    while (true) {
+      const rowStart = buffer.indexOf('<row', pos);
+      const openTagEnd = rowStart >= 0 ? buffer.indexOf('>', rowStart) : -1;
+      if (openTagEnd < 0) {
+        break;
+      }
+      if (!/[\s>/]/.test(buffer[rowStart + 4])) {
+        pos = rowStart + 4; // not a row element (e.g. "<rowBreaks>")
+        continue;
+      }
+      const isEmptyRow = buffer[openTagEnd - 1] === '/';
+      const rowEnd = isEmptyRow ? openTagEnd + 1 : buffer.indexOf('</row>', openTagEnd);
+      if (rowEnd < 0) {
+        break; // incomplete row, wait for next chunk
+      }
+      const rowXml = buffer.slice(rowStart, isEmptyRow ? rowEnd : rowEnd + 6);
+      const row = parseRow(rowXml, workbook, prevRowNumber + 1);
+      prevRowNumber = row.rowNumber;
+      yield row;
+      pos = isEmptyRow ? rowEnd : rowEnd + 6;
+    }
+    buffer = buffer.slice(pos);
+  }
+}
+
+/**
+ * Convert an Excel date serial number to a local Date.
+ * @param {Number} serial - Excel date serial (days since 1899-12-30, or since 1904-01-01 with the 1904 date system)
+ * @param {Boolean} [date1904] - is the workbook using the 1904 date system?
+ */
+export function excelSerialToDate(serial: number, date1904 = false): Date {
+  const days = Math.floor(serial);
+  const ms = Math.round((serial - days) * MS_PER_DAY);
+  return date1904 ? new Date(1904, 0, 1 + days, 0, 0, 0, ms) : new Date(1899, 11, 30 + days, 0, 0, 0, ms);
+}
+
+// --
+// local functions
+// ----------------
+
+function decodeChunks(chunks?: Uint8Array[]): string {
+  if (!chunks) {
+    return '';
+  }
+  const decoder = new TextDecoder();
+  return chunks.map((chunk, idx) => decoder.decode(chunk, { stream: idx < chunks.length - 1 })).join('');
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[\da-f]+);/gi, (_match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+    }
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attrs[name] = value;
+  }
+  return attrs;
+}
+
+function parseRelationships(relsXml: string): Map<string, string> {
+  const relationships = new Map<string, string>();
+  for (const [relTag] of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const attrs = parseAttributes(relTag);
+    relationships.set(attrs.Id, attrs.Target);
+  }
+  return relationships;
+}
+
+/** get the name and file path of every sheet (in workbook order) from the workbook and its relationships */
+function parseSheets(entries: Map<string, Uint8Array[]>): Array<{ name: string; path: string }> {
+  const relationships = parseRelationships(decodeChunks(entries.get('xl/_rels/workbook.xml.rels')));
+  const sheets: Array<{ name: string; path: string }> = [];
+  for (const [sheetTag] of decodeChunks(entries.get('xl/workbook.xml')).matchAll(/<sheet\b[^>]*>/g)) {
+    const attrs = parseAttributes(sheetTag);
+    const target = relationships.get(attrs['r:id']) ?? '';
+    sheets.push({ name: decodeXml(attrs.name ?? ''), path: target.startsWith('/') ? target.slice(1) : `xl/${target}` });
+  }
+  return sheets;
+}
+
+/** join every text nodes (`<t>`) of a string item, phonetic runs (`<rPh>`) are excluded */
+function parseStringItem(xml: string): string {
+  let text = '';
+  for (const [, value] of xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) {
+    text += value;
+  }
+  return decodeXml(text);
+}
+
+function parseSharedStrings(sharedStringsXml: string): string[] {
+  return Array.from(sharedStringsXml.matchAll(/<si\b[^>]*?(?:\/>|>([\s\S]*?)<\/si>)/g), ([, si]) => parseStringItem(si ?? ''));
+}
+
+function parseDateStyleIndexes(stylesXml: string): Set<number> {
+  const customDateFormatIds = new Set<number>();
+  for (const [numFmtTag] of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const attrs = parseAttributes(numFmtTag);
+    // remove any quoted text, escaped chars & brackets (colors, conditions) before looking for any date/time tokens
+    const formatCode = decodeXml(attrs.formatCode ?? '').replace(/"[^"]*"|\\.|\[(?!h\]|m\]|s\])[^\]]*\]/gi, '');
+    if (/[dmyhs]/i.test(formatCode) && !/general/i.test(formatCode)) {
+      customDateFormatIds.add(Number(attrs.numFmtId));
+    }
+  }
+
+  const dateStyleIndexes = new Set<number>();
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  Array.from(cellXfs.matchAll(/<xf\b[^>]*>/g)).forEach(([xfTag], idx) => {
+    const numFmtId = Number(parseAttributes(xfTag).numFmtId ?? 0);
+    if (BUILTIN_DATE_FORMAT_IDS.includes(numFmtId) || customDateFormatIds.has(numFmtId)) {
+      dateStyleIndexes.add(idx);
+    }
+  });
+  return dateStyleIndexes;
+}
+
+/** convert a cell reference column letters (e.g. "A", "AB") to a column index (0-based) */
+function columnLettersToIndex(letters: string): number {
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64);
+  }
+  return index - 1;
+}
+
+function parseRow(rowXml: string, workbook: XlsxWorkbook, defaultRowNumber: number): SheetRow {
+  const rowAttrs = parseAttributes(rowXml.slice(0, rowXml.indexOf('>')));
+  const values: any[] = [];
+  let cellIdx = 0;
+
+  for (const [, cellAttrText, cellXml] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+    const cellAttrs = parseAttributes(cellAttrText);
+    const cellRef = cellAttrs.r?.match(/^([A-Z]+)\d*$/);
+    cellIdx = cellRef ? columnLettersToIndex(cellRef[1]) : cellIdx;
+    values[cellIdx++] = parseCellValue(cellAttrs, cellXml ?? '', workbook);
+  }
+
+  return { rowNumber: rowAttrs.r ? Number(rowAttrs.r) : defaultRowNumber, values };
+}
+
+function parseCellValue(cellAttrs: Record<string, string>, cellXml: string, workbook: XlsxWorkbook): any {
+  if (cellAttrs.t === 'inlineStr') {
+    return parseStringItem(cellXml);
+  }
+  const rawValue = cellXml.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+  if (rawValue === undefined) {
+    return undefined;
+  }
+
+  switch (cellAttrs.t) {
+    case 's':
+      return workbook.sharedStrings[Number(rawValue)];
+    case 'b':
+      return rawValue === '1';
+    case 'd':
+      return new Date(rawValue);
+    case 'e':
+    case 'str':
+      return decodeXml(rawValue);
+  }
+
+  const num = Number(rawValue);
+  if (cellAttrs.s !== undefined && workbook.dateStyleIndexes.has(Number(cellAttrs.s))) {
+    return excelSerialToDate(num, workbook.date1904);
+  }
+  return num;
+}
@@ -21,3 +21,14 @@ export interface GraphqlCustomFilteringOption {
   /** Value to use when filtering */
   value: any | any[];
 }
+
+export interface GraphqlFilteringGroup {
+  /** Logical operator used to combine all the conditions of the group */
+  logic: 'AND' | 'OR';
+
+  /** When enabled, the result of the group will be negated */
+  not?: boolean;
+
+  /** Conditions of the group, each of them can be a filtering option or another nested group */
+  conditions: Array<GraphqlFilteringOption | GraphqlCustomFilteringOption | GraphqlFilteringGroup>;
+}
@@ -1,4 +1,15 @@
-import type { CursorPageInfo, Metrics } from '@slickgrid-universal/common';
+import type { CursorPageInfo, GroupTotals, Metrics } from '@slickgrid-universal/common';
+
+export interface GraphqlGroupResult {
+  /** group value, which is the value of the grouped field shared by all the group items */
+  value: any;
+
+  /** item count of the group */
+  count: number;
+
+  /** group totals calculated by the server for each aggregator type & field, ex.: { sum: { cost: 1200 }, avg: { duration: 5 } } */
+  totals?: GroupTotals<any>;
+}
 
 export interface GraphqlPaginatedResult<T = any> {
   data: {
@@ -9,6 +20,9 @@ export interface GraphqlPaginatedResult<T = any> {
       /** Total count of items in the table (needed for the Pagination to work) */
       totalCount: number;
 
+      /** result set of groups, which is returned instead of the nodes when using the server-side grouping */
+      groups?: GraphqlGroupResult[];
+
       // ---
       // When using a Cursor, we'll also have `Edges` and `PageInfo` according to a cursor position
 
@@ -0,0 +1,16 @@
+export interface GraphqlQueryVariableTypes {
+  /** Defaults to "[FilterByInput!]", GraphQL input type of the filters (`filterBy`) query variable */
+  filterBy?: string;
+
+  /** Defaults to "FilterExpressionInput", GraphQL input type of the Filter Expression query variable (whichever its `filterExpressionArgumentName`) */
+  filterExpression?: string;
+
+  /** Defaults to "[OrderByInput!]", GraphQL input type of the sorting (`orderBy`) query variable */
+  orderBy?: string;
+
+  /**
+   * GraphQL type of any other query variable by its argument name (e.g. `first`, `locale` or any extra query argument),
+   * defaults to "Int" for `first`, `last` & `offset`, "String" for `after`, `before` & `locale`, or else it is inferred from the argument value (Int, Float, Boolean or String)
+   */
+  [argumentName: string]: string | undefined;
+}
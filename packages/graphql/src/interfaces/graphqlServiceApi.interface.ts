@@ -1,4 +1,4 @@
-import type { BackendServiceApi, Observable } from '@slickgrid-universal/common';
+import type { BackendServiceApi, BackendServiceProcessOptions, Observable } from '@slickgrid-universal/common';
 import type { GraphqlService } from '../services/index.js';
 import type { GraphqlPaginatedResult } from './graphqlPaginatedResult.interface.js';
 import type { GraphqlResult } from './graphqlResult.interface.js';
@@ -13,12 +13,14 @@ export interface GraphqlServiceApi<T = any> extends BackendServiceApi {
 
   /** On init (or on page load), what action to perform? */
   onInit?: (
-    query: string
+    query: string,
+    options?: BackendServiceProcessOptions
   ) => Promise<GraphqlResult<T> | GraphqlPaginatedResult<T>> | Observable<GraphqlResult<T> | GraphqlPaginatedResult<T>>;
 
   /** On Processing, we get the query back from the service, and we need to provide a Promise/Observable. For example: this.http.get(myGraphqlUrl) */
   process: (
-    query: string
+    query: string,
+    options?: BackendServiceProcessOptions
   ) => Promise<GraphqlResult<T> | GraphqlPaginatedResult<T>> | Observable<GraphqlResult<T> | GraphqlPaginatedResult<T>>;
 
   /** After executing the query, what action to perform? For example, stop the spinner */
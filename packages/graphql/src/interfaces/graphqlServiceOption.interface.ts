@@ -1,7 +1,8 @@
 import type { BackendServiceFilterQueryOverrideArgs, BackendServiceOption } from '@slickgrid-universal/common';
 import type { GraphqlCursorPaginationOption } from './graphqlCursorPaginationOption.interface.js';
-import type { GraphqlCustomFilteringOption, GraphqlFilteringOption } from './graphqlFilteringOption.interface.js';
+import type { GraphqlCustomFilteringOption, GraphqlFilteringGroup, GraphqlFilteringOption } from './graphqlFilteringOption.interface.js';
 import type { GraphqlPaginationOption } from './graphqlPaginationOption.interface.js';
+import type { GraphqlQueryVariableTypes } from './graphqlQueryVariableTypes.interface.js';
 import type { GraphqlSortingOption } from './graphqlSortingOption.interface.js';
 import type { QueryArgument } from './queryArgument.interface.js';
 
@@ -28,6 +29,34 @@ export interface GraphqlServiceOption extends BackendServiceOption {
   /** array of Filtering Options, ex.: { field: name, operator: EQ, value: "John" }  */
   filteringOptions?: GraphqlFilteringOption[];
 
+  /**
+   * Defaults to "search", query argument name that will be used to send the Global Search term (`filterService.setGlobalSearch()`)
+   * ex.: users(first: 10, offset: 0, search: "John") { }
+   */
+  globalSearchArgumentName?: string;
+
+  /** Global Search term that will be sent as a query argument (the server is responsible to decide which fields are searched) */
+  globalSearchTerm?: string;
+
+  /** Query argument name to use for the Filter Expression (nested AND/OR/NOT filter groups), defaults to "filterExpression" */
+  filterExpressionArgumentName?: string;
+
+  /** Filter Expression (nested AND/OR/NOT filter groups) that will be sent as a query argument */
+  filterExpression?: GraphqlFilteringGroup;
+
+  /**
+   * Defaults to "groupBy", query argument name that will be used to send the grouping of the server-side grouping (`serverSideGrouping`)
+   * ex.: users(first: 10, offset: 0, groupBy: {field: gender, direction: ASC}) { totalCount, groups { value, count } }
+   */
+  groupByArgumentName?: string;
+
+  /**
+   * When defined, the children of a group (server-side grouping) will be paginated by a cursor with this page size,
+   * the next page of a group children can then be loaded by calling the `loadMoreGroupChildren()` method of the BackendGroupingService.
+   * ex.: users(first: 50, after: "YXJyYXk6NDk=", filterBy: [{field: gender, operator: EQ, value: "male"}]) { nodes { ... }, pageInfo { ... } }
+   */
+  groupChildrenPageSize?: number;
+
   /** An optional predicate function to overide the built-in filter construction  */
   filterQueryOverride?: (args: BackendServiceFilterQueryOverrideArgs) => GraphqlCustomFilteringOption | undefined;
 
@@ -46,6 +75,17 @@ export interface GraphqlServiceOption extends BackendServiceOption {
   /** Use Pagination Cursor in the GraphQL Server */
   useCursor?: boolean;
 
+  /**
+   * Defaults to false, should we build a parameterized query with its arguments sent as separate query variables instead of being inlined in the query string?
+   * The query variables (which can be retrieved with `getQueryVariables()`) are then provided to the `process` (and `onInit`) callback as the `variables` option,
+   * which can be sent natively by most GraphQL clients and allows the use of persisted queries and server side query caching.
+   * ex.: query($first: Int, $offset: Int, $filterBy: [FilterByInput!]) { users(first: $first, offset: $offset, filterBy: $filterBy) { ... } }
+   */
+  useVariables?: boolean;
+
+  /** GraphQL types of the query variables when `useVariables` is enabled, the input type names of the filters and sorting will typically need to match your GraphQL schema */
+  variableTypes?: GraphqlQueryVariableTypes;
+
   /**
    * When false, searchTerms may be manipulated to be functional with certain filters eg: string only filters.
    * When true, JSON.stringify is used on the searchTerms and used in the query "as-is". It is then the responsibility of the developer to sanitise the `searchTerms` property if necessary.
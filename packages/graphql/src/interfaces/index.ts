@@ -3,6 +3,7 @@ export type * from './graphqlDatasetFilter.interface.js';
 export type * from './graphqlFilteringOption.interface.js';
 export type * from './graphqlPaginatedResult.interface.js';
 export type * from './graphqlPaginationOption.interface.js';
+export type * from './graphqlQueryVariableTypes.interface.js';
 export type * from './graphqlResult.interface.js';
 export type * from './graphqlServiceApi.interface.js';
 export type * from './graphqlServiceOption.interface.js';
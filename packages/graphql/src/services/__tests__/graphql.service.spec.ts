@@ -1,4 +1,5 @@
 import {
+  Aggregators,
   type BackendService,
   type Column,
   type ColumnFilter,
@@ -7,6 +8,7 @@ import {
   type CurrentFilter,
   type CurrentSorter,
   type FilterChangedArgs,
+  type FilterExpressionGroup,
   type GridOption,
   type MultiColumnSort,
   type Pagination,
@@ -499,6 +501,91 @@ describe('GraphqlService', () => {
 
       expect(removeSpaces(query)).toBe(removeSpaces(expectation));
     });
+
+    it('should return a query with query variables and the variables object when "useVariables" is enabled', () => {
+      const expectation = `query foo($first: Int, $offset: Int, $orderBy: [OrderByInput!], $filterBy: [FilterByInput!], $userId: Int, $ratio: Float, $active: Boolean, $firstName: String) {
+        users(first:$first, offset:$offset, orderBy:$orderBy, filterBy:$filterBy, userId:$userId, ratio:$ratio, active:$active, firstName:$firstName) {
+          totalCount, nodes { id,field1,field2 }}
+        }`;
+
+      service.init(
+        {
+          datasetName: 'users',
+          operationName: 'foo',
+          useVariables: true,
+          filteringOptions: [{ field: 'field1', operator: 'EQ', value: 'Jo"hn' }],
+          sortingOptions: [{ field: 'field2', direction: 'DESC' }],
+          extraQueryArguments: [
+            { field: 'userId', value: 123 },
+            { field: 'ratio', value: 1.5 },
+            { field: 'active', value: true },
+            { field: 'firstName', value: 'John' },
+          ],
+        },
+        paginationOptions,
+        gridStub
+      );
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+      expect(service.getQueryVariables()).toEqual({
+        first: 10,
+        offset: 0,
+        orderBy: [{ field: 'field2', direction: 'DESC' }],
+        filterBy: [{ field: 'field1', operator: 'EQ', value: 'Jo"hn' }],
+        userId: 123,
+        ratio: 1.5,
+        active: true,
+        firstName: 'John',
+      });
+    });
+
+    it('should use the custom "variableTypes" and skip cursor variables without any value when "useVariables" is enabled', () => {
+      const expectation = `query($first: Int, $after: Cursor, $filterBy: [UserFilter!]!, $userId: ID) {
+        users(first:$first, after:$after, filterBy:$filterBy, userId:$userId) {
+          totalCount, nodes { id,field1,field2 }, pageInfo{ hasNextPage,hasPreviousPage,endCursor,startCursor }, edges{ cursor }}
+        }`;
+
+      service.init(
+        {
+          datasetName: 'users',
+          useCursor: true,
+          useVariables: true,
+          variableTypes: { after: 'Cursor', filterBy: '[UserFilter!]!', userId: 'ID' },
+          paginationOptions: { first: 20, after: 'abc', before: undefined },
+          filteringOptions: [{ field: 'field1', operator: 'EQ', value: 'John' }],
+          extraQueryArguments: [{ field: 'userId', value: 123 }],
+        },
+        paginationOptions,
+        gridStub
+      );
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+      expect(service.getQueryVariables()).toEqual({
+        first: 20,
+        after: 'abc',
+        filterBy: [{ field: 'field1', operator: 'EQ', value: 'John' }],
+        userId: 123,
+      });
+    });
+
+    it('should return a query without any query variable when "useVariables" is enabled but there are no query arguments', () => {
+      gridOptionMock.enablePagination = false;
+
+      service.init({ datasetName: 'users', useVariables: true }, paginationOptions, gridStub);
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(`query{ users{ id, field1, field2 }}`));
+      expect(service.getQueryVariables()).toEqual({});
+    });
+
+    it('should not return any query variables when "useVariables" is disabled', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.buildQuery();
+
+      expect(service.getQueryVariables()).toBeUndefined();
+    });
   });
 
   describe('buildFilterQuery method', () => {
@@ -1693,6 +1780,145 @@ describe('GraphqlService', () => {
     });
   });
 
+  describe('updateFilterExpression method', () => {
+    beforeEach(() => {
+      mockColumns = [
+        { id: 'name', field: 'name', width: 100 },
+        { id: 'gender', field: 'gender', width: 100 },
+        { id: 'age', field: 'age', type: 'number', width: 100 },
+      ];
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+    });
+
+    it('should include the nested Filter Expression as a "filterExpression" query argument by default', () => {
+      const expectation = `query{users(first:10, offset:0,
+        filterExpression:{logic:OR, conditions:[{field:name, operator:StartsWith, value:"John"},
+          {logic:AND, not:true, conditions:[{field:gender, operator:EQ, value:"male"}, {field:age, operator:GT, value:"20"}]}]})
+        { totalCount, nodes{id,name,gender,age}}}`;
+      const filterExpression: FilterExpressionGroup = {
+        logic: 'or',
+        conditions: [
+          { columnId: 'name', operator: 'StartsWith', searchTerms: ['John'] },
+          {
+            logic: 'and',
+            not: true,
+            conditions: [
+              { columnId: 'gender', operator: 'EQ', searchTerms: ['male'] },
+              { columnId: 'age', operator: '>', searchTerms: ['20'] },
+            ],
+          },
+        ],
+      };
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilterExpression(filterExpression);
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+    });
+
+    it('should use a custom argument name when "filterExpressionArgumentName" is provided and convert a range condition into an AND group', () => {
+      const expectation = `query{users(first:10, offset:0,
+        advancedFilter:{logic:AND, conditions:[{logic:AND, conditions:[{field:age, operator:GE, value:"5"}, {field:age, operator:LE, value:"10"}]}]})
+        { totalCount, nodes{id,name,gender,age}}}`;
+
+      service.init({ ...serviceOptions, filterExpressionArgumentName: 'advancedFilter' }, paginationOptions, gridStub);
+      service.updateFilterExpression({ logic: 'and', conditions: [{ columnId: 'age', operator: 'RangeInclusive', searchTerms: [5, 10] }] });
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+    });
+
+    it('should pass the Filter Expression as a query variable typed with the "filterExpression" variable type when "useVariables" is enabled', () => {
+      const expectation = `query($first: Int, $offset: Int, $advancedFilter: UserFilterExpression) {
+        users(first:$first, offset:$offset, advancedFilter:$advancedFilter) { totalCount, nodes{id,name,gender,age}}}`;
+
+      service.init(
+        {
+          ...serviceOptions,
+          filterExpressionArgumentName: 'advancedFilter',
+          useVariables: true,
+          variableTypes: { filterExpression: 'UserFilterExpression' },
+        },
+        paginationOptions,
+        gridStub
+      );
+      service.updateFilterExpression({ logic: 'or', conditions: [{ columnId: 'gender', operator: 'EQ', searchTerms: ['male'] }] });
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+      expect(service.getQueryVariables()).toEqual({
+        first: 10,
+        offset: 0,
+        advancedFilter: { logic: 'OR', conditions: [{ field: 'gender', operator: 'EQ', value: 'male' }] },
+      });
+    });
+
+    it('should skip conditions with an invalid column or without search value and skip the query argument when nothing is left', () => {
+      const expectation = `query{users(first:10, offset:0){ totalCount, nodes{id,name,gender,age}}}`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilterExpression({
+        logic: 'and',
+        conditions: [
+          { columnId: 'unknown', searchTerms: ['John'] },
+          { logic: 'or', conditions: [{ columnId: 'name', searchTerms: [''] }] },
+        ],
+      });
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+    });
+
+    it('should reset the pagination and remove the query argument when the Filter Expression is cleared', () => {
+      const expectation = `query{users(first:10, offset:0){ totalCount, nodes{id,name,gender,age}}}`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updatePagination(3, 10);
+      service.updateFilterExpression({ logic: 'and', conditions: [{ columnId: 'name', searchTerms: ['John'] }] });
+      service.updateFilterExpression(null);
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+      expect(service.getCurrentPagination()).toEqual({ pageNumber: 1, pageSize: 10 });
+    });
+  });
+
+  describe('updateGlobalSearch method', () => {
+    it('should include the Global Search term as a "search" query argument by default', () => {
+      const expectation = `query{users(first:10, offset:0, search:"John"){ totalCount, nodes{id,field1,field2}}}`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateGlobalSearch({ searchTerm: 'John' });
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+    });
+
+    it('should include the Global Search term with a custom argument name when "globalSearchArgumentName" is provided', () => {
+      const expectation = `query{users(first:10, offset:0, quickSearch:"John"){ totalCount, nodes{id,field1,field2}}}`;
+
+      service.init({ ...serviceOptions, globalSearchArgumentName: 'quickSearch' }, paginationOptions, gridStub);
+      service.updateGlobalSearch({ searchTerm: 'John' });
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+    });
+
+    it('should reset the pagination and remove the query argument when the Global Search is cleared', () => {
+      const expectation = `query{users(first:10, offset:0){ totalCount, nodes{id,field1,field2}}}`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updatePagination(3, 10);
+      service.updateGlobalSearch({ searchTerm: 'John' });
+      service.updateGlobalSearch(null);
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+      expect(service.getCurrentPagination()).toEqual({ pageNumber: 1, pageSize: 10 });
+    });
+  });
+
   describe('updateSorters method', () => {
     beforeEach(() => {
       const columns = [
@@ -1831,4 +2057,152 @@ describe('GraphqlService', () => {
       expect(paginationOptions.totalItems).toBe(20);
     });
   });
+
+  describe('getDatasetFromProcessResult method', () => {
+    it('should return the nodes and the totalCount of the dataset result', () => {
+      service.init({ datasetName: 'users' }, paginationOptions, gridStub);
+      const output = service.getDatasetFromProcessResult({ data: { users: { nodes: [{ id: 1 }, { id: 2 }], totalCount: 20 } } });
+
+      expect(output).toEqual({ dataset: [{ id: 1 }, { id: 2 }], totalItems: 20 });
+    });
+
+    it('should return the dataset array and an undefined total when the result has no nodes/totalCount', () => {
+      service.init({ datasetName: 'users' }, paginationOptions, gridStub);
+      const output = service.getDatasetFromProcessResult({ data: { users: [{ id: 1 }] } } as any);
+
+      expect(output).toEqual({ dataset: [{ id: 1 }], totalItems: undefined });
+    });
+
+    it('should return an empty dataset when the result is invalid', () => {
+      service.init({ datasetName: 'users' }, paginationOptions, gridStub);
+      const output = service.getDatasetFromProcessResult({ data: {} } as any);
+
+      expect(output).toEqual({ dataset: [], totalItems: undefined });
+    });
+  });
+
+  describe('server-side grouping', () => {
+    beforeEach(() => {
+      mockColumns = [
+        { id: 'gender', field: 'gender' },
+        { id: 'company', field: 'company', queryField: 'company.name' },
+        { id: 'cost', field: 'cost' },
+      ];
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+    });
+
+    it('should query the groups of the 1st grouping level with their totals and the pagination, without the column sorting', () => {
+      const expectation = `query{ users(first:10, offset:0, filterBy:[{field:cost, operator:GT, value:"5"}], groupBy:{field:gender, direction:DESC}) {
+        totalCount, groups{ value, count, totals{ sum{ cost }, max{ billing{ amount }} }}}}`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateOptions({
+        filteringOptions: [{ field: 'cost', operator: 'GT', value: '5' }],
+        sortingOptions: [{ field: 'cost', direction: 'ASC' }],
+      });
+      service.updateGrouping([
+        {
+          columnDef: mockColumns[0],
+          aggregators: [new Aggregators.Sum('cost'), new Aggregators.Max('billing.amount'), new Aggregators.Count('cost')],
+          sortAsc: false,
+        },
+        { columnDef: mockColumns[1], aggregators: [] },
+      ]);
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+      expect(service.getCurrentPagination()).toEqual({ pageNumber: 1, pageSize: 10 });
+    });
+
+    it('should query the sub-groups of a group filtered by the group value, with a custom "groupBy" argument name and without any pagination', () => {
+      const expectation = `query{ users(filterBy:[{field:gender, operator:EQ, value:"male"}], groupingBy:{field:company.name, direction:ASC}) {
+        groups{ value, count }}}`;
+
+      service.init({ ...serviceOptions, groupByArgumentName: 'groupingBy' }, paginationOptions, gridStub);
+      service.updateGrouping([
+        { columnDef: mockColumns[0], aggregators: [] },
+        { columnDef: mockColumns[1], aggregators: [] },
+      ]);
+      const query = service.buildGroupChildrenQuery(['male']);
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+    });
+
+    it('should query the items of a group of the last grouping level with the column sorting and a cursor pagination when "groupChildrenPageSize" is set', () => {
+      const expectation = `query{ users(first:50, after:"abc", orderBy:[{field:cost, direction:ASC}],
+        filterBy:[{field:gender, operator:EQ, value:"male"}, {field:company.name, operator:EQ, value:null}]) {
+        nodes{ id, gender, company, cost }, pageInfo{ hasNextPage, hasPreviousPage, endCursor, startCursor }}}`;
+
+      service.init({ ...serviceOptions, groupChildrenPageSize: 50 }, paginationOptions, gridStub);
+      service.updateOptions({ sortingOptions: [{ field: 'cost', direction: 'ASC' }] });
+      service.updateGrouping([
+        { columnDef: mockColumns[0], aggregators: [] },
+        { columnDef: mockColumns[1], aggregators: [] },
+      ]);
+      const query = service.buildGroupChildrenQuery(['male', null], 'abc');
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+    });
+
+    it('should query the groups with the grouping sent as a "GroupByInput" query variable when "useVariables" is enabled', () => {
+      const expectation = `query($first: Int, $offset: Int, $groupBy: GroupByInput) { users(first:$first, offset:$offset, groupBy:$groupBy) {
+        totalCount, groups{ value, count }}}`;
+
+      service.init({ ...serviceOptions, useVariables: true }, paginationOptions, gridStub);
+      service.updateGrouping([{ columnDef: mockColumns[0], aggregators: [] }]);
+      const query = service.buildQuery();
+
+      expect(removeSpaces(query)).toBe(removeSpaces(expectation));
+      expect(service.getQueryVariables()).toEqual({ first: 10, offset: 0, groupBy: { field: 'gender', direction: 'ASC' } });
+    });
+
+    it('should extract the groups with their totals and the cursor page info from the GraphQL result', () => {
+      const pageInfo = { hasNextPage: true, hasPreviousPage: false, endCursor: 'abc', startCursor: 'xyz' };
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateGrouping([
+        { columnDef: mockColumns[0], aggregators: [] },
+        {
+          columnDef: mockColumns[1],
+          aggregators: [new Aggregators.Sum('cost'), new Aggregators.Max('billing.amount'), new Aggregators.Count('cost')],
+        },
+      ]);
+
+      const output = service.getGroupsFromProcessResult(
+        {
+          data: {
+            users: {
+              totalCount: 2,
+              groups: [
+                { value: 'Acme', count: 3, totals: { sum: { cost: 30 }, max: { billing: { amount: 99 } } } },
+                { value: null, count: 1 },
+              ],
+              pageInfo,
+            },
+          },
+        } as any,
+        1
+      );
+
+      expect(output).toEqual({
+        groups: [
+          { value: 'Acme', count: 3, totals: { sum: { cost: 30 }, max: { 'billing.amount': 99 }, count: { cost: 3 } } },
+          { value: null, count: 1, totals: { count: { cost: 1 } } },
+        ],
+        totalItems: 2,
+        pageInfo,
+      });
+      expect(service.getGroupsFromProcessResult({ data: { users: { totalCount: 0 } } } as any, 2)).toEqual({ groups: [], totalItems: 0 });
+    });
+
+    it('should not change the pagination total when post processing the result of group children which have no total count', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateGrouping([{ columnDef: mockColumns[0], aggregators: [] }]);
+
+      service.postProcess({ data: { users: { nodes: [{ id: 1 }] } } } as any);
+      expect(paginationOptions.totalItems).toBe(100);
+
+      service.postProcess({ data: { users: { groups: [], totalCount: 3 } } } as any);
+      expect(paginationOptions.totalItems).toBe(3);
+    });
+  });
 });
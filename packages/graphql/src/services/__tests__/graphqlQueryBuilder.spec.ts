@@ -34,6 +34,13 @@ describe('GraphqlQueryBuilder', () => {
     expect(removeSpaces(expectation)).toBe(removeSpaces(user));
   });
 
+  it('should create a Query with function name & arguments referencing query variables', () => {
+    const expectation = `user(id:$id, age:$age){name}`;
+    const user = new GraphqlQueryBuilder('user').variables(['id', 'age']).find('name').toString();
+
+    expect(removeSpaces(expectation)).toBe(removeSpaces(user));
+  });
+
   it('should accept a single find value with alia', () => {
     const expectation = `user{nickname:name}`;
     const user = new GraphqlQueryBuilder('user').find({ nickname: 'name' }).toString();
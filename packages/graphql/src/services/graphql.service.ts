@@ -1,13 +1,19 @@
 import type {
   BackendService,
+  BackendServiceDatasetResult,
+  BackendServiceGroupBy,
+  BackendServiceGroupsResult,
   Column,
   ColumnFilter,
   ColumnFilters,
   ColumnSort,
   CurrentFilter,
+  CurrentGlobalSearch,
   CurrentPagination,
   CurrentSorter,
   FilterChangedArgs,
+  FilterExpressionCondition,
+  FilterExpressionGroup,
   GridOption,
   InfiniteScrollOption,
   MultiColumnSort,
@@ -19,15 +25,18 @@ import type {
   SlickGrid,
   SortDirection,
 } from '@slickgrid-universal/common';
-import { mapOperatorByFieldType, mapOperatorType, type FieldType } from '@slickgrid-universal/common';
+import { isFilterExpressionGroup, mapOperatorByFieldType, mapOperatorType, type FieldType } from '@slickgrid-universal/common';
 import { getHtmlStringOutput, stripTags } from '@slickgrid-universal/utils';
 import type {
   GraphqlCursorPaginationOption,
   GraphqlCustomFilteringOption,
   GraphqlDatasetFilter,
+  GraphqlFilteringGroup,
   GraphqlFilteringOption,
+  GraphqlGroupResult,
   GraphqlPaginatedResult,
   GraphqlPaginationOption,
+  GraphqlQueryVariableTypes,
   GraphqlServiceOption,
   GraphqlSortingOption,
 } from '../interfaces/index.js';
@@ -35,6 +44,18 @@ import QueryBuilder from './graphqlQueryBuilder.js';
 
 const DEFAULT_ITEMS_PER_PAGE = 25;
 const DEFAULT_PAGE_SIZE = 20;
+const DEFAULT_QUERY_VARIABLE_TYPES: GraphqlQueryVariableTypes = {
+  after: 'String',
+  before: 'String',
+  filterBy: '[FilterByInput!]',
+  filterExpression: 'FilterExpressionInput',
+  first: 'Int',
+  groupBy: 'GroupByInput',
+  last: 'Int',
+  locale: 'String',
+  offset: 'Int',
+  orderBy: '[OrderByInput!]',
+};
 
 export class GraphqlService implements BackendService {
   protected _currentFilters: ColumnFilters | CurrentFilter[] = [];
@@ -43,6 +64,8 @@ export class GraphqlService implements BackendService {
   protected _columns?: Column[];
   protected _grid?: SlickGrid;
   protected _datasetIdPropName = 'id';
+  protected _groupBy: BackendServiceGroupBy[] = [];
+  protected _queryVariables?: Record<string, any>;
   options?: GraphqlServiceOption;
   pagination?: Pagination;
   defaultPaginationOptions: GraphqlPaginationOption = {
@@ -80,45 +103,24 @@ export class GraphqlService implements BackendService {
     if (!this.options || !this.options.datasetName || !Array.isArray(this._columns)) {
       throw new Error('GraphQL Service requires the "datasetName" property to properly build the GraphQL query');
     }
-    // get the column definitions and exclude some if they were tagged as excluded
-    const columns = (this._columns || []).filter((column: Column) => !column.excludeFromQuery);
-    const queryQb = new QueryBuilder(`query ${this.options.operationName ?? ''}`);
-    const datasetQb = new QueryBuilder(this.options.datasetName);
-    const nodesQb = new QueryBuilder('nodes');
-
-    // get all the columnds Ids for the filters to work
-    const columnIds: string[] = [];
-    if (Array.isArray(columns)) {
-      for (const column of columns) {
-        if (!column.excludeFieldFromQuery) {
-          columnIds.push(column.field);
-        }
-
-        // when extra "fields" are provided, also push them to columnIds
-        if (column.fields) {
-          columnIds.push(...column.fields);
-        }
-      }
-    }
 
-    // Slickgrid also requires the "id" field to be part of DataView
-    // add it to the GraphQL query if it wasn't already part of the list
-    if (columnIds.indexOf(this._datasetIdPropName) === -1) {
-      columnIds.unshift(this._datasetIdPropName);
+    // with server-side grouping, the query returns the groups of the 1st grouping level instead of the items
+    if (this._groupBy.length) {
+      return this.buildGroupingQuery([]);
     }
 
-    const columnsQuery = this.buildFilterQuery(columnIds);
+    const datasetQb = new QueryBuilder(this.options.datasetName);
+    const nodesQb = new QueryBuilder('nodes');
+    const columnsQuery = this.buildColumnsQuery();
     let graphqlNodeFields = [];
 
-    if (this._gridOptions.enablePagination !== false || this.options.infiniteScroll) {
+    if (this.isPaginated()) {
       if (this.options.useCursor) {
         // ...pageInfo { hasNextPage, endCursor }, edges { cursor, node { _columns_ } }, totalCount: 100
         const edgesQb = new QueryBuilder('edges');
-        const pageInfoQb = new QueryBuilder('pageInfo');
-        pageInfoQb.find('hasNextPage', 'hasPreviousPage', 'endCursor', 'startCursor');
         nodesQb.find(columnsQuery);
         edgesQb.find(['cursor']);
-        graphqlNodeFields = ['totalCount', nodesQb, pageInfoQb, edgesQb];
+        graphqlNodeFields = ['totalCount', nodesQb, this.createPageInfoQueryBuilder(), edgesQb];
       } else {
         // ...nodes { _columns_ }, totalCount: 100
         nodesQb.find(columnsQuery);
@@ -132,56 +134,29 @@ export class GraphqlService implements BackendService {
     }
 
     // add dataset filters, could be Pagination and SortingFilters and/or FieldFilters
-    let datasetFilters: GraphqlDatasetFilter = {};
-
-    // only add pagination if it's enabled in the grid options
-    if (this._gridOptions.enablePagination !== false || this.options.infiniteScroll) {
-      datasetFilters = {};
-
-      if (this.options.useCursor && this.options.paginationOptions) {
-        datasetFilters = { ...this.options.paginationOptions };
-      } else {
-        const paginationOptions = this.options?.paginationOptions;
-        datasetFilters.first =
-          (this.options?.infiniteScroll as InfiniteScrollOption)?.fetchSize ??
-          this.options?.paginationOptions?.first ??
-          this.pagination?.pageSize ??
-          this.defaultPaginationOptions.first;
-        datasetFilters.offset = paginationOptions && 'offset' in paginationOptions ? +paginationOptions.offset! : 0;
-      }
-    }
-
-    if (this.options.sortingOptions && Array.isArray(this.options.sortingOptions) && this.options.sortingOptions.length > 0) {
-      // orderBy: [{ field:x, direction: 'ASC' }]
-      datasetFilters.orderBy = this.options.sortingOptions;
-    }
-    if (this.options.filteringOptions && Array.isArray(this.options.filteringOptions) && this.options.filteringOptions.length > 0) {
-      // filterBy: [{ field: date, operator: '>', value: '2000-10-10' }]
-      datasetFilters.filterBy = this.options.filteringOptions;
-    }
-    if (this.options.addLocaleIntoQuery) {
-      // first: 20, ... locale: "en-CA"
-      datasetFilters.locale = this._gridOptions.translater?.getCurrentLanguage() || this._gridOptions.locale || 'en';
-    }
-    if (this.options.extraQueryArguments) {
-      // first: 20, ... userId: 123
-      for (const queryArgument of this.options.extraQueryArguments) {
-        (datasetFilters as any)[queryArgument.field] = queryArgument.value;
-      }
-    }
-
-    // with pagination:: query { users(first: 20, offset: 0, orderBy: [], filterBy: []) { totalCount: 100, nodes: { _columns_ }}}
-    // without pagination:: query { users(orderBy: [], filterBy: []) { _columns_ }}
-    datasetQb.filter(datasetFilters);
-    queryQb.find(datasetQb);
+    const datasetFilters: GraphqlDatasetFilter = { ...this.getPaginationArguments(), ...this.getQueryArguments(this.options) };
+    return this.buildDatasetQuery(datasetQb, datasetFilters);
+  }
 
-    const enumSearchProperties = ['direction:', 'field:', 'operator:'];
-    return this.trimDoubleQuotesOnEnumField(queryQb.toString(), enumSearchProperties, this.options.keepArgumentFieldDoubleQuotes || false);
+  /**
+   * Build the query of the children of a group (server-side grouping), which are the sub-groups of the next grouping level or the items when it is the last grouping level.
+   * The children are filtered by the group values and, when the `groupChildrenPageSize` option is set, they are paginated by a cursor
+   * e.g.: query { users(first: 50, filterBy: [{field: gender, operator: EQ, value: "male"}], groupBy: {field: company, direction: ASC}) { groups { value, count }, pageInfo { ... } } }
+   * @param {Array<*>} groupValues - values of the group and of all of its parent groups
+   * @param {String} [afterCursor] - end cursor of the previously loaded children, to query their next page
+   */
+  buildGroupChildrenQuery(groupValues: any[], afterCursor?: string): string {
+    return this.buildGroupingQuery(groupValues, afterCursor);
   }
 
   postProcess(processResult: GraphqlPaginatedResult): void {
     if (processResult.data && this.pagination) {
-      this.pagination.totalItems = processResult.data[this.getDatasetName()]?.totalCount || 0;
+      const result = processResult.data[this.getDatasetName()];
+
+      // the group children (server-side grouping) are queried without any total count and must not change the pagination
+      if (!this._groupBy.length || result?.hasOwnProperty('totalCount')) {
+        this.pagination.totalItems = result?.totalCount || 0;
+      }
     }
   }
 
@@ -236,6 +211,53 @@ export class GraphqlService implements BackendService {
     return this.options?.datasetName || '';
   }
 
+  /** Extract the dataset (nodes) and the total item count (totalCount) from the GraphQL result */
+  getDatasetFromProcessResult(processResult: GraphqlPaginatedResult): BackendServiceDatasetResult {
+    const result = (processResult?.data as any)?.[this.getDatasetName()];
+    const dataset = result?.hasOwnProperty('nodes') ? result.nodes : result;
+    const totalCount = result?.hasOwnProperty('totalCount') ? result.totalCount : undefined;
+
+    return {
+      dataset: Array.isArray(dataset) ? dataset : [],
+      totalItems: typeof totalCount === 'number' ? totalCount : undefined,
+      pageInfo: result?.pageInfo,
+    };
+  }
+
+  /**
+   * Extract the groups of a grouping level (server-side grouping) from the GraphQL result,
+   * every group has its value, its item count and the totals of the aggregators (the "count" aggregator total is the group count)
+   * @param {GraphqlPaginatedResult} processResult - GraphQL result
+   * @param {Number} level - grouping level of the groups
+   */
+  getGroupsFromProcessResult(processResult: GraphqlPaginatedResult, level: number): BackendServiceGroupsResult {
+    const result = (processResult?.data as any)?.[this.getDatasetName()];
+    const groupBy = this._groupBy[level];
+    const groupResults: GraphqlGroupResult[] = Array.isArray(result?.groups) && groupBy ? result.groups : [];
+
+    const groups = groupResults.map((groupResult) => {
+      const totals: any = {};
+      for (const aggregator of groupBy.aggregators) {
+        // a field with dot notation is returned as nested objects, e.g.: totals { sum { billing { amount: 99 } } }
+        const value =
+          aggregator.type === 'count'
+            ? groupResult.count
+            : `${aggregator.field}`.split('.').reduce((obj, prop) => obj?.[prop], groupResult.totals?.[aggregator.type]);
+        if (value !== undefined) {
+          totals[aggregator.type] ??= {};
+          totals[aggregator.type][aggregator.field] = value;
+        }
+      }
+      return { value: groupResult.value ?? null, count: +(groupResult.count ?? 0), totals };
+    });
+
+    return {
+      groups,
+      totalItems: typeof result?.totalCount === 'number' ? result.totalCount : undefined,
+      pageInfo: result?.pageInfo,
+    };
+  }
+
   /** Get the Filters that are currently used by the grid */
   getCurrentFilters(): ColumnFilters | CurrentFilter[] {
     return this._currentFilters;
@@ -251,6 +273,11 @@ export class GraphqlService implements BackendService {
     return this._currentSorters;
   }
 
+  /** Get the query variables of the last built query, only available when `useVariables` is enabled */
+  getQueryVariables(): Record<string, any> | undefined {
+    return this._queryVariables;
+  }
+
   /*
    * Reset the pagination options
    */
@@ -590,6 +617,43 @@ export class GraphqlService implements BackendService {
     this.updateOptions({ filteringOptions: searchByArray });
   }
 
+  /**
+   * Update the Global Search (quick search across all columns) which will be sent as an extra query argument,
+   * the argument name can be changed via the `globalSearchArgumentName` option (defaults to "search")
+   * @param {CurrentGlobalSearch | null} globalSearch - the Global Search to apply, provide `null` (or an empty search term) to remove it
+   */
+  updateGlobalSearch(globalSearch: CurrentGlobalSearch | null): void {
+    this.updateOptions({ globalSearchTerm: globalSearch?.searchTerm || undefined });
+
+    // the result set changed, so we need to go back to the 1st page
+    this.resetPaginationOptions();
+  }
+
+  /**
+   * Update the Filter Expression (nested AND/OR/NOT filter groups) which will be sent as an extra query argument,
+   * the argument name can be changed via the `filterExpressionArgumentName` option (defaults to "filterExpression")
+   * @param {FilterExpressionGroup | null} filterExpression - the Filter Expression to apply, provide `null` to remove it
+   */
+  updateFilterExpression(filterExpression: FilterExpressionGroup | null): void {
+    const graphqlFilterGroup = filterExpression ? this.buildFilteringGroup(filterExpression) : undefined;
+    this.updateOptions({ filterExpression: graphqlFilterGroup?.conditions.length ? graphqlFilterGroup : undefined });
+
+    // the result set changed, so we need to go back to the 1st page
+    this.resetPaginationOptions();
+  }
+
+  /**
+   * Update the server-side grouping, the query will then return the groups of the 1st grouping level (with their item count and totals) instead of the items,
+   * the grouping is sent as an extra query argument and its name can be changed via the `groupByArgumentName` option (defaults to "groupBy")
+   * @param {BackendServiceGroupBy[]} groupBy - grouped column, aggregators and sort direction of every grouping level, an empty array will remove the grouping
+   */
+  updateGrouping(groupBy: BackendServiceGroupBy[]): void {
+    this._groupBy = groupBy;
+
+    // the result set changed, so we need to go back to the 1st page
+    this.resetPaginationOptions();
+  }
+
   /**
    * Update the pagination component with it's new page number and size.
    * @param {Number} newPage
@@ -731,6 +795,316 @@ export class GraphqlService implements BackendService {
   //
   // protected functions
   // -------------------
+  /**
+   * Get the fields of all the columns to be returned by the query, columns tagged as excluded are skipped
+   * and the dataset "id" field is always included since the DataView requires it
+   */
+  protected buildColumnsQuery(): string {
+    // get the column definitions and exclude some if they were tagged as excluded
+    const columns = (this._columns || []).filter((column: Column) => !column.excludeFromQuery);
+
+    // get all the columnds Ids for the filters to work
+    const columnIds: string[] = [];
+    for (const column of columns) {
+      if (!column.excludeFieldFromQuery) {
+        columnIds.push(column.field);
+      }
+
+      // when extra "fields" are provided, also push them to columnIds
+      if (column.fields) {
+        columnIds.push(...column.fields);
+      }
+    }
+
+    // Slickgrid also requires the "id" field to be part of DataView
+    // add it to the GraphQL query if it wasn't already part of the list
+    if (columnIds.indexOf(this._datasetIdPropName) === -1) {
+      columnIds.unshift(this._datasetIdPropName);
+    }
+    return this.buildFilterQuery(columnIds);
+  }
+
+  /**
+   * Build the final query of a dataset with its arguments, which are either inlined in the query or else sent as query variables when `useVariables` is enabled
+   * @param datasetQb - dataset query builder with all its properties to be returned
+   * @param datasetFilters - dataset query arguments (pagination, sorting, filters, ...)
+   */
+  protected buildDatasetQuery(datasetQb: QueryBuilder, datasetFilters: GraphqlDatasetFilter): string {
+    const options = this.options as GraphqlServiceOption;
+
+    if (options.useVariables) {
+      // query($first: Int, $offset: Int, $filterBy: [FilterByInput!]) { users(first: $first, offset: $offset, filterBy: $filterBy) { totalCount: 100, nodes: { _columns_ }}}
+      this._queryVariables = {};
+      const variableDefinitions: string[] = [];
+      for (const [argumentName, value] of Object.entries(datasetFilters)) {
+        if (value !== undefined) {
+          this._queryVariables[argumentName] = value;
+          variableDefinitions.push(`$${argumentName}: ${this.getQueryVariableType(argumentName, value)}`);
+        }
+      }
+      datasetQb.variables(Object.keys(this._queryVariables));
+      const variablesQuery = variableDefinitions.length > 0 ? `(${variableDefinitions.join(', ')})` : '';
+      const queryQb = new QueryBuilder(`query ${options.operationName ?? ''}${variablesQuery}`);
+      queryQb.find(datasetQb);
+      return queryQb.toString();
+    }
+
+    // with pagination:: query { users(first: 20, offset: 0, orderBy: [], filterBy: []) { totalCount: 100, nodes: { _columns_ }}}
+    // without pagination:: query { users(orderBy: [], filterBy: []) { _columns_ }}
+    this._queryVariables = undefined;
+    const queryQb = new QueryBuilder(`query ${options.operationName ?? ''}`);
+    datasetQb.filter(datasetFilters);
+    queryQb.find(datasetQb);
+
+    const enumSearchProperties = ['direction:', 'field:', 'logic:', 'operator:'];
+    return this.trimDoubleQuotesOnEnumField(queryQb.toString(), enumSearchProperties, options.keepArgumentFieldDoubleQuotes || false);
+  }
+
+  /**
+   * Build the server-side grouping query of a grouping level, the level is defined by the number of group values (an empty array is the 1st level)
+   * and the last level (when all group values are provided) is the query of the group items.
+   * The 1st level is paginated like the regular query while the group children are only paginated by a cursor when the `groupChildrenPageSize` option is set.
+   * @param {Array<*>} groupValues - values of the parent groups, used to filter the query
+   * @param {String} [afterCursor] - end cursor of the previously loaded group children
+   */
+  protected buildGroupingQuery(groupValues: any[], afterCursor?: string): string {
+    const options = this.options as GraphqlServiceOption;
+    const level = groupValues.length;
+    const groupBy = this._groupBy[level] as BackendServiceGroupBy | undefined;
+    const datasetQb = new QueryBuilder(options.datasetName);
+    const datasetFields: Array<string | QueryBuilder> = [];
+    let paginationArguments: GraphqlDatasetFilter = {};
+    let hasPageInfo = false;
+
+    if (level === 0) {
+      // only the 1st grouping level has a total count, which is the number of groups used by the pagination
+      paginationArguments = this.getPaginationArguments();
+      if (this.isPaginated()) {
+        datasetFields.push('totalCount');
+        hasPageInfo = !!options.useCursor;
+      }
+    } else if (options.groupChildrenPageSize) {
+      paginationArguments = { first: options.groupChildrenPageSize };
+      if (afterCursor) {
+        paginationArguments.after = afterCursor;
+      }
+      hasPageInfo = true;
+    }
+
+    if (groupBy) {
+      // groups { value, count, totals { sum { cost }, avg { duration } } }
+      const aggregateFields: { [aggregatorType: string]: string[] } = {};
+      for (const aggregator of groupBy.aggregators) {
+        // the "count" aggregator total is the group count
+        if (aggregator.type !== 'count') {
+          (aggregateFields[aggregator.type] ??= []).push(`${aggregator.field}`);
+        }
+      }
+      const groupFields: Array<string | QueryBuilder> = ['value', 'count'];
+      const totalsFields = Object.keys(aggregateFields).map((type) =>
+        new QueryBuilder(type).find(this.buildFilterQuery(aggregateFields[type]))
+      );
+      if (totalsFields.length) {
+        groupFields.push(new QueryBuilder('totals').find(totalsFields));
+      }
+      datasetFields.push(new QueryBuilder('groups').find(groupFields));
+    } else {
+      datasetFields.push(new QueryBuilder('nodes').find(this.buildColumnsQuery()));
+    }
+    if (hasPageInfo) {
+      datasetFields.push(this.createPageInfoQueryBuilder());
+    }
+    datasetQb.find(datasetFields);
+
+    // the group children are filtered by the values of the group and of all of its parent groups
+    const groupFilters: GraphqlFilteringOption[] = groupValues.map((groupValue, idx) => ({
+      field: this.getGroupingFieldName(this._groupBy[idx].columnDef),
+      operator: 'EQ',
+      value: groupValue ?? null,
+    }));
+    const datasetFilters: GraphqlDatasetFilter = {
+      ...paginationArguments,
+      ...this.getQueryArguments({
+        ...options,
+        filteringOptions: [...(options.filteringOptions ?? []), ...groupFilters],
+        // the groups are sorted by their grouping direction instead of the column sorting
+        sortingOptions: groupBy ? [] : options.sortingOptions,
+      }),
+    };
+    if (groupBy) {
+      // first: 20, ... groupBy: { field: gender, direction: ASC }
+      (datasetFilters as any)[options.groupByArgumentName || 'groupBy'] = {
+        field: this.getGroupingFieldName(groupBy.columnDef),
+        direction: groupBy.sortAsc === false ? 'DESC' : 'ASC',
+      };
+    }
+    return this.buildDatasetQuery(datasetQb, datasetFilters);
+  }
+
+  /** Create the query builder of the cursor page info: pageInfo { hasNextPage, hasPreviousPage, endCursor, startCursor } */
+  protected createPageInfoQueryBuilder(): QueryBuilder {
+    return new QueryBuilder('pageInfo').find('hasNextPage', 'hasPreviousPage', 'endCursor', 'startCursor');
+  }
+
+  /** Get the GraphQL field name of a grouped column */
+  protected getGroupingFieldName(columnDef: Column): string {
+    return `${columnDef.queryField || columnDef.field}`;
+  }
+
+  /** Get the pagination query arguments, which are either the cursor pagination options or else the "first" & "offset" arguments (none when the query is not paginated) */
+  protected getPaginationArguments(): GraphqlDatasetFilter {
+    // only add pagination if it's enabled in the grid options
+    if (!this.isPaginated()) {
+      return {};
+    }
+    if (this.options?.useCursor && this.options.paginationOptions) {
+      return { ...this.options.paginationOptions };
+    }
+
+    const paginationOptions = this.options?.paginationOptions;
+    return {
+      first:
+        (this.options?.infiniteScroll as InfiniteScrollOption)?.fetchSize ??
+        this.options?.paginationOptions?.first ??
+        this.pagination?.pageSize ??
+        this.defaultPaginationOptions.first,
+      offset: paginationOptions && 'offset' in paginationOptions ? +paginationOptions.offset! : 0,
+    };
+  }
+
+  /**
+   * Get all the other query arguments (sorting, filtering, global search, filter expression, locale and extra query arguments)
+   * @param options - service options from which the arguments are built
+   */
+  protected getQueryArguments(options: GraphqlServiceOption): GraphqlDatasetFilter {
+    const datasetFilters: GraphqlDatasetFilter = {};
+
+    if (options.sortingOptions && Array.isArray(options.sortingOptions) && options.sortingOptions.length > 0) {
+      // orderBy: [{ field:x, direction: 'ASC' }]
+      datasetFilters.orderBy = options.sortingOptions;
+    }
+    if (options.filteringOptions && Array.isArray(options.filteringOptions) && options.filteringOptions.length > 0) {
+      // filterBy: [{ field: date, operator: '>', value: '2000-10-10' }]
+      datasetFilters.filterBy = options.filteringOptions;
+    }
+    if (options.globalSearchTerm) {
+      // first: 20, ... search: "John"
+      (datasetFilters as any)[options.globalSearchArgumentName || 'search'] = options.globalSearchTerm;
+    }
+    if (options.filterExpression) {
+      // first: 20, ... filterExpression: { logic: OR, conditions: [{ field: name, operator: EQ, value: "John" }, { logic: AND, not: true, conditions: [] }] }
+      (datasetFilters as any)[options.filterExpressionArgumentName || 'filterExpression'] = options.filterExpression;
+    }
+    if (options.addLocaleIntoQuery) {
+      // first: 20, ... locale: "en-CA"
+      datasetFilters.locale = this._gridOptions.translater?.getCurrentLanguage() || this._gridOptions.locale || 'en';
+    }
+    if (options.extraQueryArguments) {
+      // first: 20, ... userId: 123
+      for (const queryArgument of options.extraQueryArguments) {
+        (datasetFilters as any)[queryArgument.field] = queryArgument.value;
+      }
+    }
+    return datasetFilters;
+  }
+
+  /** Is the query paginated? which is when the pagination is enabled (unless it is specifically disabled) or when using Infinite Scroll */
+  protected isPaginated(): boolean {
+    return this._gridOptions.enablePagination !== false || !!this.options?.infiniteScroll;
+  }
+
+  /**
+   * Get the GraphQL type of a query variable, it is either the type provided in the `variableTypes` option, the default type of the argument
+   * or else it is inferred from the argument value
+   * @param argumentName - query argument name
+   * @param value - query argument value
+   */
+  protected getQueryVariableType(argumentName: string, value: any): string {
+    const variableTypes: GraphqlQueryVariableTypes = { ...DEFAULT_QUERY_VARIABLE_TYPES, ...this.options?.variableTypes };
+    if (variableTypes[argumentName]) {
+      return variableTypes[argumentName];
+    }
+    if (argumentName === (this.options?.filterExpressionArgumentName || 'filterExpression')) {
+      return variableTypes.filterExpression!;
+    }
+    if (argumentName === (this.options?.groupByArgumentName || 'groupBy')) {
+      return variableTypes.groupBy!;
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? 'Int' : 'Float';
+    }
+    return typeof value === 'boolean' ? 'Boolean' : 'String';
+  }
+
+  /**
+   * Recursively convert a Filter Expression group into its GraphQL filtering group equivalent,
+   * conditions with an invalid column or without any search value are skipped and so are empty nested groups
+   * @param filterGroup - Filter Expression group to convert
+   */
+  protected buildFilteringGroup(filterGroup: FilterExpressionGroup): GraphqlFilteringGroup {
+    const conditions: GraphqlFilteringGroup['conditions'] = [];
+
+    for (const node of filterGroup.conditions ?? []) {
+      if (isFilterExpressionGroup(node)) {
+        const nestedGroup = this.buildFilteringGroup(node);
+        if (nestedGroup.conditions.length > 0) {
+          conditions.push(nestedGroup);
+        }
+      } else {
+        const filteringOption = this.buildFilteringCondition(node);
+        if (filteringOption) {
+          conditions.push(filteringOption);
+        }
+      }
+    }
+
+    return {
+      logic: filterGroup.logic === 'or' ? 'OR' : 'AND',
+      ...(filterGroup.not ? { not: true } : {}),
+      conditions,
+    };
+  }
+
+  /**
+   * Convert a single Filter Expression condition into a GraphQL filtering option,
+   * a range condition with 2 search terms is converted into an AND group of 2 filtering options (i.e.: GE & LE)
+   * @param condition - Filter Expression condition to convert
+   */
+  protected buildFilteringCondition(condition: FilterExpressionCondition): GraphqlFilteringOption | GraphqlFilteringGroup | undefined {
+    const columnDef = this._columns?.find((column: Column) => column.id === condition.columnId);
+    if (!columnDef) {
+      return undefined;
+    }
+
+    let fieldName =
+      columnDef.filter?.queryField || columnDef.queryFieldFilter || columnDef.queryField || columnDef.field || columnDef.name || '';
+    if (fieldName instanceof HTMLElement) {
+      fieldName = stripTags(fieldName.innerHTML);
+    }
+    const fieldType = columnDef.type || 'string';
+    const searchTerms = (condition.searchTerms ?? [])
+      .filter((searchTerm) => searchTerm !== undefined && searchTerm !== null && searchTerm !== '')
+      .map((searchTerm) => this.normalizeSearchValue(fieldType, `${searchTerm}`)); // make sure it's a string
+
+    if (!fieldName || searchTerms.length === 0) {
+      return undefined;
+    }
+
+    const field = getHtmlStringOutput(fieldName);
+    const operator = condition.operator || columnDef.filter?.operator || mapOperatorByFieldType(fieldType);
+    if ((operator === 'RangeInclusive' || operator === 'RangeExclusive') && searchTerms.length === 2) {
+      return {
+        logic: 'AND',
+        conditions: [
+          { field, operator: operator === 'RangeInclusive' ? 'GE' : 'GT', value: searchTerms[0] },
+          { field, operator: operator === 'RangeInclusive' ? 'LE' : 'LT', value: searchTerms[1] },
+        ],
+      };
+    }
+    const searchValue = searchTerms.length > 1 ? searchTerms.join(',') : searchTerms[0];
+    return { field, operator: mapOperatorType(operator), value: searchValue };
+  }
+
   /**
    * Cast provided filters (could be in multiple formats) into an array of CurrentFilter
    * @param columnFilters
@@ -49,6 +49,17 @@ export default class GraphqlQueryBuilder {
     return this;
   }
 
+  /**
+   * The arguments to run the query against, each argument references the query variable of the same name (e.g. `first:$first`).
+   * @param argumentNames An array of argument names
+   */
+  variables(argumentNames: string[]): this {
+    for (const argumentName of argumentNames) {
+      this.head.push(`${argumentName}:$${argumentName}`);
+    }
+    return this;
+  }
+
   /**
    * Outlines the properties you wish to be returned from the query.
    * @param properties representing each attribute you want Returned
@@ -1,6 +1,12 @@
 import type { BackendServiceFilterQueryOverrideArgs, BackendServiceOption, CaseType } from '@slickgrid-universal/common';
 
 export interface OdataOption extends BackendServiceOption {
+  /**
+   * Transformations (OData v4 Data Aggregation) that will be sent with the `$apply` system query option, used by the server-side grouping.
+   * When defined, the filters are also sent as a `filter()` transformation of the `$apply`, e.g.: $apply=filter(Gender eq 'male')/groupby((Company))
+   */
+  apply?: string;
+
   /** What is the casing type to use? Typically that would be 1 of the following 2: camelCase or PascalCase */
   caseType: CaseType;
 
@@ -34,12 +40,28 @@ export interface OdataOption extends BackendServiceOption {
   /** What is the separator between each filters? Typically "and", "or" */
   filterBySeparator?: 'and' | 'or';
 
+  /** Filter Expression string (built by the GridOdataService from a tree of conditions), it will be combined with the column filters using an "and" */
+  filterExpression?: string;
+
   /** Filter queue */
   filterQueue?: any[];
 
+  /** Global Search filter expression (built by the GridOdataService), it will be combined with the column filters using an "and" */
+  globalSearchFilter?: string;
+
+  /**
+   * Defaults to "contains", which strategy to use when querying the Global Search (`filterService.setGlobalSearch()`)
+   * - "contains": add a `contains()` (or `substringof()` with OData v2) condition on every string column and join them with an "or"
+   * - "search": use the OData `$search` system query option (OData v4 only, the server must support free-text search)
+   */
+  globalSearchStrategy?: 'contains' | 'search';
+
   /** An optional predicate function to overide the built-in filter construction  */
   filterQueryOverride?: (args: BackendServiceFilterQueryOverrideArgs) => string | undefined;
 
+  /** Free-text search string that will be sent with the `$search` system query option */
+  search?: string;
+
   /** Sorting string (or array of string) that must be a valid OData string */
   orderBy?: string | string[];
 
@@ -1609,6 +1609,265 @@ describe('GridOdataService', () => {
     });
   });
 
+  describe('updateFilters method with a filter lambda on a collection', () => {
+    let mockColumnStatus: Column;
+    let mockColumnTags: Column;
+
+    beforeEach(() => {
+      mockColumnStatus = { id: 'status', field: 'status', filter: { queryField: 'orders/status', lambda: { collectionPath: 'orders' } } };
+      mockColumnTags = { id: 'tags', field: 'tags', filter: { lambda: { collectionPath: 'tags', operator: 'all', variable: 'tag' } } };
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue([mockColumnStatus, mockColumnTags]);
+    });
+
+    it('should return a query with an "any" lambda on the collection item property and an "all" lambda on a collection of primitive values', () => {
+      const expectation = `$top=10&$filter=(Orders/any(o: o/Status eq 'Open') and Tags/all(tag: startswith(tag, 'urg')))`;
+      const mockColumnFilters = {
+        status: { columnId: 'status', columnDef: mockColumnStatus, searchTerms: ['Open'], operator: 'EQ', type: 'string' },
+        tags: { columnId: 'tags', columnDef: mockColumnTags, searchTerms: ['urg*'], type: 'string' },
+      } as ColumnFilters;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilters(mockColumnFilters, false);
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    test.each([
+      ['Contains', ['pen'], `Orders/any(o: substringof('pen', o/Status))`],
+      ['Not_Contains', ['pen'], `Orders/any(o: not substringof('pen', o/Status))`],
+      ['EndsWith', ['ed'], `Orders/any(o: endswith(o/Status, 'ed'))`],
+      ['StartsWithEndsWith', ['O*n'], `Orders/any(o: startswith(o/Status, 'O') and endswith(o/Status, 'n'))`],
+      ['!=', ['Open'], `Orders/any(o: o/Status ne 'Open')`],
+      ['RangeInclusive', ['A..C'], `Orders/any(o: (o/Status ge 'A' and o/Status le 'C'))`],
+      ['IN', ['Open', 'Closed'], `Orders/any(o: (o/Status eq 'Open' or o/Status eq 'Closed'))`],
+      ['NOT_IN', ['Open', 'Closed'], `Orders/any(o: (o/Status ne 'Open' and o/Status ne 'Closed'))`],
+    ])('should return a query with the "%s" operator applied to each collection item with the OData v2 syntax', (operator, searchTerms, filter) => {
+      const mockColumnFilters = {
+        status: { columnId: 'status', columnDef: mockColumnStatus, searchTerms, operator, type: 'string' },
+      } as ColumnFilters;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilters(mockColumnFilters, false);
+      const query = service.buildQuery();
+
+      expect(query).toBe(`$top=10&$filter=(${filter})`);
+    });
+
+    it('should return a query with the "in" operator of OData v4 for the IN and NOT_IN operators of a multiple select filter', () => {
+      const expectation = `$top=10&$filter=(Orders/any(o: o/Status in ('Open','Closed')) and Tags/all(tag: not (tag in ('a','b'))))`;
+      serviceOptions.version = 4;
+      mockColumnStatus.filter!.operator = 'IN';
+      const mockColumnFilters = {
+        status: { columnId: 'status', columnDef: mockColumnStatus, searchTerms: ['Open', 'Closed'], type: 'string' },
+        tags: { columnId: 'tags', columnDef: mockColumnTags, searchTerms: ['a', 'b'], operator: 'NOT_IN', type: 'string' },
+      } as ColumnFilters;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilters(mockColumnFilters, false);
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should apply the lambda to the Filter Expression conditions and let the "filterQueryOverride" override the entire lambda query', () => {
+      const expectation = `$top=10&$filter=(Orders/any(o: contains(o/Status, 'pen')) and custom(Tags))`;
+      serviceOptions.version = 4;
+      serviceOptions.filterQueryOverride = ({ fieldName, columnDef }) => (columnDef?.id === 'tags' ? `custom(${fieldName})` : undefined);
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilterExpression({
+        logic: 'and',
+        conditions: [
+          { columnId: 'status', operator: 'Contains', searchTerms: ['pen'] },
+          { columnId: 'tags', operator: 'EQ', searchTerms: ['a'] },
+        ],
+      });
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should throw when the lambda "collectionPath" is not the start of the filter query field', () => {
+      mockColumnStatus.filter!.lambda = { collectionPath: 'order' };
+      const mockColumnFilters = {
+        status: { columnId: 'status', columnDef: mockColumnStatus, searchTerms: ['Open'], operator: 'EQ', type: 'string' },
+      } as ColumnFilters;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      expect(() => service.updateFilters(mockColumnFilters, false)).toThrow('the filter lambda "collectionPath" must be the start of the filter query field');
+    });
+  });
+
+  describe('updateFilterExpression method', () => {
+    beforeEach(() => {
+      const columns = [
+        { id: 'company', field: 'company' },
+        { id: 'gender', field: 'gender' },
+        { id: 'age', field: 'age', type: 'number' },
+        { id: 'name', field: 'name', queryField: 'fullName' },
+      ];
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue(columns);
+    });
+
+    it('should return a query with the conditions joined by "or" when using an "or" logic', () => {
+      const expectation = `$top=10&$filter=(Gender eq 'female' or Age gt 40)`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilterExpression({
+        logic: 'or',
+        conditions: [
+          { columnId: 'gender', operator: 'EQ', searchTerms: ['female'] },
+          { columnId: 'age', operator: '>', searchTerms: [40] },
+        ],
+      });
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with nested groups, negated groups and skip any invalid conditions', () => {
+      const expectation = `$top=10&$filter=(substringof('abc', Company) or not (FullName eq 'John' and (Age ge 5 and Age le 10)))`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilterExpression({
+        logic: 'or',
+        conditions: [
+          { columnId: 'company', searchTerms: ['abc'] },
+          { columnId: 'unknown', operator: 'EQ', searchTerms: ['abc'] },
+          {
+            logic: 'and',
+            not: true,
+            conditions: [
+              { columnId: 'name', operator: 'EQ', searchTerms: ['John'] },
+              { columnId: 'age', operator: 'RangeInclusive', searchTerms: [5, 10] },
+              { columnId: 'gender', operator: 'EQ', searchTerms: [] },
+            ],
+          },
+        ],
+      });
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with the Filter Expression combined with the column filters by an "and" when using OData version 4', () => {
+      const expectation = `$top=10&$filter=(contains(Company, 'abc')) and (Gender eq 'male' or (Age lt 5 and FullName in ('John','Jane')))`;
+      const mockColumn = { id: 'company', field: 'company' } as Column;
+      const mockColumnFilters = {
+        company: { columnId: 'company', columnDef: mockColumn, searchTerms: ['abc'], operator: 'Contains', type: 'string' },
+      } as ColumnFilters;
+
+      service.init(
+        {
+          ...serviceOptions,
+          version: 4,
+          filterQueryOverride: ({ fieldName, operator, searchValues }) => (operator === 'IN' ? `${fieldName} in (${searchValues.join(',')})` : undefined),
+        },
+        paginationOptions,
+        gridStub
+      );
+      service.updateFilters(mockColumnFilters, false);
+      service.updateFilterExpression({
+        logic: 'or',
+        conditions: [
+          { columnId: 'gender', operator: 'EQ', searchTerms: ['male'] },
+          {
+            logic: 'and',
+            conditions: [
+              { columnId: 'age', operator: '<', searchTerms: [5] },
+              { columnId: 'name', operator: 'IN', searchTerms: ['John', 'Jane'] },
+            ],
+          },
+        ],
+      });
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query without any Filter Expression when it is removed', () => {
+      const expectation = `$top=10`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateFilterExpression({ logic: 'and', conditions: [{ columnId: 'gender', operator: 'EQ', searchTerms: ['male'] }] });
+      service.updateFilterExpression(null);
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+  });
+
+  describe('updateGlobalSearch method', () => {
+    beforeEach(() => {
+      const columns = [
+        { id: 'company', field: 'company' },
+        { id: 'gender', field: 'gender', type: 'string' },
+        { id: 'age', field: 'age', type: 'number' },
+        { id: 'name', field: 'name', queryField: 'fullName' },
+      ];
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue(columns);
+    });
+
+    it('should return a query with a case insensitive "substringof" on every string columns when using OData version 2', () => {
+      const expectation = `$top=10&$filter=(substringof('jo%20hn', tolower(Company)) or substringof('jo%20hn', tolower(Gender)) or substringof('jo%20hn', tolower(FullName)))`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateGlobalSearch({ searchTerm: 'Jo hn' });
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with a case sensitive "contains" on the provided column IDs when using OData version 4', () => {
+      const expectation = `$top=10&$filter=(contains(Company, 'John') or contains(FullName, 'John'))`;
+
+      service.init({ ...serviceOptions, version: 4 }, paginationOptions, gridStub);
+      service.updateGlobalSearch({ searchTerm: 'John', options: { caseSensitive: true, columnIds: ['company', 'age', 'name'] } });
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with the Global Search combined with the column filters by an "and"', () => {
+      const expectation = `$top=10&$filter=(Gender eq 'female') and (contains(tolower(Company), 'abc'))`;
+      const mockColumn = { id: 'gender', field: 'gender' } as Column;
+      const mockColumnFilters = {
+        gender: { columnId: 'gender', columnDef: mockColumn, searchTerms: ['female'], operator: 'EQ', type: 'string' },
+      } as ColumnFilters;
+
+      service.init({ ...serviceOptions, version: 4 }, paginationOptions, gridStub);
+      service.updateFilters(mockColumnFilters, false);
+      service.updateGlobalSearch({ searchTerm: 'abc', options: { columnIds: ['company'] } });
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with $search when "globalSearchStrategy" is set to "search"', () => {
+      const expectation = `$top=10&$search=%22John%20%5C%22Doe%5C%22%22`;
+
+      service.init({ ...serviceOptions, version: 4, globalSearchStrategy: 'search' }, paginationOptions, gridStub);
+      service.updateGlobalSearch({ searchTerm: 'John "Doe"' });
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should reset the pagination and return a query without any Global Search when the search term is empty', () => {
+      const expectation = `$top=10`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updatePagination(3, 10);
+      service.updateGlobalSearch({ searchTerm: 'John' });
+      service.updateGlobalSearch(null);
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+  });
+
   describe('updateSorters method', () => {
     beforeEach(() => {
       const columns = [
@@ -2251,4 +2510,182 @@ describe('GridOdataService', () => {
       expect(processResult.value[0].complex_obj.fld1).toBe('val1');
     });
   });
+
+  describe('server-side grouping', () => {
+    let columns: Column[];
+
+    beforeEach(() => {
+      columns = [
+        { id: 'gender', field: 'gender' },
+        { id: 'company', field: 'company', queryField: 'company/name' },
+        { id: 'age', field: 'age', type: 'number' },
+        { id: 'cost', field: 'cost', type: 'number' },
+      ];
+      vi.spyOn(gridStub, 'getColumns').mockReturnValue(columns);
+      serviceOptions.enableCount = true;
+      serviceOptions.version = 4;
+    });
+
+    it('should return a query of the groups of the 1st grouping level with their totals and the pagination when the grouping is updated', () => {
+      const expectation =
+        `$count=true&$top=10&$orderby=Gender desc&$apply=filter((Age gt 30))/groupby((Gender),aggregate($count as groupCount,` +
+        `Cost with sum as sum_Cost,Age with average as avg_Age))`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updatePagination(3, 10);
+      service.updateFilterExpression({ logic: 'and', conditions: [{ columnId: 'age', operator: '>', searchTerms: [30] }] });
+      service.updateGrouping([
+        {
+          columnDef: columns[0],
+          aggregators: [
+            { type: 'sum', field: 'cost' },
+            { type: 'avg', field: 'age' },
+            { type: 'count', field: 'age' },
+            { type: 'median', field: 'age' },
+          ] as any[],
+          sortAsc: false,
+        },
+      ]);
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should use the grouping query when processing a sorting change and go back to the regular query when the grouping is removed', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateGrouping([{ columnDef: columns[0], aggregators: [], sortAsc: true }]);
+
+      const query = service.processOnSortChanged(undefined, { multiColumnSort: false, sortCol: columns[2], sortAsc: true, grid: gridStub });
+      expect(query).toBe('$count=true&$top=10&$orderby=Gender asc&$apply=groupby((Gender),aggregate($count as groupCount))');
+
+      service.updateGrouping([]);
+      expect(service.buildQuery()).toBe('$count=true&$top=10&$orderby=Age asc');
+    });
+
+    it('should return a query of the sub-groups of a group, filtered by the group value and without any pagination', () => {
+      const expectation =
+        `$orderby=Company/name asc&$apply=filter((Gender eq 'o''neil'))/groupby((Gender,Company/name),aggregate($count as groupCount,` +
+        `Cost with max as max_Cost))`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateGrouping([
+        { columnDef: columns[0], aggregators: [] },
+        { columnDef: columns[1], aggregators: [{ type: 'max', field: 'cost' }] as any[] },
+      ]);
+      const query = service.buildGroupChildrenQuery([`o'neil`]);
+
+      expect(query).toBe(expectation);
+      expect(service.buildQuery()).toContain('$count=true&$top=10&'); // the service options are not modified
+    });
+
+    it('should return the regular query of the items of a group of the last grouping level, filtered by all the group values', () => {
+      const expectation = `$orderby=Age asc&$filter=(Gender eq null and Company/name eq 'Acme' and Age eq 25)`;
+
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateSorters([{ columnId: 'age', sortCol: columns[2], sortAsc: true }]);
+      service.updateGrouping([
+        { columnDef: columns[0], aggregators: [] },
+        { columnDef: columns[1], aggregators: [] },
+        { columnDef: columns[2], aggregators: [] },
+      ]);
+      const query = service.buildGroupChildrenQuery([null, 'Acme', 25]);
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should throw when using server-side grouping with an OData version lower than 4', () => {
+      serviceOptions.version = 2;
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateGrouping([{ columnDef: columns[0], aggregators: [] }]);
+
+      expect(() => service.buildQuery()).toThrow('Server-side grouping requires OData v4');
+    });
+
+    it('should extract the groups with their value, count and totals from the "$apply" result', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateGrouping([
+        { columnDef: columns[0], aggregators: [] },
+        {
+          columnDef: columns[1],
+          aggregators: [
+            { type: 'sum', field: 'cost' },
+            { type: 'count', field: 'cost' },
+          ] as any[],
+        },
+      ]);
+
+      const output = service.getGroupsFromProcessResult(
+        {
+          '@odata.count': 2,
+          value: [
+            { Gender: 'male', Company: { name: 'Acme' }, groupCount: 3, sum_Cost: 120 },
+            { Gender: 'male', Company: null, groupCount: 1, sum_Cost: 5 },
+          ],
+        },
+        1
+      );
+
+      expect(output).toEqual({
+        groups: [
+          { value: 'Acme', count: 3, totals: { sum: { cost: 120 }, count: { cost: 3 } } },
+          { value: null, count: 1, totals: { sum: { cost: 5 }, count: { cost: 1 } } },
+        ],
+        totalItems: 2,
+      });
+      expect(service.getGroupsFromProcessResult({ value: [{ Gender: 'male' }] }, 2)).toEqual({ groups: [], totalItems: undefined });
+    });
+  });
+
+  describe('getDatasetFromProcessResult method', () => {
+    it('should extract the dataset and the count from "d.results" and "d.__count" when oData version is not specified', () => {
+      serviceOptions.enableCount = true;
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      const output = service.getDatasetFromProcessResult({ d: { __count: 20, results: [{ id: 1 }] } });
+
+      expect(output).toEqual({ dataset: [{ id: 1 }], totalItems: 20 });
+    });
+
+    it('should extract the dataset and the count from "results" and "__count" when oData version is 3', () => {
+      serviceOptions.enableCount = true;
+      serviceOptions.version = 3;
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      const output = service.getDatasetFromProcessResult({ __count: 20, results: [{ id: 1 }] });
+
+      expect(output).toEqual({ dataset: [{ id: 1 }], totalItems: 20 });
+    });
+
+    it('should extract the dataset and the count from "value" and "@odata.count" when oData version is 4', () => {
+      serviceOptions.enableCount = true;
+      serviceOptions.version = 4;
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      const output = service.getDatasetFromProcessResult({ '@odata.count': 20, value: [{ id: 1 }] });
+
+      expect(output).toEqual({ dataset: [{ id: 1 }], totalItems: 20 });
+    });
+
+    it('should use the custom "countExtractor" and "datasetExtractor" when defined', () => {
+      serviceOptions.enableCount = true;
+      serviceOptions.version = 4;
+      serviceOptions.countExtractor = (r: any) => r.total;
+      serviceOptions.datasetExtractor = (r: any) => r.items;
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      const output = service.getDatasetFromProcessResult({ total: 20, items: [{ id: 1 }] });
+
+      expect(output).toEqual({ dataset: [{ id: 1 }], totalItems: 20 });
+    });
+
+    it('should return an undefined count when "enableCount" is disabled and an empty dataset when the result is invalid', () => {
+      serviceOptions.enableCount = false;
+      serviceOptions.version = 4;
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      const output = service.getDatasetFromProcessResult({ '@odata.count': 20 });
+
+      expect(output).toEqual({ dataset: [], totalItems: undefined });
+    });
+  });
 });
@@ -1,3 +1,4 @@
+import type { FilterExpressionCondition } from '@slickgrid-universal/common';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { OdataQueryBuilderService } from '../odataQueryBuilder.service.js';
 
@@ -100,6 +101,76 @@ describe('OdataService', () => {
       expect(filterCount).toBe(2);
     });
 
+    it('should return a query with the Global Search filter combined with the column filters when "globalSearchFilter" is provided', () => {
+      const expectation = `$top=10&$filter=(FirstName eq 'John' or FirstName eq 'Jane') and (contains(LastName, 'doe'))`;
+
+      service.options = {
+        top: 10,
+        filterBy: [`FirstName eq 'John'`, `FirstName eq 'Jane'`],
+        filterBySeparator: 'or',
+        globalSearchFilter: `contains(LastName, 'doe')`,
+      };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+      expect(service.options.filter).toBe(`(FirstName eq 'John' or FirstName eq 'Jane')`);
+    });
+
+    it('should wrap the column filters with parentheses before combining them with the Global Search when the "or" separated filters are already wrapped', () => {
+      const expectation = `$top=10&$filter=((FirstName eq 'John') or (FirstName eq 'Jane')) and (contains(LastName, 'doe'))`;
+
+      service.options = {
+        top: 10,
+        filterBy: [`(FirstName eq 'John')`, `(FirstName eq 'Jane')`],
+        filterBySeparator: 'or',
+        globalSearchFilter: `contains(LastName, 'doe')`,
+      };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with only the Global Search filter when "globalSearchFilter" is provided without any column filters', () => {
+      const expectation = `$top=10&$filter=(contains(LastName, 'doe'))`;
+
+      service.options = { top: 10, globalSearchFilter: `contains(LastName, 'doe')` };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with the Filter Expression combined with the column filters when "filterExpression" is provided', () => {
+      const expectation = `$top=10&$filter=(FirstName eq 'John') and (Age gt 5 or not (LastName eq 'Doe'))`;
+
+      service.options = { top: 10, filter: `FirstName eq 'John'`, filterExpression: `(Age gt 5 or not (LastName eq 'Doe'))` };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should wrap the column filters and the Filter Expression with parentheses when they are "or" separated queries already wrapped', () => {
+      const expectation = `$top=10&$filter=((FirstName eq 'John') or (FirstName eq 'Jane')) and ((Age gt 5) or (Name eq 'a)b'))`;
+
+      service.options = {
+        top: 10,
+        filterBy: [`(FirstName eq 'John')`, `(FirstName eq 'Jane')`],
+        filterBySeparator: 'or',
+        filterExpression: `(Age gt 5) or (Name eq 'a)b')`,
+      };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with $search when "search" is provided', () => {
+      const expectation = `$top=10&$filter=(FirstName eq 'John')&$search=doe`;
+
+      service.options = { top: 10, filter: `FirstName eq 'John'`, search: 'doe' };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
     describe('enableSelect and enableExpand flags', () => {
       it('should return a query with $select when "enableSelect" is set', () => {
         service.columns = [
@@ -204,6 +275,84 @@ describe('OdataService', () => {
     });
   });
 
+  describe('apply option', () => {
+    it('should return a query with the "$apply" transformations and the filters applied before them instead of "$filter"', () => {
+      const expectation = `$count=true&$top=10&$orderby=Company asc&$apply=filter((Gender eq 'male'))/groupby((Company),aggregate($count as groupCount))`;
+
+      service.options = {
+        enableCount: true,
+        version: 4,
+        top: 10,
+        orderBy: 'Company asc',
+        filter: `Gender eq 'male'`,
+        apply: 'groupby((Company),aggregate($count as groupCount))',
+      };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with the "search" applied as the first "$apply" transformation instead of a separate "$search"', () => {
+      const expectation = `$top=10&$apply=search(doe)/filter((Gender eq 'male'))/groupby((Company),aggregate($count as groupCount))`;
+
+      service.options = {
+        top: 10,
+        filter: `Gender eq 'male'`,
+        search: 'doe',
+        apply: 'groupby((Company),aggregate($count as groupCount))',
+      };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+
+    it('should return a query with only the "$apply" transformations when there are no filters and never add "$select" neither "$expand"', () => {
+      const expectation = '$apply=groupby((Company))';
+
+      service.columns = [{ id: 'company', field: 'company' }];
+      service.options = { enableSelect: true, enableExpand: true, version: 4, apply: 'groupby((Company))' };
+      const query = service.buildQuery();
+
+      expect(query).toBe(expectation);
+    });
+  });
+
+  describe('buildFilterExpressionQuery method', () => {
+    const conditionQueryBuilder = (condition: FilterExpressionCondition) =>
+      condition.searchTerms.length ? `${condition.columnId} eq ${condition.searchTerms[0]}` : '';
+
+    it('should return an empty string when the group has no valid conditions', () => {
+      const output = service.buildFilterExpressionQuery({ logic: 'and', conditions: [{ columnId: 'A', searchTerms: [] }] }, conditionQueryBuilder);
+      expect(output).toBe('');
+    });
+
+    it('should return the condition without parentheses when the group has a single condition', () => {
+      const output = service.buildFilterExpressionQuery({ logic: 'and', conditions: [{ columnId: 'A', searchTerms: [1] }] }, conditionQueryBuilder);
+      expect(output).toBe('A eq 1');
+    });
+
+    it('should return nested conditions wrapped with parentheses and prefixed with "not" when the group is negated', () => {
+      const output = service.buildFilterExpressionQuery(
+        {
+          logic: 'or',
+          conditions: [
+            { columnId: 'A', searchTerms: [1] },
+            {
+              logic: 'and',
+              not: true,
+              conditions: [
+                { columnId: 'B', searchTerms: [2] },
+                { columnId: 'C', searchTerms: [3] },
+              ],
+            },
+          ],
+        },
+        conditionQueryBuilder
+      );
+      expect(output).toBe('(A eq 1 or not (B eq 2 and C eq 3))');
+    });
+  });
+
   describe('saveColumnFilter method', () => {
     it('should return "columnFilters" object with multiple properties as the filter names', () => {
       service.saveColumnFilter('FirstName', 'John', ['John']);
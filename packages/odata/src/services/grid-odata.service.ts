@@ -1,13 +1,20 @@
 import type {
   BackendService,
+  BackendServiceDatasetResult,
+  BackendServiceGroupBy,
+  BackendServiceGroupsResult,
   Column,
   ColumnFilter,
   ColumnFilters,
   ColumnSort,
   CurrentFilter,
+  CurrentGlobalSearch,
   CurrentPagination,
   CurrentSorter,
   FilterChangedArgs,
+  FilterExpressionCondition,
+  FilterExpressionGroup,
+  FilterLambdaOption,
   GridOption,
   InfiniteScrollOption,
   MultiColumnSort,
@@ -26,6 +33,16 @@ import { OdataQueryBuilderService } from './odataQueryBuilder.service.js';
 
 const DEFAULT_ITEMS_PER_PAGE = 25;
 const DEFAULT_PAGE_SIZE = 20;
+const GROUP_COUNT_ALIAS = 'groupCount';
+
+/** OData v4 aggregation methods of the Aggregators that can be calculated by the server, the "count" Aggregator is the group count */
+const ODATA_AGGREGATE_METHODS: Record<string, string> = {
+  avg: 'average',
+  countDistinct: 'countdistinct',
+  max: 'max',
+  min: 'min',
+  sum: 'sum',
+};
 
 export class GridOdataService implements BackendService {
   protected _currentFilters: CurrentFilter[] = [];
@@ -33,6 +50,7 @@ export class GridOdataService implements BackendService {
   protected _currentSorters: CurrentSorter[] = [];
   protected _columns: Column[] = [];
   protected _grid: SlickGrid | undefined;
+  protected _groupBy: BackendServiceGroupBy[] = [];
   protected _odataService: OdataQueryBuilderService;
   options?: Partial<OdataOption>;
   pagination: Pagination | undefined;
@@ -93,9 +111,22 @@ export class GridOdataService implements BackendService {
   }
 
   buildQuery(): string {
+    // with server-side grouping, the query returns the groups of the 1st grouping level instead of the items
+    if (this._groupBy.length) {
+      return this.buildGroupingQuery([]);
+    }
     return this._odataService.buildQuery();
   }
 
+  /**
+   * Build the query of the children of a group (server-side grouping), which are the sub-groups of the next grouping level or the items when it is the last grouping level.
+   * The children are filtered by the group values, e.g.: $apply=filter(Gender eq 'male')/groupby((Gender,Company),aggregate($count as groupCount))
+   * @param {Array<*>} groupValues - values of the group and of all of its parent groups
+   */
+  buildGroupChildrenQuery(groupValues: any[]): string {
+    return this.buildGroupingQuery(groupValues);
+  }
+
   postProcess(processResult: any): void {
     const odataVersion = this._odataService.options.version ?? 2;
 
@@ -155,6 +186,63 @@ export class GridOdataService implements BackendService {
     }
   }
 
+  /** Extract the dataset and the total item count (when `enableCount` is enabled) from the OData result */
+  getDatasetFromProcessResult(processResult: any): BackendServiceDatasetResult {
+    const odataVersion = this._odataService.options.version ?? 2;
+    const countExtractor =
+      this._odataService.options.countExtractor ??
+      (odataVersion >= 4
+        ? (r: any) => r?.['@odata.count']
+        : odataVersion === 3
+          ? (r: any) => r?.['__count']
+          : (r: any) => r?.d?.['__count']);
+    const datasetExtractor =
+      this._odataService.options.datasetExtractor ??
+      (odataVersion >= 4 ? (r: any) => r?.value : odataVersion === 3 ? (r: any) => r?.results : (r: any) => r?.d?.results);
+    const dataset: any = datasetExtractor(processResult);
+    const count = this._odataService.options.enableCount ? countExtractor(processResult) : undefined;
+
+    return {
+      dataset: Array.isArray(dataset) ? dataset : [],
+      totalItems: typeof count === 'number' ? count : undefined,
+    };
+  }
+
+  /**
+   * Extract the groups of a grouping level (server-side grouping) from the OData `$apply` result,
+   * every group row has the grouped properties, the group count and an alias for each aggregator (e.g. `sum_Cost`) which are returned as the group totals.
+   * @param {*} processResult - OData result
+   * @param {Number} level - grouping level of the groups
+   */
+  getGroupsFromProcessResult(processResult: any, level: number): BackendServiceGroupsResult {
+    const { dataset, totalItems } = this.getDatasetFromProcessResult(processResult);
+    const groupBy = this._groupBy[level];
+    if (!groupBy) {
+      return { groups: [], totalItems };
+    }
+    const groupFieldPath = this.getGroupingFieldName(groupBy.columnDef).split('/');
+
+    const groups = dataset.map((row) => {
+      const totals: any = {};
+      for (const aggregator of groupBy.aggregators) {
+        const aggregateAlias = this.getAggregateAlias(aggregator.type, aggregator.field);
+        const value = aggregator.type === 'count' ? row[GROUP_COUNT_ALIAS] : row[aggregateAlias];
+        if (value !== undefined) {
+          totals[aggregator.type] ??= {};
+          totals[aggregator.type][aggregator.field] = value;
+        }
+      }
+      return {
+        // grouping by a navigation property returns the value inside its navigation object, e.g.: { Company: { Name: 'Acme' } }
+        value: groupFieldPath.reduce((obj, prop) => obj?.[prop], row) ?? null,
+        count: +(row[GROUP_COUNT_ALIAS] ?? 0),
+        totals,
+      };
+    });
+
+    return { groups, totalItems };
+  }
+
   clearFilters(): void {
     this._currentFilters = [];
     this.updateFilters([]);
@@ -258,7 +346,7 @@ export class GridOdataService implements BackendService {
     this.updateFilters(args.columnFilters);
 
     this.resetPaginationOptions();
-    return this._odataService.buildQuery();
+    return this.buildQuery();
   }
 
   /*
@@ -273,7 +361,7 @@ export class GridOdataService implements BackendService {
     this.updatePagination(args.newPage, pageSize);
 
     // build the OData query which we will use in the WebAPI callback
-    return this._odataService.buildQuery();
+    return this.buildQuery();
   }
 
   /*
@@ -297,7 +385,7 @@ export class GridOdataService implements BackendService {
     }
 
     // build the OData query which we will use in the WebAPI callback
-    return this._odataService.buildQuery();
+    return this.buildQuery();
   }
 
   /**
@@ -447,85 +535,17 @@ export class GridOdataService implements BackendService {
             });
           }
 
-          searchBy = '';
-
           // titleCase the fieldName so that it matches the WebApi names
           if (this._odataService.options.caseType === 'pascalCase') {
             fieldName = titleCase(getHtmlStringOutput(fieldName || ''));
           }
 
-          let filterQueryOverride: string | undefined = undefined;
-          if (typeof this._odataService.options.filterQueryOverride === 'function') {
-            filterQueryOverride = this._odataService.options.filterQueryOverride({
-              fieldName: getHtmlStringOutput(fieldName),
-              columnDef,
-              operator,
-              columnFilterOperator: columnFilter.operator,
-              searchValues: searchTerms,
-              grid: this._grid,
-            });
-          }
-
-          if (filterQueryOverride !== undefined) {
-            searchBy = filterQueryOverride;
-          } else if (operator === 'StartsWithEndsWith' && Array.isArray(searchTerms) && searchTerms.length === 2) {
-            const tmpSearchTerms: string[] = [];
-            const [sw, ew] = searchTerms;
-
-            // add 2 conditions (StartsWith A + EndsWith B) to the search array
-            tmpSearchTerms.push(`startswith(${fieldName}, ${sw})`);
-            tmpSearchTerms.push(`endswith(${fieldName}, ${ew})`);
-            searchBy = tmpSearchTerms.join(' and ');
-          } else if (
-            searchTerms?.length > 1 &&
-            (operator === 'IN' || operator === 'NIN' || operator === 'NOTIN' || operator === 'NOT IN' || operator === 'NOT_IN')
-          ) {
-            // when having more than 1 search term (then check if we have a "IN" or "NOT IN" filter search)
-            const tmpSearchTerms: string[] = [];
-            if (operator === 'IN') {
-              // example:: (Stage eq "Expired" or Stage eq "Renewal")
-              for (let j = 0, lnj = searchTerms.length; j < lnj; j++) {
-                tmpSearchTerms.push(`${fieldName} eq ${searchTerms[j]}`);
-              }
-              searchBy = tmpSearchTerms.join(' or ');
-            } else {
-              // example:: (Stage ne "Expired" and Stage ne "Renewal")
-              for (let k = 0, lnk = searchTerms.length; k < lnk; k++) {
-                tmpSearchTerms.push(`${fieldName} ne ${searchTerms[k]}`);
-              }
-              searchBy = tmpSearchTerms.join(' and ');
-            }
-            if (!(typeof searchBy === 'string' && searchBy[0] === '(' && searchBy.slice(-1) === ')')) {
-              searchBy = `(${searchBy})`;
-            }
-          } else if (
-            operator === '*' ||
-            operator === 'a*' ||
-            operator === '*z' ||
-            lastValueChar === '*' ||
-            operator === 'StartsWith' ||
-            operator === 'EndsWith'
-          ) {
-            // first/last character is a '*' will be a startsWith or endsWith
-            searchBy =
-              operator === '*' || operator === '*z' || operator === 'EndsWith'
-                ? `endswith(${fieldName}, ${searchValue})`
-                : `startswith(${fieldName}, ${searchValue})`;
-          } else if (operator === 'RangeExclusive' || operator === 'RangeInclusive') {
-            // example:: (Name >= 'Bob' and Name <= 'Jane')
-            searchBy = this.filterBySearchTermRange(getHtmlStringOutput(fieldName), operator, searchTerms);
-          } else if (
-            (operator === '' || operator === 'Contains' || operator === 'Not_Contains') &&
-            (fieldType === 'string' || fieldType === 'text' || fieldType === 'readonly')
-          ) {
-            searchBy = odataVersion >= 4 ? `contains(${fieldName}, ${searchValue})` : `substringof(${searchValue}, ${fieldName})`;
-            if (operator === 'Not_Contains') {
-              searchBy = `not ${searchBy}`;
-            }
-          } else {
-            // any other field type (or undefined type)
-            searchBy = `${fieldName} ${this.mapOdataOperator(operator)} ${searchValue}`;
-          }
+          searchBy = this.buildFilterQueryByOperator(getHtmlStringOutput(fieldName), fieldType, operator, searchValue, searchTerms, {
+            columnDef,
+            columnFilterOperator: columnFilter.operator,
+            lastValueChar,
+            odataVersion,
+          });
 
           // push to our temp array and also trim white spaces
           if (searchBy !== '') {
@@ -543,6 +563,56 @@ export class GridOdataService implements BackendService {
     });
   }
 
+  /**
+   * Update the Filter Expression (nested AND/OR/NOT groups of conditions), it will be combined with the column filters when building the query.
+   * e.g.: { logic: 'or', conditions: [A, { logic: 'and', not: true, conditions: [B, C] }] } will be translated to "(A or not (B and C))"
+   * @param {FilterExpressionGroup | null} filterExpression - root group of the filter expression, provide `null` to remove it
+   */
+  updateFilterExpression(filterExpression: FilterExpressionGroup | null): void {
+    const filterExpressionQuery = filterExpression
+      ? this._odataService.buildFilterExpressionQuery(filterExpression, (condition) => this.buildFilterExpressionConditionQuery(condition))
+      : '';
+
+    // update the service options with the filter expression for the buildQuery() to work later
+    this._odataService.updateOptions({ filterExpression: filterExpressionQuery, skip: undefined });
+  }
+
+  /**
+   * Update the Global Search (quick search across all columns), it will be combined with the column filters when building the query.
+   * Depending on the `globalSearchStrategy` option, it will use either an "or" of `contains()` conditions on every string column or the `$search` query option.
+   * @param {CurrentGlobalSearch | null} globalSearch - the Global Search to apply, provide `null` (or an empty search term) to remove it
+   */
+  updateGlobalSearch(globalSearch: CurrentGlobalSearch | null): void {
+    const searchTerm = globalSearch?.searchTerm ?? '';
+    let globalSearchFilter = '';
+    let search = '';
+
+    if (searchTerm !== '') {
+      if (this._odataService.options.globalSearchStrategy === 'search') {
+        // phrase search with double quotes, any double quote in the search term must be escaped
+        search = encodeURIComponent(`"${searchTerm.replace(/"/g, '\\"')}"`);
+      } else {
+        globalSearchFilter = this.buildGlobalSearchFilter(
+          searchTerm,
+          globalSearch?.options?.columnIds,
+          globalSearch?.options?.caseSensitive
+        );
+      }
+    }
+
+    // update the service options with the global search for the buildQuery() to work later
+    this._odataService.updateOptions({ globalSearchFilter, search, skip: undefined });
+  }
+
+  /**
+   * Update the server-side grouping, the query will then use the OData v4 `$apply` to query the groups of the 1st grouping level with their totals
+   * @param {BackendServiceGroupBy[]} groupBy - grouped column, aggregators and sort direction of every grouping level, an empty array will remove the grouping
+   */
+  updateGrouping(groupBy: BackendServiceGroupBy[]): void {
+    this._groupBy = groupBy;
+    this.resetPaginationOptions();
+  }
+
   /**
    * Update the pagination component with it's new page number and size
    * @param newPage
@@ -655,12 +725,293 @@ export class GridOdataService implements BackendService {
     this._currentSorters = currentSorters;
 
     // build the OData query which we will use in the WebAPI callback
-    return this._odataService.buildQuery();
+    return this.buildQuery();
   }
 
   //
   // protected functions
   // -------------------
+  /**
+   * Build the server-side grouping query of a grouping level, the level is defined by the number of group values (an empty array is the 1st level),
+   * only the 1st level is paginated and the last level (when all group values are provided) is the regular query of the group items.
+   * @param {Array<*>} groupValues - values of the parent groups, used to filter the query
+   */
+  protected buildGroupingQuery(groupValues: any[]): string {
+    const originalOptions = this._odataService.options;
+    const odataVersion = originalOptions.version ?? 2;
+    if (odataVersion < 4) {
+      throw new Error('[Slickgrid-Universal] Server-side grouping requires OData v4 (or higher) since it uses the "$apply" query option.');
+    }
+
+    const level = groupValues.length;
+    const groupFilter = groupValues
+      .map((groupValue, idx) => {
+        const columnDef = this._groupBy[idx].columnDef;
+        const value =
+          groupValue === null || groupValue === undefined
+            ? 'null'
+            : this.normalizeSearchValue(columnDef.type || 'string', groupValue, odataVersion);
+        return `${this.getGroupingFieldName(columnDef)} eq ${value}`;
+      })
+      .join(' and ');
+
+    const overrides: Partial<OdataOption> = {};
+    if (groupFilter) {
+      overrides.filterExpression = originalOptions.filterExpression
+        ? `(${originalOptions.filterExpression}) and ${groupFilter}`
+        : groupFilter;
+    }
+    if (level > 0) {
+      // only the groups of the 1st grouping level are paginated, the group children are all loaded at once
+      overrides.enableCount = false;
+      overrides.skip = undefined;
+      overrides.top = undefined;
+    }
+    if (level < this._groupBy.length) {
+      const groupBy = this._groupBy[level];
+      const groupFields = this._groupBy.slice(0, level + 1).map((g) => this.getGroupingFieldName(g.columnDef));
+      const aggregates = [`$count as ${GROUP_COUNT_ALIAS}`];
+      for (const aggregator of groupBy.aggregators) {
+        const method = ODATA_AGGREGATE_METHODS[aggregator.type];
+        if (method) {
+          const fieldName = this.getGroupingFieldName(
+            this._columns.find((col) => col.field === aggregator.field) ?? { field: `${aggregator.field}` }
+          );
+          aggregates.push(`${fieldName} with ${method} as ${this.getAggregateAlias(aggregator.type, aggregator.field)}`);
+        }
+      }
+      overrides.apply = `groupby((${groupFields.join(',')}),aggregate(${aggregates.join(',')}))`;
+      overrides.orderBy = `${groupFields[level]} ${groupBy.sortAsc === false ? 'desc' : 'asc'}`;
+    }
+
+    // build the query with a copy of the options, so that the overrides are only used by this query
+    this._odataService.options = { ...originalOptions, ...overrides };
+    try {
+      return this._odataService.buildQuery();
+    } finally {
+      this._odataService.options = originalOptions;
+    }
+  }
+
+  /** Get the alias of an aggregate result, e.g.: "sum_Cost" */
+  protected getAggregateAlias(aggregatorType: string, field: number | string): string {
+    return `${aggregatorType}_${this.getGroupingFieldName({ field: `${field}` }).replace(/\W/g, '_')}`;
+  }
+
+  /** Get the OData property name (or navigation property path) of a grouped or aggregated column */
+  protected getGroupingFieldName(columnDef: Pick<Column, 'field' | 'queryField'>): string {
+    const fieldName = `${columnDef.queryField || columnDef.field}`;
+    return this._odataService.options.caseType === 'pascalCase' ? titleCase(fieldName) : fieldName;
+  }
+
+  /**
+   * Build the OData filter query of a single Filter Expression condition, it will return an empty string when the column is not found or has no search terms
+   * @param {FilterExpressionCondition} condition - filter expression condition
+   */
+  protected buildFilterExpressionConditionQuery(condition: FilterExpressionCondition): string {
+    const columnDef = this._columns.find((col) => col.id === condition.columnId);
+    if (!columnDef || !Array.isArray(condition.searchTerms) || condition.searchTerms.length === 0) {
+      return '';
+    }
+    const odataVersion = this._odataService.options.version ?? 2;
+    const fieldType = columnDef.type || 'string';
+    const operator = condition.operator || columnDef.filter?.operator || mapOperatorByFieldType(fieldType);
+    const searchTerms = condition.searchTerms.map((searchTerm) => this.normalizeSearchValue(fieldType, searchTerm, odataVersion));
+    let fieldName = getHtmlStringOutput(
+      columnDef.filter?.queryField || columnDef.queryFieldFilter || columnDef.queryField || columnDef.field || ''
+    );
+
+    // titleCase the fieldName so that it matches the WebApi names
+    if (this._odataService.options.caseType === 'pascalCase') {
+      fieldName = titleCase(fieldName);
+    }
+
+    return this.buildFilterQueryByOperator(fieldName, fieldType, operator, searchTerms[0], searchTerms, {
+      columnDef,
+      columnFilterOperator: condition.operator,
+      odataVersion,
+    });
+  }
+
+  /**
+   * Build the Global Search filter, which is an "or" of `contains()` (or `substringof()` with OData v2) conditions on every string column
+   * @param {String} searchTerm - Global Search term
+   * @param {Array<String|Number>} [columnIds] - optional list of column IDs to search against, defaults to every column
+   * @param {Boolean} [caseSensitive] - when disabled (default), both the field and the search value are lowercased with `tolower()`
+   */
+  protected buildGlobalSearchFilter(searchTerm: string, columnIds?: Array<number | string>, caseSensitive?: boolean): string {
+    const odataVersion = this._odataService.options.version ?? 2;
+    const columns = Array.isArray(columnIds) ? this._columns.filter((col) => columnIds.includes(col.id)) : this._columns;
+    const searchValue = this.normalizeSearchValue('string', caseSensitive ? searchTerm : searchTerm.toLowerCase(), odataVersion);
+    const searchByArray: string[] = [];
+
+    for (const columnDef of columns) {
+      const fieldType = columnDef.type || 'string';
+      if (columnDef.excludeFromQuery || (fieldType !== 'string' && fieldType !== 'text' && fieldType !== 'readonly')) {
+        continue;
+      }
+      let fieldName = getHtmlStringOutput(
+        columnDef.filter?.queryField || columnDef.queryFieldFilter || columnDef.queryField || columnDef.field || ''
+      );
+      if (fieldName) {
+        // titleCase the fieldName so that it matches the WebApi names
+        if (this._odataService.options.caseType === 'pascalCase') {
+          fieldName = titleCase(fieldName);
+        }
+        const fieldQuery = caseSensitive ? fieldName : `tolower(${fieldName})`;
+        searchByArray.push(odataVersion >= 4 ? `contains(${fieldQuery}, ${searchValue})` : `substringof(${searchValue}, ${fieldQuery})`);
+      }
+    }
+    return searchByArray.join(' or ');
+  }
+
+  /**
+   * Build the OData filter query of a single field by its operator, for example: "contains(Name, 'John')" or "(Duration ge 5 and Duration le 10)"
+   * @param {String} fieldName - field name to query (already cased)
+   * @param {FieldType} fieldType - field type
+   * @param {OperatorType} operator - filter operator
+   * @param {*} searchValue - normalized search value
+   * @param {Array<*>} searchTerms - normalized search terms
+   * @param {Object} args - extra arguments (column definition, column filter operator, last search value char, OData version and if it's the query of a lambda collection item)
+   */
+  protected buildFilterQueryByOperator(
+    fieldName: string,
+    fieldType: FieldType,
+    operator: OperatorType | string,
+    searchValue: any,
+    searchTerms: SearchTerm[],
+    args: { columnDef: Column; columnFilterOperator?: OperatorType; lastValueChar?: string; odataVersion: number; isLambdaItem?: boolean }
+  ): string {
+    const { columnDef, columnFilterOperator, lastValueChar, odataVersion, isLambdaItem } = args;
+    const isInOperator = operator === 'IN';
+    let searchBy = '';
+
+    let filterQueryOverride: string | undefined = undefined;
+    if (typeof this._odataService.options.filterQueryOverride === 'function' && !isLambdaItem) {
+      filterQueryOverride = this._odataService.options.filterQueryOverride({
+        fieldName: getHtmlStringOutput(fieldName),
+        columnDef,
+        operator: operator as OperatorType,
+        columnFilterOperator: columnFilterOperator as OperatorType,
+        searchValues: searchTerms,
+        grid: this._grid,
+      });
+    }
+
+    if (filterQueryOverride !== undefined) {
+      searchBy = filterQueryOverride;
+    } else if (columnDef.filter?.lambda && !isLambdaItem) {
+      // the filter condition is applied to each item of the collection, example:: Orders/any(o: o/Status eq 'Open')
+      const { collectionPath, itemFieldName, lambdaOperator, variable } = this.parseLambdaFieldName(fieldName, columnDef.filter.lambda);
+      const itemQuery = this.buildFilterQueryByOperator(itemFieldName, fieldType, operator, searchValue, searchTerms, {
+        ...args,
+        isLambdaItem: true,
+      });
+      searchBy = itemQuery ? `${collectionPath}/${lambdaOperator}(${variable}: ${itemQuery})` : '';
+    } else if (isLambdaItem && odataVersion >= 4 && searchTerms?.length > 1 && (isInOperator || this.isNotInOperator(operator))) {
+      // OData v4 has an "in" operator, example:: o/Status in ('Expired','Renewal')
+      searchBy = `${fieldName} in (${searchTerms.join(',')})`;
+      if (!isInOperator) {
+        searchBy = `not (${searchBy})`;
+      }
+    } else if (operator === 'StartsWithEndsWith' && Array.isArray(searchTerms) && searchTerms.length === 2) {
+      const tmpSearchTerms: string[] = [];
+      const [sw, ew] = searchTerms;
+
+      // add 2 conditions (StartsWith A + EndsWith B) to the search array
+      tmpSearchTerms.push(`startswith(${fieldName}, ${sw})`);
+      tmpSearchTerms.push(`endswith(${fieldName}, ${ew})`);
+      searchBy = tmpSearchTerms.join(' and ');
+    } else if (searchTerms?.length > 1 && (isInOperator || this.isNotInOperator(operator))) {
+      // when having more than 1 search term (then check if we have a "IN" or "NOT IN" filter search)
+      const tmpSearchTerms: string[] = [];
+      if (isInOperator) {
+        // example:: (Stage eq "Expired" or Stage eq "Renewal")
+        for (let j = 0, lnj = searchTerms.length; j < lnj; j++) {
+          tmpSearchTerms.push(`${fieldName} eq ${searchTerms[j]}`);
+        }
+        searchBy = tmpSearchTerms.join(' or ');
+      } else {
+        // example:: (Stage ne "Expired" and Stage ne "Renewal")
+        for (let k = 0, lnk = searchTerms.length; k < lnk; k++) {
+          tmpSearchTerms.push(`${fieldName} ne ${searchTerms[k]}`);
+        }
+        searchBy = tmpSearchTerms.join(' and ');
+      }
+      if (!(typeof searchBy === 'string' && searchBy[0] === '(' && searchBy.slice(-1) === ')')) {
+        searchBy = `(${searchBy})`;
+      }
+    } else if (
+      operator === '*' ||
+      operator === 'a*' ||
+      operator === '*z' ||
+      lastValueChar === '*' ||
+      operator === 'StartsWith' ||
+      operator === 'EndsWith'
+    ) {
+      // first/last character is a '*' will be a startsWith or endsWith
+      searchBy =
+        operator === '*' || operator === '*z' || operator === 'EndsWith'
+          ? `endswith(${fieldName}, ${searchValue})`
+          : `startswith(${fieldName}, ${searchValue})`;
+    } else if (operator === 'RangeExclusive' || operator === 'RangeInclusive') {
+      // example:: (Name >= 'Bob' and Name <= 'Jane')
+      searchBy = this.filterBySearchTermRange(getHtmlStringOutput(fieldName), operator, searchTerms);
+    } else if (
+      (operator === '' || operator === 'Contains' || operator === 'Not_Contains') &&
+      (fieldType === 'string' || fieldType === 'text' || fieldType === 'readonly')
+    ) {
+      searchBy = odataVersion >= 4 ? `contains(${fieldName}, ${searchValue})` : `substringof(${searchValue}, ${fieldName})`;
+      if (operator === 'Not_Contains') {
+        searchBy = `not ${searchBy}`;
+      }
+    } else {
+      // any other field type (or undefined type)
+      searchBy = `${fieldName} ${this.mapOdataOperator(operator)} ${searchValue}`;
+    }
+    return searchBy;
+  }
+
+  /** Is it a "NOT IN" operator (or any of its aliases)? */
+  protected isNotInOperator(operator: OperatorType | string): boolean {
+    return operator === 'NIN' || operator === 'NOTIN' || operator === 'NOT IN' || operator === 'NOT_IN';
+  }
+
+  /**
+   * Split a (cased) filter query field name of a lambda filter into its collection path and the field name of each collection item,
+   * e.g.: "Orders/status" with a "orders" collection path will return the "Orders" collection with an "o/Status" item field name
+   * @param {String} fieldName - filter query field name (already cased)
+   * @param {FilterLambdaOption} lambda - lambda filter options
+   */
+  protected parseLambdaFieldName(
+    fieldName: string,
+    lambda: FilterLambdaOption
+  ): { collectionPath: string; itemFieldName: string; lambdaOperator: 'any' | 'all'; variable: string } {
+    const pathLength = lambda.collectionPath.length;
+    if (
+      !pathLength ||
+      fieldName.slice(0, pathLength).toLowerCase() !== lambda.collectionPath.toLowerCase() ||
+      (fieldName.length > pathLength && fieldName[pathLength] !== '/')
+    ) {
+      throw new Error(
+        `[GridOData Service]: the filter lambda "collectionPath" must be the start of the filter query field, for example "orders" for the "orders/status" field.`
+      );
+    }
+    const collectionPath = fieldName.slice(0, pathLength);
+    const variable = lambda.variable || (collectionPath.split('/').pop() as string).charAt(0).toLowerCase();
+    let itemPath = fieldName.slice(pathLength + 1);
+    if (itemPath && this._odataService.options.caseType === 'pascalCase') {
+      itemPath = titleCase(itemPath);
+    }
+
+    return {
+      collectionPath,
+      itemFieldName: itemPath ? `${variable}/${itemPath}` : variable,
+      lambdaOperator: lambda.operator === 'all' ? 'all' : 'any',
+      variable,
+    };
+  }
+
   /**
    * Cast provided filters (could be in multiple format) into an array of ColumnFilter
    * @param columnFilters
@@ -1,4 +1,9 @@
-import { type Column } from '@slickgrid-universal/common';
+import {
+  isFilterExpressionGroup,
+  type Column,
+  type FilterExpressionCondition,
+  type FilterExpressionGroup,
+} from '@slickgrid-universal/common';
 import { titleCase } from '@slickgrid-universal/utils';
 import type { OdataOption } from '../interfaces/odataOption.interface.js';
 
@@ -79,13 +84,38 @@ export class OdataQueryBuilderService {
         }
       }
     }
+    let filterQuery = '';
     if (this._odataOptions.filterQueue.length > 0) {
-      const query = this._odataOptions.filterQueue.join(` ${this._odataOptions.filterBySeparator || 'and'} `);
-      this._odataOptions.filter = query; // overwrite with
-      queryTmpArray.push(`$filter=${query}`);
+      filterQuery = this._odataOptions.filterQueue.join(` ${this._odataOptions.filterBySeparator || 'and'} `);
+      this._odataOptions.filter = filterQuery; // overwrite with
+    }
+    if (this._odataOptions.filterExpression) {
+      // the Filter Expression is also combined with the column filters by an "and", e.g.: $filter=(Gender eq 'male') and (Age gt 5 or not (Name eq 'John'))
+      const filterExpressionQuery = this.wrapInParentheses(this._odataOptions.filterExpression);
+      filterQuery = filterQuery ? `${this.wrapInParentheses(filterQuery)} and ${filterExpressionQuery}` : filterExpressionQuery;
+    }
+    if (this._odataOptions.globalSearchFilter) {
+      // the Global Search must always be combined with the column filters by an "and", e.g.: $filter=(Gender eq 'male') and (contains(Name, 'jo'))
+      const globalSearchQuery = `(${this._odataOptions.globalSearchFilter})`;
+      filterQuery = filterQuery ? `${this.wrapInParentheses(filterQuery)} and ${globalSearchQuery}` : globalSearchQuery;
+    }
+    if (this._odataOptions.apply) {
+      // the search & filters must be applied before the aggregation transformations (since $apply is evaluated before any $search),
+      // e.g.: $apply=search(john)/filter(Gender eq 'male')/groupby((Company))
+      const searchTransformation = this._odataOptions.search ? `search(${this._odataOptions.search})/` : '';
+      const filterTransformation = filterQuery ? `filter(${filterQuery})/` : '';
+      queryTmpArray.push(`$apply=${searchTransformation}${filterTransformation}${this._odataOptions.apply}`);
+    } else {
+      if (filterQuery) {
+        queryTmpArray.push(`$filter=${filterQuery}`);
+      }
+      if (this._odataOptions.search) {
+        queryTmpArray.push(`$search=${this._odataOptions.search}`);
+      }
     }
 
-    if (this._odataOptions.enableSelect || this._odataOptions.enableExpand) {
+    // the aggregated result of an $apply only has the grouped properties and the aggregate aliases, so there's nothing to select or expand
+    if ((this._odataOptions.enableSelect || this._odataOptions.enableExpand) && !this._odataOptions.apply) {
       const fields = this._columns.flatMap((x) => x.fields ?? [x.field]);
       fields.unshift(this._datasetIdPropName);
       const selectExpand = this.buildSelectExpand([...new Set(fields)]);
@@ -103,6 +133,38 @@ export class OdataQueryBuilderService {
     return queryTmpArray.join('&');
   }
 
+  /**
+   * Build the OData filter query of a Filter Expression tree, every group conditions are joined by the group logical operator ("and"/"or")
+   * and a negated group is prefixed by "not", nested groups are built by recursion and wrapped with parentheses.
+   * e.g.: { logic: 'or', conditions: [A, { logic: 'and', not: true, conditions: [B, C] }] } will be translated to "(A or not (B and C))"
+   * @param {FilterExpressionGroup} filterGroup - filter expression group
+   * @param {Function} conditionQueryBuilder - callback to build the query of a single condition, an empty string will skip the condition
+   * @returns {String} OData filter query
+   */
+  buildFilterExpressionQuery(
+    filterGroup: FilterExpressionGroup,
+    conditionQueryBuilder: (condition: FilterExpressionCondition) => string
+  ): string {
+    const queries: string[] = [];
+    for (const node of filterGroup.conditions || []) {
+      const query = isFilterExpressionGroup(node)
+        ? this.buildFilterExpressionQuery(node, conditionQueryBuilder)
+        : conditionQueryBuilder(node);
+      if (query) {
+        queries.push(query);
+      }
+    }
+
+    if (queries.length === 0) {
+      return '';
+    }
+    const query = queries.join(` ${filterGroup.logic === 'or' ? 'or' : 'and'} `);
+    if (filterGroup.not) {
+      return `not (${query})`;
+    }
+    return queries.length > 1 ? `(${query})` : query;
+  }
+
   getFilterCount(): number {
     return this._filterCount;
   }
@@ -173,6 +235,33 @@ export class OdataQueryBuilderService {
     }
   }
 
+  /**
+   * Wrap a filter query with parentheses unless the entire query is already wrapped by a single pair of parentheses,
+   * e.g.: "(A) or (B)" becomes "((A) or (B))" while "(A or B)" is returned as is
+   */
+  protected wrapInParentheses(query: string): string {
+    if (query[0] === '(' && query.slice(-1) === ')') {
+      let depth = 0;
+      let isInQuotes = false;
+      for (let i = 0; i < query.length; i++) {
+        // any parenthesis inside a string value (e.g. contains(Name, 'a)b')) is ignored
+        if (query[i] === "'") {
+          isInQuotes = !isInQuotes;
+        } else if (!isInQuotes && query[i] === '(') {
+          depth++;
+        } else if (!isInQuotes && query[i] === ')') {
+          depth--;
+        }
+        // the first parenthesis is closed before the end of the query, so it doesn't wrap the entire query
+        if (depth === 0 && i < query.length - 1) {
+          return `(${query})`;
+        }
+      }
+      return query;
+    }
+    return `(${query})`;
+  }
+
   //
   // private functions
   // -------------------
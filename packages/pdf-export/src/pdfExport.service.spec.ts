@@ -398,6 +398,76 @@ describe('PdfExportService', () => {
       });
     });
 
+    describe('exportToPdf with Backend Service export', () => {
+      const mockCollection = [
+        { id: 0, firstName: 'John', lastName: 'Doe' },
+        { id: 1, firstName: 'Jane', lastName: 'Smith' },
+      ];
+      let backendServiceMock: any;
+
+      beforeEach(() => {
+        mockColumns = [
+          { id: 'id', field: 'id', excludeFromExport: true },
+          { id: 'firstName', field: 'firstName', name: 'First Name', width: 100 },
+          { id: 'lastName', field: 'lastName', name: 'Last Name', width: 100 },
+        ] as Column[];
+        backendServiceMock = {
+          buildQuery: vi.fn(() => 'query'),
+          getDatasetFromProcessResult: (result: any) => ({ dataset: result.items, totalItems: result.total }),
+          updateOptions: vi.fn(),
+          updatePagination: vi.fn(),
+        };
+
+        vi.spyOn(gridStub, 'getVisibleColumns').mockReturnValue(mockColumns);
+        vi.spyOn(dataViewStub, 'getLength').mockReturnValue(1);
+        vi.spyOn(dataViewStub, 'getItem').mockReturnValue(mockCollection[0]);
+      });
+
+      it('should export all the items fetched by the Backend Service instead of the DataView items when using the "fetchAll" export mode', async () => {
+        const processMock = vi.fn(() => Promise.resolve({ items: mockCollection, total: 2 }));
+        mockGridOptions.backendServiceApi = { service: backendServiceMock, process: processMock, exportOptions: { mode: 'fetchAll' } };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+        service.init(gridStub, container);
+        const result = await service.exportToPdf(mockExportPdfOptions);
+
+        expect(result).toBe(true);
+        expect(dataViewStub.getItem).not.toHaveBeenCalled();
+        expect(textSpy.mock.calls.map((call: any[]) => call[0])).toEqual(expect.arrayContaining(['John', 'Jane', 'Smith']));
+        expect(pubSubSpy).toHaveBeenCalledWith('onAfterExportToPdf', { filename: 'export.pdf' });
+      });
+
+      it('should delegate the export to the "serverExport" callback without building any PDF when using the "server" export mode', async () => {
+        const serverExport = vi.fn();
+        mockGridOptions.backendServiceApi = { service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'server', serverExport } };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+        service.init(gridStub, container);
+        const result = await service.exportToPdf(mockExportPdfOptions);
+
+        expect(result).toBe(true);
+        expect(serverExport).toHaveBeenCalledWith('query', { columns: mockColumns.slice(1), filename: 'export', format: 'pdf', variables: undefined });
+        expect(textSpy).not.toHaveBeenCalled();
+        expect(pubSubSpy).toHaveBeenCalledWith('onAfterExportToPdf', { filename: 'export.pdf' });
+      });
+
+      it('should resolve as false and publish the error when fetching all the items fails', async () => {
+        const error = new Error('Server Error');
+        mockGridOptions.backendServiceApi = {
+          service: backendServiceMock,
+          process: vi.fn(() => Promise.reject(error)),
+          exportOptions: { mode: 'fetchAll' },
+        };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+
+        service.init(gridStub, container);
+        const result = await service.exportToPdf(mockExportPdfOptions);
+
+        expect(result).toBe(false);
+        expect(pubSubSpy).toHaveBeenCalledWith('onAfterExportToPdf', { filename: 'export.pdf', error });
+      });
+    });
+
     describe('with Translation', () => {
       let mockCollection: any[];
 
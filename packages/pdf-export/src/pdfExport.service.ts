@@ -12,7 +12,15 @@ import type {
   SlickGrid,
   TranslaterService,
 } from '@slickgrid-universal/common';
-import { Constants, exportWithFormatterWhenDefined, getTranslationPrefix, htmlDecode } from '@slickgrid-universal/common';
+import {
+  Constants,
+  executeBackendServerExport,
+  exportWithFormatterWhenDefined,
+  fetchAllBackendItems,
+  getBackendExportMode,
+  getTranslationPrefix,
+  htmlDecode,
+} from '@slickgrid-universal/common';
 import { addWhiteSpaces, extend, getHtmlStringOutput, stripTags, titleCase } from '@slickgrid-universal/utils';
 import jsPDF from 'jspdf';
 
@@ -69,6 +77,7 @@ export class PdfExportService implements ExternalResource, BasePdfExportService
   protected _pubSubService!: PubSubService | null;
   protected _translaterService: TranslaterService | undefined;
   protected _timer?: any;
+  protected _backendExportItems?: any[];
 
   /** PdfExportService class name which is use to find service instance in the external registered services */
   readonly pluginName = 'PdfExportService';
@@ -129,328 +138,366 @@ export class PdfExportService implements ExternalResource, BasePdfExportService
       this._pubSubService?.publish(`onBeforeExportToPdf`, true);
       this._exportOptions = extend(true, {}, { ...DEFAULT_EXPORT_OPTIONS, ...this._gridOptions.pdfExportOptions, ...options });
 
-      // wrap it into a setTimeout so that the EventAggregator has enough time to start a pre-process like showing a spinner
-      clearTimeout(this._timer);
-      this._timer = setTimeout(() => {
-        try {
-          const columns = this.getColumns();
-
-          // Group By text, it could be set in the export options or from translation or if nothing is found then use the English constant text
-          let groupByColumnHeader = this._exportOptions.groupingColumnHeaderTitle;
-          if (!groupByColumnHeader && this._gridOptions.enableTranslate && this._translaterService?.translate) {
-            groupByColumnHeader = this._translaterService.translate(`${getTranslationPrefix(this._gridOptions)}GROUP_BY`);
-          } else if (!groupByColumnHeader) {
-            groupByColumnHeader = this._locales?.TEXT_GROUP_BY;
-          }
+      // a Backend Service grid could export all the items of its query (instead of only the current page) or delegate the export to the server
+      const backendApi = this._gridOptions.backendServiceApi;
+      const backendExportMode = getBackendExportMode(backendApi);
+      if (backendApi && backendExportMode !== 'local') {
+        const backendExport =
+          backendExportMode === 'server'
+            ? executeBackendServerExport(
+                backendApi,
+                {
+                  columns: this.getColumns().filter((col) => !col.excludeFromExport),
+                  filename: `${this._exportOptions.filename}`,
+                  format: 'pdf',
+                },
+                this._gridOptions.pagination?.totalItems
+              ).then(() => {
+                this._pubSubService?.publish(`onAfterExportToPdf`, { filename: `${this._exportOptions.filename}.pdf` });
+                resolve(true);
+              })
+            : fetchAllBackendItems(backendApi).then((items) => this.processExport(resolve, items));
+
+        backendExport.catch((error) => {
+          this._pubSubService?.publish(`onAfterExportToPdf`, { filename: `${this._exportOptions.filename}.pdf`, error });
+          resolve(false);
+        });
+      } else {
+        this.processExport(resolve);
+      }
+    });
+  }
 
-          // check if we have grouping
-          const grouping = this._dataView.getGrouping();
-          this._hasGroupedItems = Array.isArray(grouping) && grouping.length > 0;
-
-          // get all Grouped Column Header Titles when defined (from pre-header row)
-          let hasColumnTitlePreHeader = false;
-          // prettier-ignore
-          if (
-            this._gridOptions.createPreHeaderPanel &&
-            this._gridOptions.showPreHeaderPanel &&
-            (!this._gridOptions.enableDraggableGrouping || (this._gridOptions.enableDraggableGrouping && this._gridOptions.createTopHeaderPanel))
-          ) {
-            this._groupedColumnHeaders = this.getColumnGroupedHeaderTitles(columns) || [];
-            hasColumnTitlePreHeader = Array.isArray(this._groupedColumnHeaders) && this._groupedColumnHeaders.length > 0;
-          }
+  // -----------------------
+  // protected functions
+  // -----------------------
 
-          // get all Column Header Titles
-          this._columnHeaders = this.getColumnHeaders(columns) || [];
+  /**
+   * Build the PDF document of the grid data (or of the items fetched by the Backend Service) and save it
+   * @param resolve - resolve function of the export Promise
+   * @param backendItems - all the items fetched by the Backend Service, when defined they are exported instead of the DataView items
+   */
+  protected processExport(resolve: (value: boolean) => void, backendItems?: any[]): void {
+    // wrap it into a setTimeout so that the EventAggregator has enough time to start a pre-process like showing a spinner
+    clearTimeout(this._timer);
+    this._timer = setTimeout(() => {
+      try {
+        this._backendExportItems = backendItems;
+        const columns = this.getColumns();
+
+        // Group By text, it could be set in the export options or from translation or if nothing is found then use the English constant text
+        let groupByColumnHeader = this._exportOptions.groupingColumnHeaderTitle;
+        if (!groupByColumnHeader && this._gridOptions.enableTranslate && this._translaterService?.translate) {
+          groupByColumnHeader = this._translaterService.translate(`${getTranslationPrefix(this._gridOptions)}GROUP_BY`);
+        } else if (!groupByColumnHeader) {
+          groupByColumnHeader = this._locales?.TEXT_GROUP_BY;
+        }
 
-          // cache resolved export options for each column as a Record by column.id
-          const columnExportOptionsCache: Record<string, PdfExportOption> = {};
-          columns.forEach((col: Column) => {
-            if (col.id) {
-              columnExportOptionsCache[col.id] = resolveColumnExportOptions(col, this._exportOptions);
-            }
-          });
-          // prepare the data
-          const tableData = this.getAllGridRowData(columns, columnExportOptionsCache);
-
-          // create PDF document with jsPDF
-          const isLandscape = this._exportOptions.pageOrientation === 'landscape';
-          const doc = new jsPDF({
-            orientation: isLandscape ? 'landscape' : 'portrait',
-            unit: 'pt',
-            format: this._exportOptions.pageSize || 'a4',
-          });
+        // check if we have grouping, the items fetched by the Backend Service are never grouped
+        const grouping = this._backendExportItems ? [] : this._dataView.getGrouping();
+        this._hasGroupedItems = Array.isArray(grouping) && grouping.length > 0;
 
-          // Set PDF document properties (metadata) if provided
-          if (this._exportOptions.documentProperties) {
-            doc.setDocumentProperties(this._exportOptions.documentProperties);
-          }
+        // get all Grouped Column Header Titles when defined (from pre-header row)
+        let hasColumnTitlePreHeader = false;
+        // prettier-ignore
+        if (
+          this._gridOptions.createPreHeaderPanel &&
+          this._gridOptions.showPreHeaderPanel &&
+          (!this._gridOptions.enableDraggableGrouping || (this._gridOptions.enableDraggableGrouping && this._gridOptions.createTopHeaderPanel))
+        ) {
+          this._groupedColumnHeaders = this.getColumnGroupedHeaderTitles(columns) || [];
+          hasColumnTitlePreHeader = Array.isArray(this._groupedColumnHeaders) && this._groupedColumnHeaders.length > 0;
+        }
 
-          let startY = 40;
-          if (this._exportOptions.documentTitle) {
-            doc.setFontSize(16);
-            doc.text(this._exportOptions.documentTitle, 40, startY);
-            startY += 30;
-          }
+        // get all Column Header Titles
+        this._columnHeaders = this.getColumnHeaders(columns) || [];
 
-          // Prepare headers
-          let headers = [] as string[];
-          if (this._hasGroupedItems && groupByColumnHeader) {
-            headers.push(groupByColumnHeader);
+        // cache resolved export options for each column as a Record by column.id
+        const columnExportOptionsCache: Record<string, PdfExportOption> = {};
+        columns.forEach((col: Column) => {
+          if (col.id) {
+            columnExportOptionsCache[col.id] = resolveColumnExportOptions(col, this._exportOptions);
           }
-          headers = headers.concat(this._columnHeaders.map((h) => h.title));
-
-          // Prepare data
-          const data = tableData;
-
-          // Add table (using jsPDF-AutoTable if available, else fallback to manual)
-          if ((doc as any).autoTable) {
-            // Build per-column styles for AutoTable from each column's pdfExportOptions
-            const visibleColumns = columns.filter((col: Column) => !col.excludeFromExport && (col.width === undefined || col.width > 0));
-            const columnStyles: Record<number, { halign: string }> = {};
-            const groupOffset = this._hasGroupedItems ? 1 : 0;
-            for (const [idx, col] of visibleColumns.entries()) {
-              const colExportOpts = resolveColumnExportOptions(col, this._exportOptions);
-              if (colExportOpts.textAlign && colExportOpts.textAlign !== (this._exportOptions.textAlign || 'left')) {
-                columnStyles[idx + groupOffset] = { halign: colExportOpts.textAlign };
-              }
-            }
+        });
+        // prepare the data
+        const tableData = this.getAllGridRowData(columns, columnExportOptionsCache);
+
+        // create PDF document with jsPDF
+        const isLandscape = this._exportOptions.pageOrientation === 'landscape';
+        const doc = new jsPDF({
+          orientation: isLandscape ? 'landscape' : 'portrait',
+          unit: 'pt',
+          format: this._exportOptions.pageSize || 'a4',
+        });
+
+        // Set PDF document properties (metadata) if provided
+        if (this._exportOptions.documentProperties) {
+          doc.setDocumentProperties(this._exportOptions.documentProperties);
+        }
 
-            // Build per-column header alignment map for didParseCell hook
-            const headerAlignMap: Record<number, string> = {};
-            for (const [idx, col] of visibleColumns.entries()) {
-              const colExportOpts = resolveColumnExportOptions(col, this._exportOptions);
-              if (colExportOpts.textAlign && colExportOpts.textAlign !== (this._exportOptions.textAlign || 'left')) {
-                headerAlignMap[idx + groupOffset] = colExportOpts.textAlign;
-              }
+        let startY = 40;
+        if (this._exportOptions.documentTitle) {
+          doc.setFontSize(16);
+          doc.text(this._exportOptions.documentTitle, 40, startY);
+          startY += 30;
+        }
+
+        // Prepare headers
+        let headers = [] as string[];
+        if (this._hasGroupedItems && groupByColumnHeader) {
+          headers.push(groupByColumnHeader);
+        }
+        headers = headers.concat(this._columnHeaders.map((h) => h.title));
+
+        // Prepare data
+        const data = tableData;
+
+        // Add table (using jsPDF-AutoTable if available, else fallback to manual)
+        if ((doc as any).autoTable) {
+          // Build per-column styles for AutoTable from each column's pdfExportOptions
+          const visibleColumns = columns.filter((col: Column) => !col.excludeFromExport && (col.width === undefined || col.width > 0));
+          const columnStyles: Record<number, { halign: string }> = {};
+          const groupOffset = this._hasGroupedItems ? 1 : 0;
+          for (const [idx, col] of visibleColumns.entries()) {
+            const colExportOpts = resolveColumnExportOptions(col, this._exportOptions);
+            if (colExportOpts.textAlign && colExportOpts.textAlign !== (this._exportOptions.textAlign || 'left')) {
+              columnStyles[idx + groupOffset] = { halign: colExportOpts.textAlign };
             }
+          }
 
-            let autoTableOpts: Record<string, unknown> = {
-              head: this._buildAutoTableHead(headers, hasColumnTitlePreHeader, groupByColumnHeader),
-              body: data,
-              startY,
-              columnStyles,
-              styles: {
-                fontSize: this._exportOptions.fontSize!,
-                cellPadding: this._exportOptions.cellPadding!,
-                overflow: 'linebreak',
-                halign: this._exportOptions.textAlign || 'left',
-              },
-              headStyles: {
-                fontSize: this._exportOptions.headerFontSize!,
-                fillColor: this._exportOptions.headerBackgroundColor!,
-                textColor: this._exportOptions.headerTextColor!,
-                halign: this._exportOptions.textAlign || 'left',
-                valign: 'middle',
-              },
-              // Align header cells to match their column's textAlign and style pre-header row
-              didParseCell: (data: any) => {
-                // Style pre-header row with distinct colors
-                if (data.section === 'head' && hasColumnTitlePreHeader && data.row.index === 0) {
-                  data.cell.styles.fillColor = this._exportOptions.preHeaderBackgroundColor!;
-                  data.cell.styles.textColor = this._exportOptions.preHeaderTextColor!;
-                  data.cell.styles.halign = 'center';
-                }
-                // Align column header cells (last head row) to match their column's textAlign
-                const isColumnHeaderRow = hasColumnTitlePreHeader ? data.row.index === 1 : data.row.index === 0;
-                if (data.section === 'head' && isColumnHeaderRow && headerAlignMap[data.column.index]) {
-                  data.cell.styles.halign = headerAlignMap[data.column.index];
-                }
-              },
-              alternateRowStyles: {
-                fillColor: this._exportOptions.alternateRowColor!,
-              },
-              margin: { left: 40, right: 40 },
-              theme: 'grid',
-            };
-
-            // Allow users to customize AutoTable options via callback
-            if (typeof this._exportOptions.autoTableOptions === 'function') {
-              autoTableOpts = this._exportOptions.autoTableOptions(autoTableOpts);
+          // Build per-column header alignment map for didParseCell hook
+          const headerAlignMap: Record<number, string> = {};
+          for (const [idx, col] of visibleColumns.entries()) {
+            const colExportOpts = resolveColumnExportOptions(col, this._exportOptions);
+            if (colExportOpts.textAlign && colExportOpts.textAlign !== (this._exportOptions.textAlign || 'left')) {
+              headerAlignMap[idx + groupOffset] = colExportOpts.textAlign;
             }
+          }
 
-            (doc as any).autoTable(autoTableOpts);
-          } else {
-            // Fallback: manual table rendering (no cell borders)
-            // Use cached columnExportOptionsCache for per-column options
-            const headerTextOffset = typeof this._exportOptions.headerTextOffset === 'number' ? this._exportOptions.headerTextOffset : -16;
-            const headerBackgroundOffset =
-              typeof this._exportOptions.headerBackgroundOffset === 'number' ? this._exportOptions.headerBackgroundOffset : 0;
-            doc.setFontSize(this._exportOptions.headerFontSize || 11);
-            let y = startY;
-            const pageHeight = doc.internal.pageSize.getHeight();
-            const pageWidth = doc.internal.pageSize.getWidth();
-            const bottomMargin = 40;
-            const rowHeight = 18;
-            const margin = 40;
-            // Dynamically calculate table width based on page width and margins
-            const tableWidth = pageWidth - margin * 2;
-            const colCount = headers.length;
-
-            // Try to fit all header titles by reducing font size if needed
-            let headerFontSize = this._exportOptions.headerFontSize || 11;
-            let minFontSize = 7;
-            doc.setFontSize(headerFontSize);
-            let fits = false;
-            let headerTextWidths = headers.map((h) => doc.getTextWidth(h));
-            while (!fits && headerFontSize >= minFontSize) {
-              fits = true;
-              headerTextWidths = headers.map((h) => doc.getTextWidth(h));
-              const totalTextWidth = headerTextWidths.reduce((a, b) => a + b, 0);
-              // Add padding for each column
-              const totalWidthWithPadding = totalTextWidth + colCount * 8; // 8pt padding per column
-              if (totalWidthWithPadding > tableWidth) {
-                fits = false;
-                headerFontSize--;
-                doc.setFontSize(headerFontSize);
+          let autoTableOpts: Record<string, unknown> = {
+            head: this._buildAutoTableHead(headers, hasColumnTitlePreHeader, groupByColumnHeader),
+            body: data,
+            startY,
+            columnStyles,
+            styles: {
+              fontSize: this._exportOptions.fontSize!,
+              cellPadding: this._exportOptions.cellPadding!,
+              overflow: 'linebreak',
+              halign: this._exportOptions.textAlign || 'left',
+            },
+            headStyles: {
+              fontSize: this._exportOptions.headerFontSize!,
+              fillColor: this._exportOptions.headerBackgroundColor!,
+              textColor: this._exportOptions.headerTextColor!,
+              halign: this._exportOptions.textAlign || 'left',
+              valign: 'middle',
+            },
+            // Align header cells to match their column's textAlign and style pre-header row
+            didParseCell: (data: any) => {
+              // Style pre-header row with distinct colors
+              if (data.section === 'head' && hasColumnTitlePreHeader && data.row.index === 0) {
+                data.cell.styles.fillColor = this._exportOptions.preHeaderBackgroundColor!;
+                data.cell.styles.textColor = this._exportOptions.preHeaderTextColor!;
+                data.cell.styles.halign = 'center';
               }
-            }
-            // Use the final font size for header
-            this._exportOptions.headerFontSize = headerFontSize;
-
-            // Calculate proportional column widths
-            // Use custom width if provided, else equal width
-            let colWidths = Array(colCount).fill(tableWidth / colCount);
-            for (let i = 0; i < colCount; i++) {
-              const colId = columns[i]?.id;
-              const colOpt = colId ? columnExportOptionsCache[colId] : undefined;
-              if (colOpt && colOpt.width && typeof colOpt.width === 'number') {
-                colWidths[i] = colOpt.width;
+              // Align column header cells (last head row) to match their column's textAlign
+              const isColumnHeaderRow = hasColumnTitlePreHeader ? data.row.index === 1 : data.row.index === 0;
+              if (data.section === 'head' && isColumnHeaderRow && headerAlignMap[data.column.index]) {
+                data.cell.styles.halign = headerAlignMap[data.column.index];
               }
+            },
+            alternateRowStyles: {
+              fillColor: this._exportOptions.alternateRowColor!,
+            },
+            margin: { left: 40, right: 40 },
+            theme: 'grid',
+          };
+
+          // Allow users to customize AutoTable options via callback
+          if (typeof this._exportOptions.autoTableOptions === 'function') {
+            autoTableOpts = this._exportOptions.autoTableOptions(autoTableOpts);
+          }
+
+          (doc as any).autoTable(autoTableOpts);
+        } else {
+          // Fallback: manual table rendering (no cell borders)
+          // Use cached columnExportOptionsCache for per-column options
+          const headerTextOffset = typeof this._exportOptions.headerTextOffset === 'number' ? this._exportOptions.headerTextOffset : -16;
+          const headerBackgroundOffset =
+            typeof this._exportOptions.headerBackgroundOffset === 'number' ? this._exportOptions.headerBackgroundOffset : 0;
+          doc.setFontSize(this._exportOptions.headerFontSize || 11);
+          let y = startY;
+          const pageHeight = doc.internal.pageSize.getHeight();
+          const pageWidth = doc.internal.pageSize.getWidth();
+          const bottomMargin = 40;
+          const rowHeight = 18;
+          const margin = 40;
+          // Dynamically calculate table width based on page width and margins
+          const tableWidth = pageWidth - margin * 2;
+          const colCount = headers.length;
+
+          // Try to fit all header titles by reducing font size if needed
+          let headerFontSize = this._exportOptions.headerFontSize || 11;
+          let minFontSize = 7;
+          doc.setFontSize(headerFontSize);
+          let fits = false;
+          let headerTextWidths = headers.map((h) => doc.getTextWidth(h));
+          while (!fits && headerFontSize >= minFontSize) {
+            fits = true;
+            headerTextWidths = headers.map((h) => doc.getTextWidth(h));
+            const totalTextWidth = headerTextWidths.reduce((a, b) => a + b, 0);
+            // Add padding for each column
+            const totalWidthWithPadding = totalTextWidth + colCount * 8; // 8pt padding per column
+            if (totalWidthWithPadding > tableWidth) {
+              fits = false;
+              headerFontSize--;
+              doc.setFontSize(headerFontSize);
             }
-            // If any custom widths, adjust last column to fill remaining space so sum matches tableWidth
-            const sumWidths = colWidths.reduce((a, b) => a + b, 0);
-            if (Math.abs(sumWidths - tableWidth) > 0.1) {
-              // Adjust last column width to fill gap
-              colWidths[colCount - 1] += tableWidth - sumWidths;
+          }
+          // Use the final font size for header
+          this._exportOptions.headerFontSize = headerFontSize;
+
+          // Calculate proportional column widths
+          // Use custom width if provided, else equal width
+          let colWidths = Array(colCount).fill(tableWidth / colCount);
+          for (let i = 0; i < colCount; i++) {
+            const colId = columns[i]?.id;
+            const colOpt = colId ? columnExportOptionsCache[colId] : undefined;
+            if (colOpt && colOpt.width && typeof colOpt.width === 'number') {
+              colWidths[i] = colOpt.width;
             }
+          }
+          // If any custom widths, adjust last column to fill remaining space so sum matches tableWidth
+          const sumWidths = colWidths.reduce((a, b) => a + b, 0);
+          if (Math.abs(sumWidths - tableWidth) > 0.1) {
+            // Adjust last column width to fill gap
+            colWidths[colCount - 1] += tableWidth - sumWidths;
+          }
+
+          // Draw pre-header row (grouped column headers) if enabled
+          if (hasColumnTitlePreHeader && this._groupedColumnHeaders && this._groupedColumnHeaders.length > 0) {
+            y = this._drawPreHeaderRow(doc, y, colWidths, margin, headerTextOffset, headerBackgroundOffset, groupByColumnHeader);
+          }
 
-            // Draw pre-header row (grouped column headers) if enabled
-            if (hasColumnTitlePreHeader && this._groupedColumnHeaders && this._groupedColumnHeaders.length > 0) {
-              y = this._drawPreHeaderRow(doc, y, colWidths, margin, headerTextOffset, headerBackgroundOffset, groupByColumnHeader);
+          // Build per-column header alignment array for manual header drawing
+          const headerAligns: Array<'left' | 'center' | 'right'> = headers.map((_, idx) => {
+            if (this._hasGroupedItems && idx === 0) {
+              return this._exportOptions.textAlign || 'left';
+            }
+            const dataColIdx = this._hasGroupedItems ? idx - 1 : idx;
+            const colDef = columns.filter((col: Column) => !col.excludeFromExport)[dataColIdx];
+            if (colDef?.id) {
+              const colOpt = columnExportOptionsCache[colDef.id];
+              return colOpt?.textAlign || this._exportOptions.textAlign || 'left';
             }
+            return this._exportOptions.textAlign || 'left';
+          });
 
-            // Build per-column header alignment array for manual header drawing
-            const headerAligns: Array<'left' | 'center' | 'right'> = headers.map((_, idx) => {
-              if (this._hasGroupedItems && idx === 0) {
-                return this._exportOptions.textAlign || 'left';
-              }
-              const dataColIdx = this._hasGroupedItems ? idx - 1 : idx;
-              const colDef = columns.filter((col: Column) => !col.excludeFromExport)[dataColIdx];
-              if (colDef?.id) {
-                const colOpt = columnExportOptionsCache[colDef.id];
-                return colOpt?.textAlign || this._exportOptions.textAlign || 'left';
+          // Draw header row
+          y = this._drawHeaderRow(doc, y, headers, colWidths, margin, headerTextOffset, headerBackgroundOffset, headerAligns);
+          doc.setFontSize(this._exportOptions.fontSize || 10);
+          data.forEach((row, rowIdx) => {
+            // Check for page break before drawing row
+            if (y + rowHeight + bottomMargin > pageHeight) {
+              doc.addPage();
+              y = margin;
+              // Redraw pre-header and header on new page only if repeatHeadersOnEachPage is true
+              if (this._exportOptions.repeatHeadersOnEachPage !== false) {
+                // Pre-header row
+                if (hasColumnTitlePreHeader && this._groupedColumnHeaders && this._groupedColumnHeaders.length > 0) {
+                  y = this._drawPreHeaderRow(doc, y, colWidths, margin, headerTextOffset, headerBackgroundOffset, groupByColumnHeader);
+                }
+                // Header row
+                y = this._drawHeaderRow(doc, y, headers, colWidths, margin, headerTextOffset, headerBackgroundOffset, headerAligns);
+                doc.setFontSize(this._exportOptions.fontSize || 10);
               }
-              return this._exportOptions.textAlign || 'left';
-            });
-
-            // Draw header row
-            y = this._drawHeaderRow(doc, y, headers, colWidths, margin, headerTextOffset, headerBackgroundOffset, headerAligns);
-            doc.setFontSize(this._exportOptions.fontSize || 10);
-            data.forEach((row, rowIdx) => {
-              // Check for page break before drawing row
-              if (y + rowHeight + bottomMargin > pageHeight) {
-                doc.addPage();
-                y = margin;
-                // Redraw pre-header and header on new page only if repeatHeadersOnEachPage is true
-                if (this._exportOptions.repeatHeadersOnEachPage !== false) {
-                  // Pre-header row
-                  if (hasColumnTitlePreHeader && this._groupedColumnHeaders && this._groupedColumnHeaders.length > 0) {
-                    y = this._drawPreHeaderRow(doc, y, colWidths, margin, headerTextOffset, headerBackgroundOffset, groupByColumnHeader);
+            }
+            // Alternate row background
+            if (rowIdx % 2 === 1) {
+              const altColor = this._exportOptions.alternateRowColor!;
+              doc.setFillColor(altColor[0], altColor[1], altColor[2]);
+              // Use first column's dataRowBackgroundOffset for the row
+              // Always use the correct column for background offset (first visible data column)
+              let firstDataColIdx = 0;
+              if (this._hasGroupedItems) firstDataColIdx = 1;
+              const firstColId = columns.filter((col: Column) => !col.excludeFromExport)[firstDataColIdx]?.id;
+              const colOpt = firstColId ? columnExportOptionsCache[firstColId] : this._exportOptions;
+              doc.rect(
+                margin,
+                y - 12 + (typeof colOpt.dataRowBackgroundOffset === 'number' ? colOpt.dataRowBackgroundOffset : 0),
+                tableWidth,
+                rowHeight,
+                'F'
+              );
+            }
+            // Detect group title row: only first cell has value, rest are empty
+            const isGroupTitleRow = row.length > 1 && row[0] && row.slice(1).every((cell) => cell === '');
+            if (isGroupTitleRow) {
+              // Draw a single cell spanning all columns (no border)
+              const textY = y + (typeof this._exportOptions.dataRowTextOffset === 'number' ? this._exportOptions.dataRowTextOffset : 0);
+              doc.setTextColor(0, 0, 0);
+              doc.text(String(row[0]), margin, textY, {
+                align: 'left',
+                baseline: 'middle',
+              });
+            } else {
+              // Render regular row by iterating header columns and row cells in parallel
+              let cellX = margin;
+              for (let colIdx = 0; colIdx < headers.length; colIdx++) {
+                let colDef: Column | undefined;
+                let colOpt: PdfExportOption = this._exportOptions;
+                let colWidth = colWidths[colIdx];
+                if (this._hasGroupedItems && colIdx === 0) {
+                  // Group column: no colDef, use default options
+                } else {
+                  const dataColIdx = this._hasGroupedItems ? colIdx - 1 : colIdx;
+                  colDef = columns.filter((col: Column) => !col.excludeFromExport)[dataColIdx];
+                  if (colDef && colDef.id) {
+                    colOpt = columnExportOptionsCache[colDef.id] || this._exportOptions;
                   }
-                  // Header row
-                  y = this._drawHeaderRow(doc, y, headers, colWidths, margin, headerTextOffset, headerBackgroundOffset, headerAligns);
-                  doc.setFontSize(this._exportOptions.fontSize || 10);
                 }
-              }
-              // Alternate row background
-              if (rowIdx % 2 === 1) {
-                const altColor = this._exportOptions.alternateRowColor!;
-                doc.setFillColor(altColor[0], altColor[1], altColor[2]);
-                // Use first column's dataRowBackgroundOffset for the row
-                // Always use the correct column for background offset (first visible data column)
-                let firstDataColIdx = 0;
-                if (this._hasGroupedItems) firstDataColIdx = 1;
-                const firstColId = columns.filter((col: Column) => !col.excludeFromExport)[firstDataColIdx]?.id;
-                const colOpt = firstColId ? columnExportOptionsCache[firstColId] : this._exportOptions;
-                doc.rect(
-                  margin,
-                  y - 12 + (typeof colOpt.dataRowBackgroundOffset === 'number' ? colOpt.dataRowBackgroundOffset : 0),
-                  tableWidth,
-                  rowHeight,
-                  'F'
-                );
-              }
-              // Detect group title row: only first cell has value, rest are empty
-              const isGroupTitleRow = row.length > 1 && row[0] && row.slice(1).every((cell) => cell === '');
-              if (isGroupTitleRow) {
-                // Draw a single cell spanning all columns (no border)
-                const textY = y + (typeof this._exportOptions.dataRowTextOffset === 'number' ? this._exportOptions.dataRowTextOffset : 0);
+                const cell = row[colIdx];
                 doc.setTextColor(0, 0, 0);
-                doc.text(String(row[0]), margin, textY, {
-                  align: 'left',
-                  baseline: 'middle',
-                });
-              } else {
-                // Render regular row by iterating header columns and row cells in parallel
-                let cellX = margin;
-                for (let colIdx = 0; colIdx < headers.length; colIdx++) {
-                  let colDef: Column | undefined;
-                  let colOpt: PdfExportOption = this._exportOptions;
-                  let colWidth = colWidths[colIdx];
-                  if (this._hasGroupedItems && colIdx === 0) {
-                    // Group column: no colDef, use default options
-                  } else {
-                    const dataColIdx = this._hasGroupedItems ? colIdx - 1 : colIdx;
-                    colDef = columns.filter((col: Column) => !col.excludeFromExport)[dataColIdx];
-                    if (colDef && colDef.id) {
-                      colOpt = columnExportOptionsCache[colDef.id] || this._exportOptions;
-                    }
-                  }
-                  const cell = row[colIdx];
-                  doc.setTextColor(0, 0, 0);
-                  let textX = cellX;
-                  const textY = y + (typeof colOpt.dataRowTextOffset === 'number' ? colOpt.dataRowTextOffset : 0);
-                  if (colIdx === 0 && this._hasGroupedItems) {
-                    // Group column (blank for data rows)
-                    doc.text(String(cell ?? ''), textX, textY, {
-                      align: 'left',
-                      baseline: 'middle',
-                    });
-                  } else {
-                    if (colOpt.textAlign === 'center') {
-                      textX = cellX + colWidth / 2;
-                    } else if (colOpt.textAlign === 'right') {
-                      textX = cellX + colWidth;
-                    }
-                    doc.text(String(cell ?? ''), textX, textY, {
-                      align: colOpt.textAlign || 'left',
-                      baseline: 'middle',
-                    });
+                let textX = cellX;
+                const textY = y + (typeof colOpt.dataRowTextOffset === 'number' ? colOpt.dataRowTextOffset : 0);
+                if (colIdx === 0 && this._hasGroupedItems) {
+                  // Group column (blank for data rows)
+                  doc.text(String(cell ?? ''), textX, textY, {
+                    align: 'left',
+                    baseline: 'middle',
+                  });
+                } else {
+                  if (colOpt.textAlign === 'center') {
+                    textX = cellX + colWidth / 2;
+                  } else if (colOpt.textAlign === 'right') {
+                    textX = cellX + colWidth;
                   }
-                  cellX += colWidth;
+                  doc.text(String(cell ?? ''), textX, textY, {
+                    align: colOpt.textAlign || 'left',
+                    baseline: 'middle',
+                  });
                 }
+                cellX += colWidth;
               }
-              y += rowHeight;
-            });
-          }
-
-          // Save the PDF
-          doc.save(`${this._exportOptions.filename}.pdf`);
-
-          this._pubSubService?.publish(`onAfterExportToPdf`, { filename: `${this._exportOptions.filename}.pdf` });
-          resolve(true);
-        } catch (error) {
-          console.error('Error exporting to PDF:', error);
-          this._pubSubService?.publish(`onAfterExportToPdf`, { filename: `${this._exportOptions.filename}.pdf`, error });
-          resolve(false);
+            }
+            y += rowHeight;
+          });
         }
-      }, 0);
-    });
-  }
 
-  // -----------------------
-  // protected functions
-  // -----------------------
+        // Save the PDF
+        doc.save(`${this._exportOptions.filename}.pdf`);
+
+        this._pubSubService?.publish(`onAfterExportToPdf`, { filename: `${this._exportOptions.filename}.pdf` });
+        resolve(true);
+      } catch (error) {
+        console.error('Error exporting to PDF:', error);
+        this._pubSubService?.publish(`onAfterExportToPdf`, { filename: `${this._exportOptions.filename}.pdf`, error });
+        resolve(false);
+      } finally {
+        this._backendExportItems = undefined;
+      }
+    }, 0);
+  }
 
   /** get columns might include hidden columns when `includeHidden` is enabled */
   protected getColumns(): Column[] {
@@ -462,11 +509,11 @@ export class PdfExportService implements ExternalResource, BasePdfExportService
    */
   protected getAllGridRowData(columns: Column[], columnExportOptionsCache?: Record<string, PdfExportOption>): any[][] {
     const outputData: any[][] = [];
-    const lineCount = this._dataView.getLength();
+    const lineCount = this._backendExportItems ? this._backendExportItems.length : this._dataView.getLength();
 
-    // loop through all the grid rows of data
+    // loop through all the grid rows of data (or through all the items fetched by the Backend Service)
     for (let rowNumber = 0; rowNumber < lineCount; rowNumber++) {
-      const itemObj = this._dataView.getItem(rowNumber);
+      const itemObj = this._backendExportItems ? this._backendExportItems[rowNumber] : this._dataView.getItem(rowNumber);
 
       // make sure we have a filled object AND that the item doesn't include the "getItem" method
       // this could happen with an opened Row Detail as it seems to include an empty Slick DataView (we'll just skip those lines)
@@ -565,7 +612,7 @@ export class PdfExportService implements ExternalResource, BasePdfExportService
     columnExportOptionsCache?: Record<string, PdfExportOption>
   ): any[] {
     const rowData: any[] = [];
-    const itemMetadata = this._dataView.getItemMetadata(row);
+    const itemMetadata = this._backendExportItems ? null : this._dataView.getItemMetadata(row);
     let prevColspan: number | string = 1;
 
     // if we are grouping and are on 1st column index, we need to skip this column since it will be used later by the grouping text
@@ -583,7 +630,7 @@ export class PdfExportService implements ExternalResource, BasePdfExportService
       }
 
       // when using rowspan
-      if (this._gridOptions.enableCellRowSpan) {
+      if (this._gridOptions.enableCellRowSpan && !this._backendExportItems) {
         const prs = this._grid.getParentRowSpanByCell(row, col, false);
         if (prs && prs.start !== row) {
           // skip any rowspan child cell since it was already merged
@@ -0,0 +1,2 @@
+export { GridRestService } from './services/grid-rest.service.js';
+export type * from './interfaces/index.js';
@@ -0,0 +1,7 @@
+export type * from './restCursorPaginationOption.interface.js';
+export type * from './restFilteringOption.interface.js';
+export type * from './restPaginationOption.interface.js';
+export type * from './restResponse.interface.js';
+export type * from './restServiceApi.interface.js';
+export type * from './restServiceOption.interface.js';
+export type * from './restSortingOption.interface.js';
@@ -0,0 +1,13 @@
+export interface RestCursorPaginationOption {
+  /** page size when going forward (next page), it will be sent as the page size */
+  first?: number;
+
+  /** page size when going backward (previous or last page), it will be sent as the page size */
+  last?: number;
+
+  /** Cursor of the item to start from when going forward, it is typically the end cursor of the current page */
+  after?: string;
+
+  /** Cursor of the item to start from when going backward, it is typically the start cursor of the current page */
+  before?: string;
+}
@@ -0,0 +1,10 @@
+export interface RestFilteringOption {
+  /** Field name to filter */
+  field: string;
+
+  /** Operator name sent to the server, it is the grid operator mapped through the `operatorMap` option (e.g. "gte") */
+  operator: string;
+
+  /** Value to filter with, multiple values (e.g. "IN" operator) are joined by a comma */
+  value: string;
+}
@@ -0,0 +1,10 @@
+export interface RestPaginationOption {
+  /** page number, starting at 1 (used by the "page" pagination type) */
+  pageNumber?: number;
+
+  /** page size, it is also the "limit" of the "offset" pagination type */
+  pageSize: number;
+
+  /** number of items to skip (used by the "offset" pagination type) */
+  offset?: number;
+}
@@ -0,0 +1,7 @@
+export interface RestResponse<T = any> {
+  /** Response body (parsed JSON) */
+  body: T;
+
+  /** Response headers, it could be a Fetch API `Headers` object or a plain object (e.g. Axios response headers) */
+  headers?: Headers | Record<string, string | string[] | undefined>;
+}
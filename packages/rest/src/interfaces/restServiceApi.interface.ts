@@ -0,0 +1,24 @@
+import type { BackendServiceApi, BackendServiceProcessOptions, Observable } from '@slickgrid-universal/common';
+import type { GridRestService } from '../services/index.js';
+import type { RestResponse } from './restResponse.interface.js';
+import type { RestServiceOption } from './restServiceOption.interface.js';
+
+export interface RestServiceApi<T = any> extends BackendServiceApi {
+  /** Backend Service Options */
+  options?: RestServiceOption;
+
+  /** Backend Service instance (could be OData, GraphQL or REST Service) */
+  service: GridRestService;
+
+  /** On init (or on page load), what action to perform? */
+  onInit?: (query: string, options?: BackendServiceProcessOptions) => Promise<T | RestResponse<T>> | Observable<T | RestResponse<T>>;
+
+  /**
+   * On Processing, we get the query string back from the service, and we need to provide a Promise/Observable. For example: this.http.get(`${myRestUrl}?${query}`)
+   * When the total item count is provided by a response header, the result must include the headers, e.g.: `{ body: await response.json(), headers: response.headers }`
+   */
+  process: (query: string, options?: BackendServiceProcessOptions) => Promise<T | RestResponse<T>> | Observable<T | RestResponse<T>>;
+
+  /** After executing the query, what action to perform? For example, stop the spinner */
+  postProcess?: (response: T | RestResponse<T>) => void;
+}
@@ -0,0 +1,128 @@
+import type { BackendServiceFilterQueryOverrideArgs, BackendServiceOption, CursorPageInfo } from '@slickgrid-universal/common';
+import type { RestCursorPaginationOption } from './restCursorPaginationOption.interface.js';
+import type { RestFilteringOption } from './restFilteringOption.interface.js';
+import type { RestPaginationOption } from './restPaginationOption.interface.js';
+import type { RestSortingOption } from './restSortingOption.interface.js';
+
+export interface RestServiceOption extends BackendServiceOption {
+  /**
+   * Template of a filter query parameter, the `{field}`, `{operator}` and `{value}` placeholders will be replaced by the filter (the value is URI encoded).
+   * Defaults to the JSON:API convention "filter[{field}][{operator}]={value}", ex.: `filter[age][gte]=18`
+   * or for example with a json-server convention "{field}_{operator}={value}", ex.: `age_gte=18`
+   */
+  filterTemplate?: string;
+
+  /**
+   * Template of a filter query parameter when the operator is "EQ" (equal), it has the same placeholders as the `filterTemplate`.
+   * Defaults to the JSON:API convention "filter[{field}]={value}", ex.: `filter[gender]=male`
+   */
+  equalFilterTemplate?: string;
+
+  /**
+   * Operator names sent to the server, it will be merged with the default operator names, for example `{ Contains: 'like' }`.
+   * The defaults are: EQ: "eq", NE: "ne", GT: "gt", GE: "gte", LT: "lt", LE: "lte", Contains: "contains", Not_Contains: "notContains",
+   * StartsWith: "startsWith", EndsWith: "endsWith", IN: "in" and NOT_IN: "nin"
+   */
+  operatorMap?: Record<string, string>;
+
+  /**
+   * Template of a sort query parameter, the `{field}` and `{direction}` (asc/desc) placeholders will be replaced by each sorter and every sorter is then joined by a "&".
+   * When undefined, it will use the JSON:API convention of a single comma separated `sort` parameter with a "-" prefix for the descending sorts, ex.: `sort=-age,name`
+   * or for example with a custom convention "orderBy={field}:{direction}", ex.: `orderBy=age:desc&orderBy=name:asc`
+   */
+  sortTemplate?: string;
+
+  /** Defaults to "sort", query parameter name of the JSON:API sort convention (when `sortTemplate` is undefined) */
+  sortParamName?: string;
+
+  /**
+   * Defaults to "page", which pagination type to use when the pagination is not cursor based (`useCursor`)
+   * - "page": sends the page number and the page size, ex.: `page[number]=2&page[size]=20`
+   * - "offset": sends the number of items to skip and the page size, ex.: `page[offset]=20&page[limit]=20`
+   */
+  paginationType?: 'page' | 'offset';
+
+  /** Defaults to "page[number]", query parameter name of the page number ("page" pagination type) */
+  pageNumberParamName?: string;
+
+  /** Defaults to "page[size]", query parameter name of the page size ("page" pagination type and cursor pagination) */
+  pageSizeParamName?: string;
+
+  /** Defaults to "page[offset]", query parameter name of the number of items to skip ("offset" pagination type) */
+  offsetParamName?: string;
+
+  /** Defaults to "page[limit]", query parameter name of the page size ("offset" pagination type) */
+  limitParamName?: string;
+
+  /**
+   * Defaults to "page[after]", query parameter name of the cursor to start from when going forward (cursor pagination)
+   * ex.: `page[size]=20&page[after]=YXJyYXk6MTk=`
+   */
+  afterParamName?: string;
+
+  /**
+   * Defaults to "page[before]", query parameter name of the cursor to start from when going backward (cursor pagination),
+   * note that going to the last page will send this parameter with an empty cursor, ex.: `page[size]=20&page[before]=`
+   */
+  beforeParamName?: string;
+
+  /** Use a Pagination Cursor, the cursors of the current page must then be provided to the Pagination Service by calling `setCursorPageInfo()` in the `postProcess` */
+  useCursor?: boolean;
+
+  /**
+   * Defaults to "filter[search]", query parameter name that will be used to send the Global Search term (`filterService.setGlobalSearch()`)
+   * ex.: `filter[search]=John`
+   */
+  globalSearchParamName?: string;
+
+  /** Global Search term that will be sent as a query parameter (the server is responsible to decide which fields are searched) */
+  globalSearchTerm?: string;
+
+  /**
+   * Extra query parameters that will be passed in addition to the filtering, sorting and pagination query parameters
+   * For example, if we want to pass an "include" and we want the query string to look like `include=company&page[number]=1&page[size]=20`
+   */
+  extraQueryParams?: Record<string, string | number | boolean>;
+
+  /** An optional predicate function to overide the built-in filter construction, it must return the query string of the filter (e.g. `age=between:18,65`) or `undefined` to use the built-in filter */
+  filterQueryOverride?: (args: BackendServiceFilterQueryOverrideArgs) => string | undefined;
+
+  /** array of Filtering Options, ex.: { field: 'name', operator: 'eq', value: 'John' } */
+  filteringOptions?: RestFilteringOption[];
+
+  /** What are the pagination options? ex.: (pageNumber, pageSize, offset) or (first, last, after, before) when using a cursor */
+  paginationOptions?: RestPaginationOption | RestCursorPaginationOption;
+
+  /** array of Sorting Options, ex.: { field: 'name', direction: 'DESC' } */
+  sortingOptions?: RestSortingOption[];
+
+  /**
+   * Defaults to "X-Total-Count", response header from which the total item count will be read,
+   * the header is only available when the result returned by the `process` includes the response headers (`{ body, headers }`)
+   */
+  totalItemsHeader?: string;
+
+  /** Defaults to "meta.total", property (dot notation is supported) of the response body from which the total item count will be read when it is not provided by a response header */
+  totalItemsProperty?: string;
+
+  /** Defaults to "data", property (dot notation is supported) of the response body from which the dataset will be read, unless the response body is itself an array */
+  datasetProperty?: string;
+
+  /** Defaults to "meta.pageInfo", property (dot notation is supported) of the response body from which the cursor page info will be read (cursor pagination) */
+  pageInfoProperty?: string;
+
+  /**
+   * Defaults to true, should we flatten the JSON:API resources (`{ id, type, attributes: { ... } }`) of the dataset into plain items (`{ id, ...attributes }`)?
+   * Note that the items of the response dataset are replaced in place, so the dataset of the response can be used as is in the `postProcess`.
+   */
+  flattenResources?: boolean;
+
+  /** A callback which will extract and return the total item count from the response body, when defined it has precedence over the `totalItemsHeader` and `totalItemsProperty` */
+  countExtractor?: (response: any) => number | undefined;
+
+  /** A callback which will extract and return the dataset from the response body, when defined it has precedence over the `datasetProperty` */
+  datasetExtractor?: (response: any) => any[];
+
+  /** A callback which will extract and return the cursor page info from the response body, when defined it has precedence over the `pageInfoProperty` */
+  pageInfoExtractor?: (response: any) => CursorPageInfo | undefined;
+}
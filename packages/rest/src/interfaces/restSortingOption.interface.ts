@@ -0,0 +1,9 @@
+import type { SortDirection } from '@slickgrid-universal/common';
+
+export interface RestSortingOption {
+  /** Field name to sort */
+  field: string;
+
+  /** Sort direction (ASC/DESC) */
+  direction: SortDirection;
+}
@@ -0,0 +1,442 @@
+import type {
+  BackendService,
+  Column,
+  ColumnFilters,
+  ColumnSort,
+  CurrentFilter,
+  CurrentSorter,
+  FilterChangedArgs,
+  GridOption,
+  MultiColumnSort,
+  Pagination,
+  SlickGrid,
+} from '@slickgrid-universal/common';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RestServiceApi, RestServiceOption } from '../../interfaces/index.js';
+import { GridRestService } from '../grid-rest.service.js';
+
+let gridOptionMock: GridOption;
+
+const gridStub = {
+  getOptions: () => gridOptionMock,
+  getColumns: vi.fn(),
+  setSortColumns: vi.fn(),
+} as unknown as SlickGrid;
+
+describe('GridRestService', () => {
+  let mockColumns: Column[];
+  let service: GridRestService;
+  let paginationOptions: Pagination;
+  let serviceOptions: RestServiceOption;
+
+  beforeEach(() => {
+    mockColumns = [
+      { id: 'name', field: 'name', width: 100 },
+      { id: 'gender', field: 'gender', width: 100 },
+      { id: 'age', field: 'age', type: 'number', width: 100 },
+    ];
+    service = new GridRestService();
+    serviceOptions = {};
+    paginationOptions = {
+      pageNumber: 1,
+      pageSizes: [5, 10, 25, 50, 100],
+      pageSize: 10,
+      totalItems: 100,
+    };
+    gridOptionMock = {
+      enablePagination: true,
+      defaultFilterRangeOperator: 'RangeInclusive',
+      backendServiceApi: {
+        service: service as unknown as BackendService,
+        preProcess: vi.fn(),
+        process: vi.fn(),
+        postProcess: vi.fn(),
+      } as unknown as RestServiceApi,
+    } as unknown as GridOption;
+    vi.spyOn(gridStub, 'getColumns').mockReturnValue(mockColumns);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create the service', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('init method', () => {
+    it('should initialize the service with the default options merged with the service options and expect the pagination and columns to be set', () => {
+      service.init({ sortParamName: 'orderBy' }, paginationOptions, gridStub);
+
+      expect(service.options).toEqual({ ...service.defaultOptions, sortParamName: 'orderBy' });
+      expect(service.pagination).toEqual(paginationOptions);
+      expect(service.columnDefinitions).toEqual(mockColumns);
+    });
+  });
+
+  describe('buildQuery method', () => {
+    it('should throw an error when the service was not initialized', () => {
+      expect(() => service.buildQuery()).toThrow('REST Service requires to be initialized');
+    });
+
+    it('should return a query with the JSON:API page number and size when nothing else is defined', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      expect(service.buildQuery()).toBe('page[number]=1&page[size]=10');
+    });
+
+    it('should return a query without pagination when "enablePagination" is disabled', () => {
+      gridOptionMock.enablePagination = false;
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      expect(service.buildQuery()).toBe('');
+    });
+
+    it('should return a query with the JSON:API filters, sort and pagination and the filter values URI encoded', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updateOptions({
+        filteringOptions: [
+          { field: 'gender', operator: 'eq', value: 'male' },
+          { field: 'name', operator: 'startsWith', value: 'John & Co' },
+        ],
+        sortingOptions: [
+          { field: 'age', direction: 'DESC' },
+          { field: 'name', direction: 'ASC' },
+        ],
+        paginationOptions: { pageNumber: 3, pageSize: 20 },
+      });
+
+      expect(service.buildQuery()).toBe('filter[gender]=male&filter[name][startsWith]=John%20%26%20Co&sort=-age,name&page[number]=3&page[size]=20');
+    });
+
+    it('should return a query using the custom filter and sort templates with the custom operator names', () => {
+      service.init(
+        {
+          filterTemplate: '{field}_{operator}={value}',
+          equalFilterTemplate: '{field}={value}',
+          operatorMap: { Contains: 'like', GE: 'gte' },
+          sortTemplate: '_sort={field}&_order={direction}',
+        },
+        paginationOptions,
+        gridStub
+      );
+      service.updateFilters(
+        {
+          gender: { columnId: 'gender', columnDef: mockColumns[1], searchTerms: ['male'], operator: 'EQ' },
+          name: { columnId: 'name', columnDef: mockColumns[0], searchTerms: ['jo'] },
+          age: { columnId: 'age', columnDef: mockColumns[2], searchTerms: ['>=18'] },
+        } as unknown as ColumnFilters,
+        false
+      );
+      service.updateSorters([{ columnId: 'age', sortCol: mockColumns[2], sortAsc: false }]);
+
+      expect(service.buildQuery()).toBe('gender=male&name_like=jo&age_gte=18&_sort=age&_order=desc&page[number]=1&page[size]=10');
+    });
+
+    it('should return a query with the offset pagination type', () => {
+      service.init({ paginationType: 'offset' }, paginationOptions, gridStub);
+      service.updatePagination(3, 20);
+
+      expect(service.buildQuery()).toBe('page[offset]=40&page[limit]=20');
+    });
+
+    it('should return a query with custom pagination parameter names', () => {
+      service.init({ paginationType: 'offset', offsetParamName: 'skip', limitParamName: 'take' }, paginationOptions, gridStub);
+      service.updatePagination(2, 10);
+
+      expect(service.buildQuery()).toBe('skip=10&take=10');
+    });
+
+    it('should return a query with the Global Search term and the extra query parameters', () => {
+      service.init({ extraQueryParams: { include: 'company', active: true } }, paginationOptions, gridStub);
+      service.updateGlobalSearch({ searchTerm: 'John Doe' });
+
+      expect(service.buildQuery()).toBe('filter[search]=John%20Doe&page[number]=1&page[size]=10&include=company&active=true');
+    });
+
+    it('should remove the Global Search term when it is cleared', () => {
+      service.init({ globalSearchParamName: 'q' }, paginationOptions, gridStub);
+      service.updateGlobalSearch({ searchTerm: 'John' });
+      expect(service.buildQuery()).toBe('q=John&page[number]=1&page[size]=10');
+
+      service.updateGlobalSearch(null);
+      expect(service.buildQuery()).toBe('page[number]=1&page[size]=10');
+    });
+  });
+
+  describe('cursor pagination', () => {
+    beforeEach(() => {
+      service.init({ useCursor: true }, paginationOptions, gridStub);
+    });
+
+    it('should return a query with only the page size on the first page', () => {
+      service.resetPaginationOptions();
+
+      expect(service.buildQuery()).toBe('page[size]=10');
+    });
+
+    it('should return a query with the "after" cursor when going to the next page', () => {
+      const query = service.processOnPaginationChanged(undefined, { newPage: 2, pageSize: 20, first: 20, after: 'abc=' } as any);
+
+      expect(query).toBe('page[size]=20&page[after]=abc%3D');
+      expect(service.getCurrentPagination()).toEqual({ pageNumber: 2, pageSize: 20 });
+    });
+
+    it('should return a query with the "before" cursor when going to the previous page', () => {
+      const query = service.processOnPaginationChanged(undefined, { newPage: 1, pageSize: 20, last: 20, before: 'xyz' } as any);
+
+      expect(query).toBe('page[size]=20&page[before]=xyz');
+    });
+
+    it('should return a query with an empty "before" cursor when going to the last page', () => {
+      const query = service.processOnPaginationChanged(undefined, { newPage: 5, pageSize: 20, last: 20 } as any);
+
+      expect(query).toBe('page[size]=20&page[before]=');
+    });
+
+    it('should return a query with only the page size when the cursor arguments are not provided', () => {
+      service.updatePagination(3, 20);
+
+      expect(service.buildQuery()).toBe('page[size]=20');
+    });
+  });
+
+  describe('processOnFilterChanged method', () => {
+    it('should throw an error when the backendServiceApi is not defined', () => {
+      gridOptionMock.backendServiceApi = undefined;
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      expect(() => service.processOnFilterChanged(undefined, { columnFilters: {} } as FilterChangedArgs)).toThrow('"backendServiceApi" is not initialized');
+    });
+
+    it('should throw an error when the "args" is not populated correctly', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      expect(() => service.processOnFilterChanged(undefined, { columnFilters: {} } as FilterChangedArgs)).toThrow(
+        'it seems that "args" is not populated correctly'
+      );
+    });
+
+    it('should return a query with the new filter, keep the current filters and go back to the 1st page', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+      service.updatePagination(3, 10);
+      const columnFilters = { gender: { columnId: 'gender', columnDef: mockColumns[1], searchTerms: ['female'], operator: 'EQ' } };
+
+      const query = service.processOnFilterChanged(undefined, { columnFilters, grid: gridStub } as unknown as FilterChangedArgs);
+
+      expect(query).toBe('filter[gender]=female&page[number]=1&page[size]=10');
+      expect(service.getCurrentFilters()).toEqual([{ columnId: 'gender', operator: 'EQ', searchTerms: ['female'] }]);
+      expect(service.getCurrentPagination()).toEqual({ pageNumber: 1, pageSize: 10 });
+    });
+  });
+
+  describe('updateFilters method', () => {
+    beforeEach(() => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+    });
+
+    it('should throw an error when the column definition of a preset filter is not found', () => {
+      const presetFilters = [{ columnId: 'unknown', searchTerms: ['x'] }] as CurrentFilter[];
+
+      expect(() => service.updateFilters(presetFilters, true)).toThrow('[REST Service]: Something went wrong in trying to get the column definition');
+    });
+
+    it('should use the column type default operator when no operator is provided', () => {
+      service.updateFilters(
+        {
+          name: { columnId: 'name', columnDef: mockColumns[0], searchTerms: ['jo'] },
+          age: { columnId: 'age', columnDef: mockColumns[2], searchTerms: ['2.5a'] },
+        } as unknown as ColumnFilters,
+        false
+      );
+
+      expect(service.options?.filteringOptions).toEqual([
+        { field: 'name', operator: 'contains', value: 'jo' },
+        { field: 'age', operator: 'eq', value: '2.5' },
+      ]);
+    });
+
+    it('should add 2 filters for a range and a comma separated value for an "IN" filter', () => {
+      service.updateFilters(
+        {
+          age: { columnId: 'age', columnDef: mockColumns[2], searchTerms: ['18..65'] },
+          gender: { columnId: 'gender', columnDef: mockColumns[1], searchTerms: ['male', 'female'], operator: 'IN' },
+        } as unknown as ColumnFilters,
+        false
+      );
+
+      expect(service.buildQuery()).toBe('filter[age][gte]=18&filter[age][lte]=65&filter[gender][in]=male%2Cfemale&page[number]=1&page[size]=10');
+    });
+
+    it('should add a StartsWith and EndsWith filters when the search value has a wildcard in the middle', () => {
+      service.updateFilters({ name: { columnId: 'name', columnDef: mockColumns[0], searchTerms: ['jo*hn'] } } as unknown as ColumnFilters, false);
+
+      expect(service.options?.filteringOptions).toEqual([
+        { field: 'name', operator: 'startsWith', value: 'jo' },
+        { field: 'name', operator: 'endsWith', value: 'hn' },
+      ]);
+    });
+
+    it('should use the preset filters with their column definitions found by their column id and keep them as the current filters', () => {
+      const presetFilters = [{ columnId: 'gender', searchTerms: ['male'], operator: 'EQ' }] as CurrentFilter[];
+
+      service.updateFilters(presetFilters, true);
+
+      expect(service.getCurrentFilters()).toEqual(presetFilters);
+      expect(service.buildQuery()).toBe('filter[gender]=male&page[number]=1&page[size]=10');
+    });
+
+    it('should use the query string returned by the "filterQueryOverride" instead of the built-in filter and remove it when the filters are cleared', () => {
+      service.updateOptions({
+        filterQueryOverride: ({ fieldName, searchValues }) => (fieldName === 'age' ? `age=between:${searchValues[0]}` : undefined),
+      });
+      service.updateFilters(
+        {
+          name: { columnId: 'name', columnDef: mockColumns[0], searchTerms: ['jo'] },
+          age: { columnId: 'age', columnDef: mockColumns[2], searchTerms: ['18,65'] },
+        } as unknown as ColumnFilters,
+        false
+      );
+      expect(service.buildQuery()).toBe('filter[name][contains]=jo&age=between:18,65&page[number]=1&page[size]=10');
+
+      service.clearFilters();
+      expect(service.buildQuery()).toBe('page[number]=1&page[size]=10');
+      expect(service.getCurrentFilters()).toEqual([]);
+    });
+  });
+
+  describe('sorting', () => {
+    beforeEach(() => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+    });
+
+    it('should return a query with the multiple sorts when calling "processOnSortChanged" with a multi-column sort', () => {
+      const query = service.processOnSortChanged(undefined, {
+        multiColumnSort: true,
+        sortCols: [
+          { columnId: 'gender', sortCol: mockColumns[1], sortAsc: false },
+          { columnId: 'name', sortCol: { ...mockColumns[0], queryFieldSorter: 'lastName' }, sortAsc: true },
+        ],
+      } as MultiColumnSort);
+
+      expect(query).toBe('sort=-gender,lastName&page[number]=1&page[size]=10');
+      expect(service.getCurrentSorters()).toEqual([
+        { columnId: 'gender', direction: 'DESC' },
+        { columnId: 'name', direction: 'ASC' },
+      ]);
+    });
+
+    it('should go back to the 1st page when sorting with infinite scroll', () => {
+      service.updateOptions({ infiniteScroll: { fetchSize: 30 } });
+      service.updatePagination(4, 30);
+
+      const query = service.processOnSortChanged(undefined, { columnId: 'age', sortCol: mockColumns[2], sortAsc: true } as ColumnSort);
+
+      expect(query).toBe('sort=age&page[number]=1&page[size]=30');
+    });
+
+    it('should use the preset sorters and display the sort icons of the column found in the column definitions', () => {
+      const presetSorters = [
+        { columnId: 'age', direction: 'desc' },
+        { columnId: 'unknown', direction: 'asc' },
+      ] as CurrentSorter[];
+
+      service.updateSorters(undefined, presetSorters);
+
+      expect(gridStub.setSortColumns).toHaveBeenCalledWith([{ columnId: 'age', sortAsc: false }]);
+      expect(service.buildQuery()).toBe('sort=-age,unknown&page[number]=1&page[size]=10');
+    });
+
+    it('should remove the sort from the query when calling "clearSorters"', () => {
+      service.updateSorters([{ columnId: 'age', sortCol: mockColumns[2], sortAsc: true }]);
+      service.clearSorters();
+
+      expect(service.buildQuery()).toBe('page[number]=1&page[size]=10');
+      expect(service.getCurrentSorters()).toEqual([]);
+    });
+  });
+
+  describe('getDatasetFromProcessResult method', () => {
+    beforeEach(() => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+    });
+
+    it('should flatten the JSON:API resources and read the total items from the "meta.total" of the body', () => {
+      const result = service.getDatasetFromProcessResult({
+        data: [{ id: '1', type: 'users', attributes: { name: 'John', age: 20 } }],
+        meta: { total: 45 },
+      });
+
+      expect(result).toEqual({ dataset: [{ id: '1', name: 'John', age: 20 }], totalItems: 45, pageInfo: undefined });
+    });
+
+    it('should read the total items from the "X-Total-Count" header of a Fetch API Headers object and use the body itself as the dataset when it is an array', () => {
+      const result = service.getDatasetFromProcessResult({
+        body: [{ id: 1, name: 'John' }],
+        headers: new Headers({ 'X-Total-Count': '123' }),
+      });
+
+      expect(result).toEqual({ dataset: [{ id: 1, name: 'John' }], totalItems: 123, pageInfo: undefined });
+    });
+
+    it('should read the total items from a case insensitive header of a plain headers object and fallback to the body when the header is missing', () => {
+      service.updateOptions({ totalItemsHeader: 'X-Total' });
+
+      expect(service.getDatasetFromProcessResult({ body: { data: [] }, headers: { 'x-total': ['88'] } }).totalItems).toBe(88);
+      expect(service.getDatasetFromProcessResult({ body: { data: [], meta: { total: 9 } }, headers: {} }).totalItems).toBe(9);
+    });
+
+    it('should use the custom properties to read the dataset, the total items and the cursor page info', () => {
+      const pageInfo = { startCursor: 'a', endCursor: 'b', hasNextPage: true, hasPreviousPage: false };
+      service.updateOptions({ datasetProperty: 'result.items', totalItemsProperty: 'result.count', pageInfoProperty: 'result.pageInfo' });
+
+      const result = service.getDatasetFromProcessResult({ result: { items: [{ id: 1 }], count: 1, pageInfo } });
+
+      expect(result).toEqual({ dataset: [{ id: 1 }], totalItems: 1, pageInfo });
+    });
+
+    it('should use the extractor callbacks when they are defined', () => {
+      const pageInfo = { startCursor: 'a', endCursor: 'b', hasNextPage: false, hasPreviousPage: true };
+      service.updateOptions({
+        countExtractor: (response) => response.paging.total,
+        datasetExtractor: (response) => response.records,
+        pageInfoExtractor: (response) => response.paging.cursors,
+      });
+
+      const result = service.getDatasetFromProcessResult({
+        body: { records: [{ id: 2 }], paging: { total: 2, cursors: pageInfo } },
+        headers: { 'X-Total-Count': '99' },
+      });
+
+      expect(result).toEqual({ dataset: [{ id: 2 }], totalItems: 2, pageInfo });
+    });
+
+    it('should not flatten the JSON:API resources when "flattenResources" is disabled and return an empty dataset when it is not found', () => {
+      service.updateOptions({ flattenResources: false });
+      const resource = { id: '1', type: 'users', attributes: { name: 'John' } };
+
+      expect(service.getDatasetFromProcessResult({ data: [resource] }).dataset).toEqual([resource]);
+      expect(service.getDatasetFromProcessResult({ other: [] })).toEqual({ dataset: [], totalItems: undefined, pageInfo: undefined });
+    });
+  });
+
+  describe('postProcess method', () => {
+    it('should update the pagination total items and flatten the JSON:API resources of the response dataset in place', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+      const response = { data: [{ id: '1', type: 'users', attributes: { name: 'John' } }], meta: { total: 1 } };
+
+      service.postProcess(response);
+
+      expect(response.data).toEqual([{ id: '1', name: 'John' }]);
+      expect(service.pagination?.totalItems).toBe(1);
+    });
+
+    it('should keep the pagination total items when the total items is not found in the response', () => {
+      service.init(serviceOptions, paginationOptions, gridStub);
+
+      service.postProcess({ body: [{ id: 1 }], headers: new Headers() });
+
+      expect(service.pagination?.totalItems).toBe(100);
+    });
+  });
+});
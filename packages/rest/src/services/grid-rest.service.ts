@@ -0,0 +1,794 @@
+import type {
+  BackendService,
+  BackendServiceDatasetResult,
+  Column,
+  ColumnFilter,
+  ColumnFilters,
+  ColumnSort,
+  CurrentFilter,
+  CurrentGlobalSearch,
+  CurrentPagination,
+  CurrentSorter,
+  CursorPageInfo,
+  FilterChangedArgs,
+  GridOption,
+  InfiniteScrollOption,
+  MultiColumnSort,
+  OperatorType,
+  Pagination,
+  PaginationChangedArgs,
+  PaginationCursorChangedArgs,
+  SingleColumnSort,
+  SlickGrid,
+  SortDirection,
+} from '@slickgrid-universal/common';
+import { mapOperatorByFieldType, mapOperatorType, type FieldType } from '@slickgrid-universal/common';
+import { getHtmlStringOutput, stripTags } from '@slickgrid-universal/utils';
+import type {
+  RestCursorPaginationOption,
+  RestFilteringOption,
+  RestPaginationOption,
+  RestResponse,
+  RestServiceOption,
+  RestSortingOption,
+} from '../interfaces/index.js';
+
+const DEFAULT_ITEMS_PER_PAGE = 25;
+const DEFAULT_PAGE_SIZE = 20;
+
+/** Default operator names sent to the server, the keys are the operators returned by `mapOperatorType()` */
+const DEFAULT_OPERATOR_MAP: Record<string, string> = {
+  EQ: 'eq',
+  NE: 'ne',
+  GT: 'gt',
+  GE: 'gte',
+  LT: 'lt',
+  LE: 'lte',
+  Contains: 'contains',
+  Not_Contains: 'notContains',
+  StartsWith: 'startsWith',
+  EndsWith: 'endsWith',
+  IN: 'in',
+  NOT_IN: 'nin',
+};
+
+export class GridRestService implements BackendService {
+  protected _currentFilters: ColumnFilters | CurrentFilter[] = [];
+  protected _currentPagination: CurrentPagination | null = null;
+  protected _currentSorters: CurrentSorter[] = [];
+  protected _columns?: Column[];
+  protected _grid?: SlickGrid;
+  protected _filterQueryOverrides: string[] = [];
+  options?: RestServiceOption;
+  pagination?: Pagination;
+  defaultOptions: RestServiceOption = {
+    filterTemplate: 'filter[{field}][{operator}]={value}',
+    equalFilterTemplate: 'filter[{field}]={value}',
+    sortParamName: 'sort',
+    paginationType: 'page',
+    pageNumberParamName: 'page[number]',
+    pageSizeParamName: 'page[size]',
+    offsetParamName: 'page[offset]',
+    limitParamName: 'page[limit]',
+    afterParamName: 'page[after]',
+    beforeParamName: 'page[before]',
+    globalSearchParamName: 'filter[search]',
+    totalItemsHeader: 'X-Total-Count',
+    totalItemsProperty: 'meta.total',
+    datasetProperty: 'data',
+    pageInfoProperty: 'meta.pageInfo',
+    flattenResources: true,
+  };
+
+  /** Getter for the Column Definitions */
+  get columnDefinitions(): Column[] | undefined {
+    return this._columns;
+  }
+
+  /** Getter for the Grid Options pulled through the Grid Object */
+  protected get _gridOptions(): GridOption {
+    return this._grid?.getOptions() ?? ({} as GridOption);
+  }
+
+  /** Initialization of the service, which acts as a constructor */
+  init(serviceOptions?: RestServiceOption, pagination?: Pagination, grid?: SlickGrid): void {
+    this._grid = grid;
+    this.options = { ...this.defaultOptions, ...serviceOptions };
+    this.pagination = pagination;
+
+    if (typeof grid?.getColumns === 'function') {
+      this._columns = grid.getColumns() ?? [];
+    }
+  }
+
+  /**
+   * Build the query string (without the leading "?") from the filtering, sorting and pagination options,
+   * ex.: `filter[gender]=male&filter[age][gte]=18&sort=-age,name&page[number]=2&page[size]=20`
+   */
+  buildQuery(): string {
+    if (!this.options) {
+      throw new Error('REST Service requires to be initialized with its options (by calling "init()") before building a query');
+    }
+    const queryParams: string[] = [];
+
+    for (const filter of this.options.filteringOptions ?? []) {
+      const template =
+        (filter.operator === this.getOperatorName('EQ') ? this.options.equalFilterTemplate : undefined) ?? this.options.filterTemplate;
+      queryParams.push(
+        `${template}`
+          .replace(/\{field\}/g, filter.field)
+          .replace(/\{operator\}/g, filter.operator)
+          .replace(/\{value\}/g, encodeURIComponent(filter.value))
+      );
+    }
+    queryParams.push(...this._filterQueryOverrides);
+
+    if (this.options.globalSearchTerm) {
+      queryParams.push(`${this.options.globalSearchParamName}=${encodeURIComponent(this.options.globalSearchTerm)}`);
+    }
+
+    const sorters = this.options.sortingOptions ?? [];
+    if (sorters.length) {
+      if (this.options.sortTemplate) {
+        for (const sorter of sorters) {
+          queryParams.push(
+            this.options.sortTemplate.replace(/\{field\}/g, sorter.field).replace(/\{direction\}/g, sorter.direction.toLowerCase())
+          );
+        }
+      } else {
+        // JSON:API sorting, multiple sorts are comma separated and a descending sort is prefixed by a "-", e.g.: sort=-age,name
+        const sortFields = sorters.map((sorter) => `${sorter.direction.toUpperCase() === 'DESC' ? '-' : ''}${sorter.field}`);
+        queryParams.push(`${this.options.sortParamName}=${sortFields.join(',')}`);
+      }
+    }
+
+    if (this.isPaginated()) {
+      queryParams.push(...this.getPaginationParams());
+    }
+
+    for (const [paramName, paramValue] of Object.entries(this.options.extraQueryParams ?? {})) {
+      queryParams.push(`${paramName}=${encodeURIComponent(paramValue)}`);
+    }
+
+    // join all the query parameters by a '&'
+    return queryParams.join('&');
+  }
+
+  /** Read the total item count from the response and update the pagination, also flatten the JSON:API resources of the dataset */
+  postProcess(processResult: any): void {
+    const { dataset, totalItems } = this.getDatasetFromProcessResult(processResult);
+
+    // replace the dataset items in place, so that the dataset of the response can be used as is in the user's postProcess
+    if (this.options?.flattenResources !== false) {
+      const responseDataset = this.getResponseDataset(this.getResponseBody(processResult));
+      if (Array.isArray(responseDataset)) {
+        responseDataset.splice(0, responseDataset.length, ...dataset);
+      }
+    }
+
+    if (this.pagination && totalItems !== undefined) {
+      this.pagination.totalItems = totalItems;
+    }
+  }
+
+  clearFilters(): void {
+    this._currentFilters = [];
+    this._filterQueryOverrides = [];
+    this.updateOptions({ filteringOptions: [] });
+  }
+
+  clearSorters(): void {
+    this._currentSorters = [];
+    this.updateOptions({ sortingOptions: [] });
+  }
+
+  /**
+   * Extract the dataset, the total item count and the cursor page info from the REST result,
+   * the result could be the response body or an object with the response body and headers (`{ body, headers }`)
+   */
+  getDatasetFromProcessResult(processResult: any): BackendServiceDatasetResult {
+    const body = this.getResponseBody(processResult);
+    const dataset = this.getResponseDataset(body);
+    const totalItems = this.getTotalItems(processResult);
+    const pageInfo: CursorPageInfo | undefined = this.options?.pageInfoExtractor
+      ? this.options.pageInfoExtractor(body)
+      : this.getPropertyValue(body, this.options?.pageInfoProperty);
+
+    return {
+      dataset: Array.isArray(dataset)
+        ? this.options?.flattenResources !== false
+          ? dataset.map((item) => this.flattenResource(item))
+          : dataset
+        : [],
+      totalItems,
+      pageInfo: pageInfo ?? undefined,
+    };
+  }
+
+  /**
+   * Get default initial Pagination options
+   * @return Pagination Options
+   */
+  getInitPaginationOptions(): RestPaginationOption | RestCursorPaginationOption {
+    const pageSize =
+      (this.options?.infiniteScroll as InfiniteScrollOption)?.fetchSize ?? this.pagination?.pageSize ?? DEFAULT_ITEMS_PER_PAGE;
+    return this.options?.useCursor ? { first: pageSize } : { pageNumber: 1, pageSize, offset: 0 };
+  }
+
+  /** Get the Filters that are currently used by the grid */
+  getCurrentFilters(): ColumnFilters | CurrentFilter[] {
+    return this._currentFilters;
+  }
+
+  /** Get the Pagination that is currently used by the grid */
+  getCurrentPagination(): CurrentPagination | null {
+    return this._currentPagination;
+  }
+
+  /** Get the Sorters that are currently used by the grid */
+  getCurrentSorters(): CurrentSorter[] {
+    return this._currentSorters;
+  }
+
+  /*
+   * Reset the pagination options
+   */
+  resetPaginationOptions(): void {
+    const paginationOptions = this.getInitPaginationOptions();
+
+    // save current pagination as Page 1 and page size
+    this._currentPagination = {
+      pageNumber: 1,
+      pageSize: ('pageSize' in paginationOptions ? paginationOptions.pageSize : paginationOptions.first) || DEFAULT_PAGE_SIZE,
+    };
+
+    // unless user specifically set "enablePagination" to False, we'll update pagination options in every other cases
+    if (
+      this._gridOptions &&
+      (this._gridOptions.enablePagination || !('enablePagination' in this._gridOptions) || this.options?.infiniteScroll)
+    ) {
+      this.updateOptions({ paginationOptions });
+    }
+  }
+
+  updateOptions(serviceOptions?: Partial<RestServiceOption>): void {
+    this.options = { ...this.options, ...serviceOptions } as RestServiceOption;
+  }
+
+  /*
+   * FILTERING
+   */
+  processOnFilterChanged(_event: Event | undefined, args: FilterChangedArgs): string {
+    const gridOptions: GridOption = this._gridOptions;
+    const backendApi = gridOptions.backendServiceApi;
+
+    if (backendApi === undefined) {
+      throw new Error('Something went wrong in the GridRestService, "backendServiceApi" is not initialized');
+    }
+
+    // keep current filters & always save it as an array (columnFilters can be an object when it is dealt by SlickGrid Filter)
+    this._currentFilters = this.castFilterToColumnFilters(args.columnFilters);
+
+    if (!args || !args.grid) {
+      throw new Error('Something went wrong when trying create the REST Backend Service, it seems that "args" is not populated correctly');
+    }
+
+    // loop through all columns to inspect filters & set the query
+    this.updateFilters(args.columnFilters, false);
+
+    this.resetPaginationOptions();
+    return this.buildQuery();
+  }
+
+  /*
+   * PAGINATION
+   * With a cursor, the query string has the page size and the cursor to start from (after or before), for example:
+   *   page[size]=20&page[after]=YXJyYXk6MTk=
+   * Without a cursor, the query string has the page number and size (or offset and limit with the "offset" pagination type), for example:
+   *   page[number]=2&page[size]=20
+   */
+  processOnPaginationChanged(
+    _event: Event | undefined,
+    args: PaginationChangedArgs | (PaginationCursorChangedArgs & PaginationChangedArgs)
+  ): string {
+    const pageSize = +(
+      (this.options?.infiniteScroll as InfiniteScrollOption)?.fetchSize ||
+      args.pageSize ||
+      (this.pagination ? this.pagination.pageSize : DEFAULT_PAGE_SIZE)
+    );
+
+    // if first/last defined on args, then it is a cursor based pagination change
+    'first' in args || 'last' in args ? this.updatePagination(args.newPage, pageSize, args) : this.updatePagination(args.newPage, pageSize);
+
+    // build the query string which we will use in the WebAPI callback
+    return this.buildQuery();
+  }
+
+  /*
+   * SORTING
+   */
+  processOnSortChanged(_event: Event | undefined, args: SingleColumnSort | MultiColumnSort): string {
+    const sortColumns = args.multiColumnSort
+      ? (args as MultiColumnSort).sortCols
+      : new Array({
+          columnId: (args as ColumnSort).sortCol?.id ?? '',
+          sortCol: (args as ColumnSort).sortCol,
+          sortAsc: (args as ColumnSort).sortAsc,
+        });
+
+    // loop through all columns to inspect sorters & set the query
+    this.updateSorters(sortColumns);
+
+    // when using infinite scroll, we need to go back to 1st page
+    if (this.options?.infiniteScroll) {
+      this.resetPaginationOptions();
+    }
+
+    // build the query string which we will use in the WebAPI callback
+    return this.buildQuery();
+  }
+
+  /**
+   * Update column filters by looping through all columns to inspect filters & update backend service filteringOptions
+   * @param columnFilters
+   */
+  updateFilters(columnFilters: ColumnFilters | CurrentFilter[], isUpdatedByPresetOrDynamically: boolean): void {
+    const filters: RestFilteringOption[] = [];
+    const filterQueryOverrides: string[] = [];
+    let searchValue: string | string[];
+
+    // on filter preset load, we need to keep current filters
+    if (isUpdatedByPresetOrDynamically) {
+      this._currentFilters = this.castFilterToColumnFilters(columnFilters);
+    }
+
+    for (const columnId in columnFilters) {
+      if (columnId in columnFilters) {
+        const columnFilter = (columnFilters as any)[columnId];
+
+        // if user defined some "presets", then we need to find the filters from the column definitions instead
+        let columnDef: Column | undefined;
+        if (isUpdatedByPresetOrDynamically && Array.isArray(this._columns)) {
+          columnDef = this._columns.find((column: Column) => column.id === columnFilter.columnId);
+        } else {
+          columnDef = columnFilter.columnDef;
+        }
+        if (!columnDef) {
+          throw new Error(
+            '[REST Service]: Something went wrong in trying to get the column definition of the specified filter (or preset filters). Did you make a typo on the filter columnId?'
+          );
+        }
+
+        let fieldName =
+          columnDef.filter?.queryField || columnDef.queryFieldFilter || columnDef.queryField || columnDef.field || columnDef.name || '';
+        if (fieldName instanceof HTMLElement) {
+          fieldName = stripTags(fieldName.innerHTML);
+        }
+        const fieldType = columnDef.type || 'string';
+        let searchTerms = columnFilter?.searchTerms ?? [];
+        let fieldSearchValue = Array.isArray(searchTerms) && searchTerms.length === 1 ? searchTerms[0] : '';
+        if (typeof fieldSearchValue === 'undefined') {
+          fieldSearchValue = '';
+        }
+
+        if (!fieldName) {
+          throw new Error(
+            `REST filter could not find the field name to query the search, your column definition must include a valid "field" or "name" (optionally you can also use the "queryfield").`
+          );
+        }
+        fieldName = getHtmlStringOutput(fieldName);
+
+        fieldSearchValue = fieldSearchValue === undefined || fieldSearchValue === null ? '' : `${fieldSearchValue}`; // make sure it's a string
+
+        // run regex to find possible filter operators unless the user disabled the feature
+        const autoParseInputFilterOperator = columnDef.autoParseInputFilterOperator ?? this._gridOptions.autoParseInputFilterOperator;
+
+        // group (2): comboStartsWith, (3): comboEndsWith, (4): Operator, (1 or 5): searchValue, (6): last char is '*' (meaning starts with, ex.: abc*)
+        const matches =
+          autoParseInputFilterOperator !== false
+            ? fieldSearchValue.match(/^((.*[^\\*\r\n])[*]{1}(.*[^*\r\n]))|^([<>!=*]{0,2})(.*[^<>!=*])([*]?)$/) || []
+            : [fieldSearchValue, '', '', '', '', fieldSearchValue, ''];
+
+        const comboStartsWith = matches?.[2] || '';
+        const comboEndsWith = matches?.[3] || '';
+        let operator = columnFilter.operator || matches?.[4];
+        searchValue = matches?.[1] || matches?.[5] || '';
+        const lastValueChar = matches?.[6] || operator === '*z' || operator === 'EndsWith' ? '*' : '';
+
+        // no need to query if search value is empty
+        if (fieldName && searchValue === '' && searchTerms.length === 0) {
+          continue;
+        }
+
+        let filterQueryOverride: string | undefined = undefined;
+        if (typeof this.options?.filterQueryOverride === 'function') {
+          filterQueryOverride = this.options?.filterQueryOverride({
+            fieldName,
+            columnDef,
+            operator,
+            columnFilterOperator: columnFilter.operator,
+            searchValues: searchTerms,
+            grid: this._grid,
+          });
+        }
+
+        if (filterQueryOverride !== undefined) {
+          // since this is a Custom Filter, the query string of the filter is used as is
+          filterQueryOverrides.push(filterQueryOverride);
+          continue;
+        }
+
+        if (comboStartsWith && comboEndsWith) {
+          searchTerms = [comboStartsWith, comboEndsWith];
+          operator = 'StartsWithEndsWith';
+        } else if (
+          Array.isArray(searchTerms) &&
+          searchTerms.length === 1 &&
+          typeof searchTerms[0] === 'string' &&
+          searchTerms[0].indexOf('..') >= 0
+        ) {
+          if (operator !== 'RangeInclusive' && operator !== 'RangeExclusive') {
+            operator = this._gridOptions.defaultFilterRangeOperator ?? 'RangeInclusive';
+          }
+          searchTerms = searchTerms[0].split('..', 2);
+          if (searchTerms[0] === '') {
+            operator = operator === 'RangeInclusive' ? '<=' : operator === 'RangeExclusive' ? '<' : operator;
+            searchTerms = searchTerms.slice(1);
+            searchValue = searchTerms[0];
+          } else if (searchTerms[1] === '') {
+            operator = operator === 'RangeInclusive' ? '>=' : operator === 'RangeExclusive' ? '>' : operator;
+            searchTerms = searchTerms.slice(0, 1);
+            searchValue = searchTerms[0];
+          }
+        }
+
+        if (typeof searchValue === 'string') {
+          if (operator === '*' || operator === 'a*' || operator === '*z' || lastValueChar === '*') {
+            operator = (operator === '*' || operator === '*z' ? 'EndsWith' : 'StartsWith') as OperatorType;
+          }
+        }
+
+        // if we didn't find an Operator but we have a Column Operator inside the Filter (DOM Element), we should use its default Operator
+        // multipleSelect is "IN", while singleSelect is "EQ", else don't map any operator
+        if (!operator && columnDef.filter && columnDef.filter.operator) {
+          operator = columnDef.filter.operator;
+        }
+
+        // No operator and 2 search terms should lead to default range operator.
+        if (!operator && Array.isArray(searchTerms) && searchTerms.length === 2 && searchTerms[0] && searchTerms[1]) {
+          operator = this._gridOptions.defaultFilterRangeOperator as OperatorType;
+        }
+
+        // Range with 1 searchterm should lead to equals for a date field.
+        if (
+          (operator === 'RangeInclusive' || operator === 'RangeExclusive') &&
+          Array.isArray(searchTerms) &&
+          searchTerms.length === 1 &&
+          fieldType === 'date'
+        ) {
+          operator = 'EQ';
+        }
+
+        // Normalize all search values
+        searchValue = this.normalizeSearchValue(fieldType, searchValue);
+        if (Array.isArray(searchTerms)) {
+          searchTerms.forEach((_part, index) => {
+            searchTerms[index] = this.normalizeSearchValue(fieldType, searchTerms[index]);
+          });
+        }
+
+        // StartsWith + EndsWith combo
+        if (operator === 'StartsWithEndsWith' && Array.isArray(searchTerms) && searchTerms.length === 2) {
+          // add 2 conditions (StartsWith A + EndsWith B) to the filters
+          filters.push({ field: fieldName, operator: this.getOperatorName('StartsWith'), value: comboStartsWith });
+          filters.push({ field: fieldName, operator: this.getOperatorName('EndsWith'), value: comboEndsWith });
+          continue;
+        }
+
+        // when having more than 1 search term (we need to create a CSV string for an "IN" or "NOT IN" filter search)
+        if (searchTerms?.length > 1 && (operator === 'IN' || operator === 'NIN' || operator === 'NOT_IN')) {
+          searchValue = searchTerms.join(',');
+        } else if (searchTerms?.length === 2 && (operator === 'RangeExclusive' || operator === 'RangeInclusive')) {
+          filters.push({
+            field: fieldName,
+            operator: this.getOperatorName(operator === 'RangeInclusive' ? 'GE' : 'GT'),
+            value: searchTerms[0],
+          });
+          filters.push({
+            field: fieldName,
+            operator: this.getOperatorName(operator === 'RangeInclusive' ? 'LE' : 'LT'),
+            value: searchTerms[1],
+          });
+          continue;
+        }
+
+        // if we still don't have an operator find the proper Operator to use according field type
+        if (!operator) {
+          operator = mapOperatorByFieldType(fieldType);
+        }
+
+        // build the filters array
+        filters.push({ field: fieldName, operator: this.getOperatorName(mapOperatorType(operator)), value: `${searchValue}` });
+      }
+    }
+
+    // update the service options with filters for the buildQuery() to work later, the custom filters query strings are kept as is
+    this._filterQueryOverrides = filterQueryOverrides;
+    this.updateOptions({ filteringOptions: filters });
+  }
+
+  /**
+   * Update the Global Search (quick search across all columns) which will be sent as an extra query parameter,
+   * the parameter name can be changed via the `globalSearchParamName` option (defaults to "filter[search]")
+   * @param {CurrentGlobalSearch | null} globalSearch - the Global Search to apply, provide `null` (or an empty search term) to remove it
+   */
+  updateGlobalSearch(globalSearch: CurrentGlobalSearch | null): void {
+    this.updateOptions({ globalSearchTerm: globalSearch?.searchTerm || undefined });
+
+    // the result set changed, so we need to go back to the 1st page
+    this.resetPaginationOptions();
+  }
+
+  /**
+   * Update the pagination component with it's new page number and size.
+   * @param {Number} newPage
+   * @param {Number} pageSize
+   * @param {*} [cursorArgs] these should be supplied when using cursor based pagination
+   */
+  updatePagination(newPage: number, pageSize: number, cursorArgs?: PaginationCursorChangedArgs): void {
+    this._currentPagination = {
+      pageNumber: newPage,
+      pageSize,
+    };
+
+    let paginationOptions: RestPaginationOption | RestCursorPaginationOption;
+    if (this.options?.useCursor) {
+      // use cursor based pagination
+      // when using cursor pagination, expect to be given a PaginationCursorChangedArgs as arguments,
+      // but still handle the case where it's not (can happen when initial configuration not pre-configured (automatically corrects itself next setCursorPageInfo() call))
+      if (cursorArgs && cursorArgs instanceof Object) {
+        const { first, last, after, before } = cursorArgs;
+        paginationOptions = { first, last, after, before };
+      } else {
+        paginationOptions = { first: pageSize };
+      }
+    } else {
+      // use page or offset based pagination, make sure the offset is always over 0
+      paginationOptions = { pageNumber: newPage, pageSize, offset: newPage > 1 ? (newPage - 1) * pageSize : 0 };
+    }
+
+    this.updateOptions({ paginationOptions });
+  }
+
+  /**
+   * Update all Sorting by looping through all columns to inspect sorters & update backend service sortingOptions
+   */
+  updateSorters(sortColumns?: ColumnSort[], presetSorters?: CurrentSorter[]): void {
+    let currentSorters: CurrentSorter[] = [];
+    const restSorters: RestSortingOption[] = [];
+
+    if (!sortColumns && presetSorters) {
+      // make the presets the current sorters, also make sure that all direction are in uppercase
+      currentSorters = presetSorters;
+      currentSorters.forEach((sorter) => (sorter.direction = sorter.direction.toUpperCase() as SortDirection));
+
+      // display the correct sorting icons on the UI, for that it requires (columnId, sortAsc) properties
+      const tmpSorterArray = currentSorters.map((sorter) => {
+        const columnDef = this._columns?.find((column: Column) => column.id === sorter.columnId);
+
+        restSorters.push({
+          field: columnDef ? (columnDef.queryFieldSorter || columnDef.queryField || columnDef.field) + '' : sorter.columnId + '',
+          direction: sorter.direction,
+        });
+
+        // return only the column(s) found in the Column Definitions ELSE null
+        if (columnDef) {
+          return {
+            columnId: sorter.columnId,
+            sortAsc: sorter.direction.toUpperCase() === 'ASC',
+          };
+        }
+        return null;
+      }) as { columnId: string | number; sortAsc: boolean }[] | null;
+
+      // set the sort icons, but also make sure to filter out null values (that happens when columnDef is not found)
+      if (Array.isArray(tmpSorterArray) && this._grid) {
+        this._grid.setSortColumns(tmpSorterArray.filter((sorter) => sorter) || []);
+      }
+    } else if (sortColumns && !presetSorters) {
+      // build the sorters array, it could be multisort, example: sort=-lastName,firstName
+      if (Array.isArray(sortColumns) && sortColumns.length > 0) {
+        for (const sortColumn of sortColumns) {
+          if (sortColumn && sortColumn.sortCol) {
+            currentSorters.push({
+              columnId: sortColumn.sortCol.id + '',
+              direction: sortColumn.sortAsc ? 'ASC' : 'DESC',
+            });
+
+            const fieldName = (sortColumn.sortCol.queryFieldSorter || sortColumn.sortCol.queryField || sortColumn.sortCol.field || '') + '';
+            if (fieldName) {
+              restSorters.push({
+                field: fieldName,
+                direction: sortColumn.sortAsc ? 'ASC' : 'DESC',
+              });
+            }
+          }
+        }
+      }
+    }
+
+    // keep current Sorters and update the service options with the new sorting
+    this._currentSorters = currentSorters;
+    this.updateOptions({ sortingOptions: restSorters });
+  }
+
+  //
+  // protected functions
+  // -------------------
+
+  /**
+   * Cast provided filters (could be in multiple formats) into an array of CurrentFilter
+   * @param columnFilters
+   */
+  protected castFilterToColumnFilters(columnFilters: ColumnFilters | CurrentFilter[]): CurrentFilter[] {
+    // keep current filters & always save it as an array (columnFilters can be an object when it is dealt by SlickGrid Filter)
+    const filtersArray: ColumnFilter[] =
+      typeof columnFilters === 'object' ? Object.keys(columnFilters).map((key) => (columnFilters as any)[key]) : columnFilters;
+
+    if (!Array.isArray(filtersArray)) {
+      return [];
+    }
+
+    return filtersArray.map((filter) => {
+      const tmpFilter: CurrentFilter = { columnId: filter.columnId || '' };
+      if (filter.operator) {
+        tmpFilter.operator = filter.operator;
+      }
+      if (filter.targetSelector) {
+        tmpFilter.targetSelector = filter.targetSelector;
+      }
+      if (Array.isArray(filter.searchTerms)) {
+        tmpFilter.searchTerms = filter.searchTerms;
+      }
+      return tmpFilter;
+    });
+  }
+
+  /** Flatten a JSON:API resource (`{ id, type, attributes: { ... } }`) into a plain item (`{ id, ...attributes }`), any other item is returned as is */
+  protected flattenResource(item: any): any {
+    if (item && typeof item === 'object' && typeof item.type === 'string' && item.attributes && typeof item.attributes === 'object') {
+      return { id: item.id, ...item.attributes };
+    }
+    return item;
+  }
+
+  /** Get the operator name sent to the server of a grid operator, the `operatorMap` option has precedence over the default operator names */
+  protected getOperatorName(operator: OperatorType): string {
+    return this.options?.operatorMap?.[operator] ?? DEFAULT_OPERATOR_MAP[operator] ?? `${operator}`;
+  }
+
+  /** Get the query parameters of the pagination, which are different for the "page", "offset" and cursor pagination */
+  protected getPaginationParams(): string[] {
+    const paginationOptions: RestPaginationOption & RestCursorPaginationOption = {
+      ...this.getInitPaginationOptions(),
+      ...this.options?.paginationOptions,
+    } as RestPaginationOption & RestCursorPaginationOption;
+
+    if (this.options?.useCursor) {
+      const params = [`${this.options.pageSizeParamName}=${paginationOptions.first ?? paginationOptions.last}`];
+      if (paginationOptions.after) {
+        params.push(`${this.options.afterParamName}=${encodeURIComponent(paginationOptions.after)}`);
+      } else if (paginationOptions.before || paginationOptions.last) {
+        // going backward without a cursor means going to the last page
+        params.push(`${this.options.beforeParamName}=${encodeURIComponent(paginationOptions.before ?? '')}`);
+      }
+      return params;
+    }
+    if (this.options?.paginationType === 'offset') {
+      return [
+        `${this.options.offsetParamName}=${paginationOptions.offset ?? 0}`,
+        `${this.options.limitParamName}=${paginationOptions.pageSize}`,
+      ];
+    }
+    return [
+      `${this.options?.pageNumberParamName}=${paginationOptions.pageNumber ?? 1}`,
+      `${this.options?.pageSizeParamName}=${paginationOptions.pageSize}`,
+    ];
+  }
+
+  /** Get a property value of an object by its path, the path could use the dot notation (e.g. "meta.total") */
+  protected getPropertyValue(obj: any, path?: string): any {
+    return path ? path.split('.').reduce((value, prop) => value?.[prop], obj) : undefined;
+  }
+
+  /** Get the response body of the REST result, which is the result itself unless it includes the response headers (`{ body, headers }`) */
+  protected getResponseBody(processResult: any): any {
+    return this.isRestResponse(processResult) ? processResult.body : processResult;
+  }
+
+  /** Get the dataset array of the response body, it is the body itself when the body is an array */
+  protected getResponseDataset(body: any): any[] | undefined {
+    if (this.options?.datasetExtractor) {
+      return this.options.datasetExtractor(body);
+    }
+    return Array.isArray(body) ? body : this.getPropertyValue(body, this.options?.datasetProperty);
+  }
+
+  /**
+   * Get the total item count from the REST result, it is read (in that order) from the `countExtractor` callback,
+   * from the response header (`totalItemsHeader`) and finally from the response body (`totalItemsProperty`)
+   */
+  protected getTotalItems(processResult: any): number | undefined {
+    const body = this.getResponseBody(processResult);
+    let totalItems: any;
+
+    if (this.options?.countExtractor) {
+      totalItems = this.options.countExtractor(body);
+    } else {
+      const headers = this.isRestResponse(processResult) ? processResult.headers : undefined;
+      const headerName = this.options?.totalItemsHeader;
+      if (headers && headerName) {
+        if (typeof (headers as Headers).get === 'function') {
+          totalItems = (headers as Headers).get(headerName);
+        } else {
+          // header names are case insensitive
+          const headerKey = Object.keys(headers).find((key) => key.toLowerCase() === headerName.toLowerCase());
+          totalItems = headerKey !== undefined ? (headers as any)[headerKey] : undefined;
+          if (Array.isArray(totalItems)) {
+            totalItems = totalItems[0];
+          }
+        }
+      }
+      if (totalItems === undefined || totalItems === null || totalItems === '') {
+        totalItems = this.getPropertyValue(body, this.options?.totalItemsProperty);
+      }
+    }
+
+    // a header value is always a string
+    if (typeof totalItems === 'string' && totalItems !== '' && !isNaN(+totalItems)) {
+      totalItems = +totalItems;
+    }
+    return typeof totalItems === 'number' ? totalItems : undefined;
+  }
+
+  /** Is the query paginated? which is when the pagination is enabled (unless it is specifically disabled) or when using Infinite Scroll */
+  protected isPaginated(): boolean {
+    return this._gridOptions.enablePagination !== false || !!this.options?.infiniteScroll;
+  }
+
+  /** Is the REST result an object with the response body and headers (`{ body, headers }`)? */
+  protected isRestResponse(processResult: any): processResult is RestResponse {
+    return !!processResult && typeof processResult === 'object' && 'body' in processResult && 'headers' in processResult;
+  }
+
+  /** Normalizes the search value according to field type. */
+  protected normalizeSearchValue(fieldType: FieldType, searchValue: any): any {
+    switch (fieldType) {
+      case 'integer':
+      case 'number':
+      case 'float':
+        if (typeof searchValue === 'string') {
+          // Parse a valid decimal from the string.
+
+          // Replace double dots with single dots
+          searchValue = searchValue.replace(/\.\./g, '.');
+          // Remove a trailing dot
+          searchValue = searchValue.replace(/\.+$/g, '');
+          // Prefix a leading dot with 0
+          searchValue = searchValue.replace(/^\.+/g, '0.');
+          // Prefix leading dash dot with -0.
+          searchValue = searchValue.replace(/^-+\.+/g, '-0.');
+          // Remove any non valid decimal characters from the search string
+          searchValue = searchValue.replace(/(?!^-)[^\d.]/g, '');
+
+          // if nothing left, search for 0
+          if (searchValue === '' || searchValue === '-') {
+            searchValue = '0';
+          }
+        }
+        break;
+    }
+
+    return searchValue;
+  }
+}
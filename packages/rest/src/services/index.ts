@@ -0,0 +1 @@
+export * from './grid-rest.service.js';
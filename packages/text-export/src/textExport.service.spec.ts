@@ -511,6 +511,86 @@ describe('ExportService', () => {
       });
     });
 
+    describe('with Backend Service export', () => {
+      const mockCollection = [
+        { id: 0, userId: '1E06', firstName: 'John', lastName: 'X' },
+        { id: 1, userId: '2B02', firstName: 'Jane', lastName: 'Doe' },
+        { id: 2, userId: '3C03', firstName: 'Bob', lastName: 'Smith' },
+      ];
+      let backendServiceMock: any;
+
+      beforeEach(() => {
+        mockColumns = [
+          { id: 'id', field: 'id', excludeFromExport: true },
+          { id: 'userId', field: 'userId', name: 'User Id', width: 100 },
+          { id: 'firstName', field: 'firstName', name: 'First Name', width: 100 },
+          { id: 'lastName', field: 'lastName', name: 'Last Name', width: 100 },
+        ] as Column[];
+        backendServiceMock = {
+          buildQuery: vi.fn(() => 'query'),
+          getDatasetFromProcessResult: (result: any) => ({ dataset: result.items, totalItems: result.total }),
+          updateOptions: vi.fn(),
+          updatePagination: vi.fn(),
+        };
+
+        vi.spyOn(gridStub, 'getVisibleColumns').mockReturnValue(mockColumns);
+        vi.spyOn(dataViewStub, 'getLength').mockReturnValue(1);
+        vi.spyOn(dataViewStub, 'getItem').mockReturnValue(mockCollection[0]);
+      });
+
+      it('should export all the items fetched by the Backend Service instead of the DataView items when using the "fetchAll" export mode', async () => {
+        const processMock = vi.fn(() => Promise.resolve({ items: mockCollection, total: 3 }));
+        mockGridOptions.backendServiceApi = { service: backendServiceMock, process: processMock, exportOptions: { mode: 'fetchAll' } };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+        const spyDownload = vi.spyOn(service, 'startDownloadFile');
+
+        const optionExpectation = { filename: 'export.csv', format: 'csv', mimeType: 'text/plain', useUtf8WithBom: false };
+        const contentExpectation = `"User Id","First Name","Last Name"
+              "1E06","John","X"
+              "2B02","Jane","Doe"
+              "3C03","Bob","Smith"`;
+
+        service.init(gridStub, container);
+        const result = await service.exportToFile(mockExportCsvOptions);
+
+        expect(result).toBe(true);
+        expect(processMock).toHaveBeenCalledTimes(1);
+        expect(dataViewStub.getItem).not.toHaveBeenCalled();
+        expect(pubSubSpy).toHaveBeenNthCalledWith(2, 'onAfterExportToTextFile', optionExpectation);
+        expect(spyDownload).toHaveBeenCalledWith({ ...optionExpectation, content: removeMultipleSpaces(contentExpectation) });
+      });
+
+      it('should delegate the export to the "serverExport" callback without downloading any file when using the "server" export mode', async () => {
+        const serverExport = vi.fn();
+        mockGridOptions.backendServiceApi = { service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'server', serverExport } };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+        const spyDownload = vi.spyOn(service, 'startDownloadFile');
+
+        service.init(gridStub, container);
+        const result = await service.exportToFile(mockExportCsvOptions);
+
+        expect(result).toBe(true);
+        expect(serverExport).toHaveBeenCalledWith('query', { columns: mockColumns.slice(1), filename: 'export', format: 'csv', variables: undefined });
+        expect(spyDownload).not.toHaveBeenCalled();
+        expect(pubSubSpy).toHaveBeenNthCalledWith(2, 'onAfterExportToTextFile', { filename: 'export', format: 'csv' });
+      });
+
+      it('should resolve as false and publish the error when the Backend Service export fails', async () => {
+        const error = new Error('Server Error');
+        const serverExport = vi.fn(() => Promise.reject(error));
+        mockGridOptions.backendServiceApi = { service: backendServiceMock, process: vi.fn(), exportOptions: { mode: 'server', serverExport } };
+        const pubSubSpy = vi.spyOn(pubSubServiceStub, 'publish');
+        const spyDownload = vi.spyOn(service, 'startDownloadFile');
+
+        service.init(gridStub, container);
+        const result = await service.exportToFile(mockExportCsvOptions);
+
+        expect(result).toBe(false);
+        expect(spyDownload).not.toHaveBeenCalled();
+        expect(pubSubSpy).toHaveBeenNthCalledWith(2, 'onAfterExportToTextFile', { error });
+      });
+    });
+
     describe('with Translation', () => {
       let mockCollection: any[];
 
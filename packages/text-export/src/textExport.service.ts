@@ -14,7 +14,15 @@ import type {
   TextExportOption,
   TranslaterService,
 } from '@slickgrid-universal/common';
-import { Constants, exportWithFormatterWhenDefined, getTranslationPrefix, htmlDecode } from '@slickgrid-universal/common';
+import {
+  Constants,
+  executeBackendServerExport,
+  exportWithFormatterWhenDefined,
+  fetchAllBackendItems,
+  getBackendExportMode,
+  getTranslationPrefix,
+  htmlDecode,
+} from '@slickgrid-universal/common';
 import { addWhiteSpaces, extend, getHtmlStringOutput, stripTags, titleCase } from '@slickgrid-universal/utils';
 import { TextEncoder } from 'text-encoding-utf-8';
 
@@ -26,6 +34,7 @@ const DEFAULT_EXPORT_OPTIONS: TextExportOption = {
 };
 
 export class TextExportService implements ExternalResource, BaseTextExportService {
+  protected _backendExportItems?: any[];
   protected _delimiter = ',';
   protected _exportQuoteWrapper = '';
   protected _exportOptions!: TextExportOption;
@@ -104,26 +113,32 @@ export class TextExportService implements ExternalResource, BaseTextExportServic
       this._delimiter = this._exportOptions.delimiterOverride || this._exportOptions.delimiter || '';
       this._fileFormat = this._exportOptions.format || 'csv';
 
-      // get the CSV output from the grid data
-      const dataOutput = this.getDataOutput();
-
-      // trigger a download file
-      // wrap it into a setTimeout so that the EventAggregator has enough time to start a pre-process like showing a spinner
-      clearTimeout(this._timer);
-      this._timer = setTimeout(() => {
-        const downloadOptions = {
-          filename: `${this._exportOptions.filename}.${this._fileFormat}`,
-          format: this._fileFormat || 'csv',
-          mimeType: this._exportOptions.mimeType || 'text/plain',
-          // prettier-ignore
-          useUtf8WithBom: this._exportOptions?.hasOwnProperty('useUtf8WithBom') ? this._exportOptions.useUtf8WithBom : true,
-        };
-
-        // start downloading but add the content property only on the start download not on the event itself
-        this.startDownloadFile({ ...downloadOptions, content: dataOutput } as ExportTextDownloadOption); // add content property
-        this._pubSubService?.publish(`onAfterExportToTextFile`, downloadOptions as ExportTextDownloadOption);
-        resolve(true);
-      }, 0);
+      // a Backend Service grid could export all the items of its query (instead of only the current page) or delegate the export to the server
+      const backendApi = this._gridOptions.backendServiceApi;
+      const backendExportMode = getBackendExportMode(backendApi);
+      if (backendApi && backendExportMode !== 'local') {
+        const backendExport =
+          backendExportMode === 'server'
+            ? executeBackendServerExport(
+                backendApi,
+                { columns: this.getExportedColumns(), filename: `${this._exportOptions.filename}`, format: this._fileFormat },
+                this._gridOptions.pagination?.totalItems
+              ).then(() => {
+                this._pubSubService?.publish(`onAfterExportToTextFile`, {
+                  filename: this._exportOptions.filename,
+                  format: this._fileFormat,
+                });
+                resolve(true);
+              })
+            : fetchAllBackendItems(backendApi).then((items) => this.processExport(resolve, items));
+
+        backendExport.catch((error) => {
+          this._pubSubService?.publish(`onAfterExportToTextFile`, { error });
+          resolve(false);
+        });
+      } else {
+        this.processExport(resolve);
+      }
     });
   }
 
@@ -175,6 +190,45 @@ export class TextExportService implements ExternalResource, BaseTextExportServic
   // protected functions
   // -----------------------
 
+  /**
+   * Get the text output of the grid data (or of the items fetched by the Backend Service) and trigger the file download
+   * @param resolve - resolve function of the export Promise
+   * @param backendItems - all the items fetched by the Backend Service, when defined they are exported instead of the DataView items
+   */
+  protected processExport(resolve: (value: boolean) => void, backendItems?: any[]): void {
+    // get the CSV output from the grid data
+    let dataOutput: string;
+    try {
+      this._backendExportItems = backendItems;
+      dataOutput = this.getDataOutput();
+    } finally {
+      this._backendExportItems = undefined;
+    }
+
+    // trigger a download file
+    // wrap it into a setTimeout so that the EventAggregator has enough time to start a pre-process like showing a spinner
+    clearTimeout(this._timer);
+    this._timer = setTimeout(() => {
+      const downloadOptions = {
+        filename: `${this._exportOptions.filename}.${this._fileFormat}`,
+        format: this._fileFormat || 'csv',
+        mimeType: this._exportOptions.mimeType || 'text/plain',
+        // prettier-ignore
+        useUtf8WithBom: this._exportOptions?.hasOwnProperty('useUtf8WithBom') ? this._exportOptions.useUtf8WithBom : true,
+      };
+
+      // start downloading but add the content property only on the start download not on the event itself
+      this.startDownloadFile({ ...downloadOptions, content: dataOutput } as ExportTextDownloadOption); // add content property
+      this._pubSubService?.publish(`onAfterExportToTextFile`, downloadOptions as ExportTextDownloadOption);
+      resolve(true);
+    }, 0);
+  }
+
+  /** get the columns that are exported, which are the columns not excluded from the export (`excludeFromExport`) */
+  protected getExportedColumns(): Column[] {
+    return this.getColumns().filter((columnDef) => !columnDef.excludeFromExport);
+  }
+
   /** get columns might include hidden columns when `includeHidden` is enabled */
   protected getColumns(): Column[] {
     return (this._exportOptions?.includeHidden ? this._grid?.getColumns() : this._grid.getVisibleColumns()) || [];
@@ -204,7 +258,8 @@ export class TextExportService implements ExternalResource, BaseTextExportServic
 
     // get grouped column titles and if found, we will add a "Group by" column at the first column index
     // if it's a CSV format, we'll escape the text in double quotes
-    const grouping = this._dataView.getGrouping();
+    // the items fetched by the Backend Service are never grouped
+    const grouping = this._backendExportItems ? [] : this._dataView.getGrouping();
     if (Array.isArray(grouping) && grouping.length > 0) {
       this._hasGroupedItems = true;
       outputDataString +=
@@ -250,11 +305,11 @@ export class TextExportService implements ExternalResource, BaseTextExportServic
    */
   protected getAllGridRowData(columns: Column[], lineCarriageReturn: string): string {
     const outputDataStrings = [];
-    const lineCount = this._dataView.getLength();
+    const lineCount = this._backendExportItems ? this._backendExportItems.length : this._dataView.getLength();
 
-    // loop through all the grid rows of data
+    // loop through all the grid rows of data (or through all the items fetched by the Backend Service)
     for (let rowNumber = 0; rowNumber < lineCount; rowNumber++) {
-      const itemObj = this._dataView.getItem(rowNumber);
+      const itemObj = this._backendExportItems ? this._backendExportItems[rowNumber] : this._dataView.getItem(rowNumber);
 
       // make sure we have a filled object AND that the item doesn't include the "getItem" method
       // this happen could happen with an opened Row Detail as it seems to include an empty Slick DataView (we'll just skip those lines)
@@ -357,7 +412,7 @@ export class TextExportService implements ExternalResource, BaseTextExportServic
     const rowOutputStrings = [];
     const exportQuoteWrapper = this._exportQuoteWrapper;
     let prevColspan: number | string = 1;
-    const itemMetadata = this._dataView.getItemMetadata(row);
+    const itemMetadata = this._backendExportItems ? null : this._dataView.getItemMetadata(row);
 
     for (let col = 0, ln = columns.length; col < ln; col++) {
       const columnDef = columns[col];
@@ -374,7 +429,7 @@ export class TextExportService implements ExternalResource, BaseTextExportServic
       }
 
       // when using rowspan
-      if (this._gridOptions.enableCellRowSpan) {
+      if (this._gridOptions.enableCellRowSpan && !this._backendExportItems) {
         const prs = this._grid.getParentRowSpanByCell(row, col, false);
         if (prs && prs.start !== row) {
           // skip any rowspan child cell since it was already merged
@@ -0,0 +1 @@
+export { TextImportService } from './textImport.service.js';
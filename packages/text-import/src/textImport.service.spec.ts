@@ -0,0 +1,256 @@
+import {
+  Formatters,
+  type Column,
+  type GridOption,
+  type GridService,
+  type GroupTotalsFormatter,
+  type SlickDataView,
+  type SlickGrid,
+  type TextExportOption,
+} from '@slickgrid-universal/common';
+import type { BasePubSubService } from '@slickgrid-universal/event-pub-sub';
+import { TextExportService } from '@slickgrid-universal/text-export';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContainerServiceStub } from '../../../test/containerServiceStub.js';
+import { TextImportService } from './textImport.service.js';
+
+// URL object is not supported in JSDOM, we can simply mock it
+(global as any).URL.createObjectURL = vi.fn();
+
+const pubSubServiceStub = {
+  publish: vi.fn(),
+  subscribe: vi.fn(),
+  unsubscribe: vi.fn(),
+  unsubscribeAll: vi.fn(),
+} as BasePubSubService;
+
+const gridServiceStub = {
+  addItems: vi.fn(),
+} as unknown as GridService;
+
+const dataViewStub = {
+  getGrouping: vi.fn(),
+  getItem: vi.fn(),
+  getItemMetadata: vi.fn(),
+  getItems: vi.fn(),
+  getLength: vi.fn(),
+} as unknown as SlickDataView;
+
+const durationTotalsFormatter: GroupTotalsFormatter = (totals, columnDef) => `Total: ${totals.sum[columnDef.field]}`;
+
+let gridOptionsMock: GridOption;
+let mockColumns: Column[];
+
+const gridStub = {
+  getColumns: () => mockColumns,
+  getData: () => dataViewStub,
+  getOptions: () => gridOptionsMock,
+  getVisibleColumns: () => mockColumns,
+} as unknown as SlickGrid;
+
+describe('TextImportService', () => {
+  let container: ContainerServiceStub;
+  let service: TextImportService;
+
+  /** set the rows shown in the grid, which are the rows exported by the Text Export */
+  function setGridRows(rows: any[]) {
+    vi.spyOn(dataViewStub, 'getLength').mockReturnValue(rows.length);
+    vi.spyOn(dataViewStub, 'getItem').mockImplementation((idx) => rows[idx]);
+    vi.spyOn(dataViewStub, 'getItems').mockReturnValue(rows.filter((row) => row.id !== undefined));
+  }
+
+  /** export the grid rows with the Text Export Service and return the file it produced */
+  async function exportTextFile(options: TextExportOption): Promise<Blob> {
+    const exportService = new TextExportService();
+    exportService.init(gridStub, container);
+    await exportService.exportToFile(options);
+    exportService.dispose();
+    return vi.mocked(URL.createObjectURL).mock.lastCall![0] as Blob;
+  }
+
+  beforeEach(() => {
+    gridOptionsMock = {};
+    mockColumns = [
+      { id: 'title', field: 'title', name: 'Title', type: 'string' },
+      {
+        id: 'duration',
+        field: 'duration',
+        name: 'Duration',
+        type: 'number',
+        groupTotalsFormatter: durationTotalsFormatter,
+        editor: { model: {} as any, validator: (value: number) => ({ valid: value <= 100, msg: 'Must be at most 100' }) },
+      },
+      {
+        id: 'start',
+        field: 'start',
+        name: 'Start',
+        type: 'dateIso',
+        outputType: 'dateUs',
+        formatter: Formatters.dateUs,
+        exportWithFormatter: true,
+      },
+      { id: 'completed', field: 'completed', name: 'Completed', type: 'boolean' },
+    ];
+    vi.spyOn(dataViewStub, 'getGrouping').mockReturnValue([]);
+    setGridRows([]);
+    container = new ContainerServiceStub();
+    container.registerInstance('GridService', gridServiceStub);
+    container.registerInstance('PubSubService', pubSubServiceStub);
+    service = new TextImportService();
+    service.init(gridStub, container);
+  });
+
+  afterEach(() => {
+    service.dispose();
+    vi.clearAllMocks();
+  });
+
+  it('should create the service', () => {
+    expect(service).toBeTruthy();
+    expect(service.pluginName).toBe('TextImportService');
+  });
+
+  it('should throw when importing before the service is initialized', async () => {
+    await expect(new TextImportService().importFile(new File([''], 'tasks.csv'))).rejects.toThrow(
+      'it seems that the SlickGrid & DataView objects and/or GridService are not initialized'
+    );
+  });
+
+  it('should read the header titles, data rows and detected format of a text file without importing anything', async () => {
+    const file = new File(['\uFEFFTitle;Duration\nTask 1;5\n\nTask 2;10\n'], 'tasks.txt');
+
+    const output = await service.readFile(file);
+
+    expect(output).toEqual({
+      delimiter: ';',
+      encoding: 'utf-8',
+      headers: ['Title', 'Duration'],
+      quoteChar: '',
+      rows: [
+        { rowNumber: 2, values: ['Task 1', '5'] },
+        { rowNumber: 4, values: ['Task 2', '10'] },
+      ],
+    });
+    expect(gridServiceStub.addItems).not.toHaveBeenCalled();
+  });
+
+  it('should round-trip a CSV export with its BOM, quotes and formatted dates', async () => {
+    const items = [
+      { id: 0, title: 'Task "1", the first', duration: 5, start: '2025-12-25', completed: true },
+      { id: 1, title: 'Task 2\non 2 lines', duration: 10, start: '2026-01-31', completed: false },
+    ];
+    setGridRows(items);
+    const file = await exportTextFile({ delimiter: ',', format: 'csv', useUtf8WithBom: true });
+
+    const result = await service.importFile(file);
+
+    expect(result).toEqual({
+      importedItems: items.map((item, idx) => ({ ...item, id: 2 + idx })),
+      rejectedRows: [],
+      totalRowCount: 2,
+    });
+    expect(gridServiceStub.addItems).toHaveBeenCalledWith(result.importedItems, expect.objectContaining({ position: 'bottom', highlightRow: false }));
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onBeforeImportFromTextFile', true);
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onAfterImportFromTextFile', result);
+  });
+
+  it('should round-trip a grouped TXT export without its group title and group totals rows', async () => {
+    const items = [
+      { id: 0, title: 'Task 1', duration: 5, start: '2025-12-25', completed: true },
+      { id: 1, title: 'Task 2', duration: 5, start: '2025-12-26', completed: false },
+      { id: 2, title: 'Task 3', duration: 10, start: '2025-12-27', completed: true },
+    ];
+    vi.spyOn(dataViewStub, 'getGrouping').mockReturnValue([{ getter: 'duration' }]);
+    setGridRows([
+      { title: 'Duration: 5 (2 items)', level: 0 },
+      items[0],
+      items[1],
+      { __groupTotals: true, sum: { duration: 10 } },
+      { title: 'Duration: 10 (1 items)', level: 0 },
+      items[2],
+      { __groupTotals: true, sum: { duration: 10 } },
+    ]);
+    const file = await exportTextFile({ delimiter: '\t', format: 'txt' });
+
+    const result = await service.importFile(file, { chunkSize: 2 });
+
+    expect(result.importedItems).toEqual(items.map((item, idx) => ({ ...item, id: 3 + idx })));
+    expect(result.totalRowCount).toBe(3);
+    expect(gridServiceStub.addItems).toHaveBeenCalledTimes(2);
+  });
+
+  it('should round-trip a Tree Data export and link every item to its parent', async () => {
+    gridOptionsMock = {
+      enableTreeData: true,
+      treeDataOptions: { columnId: 'title', parentPropName: 'parentId', exportIndentationLeadingChar: '͏͏͏͏͏͏͏͏͏·' },
+    };
+    mockColumns[0].exportCustomFormatter = Formatters.treeExport;
+    setGridRows([
+      { id: 0, title: 'Task A', duration: 5, parentId: null, __treeLevel: 0, __hasChildren: true },
+      { id: 1, title: 'Task B', duration: 6, parentId: 0, __treeLevel: 1 },
+      { id: 2, title: 'Task C', duration: 7, parentId: 0, __treeLevel: 1, __hasChildren: true, __collapsed: true },
+      { id: 3, title: 'Task D', duration: 8, parentId: 2, __treeLevel: 2 },
+      { id: 4, title: 'Task E', duration: 9, parentId: null, __treeLevel: 0 },
+    ]);
+    const file = await exportTextFile({ delimiter: ';', format: 'csv' });
+
+    const result = await service.importFile(file);
+
+    expect(result.importedItems).toEqual([
+      { id: 5, title: 'Task A', duration: 5, parentId: null },
+      { id: 6, title: 'Task B', duration: 6, parentId: 5 },
+      { id: 7, title: 'Task C', duration: 7, parentId: 5 },
+      { id: 8, title: 'Task D', duration: 8, parentId: 7 },
+      { id: 9, title: 'Task E', duration: 9, parentId: null },
+    ]);
+  });
+
+  it('should reject an invalid row of a Tree Data export and all of its children', async () => {
+    gridOptionsMock = { enableTreeData: true, treeDataOptions: { columnId: 'title', parentPropName: 'parentId' } };
+    mockColumns[0].exportCustomFormatter = Formatters.treeExport;
+    setGridRows([
+      { id: 0, title: 'Task A', duration: 500, __treeLevel: 0, __hasChildren: true },
+      { id: 1, title: 'Task B', duration: 6, __treeLevel: 1 },
+      { id: 2, title: 'Task C', duration: 7, __treeLevel: 0 },
+    ]);
+    const file = await exportTextFile({ delimiter: ',', format: 'csv' });
+
+    const result = await service.importFile(file);
+
+    expect(result.importedItems).toEqual([{ id: 3, title: 'Task C', duration: 7, parentId: null }]);
+    expect(result.rejectedRows).toEqual([
+      { rowNumber: 2, values: ['⮟ Task A', '500', '', ''], errors: [{ field: 'duration', message: 'Must be at most 100', value: 500 }] },
+      { rowNumber: 3, values: ['.           Task B', '6', '', ''], errors: [{ field: 'title', message: 'Parent row was not imported', value: 'Task B' }] },
+    ]);
+  });
+
+  it('should skip the column group titles row of an export with a pre-header panel and read values forced to be kept as string', async () => {
+    gridOptionsMock = { createPreHeaderPanel: true, showPreHeaderPanel: true };
+    mockColumns = [
+      { id: 'title', field: 'title', name: 'Title', columnGroup: 'Common' },
+      { id: 'code', field: 'code', name: 'Code', columnGroup: 'Common', exportCsvForceToKeepAsString: true },
+    ];
+    setGridRows([{ id: 0, title: 'Task 1', code: '1E06' }]);
+    const file = await exportTextFile({ delimiter: ',', format: 'csv' });
+
+    const result = await service.importFile(file);
+
+    expect(result.importedItems).toEqual([{ id: 1, title: 'Task 1', code: '1E06' }]);
+  });
+
+  it('should use the grid "textImportOptions" and the column mapping', async () => {
+    gridOptionsMock.textImportOptions = { delimiter: '|', quoteChar: "'", validateCells: false };
+    const file = new File(["Task|Days\n'Task|1'|500\n"], 'tasks.txt');
+
+    const result = await service.importFile(file, { columnMapping: { Task: 'title', Days: 'duration' } });
+
+    expect(result.importedItems).toEqual([{ id: 0, title: 'Task|1', duration: 500 }]);
+  });
+
+  it('should publish the error and reject when the file cannot be read', async () => {
+    const file = new File(['Title\nTask 1'], 'tasks.csv');
+
+    await expect(service.importFile(file, { encoding: 'unknown-encoding' })).rejects.toThrow();
+    expect(pubSubServiceStub.publish).toHaveBeenCalledWith('onAfterImportFromTextFile', { error: expect.anything() });
+  });
+});
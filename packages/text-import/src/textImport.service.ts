@@ -0,0 +1,328 @@
+import type {
+  Column,
+  ContainerService,
+  ExternalResource,
+  GridOption,
+  GridService,
+  ImportResult,
+  ImportSheetData,
+  PubSubService,
+  SlickDataView,
+  SlickGrid,
+  TextFileFormat,
+  TextImportOption,
+  TextRow,
+  TranslaterService,
+} from '@slickgrid-universal/common';
+import {
+  Constants,
+  createItemFromImportRow,
+  getImportColumnMapping,
+  getTranslationPrefix,
+  readTextRows,
+} from '@slickgrid-universal/common';
+
+const DEFAULT_IMPORT_OPTIONS: TextImportOption = {
+  chunkSize: 500,
+  validateCells: true,
+};
+
+export class TextImportService implements ExternalResource {
+  protected _grid!: SlickGrid;
+  protected _gridService: GridService | null = null;
+  protected _pubSubService: PubSubService | null = null;
+  protected _translaterService: TranslaterService | undefined;
+  protected _timer?: any;
+
+  /** TextImportService class name which is use to find service instance in the external registered services */
+  readonly pluginName = 'TextImportService';
+
+  protected get _datasetIdPropName(): string {
+    return this._gridOptions?.datasetIdPropertyName ?? 'id';
+  }
+
+  /** Getter of SlickGrid DataView object */
+  protected get _dataView(): SlickDataView {
+    return this._grid?.getData<SlickDataView>();
+  }
+
+  /** Getter for the Grid Options pulled through the Grid Object */
+  protected get _gridOptions(): GridOption {
+    return this._grid?.getOptions() || ({} as GridOption);
+  }
+
+  dispose(): void {
+    clearTimeout(this._timer);
+  }
+
+  /**
+   * Initialize the Import Service
+   * @param grid
+   * @param containerService
+   */
+  init(grid: SlickGrid, containerService: ContainerService): void {
+    this._grid = grid;
+    this._gridService = containerService.get<GridService>('GridService');
+    this._pubSubService = containerService.get<PubSubService>('PubSubService');
+    this._translaterService = this._gridOptions?.translater;
+  }
+
+  /**
+   * Read the header titles and data rows of a text file (csv/txt) without importing anything in the grid,
+   * this can be used to preview the file and/or to let the user map the file columns to the grid columns (`columnMapping`) before the import.
+   * The returned data also includes the delimiter, quote character and encoding that were detected (or used) to read the file.
+   * @param {File|Blob} file - file to read
+   * @param {TextImportOption} [options] - import options (only `delimiter`, `encoding`, `headerRowNumber` and `quoteChar` are used)
+   */
+  async readFile(file: File | Blob, options?: TextImportOption): Promise<ImportSheetData> {
+    const importOptions = this.getImportOptions(options);
+    const format: Partial<TextFileFormat> = {};
+    const sheetData: ImportSheetData = { headers: [], rows: [] };
+
+    for await (const row of this.readRows(file, importOptions, format)) {
+      if (row.rowNumber === importOptions.headerRowNumber) {
+        sheetData.headers = row.values.map((title) => title.trim());
+      } else if (row.rowNumber > importOptions.headerRowNumber! && !this.isEmptyRow(row.values)) {
+        sheetData.rows.push(row);
+      }
+    }
+    return { ...sheetData, ...format };
+  }
+
+  /**
+   * Import a text file (csv/txt), typically produced by the Text Export Service, in the grid. The file columns are mapped to the grid columns
+   * (by their header titles or by the `columnMapping` option), each cell is converted to its column type and validated by its column editor validator,
+   * then all valid rows are inserted in chunks via the Grid Service `addItems()`. Any row with an invalid cell is rejected and returned in the `rejectedRows` of the import result.
+   * - a grouped export ("Group By" first column) is imported without its group title and group totals rows
+   * - a Tree Data export (using the `treeExport` formatter) is imported with the tree level indentation removed from the tree column and every item linked to its parent
+   *
+   * Events:
+   * - 'onBeforeImportFromTextFile' before the import starts
+   * - 'onAfterImportFromTextFile' after the import completes (with the import result) or fails (with the error)
+   * @param {File|Blob} file - file to import
+   * @param {TextImportOption} [options] - import options
+   */
+  async importFile(file: File | Blob, options?: TextImportOption): Promise<ImportResult> {
+    if (!this._grid || !this._dataView || !this._gridService) {
+      throw new Error(
+        '[Slickgrid-Universal] it seems that the SlickGrid & DataView objects and/or GridService are not initialized, did you forget to register the TextImportService in the grid options "externalResources"?'
+      );
+    }
+
+    this._pubSubService?.publish('onBeforeImportFromTextFile', true);
+    const importOptions = this.getImportOptions(options);
+    const result: ImportResult = { importedItems: [], rejectedRows: [], totalRowCount: 0 };
+    const parentPropName = this._gridOptions.treeDataOptions?.parentPropName ?? Constants.treeDataProperties.PARENT_PROP;
+
+    try {
+      let mappedColumns: Array<Column | undefined> = [];
+      let hasGroupByColumn = false;
+      let treeColumnIdx = -1;
+      let itemChunk: any[] = [];
+      let nextItemId = this.getNextItemId();
+      const treeParentIds: any[] = []; // item id of the last row of each tree level, a rejected row leaves an undefined parent for its children
+
+      for await (const row of this.readRows(file, importOptions)) {
+        if (row.rowNumber === importOptions.headerRowNumber) {
+          const headers = row.values.map((title) => title.trim());
+          hasGroupByColumn = headers.length > 1 && headers[0] === this.getGroupingColumnHeaderTitle(importOptions);
+          mappedColumns = getImportColumnMapping(
+            hasGroupByColumn ? headers.slice(1) : headers,
+            this._grid.getColumns(),
+            importOptions.columnMapping
+          );
+          treeColumnIdx = this._gridOptions.enableTreeData
+            ? mappedColumns.findIndex((column) => column && column.id === this._gridOptions.treeDataOptions?.columnId)
+            : -1;
+        } else if (row.rowNumber > importOptions.headerRowNumber! && !this.isEmptyRow(row.values)) {
+          let values = row.values;
+          if (hasGroupByColumn) {
+            if (this.isGroupRow(values, mappedColumns, importOptions)) {
+              continue;
+            }
+            values = values.slice(1);
+          }
+
+          result.totalRowCount++;
+          let treeLevel = 0;
+          if (treeColumnIdx >= 0) {
+            const treeCell = this.parseTreeExportValue(values[treeColumnIdx]);
+            treeLevel = treeCell.level;
+            values = values.slice();
+            values[treeColumnIdx] = treeCell.value;
+          }
+          const { item, errors } = createItemFromImportRow(values, mappedColumns, this._grid, importOptions.validateCells);
+
+          if (treeColumnIdx >= 0) {
+            treeParentIds.length = treeLevel + 1;
+            if (treeLevel > 0 && treeParentIds[treeLevel - 1] === undefined) {
+              errors.push({
+                field: mappedColumns[treeColumnIdx]!.field,
+                message: 'Parent row was not imported',
+                value: values[treeColumnIdx],
+              });
+            }
+            treeParentIds[treeLevel] = undefined;
+          }
+          if (errors.length) {
+            result.rejectedRows.push({ errors, rowNumber: row.rowNumber, values: row.values });
+            continue;
+          }
+          if (item[this._datasetIdPropName] === undefined) {
+            item[this._datasetIdPropName] = nextItemId++;
+          }
+          if (treeColumnIdx >= 0) {
+            item[parentPropName] = treeLevel > 0 ? treeParentIds[treeLevel - 1] : null;
+            treeParentIds[treeLevel] = item[this._datasetIdPropName];
+          }
+          itemChunk.push(item);
+
+          if (itemChunk.length >= importOptions.chunkSize!) {
+            await this.insertItemChunk(itemChunk, result);
+            itemChunk = [];
+          }
+        }
+      }
+      await this.insertItemChunk(itemChunk, result);
+    } catch (error) {
+      this._pubSubService?.publish('onAfterImportFromTextFile', { error });
+      throw error;
+    }
+
+    this._pubSubService?.publish('onAfterImportFromTextFile', result);
+    return result;
+  }
+
+  // -----------------------
+  // protected functions
+  // -----------------------
+
+  protected getImportOptions(options?: TextImportOption): TextImportOption {
+    const importOptions = { ...DEFAULT_IMPORT_OPTIONS, ...this._gridOptions.textImportOptions, ...options };
+
+    // the Text Export adds the column group titles as the first row when the pre-header panel is shown
+    const hasPreHeaderRow =
+      this._gridOptions.createPreHeaderPanel &&
+      this._gridOptions.showPreHeaderPanel &&
+      (!this._gridOptions.enableDraggableGrouping || this._gridOptions.createTopHeaderPanel);
+    importOptions.headerRowNumber ??= hasPreHeaderRow ? 2 : 1;
+
+    return importOptions;
+  }
+
+  /** get the "Group By" column header title, the same way as the Text Export does, from the options or else from translation or from the English locale text */
+  protected getGroupingColumnHeaderTitle(importOptions: TextImportOption): string {
+    let groupByColumnHeader = importOptions.groupingColumnHeaderTitle ?? this._gridOptions.textExportOptions?.groupingColumnHeaderTitle;
+    if (
+      !groupByColumnHeader &&
+      this._gridOptions.enableTranslate &&
+      this._translaterService?.translate &&
+      this._translaterService?.getCurrentLanguage?.()
+    ) {
+      groupByColumnHeader = this._translaterService.translate(`${getTranslationPrefix(this._gridOptions)}GROUP_BY`);
+    } else if (!groupByColumnHeader) {
+      groupByColumnHeader = (this._gridOptions.locales ?? Constants.locales).TEXT_GROUP_BY;
+    }
+    return groupByColumnHeader ?? '';
+  }
+
+  /**
+   * Is the row of a grouped export a group title row or a group totals row? Regular rows have an empty "Group By" cell,
+   * while a group title row (e.g. "Duration: 5 (2 items)") and a group totals row with `groupingAggregatorRowText` have a value in that cell.
+   * A group totals row without any aggregator row text is identified by having values only in columns with a `groupTotalsFormatter`.
+   */
+  protected isGroupRow(values: string[], mappedColumns: Array<Column | undefined>, importOptions: TextImportOption): boolean {
+    if (values[0] !== '') {
+      return true;
+    }
+    const groupingAggregatorRowText =
+      importOptions.groupingAggregatorRowText ?? this._gridOptions.textExportOptions?.groupingAggregatorRowText ?? '';
+    return (
+      !groupingAggregatorRowText &&
+      mappedColumns.some((column) => column?.groupTotalsFormatter) &&
+      values.slice(1).every((value, idx) => value === '' || mappedColumns[idx]?.groupTotalsFormatter)
+    );
+  }
+
+  /** is the row without any value? (e.g. a blank line or a row with only empty cells) */
+  protected isEmptyRow(values: string[]): boolean {
+    return !values.some((value) => value !== '');
+  }
+
+  /** find the next numeric item id to use for any imported item without an id, which is the highest numeric id of the dataset + 1 */
+  protected getNextItemId(): number {
+    let maxItemId = -1;
+    for (const item of this._dataView.getItems()) {
+      const itemId = item?.[this._datasetIdPropName];
+      if (typeof itemId === 'number' && itemId > maxItemId) {
+        maxItemId = itemId;
+      }
+    }
+    return maxItemId + 1;
+  }
+
+  /** insert a chunk of items in the grid and yield to the browser to keep the UI responsive */
+  protected async insertItemChunk(items: any[], result: ImportResult): Promise<void> {
+    if (items.length) {
+      this._gridService?.addItems(items, {
+        highlightRow: false,
+        position: 'bottom',
+        resortGrid: false,
+        scrollRowIntoView: false,
+        selectRow: false,
+      });
+      result.importedItems.push(...items);
+      await new Promise<void>((resolve) => {
+        clearTimeout(this._timer);
+        this._timer = setTimeout(resolve, 0);
+      });
+    }
+  }
+
+  /**
+   * Parse a Tree Data cell exported with the `treeExport` formatter, which has a leading character (`exportIndentationLeadingChar`),
+   * an indentation of `exportIndentMarginLeft` spaces per tree level and a collapsed/expanded symbol for a parent item,
+   * e.g. "⮟ Task 1" (parent at level 0), "·    Task 2" (leaf at level 0) or "·     ⮞ Task 3" (parent at level 1).
+   * @returns {Object} tree level and value without its indentation
+   */
+  protected parseTreeExportValue(value: string): { level: number; value: string } {
+    const treeDataOptions = this._gridOptions.treeDataOptions;
+    const indentMarginLeft = treeDataOptions?.exportIndentMarginLeft ?? 5;
+    const leadingChar = treeDataOptions?.exportIndentationLeadingChar ?? '.';
+    const leadingSpaceCount = treeDataOptions?.exportIndentationLeadingSpaceCount ?? 3;
+    const toggleSymbols = [
+      this._gridOptions.excelExportOptions?.groupCollapsedSymbol ?? '⮞',
+      this._gridOptions.excelExportOptions?.groupExpandedSymbol ?? '⮟',
+    ];
+
+    let text = value ?? '';
+    const hasLeadingChar = leadingChar !== '' && text.startsWith(leadingChar);
+    if (hasLeadingChar) {
+      text = text.slice(leadingChar.length);
+    }
+    const spaceCount = text.length - text.trimStart().length;
+    text = text.slice(spaceCount);
+
+    const toggleSymbol = toggleSymbols.find((symbol) => symbol && text.startsWith(symbol));
+    if (toggleSymbol) {
+      // parent item: "{leadingChar}{indentation}{symbol} {value}" or "{symbol} {value}" at level 0
+      return { level: Math.round(spaceCount / indentMarginLeft), value: text.slice(toggleSymbol.length).replace(/^ /, '') };
+    }
+    if (!hasLeadingChar) {
+      return { level: 0, value };
+    }
+    // leaf item: "{leadingChar}{indentation} {value}", the indentation of a level 0 leaf is the leading space count
+    const indentation = spaceCount - 1;
+    const level = indentation === leadingSpaceCount ? 0 : Math.max(0, Math.round(indentation / indentMarginLeft) - 1);
+    return { level, value: text };
+  }
+
+  /** read all rows of the file, the format that was used (detected or provided) will be assigned to the optional `format` argument */
+  protected readRows(file: File | Blob, importOptions: TextImportOption, format?: Partial<TextFileFormat>): AsyncGenerator<TextRow> {
+    return readTextRows(
+      file,
+      { delimiter: importOptions.delimiter, encoding: importOptions.encoding, quoteChar: importOptions.quoteChar },
+      format
+    );
+  }
+}
@@ -109,10 +109,13 @@ class ExcelExportService {
 
 const backendUtilityServiceStub = {
   addRxJsResource: vi.fn(),
+  dispose: vi.fn(),
   executeBackendProcessesCallback: vi.fn(),
   executeBackendCallback: vi.fn(),
+  init: vi.fn(),
   onBackendError: vi.fn(),
   refreshBackendDataset: vi.fn(),
+  setCachedResult: vi.fn(),
   setInfiniteScrollBottomHit: vi.fn(),
 } as unknown as BackendUtilityService;
 
@@ -1460,6 +1463,7 @@ describe('Slick-Vanilla-Grid-Bundle Component instantiated via Constructor', ()
         const processSpy = vi.spyOn(component.gridOptions.backendServiceApi as BackendServiceApi, 'process').mockReturnValue(promise);
         vi.spyOn(component.gridOptions.backendServiceApi!.service, 'buildQuery').mockReturnValue(query);
         const backendExecuteSpy = vi.spyOn(backendUtilityServiceStub, 'executeBackendProcessesCallback');
+        const setCacheSpy = vi.spyOn(backendUtilityServiceStub, 'setCachedResult');
 
         component.gridOptions.backendServiceApi!.service.options = { executeProcessCommandOnInit: true };
         component.initialization(divContainer, slickEventHandler);
@@ -1469,6 +1473,7 @@ describe('Slick-Vanilla-Grid-Bundle Component instantiated via Constructor', ()
         vi.advanceTimersByTime(5);
         await new Promise(process.nextTick);
 
+        expect(setCacheSpy).toHaveBeenCalledWith(component.gridOptions.backendServiceApi, query, processResult, undefined);
         expect(backendExecuteSpy).toHaveBeenCalledWith(expect.any(Date), processResult, component.gridOptions.backendServiceApi as BackendServiceApi, 0);
       });
 
@@ -1570,6 +1575,23 @@ describe('Slick-Vanilla-Grid-Bundle Component instantiated via Constructor', ()
         expect(component.backendUtilityService.setInfiniteScrollBottomHit).not.toHaveBeenCalledWith(false);
       });
 
+      it('should initialize the Backend Viewport Service instead of the "onScrollEnd" callback when Infinite Scroll uses the "viewport" mode', () => {
+        const viewportInitSpy = vi.spyOn(component.backendViewportService, 'init').mockReturnValue();
+        component.gridOptions.backendServiceApi!.service.options = { infiniteScroll: { fetchSize: 30, mode: 'viewport' } };
+        component.initialization(divContainer, slickEventHandler);
+
+        expect(viewportInitSpy).toHaveBeenCalledWith(component.slickGrid, component.dataView);
+        expect(component.gridOptions.backendServiceApi?.onScrollEnd).toBeUndefined();
+      });
+
+      it('should initialize the Backend Grouping Service when the Backend Service enables the Server-Side Grouping', () => {
+        const groupingInitSpy = vi.spyOn(component.backendGroupingService, 'init').mockReturnValue();
+        component.gridOptions.backendServiceApi!.service.options = { serverSideGrouping: true };
+        component.initialization(divContainer, slickEventHandler);
+
+        expect(groupingInitSpy).toHaveBeenCalledWith(component.slickGrid, component.dataView);
+      });
+
       it('should execute original "postProcess" when calling the same method when Infinite Scroll is enabled', () => {
         const orgPostProcess = component.gridOptions.backendServiceApi!.postProcess;
         component.gridOptions.backendServiceApi!.service.options = { infiniteScroll: true };
@@ -1805,6 +1827,7 @@ describe('Slick-Vanilla-Grid-Bundle Component instantiated via Constructor', ()
         const bindBackendSpy = vi.spyOn(sortServiceStub, 'bindBackendOnSort');
         const mockGraphqlService2 = { ...mockGraphqlService, init: vi.fn() } as unknown as GraphqlService;
         const initSpy = vi.spyOn(mockGraphqlService2, 'init');
+        const backendUtilityInitSpy = vi.spyOn(backendUtilityServiceStub, 'init');
 
         component.gridOptions = {
           // enablePagination: true,
@@ -1821,6 +1844,7 @@ describe('Slick-Vanilla-Grid-Bundle Component instantiated via Constructor', ()
 
         expect(bindBackendSpy).toHaveBeenCalledWith(mockGrid);
         expect(initSpy).toHaveBeenCalledWith(mockGraphqlOptions, mockPagination, mockGrid, sharedService);
+        expect(backendUtilityInitSpy).toHaveBeenCalledWith(mockGrid);
       });
 
       it('should call bind backend sorting when "enableSorting" is set', () => {
@@ -9,6 +9,7 @@ import type {
   ExternalResource,
   ExternalResourceConstructor,
   GridOption,
+  InfiniteScrollOption,
   Metrics,
   Pagination,
   PaginationMetadata,
@@ -18,7 +19,9 @@ import type {
 } from '@slickgrid-universal/common';
 import {
   autoAddEditorFormatterToColumnsWithEditor,
+  BackendGroupingService,
   BackendUtilityService,
+  BackendViewportService,
   collectionObserver,
   CollectionService,
   emptyElement,
@@ -44,6 +47,7 @@ import {
   SlickGroupItemMetadataProvider,
   SortService,
   TreeDataService,
+  UndoRedoService,
   unsubscribeAll,
   type AutocompleterEditor,
   type Observable,
@@ -103,6 +107,8 @@ export class SlickVanillaGridBundle<TData = any> {
 
   // services
   backendUtilityService!: BackendUtilityService;
+  backendGroupingService!: BackendGroupingService;
+  backendViewportService!: BackendViewportService;
   collectionService!: CollectionService;
   extensionService!: ExtensionService;
   filterFactory!: FilterFactory;
@@ -120,6 +126,7 @@ export class SlickVanillaGridBundle<TData = any> {
   sortService!: SortService;
   translaterService: TranslaterService | undefined;
   treeDataService!: TreeDataService;
+  undoRedoService!: UndoRedoService;
   universalContainerService!: UniversalContainerService;
 
   // components
@@ -293,6 +300,8 @@ export class SlickVanillaGridBundle<TData = any> {
     services?:
       | {
           backendUtilityService?: BackendUtilityService;
+          backendGroupingService?: BackendGroupingService;
+          backendViewportService?: BackendViewportService;
           collectionService?: CollectionService;
           eventPubSubService?: EventPubSubService;
           extensionService?: ExtensionService;
@@ -309,6 +318,7 @@ export class SlickVanillaGridBundle<TData = any> {
           sortService?: SortService;
           treeDataService?: TreeDataService;
           translaterService?: TranslaterService;
+          undoRedoService?: UndoRedoService;
           universalContainerService?: UniversalContainerService;
         }
       | undefined
@@ -356,6 +366,10 @@ export class SlickVanillaGridBundle<TData = any> {
 
     const slickgridConfig = new SlickgridConfig();
     this.backendUtilityService = services?.backendUtilityService ?? new BackendUtilityService();
+    this.backendGroupingService =
+      services?.backendGroupingService ?? new BackendGroupingService(this.backendUtilityService, this._eventPubSubService);
+    this.backendViewportService =
+      services?.backendViewportService ?? new BackendViewportService(this.backendUtilityService, this._eventPubSubService);
     this.gridEventService = services?.gridEventService ?? new GridEventService();
     this.sharedService = services?.sharedService ?? new SharedService();
     this.collectionService = services?.collectionService ?? new CollectionService(this.translaterService);
@@ -385,10 +399,11 @@ export class SlickVanillaGridBundle<TData = any> {
         () => this.gridService
       );
 
+    this.undoRedoService = services?.undoRedoService ?? new UndoRedoService(this.extensionService, this._eventPubSubService);
     // prettier-ignore
     this.gridStateService = services?.gridStateService ?? new GridStateService(this.extensionService, this.filterService, this._eventPubSubService, this.sharedService, this.sortService, this.treeDataService);
     // prettier-ignore
-    this.gridService = services?.gridService ?? new GridService(this.gridStateService, this.filterService, this._eventPubSubService, this.paginationService, this.sharedService, this.sortService, this.treeDataService);
+    this.gridService = services?.gridService ?? new GridService(this.gridStateService, this.filterService, this._eventPubSubService, this.paginationService, this.sharedService, this.sortService, this.treeDataService, this.undoRedoService, this.backendUtilityService);
     this.headerGroupingService = services?.headerGroupingService ?? new HeaderGroupingService(this.extensionUtility);
 
     if (hierarchicalDataset) {
@@ -414,6 +429,7 @@ export class SlickVanillaGridBundle<TData = any> {
     this.universalContainerService.registerInstance('SortService', this.sortService);
     this.universalContainerService.registerInstance('TranslaterService', this.translaterService);
     this.universalContainerService.registerInstance('TreeDataService', this.treeDataService);
+    this.universalContainerService.registerInstance('UndoRedoService', this.undoRedoService);
 
     this.initialization(this._gridContainerElm, eventHandler, dataset);
   }
@@ -430,6 +446,9 @@ export class SlickVanillaGridBundle<TData = any> {
     this._eventHandler?.unsubscribeAll();
 
     // dispose the Services
+    this.backendGroupingService?.dispose();
+    this.backendUtilityService?.dispose();
+    this.backendViewportService?.dispose();
     this.extensionService?.dispose();
     this.filterService?.dispose();
     this.gridEventService?.dispose();
@@ -440,6 +459,7 @@ export class SlickVanillaGridBundle<TData = any> {
     this.resizerService?.dispose();
     this.sortService?.dispose();
     this.treeDataService?.dispose();
+    this.undoRedoService?.dispose();
     this.universalContainerService?.dispose();
 
     // dispose backend service when defined and a dispose method exists
@@ -595,6 +615,11 @@ export class SlickVanillaGridBundle<TData = any> {
     this.registerResources();
 
     this.extensionService.bindDifferentExtensions();
+
+    // the Undo/Redo Service must be initialized after all extensions are bound since it also records the Excel Copy Buffer & Row Move changes
+    if (this._gridOptions.enableUndoRedo) {
+      this.undoRedoService.init(this.slickGrid);
+    }
     this.bindDifferentHooks(this.slickGrid, this._gridOptions, this.dataView as SlickDataView);
     this._slickgridInitialized = true;
 
@@ -727,6 +752,7 @@ export class SlickVanillaGridBundle<TData = any> {
       resizerService: this.resizerService,
       sortService: this.sortService,
       treeDataService: this.treeDataService,
+      undoRedoService: this.undoRedoService,
     };
 
     // addons (SlickGrid extra plugins/controls)
@@ -925,6 +951,9 @@ export class SlickVanillaGridBundle<TData = any> {
     const isExecuteCommandOnInit = (!serviceOptions) ? false : ((serviceOptions?.hasOwnProperty('executeProcessCommandOnInit')) ? serviceOptions['executeProcessCommandOnInit'] : true);
 
     if (backendApiService) {
+      // the grid is required by the loading & error overlay of the backend processes
+      this.backendUtilityService.init(this.slickGrid as SlickGrid);
+
       // update backend filters (if need be) BEFORE the query runs (via the onInit command a few lines below)
       // if user entered some any "presets", we need to reflect them all in the grid
       if (gridOptions?.presets) {
@@ -932,6 +961,14 @@ export class SlickVanillaGridBundle<TData = any> {
         if (backendApiService.updateFilters && Array.isArray(gridOptions.presets.filters) && gridOptions.presets.filters.length > 0) {
           backendApiService.updateFilters(gridOptions.presets.filters, true);
         }
+        // Global Search "presets"
+        if (backendApiService.updateGlobalSearch && gridOptions.presets.globalSearch?.searchTerm) {
+          backendApiService.updateGlobalSearch(gridOptions.presets.globalSearch);
+        }
+        // Filter Expression "presets"
+        if (backendApiService.updateFilterExpression && gridOptions.presets.filterExpression) {
+          backendApiService.updateFilterExpression(gridOptions.presets.filterExpression);
+        }
         // Sorters "presets"
         if (backendApiService.updateSorters && Array.isArray(gridOptions.presets.sorters) && gridOptions.presets.sorters.length > 0) {
           // when using multi-column sort, we can have multiple but on single sort then only grab the first sort provided
@@ -950,10 +987,18 @@ export class SlickVanillaGridBundle<TData = any> {
         }
       }
 
+      // when using server-side grouping, the grouping service takes over the dataset and the grouping must be known before the onInit query
+      if (serviceOptions.serverSideGrouping) {
+        this.backendGroupingService.init(this.slickGrid as SlickGrid, this.dataView as SlickDataView);
+      }
+
       // execute onInit command when necessary
       if (backendApi && backendApiService && (backendApi.onInit || isExecuteCommandOnInit)) {
         const query = typeof backendApiService.buildQuery === 'function' ? backendApiService.buildQuery() : '';
-        const process = isExecuteCommandOnInit ? (backendApi.process?.(query) ?? null) : (backendApi.onInit?.(query) ?? null);
+        const processOptions = { variables: backendApiService.getQueryVariables?.() };
+        const process = isExecuteCommandOnInit
+          ? (backendApi.process?.(query, processOptions) ?? null)
+          : (backendApi.onInit?.(query, processOptions) ?? null);
 
         // wrap this inside a microtask to be executed at the end of the task and avoid timing issue since the gridOptions needs to be ready before running this onInit
         queueMicrotaskPolyfill(() => {
@@ -968,15 +1013,18 @@ export class SlickVanillaGridBundle<TData = any> {
           const totalItems = this.gridOptions?.pagination?.totalItems ?? 0;
           if (process instanceof Promise) {
             process
-              .then((processResult: any) =>
-                backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems)
-              )
+              .then((processResult: any) => {
+                backendUtilityService.setCachedResult(backendApi, query, processResult, processOptions.variables);
+                backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems);
+              })
               .catch((error) => backendUtilityService.onBackendError(error, backendApi));
           } else if (process && this.rxjs?.isObservable(process)) {
             this.subscriptions.push(
               (process as Observable<any>).subscribe(
-                (processResult: any) =>
-                  backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems),
+                (processResult: any) => {
+                  backendUtilityService.setCachedResult(backendApi, query, processResult, processOptions.variables);
+                  backendUtilityService.executeBackendProcessesCallback(startTime, processResult, backendApi, totalItems);
+                },
                 (error: any) => backendUtilityService.onBackendError(error, backendApi)
               )
             );
@@ -984,9 +1032,13 @@ export class SlickVanillaGridBundle<TData = any> {
         });
       }
 
-      // when user enables Infinite Scroll
+      // when user enables Infinite Scroll, the "viewport" mode uses a virtual data source that lazy loads the rows visible in the viewport
       if (backendApi.service.options?.infiniteScroll) {
-        this.addBackendInfiniteScrollCallback();
+        if ((backendApi.service.options.infiniteScroll as InfiniteScrollOption).mode === 'viewport') {
+          this.backendViewportService.init(this.slickGrid as SlickGrid, this.dataView as SlickDataView);
+        } else {
+          this.addBackendInfiniteScrollCallback();
+        }
       }
     }
   }
@@ -1541,6 +1593,8 @@ export class SlickVanillaGridBundle<TData = any> {
   protected registerRxJsResource(resource: RxJsFacade): void {
     this.rxjs = resource;
     this.backendUtilityService.addRxJsResource(this.rxjs);
+    this.backendGroupingService.addRxJsResource(this.rxjs);
+    this.backendViewportService.addRxJsResource(this.rxjs);
     this.filterFactory.addRxJsResource(this.rxjs);
     this.filterService.addRxJsResource(this.rxjs);
     this.sortService.addRxJsResource(this.rxjs);
@@ -65,10 +65,13 @@ const headerGroupingServiceStub = {
 
 const backendUtilityServiceStub = {
   addRxJsResource: vi.fn(),
+  dispose: vi.fn(),
   executeBackendProcessesCallback: vi.fn(),
   executeBackendCallback: vi.fn(),
+  init: vi.fn(),
   onBackendError: vi.fn(),
   refreshBackendDataset: vi.fn(),
+  setCachedResult: vi.fn(),
 } as unknown as BackendUtilityService;
 
 const collectionServiceStub = {
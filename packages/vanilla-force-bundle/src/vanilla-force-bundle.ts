@@ -18,6 +18,7 @@ import type {
   SortService,
   TranslaterService,
   TreeDataService,
+  UndoRedoService,
 } from '@slickgrid-universal/common';
 import { GlobalGridOptions } from '@slickgrid-universal/common';
 import { SlickCompositeEditorComponent } from '@slickgrid-universal/composite-editor-component';
@@ -66,6 +67,7 @@ export class VanillaForceGridBundle extends SlickVanillaGridBundle {
       sortService?: SortService;
       treeDataService?: TreeDataService;
       translaterService?: TranslaterService;
+      undoRedoService?: UndoRedoService;
       universalContainerService?: UniversalContainerService;
     }
   ) {
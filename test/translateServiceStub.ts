@@ -14,6 +14,9 @@ export class TranslateServiceStub implements TranslaterService {
   translate(translationKey: string): string {
     let output = translationKey;
     switch (translationKey) {
+      case 'ADVANCED_FILTER':
+        output = this._locale === 'en' ? 'Advanced Filter' : 'Filtre avancé';
+        break;
       case 'ALL_SELECTED':
         output = this._locale === 'en' ? 'All Selected' : 'Tout sélectionnés';
         break;
@@ -50,6 +53,9 @@ export class TranslateServiceStub implements TranslaterService {
       case 'COLUMN_RESIZE_BY_CONTENT':
         output = this._locale === 'en' ? 'Resize by Content' : 'Redimensionner par contenu';
         break;
+      case 'CONDITIONAL_FORMATTING':
+        output = this._locale === 'en' ? 'Conditional Formatting' : 'Mise en forme conditionnelle';
+        break;
       case 'COMMANDS':
         output = this._locale === 'en' ? 'Commands' : 'Commandes';
         break;
@@ -95,6 +101,9 @@ export class TranslateServiceStub implements TranslaterService {
       case 'EXPORT_TO_PDF':
         output = this._locale === 'en' ? 'Export to PDF' : 'Exporter vers PDF';
         break;
+      case 'DATA_BAR':
+        output = this._locale === 'en' ? 'Data Bar' : 'Barre de données';
+        break;
       case 'EXPORT_TO_TAB_DELIMITED':
         output = this._locale === 'en' ? 'Export in Text format (Tab delimited)' : 'Exporter en format texte (délimité par tabulation)';
         break;
@@ -116,6 +125,9 @@ export class TranslateServiceStub implements TranslaterService {
       case 'FREEZE_COLUMNS':
         output = this._locale === 'en' ? 'Freeze Columns' : 'Geler les colonnes';
         break;
+      case 'FREEZE_COLUMNS_RIGHT':
+        output = this._locale === 'en' ? 'Freeze Columns (Right)' : 'Geler les colonnes (droite)';
+        break;
       case 'UNFREEZE_COLUMNS':
         output = this._locale === 'en' ? 'Unfreeze Columns' : 'Dégeler les colonnes';
         break;